@@ -0,0 +1,54 @@
+/**
+ * Appointment lifecycle job route
+ *
+ * Runs runAppointmentLifecycleJob, which completes ended sessions, expires
+ * unanswered booking requests and waitlist offers and notifies the clients,
+ * then runWaitlistJob, which offers cancelled times (including those of
+ * offers that just expired) to the waitlist, and finally syncs the
+ * payments of the appointments the lifecycle job changed and of cancelled
+ * sessions still waiting for their refund. Meant to be called
+ * on a schedule (e.g. every 15 minutes by a cron service) with
+ * `Authorization: Bearer $CRON_SECRET`.
+ *
+ * The job signs in with the system account given by JOB_RUNNER_EMAIL and
+ * JOB_RUNNER_PASSWORD, whose users document has role 'system'. Set
+ * NEXT_PUBLIC_FIREBASE_EMULATOR_HOST to run it against the local emulators.
+ */
+
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { signInJobRunner } from '@/lib/firebase/jobRunner';
+import { listRefundsDue, runAppointmentLifecycleJob } from '@/services/jobs/appointmentLifecycle';
+import { runWaitlistJob } from '@/services/jobs/waitlist';
+import { syncAppointmentPayments } from '@/services/payments/appointmentPayments';
+
+// Always run on request, never at build time
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    await signInJobRunner();
+    const lifecycle = await runAppointmentLifecycleJob();
+    const waitlist = await runWaitlistJob();
+    // Completed sessions capture their payment, expired requests release it,
+    // and cancelled sessions get refunds a failed sync left out
+    const refundsDue = await listRefundsDue();
+    const payments = await syncAppointmentPayments([
+      ...lifecycle.completed,
+      ...lifecycle.expired,
+      ...refundsDue,
+    ]);
+    return NextResponse.json({ lifecycle, waitlist, payments });
+  } catch (err) {
+    console.error('Error running appointment jobs:', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to run appointment jobs' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * Appointment payment sync route
+ *
+ * Brings the payments of the given appointments in line with their status
+ * (see syncAppointmentPayments): called by the app after a client books,
+ * a practitioner confirms or anyone cancels, with the user's Firebase ID
+ * token as `Authorization: Bearer <token>` and a JSON body of
+ * `{ appointmentIds: string[] }`. Only the appointments the user is the
+ * client or practitioner of are synced and reported on. What happens to
+ * each payment is read from the appointment in Firestore, never from the
+ * request, so calling it more than once changes nothing.
+ *
+ * Signs in with the system account (see signInJobRunner), the only account
+ * firestore.rules lets change payment fields.
+ */
+
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { getRequestUserId } from '@/lib/firebase/idTokens';
+import { signInJobRunner } from '@/lib/firebase/jobRunner';
+import { MAX_SERIES_OCCURRENCES } from '@/lib/scheduling/recurrence';
+import { syncUserAppointmentPayments } from '@/services/payments/appointmentPayments';
+
+// Always run on request, never at build time
+export const dynamic = 'force-dynamic';
+
+/**
+ * Most appointments one request may sync (a whole recurring series)
+ */
+const MAX_APPOINTMENTS = MAX_SERIES_OCCURRENCES;
+
+export async function POST(request: NextRequest) {
+  const userId = await getRequestUserId(request).catch((err) => {
+    console.error('Error verifying ID token:', err);
+    return null;
+  });
+  if (!userId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const appointmentIds: unknown = body?.appointmentIds;
+  if (
+    !Array.isArray(appointmentIds) ||
+    appointmentIds.length === 0 ||
+    appointmentIds.length > MAX_APPOINTMENTS ||
+    !appointmentIds.every((id) => typeof id === 'string' && id.length > 0)
+  ) {
+    return NextResponse.json(
+      { error: `appointmentIds must list 1 to ${MAX_APPOINTMENTS} appointment IDs` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    await signInJobRunner();
+    const payments = await syncUserAppointmentPayments(userId, appointmentIds);
+    return NextResponse.json(payments);
+  } catch (err) {
+    console.error('Error syncing appointment payments:', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to sync appointment payments' },
+      { status: 500 }
+    );
+  }
+}
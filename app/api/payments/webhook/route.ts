@@ -0,0 +1,45 @@
+/**
+ * Payment webhook route
+ *
+ * Receives payment events from the payment gateway (Stripe's, or the mock
+ * gateway's in development) signed in the Stripe-Signature header, and
+ * applies them to the appointments they pay for (see handlePaymentWebhook).
+ * Each event is recorded in paymentEvents by its ID, so the provider's
+ * retries are acknowledged without being applied again.
+ *
+ * Requests that are not correctly signed get 400 and are not retried by
+ * the provider; failures on our side get 500 so the provider retries them.
+ * Signs in with the system account (see signInJobRunner).
+ */
+
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { signInJobRunner } from '@/lib/firebase/jobRunner';
+import { WebhookVerificationError } from '@/services/payments/errors';
+import { handlePaymentWebhook } from '@/services/payments/paymentWebhooks';
+
+// Always run on request, never at build time
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  // The signature covers the exact bytes sent, so read the body as text
+  const payload = await request.text();
+
+  try {
+    await signInJobRunner();
+    const { event, duplicate } = await handlePaymentWebhook(
+      payload,
+      request.headers.get('stripe-signature')
+    );
+    return NextResponse.json({ received: true, duplicate, outcome: event.outcome });
+  } catch (err) {
+    if (err instanceof WebhookVerificationError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    console.error('Error handling payment webhook:', err);
+    return NextResponse.json(
+      { error: err instanceof Error ? err.message : 'Failed to handle payment webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,12 @@
 /**
  * Client Dashboard Page
  * 
- * Displays client's upcoming appointments and appointment history.
- * Uses useAppointments hook with realtime updates.
+ * Displays client's notifications, waitlist offers and entries, upcoming
+ * appointments (with prompts to fill in the practitioner's intake form and
+ * questionnaires) and appointment history with fees, refunds and invoices,
+ * and links to the homework and notes shared from past sessions. Uses
+ * useAppointments, useNotifications and useWaitlist hooks with realtime
+ * updates.
  */
 
 'use client';
@@ -14,13 +18,26 @@ import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import { RequireAuth } from '@/components/auth/RequireAuth';
+import { InvoiceActions } from '@/components/appointments/InvoiceActions';
+import { RescheduleAppointmentDialog } from '@/components/appointments/RescheduleAppointmentDialog';
+import { SeriesScopeOptions } from '@/components/appointments/SeriesScopeOptions';
 import { useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useAppointments } from '@/hooks/firestore/useAppointments';
-import { useUpdateAppointment } from '@/hooks/firestore/useUpdateAppointment';
-import { Calendar, Clock, MapPin, Search, Plus, Video, XCircle } from 'lucide-react';
+import { useCancelAppointment } from '@/hooks/firestore/useCancelAppointment';
+import { useRescheduleAppointment } from '@/hooks/firestore/useRescheduleAppointment';
+import { useNotifications } from '@/hooks/firestore/useNotifications';
+import { useWaitlist } from '@/hooks/firestore/useWaitlist';
+import { useActiveIntakeTemplates } from '@/hooks/firestore/useActiveIntakeTemplates';
+import { Bell, Calendar, CheckCircle2, ClipboardList, Clock, Hourglass, ListChecks, MapPin, NotebookPen, Search, Plus, Repeat, RotateCcw, Video, X, XCircle } from 'lucide-react';
 import { format } from 'date-fns';
-import { Timestamp } from 'firebase/firestore';
+import { describeRefundStatus, getCancellationRefund } from '@/lib/payments/refunds';
+import { getCancellationPolicy, getCancellationTerms } from '@/lib/scheduling/cancellation';
+import { describeRecurrence } from '@/lib/scheduling/recurrence';
+import { getBrowserTimeZone } from '@/lib/scheduling/timezone';
+import { describeWaitlistWindows, isOpenWaitlistOffer } from '@/lib/scheduling/waitlist';
+import { formatPrice } from '@/lib/utils';
+import type { AppointmentDocument, SeriesScope } from '@/types/firestore';
 import Link from 'next/link';
 import {
   AlertDialog,
@@ -48,18 +65,36 @@ function ClientDashboardContent() {
     clientId: user?.uid || undefined,
     realtime: true,
   });
-  const { updateAppointment, loading: updating } = useUpdateAppointment();
+  const { cancelAppointment, loading: cancelling } = useCancelAppointment();
+  const { respondToRescheduleRequest, loading: withdrawing } = useRescheduleAppointment();
+  const { notifications, markAsRead } = useNotifications(user?.uid);
+  const {
+    entries: waitlistEntries,
+    acceptOffer,
+    declineOffer,
+    removeEntry,
+    submitting: updatingWaitlist,
+  } = useWaitlist('client', user?.uid);
   const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [cancelScope, setCancelScope] = useState<SeriesScope>('this');
+  const timeZone = getBrowserTimeZone();
 
-  // Separate upcoming and past appointments
+  // Separate upcoming and past appointments. Waitlist offers are shown with
+  // the waitlist until accepted, and not at all if they lapsed.
   const now = new Date();
+  const wasWaitlistOffer = (apt: AppointmentDocument) =>
+    !!apt.waitlistOffer && apt.waitlistOffer.acceptedAt == null;
   const upcoming = appointments
-    .filter((apt) => apt.startTime.toDate() >= now && apt.status !== 'cancelled')
+    .filter((apt) => apt.startTime.toDate() >= now && apt.status !== 'cancelled' && !isOpenWaitlistOffer(apt))
     .sort((a, b) => a.startTime.toMillis() - b.startTime.toMillis());
   const past = appointments
-    .filter((apt) => apt.startTime.toDate() < now || apt.status === 'cancelled')
+    .filter((apt) => (apt.startTime.toDate() < now || apt.status === 'cancelled') && !wasWaitlistOffer(apt))
     .sort((a, b) => b.startTime.toMillis() - a.startTime.toMillis());
   
+  const { templates: intakeTemplates, questionnaires } = useActiveIntakeTemplates(
+    upcoming.map((apt) => apt.practitionerId)
+  );
+
   const confirmed = upcoming.filter((apt) => apt.status === 'confirmed');
   const pending = upcoming.filter((apt) => apt.status === 'pending');
 
@@ -80,11 +115,7 @@ function ClientDashboardContent() {
 
   const handleCancelAppointment = async (appointmentId: string) => {
     setCancellingId(appointmentId);
-    const result = await updateAppointment(appointmentId, {
-      status: 'cancelled',
-      cancelledBy: 'client',
-      cancelledAt: Timestamp.now(),
-    });
+    const result = await cancelAppointment(appointmentId, 'client', cancelScope);
     setCancellingId(null);
     return result;
   };
@@ -99,12 +130,20 @@ function ClientDashboardContent() {
             <h1 className="text-4xl font-serif font-bold mb-2">Dashboard</h1>
             <p className="text-muted-foreground">Manage your appointments and sessions</p>
           </div>
-          <Button asChild>
-            <Link href="/practitioners/browse">
-              <Plus className="h-4 w-4 mr-2" />
-              Book Appointment
-            </Link>
-          </Button>
+          <div className="flex gap-2">
+            <Button asChild variant="outline">
+              <Link href="/client/sessions">
+                <NotebookPen className="h-4 w-4 mr-2" />
+                Homework &amp; Notes
+              </Link>
+            </Button>
+            <Button asChild>
+              <Link href="/practitioners/browse">
+                <Plus className="h-4 w-4 mr-2" />
+                Book Appointment
+              </Link>
+            </Button>
+          </div>
         </div>
 
         {loading ? (
@@ -121,6 +160,104 @@ function ClientDashboardContent() {
           </div>
         ) : (
           <div className="space-y-8">
+            {/* Notifications */}
+            {notifications.length > 0 && (
+              <div>
+                <h2 className="text-2xl font-semibold mb-4 flex items-center gap-2">
+                  <Bell className="h-6 w-6" />
+                  Updates
+                </h2>
+                <div className="space-y-2">
+                  {notifications.map((notification) => (
+                    <Card key={notification.id}>
+                      <CardContent className="p-4 flex items-start justify-between gap-4">
+                        <div>
+                          <p className="font-medium">{notification.title}</p>
+                          <p className="text-sm text-muted-foreground">{notification.message}</p>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          aria-label="Dismiss"
+                          onClick={() => markAsRead(notification.id)}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Waitlist */}
+            {waitlistEntries.length > 0 && (
+              <div>
+                <h2 className="text-2xl font-semibold mb-4 flex items-center gap-2">
+                  <Hourglass className="h-6 w-6" />
+                  Waitlist
+                </h2>
+                <div className="space-y-2">
+                  {waitlistEntries.map((entry) => (
+                    <Card key={entry.id}>
+                      <CardContent className="p-4 flex flex-wrap items-start justify-between gap-4">
+                        {entry.status === 'offered' && entry.offer ? (
+                          <div>
+                            <p className="font-medium">
+                              A time has opened up:{' '}
+                              {format(entry.offer.startTime.toDate(), 'EEEE, MMMM d, h:mm a')} -{' '}
+                              {format(entry.offer.endTime.toDate(), 'h:mm a')}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              {entry.sessionType.name} · Held for you until{' '}
+                              {format(entry.offer.expiresAt.toDate(), 'MMM d, h:mm a')}
+                            </p>
+                          </div>
+                        ) : (
+                          <div>
+                            <p className="font-medium">Waiting for {entry.sessionType.name}</p>
+                            <p className="text-sm text-muted-foreground">
+                              {describeWaitlistWindows(entry.windows)}
+                            </p>
+                          </div>
+                        )}
+                        <div className="flex gap-2">
+                          {entry.status === 'offered' ? (
+                            <>
+                              <Button
+                                size="sm"
+                                onClick={() => acceptOffer(entry)}
+                                disabled={updatingWaitlist}
+                              >
+                                Accept
+                              </Button>
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => declineOffer(entry)}
+                                disabled={updatingWaitlist}
+                              >
+                                Decline
+                              </Button>
+                            </>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeEntry(entry, 'client')}
+                              disabled={updatingWaitlist}
+                            >
+                              Leave Waitlist
+                            </Button>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Stats Cards */}
             <div className="grid md:grid-cols-3 gap-6">
               <Card>
@@ -193,6 +330,12 @@ function ClientDashboardContent() {
                               {format(appointment.startTime.toDate(), 'h:mm a')} -{' '}
                               {format(appointment.endTime.toDate(), 'h:mm a')}
                             </CardDescription>
+                            {appointment.recurrence && (
+                              <CardDescription className="flex items-center gap-2 mt-1">
+                                <Repeat className="h-4 w-4" />
+                                {describeRecurrence(appointment.recurrence, timeZone)}
+                              </CardDescription>
+                            )}
                           </div>
                           <Badge variant={getStatusColor(appointment.status)}>
                             {appointment.status}
@@ -203,6 +346,72 @@ function ClientDashboardContent() {
                         {appointment.notes && (
                           <p className="text-sm text-muted-foreground">{appointment.notes}</p>
                         )}
+                        {appointment.pendingReschedule && (
+                          <div className="rounded-md border p-3 text-sm flex items-center justify-between gap-4">
+                            <span>
+                              Requested new time:{' '}
+                              <span className="font-medium">
+                                {format(appointment.pendingReschedule.startTime.toDate(), 'EEE, MMM d, h:mm a')}
+                              </span>
+                              <span className="text-muted-foreground"> (awaiting practitioner)</span>
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => respondToRescheduleRequest(appointment.id, false)}
+                              disabled={withdrawing}
+                            >
+                              Withdraw
+                            </Button>
+                          </div>
+                        )}
+                        {appointment.intakeFormCompleted ? (
+                          <p className="text-sm text-muted-foreground flex items-center gap-2">
+                            <CheckCircle2 className="h-4 w-4" />
+                            Intake form submitted
+                            <Link
+                              href={`/client/intake/${appointment.id}`}
+                              className="underline underline-offset-4"
+                            >
+                              View
+                            </Link>
+                          </p>
+                        ) : (
+                          intakeTemplates[appointment.practitionerId] && (
+                            <div className="rounded-md border p-3 text-sm flex items-center justify-between gap-4">
+                              <span>
+                                Please fill in{' '}
+                                <span className="font-medium">
+                                  {intakeTemplates[appointment.practitionerId].title}
+                                </span>{' '}
+                                before your session
+                              </span>
+                              <Button asChild size="sm">
+                                <Link href={`/client/intake/${appointment.id}`}>
+                                  <ClipboardList className="h-4 w-4 mr-2" />
+                                  Fill In
+                                </Link>
+                              </Button>
+                            </div>
+                          )
+                        )}
+                        {questionnaires[appointment.practitionerId] && (
+                          <div className="rounded-md border p-3 text-sm flex items-center justify-between gap-4">
+                            <span>
+                              Your practitioner asks you to fill in{' '}
+                              {questionnaires[appointment.practitionerId].length === 1
+                                ? 'a short questionnaire'
+                                : `${questionnaires[appointment.practitionerId].length} short questionnaires`}{' '}
+                              before each session
+                            </span>
+                            <Button asChild size="sm" variant="outline">
+                              <Link href={`/client/questionnaires/${appointment.id}`}>
+                                <ListChecks className="h-4 w-4 mr-2" />
+                                Questionnaires
+                              </Link>
+                            </Button>
+                          </div>
+                        )}
                         <div className={appointment.notes || appointment.meetingLink ? "pt-2 border-t space-y-2" : "space-y-2"}>
                           {appointment.meetingLink && appointment.status !== 'cancelled' && (
                             <Button
@@ -221,14 +430,17 @@ function ClientDashboardContent() {
                               </a>
                             </Button>
                           )}
+                          {appointment.status !== 'cancelled' && !appointment.pendingReschedule && (
+                            <RescheduleAppointmentDialog appointment={appointment} requestedBy="client" />
+                          )}
                           {appointment.status !== 'cancelled' && (
-                            <AlertDialog>
+                            <AlertDialog onOpenChange={(open) => open && setCancelScope('this')}>
                               <AlertDialogTrigger asChild>
                                 <Button
                                   variant="destructive"
                                   size="sm"
                                   className="w-full"
-                                  disabled={updating && cancellingId === appointment.id}
+                                  disabled={cancelling && cancellingId === appointment.id}
                                 >
                                   <XCircle className="h-4 w-4 mr-2" />
                                   Cancel Appointment
@@ -241,6 +453,18 @@ function ClientDashboardContent() {
                                     Are you sure you want to cancel this appointment? This action cannot be undone.
                                     The practitioner will be notified of the cancellation.
                                   </AlertDialogDescription>
+                                  <CancellationNotice appointment={appointment} />
+                                  <SeriesScopeOptions
+                                    appointment={appointment}
+                                    value={cancelScope}
+                                    onChange={setCancelScope}
+                                    timeZone={timeZone}
+                                  />
+                                  {cancelScope !== 'this' && (
+                                    <p className="text-sm text-muted-foreground">
+                                      Each appointment is cancelled under its own cancellation policy.
+                                    </p>
+                                  )}
                                 </AlertDialogHeader>
                                 <AlertDialogFooter>
                                   <AlertDialogCancel>Keep Appointment</AlertDialogCancel>
@@ -282,10 +506,26 @@ function ClientDashboardContent() {
                             </CardDescription>
                           </div>
                           <Badge variant={getStatusColor(appointment.status)}>
-                            {appointment.status}
+                            {appointment.cancelledBy === 'system' ? 'expired' : appointment.status}
                           </Badge>
                         </div>
                       </CardHeader>
+                      {appointment.feeOwed != null && appointment.feeOwed > 0 && appointment.currency && (
+                        <CardContent className="pb-0">
+                          <p className="text-sm text-muted-foreground">
+                            {appointment.status === 'no-show' ? 'No-show' : 'Late cancellation'} fee:{' '}
+                            <span className="font-medium text-foreground">
+                              {formatPrice(appointment.feeOwed, appointment.currency)}
+                            </span>
+                          </p>
+                        </CardContent>
+                      )}
+                      <RefundStatus appointment={appointment} />
+                      {appointment.invoiceId && (
+                        <CardContent className="flex flex-wrap gap-2 pt-4 pb-0">
+                          <InvoiceActions appointment={appointment} />
+                        </CardContent>
+                      )}
                       {appointment.meetingLink && appointment.status === 'completed' && (
                         <CardContent>
                           <Button
@@ -319,3 +559,64 @@ function ClientDashboardContent() {
   );
 }
 
+/**
+ * What cancelling now costs under the policy agreed when booking, and what
+ * is refunded of a session already paid for
+ */
+function CancellationNotice({ appointment }: { appointment: AppointmentDocument }) {
+  const policy = getCancellationPolicy(appointment);
+  const terms = getCancellationTerms(appointment, 'client', policy);
+  const refund = getCancellationRefund({
+    ...appointment,
+    status: 'cancelled',
+    cancelledBy: 'client',
+    lateCancellation: terms.lateCancellation,
+    feeOwed: terms.fee,
+  });
+  const refundNotice = refund && refund.amount > 0 && appointment.currency && (
+    <p className="text-sm text-muted-foreground">
+      You will be refunded {formatPrice(refund.amount, appointment.currency)}.
+    </p>
+  );
+
+  if (!terms.lateCancellation) {
+    return (
+      <>
+        <p className="text-sm text-muted-foreground">
+          There is no charge for cancelling now.
+        </p>
+        {refundNotice}
+      </>
+    );
+  }
+
+  return (
+    <>
+      <p className="text-sm font-medium text-destructive">
+        {terms.fee > 0 && appointment.currency
+          ? `This is less than ${policy.freeCancellationHours} hours before the session, so a late cancellation fee of ${formatPrice(terms.fee, appointment.currency)} applies.`
+          : `This is less than ${policy.freeCancellationHours} hours before the session and will be recorded as a late cancellation.`}
+      </p>
+      {refundNotice}
+    </>
+  );
+}
+
+/**
+ * Refund status of a cancelled appointment that was paid for
+ */
+function RefundStatus({ appointment }: { appointment: AppointmentDocument }) {
+  const status = describeRefundStatus(appointment);
+  if (!status) {
+    return null;
+  }
+
+  return (
+    <CardContent className="pb-0">
+      <p className="text-sm text-muted-foreground flex items-center gap-2">
+        <RotateCcw className="h-4 w-4" />
+        {status}
+      </p>
+    </CardContent>
+  );
+}
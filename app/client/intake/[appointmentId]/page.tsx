@@ -0,0 +1,142 @@
+/**
+ * Client Intake Form Page
+ *
+ * Lets a client fill in their practitioner's intake form for an
+ * appointment. The form is rendered from the template, a section per page,
+ * with conditional questions shown as the answers call for them; answers
+ * are checked against each field's rules before the form is submitted.
+ * Once submitted, the page shows the client's answers.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { Header } from '@/components/header';
+import { Footer } from '@/components/footer';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { RequireAuth } from '@/components/auth/RequireAuth';
+import { IntakeFormSteps } from '@/components/intake/IntakeFormSteps';
+import { IntakeResponsesList } from '@/components/intake/IntakeResponsesList';
+import { useAuth } from '@/hooks/useAuth';
+import { useAppointmentIntake } from '@/hooks/firestore/useAppointmentIntake';
+import type { IntakeFormResponseValue } from '@/types/firestore';
+import { ArrowLeft } from 'lucide-react';
+
+export default function ClientIntakePage() {
+  return (
+    <RequireAuth>
+      <ClientIntakeContent />
+    </RequireAuth>
+  );
+}
+
+function ClientIntakeContent() {
+  const params = useParams();
+  const appointmentId = params.appointmentId as string;
+  const router = useRouter();
+  const { user } = useAuth();
+  const { appointment, template, submittedForm, loading, error, submitForm, submitting } =
+    useAppointmentIntake(appointmentId, user?.uid);
+  const [values, setValues] = useState<Record<string, IntakeFormResponseValue>>({});
+
+  const handleChange = (fieldId: string, value: IntakeFormResponseValue) => {
+    setValues((current) => ({ ...current, [fieldId]: value }));
+  };
+
+  const handleSubmit = async () => {
+    if (await submitForm(values)) {
+      router.push('/client/dashboard');
+    }
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen">
+        <Header />
+        <div className="container mx-auto px-4 py-12 max-w-3xl">
+          <Skeleton className="h-10 w-64 mb-8" />
+          <Card>
+            <CardContent className="p-6">
+              <Skeleton className="h-48 w-full" />
+            </CardContent>
+          </Card>
+        </div>
+        <Footer />
+      </main>
+    );
+  }
+
+  const form = submittedForm ?? template;
+
+  return (
+    <main className="min-h-screen">
+      <Header />
+
+      <div className="container mx-auto px-4 py-12 max-w-3xl">
+        <div className="mb-8">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link href="/client/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-serif font-bold mb-2">Intake Form</h1>
+          {appointment && (
+            <p className="text-muted-foreground">
+              For your appointment on{' '}
+              {format(appointment.startTime.toDate(), "EEEE, MMMM d 'at' h:mm a")}
+            </p>
+          )}
+        </div>
+
+        {error || !appointment ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              {error || 'Appointment not found'}
+            </CardContent>
+          </Card>
+        ) : !form ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              Your practitioner has no intake form for you to fill in.
+            </CardContent>
+          </Card>
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>{form.title}</CardTitle>
+              {form.description && <CardDescription>{form.description}</CardDescription>}
+            </CardHeader>
+            <CardContent>
+              {submittedForm ? (
+                <>
+                  {submittedForm.submittedAt && (
+                    <p className="text-sm text-muted-foreground mb-6">
+                      Submitted {format(submittedForm.submittedAt.toDate(), 'MMMM d, yyyy')}
+                    </p>
+                  )}
+                  <IntakeResponsesList form={submittedForm} />
+                </>
+              ) : (
+                <IntakeFormSteps
+                  form={form}
+                  values={values}
+                  onChange={handleChange}
+                  onSubmit={handleSubmit}
+                  submitting={submitting}
+                />
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+
+      <Footer />
+    </main>
+  );
+}
@@ -0,0 +1,160 @@
+/**
+ * Client Questionnaires Page
+ *
+ * Lets a client fill in their practitioner's scored questionnaires for an
+ * appointment, one at a time. Each questionnaire is filled in once per
+ * appointment; those already submitted are marked as done.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { format } from 'date-fns';
+import { Header } from '@/components/header';
+import { Footer } from '@/components/footer';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { RequireAuth } from '@/components/auth/RequireAuth';
+import { IntakeFormSteps } from '@/components/intake/IntakeFormSteps';
+import { useAuth } from '@/hooks/useAuth';
+import { useAppointmentQuestionnaires } from '@/hooks/firestore/useAppointmentQuestionnaires';
+import type { IntakeFormResponseValue } from '@/types/firestore';
+import { ArrowLeft, CheckCircle2 } from 'lucide-react';
+
+export default function ClientQuestionnairesPage() {
+  return (
+    <RequireAuth>
+      <ClientQuestionnairesContent />
+    </RequireAuth>
+  );
+}
+
+function ClientQuestionnairesContent() {
+  const params = useParams();
+  const appointmentId = params.appointmentId as string;
+  const { user } = useAuth();
+  const {
+    appointment,
+    questionnaires,
+    submissions,
+    loading,
+    error,
+    submitQuestionnaire,
+    submitting,
+  } = useAppointmentQuestionnaires(appointmentId, user?.uid);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [values, setValues] = useState<Record<string, IntakeFormResponseValue>>({});
+
+  const startQuestionnaire = (templateId: string) => {
+    setActiveId(templateId);
+    setValues({});
+  };
+
+  const handleSubmit = async () => {
+    if (activeId && (await submitQuestionnaire(activeId, values))) {
+      setActiveId(null);
+      setValues({});
+    }
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen">
+        <Header />
+        <div className="container mx-auto px-4 py-12 max-w-3xl">
+          <Skeleton className="h-10 w-64 mb-8" />
+          <Card>
+            <CardContent className="p-6">
+              <Skeleton className="h-48 w-full" />
+            </CardContent>
+          </Card>
+        </div>
+        <Footer />
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen">
+      <Header />
+
+      <div className="container mx-auto px-4 py-12 max-w-3xl">
+        <div className="mb-8">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link href="/client/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-serif font-bold mb-2">Questionnaires</h1>
+          {appointment && (
+            <p className="text-muted-foreground">
+              For your appointment on{' '}
+              {format(appointment.startTime.toDate(), "EEEE, MMMM d 'at' h:mm a")}
+            </p>
+          )}
+        </div>
+
+        {error || !appointment ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              {error || 'Appointment not found'}
+            </CardContent>
+          </Card>
+        ) : questionnaires.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              Your practitioner has no questionnaires for you to fill in.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {questionnaires.map((questionnaire) => {
+              const submission = submissions[questionnaire.id];
+
+              return (
+                <Card key={questionnaire.id}>
+                  <CardHeader>
+                    <CardTitle>{questionnaire.title}</CardTitle>
+                    {questionnaire.description && (
+                      <CardDescription>{questionnaire.description}</CardDescription>
+                    )}
+                  </CardHeader>
+                  <CardContent>
+                    {submission ? (
+                      <p className="text-sm text-muted-foreground flex items-center gap-2">
+                        <CheckCircle2 className="h-4 w-4" />
+                        Submitted
+                        {submission.submittedAt &&
+                          ` ${format(submission.submittedAt.toDate(), 'MMMM d, yyyy')}`}
+                      </p>
+                    ) : activeId === questionnaire.id ? (
+                      <IntakeFormSteps
+                        form={questionnaire}
+                        values={values}
+                        onChange={(fieldId, value) =>
+                          setValues((current) => ({ ...current, [fieldId]: value }))
+                        }
+                        onSubmit={handleSubmit}
+                        submitting={submitting}
+                      />
+                    ) : (
+                      <Button onClick={() => startQuestionnaire(questionnaire.id)}>
+                        Fill In
+                      </Button>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Footer />
+    </main>
+  );
+}
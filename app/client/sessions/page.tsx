@@ -0,0 +1,200 @@
+/**
+ * Client Sessions Page
+ *
+ * Shows a client the goals and homework their practitioners shared from
+ * past sessions, newest first. Clients tick off homework as they do it and
+ * can write reflections on each session for their practitioner to read.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Header } from '@/components/header';
+import { Footer } from '@/components/footer';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import { RequireAuth } from '@/components/auth/RequireAuth';
+import { useAuth } from '@/hooks/useAuth';
+import { useSharedSessions } from '@/hooks/firestore/useSharedSessions';
+import { getHomeworkProgress } from '@/lib/sessions/notes';
+import { ArrowLeft, NotebookPen } from 'lucide-react';
+
+export default function ClientSessionsPage() {
+  return (
+    <RequireAuth>
+      <ClientSessionsContent />
+    </RequireAuth>
+  );
+}
+
+function ClientSessionsContent() {
+  const { user } = useAuth();
+  const {
+    sessions,
+    loading,
+    error,
+    setHomeworkCompleted,
+    saveReflections,
+    submitting,
+  } = useSharedSessions(user?.uid);
+  const [reflections, setReflections] = useState<Record<string, string>>({});
+
+  const handleSaveReflections = async (sessionId: string) => {
+    if (await saveReflections(sessionId, reflections[sessionId] ?? '')) {
+      setReflections((current) => {
+        const next = { ...current };
+        delete next[sessionId];
+        return next;
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen">
+        <Header />
+        <div className="container mx-auto px-4 py-12 max-w-3xl">
+          <Skeleton className="h-10 w-64 mb-8" />
+          <Card>
+            <CardContent className="p-6">
+              <Skeleton className="h-48 w-full" />
+            </CardContent>
+          </Card>
+        </div>
+        <Footer />
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen">
+      <Header />
+
+      <div className="container mx-auto px-4 py-12 max-w-3xl">
+        <div className="mb-8">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link href="/client/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-serif font-bold mb-2">Homework &amp; Notes</h1>
+          <p className="text-muted-foreground">
+            Goals and homework from your sessions, and your reflections on them
+          </p>
+        </div>
+
+        {error ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">{error}</CardContent>
+          </Card>
+        ) : sessions.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <NotebookPen className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-muted-foreground">
+                Nothing has been shared with you yet. Your practitioner shares goals and
+                homework after your sessions.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {sessions.map((session) => {
+              const progress = getHomeworkProgress(session);
+              const draft = reflections[session.id] ?? session.clientNotes ?? '';
+              const reflectionsChanged = draft.trim() !== (session.clientNotes ?? '');
+
+              return (
+                <Card key={session.id}>
+                  <CardHeader>
+                    <CardTitle>
+                      {format(session.sessionDate.toDate(), 'EEEE, MMMM d, yyyy')}
+                    </CardTitle>
+                    {progress.total > 0 && (
+                      <CardDescription>
+                        {progress.done} of {progress.total} homework done
+                      </CardDescription>
+                    )}
+                  </CardHeader>
+                  <CardContent className="space-y-6 text-sm">
+                    {session.goals.length > 0 && (
+                      <div>
+                        <h3 className="font-medium mb-1">Goals</h3>
+                        <ul className="list-disc pl-5 space-y-1">
+                          {session.goals.map((goal, index) => (
+                            <li key={index}>{goal}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    {session.homework.length > 0 && (
+                      <div>
+                        <h3 className="font-medium mb-2">Homework</h3>
+                        <div className="space-y-2">
+                          {session.homework.map((item, index) => {
+                            const inputId = `homework-${session.id}-${index}`;
+
+                            return (
+                              <div key={index} className="flex items-center gap-2">
+                                <Checkbox
+                                  id={inputId}
+                                  checked={session.completedHomework.includes(item)}
+                                  onCheckedChange={(checked) =>
+                                    setHomeworkCompleted(session.id, item, checked === true)
+                                  }
+                                  disabled={submitting}
+                                />
+                                <Label htmlFor={inputId} className="font-normal">
+                                  {item}
+                                </Label>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+
+                    <div className="space-y-2">
+                      <Label htmlFor={`reflections-${session.id}`}>Your reflections</Label>
+                      <Textarea
+                        id={`reflections-${session.id}`}
+                        value={draft}
+                        onChange={(e) =>
+                          setReflections((current) => ({
+                            ...current,
+                            [session.id]: e.target.value,
+                          }))
+                        }
+                        placeholder="How did it go? Anything you'd like your practitioner to know?"
+                        rows={4}
+                      />
+                      <div className="flex justify-end">
+                        <Button
+                          size="sm"
+                          onClick={() => handleSaveReflections(session.id)}
+                          disabled={submitting || !reflectionsChanged}
+                        >
+                          {submitting ? 'Saving...' : 'Save Reflections'}
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      <Footer />
+    </main>
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * Client Sessions Page
+ *
+ * Timeline of a practitioner's sessions with one client, oldest first,
+ * showing each session's notes, goals and homework, how much of the
+ * homework the client has done, whether the notes are still a draft, and a
+ * link to open them. Also where the practitioner downloads a superbill of
+ * the client's completed sessions.
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { format } from 'date-fns';
+import { Header } from '@/components/header';
+import { Footer } from '@/components/footer';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { RequireAuth } from '@/components/auth/RequireAuth';
+import { SessionNotesSummary } from '@/components/sessions/SessionNotesSummary';
+import { SuperbillDialog } from '@/components/practitioner/SuperbillDialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useClientHistory } from '@/hooks/firestore/useClientHistory';
+import { useClientSessions } from '@/hooks/firestore/useClientSessions';
+import { usePractitioner } from '@/hooks/firestore/usePractitioner';
+import { ArrowLeft, History, Pencil } from 'lucide-react';
+
+export default function ClientSessionsPage() {
+  return (
+    <RequireAuth>
+      <ClientSessionsContent />
+    </RequireAuth>
+  );
+}
+
+function ClientSessionsContent() {
+  const params = useParams();
+  const clientId = params.clientId as string;
+  const { user } = useAuth();
+  const { sessions, shared, loading, error } = useClientSessions(user?.uid, clientId);
+  const { practitioner } = usePractitioner(user?.uid ?? null);
+  const { appointments, loading: appointmentsLoading } = useClientHistory(
+    clientId,
+    user?.uid ?? null
+  );
+
+  return (
+    <main className="min-h-screen">
+      <Header />
+
+      <div className="container mx-auto px-4 py-12 max-w-3xl">
+        <div className="mb-8">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link href="/practitioner/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Link>
+          </Button>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-4xl font-serif font-bold mb-2">Client Timeline</h1>
+              <p className="text-muted-foreground">Your sessions with this client, oldest first</p>
+            </div>
+            {practitioner && (
+              <SuperbillDialog
+                practitioner={practitioner}
+                appointments={appointments}
+                disabled={appointmentsLoading}
+              />
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="space-y-4">
+            {[...Array(2)].map((_, i) => (
+              <Card key={i}>
+                <CardContent className="p-6">
+                  <Skeleton className="h-6 w-48 mb-2" />
+                  <Skeleton className="h-16 w-full" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : error ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">{error}</CardContent>
+          </Card>
+        ) : sessions.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <History className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-muted-foreground">
+                You have not written notes for any sessions with this client yet
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <ol className="relative border-l pl-6 space-y-6">
+            {sessions.map((session, index) => (
+              <li key={session.id} className="relative">
+                <span className="absolute -left-[31px] top-6 h-3 w-3 rounded-full bg-primary" />
+                <Card>
+                  <CardHeader>
+                    <div className="flex items-start justify-between gap-4">
+                      <CardTitle className="flex items-center gap-2 text-base">
+                        Session {index + 1} ·{' '}
+                        {format(session.sessionDate.toDate(), 'EEEE, MMMM d, yyyy')}
+                        <Badge variant={session.isDraft ? 'secondary' : 'outline'}>
+                          {session.isDraft ? 'Draft' : 'Finalized'}
+                        </Badge>
+                      </CardTitle>
+                      <Button asChild variant="outline" size="sm">
+                        <Link href={`/practitioner/sessions/${session.appointmentId}`}>
+                          <Pencil className="h-4 w-4 mr-2" />
+                          {session.isDraft ? 'Edit' : 'Open'}
+                        </Link>
+                      </Button>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <SessionNotesSummary session={session} shared={shared[session.id]} />
+                  </CardContent>
+                </Card>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      <Footer />
+    </main>
+  );
+}
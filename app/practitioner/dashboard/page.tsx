@@ -2,7 +2,15 @@
  * Practitioner Dashboard Page
  * 
  * Displays practitioner's calendar, upcoming appointments, and client management.
- * Uses useAppointments hook with realtime updates.
+ * Uses useAppointments hook with realtime updates. Requests and appointments in
+ * a recurring series can be answered or cancelled across the series. Times
+ * held for waitlisted clients are listed with the waitlist, which the
+ * practitioner can manage here. Each request and upcoming appointment shows
+ * whether the client has submitted the intake form, and its answers, and
+ * the client's questionnaire scores over time if the practitioner uses
+ * scored questionnaires. Recently completed sessions link to their notes
+ * and the client's timeline, and recent invoices can be downloaded or
+ * printed.
  */
 
 'use client';
@@ -14,13 +22,40 @@ import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
 import { RequireAuth } from '@/components/auth/RequireAuth';
+import { InvoiceActions } from '@/components/appointments/InvoiceActions';
+import { RescheduleAppointmentDialog } from '@/components/appointments/RescheduleAppointmentDialog';
+import { SeriesScopeOptions } from '@/components/appointments/SeriesScopeOptions';
+import { ClientScoresDialog } from '@/components/intake/ClientScoresDialog';
+import { IntakeResponsesDialog } from '@/components/intake/IntakeResponsesDialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useState } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { useAppointments } from '@/hooks/firestore/useAppointments';
 import { useUpdateAppointment } from '@/hooks/firestore/useUpdateAppointment';
-import { Calendar, Clock, Users, Settings, Video, CheckCircle2, XCircle } from 'lucide-react';
+import { useCancelAppointment } from '@/hooks/firestore/useCancelAppointment';
+import { useRescheduleAppointment } from '@/hooks/firestore/useRescheduleAppointment';
+import { usePractitioner } from '@/hooks/firestore/usePractitioner';
+import { useWaitlist } from '@/hooks/firestore/useWaitlist';
+import { useActiveIntakeTemplates } from '@/hooks/firestore/useActiveIntakeTemplates';
+import { ArrowRight, Calendar, ClipboardList, Clock, History, Hourglass, NotebookPen, Users, Settings, Video, CheckCircle2, XCircle, UserX, Repeat } from 'lucide-react';
 import { format } from 'date-fns';
-import { Timestamp } from 'firebase/firestore';
 import Link from 'next/link';
+import { formatPrice } from '@/lib/utils';
+import { getRequestExpiresAt, getRequestExpiryHours } from '@/lib/scheduling/appointmentLifecycle';
+import { describeRecurrence } from '@/lib/scheduling/recurrence';
+import { getBrowserTimeZone } from '@/lib/scheduling/timezone';
+import { describeWaitlistWindows, isOpenWaitlistOffer } from '@/lib/scheduling/waitlist';
+import type { AppointmentDocument, SeriesScope } from '@/types/firestore';
 
 export default function PractitionerDashboardPage() {
   return (
@@ -36,18 +71,64 @@ function PractitionerDashboardContent() {
     practitionerId: user?.uid || undefined,
     realtime: true,
   });
-  const { updateAppointment, loading: updating } = useUpdateAppointment();
+  const {
+    updateAppointmentStatus,
+    updateAppointmentSeriesStatus,
+    loading: updating,
+  } = useUpdateAppointment();
+  const { cancelAppointment, loading: cancelling } = useCancelAppointment();
+  const { respondToRescheduleRequest, loading: responding } = useRescheduleAppointment();
+  const { practitioner } = usePractitioner(user?.uid ?? null);
+  const { templates: intakeTemplates, questionnaires } = useActiveIntakeTemplates(
+    user?.uid ? [user.uid] : []
+  );
+  const {
+    entries: waitlistEntries,
+    removeEntry,
+    submitting: updatingWaitlist,
+  } = useWaitlist('practitioner', user?.uid);
+  const requestExpiryHours = getRequestExpiryHours(practitioner);
+  const timeZone = practitioner?.availabilityRules.timezone ?? getBrowserTimeZone();
+
+  // Chosen series scope per appointment (defaults to this appointment only)
+  const [scopes, setScopes] = useState<Record<string, SeriesScope>>({});
+  const getScope = (appointmentId: string) => scopes[appointmentId] ?? 'this';
+  const setScope = (appointmentId: string, scope: SeriesScope) =>
+    setScopes((current) => ({ ...current, [appointmentId]: scope }));
 
-  // Separate upcoming and past appointments
+  // Separate upcoming and past appointments. Times offered to the waitlist
+  // only become requests once the client accepts.
   const now = new Date();
   const upcoming = appointments
-    .filter((apt) => apt.startTime.toDate() >= now && apt.status !== 'cancelled')
+    .filter((apt) => apt.startTime.toDate() >= now && apt.status !== 'cancelled' && !isOpenWaitlistOffer(apt))
     .sort((a, b) => a.startTime.toMillis() - b.startTime.toMillis())
     .slice(0, 5); // Show next 5 appointments
 
   // Pending appointments (all pending, regardless of date)
   const pending = appointments
-    .filter((apt) => apt.status === 'pending')
+    .filter((apt) => apt.status === 'pending' && !isOpenWaitlistOffer(apt))
+    .sort((a, b) => a.startTime.toMillis() - b.startTime.toMillis());
+
+  // Sessions that have started and still need an outcome
+  const awaitingOutcome = appointments
+    .filter((apt) => apt.status === 'confirmed' && apt.startTime.toDate() < now)
+    .sort((a, b) => a.startTime.toMillis() - b.startTime.toMillis());
+
+  // Most recent completed sessions, for their notes
+  const recentSessions = appointments
+    .filter((apt) => apt.status === 'completed')
+    .sort((a, b) => b.startTime.toMillis() - a.startTime.toMillis())
+    .slice(0, 5);
+
+  // Most recently invoiced payments
+  const recentInvoices = appointments
+    .filter((apt) => apt.invoiceId)
+    .sort((a, b) => b.startTime.toMillis() - a.startTime.toMillis())
+    .slice(0, 5);
+
+  // Clients asking to move an appointment
+  const rescheduleRequests = appointments
+    .filter((apt) => apt.pendingReschedule && apt.status !== 'cancelled')
     .sort((a, b) => a.startTime.toMillis() - b.startTime.toMillis());
   const today = appointments.filter(
     (apt) =>
@@ -71,17 +152,60 @@ function PractitionerDashboardContent() {
   };
 
   const handleConfirmAppointment = async (appointmentId: string) => {
-    await updateAppointment(appointmentId, { status: 'confirmed' });
+    await updateAppointmentSeriesStatus(
+      appointmentId,
+      getScope(appointmentId),
+      'confirmed',
+      'practitioner'
+    );
+  };
+
+  const handleRecordOutcome = async (appointmentId: string, status: 'completed' | 'no-show') => {
+    await updateAppointmentStatus(appointmentId, status, 'practitioner');
   };
 
   const handleCancelAppointment = async (appointmentId: string) => {
-    await updateAppointment(appointmentId, { 
-      status: 'cancelled',
-      cancelledBy: 'practitioner',
-      cancelledAt: Timestamp.now(),
-    });
+    await cancelAppointment(appointmentId, 'practitioner', getScope(appointmentId));
   };
 
+  const renderRecurrence = (appointment: AppointmentDocument) =>
+    appointment.recurrence && (
+      <CardDescription className="flex items-center gap-2 mt-1">
+        <Repeat className="h-4 w-4" />
+        {describeRecurrence(appointment.recurrence, timeZone)}
+      </CardDescription>
+    );
+
+  const renderIntakeStatus = (appointment: AppointmentDocument) => (
+    <>
+      {appointment.intakeFormCompleted && appointment.intakeFormId ? (
+        <IntakeResponsesDialog formId={appointment.intakeFormId} />
+      ) : (
+        intakeTemplates[appointment.practitionerId] && (
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            <ClipboardList className="h-4 w-4" />
+            Intake form not submitted yet
+          </p>
+        )
+      )}
+      {questionnaires[appointment.practitionerId] && (
+        <ClientScoresDialog
+          practitionerId={appointment.practitionerId}
+          clientId={appointment.clientId}
+        />
+      )}
+    </>
+  );
+
+  const renderScopeOptions = (appointment: AppointmentDocument) => (
+    <SeriesScopeOptions
+      appointment={appointment}
+      value={getScope(appointment.id)}
+      onChange={(scope) => setScope(appointment.id, scope)}
+      timeZone={timeZone}
+    />
+  );
+
   return (
     <main className="min-h-screen">
       <Header />
@@ -92,12 +216,20 @@ function PractitionerDashboardContent() {
             <h1 className="text-4xl font-serif font-bold mb-2">Practitioner Dashboard</h1>
             <p className="text-muted-foreground">Manage your practice, appointments, and clients</p>
           </div>
-          <Button asChild variant="outline">
-            <Link href="/practitioner/settings">
-              <Settings className="h-4 w-4 mr-2" />
-              Settings
-            </Link>
-          </Button>
+          <div className="flex gap-2">
+            <Button asChild variant="outline">
+              <Link href="/practitioner/intake-forms">
+                <ClipboardList className="h-4 w-4 mr-2" />
+                Intake Forms
+              </Link>
+            </Button>
+            <Button asChild variant="outline">
+              <Link href="/practitioner/settings">
+                <Settings className="h-4 w-4 mr-2" />
+                Settings
+              </Link>
+            </Button>
+          </div>
         </div>
 
         {loading ? (
@@ -170,6 +302,7 @@ function PractitionerDashboardContent() {
                               {format(appointment.startTime.toDate(), 'h:mm a')} -{' '}
                               {format(appointment.endTime.toDate(), 'h:mm a')}
                             </CardDescription>
+                            {renderRecurrence(appointment)}
                           </div>
                           <Badge variant={getStatusColor(appointment.status)}>
                             {appointment.status}
@@ -177,13 +310,32 @@ function PractitionerDashboardContent() {
                         </div>
                       </CardHeader>
                       <CardContent className="space-y-3">
+                        {appointment.sessionType && (
+                          <p className="text-sm">
+                            <span className="font-medium">{appointment.sessionType.name}</span>
+                            {appointment.quotedPrice != null && appointment.currency && (
+                              <span className="text-muted-foreground">
+                                {' '}· {formatPrice(appointment.quotedPrice, appointment.currency)}
+                                {appointment.pricingTier && ` (${appointment.pricingTier} rate)`}
+                              </span>
+                            )}
+                          </p>
+                        )}
                         {appointment.notes && (
                           <p className="text-sm text-muted-foreground">{appointment.notes}</p>
                         )}
+                        {renderIntakeStatus(appointment)}
+                        {renderScopeOptions(appointment)}
+                        {appointment.createdAt && (
+                          <p className="text-xs text-muted-foreground">
+                            Expires {format(getRequestExpiresAt(appointment, requestExpiryHours), 'MMM d, h:mm a')}{' '}
+                            if not answered
+                          </p>
+                        )}
                         <div className="flex gap-2 pt-2">
                           <Button
                             onClick={() => handleConfirmAppointment(appointment.id)}
-                            disabled={updating}
+                            disabled={updating || cancelling || appointment.startTime.toDate() <= now}
                             className="flex-1"
                           >
                             <CheckCircle2 className="h-4 w-4 mr-2" />
@@ -191,7 +343,7 @@ function PractitionerDashboardContent() {
                           </Button>
                           <Button
                             onClick={() => handleCancelAppointment(appointment.id)}
-                            disabled={updating}
+                            disabled={updating || cancelling}
                             variant="outline"
                             className="flex-1"
                           >
@@ -206,6 +358,161 @@ function PractitionerDashboardContent() {
               </div>
             )}
 
+            {/* Awaiting Outcome */}
+            {awaitingOutcome.length > 0 && (
+              <div className="mb-8">
+                <h2 className="text-2xl font-semibold mb-4">Awaiting Outcome</h2>
+                <div className="space-y-4">
+                  {awaitingOutcome.map((appointment) => (
+                    <Card key={appointment.id}>
+                      <CardHeader>
+                        <CardTitle className="text-base">
+                          {appointment.sessionType?.name ?? 'Session'}
+                        </CardTitle>
+                        <CardDescription className="flex items-center gap-2">
+                          <Clock className="h-4 w-4" />
+                          {format(appointment.startTime.toDate(), 'EEE, MMM d, h:mm a')} -{' '}
+                          {format(appointment.endTime.toDate(), 'h:mm a')}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="flex gap-2">
+                          <Button
+                            onClick={() => handleRecordOutcome(appointment.id, 'completed')}
+                            disabled={updating}
+                            className="flex-1"
+                          >
+                            <CheckCircle2 className="h-4 w-4 mr-2" />
+                            Completed
+                          </Button>
+                          <Button
+                            onClick={() => handleRecordOutcome(appointment.id, 'no-show')}
+                            disabled={updating}
+                            variant="outline"
+                            className="flex-1"
+                          >
+                            <UserX className="h-4 w-4 mr-2" />
+                            No-show
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Reschedule Requests */}
+            {rescheduleRequests.length > 0 && (
+              <div className="mb-8">
+                <h2 className="text-2xl font-semibold mb-4">Reschedule Requests</h2>
+                <div className="space-y-4">
+                  {rescheduleRequests.map((appointment) => (
+                    <Card key={appointment.id}>
+                      <CardHeader>
+                        <CardTitle className="text-base">
+                          {appointment.sessionType?.name ?? 'Session'}
+                        </CardTitle>
+                        <CardDescription className="flex flex-wrap items-center gap-2">
+                          <span className="line-through">
+                            {format(appointment.startTime.toDate(), 'EEE, MMM d, h:mm a')}
+                          </span>
+                          <ArrowRight className="h-4 w-4" />
+                          <span className="font-medium text-foreground">
+                            {format(appointment.pendingReschedule!.startTime.toDate(), 'EEE, MMM d, h:mm a')} -{' '}
+                            {format(appointment.pendingReschedule!.endTime.toDate(), 'h:mm a')}
+                          </span>
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="flex gap-2">
+                          <Button
+                            onClick={() => respondToRescheduleRequest(appointment.id, true)}
+                            disabled={responding}
+                            className="flex-1"
+                          >
+                            <CheckCircle2 className="h-4 w-4 mr-2" />
+                            Accept New Time
+                          </Button>
+                          <Button
+                            onClick={() => respondToRescheduleRequest(appointment.id, false)}
+                            disabled={responding}
+                            variant="outline"
+                            className="flex-1"
+                          >
+                            <XCircle className="h-4 w-4 mr-2" />
+                            Keep Current Time
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Waitlist */}
+            {waitlistEntries.length > 0 && (
+              <div className="mb-8">
+                <h2 className="text-2xl font-semibold mb-4 flex items-center gap-2">
+                  <Hourglass className="h-6 w-6" />
+                  Waitlist
+                </h2>
+                <div className="space-y-4">
+                  {waitlistEntries.map((entry) => (
+                    <Card key={entry.id}>
+                      <CardHeader>
+                        <div className="flex items-start justify-between">
+                          <div>
+                            <CardTitle className="text-base">
+                              {entry.clientName ?? 'Client'} · {entry.sessionType.name}
+                            </CardTitle>
+                            <CardDescription>
+                              {describeWaitlistWindows(entry.windows)} ({timeZone})
+                            </CardDescription>
+                          </div>
+                          <Badge variant={entry.status === 'offered' ? 'default' : 'secondary'}>
+                            {entry.status}
+                          </Badge>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        {entry.notes && (
+                          <p className="text-sm text-muted-foreground">{entry.notes}</p>
+                        )}
+                        {entry.status === 'offered' && entry.offer && (
+                          <p className="text-sm">
+                            Offered{' '}
+                            <span className="font-medium">
+                              {format(entry.offer.startTime.toDate(), 'EEE, MMM d, h:mm a')}
+                            </span>
+                            <span className="text-muted-foreground">
+                              {' '}· held until {format(entry.offer.expiresAt.toDate(), 'MMM d, h:mm a')}
+                            </span>
+                          </p>
+                        )}
+                        {entry.createdAt && (
+                          <p className="text-xs text-muted-foreground">
+                            Joined {format(entry.createdAt.toDate(), 'MMM d, yyyy')}
+                          </p>
+                        )}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="w-full"
+                          onClick={() => removeEntry(entry, 'practitioner')}
+                          disabled={updatingWaitlist}
+                        >
+                          <XCircle className="h-4 w-4 mr-2" />
+                          Remove from Waitlist
+                        </Button>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Upcoming Appointments */}
             <div>
               <h2 className="text-2xl font-semibold mb-4">Upcoming Appointments</h2>
@@ -230,6 +537,7 @@ function PractitionerDashboardContent() {
                               {format(appointment.startTime.toDate(), 'h:mm a')} -{' '}
                               {format(appointment.endTime.toDate(), 'h:mm a')}
                             </CardDescription>
+                            {renderRecurrence(appointment)}
                           </div>
                           <Badge variant={getStatusColor(appointment.status)}>
                             {appointment.status}
@@ -237,11 +545,23 @@ function PractitionerDashboardContent() {
                         </div>
                       </CardHeader>
                       <CardContent className="space-y-3">
+                        {appointment.sessionType && (
+                          <p className="text-sm">
+                            <span className="font-medium">{appointment.sessionType.name}</span>
+                            {appointment.quotedPrice != null && appointment.currency && (
+                              <span className="text-muted-foreground">
+                                {' '}· {formatPrice(appointment.quotedPrice, appointment.currency)}
+                                {appointment.pricingTier && ` (${appointment.pricingTier} rate)`}
+                              </span>
+                            )}
+                          </p>
+                        )}
                         {appointment.notes && (
                           <p className="text-sm text-muted-foreground">{appointment.notes}</p>
                         )}
-                        {appointment.meetingLink && appointment.status !== 'cancelled' && (
-                          <div className={appointment.notes ? "pt-2 border-t" : ""}>
+                        <div className={appointment.notes ? "pt-2 border-t space-y-2" : "space-y-2"}>
+                          {renderIntakeStatus(appointment)}
+                          {appointment.meetingLink && appointment.status !== 'cancelled' && (
                             <Button
                               asChild
                               variant="outline"
@@ -257,14 +577,120 @@ function PractitionerDashboardContent() {
                                 {appointment.status === 'confirmed' ? 'Join Video Meeting' : 'View Meeting Link'}
                               </a>
                             </Button>
-                          </div>
-                        )}
+                          )}
+                          <RescheduleAppointmentDialog
+                            appointment={appointment}
+                            requestedBy="practitioner"
+                          />
+                          {appointment.status === 'confirmed' && (
+                            <AlertDialog onOpenChange={(open) => open && setScope(appointment.id, 'this')}>
+                              <AlertDialogTrigger asChild>
+                                <Button
+                                  variant="destructive"
+                                  size="sm"
+                                  className="w-full"
+                                  disabled={cancelling}
+                                >
+                                  <XCircle className="h-4 w-4 mr-2" />
+                                  Cancel Appointment
+                                </Button>
+                              </AlertDialogTrigger>
+                              <AlertDialogContent>
+                                <AlertDialogHeader>
+                                  <AlertDialogTitle>Cancel Appointment?</AlertDialogTitle>
+                                  <AlertDialogDescription>
+                                    The client will see the appointment as cancelled. This action cannot be undone.
+                                  </AlertDialogDescription>
+                                  {renderScopeOptions(appointment)}
+                                </AlertDialogHeader>
+                                <AlertDialogFooter>
+                                  <AlertDialogCancel>Keep Appointment</AlertDialogCancel>
+                                  <AlertDialogAction
+                                    onClick={() => handleCancelAppointment(appointment.id)}
+                                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                                  >
+                                    Yes, Cancel Appointment
+                                  </AlertDialogAction>
+                                </AlertDialogFooter>
+                              </AlertDialogContent>
+                            </AlertDialog>
+                          )}
+                        </div>
                       </CardContent>
                     </Card>
                   ))}
                 </div>
               )}
             </div>
+
+            {/* Recent Sessions */}
+            {recentSessions.length > 0 && (
+              <div className="mt-8">
+                <h2 className="text-2xl font-semibold mb-4">Recent Sessions</h2>
+                <div className="space-y-4">
+                  {recentSessions.map((appointment) => (
+                    <Card key={appointment.id}>
+                      <CardHeader>
+                        <CardTitle className="text-base">
+                          {appointment.sessionType?.name ?? 'Session'}
+                        </CardTitle>
+                        <CardDescription className="flex items-center gap-2">
+                          <Clock className="h-4 w-4" />
+                          {format(appointment.startTime.toDate(), 'EEE, MMM d, h:mm a')} -{' '}
+                          {format(appointment.endTime.toDate(), 'h:mm a')}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent>
+                        <div className="flex gap-2">
+                          <Button asChild className="flex-1">
+                            <Link href={`/practitioner/sessions/${appointment.id}`}>
+                              <NotebookPen className="h-4 w-4 mr-2" />
+                              {appointment.sessionId ? 'Session Notes' : 'Write Notes'}
+                            </Link>
+                          </Button>
+                          <Button asChild variant="outline" className="flex-1">
+                            <Link href={`/practitioner/clients/${appointment.clientId}/sessions`}>
+                              <History className="h-4 w-4 mr-2" />
+                              Client Timeline
+                            </Link>
+                          </Button>
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Recent Invoices */}
+            {recentInvoices.length > 0 && (
+              <div className="mt-8">
+                <h2 className="text-2xl font-semibold mb-4">Recent Invoices</h2>
+                <div className="space-y-4">
+                  {recentInvoices.map((appointment) => (
+                    <Card key={appointment.id}>
+                      <CardHeader>
+                        <CardTitle className="text-base">
+                          {appointment.sessionType?.name ?? 'Session'}
+                          {appointment.quotedPrice != null && appointment.currency && (
+                            <span className="font-normal text-muted-foreground">
+                              {' '}· {formatPrice(appointment.quotedPrice, appointment.currency)}
+                            </span>
+                          )}
+                        </CardTitle>
+                        <CardDescription className="flex items-center gap-2">
+                          <Clock className="h-4 w-4" />
+                          {format(appointment.startTime.toDate(), 'EEE, MMM d, h:mm a')}
+                        </CardDescription>
+                      </CardHeader>
+                      <CardContent className="flex flex-wrap gap-2">
+                        <InvoiceActions appointment={appointment} />
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              </div>
+            )}
           </>
         )}
       </div>
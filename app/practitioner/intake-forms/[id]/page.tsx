@@ -0,0 +1,593 @@
+/**
+ * Intake Form Builder Page
+ *
+ * Creates an intake form template (at /practitioner/intake-forms/new) or
+ * edits one: its title and description, its sections (each a page for
+ * clients), its questions and their order, the conditions for showing
+ * them, and whether clients can fill it in. The Preview tab walks through
+ * the form as clients will see it. The questions of a scored questionnaire
+ * are shown with their points and cannot be changed.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { Header } from '@/components/header';
+import { Footer } from '@/components/footer';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { RequireAuth } from '@/components/auth/RequireAuth';
+import { IntakeFieldDialog } from '@/components/intake/IntakeFieldDialog';
+import { IntakeFormSteps } from '@/components/intake/IntakeFormSteps';
+import { IntakeSectionDialog } from '@/components/intake/IntakeSectionDialog';
+import { useAuth } from '@/hooks/useAuth';
+import { useIntakeForms } from '@/hooks/firestore/useIntakeForms';
+import { getIntakeFormPages, type IntakeFormPage } from '@/lib/intake/conditions';
+import { getIntakeFieldTypeLabel, getIntakeTemplateError } from '@/lib/intake/formFields';
+import { getMaxIntakeScore } from '@/lib/intake/scoring';
+import type {
+  IntakeFormField,
+  IntakeFormResponseValue,
+  IntakeFormSection,
+} from '@/types/firestore';
+import { toast } from 'sonner';
+import { ArrowDown, ArrowLeft, ArrowUp, GitBranch, Pencil, Plus, Trash2 } from 'lucide-react';
+
+const conditionClassName = 'flex items-center gap-1 text-sm text-muted-foreground';
+
+export default function IntakeFormBuilderPage() {
+  return (
+    <RequireAuth>
+      <IntakeFormBuilderContent />
+    </RequireAuth>
+  );
+}
+
+function IntakeFormBuilderContent() {
+  const params = useParams();
+  const formId = params.id as string;
+  const isNew = formId === 'new';
+  const router = useRouter();
+  const { user } = useAuth();
+  const { templates, loading, createTemplate, updateTemplate, submitting } = useIntakeForms(
+    user?.uid
+  );
+  const template = isNew ? null : templates.find((candidate) => candidate.id === formId) ?? null;
+  const scoring = template?.scoring ?? null;
+
+  const [initialized, setInitialized] = useState(false);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [sections, setSections] = useState<IntakeFormSection[]>([]);
+  const [fields, setFields] = useState<IntakeFormField[]>([]);
+  const [isActive, setIsActive] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingField, setEditingField] = useState<IntakeFormField | null>(null);
+  const [sectionDialogOpen, setSectionDialogOpen] = useState(false);
+  const [editingSection, setEditingSection] = useState<IntakeFormSection | null>(null);
+  const [previewValues, setPreviewValues] = useState<Record<string, IntakeFormResponseValue>>({});
+
+  // Load the template once; later snapshots must not discard unsaved edits
+  useEffect(() => {
+    if (template && !initialized) {
+      setTitle(template.title);
+      setDescription(template.description ?? '');
+      setSections(template.sections ?? []);
+      setFields(template.fields);
+      setIsActive(template.isActive);
+      setInitialized(true);
+    }
+  }, [template, initialized]);
+
+  // Questions grouped as clients see them; questions left without a section
+  // (which saving rejects) are listed last
+  const pages = getIntakeFormPages({ sections, fields });
+  const unassigned =
+    sections.length > 0
+      ? fields.filter((field) => !sections.some((section) => section.id === field.sectionId))
+      : [];
+  const groups: IntakeFormPage[] =
+    unassigned.length > 0 ? [...pages, { section: null, fields: unassigned }] : pages;
+  const orderedFields = groups.flatMap((group) => group.fields);
+  const fieldLabels = new Map(fields.map((field) => [field.id, field.label]));
+
+  const openDialog = (field?: IntakeFormField) => {
+    setEditingField(field ?? null);
+    setDialogOpen(true);
+  };
+
+  const saveField = (field: IntakeFormField) => {
+    setFields((current) =>
+      current.some((existing) => existing.id === field.id)
+        ? current.map((existing) => (existing.id === field.id ? field : existing))
+        : [...current, field]
+    );
+  };
+
+  // Swap a question with its neighbour in the same section
+  const moveField = (group: IntakeFormPage, index: number, offset: -1 | 1) => {
+    const moved = group.fields[index];
+    const neighbour = group.fields[index + offset];
+    setFields((current) =>
+      current.map((field) =>
+        field.id === moved.id ? neighbour : field.id === neighbour.id ? moved : field
+      )
+    );
+  };
+
+  const removeField = (fieldId: string) => {
+    setFields((current) => current.filter((field) => field.id !== fieldId));
+  };
+
+  const openSectionDialog = (section?: IntakeFormSection) => {
+    setEditingSection(section ?? null);
+    setSectionDialogOpen(true);
+  };
+
+  const saveSection = (section: IntakeFormSection) => {
+    if (sections.some((existing) => existing.id === section.id)) {
+      setSections((current) =>
+        current.map((existing) => (existing.id === section.id ? section : existing))
+      );
+      return;
+    }
+
+    // The first section takes the questions added so far
+    if (sections.length === 0) {
+      setFields((current) => current.map((field) => ({ ...field, sectionId: section.id })));
+    }
+    setSections((current) => [...current, section]);
+  };
+
+  const moveSection = (index: number, offset: -1 | 1) => {
+    setSections((current) => {
+      const reordered = [...current];
+      const [moved] = reordered.splice(index, 1);
+      reordered.splice(index + offset, 0, moved);
+      return reordered;
+    });
+  };
+
+  // Questions of a removed section move to the first remaining one
+  const removeSection = (sectionId: string) => {
+    const remaining = sections.filter((section) => section.id !== sectionId);
+    setSections(remaining);
+    setFields((current) =>
+      current.map((field) =>
+        field.sectionId === sectionId ? { ...field, sectionId: remaining[0]?.id ?? null } : field
+      )
+    );
+  };
+
+  // Questions a section's condition may depend on: those in earlier sections
+  const sectionIndex = editingSection
+    ? sections.findIndex((section) => section.id === editingSection.id)
+    : sections.length;
+  const sectionSources = pages
+    .filter((page) => page.section)
+    .slice(0, sectionIndex)
+    .flatMap((page) => page.fields);
+
+  const describeCondition = (condition: NonNullable<IntakeFormField['showIf']>) => {
+    const source = fieldLabels.get(condition.fieldId) ?? 'a removed question';
+    if (condition.operator === 'answered') {
+      return `Shown when “${source}” is answered`;
+    }
+    const value =
+      typeof condition.value === 'boolean'
+        ? condition.value
+          ? 'ticked'
+          : 'not ticked'
+        : `“${condition.value ?? ''}”`;
+    const comparison = { equals: 'is', notEquals: 'is not', includes: 'includes' }[
+      condition.operator
+    ];
+    return `Shown when “${source}” ${comparison} ${value}`;
+  };
+
+  const handleSave = async () => {
+    if (!user?.uid) return;
+
+    const templateError = getIntakeTemplateError({ title, sections, fields: orderedFields });
+    if (templateError) {
+      toast.error(templateError);
+      return;
+    }
+
+    const content = { title, description, sections, fields: orderedFields, isActive };
+    const saved = isNew
+      ? await createTemplate({ practitionerId: user.uid, ...content })
+      : await updateTemplate(formId, content);
+
+    if (saved) {
+      router.push('/practitioner/intake-forms');
+    }
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen">
+        <Header />
+        <div className="container mx-auto px-4 py-12 max-w-4xl">
+          <Skeleton className="h-10 w-64 mb-8" />
+          <Card>
+            <CardContent className="p-6">
+              <Skeleton className="h-32 w-full" />
+            </CardContent>
+          </Card>
+        </div>
+        <Footer />
+      </main>
+    );
+  }
+
+  if (!isNew && !template) {
+    return (
+      <main className="min-h-screen">
+        <Header />
+        <div className="container mx-auto px-4 py-12">
+          <div className="text-center">
+            <h1 className="text-2xl font-bold mb-4">Intake form not found</h1>
+            <Button asChild>
+              <Link href="/practitioner/intake-forms">Back to Intake Forms</Link>
+            </Button>
+          </div>
+        </div>
+        <Footer />
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen">
+      <Header />
+
+      <div className="container mx-auto px-4 py-12 max-w-4xl">
+        <div className="mb-8">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link href="/practitioner/intake-forms">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Intake Forms
+            </Link>
+          </Button>
+          <h1 className="text-4xl font-serif font-bold mb-2">
+            {isNew ? 'New Intake Form' : 'Edit Intake Form'}
+          </h1>
+          <p className="text-muted-foreground">
+            Add the questions clients answer before their sessions
+          </p>
+        </div>
+
+        <Tabs defaultValue="edit" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="edit">Questions</TabsTrigger>
+            <TabsTrigger value="preview">Preview</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="edit" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Details</CardTitle>
+                <CardDescription>Shown to clients at the top of the form</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="intake-title">Title</Label>
+                  <Input
+                    id="intake-title"
+                    value={title}
+                    onChange={(e) => setTitle(e.target.value)}
+                    placeholder="e.g., New Client Intake"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="intake-description">Description (optional)</Label>
+                  <Textarea
+                    id="intake-description"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    rows={3}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label htmlFor="intake-active">Available to Clients</Label>
+                    <p className="text-sm text-muted-foreground">
+                      Inactive forms are kept but clients cannot fill them in
+                    </p>
+                  </div>
+                  <Switch id="intake-active" checked={isActive} onCheckedChange={setIsActive} />
+                </div>
+              </CardContent>
+            </Card>
+
+            {!scoring && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Sections</CardTitle>
+                  <CardDescription>
+                    Split a long form into pages. Forms without sections are one page.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {sections.length > 0 && (
+                    <ul className="space-y-2">
+                      {sections.map((section, index) => (
+                        <li
+                          key={section.id}
+                          className="flex items-start justify-between gap-4 rounded-md border p-3"
+                        >
+                          <div className="space-y-1">
+                            <span className="font-medium">
+                              {index + 1}. {section.title}
+                            </span>
+                            {section.showIf && (
+                              <p className={conditionClassName}>
+                                <GitBranch className="h-3 w-3" />
+                                {describeCondition(section.showIf)}
+                              </p>
+                            )}
+                          </div>
+                          <div className="flex gap-1">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => moveSection(index, -1)}
+                              disabled={index === 0}
+                              aria-label={`Move ${section.title} up`}
+                            >
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => moveSection(index, 1)}
+                              disabled={index === sections.length - 1}
+                              aria-label={`Move ${section.title} down`}
+                            >
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openSectionDialog(section)}
+                              aria-label={`Edit ${section.title}`}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => removeSection(section.id)}
+                              aria-label={`Remove ${section.title}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  <Button type="button" variant="outline" onClick={() => openSectionDialog()}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Section
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Questions</CardTitle>
+                <CardDescription>
+                  {scoring ? (
+                    <>
+                      This is a standard questionnaire, so its questions cannot be changed and
+                      scores stay comparable over time
+                    </>
+                  ) : (
+                    'Clients answer these in order'
+                  )}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {fields.length > 0 ? (
+                  groups.map((group) => (
+                    <div key={group.section?.id ?? 'unassigned'} className="space-y-2">
+                      {sections.length > 0 && (
+                        <h3 className="text-sm font-semibold text-muted-foreground">
+                          {group.section?.title ?? 'Not in a section'}
+                        </h3>
+                      )}
+                      {group.fields.length === 0 && (
+                        <p className="text-sm text-muted-foreground">No questions yet</p>
+                      )}
+                      <ul className="space-y-2">
+                        {group.fields.map((field, index) => (
+                          <li
+                            key={field.id}
+                            className="flex items-start justify-between gap-4 rounded-md border p-3"
+                          >
+                            <div className="space-y-1">
+                              <div className="flex flex-wrap items-center gap-2">
+                                <span className="font-medium">
+                                  {orderedFields.indexOf(field) + 1}. {field.label}
+                                </span>
+                                <Badge variant="outline">
+                                  {getIntakeFieldTypeLabel(field.type)}
+                                </Badge>
+                                {field.required && <Badge variant="secondary">Required</Badge>}
+                              </div>
+                              {field.options && field.options.length > 0 && (
+                                <p className="text-sm text-muted-foreground">
+                                  {field.options
+                                    .map((option, optionIndex) =>
+                                      scoring?.points[field.id]
+                                        ? `${option} (${scoring.points[field.id][optionIndex]})`
+                                        : option
+                                    )
+                                    .join(' · ')}
+                                </p>
+                              )}
+                              {field.showIf && (
+                                <p className={conditionClassName}>
+                                  <GitBranch className="h-3 w-3" />
+                                  {describeCondition(field.showIf)}
+                                </p>
+                              )}
+                            </div>
+                            {!scoring && (
+                              <div className="flex gap-1">
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => moveField(group, index, -1)}
+                                  disabled={index === 0}
+                                  aria-label={`Move ${field.label} up`}
+                                >
+                                  <ArrowUp className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => moveField(group, index, 1)}
+                                  disabled={index === group.fields.length - 1}
+                                  aria-label={`Move ${field.label} down`}
+                                >
+                                  <ArrowDown className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => openDialog(field)}
+                                  aria-label={`Edit ${field.label}`}
+                                >
+                                  <Pencil className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => removeField(field.id)}
+                                  aria-label={`Remove ${field.label}`}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                            )}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ))
+                ) : (
+                  <p className="text-sm text-muted-foreground">No questions yet</p>
+                )}
+
+                {!scoring && (
+                  <Button type="button" variant="outline" onClick={() => openDialog()}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Question
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+
+            {scoring && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Scoring</CardTitle>
+                  <CardDescription>
+                    The points of each answer are added up, out of a possible{' '}
+                    {getMaxIntakeScore(scoring)}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-1 text-sm">
+                    {scoring.bands.map((band) => (
+                      <li key={band.label} className="flex justify-between gap-4">
+                        <span>{band.label}</span>
+                        <span className="text-muted-foreground">
+                          {band.min}–{band.max}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="preview">
+            <Card>
+              <CardHeader>
+                <CardTitle>{title || 'Untitled form'}</CardTitle>
+                {description && <CardDescription>{description}</CardDescription>}
+              </CardHeader>
+              <CardContent>
+                {fields.length > 0 ? (
+                  <IntakeFormSteps
+                    form={{ sections, fields: orderedFields }}
+                    values={previewValues}
+                    onChange={(fieldId, value) =>
+                      setPreviewValues((current) => ({ ...current, [fieldId]: value }))
+                    }
+                    onSubmit={() => toast.success('All answers are valid')}
+                    submitLabel="Check Answers"
+                  />
+                ) : (
+                  <p className="text-sm text-muted-foreground">Add questions to preview the form</p>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex justify-end gap-4 mt-6">
+          <Button asChild variant="outline">
+            <Link href="/practitioner/intake-forms">Cancel</Link>
+          </Button>
+          <Button onClick={handleSave} disabled={submitting}>
+            {submitting ? 'Saving...' : 'Save Form'}
+          </Button>
+        </div>
+      </div>
+
+      <IntakeFieldDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        field={editingField}
+        sections={sections}
+        fields={orderedFields}
+        onSave={saveField}
+      />
+
+      <IntakeSectionDialog
+        open={sectionDialogOpen}
+        onOpenChange={setSectionDialogOpen}
+        section={editingSection}
+        sources={sectionSources}
+        onSave={saveSection}
+      />
+
+      <Footer />
+    </main>
+  );
+}
@@ -0,0 +1,205 @@
+/**
+ * Practitioner Intake Forms Page
+ *
+ * Lists the practitioner's intake form templates, with links to the
+ * builder and a switch to make each one available to clients or withdraw
+ * it, and a library of built-in scored questionnaires to add as templates.
+ */
+
+'use client';
+
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { Header } from '@/components/header';
+import { Footer } from '@/components/footer';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Switch } from '@/components/ui/switch';
+import { RequireAuth } from '@/components/auth/RequireAuth';
+import { useAuth } from '@/hooks/useAuth';
+import { useIntakeForms } from '@/hooks/firestore/useIntakeForms';
+import { INTAKE_QUESTIONNAIRES, type IntakeQuestionnaire } from '@/lib/intake/questionnaires';
+import { ArrowLeft, Check, ClipboardList, Pencil, Plus } from 'lucide-react';
+
+export default function PractitionerIntakeFormsPage() {
+  return (
+    <RequireAuth>
+      <PractitionerIntakeFormsContent />
+    </RequireAuth>
+  );
+}
+
+function PractitionerIntakeFormsContent() {
+  const { user } = useAuth();
+  const { templates, loading, createTemplate, setTemplateActive, submitting } = useIntakeForms(
+    user?.uid
+  );
+
+  const addQuestionnaire = async (questionnaire: IntakeQuestionnaire) => {
+    if (!user) return;
+
+    await createTemplate({
+      practitionerId: user.uid,
+      title: questionnaire.title,
+      description: questionnaire.description,
+      fields: questionnaire.fields,
+      questionnaireId: questionnaire.id,
+      scoring: questionnaire.scoring,
+    });
+  };
+
+  return (
+    <main className="min-h-screen">
+      <Header />
+
+      <div className="container mx-auto px-4 py-12 max-w-4xl">
+        <div className="mb-8">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link href="/practitioner/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Link>
+          </Button>
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-4xl font-serif font-bold mb-2">Intake Forms</h1>
+              <p className="text-muted-foreground">
+                Build the forms your clients fill in before their sessions
+              </p>
+            </div>
+            <Button asChild>
+              <Link href="/practitioner/intake-forms/new">
+                <Plus className="h-4 w-4 mr-2" />
+                New Form
+              </Link>
+            </Button>
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="space-y-4">
+            {[...Array(2)].map((_, i) => (
+              <Card key={i}>
+                <CardContent className="p-6">
+                  <Skeleton className="h-6 w-48 mb-2" />
+                  <Skeleton className="h-4 w-32" />
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        ) : templates.length === 0 ? (
+          <Card>
+            <CardContent className="p-12 text-center">
+              <ClipboardList className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <p className="text-muted-foreground mb-4">You have not created any intake forms yet</p>
+              <Button asChild>
+                <Link href="/practitioner/intake-forms/new">Create Your First Form</Link>
+              </Button>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-4">
+            {templates.map((template) => (
+              <Card key={template.id}>
+                <CardHeader>
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <CardTitle className="flex items-center gap-2">
+                        {template.title}
+                        <Badge variant={template.isActive ? 'default' : 'secondary'}>
+                          {template.isActive ? 'Active' : 'Inactive'}
+                        </Badge>
+                        {template.scoring && <Badge variant="outline">Scored</Badge>}
+                      </CardTitle>
+                      <CardDescription className="mt-1">
+                        {template.fields.length}{' '}
+                        {template.fields.length === 1 ? 'question' : 'questions'}
+                        {template.updatedAt &&
+                          ` · Updated ${format(template.updatedAt.toDate(), 'MMM d, yyyy')}`}
+                      </CardDescription>
+                    </div>
+                    <Button asChild variant="outline" size="sm">
+                      <Link href={`/practitioner/intake-forms/${template.id}`}>
+                        <Pencil className="h-4 w-4 mr-2" />
+                        Edit
+                      </Link>
+                    </Button>
+                  </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {template.description && (
+                    <p className="text-sm text-muted-foreground">{template.description}</p>
+                  )}
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      id={`intake-active-${template.id}`}
+                      checked={template.isActive}
+                      onCheckedChange={(isActive) => setTemplateActive(template.id, isActive)}
+                      disabled={submitting}
+                    />
+                    <Label htmlFor={`intake-active-${template.id}`} className="font-normal">
+                      Available to clients
+                    </Label>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle>Questionnaire Library</CardTitle>
+            <CardDescription>
+              Standard scored questionnaires. Active questionnaires are asked before every
+              session, and you can follow each client&apos;s scores over time.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {INTAKE_QUESTIONNAIRES.map((questionnaire) => {
+              const added = templates.some(
+                (template) => template.questionnaireId === questionnaire.id
+              );
+
+              return (
+                <div
+                  key={questionnaire.id}
+                  className="flex items-start justify-between gap-4 rounded-lg border p-4"
+                >
+                  <div>
+                    <p className="font-medium">{questionnaire.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {questionnaire.fields.length} questions ·{' '}
+                      {questionnaire.scoring.bands.map((band) => band.label).join(', ')}
+                    </p>
+                  </div>
+                  {added ? (
+                    <Badge variant="secondary" className="shrink-0">
+                      <Check className="h-3 w-3 mr-1" />
+                      Added
+                    </Badge>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => addQuestionnaire(questionnaire)}
+                      disabled={submitting || loading}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add {questionnaire.name}
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Footer />
+    </main>
+  );
+}
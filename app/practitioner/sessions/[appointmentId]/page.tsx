@@ -0,0 +1,417 @@
+/**
+ * Session Notes Page
+ *
+ * Lets a practitioner write the notes of a completed appointment: free
+ * notes or notes in a structured template such as SOAP, the client's goals
+ * and homework, and the date of the next session. A template's plan section
+ * can carry forward the plan from the client's previous session. Drafts
+ * are saved automatically shortly after each change.
+ * Finalizing locks the notes and shares the goals and homework with the
+ * client; the notes are then shown read-only with the homework the client
+ * has done and their reflections. Links to the client's timeline of
+ * sessions.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { format, parse } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import { Header } from '@/components/header';
+import { Footer } from '@/components/footer';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { RequireAuth } from '@/components/auth/RequireAuth';
+import { SessionListEditor } from '@/components/sessions/SessionListEditor';
+import { SessionNoteSectionsEditor } from '@/components/sessions/SessionNoteSectionsEditor';
+import { SessionNotesSummary } from '@/components/sessions/SessionNotesSummary';
+import { useAuth } from '@/hooks/useAuth';
+import { usePractitioner } from '@/hooks/firestore/usePractitioner';
+import { useSessionNotes } from '@/hooks/firestore/useSessionNotes';
+import {
+  getSessionNotesDraft,
+  hasSessionNotesChanges,
+  type SessionNotesDraft,
+} from '@/lib/sessions/notes';
+import {
+  createNoteSections,
+  getNoteTemplates,
+  renderSessionNotes,
+} from '@/lib/sessions/noteTemplates';
+import type { SessionNoteSection } from '@/types/firestore';
+import { ArrowLeft, History, Lock, NotebookPen } from 'lucide-react';
+
+/**
+ * How long to wait after the last change before saving the draft
+ */
+const AUTOSAVE_DELAY_MS = 1500;
+
+/**
+ * Template picker value for notes written without a template
+ */
+const FREE_TEXT = 'free-text';
+
+export default function SessionNotesPage() {
+  return (
+    <RequireAuth>
+      <SessionNotesContent />
+    </RequireAuth>
+  );
+}
+
+function SessionNotesContent() {
+  const params = useParams();
+  const appointmentId = params.appointmentId as string;
+  const { user } = useAuth();
+  const {
+    appointment,
+    session,
+    shared,
+    previousPlan,
+    loading,
+    error,
+    startSession,
+    saveDraft,
+    finalizeSession,
+    saving,
+    submitting,
+  } = useSessionNotes(appointmentId, user?.uid);
+  const { practitioner } = usePractitioner(user?.uid || null);
+  const [draft, setDraft] = useState<SessionNotesDraft | null>(null);
+  const templates = getNoteTemplates(practitioner);
+
+  // Load the notes once; later saves must not discard edits made meanwhile
+  useEffect(() => {
+    if (session && !draft) {
+      setDraft(getSessionNotesDraft(session));
+    }
+  }, [session, draft]);
+
+  const hasChanges = !!session && !!draft && hasSessionNotesChanges(session, draft);
+
+  useEffect(() => {
+    if (!session?.isDraft || !draft || !hasChanges || saving) {
+      return;
+    }
+
+    const timer = setTimeout(() => saveDraft(draft), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [session, draft, hasChanges, saving, saveDraft]);
+
+  const update = (changes: Partial<SessionNotesDraft>) =>
+    setDraft((current) => current && { ...current, ...changes });
+
+  const updateSections = (sections: SessionNoteSection[]) =>
+    update({ sections, notes: renderSessionNotes(sections) });
+
+  const chooseTemplate = (templateId: string) => {
+    const template = templates.find((candidate) => candidate.id === templateId);
+
+    setDraft((current) => {
+      if (!current) {
+        return current;
+      }
+      if (!template) {
+        return { ...current, templateId: null, sections: null };
+      }
+
+      const sections = createNoteSections(template, current);
+      return { ...current, templateId, sections, notes: renderSessionNotes(sections) };
+    });
+  };
+
+  const handleFinalize = async () => {
+    if (hasChanges && draft && !(await saveDraft(draft))) {
+      return;
+    }
+    await finalizeSession();
+  };
+
+  if (loading) {
+    return (
+      <main className="min-h-screen">
+        <Header />
+        <div className="container mx-auto px-4 py-12 max-w-3xl">
+          <Skeleton className="h-10 w-64 mb-8" />
+          <Card>
+            <CardContent className="p-6">
+              <Skeleton className="h-48 w-full" />
+            </CardContent>
+          </Card>
+        </div>
+        <Footer />
+      </main>
+    );
+  }
+
+  const renderBody = () => {
+    if (error || !appointment) {
+      return (
+        <Card>
+          <CardContent className="p-6 text-center text-muted-foreground">
+            {error || 'Appointment not found'}
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (!session) {
+      return (
+        <Card>
+          <CardContent className="p-12 text-center">
+            <NotebookPen className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+            {appointment.status === 'completed' ? (
+              <>
+                <p className="text-muted-foreground mb-4">
+                  You have not written notes for this session yet
+                </p>
+                <Button onClick={startSession} disabled={submitting}>
+                  Start Session Notes
+                </Button>
+              </>
+            ) : (
+              <p className="text-muted-foreground">
+                Notes can be written once the session is completed
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (!session.isDraft) {
+      return (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Lock className="h-4 w-4" />
+              Finalized
+            </CardTitle>
+            {session.finalizedAt && (
+              <CardDescription>
+                {format(session.finalizedAt.toDate(), "MMMM d, yyyy 'at' h:mm a")}
+              </CardDescription>
+            )}
+          </CardHeader>
+          <CardContent>
+            <SessionNotesSummary session={session} shared={shared} />
+          </CardContent>
+        </Card>
+      );
+    }
+
+    if (!draft) {
+      return null;
+    }
+
+    const noteTemplate =
+      templates.find((template) => template.id === draft.templateId) ?? null;
+
+    return (
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div className="space-y-1.5">
+                <CardTitle>Notes</CardTitle>
+                <CardDescription>Your record of the session</CardDescription>
+              </div>
+              <Select value={draft.templateId ?? FREE_TEXT} onValueChange={chooseTemplate}>
+                <SelectTrigger className="w-[160px]" aria-label="Note template">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={FREE_TEXT}>Free text</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                  {draft.templateId && !noteTemplate && (
+                    <SelectItem value={draft.templateId} disabled>
+                      Deleted template
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {draft.sections ? (
+              <SessionNoteSectionsEditor
+                sections={draft.sections}
+                onChange={updateSections}
+                template={noteTemplate}
+                previousPlan={previousPlan}
+              />
+            ) : (
+              <Textarea
+                value={draft.notes}
+                onChange={(e) => update({ notes: e.target.value })}
+                placeholder="What happened in this session?"
+                rows={10}
+                aria-label="Notes"
+              />
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Goals</CardTitle>
+            <CardDescription>What the client is working towards</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SessionListEditor
+              items={draft.goals}
+              onChange={(goals) => update({ goals })}
+              placeholder="Goal"
+              addLabel="Add Goal"
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Homework</CardTitle>
+            <CardDescription>What the client will do before the next session</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <SessionListEditor
+              items={draft.homework}
+              onChange={(homework) => update({ homework })}
+              placeholder="Homework"
+              addLabel="Add Homework"
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Next Session</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <Label htmlFor="next-session-date">Planned date</Label>
+            <Input
+              id="next-session-date"
+              type="date"
+              value={
+                draft.nextSessionDate ? format(draft.nextSessionDate.toDate(), 'yyyy-MM-dd') : ''
+              }
+              onChange={(e) =>
+                update({
+                  nextSessionDate: e.target.value
+                    ? Timestamp.fromDate(parse(e.target.value, 'yyyy-MM-dd', new Date()))
+                    : null,
+                })
+              }
+              className="w-auto"
+            />
+          </CardContent>
+        </Card>
+
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            {saving
+              ? 'Saving...'
+              : hasChanges
+                ? 'Unsaved changes'
+                : `Draft saved ${format(session.updatedAt.toDate(), 'h:mm a')}`}
+          </p>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button disabled={submitting || !draft.notes.trim()}>
+                <Lock className="h-4 w-4 mr-2" />
+                Finalize Notes
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Finalize Session Notes?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Finalized notes are locked and cannot be changed afterwards.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep Editing</AlertDialogCancel>
+                <AlertDialogAction onClick={handleFinalize}>Finalize</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <main className="min-h-screen">
+      <Header />
+
+      <div className="container mx-auto px-4 py-12 max-w-3xl">
+        <div className="mb-8">
+          <Button asChild variant="ghost" className="mb-4">
+            <Link href="/practitioner/dashboard">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Dashboard
+            </Link>
+          </Button>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <h1 className="text-4xl font-serif font-bold mb-2 flex items-center gap-3">
+                Session Notes
+                {session && (
+                  <Badge variant={session.isDraft ? 'secondary' : 'default'}>
+                    {session.isDraft ? 'Draft' : 'Finalized'}
+                  </Badge>
+                )}
+              </h1>
+              {appointment && (
+                <p className="text-muted-foreground">
+                  {appointment.sessionType?.name ?? 'Session'} on{' '}
+                  {format(appointment.startTime.toDate(), "EEEE, MMMM d, yyyy 'at' h:mm a")}
+                </p>
+              )}
+            </div>
+            {appointment && (
+              <Button asChild variant="outline">
+                <Link href={`/practitioner/clients/${appointment.clientId}/sessions`}>
+                  <History className="h-4 w-4 mr-2" />
+                  Client Timeline
+                </Link>
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {renderBody()}
+      </div>
+
+      <Footer />
+    </main>
+  );
+}
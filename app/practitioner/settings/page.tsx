@@ -5,7 +5,11 @@
  * - Display name and bio
  * - Specialties
  * - Pricing
- * - Session duration
+ * - Billing details and tax printed on invoices, and identifiers for superbills
+ * - Session duration and session types
+ * - Session note templates
+ * - Working hours, date-specific hours, time off and blocked dates
+ * - Booking window (time zone, minimum notice, maximum advance)
  * - Active status
  */
 
@@ -30,6 +34,36 @@ import { RequireAuth } from '@/components/auth/RequireAuth';
 import { useAuth } from '@/hooks/useAuth';
 import { usePractitioner } from '@/hooks/firestore/usePractitioner';
 import { practitionerRepository } from '@/services/firestore/repositories/PractitionerRepository';
+import { SessionTypesEditor } from '@/components/practitioner/SessionTypesEditor';
+import { NoteTemplatesEditor } from '@/components/practitioner/NoteTemplatesEditor';
+import { WorkingHoursEditor } from '@/components/practitioner/WorkingHoursEditor';
+import { AvailabilityOverridesEditor } from '@/components/practitioner/AvailabilityOverridesEditor';
+import { TimeOffEditor } from '@/components/practitioner/TimeOffEditor';
+import { BlockedDatesPicker } from '@/components/practitioner/BlockedDatesPicker';
+import {
+  DEFAULT_MAX_BOOKING_ADVANCE_DAYS,
+  getOverrideErrors,
+  getWorkingHoursErrors,
+  type DayOfWeek,
+} from '@/lib/scheduling/availability';
+import { getBrowserTimeZone, isValidTimeZone } from '@/lib/scheduling/timezone';
+import { DEFAULT_RESCHEDULE_POLICY, getReschedulePolicy } from '@/lib/scheduling/reschedule';
+import { DEFAULT_CANCELLATION_POLICY, getCancellationPolicy } from '@/lib/scheduling/cancellation';
+import { DEFAULT_WAITLIST_HOLD_HOURS, getWaitlistHoldHours } from '@/lib/scheduling/waitlist';
+import { DEFAULT_BILLING_DETAILS, getBillingDetails } from '@/lib/invoices/invoices';
+import {
+  DEFAULT_REQUEST_EXPIRY_HOURS,
+  getRequestExpiryHours,
+} from '@/lib/scheduling/appointmentLifecycle';
+import type {
+  AvailabilityOverride,
+  AvailabilityRules,
+  SessionNoteTemplate,
+  SessionType,
+  TimeOffPeriod,
+  WorkingHours,
+} from '@/types/firestore';
+import type { Timestamp } from 'firebase/firestore';
 import { toast } from 'sonner';
 import { useRouter } from 'next/navigation';
 import { ArrowLeft, Plus, X } from 'lucide-react';
@@ -41,8 +75,25 @@ const settingsSchema = z.object({
   initialConsultation: z.number().min(0, 'Price must be positive'),
   followUpSession: z.number().min(0, 'Price must be positive'),
   currency: z.string().min(1, 'Currency is required'),
+  businessName: z.string(),
+  billingAddress: z.string(),
+  taxId: z.string(),
+  licenseNumber: z.string(),
+  npi: z.string().regex(/^(\d{10})?$/, 'NPI must be 10 digits'),
+  taxLabel: z.string(),
+  taxRatePercent: z.number().min(0, 'Rate must be between 0 and 100%').max(100, 'Rate must be between 0 and 100%'),
   sessionDuration: z.number().min(15, 'Session duration must be at least 15 minutes').max(300, 'Session duration must be at most 300 minutes'),
   isActive: z.boolean(),
+  timezone: z.string().refine(isValidTimeZone, 'Enter a valid IANA time zone (e.g., America/New_York)'),
+  minBookingNotice: z.number().min(0, 'Notice must be zero or more hours'),
+  maxBookingAdvance: z.number().int('Enter a whole number of days').min(1, 'Must allow booking at least 1 day ahead'),
+  requestExpiryHours: z.number().min(1, 'Requests must stay open for at least 1 hour'),
+  waitlistHoldHours: z.number().min(1, 'Offers must be held for at least 1 hour'),
+  rescheduleRequiresApproval: z.boolean(),
+  rescheduleNoticeHours: z.number().min(0, 'Notice must be zero or more hours'),
+  freeCancellationHours: z.number().min(0, 'Window must be zero or more hours'),
+  lateCancellationFeePercent: z.number().min(0, 'Fee must be between 0 and 100%').max(100, 'Fee must be between 0 and 100%'),
+  noShowFeePercent: z.number().min(0, 'Fee must be between 0 and 100%').max(100, 'Fee must be between 0 and 100%'),
 });
 
 type SettingsFormValues = z.infer<typeof settingsSchema>;
@@ -62,6 +113,14 @@ function PractitionerSettingsContent() {
   const [specialties, setSpecialties] = useState<string[]>([]);
   const [newSpecialty, setNewSpecialty] = useState('');
   const [saving, setSaving] = useState(false);
+  const [sessionTypes, setSessionTypes] = useState<SessionType[]>([]);
+  const [noteTemplates, setNoteTemplates] = useState<SessionNoteTemplate[]>([]);
+  const [workingHours, setWorkingHours] = useState<WorkingHours>({});
+  const [workingHoursErrors, setWorkingHoursErrors] = useState<Partial<Record<DayOfWeek, string>>>({});
+  const [overrides, setOverrides] = useState<AvailabilityOverride[]>([]);
+  const [overrideErrors, setOverrideErrors] = useState<Record<number, string>>({});
+  const [timeOff, setTimeOff] = useState<TimeOffPeriod[]>([]);
+  const [blockedDates, setBlockedDates] = useState<Timestamp[]>([]);
 
   const form = useForm<SettingsFormValues>({
     resolver: zodResolver(settingsSchema),
@@ -71,24 +130,62 @@ function PractitionerSettingsContent() {
       initialConsultation: 0,
       followUpSession: 0,
       currency: 'USD',
+      businessName: '',
+      billingAddress: '',
+      taxId: '',
+      licenseNumber: '',
+      npi: '',
+      taxLabel: DEFAULT_BILLING_DETAILS.taxLabel,
+      taxRatePercent: DEFAULT_BILLING_DETAILS.taxRatePercent,
       sessionDuration: 60,
       isActive: true,
+      timezone: getBrowserTimeZone(),
+      minBookingNotice: 0,
+      maxBookingAdvance: DEFAULT_MAX_BOOKING_ADVANCE_DAYS,
+      requestExpiryHours: DEFAULT_REQUEST_EXPIRY_HOURS,
+      waitlistHoldHours: DEFAULT_WAITLIST_HOLD_HOURS,
+      rescheduleRequiresApproval: DEFAULT_RESCHEDULE_POLICY.requireApproval,
+      rescheduleNoticeHours: DEFAULT_RESCHEDULE_POLICY.minNoticeHours,
+      ...DEFAULT_CANCELLATION_POLICY,
     },
   });
 
   // Load practitioner data into form
   useEffect(() => {
     if (practitioner) {
+      const billing = getBillingDetails(practitioner);
       form.reset({
         displayName: practitioner.displayName,
         bio: practitioner.bio,
         initialConsultation: practitioner.pricing.initialConsultation / 100, // Convert from cents
         followUpSession: practitioner.pricing.followUpSession / 100, // Convert from cents
         currency: practitioner.pricing.currency,
+        businessName: billing.businessName ?? '',
+        billingAddress: billing.address ?? '',
+        taxId: billing.taxId ?? '',
+        licenseNumber: billing.licenseNumber ?? '',
+        npi: billing.npi ?? '',
+        taxLabel: billing.taxLabel,
+        taxRatePercent: billing.taxRatePercent,
         sessionDuration: practitioner.sessionDuration,
         isActive: practitioner.isActive,
+        timezone: practitioner.availabilityRules?.timezone || getBrowserTimeZone(),
+        minBookingNotice: practitioner.availabilityRules?.minBookingNotice ?? 0,
+        maxBookingAdvance:
+          practitioner.availabilityRules?.maxBookingAdvance ?? DEFAULT_MAX_BOOKING_ADVANCE_DAYS,
+        requestExpiryHours: getRequestExpiryHours(practitioner),
+        waitlistHoldHours: getWaitlistHoldHours(practitioner),
+        rescheduleRequiresApproval: getReschedulePolicy(practitioner).requireApproval,
+        rescheduleNoticeHours: getReschedulePolicy(practitioner).minNoticeHours,
+        ...getCancellationPolicy(practitioner),
       });
       setSpecialties(practitioner.specialties || []);
+      setSessionTypes(practitioner.sessionTypes || []);
+      setNoteTemplates(practitioner.noteTemplates || []);
+      setWorkingHours(practitioner.availabilityRules?.workingHours || {});
+      setOverrides(practitioner.availabilityRules?.overrides || []);
+      setTimeOff(practitioner.availabilityRules?.timeOff || []);
+      setBlockedDates(practitioner.availabilityRules?.blockedDates || []);
     }
   }, [practitioner, form]);
 
@@ -106,6 +203,25 @@ function PractitionerSettingsContent() {
   const onSubmit = async (values: SettingsFormValues) => {
     if (!user?.uid) return;
 
+    const hoursErrors = getWorkingHoursErrors(workingHours);
+    const datedErrors = getOverrideErrors(overrides);
+    setWorkingHoursErrors(hoursErrors);
+    setOverrideErrors(datedErrors);
+    if (Object.keys(hoursErrors).length > 0 || Object.keys(datedErrors).length > 0) {
+      toast.error('Please fix your working hours before saving');
+      return;
+    }
+
+    const availabilityRules: AvailabilityRules = {
+      timezone: values.timezone,
+      workingHours,
+      overrides,
+      blockedDates,
+      timeOff,
+      minBookingNotice: values.minBookingNotice,
+      maxBookingAdvance: values.maxBookingAdvance,
+    };
+
     setSaving(true);
     try {
       await practitionerRepository.updatePractitioner(user.uid, {
@@ -117,8 +233,31 @@ function PractitionerSettingsContent() {
           followUpSession: Math.round(values.followUpSession * 100), // Convert to cents
           currency: values.currency,
         },
+        billing: {
+          businessName: values.businessName.trim() || null,
+          address: values.billingAddress.trim() || null,
+          taxId: values.taxId.trim() || null,
+          licenseNumber: values.licenseNumber.trim() || null,
+          npi: values.npi || null,
+          taxLabel: values.taxLabel.trim() || null,
+          taxRatePercent: values.taxRatePercent,
+        },
         sessionDuration: values.sessionDuration,
+        sessionTypes,
+        noteTemplates,
+        requestExpiryHours: values.requestExpiryHours,
+        waitlistHoldHours: values.waitlistHoldHours,
+        reschedulePolicy: {
+          requireApproval: values.rescheduleRequiresApproval,
+          minNoticeHours: values.rescheduleNoticeHours,
+        },
+        cancellationPolicy: {
+          freeCancellationHours: values.freeCancellationHours,
+          lateCancellationFeePercent: values.lateCancellationFeePercent,
+          noShowFeePercent: values.noShowFeePercent,
+        },
         isActive: values.isActive,
+        availabilityRules,
       });
 
       toast.success('Settings saved successfully!');
@@ -167,6 +306,12 @@ function PractitionerSettingsContent() {
     );
   }
 
+  // Keep editors on a valid zone while the time zone field is being edited
+  const watchedTimeZone = form.watch('timezone');
+  const availabilityTimeZone = isValidTimeZone(watchedTimeZone)
+    ? watchedTimeZone
+    : practitioner.availabilityRules?.timezone || getBrowserTimeZone();
+
   return (
     <main className="min-h-screen">
       <Header />
@@ -346,6 +491,134 @@ function PractitionerSettingsContent() {
             </CardContent>
           </Card>
 
+          {/* Billing */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Billing</CardTitle>
+              <CardDescription>
+                Printed on the invoices clients receive for paid sessions. Session prices include the tax.
+                License number, NPI and tax ID also appear on superbills for insurance reimbursement.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="businessName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Business Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder={form.watch('displayName')} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="taxId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tax ID</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="e.g., VAT number or EIN" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="licenseNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>License Number</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="e.g., LPC 12345" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="npi"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>NPI</FormLabel>
+                      <FormControl>
+                        <Input
+                          {...field}
+                          inputMode="numeric"
+                          placeholder="10-digit National Provider Identifier"
+                          onChange={(e) => field.onChange(e.target.value.trim())}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="billingAddress"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} rows={3} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="taxLabel"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tax Name</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="Tax" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="taxRatePercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tax Rate (%)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="100"
+                          {...field}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Session Settings */}
           <Card>
             <CardHeader>
@@ -376,6 +649,345 @@ function PractitionerSettingsContent() {
             </CardContent>
           </Card>
 
+          {/* Session Types */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Session Types</CardTitle>
+              <CardDescription>
+                Offer different kinds of sessions, each with its own length and price
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <SessionTypesEditor
+                value={sessionTypes}
+                onChange={setSessionTypes}
+                currency={form.watch('currency')}
+                disabled={saving}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Note Templates */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Note Templates</CardTitle>
+              <CardDescription>
+                Structure your session notes in sections of your own
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <NoteTemplatesEditor
+                value={noteTemplates}
+                onChange={setNoteTemplates}
+                disabled={saving}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Working Hours */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Working Hours</CardTitle>
+              <CardDescription>
+                Set the hours you see clients on each day of the week
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <WorkingHoursEditor
+                value={workingHours}
+                onChange={(value) => {
+                  setWorkingHours(value);
+                  setWorkingHoursErrors({});
+                }}
+                errors={workingHoursErrors}
+                disabled={saving}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Date-specific Hours */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Date-specific Hours</CardTitle>
+              <CardDescription>
+                Change your hours for a particular date without editing your weekly schedule
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <AvailabilityOverridesEditor
+                value={overrides}
+                onChange={(value) => {
+                  setOverrides(value);
+                  setOverrideErrors({});
+                }}
+                workingHours={workingHours}
+                errors={overrideErrors}
+                disabled={saving}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Time Off */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Time Off</CardTitle>
+              <CardDescription>
+                Block vacations or part of a day. Clients cannot book during time off.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-8">
+              <TimeOffEditor
+                value={timeOff}
+                onChange={setTimeOff}
+                timeZone={availabilityTimeZone}
+                disabled={saving}
+              />
+              <div className="space-y-2">
+                <Label>Blocked Days</Label>
+                <p className="text-sm text-muted-foreground">
+                  Select individual days you are not available
+                </p>
+                <BlockedDatesPicker
+                  value={blockedDates}
+                  onChange={setBlockedDates}
+                  timeZone={availabilityTimeZone}
+                  disabled={saving}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Booking Window */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Booking Window</CardTitle>
+              <CardDescription>Control how far ahead clients can book with you</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="timezone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Time Zone</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="America/New_York" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="minBookingNotice"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Minimum Notice (hours)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          {...field}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="maxBookingAdvance"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Maximum Advance (days)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="1"
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="requestExpiryHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Request Expiry (hours)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <p className="text-sm text-muted-foreground">
+                      Booking requests you have not accepted expire after this long, or at their start time, and the client is notified
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="waitlistHoldHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Waitlist Hold (hours)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="1"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <p className="text-sm text-muted-foreground">
+                      When an appointment is cancelled, the time is held this long for the next matching client on your waitlist before it is offered to the one after
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Rescheduling */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Rescheduling</CardTitle>
+              <CardDescription>Control how clients can move their appointments</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <FormField
+                control={form.control}
+                name="rescheduleRequiresApproval"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <FormLabel>Approve Client Reschedules</FormLabel>
+                      <p className="text-sm text-muted-foreground">
+                        When enabled, a new time requested by a client only applies once you accept it
+                      </p>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="rescheduleNoticeHours"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reschedule Notice (hours)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <p className="text-sm text-muted-foreground">
+                      Clients cannot reschedule closer than this to the session
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Cancellation Policy */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Cancellation Policy</CardTitle>
+              <CardDescription>
+                Shown to clients before they book. Fees are a percentage of the session price and apply to confirmed appointments.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid md:grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="freeCancellationHours"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Free Cancellation (hours before)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          {...field}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="lateCancellationFeePercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Late Cancellation Fee (%)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          {...field}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="noShowFeePercent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>No-show Fee (%)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="0"
+                          max="100"
+                          {...field}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
           {/* Availability */}
           <Card>
             <CardHeader>
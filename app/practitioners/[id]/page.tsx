@@ -2,12 +2,14 @@
  * Practitioner Profile Page
  * 
  * Displays detailed information about a specific practitioner
- * and allows clients to book appointments.
+ * and allows clients to book appointments, once or as a recurring series,
+ * or to join the practitioner's waitlist when no time suits them. Clients
+ * are taken to the practitioner's intake form after booking, if they have one.
  */
 
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { Header } from '@/components/header';
 import { Footer } from '@/components/footer';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
@@ -17,70 +19,243 @@ import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import { Calendar } from '@/components/ui/calendar';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { usePractitioner } from '@/hooks/firestore/usePractitioner';
+import { usePractitionerAvailability } from '@/hooks/firestore/usePractitionerAvailability';
 import { useCreateAppointment } from '@/hooks/firestore/useCreateAppointment';
+import { useActiveIntakeTemplates } from '@/hooks/firestore/useActiveIntakeTemplates';
+import { useAppointmentSeries } from '@/hooks/firestore/useAppointmentSeries';
+import { useClientHistory } from '@/hooks/firestore/useClientHistory';
+import { useWaitlist } from '@/hooks/firestore/useWaitlist';
+import { JoinWaitlistDialog } from '@/components/appointments/JoinWaitlistDialog';
 import { useAuth } from '@/hooks/useAuth';
 import { useParams, useRouter } from 'next/navigation';
-import { MapPin, Clock, DollarSign, CheckCircle2 } from 'lucide-react';
+import { MapPin, Clock, CheckCircle2, Monitor, Users, XCircle } from 'lucide-react';
 import { RequireAuth } from '@/components/auth/RequireAuth';
 import { Timestamp } from 'firebase/firestore';
-import { addMinutes } from 'date-fns';
+import { toDateKey, type TimeSlot } from '@/lib/scheduling/availability';
+import {
+  formatInTimeZone,
+  getTimeZoneAbbreviation,
+  parseCalendarDate,
+  zonedTimeToUtc,
+} from '@/lib/scheduling/timezone';
+import {
+  MAX_SERIES_OCCURRENCES,
+  RECURRENCE_FREQUENCY_LABELS,
+  getRecurrenceRuleError,
+} from '@/lib/scheduling/recurrence';
+import {
+  getBookableSessionTypes,
+  getSessionTypes,
+  toBookedSessionType,
+} from '@/lib/scheduling/sessionTypes';
+import { getSessionQuote } from '@/lib/scheduling/pricing';
+import { describeCancellationPolicy, getCancellationPolicy } from '@/lib/scheduling/cancellation';
+import { formatPrice } from '@/lib/utils';
+import type {
+  CreateAppointmentInput,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  WaitlistWindow,
+} from '@/types/firestore';
+
+const timeFormat: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit' };
+const dateTimeFormat: Intl.DateTimeFormatOptions = {
+  weekday: 'short',
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+};
 
 export default function PractitionerProfilePage() {
   const params = useParams();
   const practitionerId = params.id as string;
   const { practitioner, loading, error } = usePractitioner(practitionerId);
+  const [selectedSessionTypeId, setSelectedSessionTypeId] = useState<string | null>(null);
   const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
-  const [selectedTime, setSelectedTime] = useState<string>('');
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
   const [notes, setNotes] = useState('');
+  const [repeat, setRepeat] = useState<RecurrenceFrequency | 'none'>('none');
+  const [seriesEnd, setSeriesEnd] = useState<'count' | 'until'>('count');
+  const [seriesCount, setSeriesCount] = useState('6');
+  const [seriesUntil, setSeriesUntil] = useState('');
   const [dialogOpen, setDialogOpen] = useState(false);
   const { user } = useAuth();
-  const { createAppointment, loading: creating } = useCreateAppointment();
+  const { createAppointment, loading: creatingAppointment, conflict } = useCreateAppointment();
+  const {
+    previewSeries,
+    createSeries,
+    occurrences,
+    previewing,
+    loading: creatingSeries,
+  } = useAppointmentSeries();
+  const creating = creatingAppointment || creatingSeries;
+  const { isNewClient, isReturningClient, loading: loadingHistory } = useClientHistory(
+    user?.uid ?? null,
+    practitioner?.uid ?? null
+  );
+  const { entries: waitlistEntries, joinWaitlist, submitting: joiningWaitlist } = useWaitlist(
+    'client',
+    user?.uid
+  );
+  const waitlistEntry = waitlistEntries.find((entry) => entry.practitionerId === practitionerId);
+  const { templates: intakeTemplates } = useActiveIntakeTemplates(user ? [practitionerId] : []);
+
+  // Session types this client may book; the first one is preselected
+  const sessionTypes = useMemo(
+    () => (practitioner ? getBookableSessionTypes(practitioner, isNewClient) : []),
+    [practitioner, isNewClient]
+  );
+  const selectedSessionType =
+    sessionTypes.find((type) => type.id === selectedSessionTypeId) ?? sessionTypes[0] ?? null;
+  const quote =
+    practitioner && selectedSessionType
+      ? getSessionQuote(practitioner, selectedSessionType, isReturningClient)
+      : null;
+
+  const {
+    slotsByDay,
+    timeZone: clientTimeZone,
+    loading: loadingSlots,
+    refresh: refreshAvailability,
+  } = usePractitionerAvailability(practitioner, selectedSessionType?.duration);
   const router = useRouter();
 
-  // Generate time slots (every 30 minutes from 9 AM to 5 PM)
-  const timeSlots = [];
-  for (let hour = 9; hour < 17; hour++) {
-    for (let minute = 0; minute < 60; minute += 30) {
-      const timeString = `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-      timeSlots.push(timeString);
-    }
-  }
+  // Open slots for the selected day (empty when no day is selected)
+  const daySlots = selectedDate
+    ? slotsByDay.get(toDateKey(selectedDate, clientTimeZone)) ?? []
+    : [];
+  const practitionerTimeZone = practitioner?.availabilityRules.timezone ?? clientTimeZone;
+  const showBothZones = practitionerTimeZone !== clientTimeZone;
 
-  const handleBookAppointment = async () => {
-    if (!user || !practitioner || !selectedDate || !selectedTime) {
-      return;
+  // Repeat pattern for a series; the until date runs to the end of that day
+  // in the practitioner's time zone, where the series is laid out
+  const recurrence = useMemo((): RecurrenceRule | null => {
+    if (repeat === 'none') {
+      return null;
+    }
+    if (seriesEnd === 'count') {
+      return { frequency: repeat, count: Number(seriesCount) };
     }
+    if (!seriesUntil) {
+      return { frequency: repeat };
+    }
+    const until = zonedTimeToUtc(
+      { ...parseCalendarDate(seriesUntil), hour: 23, minute: 59 },
+      practitionerTimeZone
+    );
+    return { frequency: repeat, until: Timestamp.fromDate(until) };
+  }, [repeat, seriesEnd, seriesCount, seriesUntil, practitionerTimeZone]);
+  const recurrenceError =
+    recurrence && selectedSlot ? getRecurrenceRuleError(recurrence, selectedSlot.start) : null;
 
-    // Combine date and time
-    const [hours, minutes] = selectedTime.split(':').map(Number);
-    const startTime = new Date(selectedDate);
-    startTime.setHours(hours, minutes, 0, 0);
-    
-    // Calculate end time based on session duration
-    const endTime = addMinutes(startTime, practitioner.sessionDuration);
+  const bookingInput = useMemo((): CreateAppointmentInput | null => {
+    if (!user || !practitioner || !selectedSlot || !selectedSessionType || !quote) {
+      return null;
+    }
 
-    const appointment = await createAppointment({
+    return {
       clientId: user.uid,
       practitionerId: practitioner.uid,
-      startTime: Timestamp.fromDate(startTime),
-      endTime: Timestamp.fromDate(endTime),
+      startTime: Timestamp.fromDate(selectedSlot.start),
+      endTime: Timestamp.fromDate(selectedSlot.end),
       notes: notes || null,
-    });
+      sessionType: toBookedSessionType(selectedSessionType),
+      quotedPrice: quote.price,
+      currency: quote.currency,
+      pricingTier: quote.tier,
+      cancellationPolicy: practitioner.cancellationPolicy ?? null,
+    };
+  }, [user, practitioner, selectedSlot, selectedSessionType, quote, notes]);
+
+  // Check every date of the series whenever its first slot or pattern changes
+  useEffect(() => {
+    if (bookingInput && recurrence && !recurrenceError) {
+      previewSeries({ ...bookingInput, recurrence });
+    }
+  }, [selectedSlot, recurrence, recurrenceError]);
 
-    if (appointment) {
+  const freeOccurrences = occurrences.filter((occurrence) => !occurrence.conflict).length;
+
+  // Someone else took the slot first: drop the selection and reload open slots
+  useEffect(() => {
+    if (conflict?.conflictWith === 'practitioner') {
+      setSelectedSlot(null);
+      refreshAvailability();
+    }
+  }, [conflict]);
+
+  const handleSelectSessionType = (sessionTypeId: string) => {
+    setSelectedSessionTypeId(sessionTypeId);
+    // Open slots depend on the session length
+    setSelectedDate(undefined);
+    setSelectedSlot(null);
+  };
+
+  const handleSelectDate = (date: Date | undefined) => {
+    setSelectedDate(date);
+    setSelectedSlot(null);
+  };
+
+  const handleBookAppointment = async () => {
+    if (!bookingInput || recurrenceError) {
+      return;
+    }
+
+    const booked = recurrence
+      ? await createSeries({ ...bookingInput, recurrence })
+      : await createAppointment(bookingInput);
+
+    if (booked) {
       setDialogOpen(false);
       // Reset form
+      setSelectedSessionTypeId(null);
       setSelectedDate(undefined);
-      setSelectedTime('');
+      setSelectedSlot(null);
       setNotes('');
-      // Redirect to dashboard to see the appointment
-      router.push('/dashboard');
+      setRepeat('none');
+      // Ask for the intake form (once, for the first of a series), otherwise
+      // redirect to dashboard to see the appointment
+      const appointmentId = 'appointments' in booked ? booked.appointments[0]?.id : booked.id;
+      router.push(
+        intakeTemplates[practitionerId] && appointmentId
+          ? `/client/intake/${appointmentId}`
+          : '/dashboard'
+      );
     }
   };
 
+  const handleJoinWaitlist = async (windows: WaitlistWindow[], waitlistNotes: string) => {
+    if (!user || !practitioner || !selectedSessionType || !quote) {
+      return false;
+    }
+
+    const entry = await joinWaitlist({
+      practitionerId: practitioner.uid,
+      clientId: user.uid,
+      clientName: user.displayName ?? null,
+      windows,
+      sessionType: toBookedSessionType(selectedSessionType),
+      quotedPrice: quote.price,
+      currency: quote.currency,
+      pricingTier: quote.tier,
+      notes: waitlistNotes || null,
+    });
+    return entry !== null;
+  };
+
   if (error) {
     return (
       <main className="min-h-screen">
@@ -174,44 +349,56 @@ export default function PractitionerProfilePage() {
                   </div>
                 )}
 
-                <div className="grid md:grid-cols-2 gap-6 mb-6">
-                  <Card>
-                    <CardHeader>
-                      <CardTitle className="text-lg flex items-center gap-2">
-                        <DollarSign className="h-5 w-5" />
-                        Pricing
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-2">
-                        <div className="flex justify-between">
-                          <span className="text-muted-foreground">Initial Consultation</span>
-                          <span className="font-semibold">
-                            ${(practitioner.pricing.initialConsultation / 100).toFixed(2)}
-                          </span>
-                        </div>
-                        <div className="flex justify-between">
-                          <span className="text-muted-foreground">Follow-up Session</span>
-                          <span className="font-semibold">
-                            ${(practitioner.pricing.followUpSession / 100).toFixed(2)}
-                          </span>
-                        </div>
-                      </div>
-                    </CardContent>
-                  </Card>
-
-                  <Card>
-                    <CardHeader>
-                      <CardTitle className="text-lg flex items-center gap-2">
-                        <Clock className="h-5 w-5" />
-                        Session Duration
-                      </CardTitle>
-                    </CardHeader>
-                    <CardContent>
-                      <p className="text-2xl font-semibold">{practitioner.sessionDuration} minutes</p>
-                    </CardContent>
-                  </Card>
-                </div>
+                <Card className="mb-6">
+                  <CardHeader>
+                    <CardTitle className="text-lg flex items-center gap-2">
+                      <Clock className="h-5 w-5" />
+                      Sessions
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <ul className="divide-y">
+                      {getSessionTypes(practitioner).map((sessionType) => (
+                        <li key={sessionType.id} className="py-3 first:pt-0 last:pb-0">
+                          <div className="flex justify-between gap-4">
+                            <div className="space-y-1">
+                              <p className="font-medium">{sessionType.name}</p>
+                              <p className="text-sm text-muted-foreground flex items-center gap-2">
+                                {sessionType.format === 'online' ? (
+                                  <Monitor className="h-3 w-3" />
+                                ) : (
+                                  <Users className="h-3 w-3" />
+                                )}
+                                {sessionType.duration} minutes ·{' '}
+                                {sessionType.format === 'online' ? 'Online' : 'In person'}
+                              </p>
+                              {sessionType.description && (
+                                <p className="text-sm text-muted-foreground">
+                                  {sessionType.description}
+                                </p>
+                              )}
+                              {sessionType.newClientsOnly && (
+                                <Badge variant="secondary">New clients only</Badge>
+                              )}
+                            </div>
+                            <div className="text-right">
+                              <p className="font-semibold">
+                                {formatPrice(sessionType.price, practitioner.pricing.currency)}
+                              </p>
+                              {sessionType.followUpPrice != null &&
+                                sessionType.followUpPrice !== sessionType.price && (
+                                  <p className="text-sm text-muted-foreground">
+                                    {formatPrice(sessionType.followUpPrice, practitioner.pricing.currency)}{' '}
+                                    follow-up
+                                  </p>
+                                )}
+                            </div>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </CardContent>
+                </Card>
 
                 <RequireAuth>
                   <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
@@ -229,36 +416,248 @@ export default function PractitionerProfilePage() {
                       </DialogHeader>
                       
                       <div className="space-y-4 py-4">
+                        <div>
+                          <Label>Session Type</Label>
+                          <RadioGroup
+                            value={selectedSessionType?.id ?? ''}
+                            onValueChange={handleSelectSessionType}
+                            className="mt-2"
+                            disabled={loadingHistory}
+                          >
+                            {sessionTypes.map((sessionType) => (
+                              <Label
+                                key={sessionType.id}
+                                htmlFor={`session-type-${sessionType.id}`}
+                                className="flex items-center justify-between gap-4 rounded-md border p-3 font-normal cursor-pointer"
+                              >
+                                <span className="flex items-center gap-3">
+                                  <RadioGroupItem
+                                    value={sessionType.id}
+                                    id={`session-type-${sessionType.id}`}
+                                  />
+                                  <span>
+                                    <span className="block font-medium">{sessionType.name}</span>
+                                    <span className="block text-xs text-muted-foreground">
+                                      {sessionType.duration} min ·{' '}
+                                      {sessionType.format === 'online' ? 'Online' : 'In person'}
+                                    </span>
+                                  </span>
+                                </span>
+                                <span className="font-medium">
+                                  {formatPrice(
+                                    getSessionQuote(practitioner, sessionType, isReturningClient).price,
+                                    practitioner.pricing.currency
+                                  )}
+                                </span>
+                              </Label>
+                            ))}
+                          </RadioGroup>
+                        </div>
+
                         <div>
                           <Label>Select Date</Label>
                           <Calendar
                             mode="single"
                             selected={selectedDate}
-                            onSelect={setSelectedDate}
-                            disabled={(date) => date < new Date()}
+                            onSelect={handleSelectDate}
+                            disabled={(date) =>
+                              loadingSlots || !slotsByDay.has(toDateKey(date, clientTimeZone))
+                            }
                             className="rounded-md border mt-2"
                           />
+                          {!loadingSlots && slotsByDay.size === 0 && (
+                            <p className="text-sm text-muted-foreground mt-2">
+                              No open slots are available right now. Join the waitlist to be
+                              offered a time when one opens up.
+                            </p>
+                          )}
                         </div>
 
                         {selectedDate && (
                           <div>
                             <Label>Select Time</Label>
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Times shown in your time zone ({clientTimeZone})
+                            </p>
                             <div className="grid grid-cols-4 gap-2 mt-2 max-h-48 overflow-y-auto">
-                              {timeSlots.map((time) => (
+                              {daySlots.map((slot) => (
                                 <Button
-                                  key={time}
+                                  key={slot.start.toISOString()}
                                   type="button"
-                                  variant={selectedTime === time ? 'default' : 'outline'}
+                                  variant={
+                                    selectedSlot?.start.getTime() === slot.start.getTime()
+                                      ? 'default'
+                                      : 'outline'
+                                  }
                                   size="sm"
-                                  onClick={() => setSelectedTime(time)}
+                                  onClick={() => setSelectedSlot(slot)}
                                 >
-                                  {time}
+                                  {formatInTimeZone(slot.start, clientTimeZone, timeFormat)}
                                 </Button>
                               ))}
                             </div>
                           </div>
                         )}
 
+                        {selectedSlot && (
+                          <div className="rounded-md border p-3 text-sm space-y-1">
+                            {selectedSessionType && (
+                              <div className="flex justify-between gap-4">
+                                <span className="text-muted-foreground">Session</span>
+                                <span className="font-medium">
+                                  {selectedSessionType.name} ({selectedSessionType.duration} min)
+                                </span>
+                              </div>
+                            )}
+                            <div className="flex justify-between gap-4">
+                              <span className="text-muted-foreground">Your time</span>
+                              <span className="font-medium">
+                                {formatInTimeZone(selectedSlot.start, clientTimeZone, dateTimeFormat)}{' '}
+                                {getTimeZoneAbbreviation(selectedSlot.start, clientTimeZone)}
+                              </span>
+                            </div>
+                            {showBothZones && (
+                              <div className="flex justify-between gap-4">
+                                <span className="text-muted-foreground">
+                                  {practitioner.displayName}&apos;s time
+                                </span>
+                                <span className="font-medium">
+                                  {formatInTimeZone(selectedSlot.start, practitionerTimeZone, dateTimeFormat)}{' '}
+                                  {getTimeZoneAbbreviation(selectedSlot.start, practitionerTimeZone)}
+                                </span>
+                              </div>
+                            )}
+                            {quote && (
+                              <div className="flex justify-between gap-4">
+                                <span className="text-muted-foreground">
+                                  Price ({quote.tier === 'initial' ? 'initial consultation' : 'follow-up'} rate)
+                                </span>
+                                <span className="font-medium">
+                                  {formatPrice(quote.price, quote.currency)}
+                                </span>
+                              </div>
+                            )}
+                          </div>
+                        )}
+
+                        {selectedSlot && (
+                          <div className="space-y-2">
+                            <Label>Repeat</Label>
+                            <Select
+                              value={repeat}
+                              onValueChange={(value) => setRepeat(value as RecurrenceFrequency | 'none')}
+                            >
+                              <SelectTrigger className="w-full">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value="none">Does not repeat</SelectItem>
+                                {Object.entries(RECURRENCE_FREQUENCY_LABELS).map(([value, label]) => (
+                                  <SelectItem key={value} value={value}>
+                                    {label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+
+                            {repeat !== 'none' && (
+                              <RadioGroup
+                                value={seriesEnd}
+                                onValueChange={(value) => setSeriesEnd(value as 'count' | 'until')}
+                                className="gap-2"
+                              >
+                                <div className="flex items-center gap-3">
+                                  <RadioGroupItem value="count" id="series-end-count" />
+                                  <Label htmlFor="series-end-count" className="font-normal">
+                                    Ends after
+                                  </Label>
+                                  <Input
+                                    type="number"
+                                    min={2}
+                                    max={MAX_SERIES_OCCURRENCES}
+                                    value={seriesCount}
+                                    onChange={(e) => setSeriesCount(e.target.value)}
+                                    disabled={seriesEnd !== 'count'}
+                                    className="w-20"
+                                  />
+                                  <span className="text-sm">sessions</span>
+                                </div>
+                                <div className="flex items-center gap-3">
+                                  <RadioGroupItem value="until" id="series-end-until" />
+                                  <Label htmlFor="series-end-until" className="font-normal">
+                                    Ends on
+                                  </Label>
+                                  <Input
+                                    type="date"
+                                    value={seriesUntil}
+                                    onChange={(e) => setSeriesUntil(e.target.value)}
+                                    disabled={seriesEnd !== 'until'}
+                                    className="w-44"
+                                  />
+                                </div>
+                              </RadioGroup>
+                            )}
+
+                            {recurrenceError ? (
+                              <p className="text-sm text-destructive">{recurrenceError}</p>
+                            ) : (
+                              recurrence && (
+                                <div className="rounded-md border p-3 text-sm space-y-1">
+                                  {previewing ? (
+                                    <p className="text-muted-foreground">Checking dates...</p>
+                                  ) : (
+                                    <>
+                                      <p className="font-medium">
+                                        {freeOccurrences} of {occurrences.length} sessions available
+                                      </p>
+                                      <ul className="max-h-40 overflow-y-auto space-y-1">
+                                        {occurrences.map((occurrence) => (
+                                          <li
+                                            key={occurrence.index}
+                                            className="flex items-center justify-between gap-4"
+                                          >
+                                            <span className={occurrence.conflict ? 'text-muted-foreground line-through' : undefined}>
+                                              {formatInTimeZone(occurrence.startTime.toDate(), clientTimeZone, dateTimeFormat)}
+                                            </span>
+                                            {occurrence.conflict ? (
+                                              <span className="flex items-center gap-1 text-xs text-destructive">
+                                                <XCircle className="h-3 w-3" />
+                                                {occurrence.conflict}
+                                              </span>
+                                            ) : (
+                                              <CheckCircle2 className="h-4 w-4 text-primary" />
+                                            )}
+                                          </li>
+                                        ))}
+                                      </ul>
+                                      {freeOccurrences < occurrences.length && (
+                                        <p className="text-xs text-muted-foreground">
+                                          Unavailable dates will be skipped.
+                                        </p>
+                                      )}
+                                    </>
+                                  )}
+                                </div>
+                              )
+                            )}
+                          </div>
+                        )}
+
+                        {selectedSlot && (
+                          <div className="text-sm">
+                            <p className="font-medium">Cancellation policy</p>
+                            <ul className="text-muted-foreground list-disc pl-5 mt-1 space-y-0.5">
+                              {describeCancellationPolicy(
+                                getCancellationPolicy(practitioner),
+                                quote?.price,
+                                quote?.currency
+                              ).map((line) => (
+                                <li key={line}>{line}</li>
+                              ))}
+                            </ul>
+                          </div>
+                        )}
+
                         <div>
                           <Label htmlFor="notes">Notes (Optional)</Label>
                           <Textarea
@@ -281,14 +680,47 @@ export default function PractitionerProfilePage() {
                           </Button>
                           <Button
                             onClick={handleBookAppointment}
-                            disabled={!selectedDate || !selectedTime || creating}
+                            disabled={
+                              !selectedSlot ||
+                              !quote ||
+                              loadingHistory ||
+                              creating ||
+                              !!recurrenceError ||
+                              (!!recurrence && (previewing || freeOccurrences === 0))
+                            }
                           >
-                            {creating ? 'Booking...' : 'Confirm Booking'}
+                            {creating
+                              ? 'Booking...'
+                              : recurrence
+                                ? `Book ${freeOccurrences} Sessions`
+                                : 'Confirm Booking'}
                           </Button>
                         </div>
                       </div>
                     </DialogContent>
                   </Dialog>
+
+                  <div className="mt-3">
+                    {waitlistEntry ? (
+                      <p className="text-sm text-muted-foreground text-center">
+                        {waitlistEntry.status === 'offered'
+                          ? 'A time has opened up for you. Accept it from your dashboard.'
+                          : "You're on the waitlist. We'll let you know when a matching time opens up."}
+                      </p>
+                    ) : (
+                      <JoinWaitlistDialog
+                        practitionerName={practitioner.displayName}
+                        timeZone={practitionerTimeZone}
+                        sessionTypes={sessionTypes}
+                        sessionType={selectedSessionType}
+                        onSessionTypeChange={handleSelectSessionType}
+                        quote={quote}
+                        onJoin={handleJoinWaitlist}
+                        submitting={joiningWaitlist}
+                        disabled={loadingHistory}
+                      />
+                    )}
+                  </div>
                 </RequireAuth>
               </CardContent>
             </Card>
@@ -0,0 +1,57 @@
+/**
+ * InvoiceActions Component
+ *
+ * Buttons to download the invoice of a paid appointment as a PDF or print
+ * it. Used on the client and practitioner dashboards; renders nothing until
+ * the payment sync has issued the invoice.
+ */
+
+'use client';
+
+import { FileDown, Printer } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useInvoiceDownload } from '@/hooks/firestore/useInvoiceDownload';
+import type { AppointmentDocument } from '@/types/firestore';
+
+/**
+ * InvoiceActions props
+ */
+interface InvoiceActionsProps {
+  /**
+   * Appointment whose invoice to offer
+   */
+  appointment: Pick<AppointmentDocument, 'invoiceId'>;
+}
+
+export function InvoiceActions({ appointment }: InvoiceActionsProps) {
+  const { downloadPdf, printInvoice, loading } = useInvoiceDownload();
+
+  if (!appointment.invoiceId) {
+    return null;
+  }
+
+  const invoiceId = appointment.invoiceId;
+
+  return (
+    <>
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={loading}
+        onClick={() => downloadPdf(invoiceId)}
+      >
+        <FileDown className="h-4 w-4 mr-2" />
+        Invoice PDF
+      </Button>
+      <Button
+        size="sm"
+        variant="outline"
+        disabled={loading}
+        onClick={() => printInvoice(invoiceId)}
+      >
+        <Printer className="h-4 w-4 mr-2" />
+        Print Invoice
+      </Button>
+    </>
+  );
+}
@@ -0,0 +1,244 @@
+/**
+ * JoinWaitlistDialog Component
+ *
+ * Lets a client join a practitioner's waitlist for a session type: they
+ * choose the days and the time of day they can attend, in the
+ * practitioner's time zone, and are offered matching times that free up.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import type { DayOfWeek } from '@/lib/scheduling/availability';
+import type { SessionQuote } from '@/lib/scheduling/pricing';
+import { getWaitlistWindowsError } from '@/lib/scheduling/waitlist';
+import { formatPrice } from '@/lib/utils';
+import type { SessionType, WaitlistWindow } from '@/types/firestore';
+
+/**
+ * Days in display order (week starts on Monday)
+ */
+const DISPLAY_DAYS: DayOfWeek[] = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+];
+
+/**
+ * JoinWaitlistDialog props
+ */
+interface JoinWaitlistDialogProps {
+  /**
+   * Practitioner's display name
+   */
+  practitionerName: string;
+
+  /**
+   * Practitioner's time zone, which the windows are in
+   */
+  timeZone: string;
+
+  /**
+   * Session types the client may book
+   */
+  sessionTypes: SessionType[];
+
+  /**
+   * Session type the client is waiting for
+   */
+  sessionType: SessionType | null;
+
+  /**
+   * Called when another session type is chosen
+   */
+  onSessionTypeChange: (sessionTypeId: string) => void;
+
+  /**
+   * Price the client would pay for it
+   */
+  quote: SessionQuote | null;
+
+  /**
+   * Called to join; resolves to whether the client joined
+   */
+  onJoin: (windows: WaitlistWindow[], notes: string) => Promise<boolean>;
+
+  /**
+   * Whether joining is in progress
+   */
+  submitting: boolean;
+
+  /**
+   * Disable the trigger button
+   */
+  disabled?: boolean;
+}
+
+export function JoinWaitlistDialog({
+  practitionerName,
+  timeZone,
+  sessionTypes,
+  sessionType,
+  onSessionTypeChange,
+  quote,
+  onJoin,
+  submitting,
+  disabled = false,
+}: JoinWaitlistDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [days, setDays] = useState<DayOfWeek[]>([]);
+  const [start, setStart] = useState('09:00');
+  const [end, setEnd] = useState('17:00');
+  const [notes, setNotes] = useState('');
+
+  const windows: WaitlistWindow[] = days.map((day) => ({ day, start, end }));
+  const windowsError = getWaitlistWindowsError(windows);
+
+  const toggleDay = (day: DayOfWeek, checked: boolean) => {
+    setDays((current) =>
+      checked ? [...current, day] : current.filter((candidate) => candidate !== day)
+    );
+  };
+
+  const handleJoin = async () => {
+    if (windowsError) {
+      return;
+    }
+
+    if (await onJoin(windows, notes)) {
+      setOpen(false);
+      setDays([]);
+      setNotes('');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="lg" className="w-full" disabled={disabled || !sessionType}>
+          Join Waitlist
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[450px]">
+        <DialogHeader>
+          <DialogTitle>Join Waitlist</DialogTitle>
+          <DialogDescription>
+            Tell us when you could see {practitionerName}. If a matching time is cancelled, it
+            will be held for you and you can accept it from your dashboard.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <Label>Session Type</Label>
+            <Select value={sessionType?.id ?? ''} onValueChange={onSessionTypeChange}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {sessionTypes.map((type) => (
+                  <SelectItem key={type.id} value={type.id}>
+                    {type.name} ({type.duration} min)
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {quote && (
+              <p className="text-xs text-muted-foreground">
+                {formatPrice(quote.price, quote.currency)} per session
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Days</Label>
+            <div className="grid grid-cols-2 gap-2">
+              {DISPLAY_DAYS.map((day) => (
+                <div key={day} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`waitlist-day-${day}`}
+                    checked={days.includes(day)}
+                    onCheckedChange={(checked) => toggleDay(day, checked === true)}
+                  />
+                  <Label htmlFor={`waitlist-day-${day}`} className="font-normal capitalize">
+                    {day}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Between</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                aria-label="Earliest start"
+                value={start}
+                onChange={(e) => setStart(e.target.value)}
+                className="w-32"
+              />
+              <span className="text-sm">and</span>
+              <Input
+                type="time"
+                aria-label="Latest end"
+                value={end}
+                onChange={(e) => setEnd(e.target.value)}
+                className="w-32"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">Times in {timeZone}</p>
+            {days.length > 0 && windowsError && (
+              <p className="text-sm text-destructive">{windowsError}</p>
+            )}
+          </div>
+
+          <div>
+            <Label htmlFor="waitlist-notes">Notes (Optional)</Label>
+            <Textarea
+              id="waitlist-notes"
+              placeholder="Any additional information for the practitioner..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="mt-2"
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={() => setOpen(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleJoin} disabled={!!windowsError || submitting}>
+              {submitting ? 'Joining...' : 'Join Waitlist'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,255 @@
+/**
+ * RescheduleAppointmentDialog Component
+ *
+ * Button and dialog for moving an appointment to another open slot of its
+ * practitioner, keeping its length. Used by clients and practitioners;
+ * clients see the practitioner's reschedule policy and, when approval is
+ * required, send a request instead of moving the appointment. Appointments
+ * in a recurring series can move the following or all upcoming ones too.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { CalendarClock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { SeriesScopeOptions } from '@/components/appointments/SeriesScopeOptions';
+import { usePractitioner } from '@/hooks/firestore/usePractitioner';
+import { usePractitionerAvailability } from '@/hooks/firestore/usePractitionerAvailability';
+import { useRescheduleAppointment } from '@/hooks/firestore/useRescheduleAppointment';
+import { toDateKey, type TimeSlot } from '@/lib/scheduling/availability';
+import {
+  getRescheduleError,
+  getReschedulePolicy,
+  requiresRescheduleApproval,
+} from '@/lib/scheduling/reschedule';
+import { formatInTimeZone, getTimeZoneAbbreviation } from '@/lib/scheduling/timezone';
+import type { AppointmentDocument, RescheduledBy, SeriesScope } from '@/types/firestore';
+
+const timeFormat: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit' };
+const dateTimeFormat: Intl.DateTimeFormatOptions = {
+  weekday: 'short',
+  month: 'short',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+};
+
+/**
+ * RescheduleAppointmentDialog props
+ */
+interface RescheduleAppointmentDialogProps {
+  /**
+   * Appointment to move
+   */
+  appointment: AppointmentDocument;
+
+  /**
+   * Who is moving it (the signed-in user's role on the appointment)
+   */
+  requestedBy: RescheduledBy;
+
+  /**
+   * Disable the trigger button
+   */
+  disabled?: boolean;
+}
+
+export function RescheduleAppointmentDialog({
+  appointment,
+  requestedBy,
+  disabled,
+}: RescheduleAppointmentDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+  const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+  const [scope, setScope] = useState<SeriesScope>('this');
+  const { practitioner } = usePractitioner(open ? appointment.practitionerId : null);
+  const {
+    rescheduleAppointmentSeries,
+    loading: rescheduling,
+    conflict,
+    seriesConflict,
+  } = useRescheduleAppointment();
+
+  const duration = Math.round(
+    (appointment.endTime.toMillis() - appointment.startTime.toMillis()) / 60000
+  );
+  const {
+    slotsByDay,
+    timeZone,
+    loading: loadingSlots,
+    refresh: refreshAvailability,
+  } = usePractitionerAvailability(practitioner, duration, appointment);
+
+  const policy = practitioner ? getReschedulePolicy(practitioner) : null;
+  const policyError = policy ? getRescheduleError(appointment, requestedBy, policy) : null;
+  const needsApproval = policy ? requiresRescheduleApproval(requestedBy, policy) : false;
+  const daySlots = selectedDate ? slotsByDay.get(toDateKey(selectedDate, timeZone)) ?? [] : [];
+
+  // Someone else took the slot first: drop the selection and reload open slots
+  useEffect(() => {
+    if (conflict) {
+      setSelectedSlot(null);
+      refreshAvailability();
+    }
+  }, [conflict]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setSelectedDate(undefined);
+      setSelectedSlot(null);
+      setScope('this');
+    }
+  };
+
+  const handleSelectDate = (date: Date | undefined) => {
+    setSelectedDate(date);
+    setSelectedSlot(null);
+  };
+
+  const handleReschedule = async () => {
+    if (!selectedSlot) {
+      return;
+    }
+
+    const updated = await rescheduleAppointmentSeries(appointment.id, scope, {
+      startTime: Timestamp.fromDate(selectedSlot.start),
+      endTime: Timestamp.fromDate(selectedSlot.end),
+      requestedBy,
+    });
+
+    if (updated) {
+      handleOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full" disabled={disabled}>
+          <CalendarClock className="h-4 w-4 mr-2" />
+          Reschedule
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reschedule Appointment</DialogTitle>
+          <DialogDescription>
+            Currently {formatInTimeZone(appointment.startTime.toDate(), timeZone, dateTimeFormat)}{' '}
+            {getTimeZoneAbbreviation(appointment.startTime.toDate(), timeZone)} ({duration} min)
+          </DialogDescription>
+        </DialogHeader>
+
+        {policyError ? (
+          <p className="text-sm text-destructive">{policyError}</p>
+        ) : (
+          <div className="space-y-4">
+            {requestedBy === 'client' && policy && (
+              <p className="text-sm text-muted-foreground">
+                {needsApproval
+                  ? 'Your practitioner will need to accept the new time. Your current time is kept until then.'
+                  : 'Your appointment will move to the new time right away.'}{' '}
+                Changes are possible up to {policy.minNoticeHours} hours before the session.
+              </p>
+            )}
+
+            <SeriesScopeOptions
+              appointment={appointment}
+              value={scope}
+              onChange={setScope}
+              timeZone={timeZone}
+            />
+
+            <div>
+              <Label>Select Date</Label>
+              <Calendar
+                mode="single"
+                selected={selectedDate}
+                onSelect={handleSelectDate}
+                disabled={(date) => loadingSlots || !slotsByDay.has(toDateKey(date, timeZone))}
+                className="rounded-md border mt-2"
+              />
+              {!loadingSlots && practitioner && slotsByDay.size === 0 && (
+                <p className="text-sm text-muted-foreground mt-2">
+                  No other open slots are available right now.
+                </p>
+              )}
+            </div>
+
+            {selectedDate && (
+              <div>
+                <Label>Select Time</Label>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Times shown in your time zone ({timeZone})
+                </p>
+                <div className="grid grid-cols-4 gap-2 mt-2 max-h-48 overflow-y-auto">
+                  {daySlots.map((slot) => (
+                    <Button
+                      key={slot.start.toISOString()}
+                      type="button"
+                      variant={
+                        selectedSlot?.start.getTime() === slot.start.getTime()
+                          ? 'default'
+                          : 'outline'
+                      }
+                      size="sm"
+                      onClick={() => setSelectedSlot(slot)}
+                    >
+                      {formatInTimeZone(slot.start, timeZone, timeFormat)}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {scope !== 'this' && selectedSlot && (
+              <p className="text-sm text-muted-foreground">
+                The other appointments move by the same number of days to the same time.
+              </p>
+            )}
+
+            {seriesConflict && (
+              <div className="rounded-md border border-destructive p-3 text-sm">
+                <p className="font-medium text-destructive">{seriesConflict.message}</p>
+                <ul className="mt-1 space-y-0.5 text-muted-foreground">
+                  {seriesConflict.conflicts.map((occurrence) => (
+                    <li key={occurrence.index}>
+                      {formatInTimeZone(occurrence.startTime.toDate(), timeZone, dateTimeFormat)}:{' '}
+                      {occurrence.conflict}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={rescheduling}>
+            Keep Current Time
+          </Button>
+          <Button
+            onClick={handleReschedule}
+            disabled={!selectedSlot || !!policyError || rescheduling}
+          >
+            {rescheduling ? 'Saving...' : needsApproval ? 'Request New Time' : 'Reschedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * SeriesScopeOptions Component
+ *
+ * Radio options for whether a change to an appointment in a recurring
+ * series applies to this appointment only, this and the following ones, or
+ * the whole series. Renders nothing for appointments outside a series.
+ */
+
+'use client';
+
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { describeRecurrence } from '@/lib/scheduling/recurrence';
+import type { AppointmentDocument, SeriesScope } from '@/types/firestore';
+
+const scopeLabels: Record<SeriesScope, string> = {
+  this: 'This appointment',
+  following: 'This and following appointments',
+  all: 'All upcoming appointments in the series',
+};
+
+/**
+ * SeriesScopeOptions props
+ */
+interface SeriesScopeOptionsProps {
+  /**
+   * Appointment being changed
+   */
+  appointment: AppointmentDocument;
+
+  /**
+   * Selected scope
+   */
+  value: SeriesScope;
+
+  /**
+   * Called when another scope is selected
+   */
+  onChange: (scope: SeriesScope) => void;
+
+  /**
+   * Time zone to show the series end date in
+   */
+  timeZone: string;
+}
+
+export function SeriesScopeOptions({ appointment, value, onChange, timeZone }: SeriesScopeOptionsProps) {
+  if (!appointment.seriesId) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>
+        Recurring appointment
+        {appointment.recurrence && (
+          <span className="font-normal text-muted-foreground">
+            {' '}({describeRecurrence(appointment.recurrence, timeZone)})
+          </span>
+        )}
+      </Label>
+      <RadioGroup value={value} onValueChange={(scope) => onChange(scope as SeriesScope)}>
+        {(Object.keys(scopeLabels) as SeriesScope[]).map((scope) => (
+          <div key={scope} className="flex items-center gap-3">
+            <RadioGroupItem value={scope} id={`series-scope-${appointment.id}-${scope}`} />
+            <Label htmlFor={`series-scope-${appointment.id}-${scope}`} className="font-normal">
+              {scopeLabels[scope]}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+/**
+ * ClientScoresDialog Component
+ *
+ * Button and dialog for a practitioner to see a client's questionnaire
+ * scores over time. The scores are loaded when the dialog opens.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { LineChart } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { QuestionnaireScoreTrends } from '@/components/intake/QuestionnaireScoreTrends';
+import { useClientScores } from '@/hooks/firestore/useClientScores';
+
+/**
+ * ClientScoresDialog props
+ */
+interface ClientScoresDialogProps {
+  /**
+   * Practitioner's Firebase Auth UID
+   */
+  practitionerId: string;
+
+  /**
+   * Client's Firebase Auth UID
+   */
+  clientId: string;
+}
+
+export function ClientScoresDialog({ practitionerId, clientId }: ClientScoresDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { forms, loading, error } = useClientScores(
+    open ? practitionerId : null,
+    open ? clientId : null
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <LineChart className="h-4 w-4 mr-2" />
+          Questionnaire Scores
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[640px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Questionnaire Scores</DialogTitle>
+          <DialogDescription>
+            The client's scores over time. Screening scores support, and do not replace,
+            clinical judgement.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <Skeleton className="h-48 w-full" />
+        ) : error ? (
+          <p className="text-sm text-muted-foreground">{error}</p>
+        ) : (
+          <QuestionnaireScoreTrends forms={forms} />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,179 @@
+/**
+ * IntakeConditionEditor Component
+ *
+ * Lets a practitioner make a question or section conditional on the answer
+ * to an earlier question: which question, how its answer is compared, and
+ * the answer to compare with. The operators and the answer input follow
+ * the earlier question's type.
+ */
+
+'use client';
+
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getIntakeConditionOperators } from '@/lib/intake/formFields';
+import type {
+  IntakeConditionOperator,
+  IntakeFieldCondition,
+  IntakeFormField,
+} from '@/types/firestore';
+
+const ALWAYS = 'always';
+
+const OPERATOR_LABELS: Record<IntakeConditionOperator, string> = {
+  equals: 'is',
+  notEquals: 'is not',
+  includes: 'includes',
+  answered: 'is answered',
+};
+
+interface IntakeConditionEditorProps {
+  /**
+   * Current condition (null to always show)
+   */
+  condition: IntakeFieldCondition | null | undefined;
+
+  /**
+   * Called with the new condition, or null to always show
+   */
+  onChange: (condition: IntakeFieldCondition | null) => void;
+
+  /**
+   * Questions the condition may depend on
+   */
+  sources: IntakeFormField[];
+}
+
+export function IntakeConditionEditor({
+  condition,
+  onChange,
+  sources,
+}: IntakeConditionEditorProps) {
+  const source = condition
+    ? sources.find((candidate) => candidate.id === condition.fieldId)
+    : undefined;
+  const operators = source ? getIntakeConditionOperators(source) : [];
+
+  const selectSource = (fieldId: string) => {
+    const next = sources.find((candidate) => candidate.id === fieldId);
+    onChange(next ? { fieldId, operator: getIntakeConditionOperators(next)[0] } : null);
+  };
+
+  const update = (changes: Partial<IntakeFieldCondition>) => {
+    if (condition) {
+      onChange({ ...condition, ...changes });
+    }
+  };
+
+  const renderValueInput = () => {
+    if (!condition || !source || condition.operator === 'answered') {
+      return null;
+    }
+
+    if (source.options?.length) {
+      return (
+        <Select
+          value={typeof condition.value === 'string' ? condition.value : ''}
+          onValueChange={(value) => update({ value })}
+        >
+          <SelectTrigger className="w-full" aria-label="Answer">
+            <SelectValue placeholder="Choose an answer" />
+          </SelectTrigger>
+          <SelectContent>
+            {source.options.map((option) => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (source.type === 'checkbox') {
+      return (
+        <Select
+          value={typeof condition.value === 'boolean' ? String(condition.value) : ''}
+          onValueChange={(value) => update({ value: value === 'true' })}
+        >
+          <SelectTrigger className="w-full" aria-label="Answer">
+            <SelectValue placeholder="Choose an answer" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">Ticked</SelectItem>
+            <SelectItem value="false">Not ticked</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    const isNumeric = source.type === 'number' || source.type === 'scale';
+    return (
+      <Input
+        type={isNumeric ? 'number' : source.type === 'date' ? 'date' : 'text'}
+        value={condition.value == null ? '' : String(condition.value)}
+        onChange={(e) =>
+          update({
+            value: isNumeric && e.target.value !== '' ? parseFloat(e.target.value) : e.target.value,
+          })
+        }
+        aria-label="Answer"
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label>Show</Label>
+      <Select value={condition?.fieldId ?? ALWAYS} onValueChange={selectSource}>
+        <SelectTrigger className="w-full">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALWAYS}>Always</SelectItem>
+          {sources.map((field) => (
+            <SelectItem key={field.id} value={field.id}>
+              When “{field.label}”…
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {condition && source && (
+        <div className="grid grid-cols-2 gap-2">
+          <Select
+            value={condition.operator}
+            onValueChange={(operator) =>
+              update({ operator: operator as IntakeConditionOperator })
+            }
+          >
+            <SelectTrigger className="w-full" aria-label="Comparison">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {operators.map((operator) => (
+                <SelectItem key={operator} value={operator}>
+                  {OPERATOR_LABELS[operator]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {renderValueInput()}
+        </div>
+      )}
+
+      {!condition && sources.length === 0 && (
+        <p className="text-sm text-muted-foreground">
+          Add questions before this one to make it conditional
+        </p>
+      )}
+    </div>
+  );
+}
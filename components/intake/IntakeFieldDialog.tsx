@@ -0,0 +1,361 @@
+/**
+ * IntakeFieldDialog Component
+ *
+ * Dialog for adding a question to an intake form template or editing one:
+ * its type, wording and help text, its section, whether it is required,
+ * the options, placeholder and validation its type supports, and an
+ * optional condition on an earlier answer for showing it.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { IntakeConditionEditor } from '@/components/intake/IntakeConditionEditor';
+import { getOrderedIntakeFields } from '@/lib/intake/conditions';
+import {
+  INTAKE_FIELD_TYPES,
+  getIntakeConditionError,
+  getIntakeFieldError,
+  hasIntakeFieldLimits,
+  hasIntakeFieldOptions,
+  hasIntakeFieldPattern,
+  hasIntakeFieldPlaceholder,
+  normalizeIntakeField,
+} from '@/lib/intake/formFields';
+import type {
+  IntakeFormField,
+  IntakeFormFieldType,
+  IntakeFormSection,
+} from '@/types/firestore';
+import { Plus, X } from 'lucide-react';
+
+const emptyField = (sectionId?: string): IntakeFormField => ({
+  id: crypto.randomUUID(),
+  type: 'text',
+  label: '',
+  required: false,
+  ...(sectionId ? { sectionId } : {}),
+});
+
+const parseLimit = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+interface IntakeFieldDialogProps {
+  /**
+   * Whether the dialog is open
+   */
+  open: boolean;
+
+  /**
+   * Called when the dialog opens or closes
+   */
+  onOpenChange: (open: boolean) => void;
+
+  /**
+   * Question being edited, or null to add one
+   */
+  field: IntakeFormField | null;
+
+  /**
+   * Sections of the form (empty if it has none)
+   */
+  sections: IntakeFormSection[];
+
+  /**
+   * Questions of the form, in order
+   */
+  fields: IntakeFormField[];
+
+  /**
+   * Called with the added or edited question
+   */
+  onSave: (field: IntakeFormField) => void;
+}
+
+export function IntakeFieldDialog({
+  open,
+  onOpenChange,
+  field,
+  sections,
+  fields,
+  onSave,
+}: IntakeFieldDialogProps) {
+  const [draft, setDraft] = useState<IntakeFormField>(() => emptyField());
+  const [showError, setShowError] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(field ?? emptyField(sections[sections.length - 1]?.id));
+      setShowError(false);
+    }
+  }, [open, field, sections]);
+
+  // Questions asked before this one, where it would sit in the form
+  const placed = fields.some((existing) => existing.id === draft.id)
+    ? fields.map((existing) => (existing.id === draft.id ? draft : existing))
+    : [...fields, draft];
+  const ordered = getOrderedIntakeFields({ sections, fields: placed });
+  const position = ordered.findIndex((candidate) => candidate.id === draft.id);
+  const sources = position < 0 ? [] : ordered.slice(0, position);
+
+  const normalized = normalizeIntakeField(draft);
+  const error =
+    getIntakeFieldError(normalized) ??
+    (sections.length > 0 && !sections.some((section) => section.id === draft.sectionId)
+      ? 'Choose a section for the question'
+      : null) ??
+    (normalized.showIf
+      ? getIntakeConditionError(
+          normalized.showIf,
+          sources.find((source) => source.id === normalized.showIf?.fieldId)
+        )
+      : null);
+  const options = draft.options ?? [];
+  const isNumber = draft.type === 'number' || draft.type === 'scale';
+
+  const update = (changes: Partial<IntakeFormField>) => {
+    setDraft((current) => ({ ...current, ...changes }));
+  };
+
+  const updateValidation = (changes: NonNullable<IntakeFormField['validation']>) => {
+    setDraft((current) => ({ ...current, validation: { ...current.validation, ...changes } }));
+  };
+
+  const setOption = (index: number, option: string) => {
+    update({ options: options.map((existing, i) => (i === index ? option : existing)) });
+  };
+
+  const handleSave = () => {
+    if (error) {
+      setShowError(true);
+      return;
+    }
+
+    onSave(normalized);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{field ? 'Edit Question' : 'Add Question'}</DialogTitle>
+          <DialogDescription>Clients answer this when they fill in the form</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <Select
+              value={draft.type}
+              onValueChange={(type) => update({ type: type as IntakeFormFieldType })}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {INTAKE_FIELD_TYPES.map(({ type, label }) => (
+                  <SelectItem key={type} value={type}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="intake-field-label">Question</Label>
+            <Input
+              id="intake-field-label"
+              value={draft.label}
+              onChange={(e) => update({ label: e.target.value })}
+              placeholder="e.g., What would you like to work on?"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="intake-field-description">
+              {draft.type === 'signature' ? 'Statement clients sign' : 'Help text (optional)'}
+            </Label>
+            <Textarea
+              id="intake-field-description"
+              value={draft.description ?? ''}
+              onChange={(e) => update({ description: e.target.value })}
+              placeholder={
+                draft.type === 'signature'
+                  ? 'e.g., I consent to treatment and have read the privacy policy'
+                  : undefined
+              }
+              rows={draft.type === 'signature' ? 4 : 2}
+            />
+          </div>
+
+          {sections.length > 0 && (
+            <div className="space-y-2">
+              <Label>Section</Label>
+              <Select
+                value={draft.sectionId ?? ''}
+                onValueChange={(sectionId) => update({ sectionId })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Choose a section" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sections.map((section) => (
+                    <SelectItem key={section.id} value={section.id}>
+                      {section.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {hasIntakeFieldPlaceholder(draft.type) && (
+            <div className="space-y-2">
+              <Label htmlFor="intake-field-placeholder">Placeholder (optional)</Label>
+              <Input
+                id="intake-field-placeholder"
+                value={draft.placeholder ?? ''}
+                onChange={(e) => update({ placeholder: e.target.value })}
+              />
+            </div>
+          )}
+
+          {hasIntakeFieldOptions(draft.type) && (
+            <div className="space-y-2">
+              <Label>Options</Label>
+              {draft.type === 'checkbox' && (
+                <p className="text-sm text-muted-foreground">
+                  Clients can tick several. Leave empty for a single yes/no box.
+                </p>
+              )}
+              {options.map((option, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={option}
+                    onChange={(e) => setOption(index, e.target.value)}
+                    aria-label={`Option ${index + 1}`}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update({ options: options.filter((_, i) => i !== index) })}
+                    aria-label={`Remove option ${index + 1}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => update({ options: [...options, ''] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Option
+              </Button>
+            </div>
+          )}
+
+          {hasIntakeFieldLimits(draft.type) && (
+            <div className="grid grid-cols-2 gap-4">
+              {draft.type === 'scale' && (
+                <p className="col-span-2 text-sm text-muted-foreground">
+                  Scales run from 1 to 10 unless you set other whole numbers
+                </p>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="intake-field-min">
+                  {isNumber ? 'Minimum' : 'Minimum length'} (optional)
+                </Label>
+                <Input
+                  id="intake-field-min"
+                  type="number"
+                  min={isNumber ? undefined : 0}
+                  value={draft.validation?.min ?? ''}
+                  onChange={(e) => updateValidation({ min: parseLimit(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="intake-field-max">
+                  {isNumber ? 'Maximum' : 'Maximum length'} (optional)
+                </Label>
+                <Input
+                  id="intake-field-max"
+                  type="number"
+                  min={isNumber ? undefined : 0}
+                  value={draft.validation?.max ?? ''}
+                  onChange={(e) => updateValidation({ max: parseLimit(e.target.value) })}
+                />
+              </div>
+            </div>
+          )}
+
+          {hasIntakeFieldPattern(draft.type) && (
+            <div className="space-y-2">
+              <Label htmlFor="intake-field-pattern">Pattern (optional)</Label>
+              <Input
+                id="intake-field-pattern"
+                value={draft.validation?.pattern ?? ''}
+                onChange={(e) => updateValidation({ pattern: e.target.value })}
+                placeholder="e.g., ^\+?[0-9 ]+$"
+                className="font-mono"
+              />
+              <p className="text-sm text-muted-foreground">
+                A regular expression answers must match
+              </p>
+            </div>
+          )}
+
+          <IntakeConditionEditor
+            condition={draft.showIf}
+            onChange={(showIf) => update({ showIf })}
+            sources={sources}
+          />
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="intake-field-required">Required</Label>
+            <Switch
+              id="intake-field-required"
+              checked={draft.required}
+              onCheckedChange={(required) => update({ required })}
+            />
+          </div>
+
+          {showError && error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave}>
+            {field ? 'Save' : 'Add'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * IntakeFormFields Component
+ *
+ * Renders the questions of an intake form as inputs: text, paragraph,
+ * number, date, email, phone and link inputs, dropdowns, multiple choice,
+ * checkboxes, a row of points for scales and a typed-name box for consent
+ * signatures. Controlled; the parent holds the answers, keyed by field ID,
+ * and decides which questions are shown.
+ */
+
+'use client';
+
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { DEFAULT_INTAKE_SCALE } from '@/lib/intake/formFields';
+import type { IntakeFormField, IntakeFormResponseValue } from '@/types/firestore';
+
+interface IntakeFormFieldsProps {
+  /**
+   * Questions to render, in order
+   */
+  fields: IntakeFormField[];
+
+  /**
+   * Answers so far, keyed by field ID
+   */
+  values: Record<string, IntakeFormResponseValue>;
+
+  /**
+   * Called when an answer changes
+   */
+  onChange: (fieldId: string, value: IntakeFormResponseValue) => void;
+
+  /**
+   * Problems with answers, keyed by field ID
+   */
+  errors?: Record<string, string>;
+
+  /**
+   * Disable all inputs
+   */
+  disabled?: boolean;
+}
+
+export function IntakeFormFields({
+  fields,
+  values,
+  onChange,
+  errors = {},
+  disabled = false,
+}: IntakeFormFieldsProps) {
+  const renderInput = (field: IntakeFormField) => {
+    const inputId = `intake-field-${field.id}`;
+    const value = values[field.id];
+
+    switch (field.type) {
+      case 'textarea':
+        return (
+          <Textarea
+            id={inputId}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.id, e.target.value)}
+            placeholder={field.placeholder}
+            maxLength={field.validation?.max}
+            rows={4}
+            disabled={disabled}
+          />
+        );
+
+      case 'number':
+        return (
+          <Input
+            id={inputId}
+            type="number"
+            value={typeof value === 'number' ? value : ''}
+            onChange={(e) =>
+              onChange(field.id, e.target.value === '' ? '' : parseFloat(e.target.value))
+            }
+            placeholder={field.placeholder}
+            min={field.validation?.min}
+            max={field.validation?.max}
+            disabled={disabled}
+          />
+        );
+
+      case 'date':
+        return (
+          <Input
+            id={inputId}
+            type="date"
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.id, e.target.value)}
+            className="w-48"
+            disabled={disabled}
+          />
+        );
+
+      case 'scale': {
+        const { min, max } = { ...DEFAULT_INTAKE_SCALE, ...field.validation };
+        const points = Array.from({ length: max - min + 1 }, (_, index) => min + index);
+        return (
+          <RadioGroup
+            value={typeof value === 'number' ? String(value) : ''}
+            onValueChange={(point) => onChange(field.id, Number(point))}
+            className="flex flex-wrap gap-3"
+            disabled={disabled}
+          >
+            {points.map((point) => (
+              <div key={point} className="flex flex-col items-center gap-1">
+                <RadioGroupItem value={String(point)} id={`${inputId}-${point}`} />
+                <Label htmlFor={`${inputId}-${point}`} className="font-normal text-xs">
+                  {point}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+      }
+
+      case 'email':
+      case 'phone':
+      case 'file':
+        return (
+          <Input
+            id={inputId}
+            type={field.type === 'email' ? 'email' : field.type === 'phone' ? 'tel' : 'url'}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.id, e.target.value)}
+            placeholder={field.placeholder ?? (field.type === 'file' ? 'https://' : undefined)}
+            disabled={disabled}
+          />
+        );
+
+      case 'signature':
+        return (
+          <div className="space-y-2">
+            <p className="rounded-md border bg-muted/50 p-3 text-sm whitespace-pre-wrap">
+              {field.description}
+            </p>
+            <Input
+              id={inputId}
+              value={typeof value === 'string' ? value : ''}
+              onChange={(e) => onChange(field.id, e.target.value)}
+              placeholder="Type your full name to sign"
+              autoComplete="name"
+              disabled={disabled}
+            />
+          </div>
+        );
+
+      case 'select':
+        return (
+          <Select
+            value={typeof value === 'string' ? value : ''}
+            onValueChange={(option) => onChange(field.id, option)}
+            disabled={disabled}
+          >
+            <SelectTrigger id={inputId} className="w-full">
+              <SelectValue placeholder={field.placeholder ?? 'Choose an option'} />
+            </SelectTrigger>
+            <SelectContent>
+              {(field.options ?? []).map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+
+      case 'radio':
+        return (
+          <RadioGroup
+            value={typeof value === 'string' ? value : ''}
+            onValueChange={(option) => onChange(field.id, option)}
+            disabled={disabled}
+          >
+            {(field.options ?? []).map((option, index) => (
+              <div key={option} className="flex items-center gap-2">
+                <RadioGroupItem value={option} id={`${inputId}-${index}`} />
+                <Label htmlFor={`${inputId}-${index}`} className="font-normal">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        );
+
+      case 'checkbox': {
+        if (!field.options?.length) {
+          return (
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id={inputId}
+                checked={value === true}
+                onCheckedChange={(checked) => onChange(field.id, checked === true)}
+                disabled={disabled}
+              />
+              <Label htmlFor={inputId} className="font-normal">
+                Yes
+              </Label>
+            </div>
+          );
+        }
+
+        const ticked = Array.isArray(value) ? value : [];
+        return (
+          <div className="space-y-2">
+            {field.options.map((option, index) => (
+              <div key={option} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${inputId}-${index}`}
+                  checked={ticked.includes(option)}
+                  onCheckedChange={(checked) =>
+                    onChange(
+                      field.id,
+                      checked === true
+                        ? [...ticked, option]
+                        : ticked.filter((candidate) => candidate !== option)
+                    )
+                  }
+                  disabled={disabled}
+                />
+                <Label htmlFor={`${inputId}-${index}`} className="font-normal">
+                  {option}
+                </Label>
+              </div>
+            ))}
+          </div>
+        );
+      }
+
+      default:
+        return (
+          <Input
+            id={inputId}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(e) => onChange(field.id, e.target.value)}
+            placeholder={field.placeholder}
+            maxLength={field.validation?.max}
+            disabled={disabled}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {fields.map((field) => (
+        <div key={field.id} className="space-y-2">
+          <Label htmlFor={`intake-field-${field.id}`}>
+            {field.label}
+            {field.required && <span className="text-destructive"> *</span>}
+          </Label>
+          {field.description && field.type !== 'signature' && (
+            <p className="text-sm text-muted-foreground">{field.description}</p>
+          )}
+          {renderInput(field)}
+          {errors[field.id] && <p className="text-sm text-destructive">{errors[field.id]}</p>}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+/**
+ * IntakeFormSteps Component
+ *
+ * Walks a client through an intake form one section at a time. Only the
+ * sections and questions whose conditions the answers so far meet are
+ * shown; each page is checked before moving on, and the whole form before
+ * it is submitted. Forms without sections are a single page.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { IntakeFormFields } from '@/components/intake/IntakeFormFields';
+import { getVisibleIntakePages, type IntakeFormContent } from '@/lib/intake/conditions';
+import { getIntakeResponseErrors } from '@/lib/intake/responses';
+import type { IntakeFormResponseValue } from '@/types/firestore';
+
+interface IntakeFormStepsProps {
+  /**
+   * Sections and questions of the form
+   */
+  form: IntakeFormContent;
+
+  /**
+   * Answers so far, keyed by field ID
+   */
+  values: Record<string, IntakeFormResponseValue>;
+
+  /**
+   * Called when an answer changes
+   */
+  onChange: (fieldId: string, value: IntakeFormResponseValue) => void;
+
+  /**
+   * Called once every shown question is answered correctly
+   */
+  onSubmit: () => void;
+
+  /**
+   * Whether the answers are being submitted
+   */
+  submitting?: boolean;
+
+  /**
+   * Label of the submit button
+   */
+  submitLabel?: string;
+}
+
+export function IntakeFormSteps({
+  form,
+  values,
+  onChange,
+  onSubmit,
+  submitting = false,
+  submitLabel = 'Submit Form',
+}: IntakeFormStepsProps) {
+  const [pageIndex, setPageIndex] = useState(0);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const pages = getVisibleIntakePages(form, values);
+  // Answers can hide pages after this one, so keep the index in range
+  const currentIndex = Math.min(pageIndex, Math.max(pages.length - 1, 0));
+  const page = pages[currentIndex];
+  const isLastPage = currentIndex >= pages.length - 1;
+
+  const handleChange = (fieldId: string, value: IntakeFormResponseValue) => {
+    onChange(fieldId, value);
+    setErrors((current) => {
+      const remaining = { ...current };
+      delete remaining[fieldId];
+      return remaining;
+    });
+  };
+
+  const goTo = (index: number) => {
+    setPageIndex(index);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!page) return;
+
+    const responseErrors = getIntakeResponseErrors(form, values);
+
+    if (!isLastPage) {
+      const pageErrors = Object.fromEntries(
+        Object.entries(responseErrors).filter(([fieldId]) =>
+          page.fields.some((field) => field.id === fieldId)
+        )
+      );
+      setErrors(pageErrors);
+      if (Object.keys(pageErrors).length === 0) {
+        goTo(currentIndex + 1);
+      }
+      return;
+    }
+
+    setErrors(responseErrors);
+    const firstErrorPage = pages.findIndex((candidate) =>
+      candidate.fields.some((field) => responseErrors[field.id])
+    );
+    if (firstErrorPage >= 0) {
+      if (firstErrorPage !== currentIndex) {
+        goTo(firstErrorPage);
+      }
+      return;
+    }
+
+    onSubmit();
+  };
+
+  if (!page) {
+    return <p className="text-sm text-muted-foreground">This form has no questions</p>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="space-y-6">
+      {(page.section || pages.length > 1) && (
+        <div className="space-y-1">
+          {pages.length > 1 && (
+            <p className="text-sm text-muted-foreground">
+              Step {currentIndex + 1} of {pages.length}
+            </p>
+          )}
+          {page.section && (
+            <h3 className="text-lg font-semibold">{page.section.title}</h3>
+          )}
+          {page.section?.description && (
+            <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+              {page.section.description}
+            </p>
+          )}
+        </div>
+      )}
+
+      <IntakeFormFields
+        fields={page.fields}
+        values={values}
+        onChange={handleChange}
+        errors={errors}
+        disabled={submitting}
+      />
+
+      {Object.keys(errors).length > 0 && (
+        <p className="text-sm text-destructive">Please correct the highlighted answers</p>
+      )}
+
+      <div className="flex justify-between gap-4">
+        {currentIndex > 0 ? (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => goTo(currentIndex - 1)}
+            disabled={submitting}
+          >
+            Back
+          </Button>
+        ) : (
+          <span />
+        )}
+        <Button type="submit" disabled={submitting}>
+          {isLastPage ? (submitting ? 'Submitting...' : submitLabel) : 'Next'}
+        </Button>
+      </div>
+    </form>
+  );
+}
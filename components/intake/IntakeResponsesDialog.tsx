@@ -0,0 +1,70 @@
+/**
+ * IntakeResponsesDialog Component
+ *
+ * Button and dialog for a practitioner to read the intake form a client
+ * submitted for an appointment. The form is loaded when the dialog opens.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { ClipboardList } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Skeleton } from '@/components/ui/skeleton';
+import { IntakeResponsesList } from '@/components/intake/IntakeResponsesList';
+import { useIntakeForm } from '@/hooks/firestore/useIntakeForm';
+
+/**
+ * IntakeResponsesDialog props
+ */
+interface IntakeResponsesDialogProps {
+  /**
+   * ID of the submitted intake form
+   */
+  formId: string;
+}
+
+export function IntakeResponsesDialog({ formId }: IntakeResponsesDialogProps) {
+  const [open, setOpen] = useState(false);
+  const { form, loading, error } = useIntakeForm(open ? formId : null);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" className="w-full">
+          <ClipboardList className="h-4 w-4 mr-2" />
+          View Intake Form
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[600px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{form?.title ?? 'Intake Form'}</DialogTitle>
+          <DialogDescription>
+            {form?.submittedAt
+              ? `Submitted ${format(form.submittedAt.toDate(), 'MMMM d, yyyy')} · Form version ${
+                  form.version ?? 1
+                }`
+              : 'Answers submitted by the client'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : form ? (
+          <IntakeResponsesList form={form} />
+        ) : (
+          <p className="text-sm text-muted-foreground">{error || 'Intake form not found'}</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
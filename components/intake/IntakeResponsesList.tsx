@@ -0,0 +1,56 @@
+/**
+ * IntakeResponsesList Component
+ *
+ * Shows the answers of a submitted intake form, question by question and
+ * section by section, as laid out in the version of the form the client
+ * filled in. Questions the client's answers hid from them are left out.
+ */
+
+'use client';
+
+import { getVisibleIntakePages } from '@/lib/intake/conditions';
+import { formatIntakeResponse } from '@/lib/intake/responses';
+import type { IntakeFormDocument } from '@/types/firestore';
+
+interface IntakeResponsesListProps {
+  /**
+   * Submitted form
+   */
+  form: IntakeFormDocument;
+}
+
+export function IntakeResponsesList({ form }: IntakeResponsesListProps) {
+  const responses = form.responses ?? {};
+  const pages = getVisibleIntakePages(form, responses);
+
+  return (
+    <div className="space-y-6">
+      {pages.map((page) => (
+        <section key={page.section?.id ?? 'form'} className="space-y-4">
+          {page.section && <h3 className="font-semibold">{page.section.title}</h3>}
+          <dl className="space-y-4">
+            {page.fields.map((field) => (
+              <div key={field.id}>
+                <dt className="text-sm font-medium">{field.label}</dt>
+                <dd className="text-sm text-muted-foreground whitespace-pre-wrap">
+                  {field.type === 'file' && typeof responses[field.id] === 'string' ? (
+                    <a
+                      href={responses[field.id] as string}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="underline break-all"
+                    >
+                      {responses[field.id] as string}
+                    </a>
+                  ) : (
+                    formatIntakeResponse(field, responses[field.id])
+                  )}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        </section>
+      ))}
+    </div>
+  );
+}
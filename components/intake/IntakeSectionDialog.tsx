@@ -0,0 +1,148 @@
+/**
+ * IntakeSectionDialog Component
+ *
+ * Dialog for adding a section to an intake form template or editing one:
+ * its title and description, shown at the top of its page, and an optional
+ * condition on an answer in an earlier section for showing it.
+ */
+
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { IntakeConditionEditor } from '@/components/intake/IntakeConditionEditor';
+import { getIntakeConditionError, normalizeIntakeSection } from '@/lib/intake/formFields';
+import type { IntakeFormField, IntakeFormSection } from '@/types/firestore';
+
+const emptySection = (): IntakeFormSection => ({
+  id: crypto.randomUUID(),
+  title: '',
+});
+
+interface IntakeSectionDialogProps {
+  /**
+   * Whether the dialog is open
+   */
+  open: boolean;
+
+  /**
+   * Called when the dialog opens or closes
+   */
+  onOpenChange: (open: boolean) => void;
+
+  /**
+   * Section being edited, or null to add one
+   */
+  section: IntakeFormSection | null;
+
+  /**
+   * Questions in the sections before this one, in order
+   */
+  sources: IntakeFormField[];
+
+  /**
+   * Called with the added or edited section
+   */
+  onSave: (section: IntakeFormSection) => void;
+}
+
+export function IntakeSectionDialog({
+  open,
+  onOpenChange,
+  section,
+  sources,
+  onSave,
+}: IntakeSectionDialogProps) {
+  const [draft, setDraft] = useState<IntakeFormSection>(emptySection);
+  const [showError, setShowError] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setDraft(section ?? emptySection());
+      setShowError(false);
+    }
+  }, [open, section]);
+
+  const normalized = normalizeIntakeSection(draft);
+  const error = !normalized.title
+    ? 'Enter a title for the section'
+    : normalized.showIf
+      ? getIntakeConditionError(
+          normalized.showIf,
+          sources.find((source) => source.id === normalized.showIf?.fieldId)
+        )
+      : null;
+
+  const handleSave = () => {
+    if (error) {
+      setShowError(true);
+      return;
+    }
+
+    onSave(normalized);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>{section ? 'Edit Section' : 'Add Section'}</DialogTitle>
+          <DialogDescription>Clients see each section as a page of the form</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="intake-section-title">Title</Label>
+            <Input
+              id="intake-section-title"
+              value={draft.title}
+              onChange={(e) => setDraft((current) => ({ ...current, title: e.target.value }))}
+              placeholder="e.g., Health History"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="intake-section-description">Description (optional)</Label>
+            <Textarea
+              id="intake-section-description"
+              value={draft.description ?? ''}
+              onChange={(e) =>
+                setDraft((current) => ({ ...current, description: e.target.value }))
+              }
+              rows={2}
+            />
+          </div>
+
+          <IntakeConditionEditor
+            condition={draft.showIf}
+            onChange={(showIf) => setDraft((current) => ({ ...current, showIf }))}
+            sources={sources}
+          />
+
+          {showError && error && <p className="text-sm text-destructive">{error}</p>}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave}>
+            {section ? 'Save' : 'Add'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+/**
+ * QuestionnaireScoreTrends Component
+ *
+ * Charts a client's scores on each questionnaire they have filled in, with
+ * their latest score and its severity, so a practitioner can follow the
+ * client's progress over time.
+ */
+
+'use client';
+
+import { format } from 'date-fns';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Badge } from '@/components/ui/badge';
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { getIntakeScoreTrends } from '@/lib/intake/scoring';
+import type { IntakeFormDocument } from '@/types/firestore';
+
+const chartConfig = {
+  total: {
+    label: 'Score',
+    color: 'var(--chart-1)',
+  },
+} satisfies ChartConfig;
+
+interface QuestionnaireScoreTrendsProps {
+  /**
+   * The client's submitted questionnaires
+   */
+  forms: IntakeFormDocument[];
+}
+
+export function QuestionnaireScoreTrends({ forms }: QuestionnaireScoreTrendsProps) {
+  const trends = getIntakeScoreTrends(forms);
+
+  if (trends.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        This client has not filled in any questionnaires yet
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      {trends.map((trend) => {
+        const latest = trend.scores[trend.scores.length - 1];
+        const data = trend.scores.map((score) => ({
+          date: format(score.date, 'MMM d'),
+          total: score.total,
+          severity: score.severity,
+        }));
+
+        return (
+          <section key={trend.key} className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h3 className="font-semibold">{trend.title}</h3>
+              <div className="flex items-center gap-2 text-sm">
+                <span>
+                  Latest: {latest.total} of {trend.max}
+                </span>
+                {latest.severity && <Badge variant="secondary">{latest.severity}</Badge>}
+              </div>
+            </div>
+
+            {trend.scores.length > 1 ? (
+              <ChartContainer config={chartConfig} className="h-48 w-full aspect-auto">
+                <LineChart data={data} margin={{ left: 0, right: 12, top: 8 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} tickMargin={8} />
+                  <YAxis
+                    domain={[0, trend.max]}
+                    allowDecimals={false}
+                    tickLine={false}
+                    axisLine={false}
+                    width={32}
+                  />
+                  <ChartTooltip
+                    content={
+                      <ChartTooltipContent
+                        formatter={(value, _name, item) =>
+                          `${value} of ${trend.max}${
+                            item.payload.severity ? ` (${item.payload.severity})` : ''
+                          }`
+                        }
+                      />
+                    }
+                  />
+                  <Line
+                    dataKey="total"
+                    type="monotone"
+                    stroke="var(--color-total)"
+                    strokeWidth={2}
+                    dot
+                  />
+                </LineChart>
+              </ChartContainer>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Submitted {format(latest.date, 'MMMM d, yyyy')}. The chart appears once there
+                are two scores to compare.
+              </p>
+            )}
+
+            {trend.bands.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {trend.bands.map((band) => `${band.min}–${band.max} ${band.label}`).join(' · ')}
+              </p>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
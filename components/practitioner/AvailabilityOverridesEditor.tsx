@@ -0,0 +1,150 @@
+/**
+ * AvailabilityOverridesEditor Component
+ *
+ * Lets a practitioner set different hours for specific dates ("this Thursday
+ * 13:00–20:00 instead"). An override replaces the weekly template for its
+ * date; removing every interval makes the date a day off. Controlled.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { TimeIntervalsInput } from '@/components/practitioner/TimeIntervalsInput';
+import { DAYS_OF_WEEK } from '@/lib/scheduling/availability';
+import { localDateToCalendarDate, calendarDateToLocalDate } from '@/lib/scheduling/timeOff';
+import {
+  formatCalendarDate,
+  getCalendarDayOfWeek,
+  parseCalendarDate,
+} from '@/lib/scheduling/timezone';
+import type { AvailabilityOverride, WorkingHours } from '@/types/firestore';
+import { Plus, X } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface AvailabilityOverridesEditorProps {
+  /**
+   * Current overrides
+   */
+  value: AvailabilityOverride[];
+
+  /**
+   * Called with the updated overrides
+   */
+  onChange: (value: AvailabilityOverride[]) => void;
+
+  /**
+   * Weekly template, used to prefill a new override
+   */
+  workingHours: WorkingHours;
+
+  /**
+   * Validation error keyed by override index
+   */
+  errors?: Record<number, string>;
+
+  /**
+   * Disable all inputs
+   */
+  disabled?: boolean;
+}
+
+export function AvailabilityOverridesEditor({
+  value,
+  onChange,
+  workingHours,
+  errors = {},
+  disabled = false,
+}: AvailabilityOverridesEditorProps) {
+  const [selectedDate, setSelectedDate] = useState<Date | undefined>(undefined);
+
+  const overriddenDates = value.map((override) =>
+    calendarDateToLocalDate(parseCalendarDate(override.date))
+  );
+
+  const addOverride = () => {
+    if (!selectedDate) return;
+
+    const day = localDateToCalendarDate(selectedDate);
+    const date = formatCalendarDate(day);
+    if (value.some((override) => override.date === date)) return;
+
+    // Start from that weekday's usual hours so the practitioner only edits the difference
+    const template = workingHours[DAYS_OF_WEEK[getCalendarDayOfWeek(day)]];
+    const intervals = template?.enabled ? template.intervals.map((interval) => ({ ...interval })) : [];
+
+    onChange([...value, { date, intervals }].sort((a, b) => a.date.localeCompare(b.date)));
+    setSelectedDate(undefined);
+  };
+
+  const updateOverride = (index: number, changes: Partial<AvailabilityOverride>) => {
+    onChange(value.map((override, i) => (i === index ? { ...override, ...changes } : override)));
+  };
+
+  const removeOverride = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start gap-6">
+        <Calendar
+          mode="single"
+          selected={selectedDate}
+          onSelect={setSelectedDate}
+          modifiers={{ overridden: overriddenDates }}
+          modifiersClassNames={{ overridden: 'font-bold underline' }}
+          disabled={(date) => disabled || date < new Date(new Date().setHours(0, 0, 0, 0))}
+          className="rounded-md border"
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={addOverride}
+          disabled={disabled || !selectedDate}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Set Hours for {selectedDate ? format(selectedDate, 'MMM d') : 'Date'}
+        </Button>
+      </div>
+
+      {value.length > 0 ? (
+        <ul className="space-y-3">
+          {value.map((override, index) => (
+            <li key={override.date} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm font-medium">
+                  {format(calendarDateToLocalDate(parseCalendarDate(override.date)), 'EEEE, MMMM d, yyyy')}
+                </p>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeOverride(index)}
+                  disabled={disabled}
+                  aria-label={`Remove override for ${override.date}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              {override.intervals.length === 0 && (
+                <p className="text-sm text-muted-foreground">Unavailable all day</p>
+              )}
+              <TimeIntervalsInput
+                value={override.intervals}
+                onChange={(intervals) => updateOverride(index, { intervals })}
+                label={override.date}
+                invalid={!!errors[index]}
+                disabled={disabled}
+              />
+              {errors[index] && <p className="text-sm text-destructive">{errors[index]}</p>}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No date-specific hours.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * BlockedDatesPicker Component
+ *
+ * Multi-select calendar for whole days off (availabilityRules.blockedDates).
+ * Days are interpreted in the practitioner's time zone. Controlled.
+ */
+
+'use client';
+
+import { useMemo } from 'react';
+import { Timestamp } from 'firebase/firestore';
+import { Calendar } from '@/components/ui/calendar';
+import { Badge } from '@/components/ui/badge';
+import {
+  calendarDateToLocalDate,
+  getBlockedCalendarDate,
+  getBlockedDateInstant,
+  localDateToCalendarDate,
+} from '@/lib/scheduling/timeOff';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface BlockedDatesPickerProps {
+  /**
+   * Currently blocked dates
+   */
+  value: Timestamp[];
+
+  /**
+   * Called with the updated blocked dates
+   */
+  onChange: (value: Timestamp[]) => void;
+
+  /**
+   * Practitioner's IANA time zone
+   */
+  timeZone: string;
+
+  /**
+   * Disable the picker
+   */
+  disabled?: boolean;
+}
+
+export function BlockedDatesPicker({
+  value,
+  onChange,
+  timeZone,
+  disabled = false,
+}: BlockedDatesPickerProps) {
+  // Show each stored instant as the practitioner-local day it blocks
+  const selectedDates = useMemo(
+    () =>
+      value
+        .map((blocked) => calendarDateToLocalDate(getBlockedCalendarDate(blocked.toDate(), timeZone)))
+        .sort((a, b) => a.getTime() - b.getTime()),
+    [value, timeZone]
+  );
+
+  const handleSelect = (dates: Date[] | undefined) => {
+    onChange(
+      (dates ?? []).map((date) =>
+        Timestamp.fromDate(getBlockedDateInstant(localDateToCalendarDate(date), timeZone))
+      )
+    );
+  };
+
+  const removeDate = (date: Date) => {
+    handleSelect(selectedDates.filter((selected) => selected.getTime() !== date.getTime()));
+  };
+
+  return (
+    <div className="space-y-4">
+      <Calendar
+        mode="multiple"
+        selected={selectedDates}
+        onSelect={handleSelect}
+        disabled={disabled}
+        className="rounded-md border"
+      />
+      {selectedDates.length > 0 ? (
+        <div className="flex flex-wrap gap-2">
+          {selectedDates.map((date) => (
+            <Badge key={date.getTime()} variant="secondary" className="flex items-center gap-2">
+              {format(date, 'EEE, MMM d, yyyy')}
+              <button
+                type="button"
+                onClick={() => removeDate(date)}
+                className="ml-1 hover:text-destructive"
+                disabled={disabled}
+                aria-label={`Unblock ${format(date, 'MMMM d, yyyy')}`}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No blocked days.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+/**
+ * NoteTemplatesEditor Component
+ *
+ * Lets a practitioner define their own session note templates alongside
+ * the built-in SOAP, DAP and BIRP formats: a name and the sections the
+ * notes are written in, each with an optional prompt, one of which may be
+ * the plan carried forward into the next session. Templates are added and
+ * edited in a dialog. Controlled; the parent persists the list.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { BUILT_IN_NOTE_TEMPLATES, getNoteTemplateError } from '@/lib/sessions/noteTemplates';
+import type { SessionNoteTemplate, SessionNoteTemplateSection } from '@/types/firestore';
+import { Pencil, Plus, Trash2, X } from 'lucide-react';
+
+/**
+ * Plan picker value for templates without a plan section
+ */
+const NO_PLAN = 'none';
+
+const newSection = (): SessionNoteTemplateSection => ({
+  id: crypto.randomUUID(),
+  title: '',
+  prompt: null,
+  isPlan: false,
+});
+
+interface NoteTemplatesEditorProps {
+  /**
+   * Current templates
+   */
+  value: SessionNoteTemplate[];
+
+  /**
+   * Called with the updated list
+   */
+  onChange: (value: SessionNoteTemplate[]) => void;
+
+  /**
+   * Disable all actions
+   */
+  disabled?: boolean;
+}
+
+export function NoteTemplatesEditor({
+  value,
+  onChange,
+  disabled = false,
+}: NoteTemplatesEditorProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState('');
+  const [sections, setSections] = useState<SessionNoteTemplateSection[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const openDialog = (template?: SessionNoteTemplate) => {
+    setEditingId(template?.id ?? null);
+    setName(template?.name ?? '');
+    setSections(template?.sections ?? [newSection()]);
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const updateSection = (id: string, changes: Partial<SessionNoteTemplateSection>) =>
+    setSections((current) =>
+      current.map((section) => (section.id === id ? { ...section, ...changes } : section))
+    );
+
+  const setPlanSection = (id: string) =>
+    setSections((current) => current.map((section) => ({ ...section, isPlan: section.id === id })));
+
+  const saveTemplate = () => {
+    const template: SessionNoteTemplate = {
+      id: editingId ?? crypto.randomUUID(),
+      name: name.trim(),
+      sections: sections.map((section) => ({
+        ...section,
+        title: section.title.trim(),
+        prompt: section.prompt?.trim() || null,
+      })),
+    };
+
+    const templateError = getNoteTemplateError(template);
+    if (templateError) {
+      setError(templateError);
+      return;
+    }
+
+    onChange(
+      editingId
+        ? value.map((existing) => (existing.id === editingId ? template : existing))
+        : [...value, template]
+    );
+    setDialogOpen(false);
+  };
+
+  const removeTemplate = (id: string) => {
+    onChange(value.filter((template) => template.id !== id));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-muted-foreground">Built in:</span>
+        {BUILT_IN_NOTE_TEMPLATES.map((template) => (
+          <Badge key={template.id} variant="secondary" title={template.description ?? undefined}>
+            {template.name}
+          </Badge>
+        ))}
+      </div>
+
+      {value.length > 0 ? (
+        <ul className="space-y-2">
+          {value.map((template) => (
+            <li
+              key={template.id}
+              className="flex items-start justify-between gap-4 rounded-md border p-3"
+            >
+              <div className="space-y-1">
+                <span className="font-medium">{template.name}</span>
+                <p className="text-sm text-muted-foreground">
+                  {template.sections.map((section) => section.title).join(', ')}
+                </p>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => openDialog(template)}
+                  disabled={disabled}
+                  aria-label={`Edit ${template.name}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeTemplate(template.id)}
+                  disabled={disabled}
+                  aria-label={`Remove ${template.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No templates of your own yet. You can always write notes as free text or in a
+          built-in format.
+        </p>
+      )}
+
+      <Button type="button" variant="outline" onClick={() => openDialog()} disabled={disabled}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Note Template
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Note Template' : 'Add Note Template'}</DialogTitle>
+            <DialogDescription>
+              Session notes written in this template get one section for each of these
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="note-template-name">Name</Label>
+              <Input
+                id="note-template-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Couples Session"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Sections</Label>
+              <RadioGroup
+                value={sections.find((section) => section.isPlan)?.id ?? NO_PLAN}
+                onValueChange={setPlanSection}
+                className="space-y-3"
+              >
+                {sections.map((section, index) => (
+                  <div key={section.id} className="space-y-2 rounded-md border p-3">
+                    <div className="flex gap-2">
+                      <Input
+                        value={section.title}
+                        onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                        placeholder="Title"
+                        aria-label={`Section ${index + 1} title`}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          setSections((current) =>
+                            current.filter((candidate) => candidate.id !== section.id)
+                          )
+                        }
+                        aria-label={`Remove section ${index + 1}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <Input
+                      value={section.prompt ?? ''}
+                      onChange={(e) => updateSection(section.id, { prompt: e.target.value })}
+                      placeholder="Prompt shown while the section is empty (optional)"
+                      aria-label={`Section ${index + 1} prompt`}
+                    />
+                    <div className="flex items-center gap-2">
+                      <RadioGroupItem value={section.id} id={`note-template-plan-${section.id}`} />
+                      <Label
+                        htmlFor={`note-template-plan-${section.id}`}
+                        className="font-normal text-sm"
+                      >
+                        Plan (can be carried forward into the next session)
+                      </Label>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value={NO_PLAN} id="note-template-plan-none" />
+                  <Label htmlFor="note-template-plan-none" className="font-normal text-sm">
+                    No plan section
+                  </Label>
+                </div>
+              </RadioGroup>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setSections((current) => [...current, newSection()])}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Section
+              </Button>
+            </div>
+
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="button" onClick={saveTemplate}>
+              {editingId ? 'Save' : 'Add'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,454 @@
+/**
+ * SessionTypesEditor Component
+ *
+ * Lets a practitioner define the session types clients can book, each with
+ * its own duration, initial and follow-up price, format, new-client
+ * restriction and the billing codes printed on superbills. Types are added
+ * and edited in a dialog. Controlled; the parent persists the list.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { formatPrice } from '@/lib/utils';
+import { MAX_SESSION_TYPES } from '@/lib/scheduling/sessionTypes';
+import {
+  isValidDiagnosisCode,
+  isValidProcedureCode,
+  parseBillingCodes,
+} from '@/lib/invoices/superbills';
+import type { SessionType } from '@/types/firestore';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+
+const sessionTypeSchema = z.object({
+  name: z.string().trim().min(2, 'Name must be at least 2 characters'),
+  description: z.string().max(500, 'Description must be at most 500 characters'),
+  duration: z
+    .number()
+    .min(15, 'Duration must be at least 15 minutes')
+    .max(300, 'Duration must be at most 300 minutes'),
+  price: z.number().min(0, 'Price must be positive'),
+  followUpPrice: z.number().min(0, 'Price must be positive').nullable(),
+  format: z.enum(['online', 'in-person']),
+  newClientsOnly: z.boolean(),
+  procedureCode: z
+    .string()
+    .trim()
+    .refine(
+      (code) => !code || isValidProcedureCode(code.toUpperCase()),
+      'Enter a 5-character CPT code'
+    ),
+  diagnosisCodes: z
+    .string()
+    .refine(
+      (codes) => parseBillingCodes(codes).every(isValidDiagnosisCode),
+      'Enter ICD-10 codes separated by commas (e.g., F41.1, F32.0)'
+    ),
+});
+
+type SessionTypeFormValues = z.infer<typeof sessionTypeSchema>;
+
+const emptyValues: SessionTypeFormValues = {
+  name: '',
+  description: '',
+  duration: 60,
+  price: 0,
+  followUpPrice: null,
+  format: 'online',
+  newClientsOnly: false,
+  procedureCode: '',
+  diagnosisCodes: '',
+};
+
+interface SessionTypesEditorProps {
+  /**
+   * Current session types
+   */
+  value: SessionType[];
+
+  /**
+   * Called with the updated list
+   */
+  onChange: (value: SessionType[]) => void;
+
+  /**
+   * Currency code used to display prices
+   */
+  currency: string;
+
+  /**
+   * Disable all actions
+   */
+  disabled?: boolean;
+}
+
+export function SessionTypesEditor({
+  value,
+  onChange,
+  currency,
+  disabled = false,
+}: SessionTypesEditorProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const form = useForm<SessionTypeFormValues>({
+    resolver: zodResolver(sessionTypeSchema),
+    defaultValues: emptyValues,
+  });
+
+  const openDialog = (sessionType?: SessionType) => {
+    setEditingId(sessionType?.id ?? null);
+    form.reset(
+      sessionType
+        ? {
+            name: sessionType.name,
+            description: sessionType.description ?? '',
+            duration: sessionType.duration,
+            price: sessionType.price / 100, // Convert from cents
+            followUpPrice:
+              sessionType.followUpPrice != null ? sessionType.followUpPrice / 100 : null,
+            format: sessionType.format,
+            newClientsOnly: sessionType.newClientsOnly,
+            procedureCode: sessionType.procedureCode ?? '',
+            diagnosisCodes: sessionType.diagnosisCodes?.join(', ') ?? '',
+          }
+        : emptyValues
+    );
+    setDialogOpen(true);
+  };
+
+  const onSubmit = (values: SessionTypeFormValues) => {
+    const sessionType: SessionType = {
+      id: editingId ?? crypto.randomUUID(),
+      name: values.name,
+      description: values.description.trim() || null,
+      duration: values.duration,
+      price: Math.round(values.price * 100), // Convert to cents
+      followUpPrice:
+        values.followUpPrice != null ? Math.round(values.followUpPrice * 100) : null,
+      format: values.format,
+      newClientsOnly: values.newClientsOnly,
+      procedureCode: values.procedureCode.toUpperCase() || null,
+      diagnosisCodes: parseBillingCodes(values.diagnosisCodes),
+    };
+
+    onChange(
+      editingId
+        ? value.map((existing) => (existing.id === editingId ? sessionType : existing))
+        : [...value, sessionType]
+    );
+    setDialogOpen(false);
+  };
+
+  const removeSessionType = (id: string) => {
+    onChange(value.filter((sessionType) => sessionType.id !== id));
+  };
+
+  return (
+    <div className="space-y-4">
+      {value.length > 0 ? (
+        <ul className="space-y-2">
+          {value.map((sessionType) => (
+            <li
+              key={sessionType.id}
+              className="flex items-start justify-between gap-4 rounded-md border p-3"
+            >
+              <div className="space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-medium">{sessionType.name}</span>
+                  <Badge variant="outline">
+                    {sessionType.format === 'online' ? 'Online' : 'In person'}
+                  </Badge>
+                  {sessionType.newClientsOnly && <Badge variant="secondary">New clients</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {sessionType.duration} minutes · {formatPrice(sessionType.price, currency)}
+                  {sessionType.followUpPrice != null &&
+                    ` (${formatPrice(sessionType.followUpPrice, currency)} follow-up)`}
+                </p>
+                {sessionType.description && (
+                  <p className="text-sm text-muted-foreground">{sessionType.description}</p>
+                )}
+                {(sessionType.procedureCode || !!sessionType.diagnosisCodes?.length) && (
+                  <p className="text-sm text-muted-foreground">
+                    {[
+                      sessionType.procedureCode && `CPT ${sessionType.procedureCode}`,
+                      !!sessionType.diagnosisCodes?.length &&
+                        `ICD-10 ${sessionType.diagnosisCodes.join(', ')}`,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => openDialog(sessionType)}
+                  disabled={disabled}
+                  aria-label={`Edit ${sessionType.name}`}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeSessionType(sessionType.id)}
+                  disabled={disabled}
+                  aria-label={`Remove ${sessionType.name}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          No session types yet. Clients will book your standard session duration at your
+          initial consultation rate.
+        </p>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => openDialog()}
+        disabled={disabled || value.length >= MAX_SESSION_TYPES}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Session Type
+      </Button>
+      {value.length >= MAX_SESSION_TYPES && (
+        <p className="text-sm text-muted-foreground">
+          You can offer up to {MAX_SESSION_TYPES} session types.
+        </p>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>{editingId ? 'Edit Session Type' : 'Add Session Type'}</DialogTitle>
+            <DialogDescription>Clients choose a session type when booking</DialogDescription>
+          </DialogHeader>
+
+          <Form {...form}>
+            {/* Rendered in a portal, but stop submit events reaching the settings form */}
+            <form
+              onSubmit={(e) => {
+                e.stopPropagation();
+                form.handleSubmit(onSubmit)(e);
+              }}
+              className="space-y-4"
+            >
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} placeholder="e.g., Initial Assessment" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="description"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Description (optional)</FormLabel>
+                    <FormControl>
+                      <Textarea {...field} rows={3} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="duration"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Duration (minutes)</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min="15"
+                          max="300"
+                          step="15"
+                          {...field}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="price"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Initial Price ({currency})</FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          {...field}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="followUpPrice"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Follow-up Price ({currency}, optional)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="Same as initial price"
+                        {...field}
+                        value={field.value ?? ''}
+                        onChange={(e) =>
+                          field.onChange(e.target.value === '' ? null : parseFloat(e.target.value) || 0)
+                        }
+                      />
+                    </FormControl>
+                    <p className="text-sm text-muted-foreground">
+                      Charged to clients who have completed a session with you
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="format"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Format</FormLabel>
+                    <FormControl>
+                      <RadioGroup
+                        value={field.value}
+                        onValueChange={field.onChange}
+                        className="flex gap-6"
+                      >
+                        <div className="flex items-center gap-2">
+                          <RadioGroupItem value="online" id="session-format-online" />
+                          <Label htmlFor="session-format-online">Online</Label>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <RadioGroupItem value="in-person" id="session-format-in-person" />
+                          <Label htmlFor="session-format-in-person">In person</Label>
+                        </div>
+                      </RadioGroup>
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="newClientsOnly"
+                render={({ field }) => (
+                  <FormItem className="flex items-center justify-between">
+                    <div className="space-y-0.5">
+                      <FormLabel>New Clients Only</FormLabel>
+                      <p className="text-sm text-muted-foreground">
+                        Only offer this to clients who have not booked with you before
+                      </p>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="procedureCode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>CPT Code (optional)</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="e.g., 90837" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="diagnosisCodes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>ICD-10 Codes (optional)</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder="e.g., F41.1, F32.0" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Printed on superbills clients send to their insurer
+              </p>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button type="submit">{editingId ? 'Save' : 'Add'}</Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
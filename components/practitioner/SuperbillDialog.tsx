@@ -0,0 +1,220 @@
+/**
+ * SuperbillDialog Component
+ *
+ * Lets a practitioner download a superbill of a client's completed sessions
+ * over a date range, for the client to claim from their insurer. The
+ * practitioner enters the client's details as the insurer needs them
+ * (practitioners cannot read client profiles); codes come from the session
+ * types in settings. Dates are days in the practitioner's time zone.
+ */
+
+'use client';
+
+import { useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { FileDown } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  buildSuperbill,
+  getSuperbillFileName,
+  getSuperbillTimeZone,
+} from '@/lib/invoices/superbills';
+import { renderSuperbillPdf } from '@/lib/invoices/superbillPdf';
+import { formatCalendarDate, getZonedCalendarDate } from '@/lib/scheduling/timezone';
+import { formatPrice } from '@/lib/utils';
+import type { AppointmentDocument, PractitionerDocument } from '@/types/firestore';
+
+/**
+ * SuperbillDialog props
+ */
+interface SuperbillDialogProps {
+  /**
+   * Practitioner issuing the superbill
+   */
+  practitioner: PractitionerDocument;
+
+  /**
+   * The client's appointments with the practitioner (any status)
+   */
+  appointments: AppointmentDocument[];
+
+  /**
+   * Disable the trigger button
+   */
+  disabled?: boolean;
+}
+
+export function SuperbillDialog({
+  practitioner,
+  appointments,
+  disabled = false,
+}: SuperbillDialogProps) {
+  const [open, setOpen] = useState(false);
+  // From the start of the practitioner's year to their today
+  const [from, setFrom] = useState(() => {
+    const today = getZonedCalendarDate(new Date(), getSuperbillTimeZone(practitioner));
+    return formatCalendarDate({ year: today.year, month: 1, day: 1 });
+  });
+  const [to, setTo] = useState(() =>
+    formatCalendarDate(getZonedCalendarDate(new Date(), getSuperbillTimeZone(practitioner)))
+  );
+  const [clientName, setClientName] = useState('');
+  const [dateOfBirth, setDateOfBirth] = useState('');
+  const [clientAddress, setClientAddress] = useState('');
+
+  const result = useMemo(() => {
+    if (!from || !to) {
+      return { superbill: null, error: 'Choose the dates to include' };
+    }
+    try {
+      const superbill = buildSuperbill({
+        practitioner,
+        client: {
+          name: clientName.trim(),
+          dateOfBirth: dateOfBirth ? format(parseISO(dateOfBirth), 'MM/dd/yyyy') : null,
+          address: clientAddress.trim() || null,
+        },
+        appointments,
+        from,
+        to,
+      });
+      return { superbill, error: null };
+    } catch (err) {
+      return {
+        superbill: null,
+        error: err instanceof Error ? err.message : 'Failed to prepare superbill',
+      };
+    }
+  }, [practitioner, appointments, from, to, clientName, dateOfBirth, clientAddress]);
+
+  const { superbill, error } = result;
+  const uncodedCount = superbill?.lines.filter((line) => !line.procedureCode).length ?? 0;
+
+  const handleDownload = () => {
+    if (!superbill || !superbill.client.name) {
+      return;
+    }
+
+    const blob = new Blob([renderSuperbillPdf(superbill) as BlobPart], { type: 'application/pdf' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getSuperbillFileName(superbill);
+    link.click();
+    URL.revokeObjectURL(url);
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={disabled}>
+          <FileDown className="h-4 w-4 mr-2" />
+          Superbill
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle>Superbill</DialogTitle>
+          <DialogDescription>
+            A statement of this client&apos;s completed sessions, with your license, NPI and
+            billing codes, for them to claim from their insurer
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="superbill-from">From</Label>
+              <Input
+                id="superbill-from"
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="superbill-to">To</Label>
+              <Input
+                id="superbill-to"
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="superbill-client-name">Client Name</Label>
+            <Input
+              id="superbill-client-name"
+              placeholder="As on their insurance card"
+              value={clientName}
+              onChange={(e) => setClientName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="superbill-date-of-birth">Date of Birth (Optional)</Label>
+            <Input
+              id="superbill-date-of-birth"
+              type="date"
+              value={dateOfBirth}
+              onChange={(e) => setDateOfBirth(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="superbill-client-address">Address (Optional)</Label>
+            <Textarea
+              id="superbill-client-address"
+              value={clientAddress}
+              onChange={(e) => setClientAddress(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          {superbill ? (
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p>
+                {superbill.lines.length} completed{' '}
+                {superbill.lines.length === 1 ? 'session' : 'sessions'} ·{' '}
+                {formatPrice(superbill.totalFees, superbill.currency)} charged,{' '}
+                {formatPrice(superbill.totalPaid, superbill.currency)} paid
+              </p>
+              {uncodedCount > 0 && (
+                <p>
+                  {uncodedCount} {uncodedCount === 1 ? 'session has' : 'sessions have'} no CPT
+                  code. Add codes to your session types in Settings.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-destructive">{error}</p>
+          )}
+
+          <div className="flex justify-end gap-2 pt-4">
+            <Button variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleDownload} disabled={!superbill || !clientName.trim()}>
+              <FileDown className="h-4 w-4 mr-2" />
+              Download PDF
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * TimeIntervalsInput Component
+ *
+ * Edits a list of start/end time pairs for one day (e.g., a morning and an
+ * afternoon block around a lunch break). Controlled.
+ */
+
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { TimeInterval } from '@/types/firestore';
+import { Plus, X } from 'lucide-react';
+
+interface TimeIntervalsInputProps {
+  /**
+   * Current intervals
+   */
+  value: TimeInterval[];
+
+  /**
+   * Called with the updated intervals
+   */
+  onChange: (value: TimeInterval[]) => void;
+
+  /**
+   * Prefix for input aria-labels (e.g., "monday")
+   */
+  label: string;
+
+  /**
+   * Mark the inputs invalid
+   */
+  invalid?: boolean;
+
+  /**
+   * Disable all inputs
+   */
+  disabled?: boolean;
+}
+
+/**
+ * Suggest the next block: one hour after the last one ends, for four hours
+ */
+function getNextInterval(intervals: TimeInterval[]): TimeInterval {
+  const last = intervals[intervals.length - 1];
+  if (!last) {
+    return { start: '09:00', end: '17:00' };
+  }
+
+  const [hours, minutes] = last.end.split(':').map(Number);
+  const startHour = Math.min((hours || 0) + 1, 22);
+  const endHour = Math.min(startHour + 4, 24);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return {
+    start: `${pad(startHour)}:${pad(minutes || 0)}`,
+    end: endHour === 24 ? '24:00' : `${pad(endHour)}:${pad(minutes || 0)}`,
+  };
+}
+
+export function TimeIntervalsInput({
+  value,
+  onChange,
+  label,
+  invalid = false,
+  disabled = false,
+}: TimeIntervalsInputProps) {
+  const updateInterval = (index: number, changes: Partial<TimeInterval>) => {
+    onChange(value.map((interval, i) => (i === index ? { ...interval, ...changes } : interval)));
+  };
+
+  const removeInterval = (index: number) => {
+    onChange(value.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.map((interval, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            type="time"
+            step={1800}
+            value={interval.start}
+            onChange={(e) => updateInterval(index, { start: e.target.value })}
+            aria-label={`${label} start time ${index + 1}`}
+            aria-invalid={invalid}
+            className="w-32"
+            disabled={disabled}
+          />
+          <span className="text-muted-foreground">to</span>
+          <Input
+            type="time"
+            step={1800}
+            value={interval.end}
+            onChange={(e) => updateInterval(index, { end: e.target.value })}
+            aria-label={`${label} end time ${index + 1}`}
+            aria-invalid={invalid}
+            className="w-32"
+            disabled={disabled}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => removeInterval(index)}
+            disabled={disabled}
+            aria-label={`Remove ${label} hours ${index + 1}`}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={() => onChange([...value, getNextInterval(value)])}
+        disabled={disabled}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add hours
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+/**
+ * TimeOffEditor Component
+ *
+ * Lets a practitioner add and remove time-off periods: multi-day vacations
+ * or partial-day blocks, picked on a range calendar and interpreted in the
+ * practitioner's time zone. Controlled; the parent persists the list.
+ */
+
+'use client';
+
+import { useState } from 'react';
+import type { DateRange } from 'react-day-picker';
+import { Timestamp } from 'firebase/firestore';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { getTimeOffRange } from '@/lib/scheduling/timeOff';
+import { formatInTimeZone } from '@/lib/scheduling/timezone';
+import type { TimeOffPeriod } from '@/types/firestore';
+import { CalendarOff, Plus, X } from 'lucide-react';
+
+interface TimeOffEditorProps {
+  /**
+   * Current time-off periods
+   */
+  value: TimeOffPeriod[];
+
+  /**
+   * Called with the updated list
+   */
+  onChange: (value: TimeOffPeriod[]) => void;
+
+  /**
+   * Practitioner's IANA time zone, used to interpret picked dates and times
+   */
+  timeZone: string;
+
+  /**
+   * Disable all inputs
+   */
+  disabled?: boolean;
+}
+
+const dayFormat: Intl.DateTimeFormatOptions = { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' };
+const dateTimeFormat: Intl.DateTimeFormatOptions = { ...dayFormat, hour: 'numeric', minute: '2-digit' };
+
+/**
+ * Human-readable description of a period in the practitioner's zone
+ */
+function describePeriod(period: TimeOffPeriod, timeZone: string): string {
+  const start = period.start.toDate();
+  const end = period.end.toDate();
+
+  if (period.allDay) {
+    // All-day periods end at midnight after the last day
+    const lastDay = new Date(end.getTime() - 1);
+    const first = formatInTimeZone(start, timeZone, dayFormat);
+    const last = formatInTimeZone(lastDay, timeZone, dayFormat);
+    return first === last ? first : `${first} – ${last}`;
+  }
+
+  return `${formatInTimeZone(start, timeZone, dateTimeFormat)} – ${formatInTimeZone(end, timeZone, dateTimeFormat)}`;
+}
+
+export function TimeOffEditor({ value, onChange, timeZone, disabled = false }: TimeOffEditorProps) {
+  const [range, setRange] = useState<DateRange | undefined>(undefined);
+  const [allDay, setAllDay] = useState(true);
+  const [startTime, setStartTime] = useState('12:00');
+  const [endTime, setEndTime] = useState('13:00');
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const sortedPeriods = [...value].sort((a, b) => a.start.toMillis() - b.start.toMillis());
+
+  const addPeriod = () => {
+    if (!range?.from) {
+      setError('Select a date or date range');
+      return;
+    }
+
+    try {
+      const { start, end } = getTimeOffRange(
+        { from: range.from, to: range.to, allDay, startTime, endTime },
+        timeZone
+      );
+
+      onChange([
+        ...value,
+        {
+          id: crypto.randomUUID(),
+          start: Timestamp.fromDate(start),
+          end: Timestamp.fromDate(end),
+          allDay,
+          reason: reason.trim() || null,
+        },
+      ]);
+      setRange(undefined);
+      setReason('');
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Invalid time off');
+    }
+  };
+
+  const removePeriod = (id: string) => {
+    onChange(value.filter((period) => period.id !== id));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid md:grid-cols-2 gap-6">
+        <Calendar
+          mode="range"
+          selected={range}
+          onSelect={setRange}
+          disabled={(date) => disabled || date < new Date(new Date().setHours(0, 0, 0, 0))}
+          className="rounded-md border"
+        />
+
+        <div className="space-y-4">
+          <div className="flex items-center gap-3">
+            <Switch
+              id="time-off-all-day"
+              checked={allDay}
+              onCheckedChange={setAllDay}
+              disabled={disabled}
+            />
+            <Label htmlFor="time-off-all-day">All day</Label>
+          </div>
+
+          {!allDay && (
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="time-off-start">From (first day)</Label>
+                <Input
+                  id="time-off-start"
+                  type="time"
+                  value={startTime}
+                  onChange={(e) => setStartTime(e.target.value)}
+                  disabled={disabled}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="time-off-end">Until (last day)</Label>
+                <Input
+                  id="time-off-end"
+                  type="time"
+                  value={endTime}
+                  onChange={(e) => setEndTime(e.target.value)}
+                  disabled={disabled}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="time-off-reason">Reason (optional)</Label>
+            <Input
+              id="time-off-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g., Vacation, Conference"
+              disabled={disabled}
+            />
+          </div>
+
+          <p className="text-xs text-muted-foreground">Dates and times are in {timeZone}.</p>
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button type="button" variant="outline" onClick={addPeriod} disabled={disabled}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Time Off
+          </Button>
+        </div>
+      </div>
+
+      {sortedPeriods.length > 0 ? (
+        <ul className="space-y-2">
+          {sortedPeriods.map((period) => (
+            <li
+              key={period.id}
+              className="flex items-center justify-between gap-4 rounded-md border p-3"
+            >
+              <div className="flex items-center gap-3">
+                <CalendarOff className="h-4 w-4 text-muted-foreground" />
+                <div>
+                  <p className="text-sm font-medium">{describePeriod(period, timeZone)}</p>
+                  {period.reason && (
+                    <p className="text-sm text-muted-foreground">{period.reason}</p>
+                  )}
+                </div>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removePeriod(period.id)}
+                disabled={disabled}
+                aria-label="Remove time off"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">No time off scheduled.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+/**
+ * WorkingHoursEditor Component
+ *
+ * Edits a practitioner's weekly working hours: one row per weekday with an
+ * enabled switch and one or more start/end intervals. Controlled; validation
+ * errors are passed in by the parent form.
+ */
+
+'use client';
+
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { TimeIntervalsInput } from '@/components/practitioner/TimeIntervalsInput';
+import type { DayOfWeek } from '@/lib/scheduling/availability';
+import type { DayWorkingHours, WorkingHours } from '@/types/firestore';
+
+/**
+ * Days in display order (week starts on Monday)
+ */
+const DISPLAY_DAYS: DayOfWeek[] = [
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+  'sunday',
+];
+
+const DEFAULT_DAY_HOURS: DayWorkingHours = {
+  enabled: false,
+  intervals: [{ start: '09:00', end: '17:00' }],
+};
+
+interface WorkingHoursEditorProps {
+  /**
+   * Current working hours
+   */
+  value: WorkingHours;
+
+  /**
+   * Called with the updated working hours
+   */
+  onChange: (value: WorkingHours) => void;
+
+  /**
+   * Validation error per day
+   */
+  errors?: Partial<Record<DayOfWeek, string>>;
+
+  /**
+   * Disable all inputs
+   */
+  disabled?: boolean;
+}
+
+export function WorkingHoursEditor({
+  value,
+  onChange,
+  errors = {},
+  disabled = false,
+}: WorkingHoursEditorProps) {
+  const updateDay = (day: DayOfWeek, changes: Partial<DayWorkingHours>) => {
+    onChange({
+      ...value,
+      [day]: { ...DEFAULT_DAY_HOURS, ...value[day], ...changes },
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {DISPLAY_DAYS.map((day) => {
+        const hours = value[day] ?? DEFAULT_DAY_HOURS;
+        const error = errors[day];
+
+        return (
+          <div key={day} className="space-y-1">
+            <div className="flex flex-wrap items-start gap-4">
+              <div className="flex items-center gap-3 w-36 h-10">
+                <Switch
+                  id={`working-hours-${day}`}
+                  checked={hours.enabled}
+                  onCheckedChange={(enabled) => updateDay(day, { enabled })}
+                  disabled={disabled}
+                />
+                <Label htmlFor={`working-hours-${day}`} className="capitalize">
+                  {day}
+                </Label>
+              </div>
+              {hours.enabled ? (
+                <TimeIntervalsInput
+                  value={hours.intervals}
+                  onChange={(intervals) => updateDay(day, { intervals })}
+                  label={day}
+                  invalid={!!error}
+                  disabled={disabled}
+                />
+              ) : (
+                <span className="text-sm text-muted-foreground leading-10">Unavailable</span>
+              )}
+            </div>
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
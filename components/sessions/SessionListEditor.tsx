@@ -0,0 +1,74 @@
+/**
+ * SessionListEditor Component
+ *
+ * Edits a list of short items in session notes, such as the client's
+ * goals or homework: one input per item, with buttons to add and remove
+ * items. Controlled; blank items are kept while editing and dropped when
+ * the notes are saved.
+ */
+
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface SessionListEditorProps {
+  /**
+   * Current items
+   */
+  items: string[];
+
+  /**
+   * Called with the updated list
+   */
+  onChange: (items: string[]) => void;
+
+  /**
+   * Placeholder for each item's input
+   */
+  placeholder: string;
+
+  /**
+   * Label of the add button
+   */
+  addLabel: string;
+}
+
+export function SessionListEditor({
+  items,
+  onChange,
+  placeholder,
+  addLabel,
+}: SessionListEditorProps) {
+  const update = (index: number, value: string) =>
+    onChange(items.map((item, i) => (i === index ? value : item)));
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={index} className="flex gap-2">
+          <Input
+            value={item}
+            onChange={(e) => update(index, e.target.value)}
+            placeholder={placeholder}
+            aria-label={`${placeholder} ${index + 1}`}
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(items.filter((_, i) => i !== index))}
+            aria-label={`Remove ${item || 'item'}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...items, ''])}>
+        <Plus className="h-4 w-4 mr-2" />
+        {addLabel}
+      </Button>
+    </div>
+  );
+}
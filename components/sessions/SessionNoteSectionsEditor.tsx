@@ -0,0 +1,88 @@
+/**
+ * SessionNoteSectionsEditor Component
+ *
+ * Edits notes written in a note template, one text area per section with
+ * the template's prompt as a placeholder. The plan section offers to carry
+ * forward the plan from the client's previous session. Controlled; the
+ * parent saves the sections.
+ */
+
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { carryForwardPlan } from '@/lib/sessions/noteTemplates';
+import type { SessionNoteSection, SessionNoteTemplate } from '@/types/firestore';
+import { CornerDownRight } from 'lucide-react';
+
+interface SessionNoteSectionsEditorProps {
+  /**
+   * Sections being written
+   */
+  sections: SessionNoteSection[];
+
+  /**
+   * Called with the updated sections
+   */
+  onChange: (sections: SessionNoteSection[]) => void;
+
+  /**
+   * Template the sections follow, for its prompts (null if it was removed)
+   */
+  template: SessionNoteTemplate | null;
+
+  /**
+   * Plan from the client's previous session, if any
+   */
+  previousPlan: string | null;
+}
+
+export function SessionNoteSectionsEditor({
+  sections,
+  onChange,
+  template,
+  previousPlan,
+}: SessionNoteSectionsEditorProps) {
+  const updateContent = (id: string, content: string) =>
+    onChange(sections.map((section) => (section.id === id ? { ...section, content } : section)));
+
+  return (
+    <div className="space-y-6">
+      {sections.map((section) => {
+        const inputId = `note-section-${section.id}`;
+        const prompt = template?.sections.find((candidate) => candidate.id === section.id)?.prompt;
+        const planToCarry =
+          section.isPlan && previousPlan && !section.content.includes(previousPlan)
+            ? previousPlan
+            : null;
+
+        return (
+          <div key={section.id} className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor={inputId}>{section.title}</Label>
+              {planToCarry && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(carryForwardPlan(sections, planToCarry))}
+                >
+                  <CornerDownRight className="h-4 w-4 mr-2" />
+                  Carry Forward Previous Plan
+                </Button>
+              )}
+            </div>
+            <Textarea
+              id={inputId}
+              value={section.content}
+              onChange={(e) => updateContent(section.id, e.target.value)}
+              placeholder={prompt ?? undefined}
+              rows={section.isPlan ? 4 : 5}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+}
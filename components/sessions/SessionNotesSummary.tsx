@@ -0,0 +1,112 @@
+/**
+ * SessionNotesSummary Component
+ *
+ * Read-only view of a session's notes: the practitioner's notes (section
+ * by section for notes written in a template), the client's goals and
+ * homework, the planned next session and, once the notes are shared, which
+ * homework the client has done and their reflections. Empty parts are left
+ * out.
+ */
+
+'use client';
+
+import { format } from 'date-fns';
+import { getHomeworkProgress } from '@/lib/sessions/notes';
+import type { SessionDocument, SharedSessionDocument } from '@/types/firestore';
+import { CheckCircle2, Circle } from 'lucide-react';
+
+interface SessionNotesSummaryProps {
+  /**
+   * Session to show
+   */
+  session: SessionDocument;
+
+  /**
+   * What was shared with the client from the finalized notes
+   */
+  shared?: SharedSessionDocument | null;
+}
+
+export function SessionNotesSummary({ session, shared }: SessionNotesSummaryProps) {
+  const goals = session.goals ?? [];
+  const homework = session.homework ?? [];
+  const progress = shared ? getHomeworkProgress(shared) : null;
+
+  return (
+    <div className="space-y-4 text-sm">
+      {!session.notes ? (
+        <p className="text-muted-foreground">No notes written</p>
+      ) : session.sections ? (
+        session.sections
+          .filter((section) => section.content.trim())
+          .map((section) => (
+            <div key={section.id}>
+              <h3 className="font-medium mb-1">{section.title}</h3>
+              <p className="whitespace-pre-wrap">{section.content.trim()}</p>
+            </div>
+          ))
+      ) : (
+        <p className="whitespace-pre-wrap">{session.notes}</p>
+      )}
+
+      {goals.length > 0 && (
+        <div>
+          <h3 className="font-medium mb-1">Goals</h3>
+          <ul className="list-disc pl-5 space-y-1">
+            {goals.map((goal, index) => (
+              <li key={index}>{goal}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {homework.length > 0 && (
+        <div>
+          <h3 className="font-medium mb-1">
+            Homework
+            {progress && (
+              <span className="font-normal text-muted-foreground">
+                {' '}
+                · {progress.done} of {progress.total} done
+              </span>
+            )}
+          </h3>
+          {shared ? (
+            <ul className="space-y-1">
+              {homework.map((item, index) => (
+                <li key={index} className="flex items-center gap-2">
+                  {shared.completedHomework.includes(item) ? (
+                    <CheckCircle2 className="h-4 w-4 text-primary" />
+                  ) : (
+                    <Circle className="h-4 w-4 text-muted-foreground" />
+                  )}
+                  {item}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <ul className="list-disc pl-5 space-y-1">
+              {homework.map((item, index) => (
+                <li key={index}>{item}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {session.nextSessionDate && (
+        <p>
+          <span className="font-medium">Next session:</span>{' '}
+          {format(session.nextSessionDate.toDate(), 'EEEE, MMMM d, yyyy')}
+        </p>
+      )}
+
+      {shared?.clientNotes && (
+        <div>
+          <h3 className="font-medium mb-1">Client reflections</h3>
+          <p className="whitespace-pre-wrap text-muted-foreground">{shared.clientNotes}</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+/**
+ * Tests for the appointment security rules
+ *
+ * Run against the Firestore emulator; skipped without it:
+ * firebase emulators:exec --only firestore "npx jest firebase/rules"
+ *
+ * @jest-environment node
+ */
+
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import firebase from 'firebase/compat/app';
+import 'firebase/compat/firestore';
+
+const describeWithEmulator = process.env.FIRESTORE_EMULATOR_HOST ? describe : describe.skip;
+
+const hour = 3600000;
+const serverTimestamp = () => firebase.firestore.FieldValue.serverTimestamp();
+
+describeWithEmulator('appointment rules', () => {
+  let testEnv: RulesTestEnvironment;
+
+  const clientDb = () => testEnv.authenticatedContext('client-1').firestore();
+  const practitionerDb = () => testEnv.authenticatedContext('prac-1').firestore();
+
+  // A confirmed session starting in two hours, inside the 24-hour window
+  const stored = () => {
+    const startTime = new Date(Date.now() + 2 * hour);
+    return {
+      clientId: 'client-1',
+      practitionerId: 'prac-1',
+      startTime,
+      endTime: new Date(startTime.getTime() + hour),
+      status: 'confirmed',
+      statusHistory: [
+        { from: null, to: 'pending', changedAt: new Date(Date.now() - hour), changedBy: 'client' },
+        {
+          from: 'pending',
+          to: 'confirmed',
+          changedAt: new Date(Date.now() - hour / 2),
+          changedBy: 'practitioner',
+        },
+      ],
+      quotedPrice: 10000,
+      currency: 'USD',
+      cancellationPolicy: {
+        freeCancellationHours: 24,
+        lateCancellationFeePercent: 50,
+        noShowFeePercent: 75,
+      },
+      cancelledBy: null,
+      lateCancellation: null,
+      feeOwed: null,
+    };
+  };
+
+  // Move the stored appointment to have started an hour ago
+  const startAnHourAgo = () =>
+    testEnv.withSecurityRulesDisabled(async (context) => {
+      await context
+        .firestore()
+        .doc('appointments/appt-1')
+        .update({ startTime: new Date(Date.now() - hour), endTime: new Date() });
+    });
+
+  // Change status as the practitioner, with the given fee fields
+  const changeStatus = (from: string, to: string, fees: object) =>
+    practitionerDb()
+      .doc('appointments/appt-1')
+      .update({
+        status: to,
+        statusHistory: firebase.firestore.FieldValue.arrayUnion({
+          from,
+          to,
+          changedAt: new Date(),
+          changedBy: 'practitioner',
+        }),
+        updatedAt: serverTimestamp(),
+        ...fees,
+      });
+
+  // Cancel as the given party, recording the given terms
+  const cancel = (db: firebase.firestore.Firestore, by: string, terms: object) =>
+    db.doc('appointments/appt-1').update({
+      status: 'cancelled',
+      statusHistory: firebase.firestore.FieldValue.arrayUnion({
+        from: 'confirmed',
+        to: 'cancelled',
+        changedAt: new Date(),
+        changedBy: by,
+      }),
+      cancelledAt: serverTimestamp(),
+      pendingReschedule: null,
+      waitlistRelease: 'pending',
+      updatedAt: serverTimestamp(),
+      ...terms,
+    });
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-appointment-rules',
+      firestore: {
+        rules: readFileSync(resolve(__dirname, '../firestore.rules'), 'utf8'),
+      },
+    });
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await testEnv.withSecurityRulesDisabled(async (context) => {
+      const db = context.firestore();
+      await db.doc('users/client-1').set({ role: 'client' });
+      await db.doc('users/prac-1').set({ role: 'practitioner' });
+      await db.doc('practitioners/prac-1').set({ sessionDuration: 60, sessionTypes: [] });
+      await db.doc('appointments/appt-1').set(stored());
+    });
+  });
+
+  describe('cancelling', () => {
+    it('should record the client as the one cancelling, with the late fee', async () => {
+      await assertFails(
+        cancel(clientDb(), 'client', {
+          cancelledBy: 'practitioner',
+          lateCancellation: false,
+          feeOwed: 0,
+        })
+      );
+      await assertSucceeds(
+        cancel(clientDb(), 'client', {
+          cancelledBy: 'client',
+          lateCancellation: true,
+          feeOwed: 5000,
+        })
+      );
+    });
+
+    it('should record the practitioner as the one cancelling', async () => {
+      await assertFails(
+        cancel(practitionerDb(), 'practitioner', {
+          cancelledBy: 'client',
+          lateCancellation: true,
+          feeOwed: 10000,
+        })
+      );
+      await assertSucceeds(
+        cancel(practitionerDb(), 'practitioner', {
+          cancelledBy: 'practitioner',
+          lateCancellation: false,
+          feeOwed: 0,
+        })
+      );
+    });
+
+    it('should not let who cancelled change afterwards', async () => {
+      await assertSucceeds(
+        cancel(clientDb(), 'client', {
+          cancelledBy: 'client',
+          lateCancellation: true,
+          feeOwed: 5000,
+        })
+      );
+
+      await assertFails(
+        practitionerDb().doc('appointments/appt-1').update({ cancelledBy: 'practitioner' })
+      );
+    });
+  });
+
+  describe('practitioner fees', () => {
+    it('should not let a practitioner charge a fee for cancelling', async () => {
+      await assertFails(
+        cancel(practitionerDb(), 'practitioner', {
+          cancelledBy: 'practitioner',
+          lateCancellation: false,
+          feeOwed: 10000,
+        })
+      );
+    });
+
+    it('should record the no-show fee of the stored policy', async () => {
+      await startAnHourAgo();
+
+      await assertFails(changeStatus('confirmed', 'no-show', { feeOwed: 10000 }));
+      await assertSucceeds(changeStatus('confirmed', 'no-show', { feeOwed: 7500 }));
+    });
+
+    it('should clear the no-show fee when corrected to completed', async () => {
+      await startAnHourAgo();
+      await assertSucceeds(changeStatus('confirmed', 'no-show', { feeOwed: 7500 }));
+
+      await assertFails(changeStatus('no-show', 'completed', { feeOwed: 7500 }));
+      await assertSucceeds(changeStatus('no-show', 'completed', { feeOwed: null }));
+    });
+
+    it('should not let a practitioner change fees otherwise', async () => {
+      await assertFails(
+        practitionerDb().doc('appointments/appt-1').update({ feeOwed: 2500 })
+      );
+      await assertFails(
+        practitionerDb().doc('appointments/appt-1').update({ lateCancellation: true })
+      );
+    });
+  });
+
+  describe('status history', () => {
+    const entry = (changedAt: Date) => ({
+      from: 'confirmed',
+      to: 'cancelled',
+      changedAt,
+      changedBy: 'client',
+    });
+    const terms = {
+      cancelledBy: 'client',
+      lateCancellation: true,
+      feeOwed: 5000,
+    };
+
+    it('should keep earlier entries as they were', async () => {
+      const [booked] = stored().statusHistory;
+
+      await assertFails(
+        cancel(clientDb(), 'client', {
+          ...terms,
+          statusHistory: [
+            { ...booked, changedBy: 'practitioner' },
+            booked,
+            entry(new Date()),
+          ],
+        })
+      );
+    });
+
+    it('should only change with the status', async () => {
+      await assertFails(
+        clientDb()
+          .doc('appointments/appt-1')
+          .update({ statusHistory: firebase.firestore.FieldValue.arrayUnion(entry(new Date())) })
+      );
+    });
+
+    it('should record the time of the change', async () => {
+      await assertFails(
+        cancel(clientDb(), 'client', {
+          ...terms,
+          statusHistory: firebase.firestore.FieldValue.arrayUnion(
+            entry(new Date(Date.now() - 24 * hour))
+          ),
+        })
+      );
+    });
+  });
+
+  describe('reschedule history', () => {
+    const block = 30 * 60000;
+
+    // Move the appointment three days later as the practitioner, taking the
+    // slot locks for the new times, and record the given entry
+    const move = async (record: (previous: firebase.firestore.DocumentData) => object) => {
+      const db = practitionerDb();
+      const snapshot = await db.doc('appointments/appt-1').get();
+      const previous = snapshot.data() as firebase.firestore.DocumentData;
+      const startTime = new Date(Math.ceil(Date.now() / block) * block + 72 * hour);
+      const endTime = new Date(startTime.getTime() + hour);
+      const batch = db.batch();
+
+      batch.update(db.doc('appointments/appt-1'), {
+        startTime,
+        endTime,
+        rescheduleHistory: [record(previous)],
+        pendingReschedule: null,
+        updatedAt: serverTimestamp(),
+      });
+      [0, 1].forEach((index) => {
+        const blockStart = startTime.getTime() + index * block;
+        [
+          ['practitioner', 'prac-1'],
+          ['client', 'client-1'],
+        ].forEach(([ownerType, ownerId]) => {
+          batch.set(db.doc(`slotLocks/${ownerType}_${ownerId}_${blockStart}`), {
+            ownerType,
+            ownerId,
+            appointmentId: 'appt-1',
+            practitionerId: 'prac-1',
+            clientId: 'client-1',
+            startTime: new Date(blockStart),
+            endTime: new Date(blockStart + block),
+            blockIndex: index,
+            appointmentStartTime: startTime,
+            appointmentEndTime: endTime,
+            createdAt: serverTimestamp(),
+          });
+        });
+      });
+      return batch.commit();
+    };
+
+    it('should record the previous times of a move', async () => {
+      await assertFails(
+        move((previous) => ({
+          startTime: new Date(previous.startTime.toMillis() + hour),
+          endTime: previous.endTime,
+          rescheduledAt: new Date(),
+          rescheduledBy: 'practitioner',
+        }))
+      );
+      await assertSucceeds(
+        move((previous) => ({
+          startTime: previous.startTime,
+          endTime: previous.endTime,
+          rescheduledAt: new Date(),
+          rescheduledBy: 'practitioner',
+        }))
+      );
+    });
+
+    it('should only change when the times do', async () => {
+      const previous = stored();
+
+      await assertFails(
+        clientDb()
+          .doc('appointments/appt-1')
+          .update({
+            rescheduleHistory: [
+              {
+                startTime: previous.startTime,
+                endTime: previous.endTime,
+                rescheduledAt: new Date(),
+                rescheduledBy: 'client',
+              },
+            ],
+          })
+      );
+    });
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * useActiveIntakeTemplates hook
+ *
+ * Fetches the intake form clients of each of the given practitioners are
+ * asked to fill in: the practitioner's most recently created active
+ * template that is not a scored questionnaire. Practitioners without one
+ * are left out. Also fetches each practitioner's active scored
+ * questionnaires, which clients fill in for every appointment.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { intakeFormRepository } from '@/services/firestore/repositories/IntakeFormRepository';
+import type { IntakeFormDocument } from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseActiveIntakeTemplatesReturn {
+  /**
+   * Active template by practitioner ID
+   */
+  templates: Record<string, IntakeFormDocument>;
+
+  /**
+   * Active scored questionnaires by practitioner ID (practitioners without
+   * any are left out)
+   */
+  questionnaires: Record<string, IntakeFormDocument[]>;
+
+  /**
+   * Whether the templates are being loaded
+   */
+  loading: boolean;
+}
+
+/**
+ * Hook for practitioners' active intake templates
+ *
+ * @param practitionerIds - Practitioners' Firebase Auth UIDs
+ * @returns {UseActiveIntakeTemplatesReturn} Templates and questionnaires by practitioner, and loading state
+ */
+export function useActiveIntakeTemplates(
+  practitionerIds: string[]
+): UseActiveIntakeTemplatesReturn {
+  const [templates, setTemplates] = useState<Record<string, IntakeFormDocument>>({});
+  const [questionnaires, setQuestionnaires] = useState<Record<string, IntakeFormDocument[]>>({});
+  const [loading, setLoading] = useState(true);
+
+  // Refetch only when the set of practitioners changes
+  const key = [...new Set(practitionerIds)].sort().join(',');
+
+  useEffect(() => {
+    const ids = key ? key.split(',') : [];
+    let cancelled = false;
+
+    const fetchTemplates = async () => {
+      setLoading(true);
+
+      try {
+        const results = await Promise.all(
+          ids.map(async (practitionerId) => {
+            const active = await intakeFormRepository.listTemplates(practitionerId, {
+              activeOnly: true,
+            });
+            return [practitionerId, active] as const;
+          })
+        );
+
+        if (!cancelled) {
+          setTemplates(
+            Object.fromEntries(
+              results.flatMap(([practitionerId, active]) => {
+                const template = active.find((candidate) => !candidate.scoring);
+                return template ? [[practitionerId, template]] : [];
+              })
+            )
+          );
+          setQuestionnaires(
+            Object.fromEntries(
+              results.flatMap(([practitionerId, active]) => {
+                const scored = active.filter((candidate) => candidate.scoring);
+                return scored.length > 0 ? [[practitionerId, scored]] : [];
+              })
+            )
+          );
+        }
+      } catch (err) {
+        console.error('Error fetching intake forms:', err);
+        if (!cancelled) {
+          setTemplates({});
+          setQuestionnaires({});
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchTemplates();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [key]);
+
+  return {
+    templates,
+    questionnaires,
+    loading,
+  };
+}
@@ -0,0 +1,175 @@
+/**
+ * useAppointmentIntake hook
+ *
+ * Loads what a client needs to fill in the intake form for one of their
+ * appointments: the appointment, and either the practitioner's active
+ * intake template or, once submitted, the submitted form. Provides the
+ * submit action, with loading and error states and toast notifications.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import { intakeFormRepository } from '@/services/firestore/repositories/IntakeFormRepository';
+import { toast } from 'sonner';
+import type { AppointmentDocument, IntakeFormDocument } from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseAppointmentIntakeReturn {
+  /**
+   * Appointment the form is for
+   */
+  appointment: AppointmentDocument | null;
+
+  /**
+   * Template to fill in (null once submitted, or if the practitioner has no
+   * active template)
+   */
+  template: IntakeFormDocument | null;
+
+  /**
+   * Submitted form, once the intake form is completed
+   */
+  submittedForm: IntakeFormDocument | null;
+
+  /**
+   * Whether the appointment and form are being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Error message if loading failed
+   */
+  error: string | null;
+
+  /**
+   * Submit the client's answers to the template
+   */
+  submitForm: (responses: Record<string, unknown>) => Promise<IntakeFormDocument | null>;
+
+  /**
+   * Whether a submission is in progress
+   */
+  submitting: boolean;
+}
+
+/**
+ * Hook for filling in an appointment's intake form
+ *
+ * @param appointmentId - Appointment document ID
+ * @param clientId - Signed-in client's UID (null while signed out)
+ * @returns {UseAppointmentIntakeReturn} Appointment, form, loading state, and submit function
+ */
+export function useAppointmentIntake(
+  appointmentId: string,
+  clientId: string | null | undefined
+): UseAppointmentIntakeReturn {
+  const [appointment, setAppointment] = useState<AppointmentDocument | null>(null);
+  const [template, setTemplate] = useState<IntakeFormDocument | null>(null);
+  const [submittedForm, setSubmittedForm] = useState<IntakeFormDocument | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!clientId) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchIntake = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const appointmentDoc = await appointmentRepository.getAppointment(appointmentId);
+        if (!appointmentDoc || appointmentDoc.clientId !== clientId) {
+          throw new Error('Appointment not found');
+        }
+
+        let form: IntakeFormDocument | null = null;
+        let activeTemplate: IntakeFormDocument | null = null;
+        if (appointmentDoc.intakeFormCompleted && appointmentDoc.intakeFormId) {
+          form = await intakeFormRepository.getForm(appointmentDoc.intakeFormId);
+        } else {
+          const active = await intakeFormRepository.listTemplates(
+            appointmentDoc.practitionerId,
+            { activeOnly: true }
+          );
+          // Scored questionnaires are filled in separately
+          activeTemplate = active.find((candidate) => !candidate.scoring) ?? null;
+        }
+
+        if (!cancelled) {
+          setAppointment(appointmentDoc);
+          setSubmittedForm(form);
+          setTemplate(activeTemplate);
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load intake form';
+        console.error('Error fetching intake form:', err);
+        if (!cancelled) {
+          setError(errorMessage);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchIntake();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [appointmentId, clientId]);
+
+  const submitForm = useCallback(async (
+    responses: Record<string, unknown>
+  ): Promise<IntakeFormDocument | null> => {
+    if (!template || !clientId) {
+      return null;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const form = await intakeFormRepository.submitForm({
+        templateId: template.id,
+        appointmentId,
+        clientId,
+        responses,
+      });
+      toast.success('Intake form submitted. Thank you!');
+      setSubmittedForm(form);
+      setTemplate(null);
+      setAppointment((current) =>
+        current ? { ...current, intakeFormCompleted: true, intakeFormId: form.id } : current
+      );
+      return form;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to submit intake form';
+      toast.error(errorMessage);
+      console.error('Error submitting intake form:', err);
+      return null;
+    } finally {
+      setSubmitting(false);
+    }
+  }, [template, appointmentId, clientId]);
+
+  return {
+    appointment,
+    template,
+    submittedForm,
+    loading,
+    error,
+    submitForm,
+    submitting,
+  };
+}
@@ -0,0 +1,171 @@
+/**
+ * useAppointmentQuestionnaires hook
+ *
+ * Loads what a client needs to fill in their practitioner's scored
+ * questionnaires for one of their appointments: the appointment, the
+ * practitioner's active questionnaires, and those already submitted for
+ * the appointment. Provides the submit action, with loading and error
+ * states and toast notifications.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import { intakeFormRepository } from '@/services/firestore/repositories/IntakeFormRepository';
+import { toast } from 'sonner';
+import type { AppointmentDocument, IntakeFormDocument } from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseAppointmentQuestionnairesReturn {
+  /**
+   * Appointment the questionnaires are for
+   */
+  appointment: AppointmentDocument | null;
+
+  /**
+   * The practitioner's active questionnaires
+   */
+  questionnaires: IntakeFormDocument[];
+
+  /**
+   * Questionnaires submitted for the appointment, by template ID
+   */
+  submissions: Record<string, IntakeFormDocument>;
+
+  /**
+   * Whether the appointment and questionnaires are being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Error message if loading failed
+   */
+  error: string | null;
+
+  /**
+   * Submit the client's answers to a questionnaire
+   */
+  submitQuestionnaire: (
+    templateId: string,
+    responses: Record<string, unknown>
+  ) => Promise<IntakeFormDocument | null>;
+
+  /**
+   * Whether a submission is in progress
+   */
+  submitting: boolean;
+}
+
+/**
+ * Hook for filling in an appointment's scored questionnaires
+ *
+ * @param appointmentId - Appointment document ID
+ * @param clientId - Signed-in client's UID (null while signed out)
+ * @returns {UseAppointmentQuestionnairesReturn} Appointment, questionnaires, submissions, loading state, and submit function
+ */
+export function useAppointmentQuestionnaires(
+  appointmentId: string,
+  clientId: string | null | undefined
+): UseAppointmentQuestionnairesReturn {
+  const [appointment, setAppointment] = useState<AppointmentDocument | null>(null);
+  const [questionnaires, setQuestionnaires] = useState<IntakeFormDocument[]>([]);
+  const [submissions, setSubmissions] = useState<Record<string, IntakeFormDocument>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!clientId) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchQuestionnaires = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const appointmentDoc = await appointmentRepository.getAppointment(appointmentId);
+        if (!appointmentDoc || appointmentDoc.clientId !== clientId) {
+          throw new Error('Appointment not found');
+        }
+
+        const [active, submitted] = await Promise.all([
+          intakeFormRepository.listTemplates(appointmentDoc.practitionerId, { activeOnly: true }),
+          intakeFormRepository.listAppointmentQuestionnaires(appointmentId, clientId),
+        ]);
+
+        if (!cancelled) {
+          setAppointment(appointmentDoc);
+          setQuestionnaires(active.filter((template) => template.scoring));
+          setSubmissions(
+            Object.fromEntries(
+              submitted.flatMap((form) => (form.templateId ? [[form.templateId, form]] : []))
+            )
+          );
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load questionnaires';
+        console.error('Error fetching questionnaires:', err);
+        if (!cancelled) {
+          setError(errorMessage);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchQuestionnaires();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [appointmentId, clientId]);
+
+  const submitQuestionnaire = useCallback(async (
+    templateId: string,
+    responses: Record<string, unknown>
+  ): Promise<IntakeFormDocument | null> => {
+    if (!clientId) {
+      return null;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const form = await intakeFormRepository.submitForm({
+        templateId,
+        appointmentId,
+        clientId,
+        responses,
+      });
+      toast.success('Questionnaire submitted. Thank you!');
+      setSubmissions((current) => ({ ...current, [templateId]: form }));
+      return form;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to submit questionnaire';
+      toast.error(errorMessage);
+      console.error('Error submitting questionnaire:', err);
+      return null;
+    } finally {
+      setSubmitting(false);
+    }
+  }, [appointmentId, clientId]);
+
+  return {
+    appointment,
+    questionnaires,
+    submissions,
+    loading,
+    error,
+    submitQuestionnaire,
+    submitting,
+  };
+}
@@ -0,0 +1,123 @@
+/**
+ * useAppointmentSeries hook
+ *
+ * Mutation hook for booking recurring appointment series. Checks every
+ * occurrence before booking so the booking UI can show which dates are
+ * taken, and reports occurrences that were skipped.
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import { requestPaymentSync } from '@/lib/payments/requestPaymentSync';
+import type {
+  AppointmentSeriesResult,
+  SeriesOccurrence,
+} from '@/services/firestore/interfaces/IAppointmentRepository';
+import { toast } from 'sonner';
+import type { CreateAppointmentSeriesInput } from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseAppointmentSeriesReturn {
+  /**
+   * Check every occurrence of a series without booking it
+   */
+  previewSeries: (input: CreateAppointmentSeriesInput) => Promise<SeriesOccurrence[] | null>;
+
+  /**
+   * Book every free occurrence of a series
+   */
+  createSeries: (input: CreateAppointmentSeriesInput) => Promise<AppointmentSeriesResult | null>;
+
+  /**
+   * Occurrences from the last preview
+   */
+  occurrences: SeriesOccurrence[];
+
+  /**
+   * Whether a preview is in progress
+   */
+  previewing: boolean;
+
+  /**
+   * Whether a booking is in progress
+   */
+  loading: boolean;
+
+  /**
+   * Error message if the last attempt failed
+   */
+  error: string | null;
+}
+
+/**
+ * Hook for booking recurring appointment series
+ *
+ * @returns {UseAppointmentSeriesReturn} Preview and create functions, last preview, loading states, and error
+ */
+export function useAppointmentSeries(): UseAppointmentSeriesReturn {
+  const [occurrences, setOccurrences] = useState<SeriesOccurrence[]>([]);
+  const [previewing, setPreviewing] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const previewSeries = useCallback(async (
+    input: CreateAppointmentSeriesInput
+  ): Promise<SeriesOccurrence[] | null> => {
+    setPreviewing(true);
+    setError(null);
+
+    try {
+      const preview = await appointmentRepository.previewAppointmentSeries(input);
+      setOccurrences(preview);
+      return preview;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to check series dates';
+      setError(errorMessage);
+      setOccurrences([]);
+      console.error('Error previewing appointment series:', err);
+      return null;
+    } finally {
+      setPreviewing(false);
+    }
+  }, []);
+
+  const createSeries = useCallback(async (
+    input: CreateAppointmentSeriesInput
+  ): Promise<AppointmentSeriesResult | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await appointmentRepository.createAppointmentSeries(input);
+      void requestPaymentSync(result.appointments.map((appointment) => appointment.id));
+      const booked = `${result.appointments.length} appointments booked`;
+      if (result.skipped.length > 0) {
+        toast.warning(`${booked}. ${result.skipped.length} dates were unavailable and skipped.`);
+      } else {
+        toast.success(`${booked} successfully!`);
+      }
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to book appointment series';
+      setError(errorMessage);
+      toast.error(errorMessage);
+      console.error('Error creating appointment series:', err);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    previewSeries,
+    createSeries,
+    occurrences,
+    previewing,
+    loading,
+    error,
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * useCancelAppointment hook
+ *
+ * Mutation hook for cancelling appointments under the cancellation policy,
+ * alone or with the following or all upcoming appointments of their series.
+ * Handles loading and error states with toast notifications, and tells the
+ * user when late-cancellation fees were recorded.
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import { requestPaymentSync } from '@/lib/payments/requestPaymentSync';
+import { formatPrice } from '@/lib/utils';
+import { toast } from 'sonner';
+import type { AppointmentDocument, SeriesScope } from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseCancelAppointmentReturn {
+  /**
+   * Cancel an appointment, or the part of its series given by scope
+   */
+  cancelAppointment: (
+    appointmentId: string,
+    cancelledBy: 'client' | 'practitioner',
+    scope?: SeriesScope
+  ) => Promise<AppointmentDocument[] | null>;
+
+  /**
+   * Whether a cancellation is in progress
+   */
+  loading: boolean;
+
+  /**
+   * Error message if cancellation failed
+   */
+  error: string | null;
+}
+
+/**
+ * Hook for cancelling appointments
+ *
+ * @returns {UseCancelAppointmentReturn} Cancel function, loading state, and error
+ */
+export function useCancelAppointment(): UseCancelAppointmentReturn {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const cancelAppointment = useCallback(async (
+    appointmentId: string,
+    cancelledBy: 'client' | 'practitioner',
+    scope: SeriesScope = 'this'
+  ): Promise<AppointmentDocument[] | null> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const appointments = scope === 'this'
+        ? [await appointmentRepository.cancelAppointment(appointmentId, cancelledBy)]
+        : await appointmentRepository.updateAppointmentSeriesStatus(
+          appointmentId,
+          scope,
+          'cancelled',
+          cancelledBy
+        );
+      void requestPaymentSync(appointments.map((appointment) => appointment.id));
+
+      const cancelled = appointments.length === 1
+        ? 'Appointment cancelled'
+        : `${appointments.length} appointments cancelled`;
+      const feeOwed = appointments.reduce((total, appointment) => total + (appointment.feeOwed ?? 0), 0);
+      const currency = appointments.find((appointment) => appointment.feeOwed)?.currency;
+      if (feeOwed > 0 && currency) {
+        toast.success(
+          `${cancelled}. A late cancellation fee of ${formatPrice(feeOwed, currency)} applies.`
+        );
+      } else {
+        toast.success(cancelled);
+      }
+
+      return appointments;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to cancel appointment';
+      setError(errorMessage);
+      toast.error(errorMessage);
+      console.error('Error cancelling appointment:', err);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  return {
+    cancelAppointment,
+    loading,
+    error,
+  };
+}
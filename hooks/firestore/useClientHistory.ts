@@ -0,0 +1,102 @@
+/**
+ * useClientHistory hook
+ *
+ * Loads a client's appointments with one practitioner, to tell whether the
+ * client is new to that practitioner and which rate to show when booking
+ * (the payment sync prices the booking again on the server). Uses
+ * AppointmentRepository.listAppointments.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import { isReturningClient } from '@/lib/scheduling/pricing';
+import type { AppointmentDocument } from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseClientHistoryReturn {
+  /**
+   * The client's appointments with the practitioner (any status)
+   */
+  appointments: AppointmentDocument[];
+
+  /**
+   * Whether the client has no non-cancelled appointments with the practitioner
+   */
+  isNewClient: boolean;
+
+  /**
+   * Whether the client has completed a session with the practitioner
+   * (follow-up pricing applies)
+   */
+  isReturningClient: boolean;
+
+  /**
+   * Whether the history is being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Error message if loading failed
+   */
+  error: string | null;
+
+  /**
+   * Reload the history
+   */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for a client's booking history with a practitioner
+ *
+ * @param clientId - Client's Firebase Auth UID (null when signed out)
+ * @param practitionerId - Practitioner's Firebase Auth UID (null while loading)
+ * @returns {UseClientHistoryReturn} Appointments, new/returning flags, loading state, error, and refresh function
+ */
+export function useClientHistory(
+  clientId: string | null,
+  practitionerId: string | null
+): UseClientHistoryReturn {
+  const [appointments, setAppointments] = useState<AppointmentDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = async () => {
+    if (!clientId || !practitionerId) {
+      setAppointments([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const history = await appointmentRepository.listAppointments({ clientId, practitionerId });
+      setAppointments(history);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load appointment history';
+      setError(errorMessage);
+      console.error('Error fetching client history:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchHistory();
+  }, [clientId, practitionerId]);
+
+  return {
+    appointments,
+    isNewClient: !appointments.some((appointment) => appointment.status !== 'cancelled'),
+    isReturningClient: isReturningClient(appointments),
+    loading,
+    error,
+    refresh: fetchHistory,
+  };
+}
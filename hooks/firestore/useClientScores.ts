@@ -0,0 +1,92 @@
+/**
+ * useClientScores hook
+ *
+ * Fetches a client's scored questionnaires for a practitioner, oldest
+ * first, so the practitioner can follow the client's scores over time.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { intakeFormRepository } from '@/services/firestore/repositories/IntakeFormRepository';
+import type { IntakeFormDocument } from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseClientScoresReturn {
+  /**
+   * Submitted questionnaires with their scores, oldest first
+   */
+  forms: IntakeFormDocument[];
+
+  /**
+   * Whether the scores are being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Error message if loading failed
+   */
+  error: string | null;
+}
+
+/**
+ * Hook for a client's questionnaire scores
+ *
+ * @param practitionerId - Practitioner's Firebase Auth UID (null to fetch nothing)
+ * @param clientId - Client's Firebase Auth UID (null to fetch nothing)
+ * @returns {UseClientScoresReturn} Scored forms, loading state, and error
+ */
+export function useClientScores(
+  practitionerId: string | null | undefined,
+  clientId: string | null | undefined
+): UseClientScoresReturn {
+  const [forms, setForms] = useState<IntakeFormDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!practitionerId || !clientId) {
+      setForms([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchScores = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const scored = await intakeFormRepository.listClientScores(practitionerId, clientId);
+        if (!cancelled) {
+          setForms(scored);
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load scores';
+        console.error('Error fetching questionnaire scores:', err);
+        if (!cancelled) {
+          setError(errorMessage);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchScores();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [practitionerId, clientId]);
+
+  return {
+    forms,
+    loading,
+    error,
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * useClientSessions hook
+ *
+ * Fetches a practitioner's session notes for a client, oldest first, for a
+ * timeline of the client's sessions, with what the client has done with the
+ * homework of finalized sessions.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { sessionRepository } from '@/services/firestore/repositories/SessionRepository';
+import type { SessionDocument, SharedSessionDocument } from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseClientSessionsReturn {
+  /**
+   * The client's sessions, oldest first
+   */
+  sessions: SessionDocument[];
+
+  /**
+   * Shared parts of the finalized sessions, by session ID
+   */
+  shared: Record<string, SharedSessionDocument>;
+
+  /**
+   * Whether the sessions are being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Error message if loading failed
+   */
+  error: string | null;
+}
+
+/**
+ * Hook for a client's session timeline
+ *
+ * @param practitionerId - Practitioner's Firebase Auth UID (null to fetch nothing)
+ * @param clientId - Client's Firebase Auth UID (null to fetch nothing)
+ * @returns {UseClientSessionsReturn} Sessions, shared sessions, loading state, and error
+ */
+export function useClientSessions(
+  practitionerId: string | null | undefined,
+  clientId: string | null | undefined
+): UseClientSessionsReturn {
+  const [sessions, setSessions] = useState<SessionDocument[]>([]);
+  const [shared, setShared] = useState<Record<string, SharedSessionDocument>>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!practitionerId || !clientId) {
+      setSessions([]);
+      setShared({});
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchSessions = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const [history, sharedSessions] = await Promise.all([
+          sessionRepository.listClientSessions(practitionerId, clientId),
+          sessionRepository.listSharedSessions(clientId, practitionerId),
+        ]);
+        if (!cancelled) {
+          setSessions(history);
+          setShared(Object.fromEntries(sharedSessions.map((item) => [item.id, item])));
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load sessions';
+        console.error('Error fetching client sessions:', err);
+        if (!cancelled) {
+          setError(errorMessage);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchSessions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [practitionerId, clientId]);
+
+  return {
+    sessions,
+    shared,
+    loading,
+    error,
+  };
+}
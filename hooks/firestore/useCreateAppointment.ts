@@ -2,13 +2,16 @@
  * useCreateAppointment hook
  * 
  * Mutation hook for creating new appointments in Firestore.
- * Handles loading and error states with toast notifications.
+ * Handles loading and error states with toast notifications, and exposes
+ * slot conflicts separately so the booking UI can refresh availability.
  */
 
 'use client';
 
 import { useState, useCallback } from 'react';
 import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import { SlotUnavailableError } from '@/services/firestore/errors';
+import { requestPaymentSync } from '@/lib/payments/requestPaymentSync';
 import { toast } from 'sonner';
 import type { AppointmentDocument } from '@/types/firestore';
 import type { CreateAppointmentInput } from '@/types/firestore';
@@ -31,30 +34,41 @@ interface UseCreateAppointmentReturn {
    * Error message if creation failed
    */
   error: string | null;
+
+  /**
+   * Set when the last attempt failed because the slot was already taken
+   */
+  conflict: SlotUnavailableError | null;
 }
 
 /**
  * Hook for creating appointments
  * 
- * @returns {UseCreateAppointmentReturn} Create function, loading state, and error
+ * @returns {UseCreateAppointmentReturn} Create function, loading state, error, and slot conflict
  */
 export function useCreateAppointment(): UseCreateAppointmentReturn {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<SlotUnavailableError | null>(null);
 
   const createAppointment = useCallback(async (
     input: CreateAppointmentInput
   ): Promise<AppointmentDocument | null> => {
     setLoading(true);
     setError(null);
+    setConflict(null);
 
     try {
       const appointment = await appointmentRepository.createAppointment(input);
+      void requestPaymentSync([appointment.id]);
       toast.success('Appointment booked successfully!');
       return appointment;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to create appointment';
       setError(errorMessage);
+      if (err instanceof SlotUnavailableError) {
+        setConflict(err);
+      }
       toast.error(errorMessage);
       console.error('Error creating appointment:', err);
       return null;
@@ -67,6 +81,7 @@ export function useCreateAppointment(): UseCreateAppointmentReturn {
     createAppointment,
     loading,
     error,
+    conflict,
   };
 }
 
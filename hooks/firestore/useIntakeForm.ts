@@ -0,0 +1,88 @@
+/**
+ * useIntakeForm hook
+ *
+ * Fetches a single intake form (template or submitted form) by ID from
+ * Firestore.
+ */
+
+'use client';
+
+import { useState, useEffect } from 'react';
+import { intakeFormRepository } from '@/services/firestore/repositories/IntakeFormRepository';
+import type { IntakeFormDocument } from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseIntakeFormReturn {
+  /**
+   * Intake form document from Firestore
+   */
+  form: IntakeFormDocument | null;
+
+  /**
+   * Whether the form is being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Error message if loading failed
+   */
+  error: string | null;
+}
+
+/**
+ * Hook for fetching an intake form by ID
+ *
+ * @param formId - Intake form document ID (null to fetch nothing)
+ * @returns {UseIntakeFormReturn} Intake form document, loading state, and error
+ */
+export function useIntakeForm(formId: string | null | undefined): UseIntakeFormReturn {
+  const [form, setForm] = useState<IntakeFormDocument | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!formId) {
+      setForm(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchForm = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const formDoc = await intakeFormRepository.getForm(formId);
+        if (!cancelled) {
+          setForm(formDoc);
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load intake form';
+        console.error('Error fetching intake form:', err);
+        if (!cancelled) {
+          setError(errorMessage);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchForm();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [formId]);
+
+  return {
+    form,
+    loading,
+    error,
+  };
+}
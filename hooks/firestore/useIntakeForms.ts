@@ -0,0 +1,155 @@
+/**
+ * useIntakeForms hook
+ *
+ * Subscribes to a practitioner's intake form templates in realtime and
+ * provides the builder actions: creating and updating templates, and
+ * making them available to clients or withdrawing them.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { intakeFormRepository } from '@/services/firestore/repositories/IntakeFormRepository';
+import { toast } from 'sonner';
+import type {
+  CreateIntakeFormTemplateInput,
+  IntakeFormDocument,
+  UpdateIntakeFormTemplateInput,
+} from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseIntakeFormsReturn {
+  /**
+   * Practitioner's templates, newest first
+   */
+  templates: IntakeFormDocument[];
+
+  /**
+   * Whether the templates are being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Create a template
+   */
+  createTemplate: (input: CreateIntakeFormTemplateInput) => Promise<IntakeFormDocument | null>;
+
+  /**
+   * Update a template
+   */
+  updateTemplate: (
+    formId: string,
+    input: UpdateIntakeFormTemplateInput
+  ) => Promise<IntakeFormDocument | null>;
+
+  /**
+   * Make a template available to clients, or withdraw it
+   */
+  setTemplateActive: (formId: string, isActive: boolean) => Promise<boolean>;
+
+  /**
+   * Whether an action is in progress
+   */
+  submitting: boolean;
+}
+
+/**
+ * Hook for a practitioner's intake form templates
+ *
+ * @param practitionerId - Practitioner's Firebase Auth UID (null while signed out)
+ * @returns {UseIntakeFormsReturn} Templates, loading state, and builder actions
+ */
+export function useIntakeForms(practitionerId: string | null | undefined): UseIntakeFormsReturn {
+  const [templates, setTemplates] = useState<IntakeFormDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!practitionerId) {
+      setTemplates([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = intakeFormRepository.subscribeToTemplates(
+      practitionerId,
+      (updatedTemplates) => {
+        setTemplates(updatedTemplates);
+        setLoading(false);
+      }
+    );
+
+    return () => {
+      unsubscribe();
+    };
+  }, [practitionerId]);
+
+  /**
+   * Run a builder action with the shared submitting state and error toast
+   */
+  const run = useCallback(async <T>(
+    action: () => Promise<T>,
+    successMessage: string,
+    failureMessage: string
+  ): Promise<T | null> => {
+    setSubmitting(true);
+
+    try {
+      const result = await action();
+      toast.success(successMessage);
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : failureMessage;
+      toast.error(errorMessage);
+      console.error('Error saving intake form:', err);
+      return null;
+    } finally {
+      setSubmitting(false);
+    }
+  }, []);
+
+  const createTemplate = useCallback(
+    (input: CreateIntakeFormTemplateInput) =>
+      run(
+        () => intakeFormRepository.createTemplate(input),
+        'Intake form created',
+        'Failed to create intake form'
+      ),
+    [run]
+  );
+
+  const updateTemplate = useCallback(
+    (formId: string, input: UpdateIntakeFormTemplateInput) =>
+      run(
+        () => intakeFormRepository.updateTemplate(formId, input),
+        'Intake form saved',
+        'Failed to save intake form'
+      ),
+    [run]
+  );
+
+  const setTemplateActive = useCallback(
+    async (formId: string, isActive: boolean) =>
+      (await run(
+        async () => {
+          await intakeFormRepository.setTemplateActive(formId, isActive);
+          return true;
+        },
+        isActive ? 'Intake form is now available to clients' : 'Intake form deactivated',
+        'Failed to update intake form'
+      )) ?? false,
+    [run]
+  );
+
+  return {
+    templates,
+    loading,
+    createTemplate,
+    updateTemplate,
+    setTemplateActive,
+    submitting,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * useInvoiceDownload hook
+ *
+ * Loads the invoice of a paid appointment and saves it as a PDF or opens it
+ * as a printable page. Used by both dashboards; the invoice rules only let
+ * its client and practitioner read it. Handles loading and error states
+ * with toast notifications.
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { invoiceRepository } from '@/services/firestore/repositories/InvoiceRepository';
+import { getInvoiceFileName } from '@/lib/invoices/invoices';
+import { renderInvoiceHtml } from '@/lib/invoices/invoiceHtml';
+import { renderInvoicePdf } from '@/lib/invoices/invoicePdf';
+import { toast } from 'sonner';
+import type { InvoiceDocument } from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseInvoiceDownloadReturn {
+  /**
+   * Save an invoice as a PDF file
+   */
+  downloadPdf: (invoiceId: string) => Promise<void>;
+
+  /**
+   * Open an invoice in a new window and print it
+   */
+  printInvoice: (invoiceId: string) => Promise<void>;
+
+  /**
+   * Whether an invoice is being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Error message if loading failed
+   */
+  error: string | null;
+}
+
+/**
+ * Hook for downloading and printing invoices
+ *
+ * @returns {UseInvoiceDownloadReturn} Download and print functions, loading state, and error
+ */
+export function useInvoiceDownload(): UseInvoiceDownloadReturn {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const run = useCallback(async (
+    invoiceId: string,
+    action: (invoice: InvoiceDocument) => void
+  ): Promise<boolean> => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const invoice = await invoiceRepository.getInvoice(invoiceId);
+      if (!invoice) {
+        throw new Error('Invoice not found');
+      }
+      action(invoice);
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load invoice';
+      setError(errorMessage);
+      toast.error(errorMessage);
+      console.error('Error loading invoice:', err);
+      return false;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const downloadPdf = useCallback(async (invoiceId: string) => {
+    await run(invoiceId, (invoice) => {
+      const blob = new Blob([renderInvoicePdf(invoice) as BlobPart], { type: 'application/pdf' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getInvoiceFileName(invoice);
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+  }, [run]);
+
+  const printInvoice = useCallback(async (invoiceId: string) => {
+    // Opened before loading so the browser treats it as part of the click
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      toast.error('Allow pop-ups for this site to print invoices');
+      return;
+    }
+
+    const printed = await run(invoiceId, (invoice) => {
+      printWindow.document.write(renderInvoiceHtml(invoice));
+      printWindow.document.close();
+      printWindow.focus();
+      printWindow.print();
+    });
+    if (!printed) {
+      printWindow.close();
+    }
+  }, [run]);
+
+  return {
+    downloadPdf,
+    printInvoice,
+    loading,
+    error,
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * useNotifications hook
+ *
+ * Subscribes to a user's unread notifications in realtime and lets them be
+ * dismissed (marked as read).
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { notificationRepository } from '@/services/firestore/repositories/NotificationRepository';
+import { toast } from 'sonner';
+import type { NotificationDocument } from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseNotificationsReturn {
+  /**
+   * Unread notifications, newest first
+   */
+  notifications: NotificationDocument[];
+
+  /**
+   * Whether the notifications are being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Mark a notification as read, removing it from the list
+   */
+  markAsRead: (notificationId: string) => Promise<void>;
+}
+
+/**
+ * Hook for a user's unread notifications
+ *
+ * @param userId - Recipient's UID (null while signed out)
+ * @returns {UseNotificationsReturn} Notifications, loading state, and mark-as-read function
+ */
+export function useNotifications(userId: string | null | undefined): UseNotificationsReturn {
+  const [notifications, setNotifications] = useState<NotificationDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setNotifications([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = notificationRepository.subscribeToNotifications(
+      userId,
+      (updatedNotifications) => {
+        setNotifications(updatedNotifications);
+        setLoading(false);
+      },
+      { unreadOnly: true }
+    );
+
+    return () => {
+      unsubscribe();
+    };
+  }, [userId]);
+
+  const markAsRead = useCallback(async (notificationId: string) => {
+    try {
+      await notificationRepository.markNotificationRead(notificationId);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to dismiss notification';
+      toast.error(errorMessage);
+      console.error('Error marking notification as read:', err);
+    }
+  }, []);
+
+  return {
+    notifications,
+    loading,
+    markAsRead,
+  };
+}
@@ -0,0 +1,144 @@
+/**
+ * usePractitionerAvailability hook
+ *
+ * Loads a practitioner's busy times for the booking window and computes the
+ * open slots using the availability engine. Slots are generated in the
+ * practitioner's time zone and grouped by day in the viewer's zone.
+ */
+
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { addDays, startOfDay } from 'date-fns';
+import { Timestamp } from 'firebase/firestore';
+import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import {
+  DEFAULT_MAX_BOOKING_ADVANCE_DAYS,
+  getAvailableSlots,
+  groupSlotsByDay,
+  type TimeSlot,
+} from '@/lib/scheduling/availability';
+import { getBrowserTimeZone } from '@/lib/scheduling/timezone';
+import type { BusyInterval } from '@/services/firestore/interfaces/IAppointmentRepository';
+import type { PractitionerDocument } from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UsePractitionerAvailabilityReturn {
+  /**
+   * All open slots in the booking window, sorted by start time
+   */
+  slots: TimeSlot[];
+
+  /**
+   * Open slots grouped by "yyyy-MM-dd" day key in the viewer's time zone
+   */
+  slotsByDay: Map<string, TimeSlot[]>;
+
+  /**
+   * IANA time zone of the viewer (the browser), used for grouping and display
+   */
+  timeZone: string;
+
+  /**
+   * Whether busy times are being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Error message if loading failed
+   */
+  error: string | null;
+
+  /**
+   * Reload busy times and recompute slots
+   */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for computing a practitioner's bookable slots
+ *
+ * @param practitioner - Practitioner document (null while loading)
+ * @param duration - Session length in minutes (default: practitioner.sessionDuration)
+ * @param rescheduling - Appointment being moved, whose current time is not treated as busy
+ * @returns {UsePractitionerAvailabilityReturn} Open slots, loading state, error, and refresh function
+ */
+export function usePractitionerAvailability(
+  practitioner: PractitionerDocument | null,
+  duration?: number,
+  rescheduling?: BusyInterval | null
+): UsePractitionerAvailabilityReturn {
+  const [busyTimes, setBusyTimes] = useState<BusyInterval[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const timeZone = useMemo(() => getBrowserTimeZone(), []);
+
+  const windowDays =
+    practitioner?.availabilityRules.maxBookingAdvance ?? DEFAULT_MAX_BOOKING_ADVANCE_DAYS;
+
+  const fetchBusyTimes = async () => {
+    if (!practitioner) {
+      setBusyTimes([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      const today = startOfDay(new Date());
+      const busy = await appointmentRepository.listPractitionerBusyTimes(
+        practitioner.uid,
+        Timestamp.fromDate(addDays(today, -1)),
+        Timestamp.fromDate(addDays(today, windowDays + 2))
+      );
+      setBusyTimes(busy);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load availability';
+      setError(errorMessage);
+      console.error('Error fetching practitioner availability:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchBusyTimes();
+  }, [practitioner?.uid, windowDays]);
+
+  const slots = useMemo(() => {
+    if (!practitioner) {
+      return [];
+    }
+
+    // The engine caps the window in the practitioner's zone; the extra day
+    // covers viewers whose local date is behind the practitioner's
+    const today = startOfDay(new Date());
+    const busy = rescheduling
+      ? busyTimes.filter(
+          (interval) =>
+            interval.startTime.toMillis() !== rescheduling.startTime.toMillis() ||
+            interval.endTime.toMillis() !== rescheduling.endTime.toMillis()
+        )
+      : busyTimes;
+    return getAvailableSlots(practitioner, busy, {
+      rangeStart: today,
+      rangeEnd: addDays(today, windowDays + 1),
+      duration,
+    });
+  }, [practitioner, busyTimes, windowDays, duration, rescheduling]);
+
+  const slotsByDay = useMemo(() => groupSlotsByDay(slots, timeZone), [slots, timeZone]);
+
+  return {
+    slots,
+    slotsByDay,
+    timeZone,
+    loading,
+    error,
+    refresh: fetchBusyTimes,
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * useRescheduleAppointment hook
+ *
+ * Mutation hook for moving appointments to a new time and for answering
+ * reschedule requests, alone or with the following or all upcoming
+ * appointments of their series. Handles loading and error states with toast
+ * notifications, and exposes slot and series conflicts separately so the UI
+ * can refresh availability.
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import { SeriesConflictError, SlotUnavailableError } from '@/services/firestore/errors';
+import { toast } from 'sonner';
+import type {
+  AppointmentDocument,
+  RescheduleAppointmentInput,
+  SeriesScope,
+} from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseRescheduleAppointmentReturn {
+  /**
+   * Move an appointment, or ask the practitioner to when their policy requires approval
+   */
+  rescheduleAppointment: (
+    appointmentId: string,
+    input: RescheduleAppointmentInput
+  ) => Promise<AppointmentDocument | null>;
+
+  /**
+   * Move an appointment and the part of its series given by scope by the same change
+   */
+  rescheduleAppointmentSeries: (
+    appointmentId: string,
+    scope: SeriesScope,
+    input: RescheduleAppointmentInput
+  ) => Promise<AppointmentDocument[] | null>;
+
+  /**
+   * Accept or decline (or withdraw) a pending reschedule request
+   */
+  respondToRescheduleRequest: (
+    appointmentId: string,
+    accept: boolean
+  ) => Promise<AppointmentDocument | null>;
+
+  /**
+   * Whether a reschedule is in progress
+   */
+  loading: boolean;
+
+  /**
+   * Error message if the last attempt failed
+   */
+  error: string | null;
+
+  /**
+   * Set when the last attempt failed because the new time was already taken
+   */
+  conflict: SlotUnavailableError | null;
+
+  /**
+   * Set when the last series move failed because some new times were taken
+   */
+  seriesConflict: SeriesConflictError | null;
+}
+
+/**
+ * Hook for rescheduling appointments
+ *
+ * @returns {UseRescheduleAppointmentReturn} Reschedule and respond functions, loading state, error, and slot and series conflicts
+ */
+export function useRescheduleAppointment(): UseRescheduleAppointmentReturn {
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conflict, setConflict] = useState<SlotUnavailableError | null>(null);
+  const [seriesConflict, setSeriesConflict] = useState<SeriesConflictError | null>(null);
+
+  const run = useCallback(async <T>(
+    action: () => Promise<T>,
+    successMessage: (result: T) => string
+  ): Promise<T | null> => {
+    setLoading(true);
+    setError(null);
+    setConflict(null);
+    setSeriesConflict(null);
+
+    try {
+      const result = await action();
+      toast.success(successMessage(result));
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to reschedule appointment';
+      setError(errorMessage);
+      if (err instanceof SlotUnavailableError) {
+        setConflict(err);
+      }
+      if (err instanceof SeriesConflictError) {
+        setSeriesConflict(err);
+      }
+      toast.error(errorMessage);
+      console.error('Error rescheduling appointment:', err);
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const rescheduleAppointment = useCallback((
+    appointmentId: string,
+    input: RescheduleAppointmentInput
+  ) => run(
+    () => appointmentRepository.rescheduleAppointment(appointmentId, input),
+    (appointment) => appointment.pendingReschedule
+      ? 'Reschedule request sent to your practitioner'
+      : 'Appointment rescheduled'
+  ), [run]);
+
+  const rescheduleAppointmentSeries = useCallback((
+    appointmentId: string,
+    scope: SeriesScope,
+    input: RescheduleAppointmentInput
+  ) => run(
+    () => appointmentRepository.rescheduleAppointmentSeries(appointmentId, scope, input),
+    (appointments) => appointments.some((appointment) => appointment.pendingReschedule)
+      ? 'Reschedule requests sent to your practitioner'
+      : `${appointments.length === 1 ? 'Appointment' : `${appointments.length} appointments`} rescheduled`
+  ), [run]);
+
+  const respondToRescheduleRequest = useCallback((
+    appointmentId: string,
+    accept: boolean
+  ) => run(
+    () => appointmentRepository.respondToRescheduleRequest(appointmentId, accept),
+    () => accept ? 'Appointment rescheduled' : 'Appointment kept at its current time'
+  ), [run]);
+
+  return {
+    rescheduleAppointment,
+    rescheduleAppointmentSeries,
+    respondToRescheduleRequest,
+    loading,
+    error,
+    conflict,
+    seriesConflict,
+  };
+}
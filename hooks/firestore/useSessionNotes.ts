@@ -0,0 +1,250 @@
+/**
+ * useSessionNotes hook
+ *
+ * Loads a practitioner's appointment, its session notes and, while they are
+ * a draft, the plan from the client's previous session so it can be carried
+ * forward; once they are finalized, what the client has done with the
+ * homework shared with them.
+ * Provides actions to start the notes, save draft changes and finalize
+ * them, with loading and error states. Draft saves are silent so they can
+ * run as the practitioner types; failures and the other actions show toast
+ * notifications.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import { sessionRepository } from '@/services/firestore/repositories/SessionRepository';
+import { getPreviousPlan } from '@/lib/sessions/noteTemplates';
+import { toast } from 'sonner';
+import type {
+  AppointmentDocument,
+  SessionDocument,
+  SharedSessionDocument,
+  UpdateSessionInput,
+} from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseSessionNotesReturn {
+  /**
+   * Appointment the notes are for
+   */
+  appointment: AppointmentDocument | null;
+
+  /**
+   * The appointment's session notes (null until started)
+   */
+  session: SessionDocument | null;
+
+  /**
+   * The goals and homework shared with the client, with the homework they
+   * have done and their reflections (null until the notes are finalized)
+   */
+  shared: SharedSessionDocument | null;
+
+  /**
+   * Plan written in the client's previous session (null if there is none,
+   * or the notes are finalized)
+   */
+  previousPlan: string | null;
+
+  /**
+   * Whether the appointment and notes are being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Error message if loading failed
+   */
+  error: string | null;
+
+  /**
+   * Start the appointment's notes
+   */
+  startSession: () => Promise<SessionDocument | null>;
+
+  /**
+   * Save changes to the draft notes
+   */
+  saveDraft: (input: UpdateSessionInput) => Promise<SessionDocument | null>;
+
+  /**
+   * Finalize the notes, locking them
+   */
+  finalizeSession: () => Promise<SessionDocument | null>;
+
+  /**
+   * Whether a draft save is in progress
+   */
+  saving: boolean;
+
+  /**
+   * Whether starting or finalizing is in progress
+   */
+  submitting: boolean;
+}
+
+/**
+ * Hook for writing an appointment's session notes
+ *
+ * @param appointmentId - Appointment document ID
+ * @param practitionerId - Signed-in practitioner's UID (null while signed out)
+ * @returns {UseSessionNotesReturn} Appointment, session, shared session, previous plan, loading
+ *   state, and note actions
+ */
+export function useSessionNotes(
+  appointmentId: string,
+  practitionerId: string | null | undefined
+): UseSessionNotesReturn {
+  const [appointment, setAppointment] = useState<AppointmentDocument | null>(null);
+  const [session, setSession] = useState<SessionDocument | null>(null);
+  const [shared, setShared] = useState<SharedSessionDocument | null>(null);
+  const [previousPlan, setPreviousPlan] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!practitionerId) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchSession = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const appointmentDoc = await appointmentRepository.getAppointment(appointmentId);
+        if (!appointmentDoc || appointmentDoc.practitionerId !== practitionerId) {
+          throw new Error('Appointment not found');
+        }
+
+        const sessionDoc = appointmentDoc.sessionId
+          ? await sessionRepository.getSession(appointmentDoc.sessionId)
+          : null;
+        const sharedDoc =
+          sessionDoc && !sessionDoc.isDraft
+            ? await sessionRepository.getSharedSession(sessionDoc.id)
+            : null;
+        const plan =
+          !sessionDoc || sessionDoc.isDraft
+            ? getPreviousPlan(
+                await sessionRepository.listClientSessions(practitionerId, appointmentDoc.clientId),
+                appointmentDoc.startTime
+              )
+            : null;
+
+        if (!cancelled) {
+          setAppointment(appointmentDoc);
+          setSession(sessionDoc);
+          setShared(sharedDoc);
+          setPreviousPlan(plan);
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load session notes';
+        console.error('Error fetching session notes:', err);
+        if (!cancelled) {
+          setError(errorMessage);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchSession();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [appointmentId, practitionerId]);
+
+  const startSession = useCallback(async (): Promise<SessionDocument | null> => {
+    if (!practitionerId) {
+      return null;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const started = await sessionRepository.startSession(appointmentId, practitionerId);
+      setSession(started);
+      return started;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to start session notes';
+      toast.error(errorMessage);
+      console.error('Error starting session notes:', err);
+      return null;
+    } finally {
+      setSubmitting(false);
+    }
+  }, [appointmentId, practitionerId]);
+
+  const saveDraft = useCallback(async (
+    input: UpdateSessionInput
+  ): Promise<SessionDocument | null> => {
+    if (!session) {
+      return null;
+    }
+
+    setSaving(true);
+
+    try {
+      const saved = await sessionRepository.updateDraft(session.id, input);
+      setSession(saved);
+      return saved;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save session notes';
+      toast.error(errorMessage);
+      console.error('Error saving session notes:', err);
+      return null;
+    } finally {
+      setSaving(false);
+    }
+  }, [session]);
+
+  const finalizeSession = useCallback(async (): Promise<SessionDocument | null> => {
+    if (!session) {
+      return null;
+    }
+
+    setSubmitting(true);
+
+    try {
+      const finalized = await sessionRepository.finalizeSession(session.id);
+      toast.success('Session notes finalized and homework shared with the client');
+      setSession(finalized);
+      setShared(await sessionRepository.getSharedSession(finalized.id));
+      return finalized;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to finalize session notes';
+      toast.error(errorMessage);
+      console.error('Error finalizing session notes:', err);
+      return null;
+    } finally {
+      setSubmitting(false);
+    }
+  }, [session]);
+
+  return {
+    appointment,
+    session,
+    shared,
+    previousPlan,
+    loading,
+    error,
+    startSession,
+    saveDraft,
+    finalizeSession,
+    saving,
+    submitting,
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * useSharedSessions hook
+ *
+ * Fetches the goals and homework practitioners have shared with a client
+ * from their finalized session notes, newest first, and provides the
+ * client's actions: marking homework done and saving their reflections.
+ * The practitioners' own notes are never fetched.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { sessionRepository } from '@/services/firestore/repositories/SessionRepository';
+import { toast } from 'sonner';
+import type { SharedSessionDocument } from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseSharedSessionsReturn {
+  /**
+   * Sessions shared with the client, newest first
+   */
+  sessions: SharedSessionDocument[];
+
+  /**
+   * Whether the sessions are being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Error message if loading failed
+   */
+  error: string | null;
+
+  /**
+   * Mark a homework item done, or not done
+   */
+  setHomeworkCompleted: (sessionId: string, item: string, completed: boolean) => Promise<boolean>;
+
+  /**
+   * Save the client's reflections on a session
+   */
+  saveReflections: (sessionId: string, clientNotes: string) => Promise<boolean>;
+
+  /**
+   * Whether an update is in progress
+   */
+  submitting: boolean;
+}
+
+/**
+ * Hook for a client's shared session homework and reflections
+ *
+ * @param clientId - Signed-in client's UID (null while signed out)
+ * @returns {UseSharedSessionsReturn} Shared sessions, loading state, error, and client actions
+ */
+export function useSharedSessions(clientId: string | null | undefined): UseSharedSessionsReturn {
+  const [sessions, setSessions] = useState<SharedSessionDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!clientId) {
+      setSessions([]);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchSessions = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const shared = await sessionRepository.listSharedSessions(clientId);
+        if (!cancelled) {
+          setSessions(shared);
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Failed to load your sessions';
+        console.error('Error fetching shared sessions:', err);
+        if (!cancelled) {
+          setError(errorMessage);
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchSessions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [clientId]);
+
+  /**
+   * Run an update of one session, replacing it in the list
+   */
+  const run = useCallback(async (
+    action: () => Promise<SharedSessionDocument>,
+    successMessage: string | null,
+    errorMessage: string
+  ): Promise<boolean> => {
+    setSubmitting(true);
+
+    try {
+      const updated = await action();
+      setSessions((current) =>
+        current.map((session) => (session.id === updated.id ? updated : session))
+      );
+      if (successMessage) {
+        toast.success(successMessage);
+      }
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : errorMessage);
+      console.error(`${errorMessage}:`, err);
+      return false;
+    } finally {
+      setSubmitting(false);
+    }
+  }, []);
+
+  const setHomeworkCompleted = useCallback(
+    (sessionId: string, item: string, completed: boolean) =>
+      run(
+        () => sessionRepository.setHomeworkCompleted(sessionId, item, completed),
+        null,
+        'Failed to update homework'
+      ),
+    [run]
+  );
+
+  const saveReflections = useCallback(
+    (sessionId: string, clientNotes: string) =>
+      run(
+        () => sessionRepository.updateClientNotes(sessionId, clientNotes),
+        'Reflections saved',
+        'Failed to save reflections'
+      ),
+    [run]
+  );
+
+  return {
+    sessions,
+    loading,
+    error,
+    setHomeworkCompleted,
+    saveReflections,
+    submitting,
+  };
+}
@@ -1,7 +1,9 @@
 /**
  * useUpdateAppointment hook
  * 
- * Mutation hook for updating appointments in Firestore.
+ * Mutation hook for updating appointments in Firestore, including status
+ * changes (confirm, complete, no-show) through the status state machine,
+ * alone or across the following or all upcoming appointments of a series.
  * Handles loading and error states with toast notifications.
  */
 
@@ -9,10 +11,24 @@
 
 import { useState, useCallback } from 'react';
 import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import { requestPaymentSync } from '@/lib/payments/requestPaymentSync';
 import { toast } from 'sonner';
-import type { AppointmentDocument } from '@/types/firestore';
+import type {
+  AppointmentActor,
+  AppointmentDocument,
+  AppointmentStatus,
+  SeriesScope,
+} from '@/types/firestore';
 import type { UpdateAppointmentInput } from '@/types/firestore';
 
+const statusMessages: Record<AppointmentStatus, string> = {
+  pending: 'Appointment updated',
+  confirmed: 'Appointment confirmed successfully!',
+  cancelled: 'Appointment cancelled',
+  completed: 'Appointment marked as completed',
+  'no-show': 'Appointment marked as a no-show',
+};
+
 /**
  * Hook return type
  */
@@ -21,6 +37,25 @@ interface UseUpdateAppointmentReturn {
    * Update an appointment
    */
   updateAppointment: (appointmentId: string, input: UpdateAppointmentInput) => Promise<AppointmentDocument | null>;
+
+  /**
+   * Move an appointment to a new status
+   */
+  updateAppointmentStatus: (
+    appointmentId: string,
+    status: AppointmentStatus,
+    changedBy: AppointmentActor
+  ) => Promise<AppointmentDocument | null>;
+
+  /**
+   * Move an appointment and the part of its series given by scope to a new status
+   */
+  updateAppointmentSeriesStatus: (
+    appointmentId: string,
+    scope: SeriesScope,
+    status: AppointmentStatus,
+    changedBy: AppointmentActor
+  ) => Promise<AppointmentDocument[] | null>;
   
   /**
    * Whether appointment update is in progress
@@ -36,32 +71,23 @@ interface UseUpdateAppointmentReturn {
 /**
  * Hook for updating appointments
  * 
- * @returns {UseUpdateAppointmentReturn} Update function, loading state, and error
+ * @returns {UseUpdateAppointmentReturn} Update and status functions, loading state, and error
  */
 export function useUpdateAppointment(): UseUpdateAppointmentReturn {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const updateAppointment = useCallback(async (
-    appointmentId: string,
-    input: UpdateAppointmentInput
-  ): Promise<AppointmentDocument | null> => {
+  const run = useCallback(async <T>(
+    action: () => Promise<T>,
+    successMessage: string
+  ): Promise<T | null> => {
     setLoading(true);
     setError(null);
 
     try {
-      const appointment = await appointmentRepository.updateAppointment(appointmentId, input);
-      
-      // Show success message based on what was updated
-      if (input.status === 'confirmed') {
-        toast.success('Appointment confirmed successfully!');
-      } else if (input.status === 'cancelled') {
-        toast.success('Appointment cancelled');
-      } else {
-        toast.success('Appointment updated successfully!');
-      }
-      
-      return appointment;
+      const result = await action();
+      toast.success(successMessage);
+      return result;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update appointment';
       setError(errorMessage);
@@ -73,8 +99,54 @@ export function useUpdateAppointment(): UseUpdateAppointmentReturn {
     }
   }, []);
 
+  const updateAppointment = useCallback((
+    appointmentId: string,
+    input: UpdateAppointmentInput
+  ) => run(
+    () => appointmentRepository.updateAppointment(appointmentId, input),
+    'Appointment updated successfully!'
+  ), [run]);
+
+  const updateAppointmentStatus = useCallback((
+    appointmentId: string,
+    status: AppointmentStatus,
+    changedBy: AppointmentActor
+  ) => run(
+    async () => {
+      const appointment = await appointmentRepository.updateAppointmentStatus(
+        appointmentId,
+        status,
+        changedBy
+      );
+      void requestPaymentSync([appointment.id]);
+      return appointment;
+    },
+    statusMessages[status]
+  ), [run]);
+
+  const updateAppointmentSeriesStatus = useCallback((
+    appointmentId: string,
+    scope: SeriesScope,
+    status: AppointmentStatus,
+    changedBy: AppointmentActor
+  ) => run(
+    async () => {
+      const appointments = await appointmentRepository.updateAppointmentSeriesStatus(
+        appointmentId,
+        scope,
+        status,
+        changedBy
+      );
+      void requestPaymentSync(appointments.map((appointment) => appointment.id));
+      return appointments;
+    },
+    scope === 'this' ? statusMessages[status] : `Series appointments ${status}`
+  ), [run]);
+
   return {
     updateAppointment,
+    updateAppointmentStatus,
+    updateAppointmentSeriesStatus,
     loading,
     error,
   };
@@ -0,0 +1,196 @@
+/**
+ * useWaitlist hook
+ *
+ * Subscribes to a client's waitlist entries or a practitioner's waitlist in
+ * realtime, and provides the waitlist actions: joining, accepting or
+ * declining an offered time, and leaving (or being removed from) the
+ * waitlist. Declining or removing an entry with an open offer cancels the
+ * offer appointment, so the waitlist job can offer the time to the next
+ * client.
+ */
+
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import { requestPaymentSync } from '@/lib/payments/requestPaymentSync';
+import { waitlistRepository } from '@/services/firestore/repositories/WaitlistRepository';
+import { toast } from 'sonner';
+import type {
+  AppointmentDocument,
+  CreateWaitlistEntryInput,
+  WaitlistEntryDocument,
+} from '@/types/firestore';
+
+/**
+ * Hook return type
+ */
+interface UseWaitlistReturn {
+  /**
+   * Entries still waiting or holding an offer, oldest first
+   */
+  entries: WaitlistEntryDocument[];
+
+  /**
+   * Whether the entries are being loaded
+   */
+  loading: boolean;
+
+  /**
+   * Join a practitioner's waitlist
+   */
+  joinWaitlist: (input: CreateWaitlistEntryInput) => Promise<WaitlistEntryDocument | null>;
+
+  /**
+   * Accept the time offered to an entry, sending it to the practitioner as a
+   * booking request
+   */
+  acceptOffer: (entry: WaitlistEntryDocument) => Promise<AppointmentDocument | null>;
+
+  /**
+   * Decline the time offered to an entry, staying on the waitlist
+   */
+  declineOffer: (entry: WaitlistEntryDocument) => Promise<boolean>;
+
+  /**
+   * Take an entry off the waitlist
+   */
+  removeEntry: (
+    entry: WaitlistEntryDocument,
+    removedBy: 'client' | 'practitioner'
+  ) => Promise<boolean>;
+
+  /**
+   * Whether an action is in progress
+   */
+  submitting: boolean;
+}
+
+/**
+ * Hook for waitlist entries and actions
+ *
+ * @param participant - Whether userId is the client or the practitioner of the entries
+ * @param userId - Signed-in user's UID (null while signed out)
+ * @returns {UseWaitlistReturn} Entries, loading state, and waitlist actions
+ */
+export function useWaitlist(
+  participant: 'client' | 'practitioner',
+  userId: string | null | undefined
+): UseWaitlistReturn {
+  const [entries, setEntries] = useState<WaitlistEntryDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!userId) {
+      setEntries([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const unsubscribe = waitlistRepository.subscribeToWaitlist(
+      participant === 'client' ? { clientId: userId } : { practitionerId: userId },
+      (updatedEntries) => {
+        setEntries(
+          updatedEntries.filter((entry) => entry.status === 'waiting' || entry.status === 'offered')
+        );
+        setLoading(false);
+      }
+    );
+
+    return () => {
+      unsubscribe();
+    };
+  }, [participant, userId]);
+
+  /**
+   * Run a waitlist action with the shared submitting state and error toast
+   */
+  const run = useCallback(async <T>(
+    action: () => Promise<T>,
+    successMessage: string,
+    failureMessage: string
+  ): Promise<T | null> => {
+    setSubmitting(true);
+
+    try {
+      const result = await action();
+      toast.success(successMessage);
+      return result;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : failureMessage;
+      toast.error(errorMessage);
+      console.error('Error updating waitlist:', err);
+      return null;
+    } finally {
+      setSubmitting(false);
+    }
+  }, []);
+
+  const joinWaitlist = useCallback(
+    (input: CreateWaitlistEntryInput) =>
+      run(
+        () => waitlistRepository.joinWaitlist(input),
+        "You're on the waitlist. We'll let you know when a matching time opens up.",
+        'Failed to join waitlist'
+      ),
+    [run]
+  );
+
+  const acceptOffer = useCallback(
+    (entry: WaitlistEntryDocument) =>
+      run(
+        async () => {
+          const appointment = await waitlistRepository.acceptOffer(entry.id);
+          void requestPaymentSync([appointment.id]);
+          return appointment;
+        },
+        'Time accepted! Your booking request has been sent to the practitioner.',
+        'Failed to accept offer'
+      ),
+    [run]
+  );
+
+  const declineOffer = useCallback(
+    async (entry: WaitlistEntryDocument) =>
+      (await run(
+        async () => {
+          if (entry.offer) {
+            await appointmentRepository.cancelAppointment(entry.offer.appointmentId, 'client');
+          }
+          await waitlistRepository.returnToWaiting(entry.id);
+          return true;
+        },
+        "Offer declined. You're still on the waitlist.",
+        'Failed to decline offer'
+      )) ?? false,
+    [run]
+  );
+
+  const removeEntry = useCallback(
+    async (entry: WaitlistEntryDocument, removedBy: 'client' | 'practitioner') =>
+      (await run(
+        async () => {
+          if (entry.status === 'offered' && entry.offer) {
+            await appointmentRepository.cancelAppointment(entry.offer.appointmentId, removedBy);
+          }
+          await waitlistRepository.removeEntry(entry.id);
+          return true;
+        },
+        removedBy === 'client' ? 'You have left the waitlist' : 'Removed from waitlist',
+        'Failed to update waitlist'
+      )) ?? false,
+    [run]
+  );
+
+  return {
+    entries,
+    loading,
+    joinWaitlist,
+    acceptOffer,
+    declineOffer,
+    removeEntry,
+    submitting,
+  };
+}
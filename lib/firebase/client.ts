@@ -6,13 +6,16 @@
  * 
  * Uses the getApp/getApps pattern to prevent multiple initializations
  * which is important in Next.js with hot module reloading.
+ *
+ * Set NEXT_PUBLIC_FIREBASE_EMULATOR_HOST (e.g. "localhost") to use the local
+ * Auth and Firestore emulators instead of the project.
  * 
  * @see https://firebase.google.com/docs/web/setup#initialize-sdk
  */
 
 import { getApp, getApps, initializeApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { connectAuthEmulator, getAuth, type Auth } from 'firebase/auth';
+import { connectFirestoreEmulator, getFirestore, type Firestore } from 'firebase/firestore';
 import { firebaseConfig, validateFirebaseConfig } from './config';
 
 /**
@@ -34,6 +37,31 @@ function initializeFirebaseApp() {
   return initializeApp(firebaseConfig);
 }
 
+/**
+ * Default ports of the Firebase emulators
+ */
+export const AUTH_EMULATOR_PORT = 9099;
+const FIRESTORE_EMULATOR_PORT = 8080;
+
+declare global {
+  // Survives hot module reloading, when the instances are already connected
+  var firebaseEmulatorsConnected: boolean | undefined;
+}
+
+/**
+ * Point Auth and Firestore at the local emulators when configured
+ */
+function connectEmulators(firebaseAuth: Auth, firestore: Firestore) {
+  const host = process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST;
+  if (!host || globalThis.firebaseEmulatorsConnected) {
+    return;
+  }
+
+  connectAuthEmulator(firebaseAuth, `http://${host}:${AUTH_EMULATOR_PORT}`, { disableWarnings: true });
+  connectFirestoreEmulator(firestore, host, FIRESTORE_EMULATOR_PORT);
+  globalThis.firebaseEmulatorsConnected = true;
+}
+
 // Initialize Firebase app
 const app = initializeFirebaseApp();
 
@@ -51,6 +79,8 @@ export const auth = getAuth(app);
  */
 export const db = getFirestore(app);
 
+connectEmulators(auth, db);
+
 /**
  * Firebase app instance
  * 
@@ -0,0 +1,47 @@
+/**
+ * ID token verification for API routes that signed-in users call
+ *
+ * The app sends the user's Firebase ID token as `Authorization: Bearer
+ * <token>`. It is checked with the Firebase Auth REST API (accounts:lookup),
+ * which only answers for valid, unexpired tokens of this project, or with
+ * the local Auth emulator when NEXT_PUBLIC_FIREBASE_EMULATOR_HOST is set.
+ * Server-only: never import it from components or hooks.
+ */
+
+import { AUTH_EMULATOR_PORT } from './client';
+import { firebaseConfig } from './config';
+
+/**
+ * Base URL of the Firebase Auth REST API, or of its emulator
+ */
+function getAuthApiUrl(): string {
+  const host = process.env.NEXT_PUBLIC_FIREBASE_EMULATOR_HOST;
+  return host
+    ? `http://${host}:${AUTH_EMULATOR_PORT}/identitytoolkit.googleapis.com/v1`
+    : 'https://identitytoolkit.googleapis.com/v1';
+}
+
+/**
+ * UID of the user whose ID token a request carries
+ *
+ * @returns The UID, or null if the request has no valid ID token
+ */
+export async function getRequestUserId(request: Request): Promise<string | null> {
+  const match = /^Bearer (\S+)$/.exec(request.headers.get('authorization') ?? '');
+  if (!match) {
+    return null;
+  }
+
+  const response = await fetch(`${getAuthApiUrl()}/accounts:lookup?key=${firebaseConfig.apiKey}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ idToken: match[1] }),
+  });
+  if (!response.ok) {
+    return null;
+  }
+
+  const result = await response.json().catch(() => null);
+  const userId: unknown = result?.users?.[0]?.localId;
+  return typeof userId === 'string' ? userId : null;
+}
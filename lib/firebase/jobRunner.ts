@@ -0,0 +1,28 @@
+/**
+ * System account sign-in for server-side work
+ *
+ * API routes that change data no user may change themselves (scheduled
+ * jobs, payments) sign in with the system account given by
+ * JOB_RUNNER_EMAIL and JOB_RUNNER_PASSWORD, whose users document has role
+ * 'system'. Server-only: never import it from components or hooks.
+ */
+
+import { signInWithEmailAndPassword } from 'firebase/auth';
+import { auth } from './client';
+
+/**
+ * Sign in as the system account unless already signed in
+ *
+ * @throws Error if the account is not configured or sign-in fails
+ */
+export async function signInJobRunner(): Promise<void> {
+  const email = process.env.JOB_RUNNER_EMAIL;
+  const password = process.env.JOB_RUNNER_PASSWORD;
+  if (!email || !password) {
+    throw new Error('JOB_RUNNER_EMAIL and JOB_RUNNER_PASSWORD must be set to run jobs');
+  }
+
+  if (auth.currentUser?.email !== email) {
+    await signInWithEmailAndPassword(auth, email, password);
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * Tests for intake form layout and conditions
+ */
+
+import {
+  getIntakeFormPages,
+  getVisibleIntakeFields,
+  getVisibleIntakePages,
+  matchesIntakeCondition,
+} from '../conditions';
+import type { IntakeFormField, IntakeFormSection } from '@/types/firestore';
+
+const sections: IntakeFormSection[] = [
+  { id: 'about', title: 'About you' },
+  {
+    id: 'health',
+    title: 'Health history',
+    showIf: { fieldId: 'seenBefore', operator: 'equals', value: false },
+  },
+];
+
+const fields: IntakeFormField[] = [
+  {
+    id: 'seenBefore',
+    type: 'checkbox',
+    label: 'I have visited before',
+    required: false,
+    sectionId: 'about',
+  },
+  {
+    id: 'concerns',
+    type: 'checkbox',
+    label: 'Concerns',
+    required: false,
+    options: ['Sleep', 'Pain'],
+    sectionId: 'about',
+  },
+  {
+    id: 'painScore',
+    type: 'scale',
+    label: 'How bad is the pain?',
+    required: true,
+    sectionId: 'about',
+    showIf: { fieldId: 'concerns', operator: 'includes', value: 'Pain' },
+  },
+  {
+    id: 'painDetails',
+    type: 'textarea',
+    label: 'Tell us about the pain',
+    required: false,
+    sectionId: 'about',
+    showIf: { fieldId: 'painScore', operator: 'answered' },
+  },
+  { id: 'conditions', type: 'textarea', label: 'Conditions', required: false, sectionId: 'health' },
+];
+
+const ids = (list: IntakeFormField[]) => list.map((field) => field.id);
+
+describe('getIntakeFormPages', () => {
+  it('should put a form without sections on one page', () => {
+    expect(getIntakeFormPages({ fields })).toEqual([{ section: null, fields }]);
+  });
+
+  it('should group questions by section in section order', () => {
+    const pages = getIntakeFormPages({ sections: [...sections].reverse(), fields });
+
+    expect(pages.map((page) => page.section?.id)).toEqual(['health', 'about']);
+    expect(ids(pages[0].fields)).toEqual(['conditions']);
+  });
+});
+
+describe('matchesIntakeCondition', () => {
+  const radio: IntakeFormField = {
+    id: 'contact',
+    type: 'radio',
+    label: 'Preferred contact',
+    required: false,
+    options: ['Email', 'Phone'],
+  };
+
+  it('should compare answers', () => {
+    const condition = { fieldId: 'contact', operator: 'equals' as const, value: 'Phone' };
+
+    expect(matchesIntakeCondition(condition, radio, 'Phone')).toBe(true);
+    expect(matchesIntakeCondition(condition, radio, 'Email')).toBe(false);
+    expect(matchesIntakeCondition({ ...condition, operator: 'notEquals' }, radio, 'Email')).toBe(
+      true
+    );
+  });
+
+  it('should not treat an unanswered question as different from a value', () => {
+    expect(
+      matchesIntakeCondition(
+        { fieldId: 'contact', operator: 'notEquals', value: 'Phone' },
+        radio,
+        undefined
+      )
+    ).toBe(false);
+  });
+
+  it('should treat an unanswered single checkbox as unticked', () => {
+    expect(
+      matchesIntakeCondition(
+        { fieldId: 'seenBefore', operator: 'equals', value: false },
+        fields[0],
+        undefined
+      )
+    ).toBe(true);
+  });
+
+  it('should compare numbers with their stored value', () => {
+    expect(
+      matchesIntakeCondition({ fieldId: 'painScore', operator: 'equals', value: 7 }, fields[2], 7)
+    ).toBe(true);
+  });
+});
+
+describe('getVisibleIntakeFields', () => {
+  const form = { sections, fields };
+
+  it('should hide questions whose condition is not met', () => {
+    expect(ids(getVisibleIntakeFields(form, { seenBefore: true }))).toEqual([
+      'seenBefore',
+      'concerns',
+    ]);
+  });
+
+  it('should show questions whose condition is met', () => {
+    expect(
+      ids(getVisibleIntakeFields(form, { seenBefore: true, concerns: ['Pain'], painScore: 6 }))
+    ).toEqual(['seenBefore', 'concerns', 'painScore', 'painDetails']);
+  });
+
+  it('should hide questions that depend on a hidden question', () => {
+    expect(
+      ids(getVisibleIntakeFields(form, { seenBefore: true, concerns: ['Sleep'], painScore: 6 }))
+    ).toEqual(['seenBefore', 'concerns']);
+  });
+
+  it('should show or hide whole sections', () => {
+    const sectionIds = (values: Record<string, unknown>) =>
+      getVisibleIntakePages(form, values).map((page) => page.section?.id);
+
+    expect(sectionIds({})).toEqual(['about', 'health']);
+    expect(sectionIds({ seenBefore: true })).toEqual(['about']);
+  });
+});
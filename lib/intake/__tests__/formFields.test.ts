@@ -0,0 +1,239 @@
+/**
+ * Tests for intake form field helpers
+ */
+
+import {
+  getIntakeConditionError,
+  getIntakeFieldError,
+  getIntakeTemplateError,
+  normalizeIntakeField,
+} from '../formFields';
+import type { IntakeFormField } from '@/types/firestore';
+
+const field = (overrides: Partial<IntakeFormField> = {}): IntakeFormField => ({
+  id: 'goals',
+  type: 'text',
+  label: 'What would you like to work on?',
+  required: true,
+  ...overrides,
+});
+
+describe('normalizeIntakeField', () => {
+  it('should drop settings the field type does not use', () => {
+    expect(
+      normalizeIntakeField(
+        field({
+          type: 'date',
+          placeholder: 'Pick a date',
+          options: ['A', 'B'],
+          validation: { min: 1, max: 10, pattern: '^\\d+$' },
+        })
+      )
+    ).toEqual({ id: 'goals', type: 'date', label: 'What would you like to work on?', required: true });
+  });
+
+  it('should trim labels and options and drop empty options', () => {
+    expect(
+      normalizeIntakeField(
+        field({ type: 'radio', label: '  Preferred contact ', options: [' Email ', '', 'Phone'] })
+      )
+    ).toEqual({
+      id: 'goals',
+      type: 'radio',
+      label: 'Preferred contact',
+      required: true,
+      options: ['Email', 'Phone'],
+    });
+  });
+
+  it('should keep limits for numbers but not their pattern', () => {
+    expect(
+      normalizeIntakeField(field({ type: 'number', validation: { min: 0, max: 120, pattern: 'x' } }))
+        .validation
+    ).toEqual({ min: 0, max: 120 });
+  });
+});
+
+describe('getIntakeFieldError', () => {
+  it('should accept a valid field', () => {
+    expect(getIntakeFieldError(field({ validation: { min: 2, max: 200, pattern: '^[a-z ]+$' } })))
+      .toBeNull();
+  });
+
+  it('should require a question', () => {
+    expect(getIntakeFieldError(field({ label: '  ' }))).toBe('Enter a question');
+  });
+
+  it('should require two options for choice fields but not checkboxes', () => {
+    expect(getIntakeFieldError(field({ type: 'select', options: ['Only'] }))).toBe(
+      'Add at least two options'
+    );
+    expect(getIntakeFieldError(field({ type: 'checkbox' }))).toBeNull();
+  });
+
+  it('should reject duplicate options', () => {
+    expect(getIntakeFieldError(field({ type: 'radio', options: ['Yes', 'Yes '] }))).toBe(
+      'Options must be different'
+    );
+  });
+
+  it('should reject a minimum above the maximum', () => {
+    expect(getIntakeFieldError(field({ type: 'number', validation: { min: 10, max: 1 } }))).toBe(
+      'Minimum cannot be more than the maximum'
+    );
+  });
+
+  it('should allow negative numbers but not negative lengths', () => {
+    expect(getIntakeFieldError(field({ type: 'number', validation: { min: -5 } }))).toBeNull();
+    expect(getIntakeFieldError(field({ validation: { min: -5 } }))).toBe(
+      'Lengths cannot be negative'
+    );
+  });
+
+  it('should reject an invalid pattern', () => {
+    expect(getIntakeFieldError(field({ validation: { pattern: '([a-z' } }))).toBe(
+      'Pattern is not a valid regular expression'
+    );
+  });
+});
+
+describe('getIntakeTemplateError', () => {
+  it('should require a title and at least one question', () => {
+    expect(getIntakeTemplateError({ title: '', fields: [field()] })).toBe(
+      'Enter a title for the form'
+    );
+    expect(getIntakeTemplateError({ title: 'New client intake', fields: [] })).toBe(
+      'Add at least one question'
+    );
+  });
+
+  it('should report the first invalid question by position', () => {
+    expect(
+      getIntakeTemplateError({
+        title: 'New client intake',
+        fields: [field(), field({ id: 'contact', type: 'select', options: [] })],
+      })
+    ).toBe('Question 2: Add at least two options');
+  });
+
+  it('should reject questions sharing an ID', () => {
+    expect(getIntakeTemplateError({ title: 'New client intake', fields: [field(), field()] })).toBe(
+      'Each question must have its own ID'
+    );
+  });
+});
+
+describe('new field types', () => {
+  it('should check the range of a scale', () => {
+    expect(getIntakeFieldError(field({ type: 'scale' }))).toBeNull();
+    expect(getIntakeFieldError(field({ type: 'scale', validation: { min: 0, max: 20 } }))).toBe(
+      'A scale can have at most 11 points'
+    );
+    expect(getIntakeFieldError(field({ type: 'scale', validation: { min: 1.5 } }))).toBe(
+      'Scale limits must be whole numbers'
+    );
+  });
+
+  it('should require the statement a signature agrees to', () => {
+    expect(getIntakeFieldError(field({ type: 'signature' }))).toBe(
+      'Enter the statement the client signs'
+    );
+    expect(
+      getIntakeFieldError(field({ type: 'signature', description: 'I consent to treatment' }))
+    ).toBeNull();
+  });
+
+  it('should keep descriptions, sections and conditions', () => {
+    expect(
+      normalizeIntakeField(
+        field({
+          description: ' In your own words ',
+          sectionId: 'about',
+          showIf: { fieldId: 'contact', operator: 'answered', value: 'ignored' },
+        })
+      )
+    ).toEqual({
+      ...field(),
+      description: 'In your own words',
+      sectionId: 'about',
+      showIf: { fieldId: 'contact', operator: 'answered' },
+    });
+  });
+});
+
+describe('getIntakeConditionError', () => {
+  const contact = field({ id: 'contact', type: 'radio', options: ['Email', 'Phone'] });
+
+  it('should accept a condition on one of the options', () => {
+    expect(
+      getIntakeConditionError({ fieldId: 'contact', operator: 'equals', value: 'Phone' }, contact)
+    ).toBeNull();
+  });
+
+  it('should reject values and operators the question cannot have', () => {
+    expect(
+      getIntakeConditionError({ fieldId: 'contact', operator: 'equals', value: 'Fax' }, contact)
+    ).toBe("The condition must use one of the question's options");
+    expect(
+      getIntakeConditionError({ fieldId: 'contact', operator: 'includes', value: 'Phone' }, contact)
+    ).toBe('The condition does not suit the question it depends on');
+    expect(getIntakeConditionError({ fieldId: 'contact', operator: 'equals' }, contact)).toBe(
+      'Choose the answer the condition depends on'
+    );
+  });
+});
+
+describe('getIntakeTemplateError with sections and conditions', () => {
+  const sections = [
+    { id: 'about', title: 'About you' },
+    { id: 'health', title: 'Health' },
+  ];
+  const contact = field({
+    id: 'contact',
+    type: 'radio',
+    options: ['Email', 'Phone'],
+    sectionId: 'about',
+  });
+  const phone = field({
+    id: 'phone',
+    type: 'phone',
+    sectionId: 'health',
+    showIf: { fieldId: 'contact', operator: 'equals', value: 'Phone' },
+  });
+
+  it('should accept a condition on an earlier question', () => {
+    expect(
+      getIntakeTemplateError({ title: 'Intake', sections, fields: [contact, phone] })
+    ).toBeNull();
+  });
+
+  it('should require each question to belong to a section', () => {
+    expect(
+      getIntakeTemplateError({
+        title: 'Intake',
+        sections,
+        fields: [contact, { ...phone, sectionId: 'missing' }],
+      })
+    ).toBe('Question 2: Choose a section for the question');
+  });
+
+  it('should reject conditions on later questions', () => {
+    expect(
+      getIntakeTemplateError({
+        title: 'Intake',
+        sections,
+        fields: [{ ...contact, sectionId: 'health' }, { ...phone, sectionId: 'about' }],
+      })
+    ).toBe('Question 2: The condition must refer to an earlier question');
+  });
+
+  it('should require sections to have a title and questions', () => {
+    expect(
+      getIntakeTemplateError({
+        title: 'Intake',
+        sections: [...sections, { id: 'extra', title: 'Extra' }],
+        fields: [contact, phone],
+      })
+    ).toBe('Section 3: Add at least one question to the section');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Tests for the built-in scored questionnaires
+ */
+
+import { getIntakeTemplateError } from '../formFields';
+import { INTAKE_QUESTIONNAIRES, getIntakeQuestionnaire } from '../questionnaires';
+import { getIntakeScoringError, getMaxIntakeScore, scoreIntakeResponses } from '../scoring';
+
+describe('INTAKE_QUESTIONNAIRES', () => {
+  it.each(INTAKE_QUESTIONNAIRES.map((questionnaire) => [questionnaire.name, questionnaire]))(
+    '%s should be a valid scored template',
+    (_name, questionnaire) => {
+      expect(getIntakeTemplateError(questionnaire)).toBeNull();
+      expect(getIntakeScoringError(questionnaire.scoring, questionnaire.fields)).toBeNull();
+    }
+  );
+
+  it('should have unique IDs', () => {
+    const ids = INTAKE_QUESTIONNAIRES.map((questionnaire) => questionnaire.id);
+    expect(new Set(ids).size).toBe(ids.length);
+  });
+
+  it('should score the PHQ-9 out of 27 with the published bands', () => {
+    const phq9 = getIntakeQuestionnaire('phq-9')!;
+    const responses = Object.fromEntries(
+      phq9.fields.map((field, index) => [
+        field.id,
+        index < 5 ? 'More than half the days' : 'Not at all',
+      ])
+    );
+
+    expect(getMaxIntakeScore(phq9.scoring)).toBe(27);
+    expect(scoreIntakeResponses(phq9.scoring, phq9.fields, responses)).toEqual({
+      total: 10,
+      max: 27,
+      severity: 'Moderate',
+    });
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Tests for intake form response helpers
+ */
+
+import {
+  formatIntakeResponse,
+  getIntakeResponseErrors,
+  toIntakeResponses,
+} from '../responses';
+import type { IntakeFormField } from '@/types/firestore';
+
+const fields: IntakeFormField[] = [
+  {
+    id: 'goals',
+    type: 'textarea',
+    label: 'What brings you here?',
+    required: true,
+    validation: { min: 10, max: 500 },
+  },
+  {
+    id: 'phone',
+    type: 'text',
+    label: 'Phone number',
+    required: false,
+    validation: { pattern: '^\\+?[0-9 ]+$' },
+  },
+  { id: 'age', type: 'number', label: 'Age', required: true, validation: { min: 18, max: 120 } },
+  { id: 'born', type: 'date', label: 'Date of birth', required: false },
+  {
+    id: 'contact',
+    type: 'radio',
+    label: 'Preferred contact',
+    required: true,
+    options: ['Email', 'Phone'],
+  },
+  {
+    id: 'concerns',
+    type: 'checkbox',
+    label: 'Concerns',
+    required: true,
+    options: ['Sleep', 'Stress', 'Pain'],
+  },
+  { id: 'consent', type: 'checkbox', label: 'I agree to the terms', required: true },
+  { id: 'newsletter', type: 'checkbox', label: 'Send me news', required: false },
+];
+
+const validAnswers = {
+  goals: '  Better sleep and less stress  ',
+  phone: '',
+  age: 34,
+  born: '',
+  contact: 'Email',
+  concerns: ['Sleep', 'Stress'],
+  consent: true,
+};
+
+describe('getIntakeResponseErrors', () => {
+  it('should accept valid answers and leave optional questions empty', () => {
+    expect(getIntakeResponseErrors({ fields }, validAnswers)).toEqual({});
+  });
+
+  it('should require required questions, treating blank text as unanswered', () => {
+    expect(
+      getIntakeResponseErrors({ fields }, { goals: '   ', age: '', concerns: [], consent: false })
+    ).toEqual({
+      goals: 'This question is required',
+      age: 'This question is required',
+      contact: 'This question is required',
+      concerns: 'Tick at least one option',
+      consent: 'This box must be ticked',
+    });
+  });
+
+  it('should apply length, range and pattern rules', () => {
+    expect(
+      getIntakeResponseErrors({ fields }, {
+        ...validAnswers,
+        goals: 'Sleep',
+        phone: 'call me',
+        age: 16,
+      })
+    ).toEqual({
+      goals: 'Enter at least 10 characters',
+      phone: 'Enter an answer in the expected format',
+      age: 'Enter a number no less than 18',
+    });
+  });
+
+  it('should only accept the field options', () => {
+    expect(
+      getIntakeResponseErrors(
+        { fields },
+        { ...validAnswers, contact: 'Fax', concerns: ['Anxiety'] }
+      )
+    ).toEqual({
+      contact: 'Choose one of the options',
+      concerns: 'Choose from the options',
+    });
+  });
+});
+
+describe('toIntakeResponses', () => {
+  it('should trim answers and leave out unanswered questions', () => {
+    expect(toIntakeResponses({ fields }, validAnswers)).toEqual({
+      goals: 'Better sleep and less stress',
+      age: 34,
+      contact: 'Email',
+      concerns: ['Sleep', 'Stress'],
+      consent: true,
+    });
+  });
+
+  it('should throw when an answer is invalid', () => {
+    expect(() => toIntakeResponses({ fields }, { ...validAnswers, age: 200 })).toThrow(
+      'Enter a number no more than 120'
+    );
+  });
+});
+
+describe('formatIntakeResponse', () => {
+  const field = (id: string) => fields.find((candidate) => candidate.id === id)!;
+
+  it('should format each kind of answer', () => {
+    expect(formatIntakeResponse(field('concerns'), ['Sleep', 'Pain'])).toBe('Sleep, Pain');
+    expect(formatIntakeResponse(field('consent'), true)).toBe('Yes');
+    expect(formatIntakeResponse(field('born'), '1990-03-05')).toBe('March 5, 1990');
+    expect(formatIntakeResponse(field('age'), 34)).toBe('34');
+  });
+
+  it('should describe unanswered questions', () => {
+    expect(formatIntakeResponse(field('phone'), undefined)).toBe('Not answered');
+    expect(formatIntakeResponse(field('newsletter'), undefined)).toBe('No');
+  });
+});
+
+describe('new field types', () => {
+  const contactFields: IntakeFormField[] = [
+    { id: 'mood', type: 'scale', label: 'Mood today', required: true },
+    { id: 'email', type: 'email', label: 'Email', required: true },
+    { id: 'mobile', type: 'phone', label: 'Mobile', required: false },
+    { id: 'referral', type: 'file', label: 'Referral letter', required: false },
+    {
+      id: 'signature',
+      type: 'signature',
+      label: 'Consent',
+      description: 'I consent to treatment',
+      required: true,
+    },
+  ];
+
+  it('should accept valid answers', () => {
+    expect(
+      getIntakeResponseErrors(
+        { fields: contactFields },
+        {
+          mood: 7,
+          email: 'sam@example.com',
+          mobile: '+44 (0)20 7946 0958',
+          referral: 'https://example.com/letter.pdf',
+          signature: 'Sam Taylor',
+        }
+      )
+    ).toEqual({});
+  });
+
+  it('should check each answer against its type', () => {
+    expect(
+      getIntakeResponseErrors(
+        { fields: contactFields },
+        {
+          mood: 11,
+          email: 'sam',
+          mobile: 'call me',
+          referral: 'javascript:alert(1)',
+          signature: ' ',
+        }
+      )
+    ).toEqual({
+      mood: 'Choose a point on the scale',
+      email: 'Enter a valid email address',
+      mobile: 'Enter a valid phone number',
+      referral: 'Enter a link to the file',
+      signature: 'This question is required',
+    });
+  });
+
+  it('should use the scale range of the field', () => {
+    const scale: IntakeFormField = {
+      id: 'pain',
+      type: 'scale',
+      label: 'Pain',
+      required: true,
+      validation: { min: 0, max: 5 },
+    };
+
+    expect(getIntakeResponseErrors({ fields: [scale] }, { pain: 0 })).toEqual({});
+    expect(getIntakeResponseErrors({ fields: [scale] }, { pain: 6 })).toEqual({
+      pain: 'Choose a point on the scale',
+    });
+    expect(formatIntakeResponse(scale, 3)).toBe('3 of 5');
+  });
+});
+
+describe('hidden questions', () => {
+  const form = {
+    fields: [
+      {
+        id: 'medication',
+        type: 'radio',
+        label: 'Any medication?',
+        required: true,
+        options: ['Yes', 'No'],
+      },
+      {
+        id: 'medicationDetails',
+        type: 'textarea',
+        label: 'Which medication?',
+        required: true,
+        showIf: { fieldId: 'medication', operator: 'equals', value: 'Yes' },
+      },
+    ] as IntakeFormField[],
+  };
+
+  it('should only require questions that are shown', () => {
+    expect(getIntakeResponseErrors(form, { medication: 'No' })).toEqual({});
+    expect(getIntakeResponseErrors(form, { medication: 'Yes' })).toEqual({
+      medicationDetails: 'This question is required',
+    });
+  });
+
+  it('should drop answers to hidden questions', () => {
+    expect(
+      toIntakeResponses(form, { medication: 'No', medicationDetails: 'Left over from before' })
+    ).toEqual({ medication: 'No' });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Tests for questionnaire scoring
+ */
+
+import { getIntakeScoreTrends, getIntakeScoringError, scoreIntakeResponses } from '../scoring';
+import type { IntakeFormDocument, IntakeFormField, IntakeFormScoring } from '@/types/firestore';
+
+const options = ['Never', 'Sometimes', 'Often'];
+const fields: IntakeFormField[] = [
+  { id: 'sleep', type: 'radio', label: 'Trouble sleeping', required: true, options },
+  { id: 'worry', type: 'radio', label: 'Worrying', required: true, options },
+  { id: 'notes', type: 'textarea', label: 'Anything else?', required: false },
+];
+const scoring: IntakeFormScoring = {
+  points: { sleep: [0, 1, 2], worry: [0, 1, 2] },
+  bands: [
+    { min: 0, max: 1, label: 'Low' },
+    { min: 2, max: 4, label: 'High' },
+  ],
+};
+
+describe('scoreIntakeResponses', () => {
+  it('should sum the points of the chosen options and find the band', () => {
+    expect(
+      scoreIntakeResponses(scoring, fields, { sleep: 'Often', worry: 'Sometimes', notes: 'x' })
+    ).toEqual({ total: 3, max: 4, severity: 'High' });
+  });
+
+  it('should score unanswered questions as nothing', () => {
+    expect(scoreIntakeResponses(scoring, fields, { worry: 'Sometimes' })).toEqual({
+      total: 1,
+      max: 4,
+      severity: 'Low',
+    });
+  });
+});
+
+describe('getIntakeScoringError', () => {
+  it('should accept valid rules', () => {
+    expect(getIntakeScoringError(scoring, fields)).toBeNull();
+  });
+
+  it('should only score required choice questions', () => {
+    expect(getIntakeScoringError({ ...scoring, points: { notes: [1] } }, fields)).toBe(
+      'Only multiple choice and dropdown questions can be scored'
+    );
+    expect(
+      getIntakeScoringError(scoring, [{ ...fields[0], required: false }, fields[1]])
+    ).toBe('"Trouble sleeping" must be asked of every client to be scored');
+  });
+
+  it('should need points for every option', () => {
+    expect(
+      getIntakeScoringError({ ...scoring, points: { ...scoring.points, worry: [0, 1] } }, fields)
+    ).toBe('Give points for each option of "Worrying"');
+  });
+
+  it('should need bands covering every total once', () => {
+    expect(
+      getIntakeScoringError({ ...scoring, bands: [{ min: 0, max: 3, label: 'Any' }] }, fields)
+    ).toBe('Severity bands must cover every score up to 4');
+    expect(
+      getIntakeScoringError(
+        {
+          ...scoring,
+          bands: [
+            { min: 0, max: 2, label: 'Low' },
+            { min: 2, max: 4, label: 'High' },
+          ],
+        },
+        fields
+      )
+    ).toBe('Severity bands must follow on from each other, starting at 0');
+  });
+});
+
+describe('getIntakeScoreTrends', () => {
+  const submitted = (
+    id: string,
+    questionnaireId: string,
+    day: number,
+    total: number
+  ): IntakeFormDocument =>
+    ({
+      id,
+      questionnaireId,
+      title: questionnaireId.toUpperCase(),
+      type: 'submitted',
+      fields,
+      scoring,
+      // Answers worth the given total
+      responses: { sleep: options[Math.min(total, 2)], worry: options[Math.max(total - 2, 0)] },
+      score: { total, max: 4, severity: total > 1 ? 'High' : 'Low' },
+      submittedAt: { toDate: () => new Date(2026, 0, day) },
+    }) as unknown as IntakeFormDocument;
+
+  it('should group scores by questionnaire in date order', () => {
+    const trends = getIntakeScoreTrends([
+      submitted('b', 'phq-9', 10, 3),
+      submitted('a', 'phq-9', 3, 4),
+      submitted('c', 'gad-7', 5, 1),
+    ]);
+
+    expect(trends.map((trend) => trend.key)).toEqual(['phq-9', 'gad-7']);
+    expect(trends[0].scores.map((score) => score.total)).toEqual([4, 3]);
+    expect(trends[0]).toMatchObject({ title: 'PHQ-9', max: 4, bands: scoring.bands });
+  });
+
+  it('should score the answers rather than trust the stored score', () => {
+    const trends = getIntakeScoreTrends([
+      { ...submitted('a', 'phq-9', 3, 1), score: { total: 4, max: 4, severity: 'High' } },
+    ]);
+
+    expect(trends[0].scores).toEqual([
+      { formId: 'a', date: new Date(2026, 0, 3), total: 1, severity: 'Low' },
+    ]);
+  });
+
+  it('should leave out forms without scoring', () => {
+    expect(
+      getIntakeScoreTrends([{ ...submitted('a', 'phq-9', 3, 4), scoring: null }])
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Intake form layout and conditions
+ *
+ * Splits an intake form into its pages (one per section; forms without
+ * sections are a single page) and works out which sections and questions a
+ * client is shown, given their answers so far. A section or question with
+ * a show-if condition is only shown when the earlier answer it refers to
+ * meets it; answers to hidden questions are ignored, so a question that
+ * depends on a hidden one is hidden too.
+ */
+
+import type {
+  IntakeFieldCondition,
+  IntakeFormDocument,
+  IntakeFormField,
+  IntakeFormResponseValue,
+  IntakeFormSection,
+} from '@/types/firestore';
+
+/**
+ * The parts of an intake form that decide what clients are asked
+ */
+export type IntakeFormContent = Pick<IntakeFormDocument, 'fields' | 'sections'>;
+
+/**
+ * A page of an intake form
+ */
+export interface IntakeFormPage {
+  /**
+   * Section shown on the page (null for forms without sections)
+   */
+  section: IntakeFormSection | null;
+
+  fields: IntakeFormField[];
+}
+
+/**
+ * Pages of a form in order, each with its questions
+ */
+export function getIntakeFormPages(form: IntakeFormContent): IntakeFormPage[] {
+  const sections = form.sections ?? [];
+
+  if (sections.length === 0) {
+    return [{ section: null, fields: form.fields }];
+  }
+
+  return sections.map((section) => ({
+    section,
+    fields: form.fields.filter((field) => field.sectionId === section.id),
+  }));
+}
+
+/**
+ * Questions of a form in the order clients see them
+ */
+export function getOrderedIntakeFields(form: IntakeFormContent): IntakeFormField[] {
+  return getIntakeFormPages(form).flatMap((page) => page.fields);
+}
+
+/**
+ * Whether a question has been answered
+ */
+export function isIntakeAnswered(value: unknown): boolean {
+  if (value === undefined || value === null) {
+    return false;
+  }
+  if (typeof value === 'string') {
+    return value.trim() !== '';
+  }
+  if (typeof value === 'number') {
+    return !Number.isNaN(value);
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return true;
+}
+
+/**
+ * Whether an answer meets a condition
+ *
+ * @param field - Question the condition refers to; an unanswered single
+ *   checkbox counts as unticked
+ * @param value - Its answer (undefined if unanswered or hidden)
+ */
+export function matchesIntakeCondition(
+  condition: IntakeFieldCondition,
+  field: IntakeFormField | undefined,
+  value: IntakeFormResponseValue | undefined
+): boolean {
+  const answer =
+    value === undefined && field?.type === 'checkbox' && !field.options?.length ? false : value;
+
+  switch (condition.operator) {
+    case 'answered':
+      return isIntakeAnswered(answer);
+    case 'includes':
+      return Array.isArray(answer) && answer.includes(String(condition.value));
+    case 'equals':
+      return isIntakeAnswered(answer) && String(answer) === String(condition.value);
+    case 'notEquals':
+      return isIntakeAnswered(answer) && String(answer) !== String(condition.value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Pages and questions shown to a client with the given answers. Hidden
+ * sections, and pages left without questions, are left out.
+ */
+export function getVisibleIntakePages(
+  form: IntakeFormContent,
+  values: Record<string, unknown>
+): IntakeFormPage[] {
+  const fieldsById = new Map(form.fields.map((field) => [field.id, field]));
+  // Answers to the questions shown so far
+  const shownAnswers = new Map<string, IntakeFormResponseValue | undefined>();
+
+  const isShown = (condition: IntakeFieldCondition | null | undefined) =>
+    !condition ||
+    matchesIntakeCondition(
+      condition,
+      fieldsById.get(condition.fieldId),
+      shownAnswers.get(condition.fieldId)
+    );
+
+  const pages: IntakeFormPage[] = [];
+  for (const page of getIntakeFormPages(form)) {
+    if (!isShown(page.section?.showIf)) {
+      continue;
+    }
+
+    const fields = page.fields.filter((field) => {
+      if (!isShown(field.showIf)) {
+        return false;
+      }
+      shownAnswers.set(field.id, values[field.id] as IntakeFormResponseValue | undefined);
+      return true;
+    });
+
+    if (fields.length > 0) {
+      pages.push({ section: page.section, fields });
+    }
+  }
+
+  return pages;
+}
+
+/**
+ * Questions shown to a client with the given answers, in order
+ */
+export function getVisibleIntakeFields(
+  form: IntakeFormContent,
+  values: Record<string, unknown>
+): IntakeFormField[] {
+  return getVisibleIntakePages(form, values).flatMap((page) => page.fields);
+}
@@ -0,0 +1,381 @@
+/**
+ * Intake form field helpers
+ *
+ * Describes the field types practitioners can add to an intake form
+ * template and checks field definitions before a template is saved.
+ * Options apply to select, radio and checkbox fields (a checkbox without
+ * options is a single yes/no box); min/max limit the length of text and
+ * textarea answers and the value of number and scale answers; a pattern
+ * applies to text and textarea answers.
+ *
+ * Templates may group their questions into sections, and questions and
+ * sections may be shown only when an earlier answer meets a condition (see
+ * lib/intake/conditions).
+ */
+
+import { getOrderedIntakeFields } from '@/lib/intake/conditions';
+import type {
+  IntakeFieldCondition,
+  IntakeFormField,
+  IntakeFormFieldType,
+  IntakeFormSection,
+} from '@/types/firestore';
+
+/**
+ * Range of a scale field without its own limits
+ */
+export const DEFAULT_INTAKE_SCALE = { min: 1, max: 10 };
+
+/**
+ * Most points a scale field may have
+ */
+export const MAX_INTAKE_SCALE_POINTS = 11;
+
+/**
+ * Field types in the order the builder offers them, with display names
+ */
+export const INTAKE_FIELD_TYPES: { type: IntakeFormFieldType; label: string }[] = [
+  { type: 'text', label: 'Short answer' },
+  { type: 'textarea', label: 'Paragraph' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'select', label: 'Dropdown' },
+  { type: 'radio', label: 'Multiple choice' },
+  { type: 'checkbox', label: 'Checkboxes' },
+  { type: 'scale', label: 'Scale' },
+  { type: 'email', label: 'Email' },
+  { type: 'phone', label: 'Phone number' },
+  { type: 'file', label: 'File link' },
+  { type: 'signature', label: 'Consent signature' },
+];
+
+/**
+ * Display name of a field type
+ */
+export function getIntakeFieldTypeLabel(type: IntakeFormFieldType): string {
+  return INTAKE_FIELD_TYPES.find((candidate) => candidate.type === type)?.label ?? type;
+}
+
+/**
+ * Whether a field type takes a list of options
+ */
+export function hasIntakeFieldOptions(type: IntakeFormFieldType): boolean {
+  return type === 'select' || type === 'radio' || type === 'checkbox';
+}
+
+/**
+ * Whether options are required for a field type (checkboxes may have none)
+ */
+export function requiresIntakeFieldOptions(type: IntakeFormFieldType): boolean {
+  return type === 'select' || type === 'radio';
+}
+
+/**
+ * Whether a field type takes min/max limits
+ */
+export function hasIntakeFieldLimits(type: IntakeFormFieldType): boolean {
+  return type === 'text' || type === 'textarea' || type === 'number' || type === 'scale';
+}
+
+/**
+ * Whether a field type takes a pattern
+ */
+export function hasIntakeFieldPattern(type: IntakeFormFieldType): boolean {
+  return type === 'text' || type === 'textarea';
+}
+
+/**
+ * Whether a field type takes a placeholder
+ */
+export function hasIntakeFieldPlaceholder(type: IntakeFormFieldType): boolean {
+  return ['text', 'textarea', 'number', 'select', 'email', 'phone', 'file'].includes(type);
+}
+
+/**
+ * Operators a condition on a field of this type may use
+ */
+export function getIntakeConditionOperators(
+  field: IntakeFormField
+): IntakeFieldCondition['operator'][] {
+  if (field.type === 'checkbox' && field.options?.length) {
+    return ['includes', 'answered'];
+  }
+  if (field.type === 'checkbox') {
+    return ['equals'];
+  }
+  if (field.type === 'signature') {
+    return ['answered'];
+  }
+  return ['equals', 'notEquals', 'answered'];
+}
+
+/**
+ * Drop a condition's value when its operator does not use one, and trim it
+ */
+export function normalizeIntakeCondition(condition: IntakeFieldCondition): IntakeFieldCondition {
+  const normalized: IntakeFieldCondition = {
+    fieldId: condition.fieldId,
+    operator: condition.operator,
+  };
+
+  const value = typeof condition.value === 'string' ? condition.value.trim() : condition.value;
+  if (condition.operator !== 'answered' && value != null && value !== '') {
+    normalized.value = value;
+  }
+
+  return normalized;
+}
+
+/**
+ * Drop the settings a field's type does not use, e.g. after its type was
+ * changed, and empty values
+ */
+export function normalizeIntakeField(field: IntakeFormField): IntakeFormField {
+  const normalized: IntakeFormField = {
+    id: field.id,
+    type: field.type,
+    label: field.label.trim(),
+    required: field.required,
+  };
+
+  const description = field.description?.trim();
+  if (description) {
+    normalized.description = description;
+  }
+
+  if (field.sectionId) {
+    normalized.sectionId = field.sectionId;
+  }
+
+  if (field.showIf) {
+    normalized.showIf = normalizeIntakeCondition(field.showIf);
+  }
+
+  const placeholder = field.placeholder?.trim();
+  if (placeholder && hasIntakeFieldPlaceholder(field.type)) {
+    normalized.placeholder = placeholder;
+  }
+
+  const options = (field.options ?? []).map((option) => option.trim()).filter(Boolean);
+  if (options.length > 0 && hasIntakeFieldOptions(field.type)) {
+    normalized.options = options;
+  }
+
+  const validation: NonNullable<IntakeFormField['validation']> = {};
+  if (hasIntakeFieldLimits(field.type)) {
+    if (field.validation?.min != null) {
+      validation.min = field.validation.min;
+    }
+    if (field.validation?.max != null) {
+      validation.max = field.validation.max;
+    }
+  }
+  if (hasIntakeFieldPattern(field.type) && field.validation?.pattern) {
+    validation.pattern = field.validation.pattern;
+  }
+  if (Object.keys(validation).length > 0) {
+    normalized.validation = validation;
+  }
+
+  return normalized;
+}
+
+/**
+ * Trim a section's title and description and drop empty values
+ */
+export function normalizeIntakeSection(section: IntakeFormSection): IntakeFormSection {
+  const normalized: IntakeFormSection = {
+    id: section.id,
+    title: section.title.trim(),
+  };
+
+  const description = section.description?.trim();
+  if (description) {
+    normalized.description = description;
+  }
+
+  if (section.showIf) {
+    normalized.showIf = normalizeIntakeCondition(section.showIf);
+  }
+
+  return normalized;
+}
+
+/**
+ * Check a condition against the question it refers to
+ *
+ * @returns Description of the problem, or null if the condition is valid
+ */
+export function getIntakeConditionError(
+  condition: IntakeFieldCondition,
+  source: IntakeFormField | undefined
+): string | null {
+  if (!source) {
+    return 'Choose the question the condition depends on';
+  }
+  if (!getIntakeConditionOperators(source).includes(condition.operator)) {
+    return 'The condition does not suit the question it depends on';
+  }
+  if (condition.operator === 'answered') {
+    return null;
+  }
+
+  const { value } = condition;
+  if (value == null || value === '') {
+    return 'Choose the answer the condition depends on';
+  }
+  if (source.options?.length && !source.options.includes(String(value))) {
+    return 'The condition must use one of the question\'s options';
+  }
+  if (source.type === 'checkbox' && !source.options?.length && typeof value !== 'boolean') {
+    return 'The condition must be ticked or not ticked';
+  }
+  if ((source.type === 'number' || source.type === 'scale') && typeof value !== 'number') {
+    return 'The condition must compare with a number';
+  }
+
+  return null;
+}
+
+/**
+ * Check a field definition
+ *
+ * @returns Description of the problem, or null if the field is valid
+ */
+export function getIntakeFieldError(field: IntakeFormField): string | null {
+  if (!field.label.trim()) {
+    return 'Enter a question';
+  }
+
+  const options = (field.options ?? []).map((option) => option.trim());
+  if (requiresIntakeFieldOptions(field.type) && options.length < 2) {
+    return 'Add at least two options';
+  }
+  if (options.some((option) => !option)) {
+    return 'Options cannot be empty';
+  }
+  if (new Set(options).size !== options.length) {
+    return 'Options must be different';
+  }
+
+  const { min, max, pattern } = field.validation ?? {};
+  const isValueRange = field.type === 'number' || field.type === 'scale';
+  if (!isValueRange && ((min != null && min < 0) || (max != null && max < 0))) {
+    return 'Lengths cannot be negative';
+  }
+  if (min != null && max != null && min > max) {
+    return isValueRange
+      ? 'Minimum cannot be more than the maximum'
+      : 'Minimum length cannot be more than the maximum';
+  }
+  if (field.type === 'scale') {
+    const range = { ...DEFAULT_INTAKE_SCALE, ...field.validation };
+    if (!Number.isInteger(range.min) || !Number.isInteger(range.max)) {
+      return 'Scale limits must be whole numbers';
+    }
+    if (range.min >= range.max) {
+      return 'The scale must run from a lower to a higher number';
+    }
+    if (range.max - range.min + 1 > MAX_INTAKE_SCALE_POINTS) {
+      return `A scale can have at most ${MAX_INTAKE_SCALE_POINTS} points`;
+    }
+  }
+  if (field.type === 'signature' && !field.description?.trim()) {
+    return 'Enter the statement the client signs';
+  }
+  if (pattern) {
+    try {
+      new RegExp(pattern);
+    } catch {
+      return 'Pattern is not a valid regular expression';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check a template before it is saved. Once a template has sections, each
+ * question must belong to one, and a condition must refer to a question
+ * asked before the question (or, for a section, in an earlier section).
+ *
+ * @returns Description of the first problem, or null if the template is valid
+ */
+export function getIntakeTemplateError(template: {
+  title: string;
+  sections?: IntakeFormSection[];
+  fields: IntakeFormField[];
+}): string | null {
+  const sections = template.sections ?? [];
+
+  if (!template.title.trim()) {
+    return 'Enter a title for the form';
+  }
+
+  if (template.fields.length === 0) {
+    return 'Add at least one question';
+  }
+
+  if (new Set(template.fields.map((field) => field.id)).size !== template.fields.length) {
+    return 'Each question must have its own ID';
+  }
+
+  if (new Set(sections.map((section) => section.id)).size !== sections.length) {
+    return 'Each section must have its own ID';
+  }
+
+  const sectionIds = new Set(sections.map((section) => section.id));
+  const fieldsById = new Map(template.fields.map((field) => [field.id, field]));
+  const ordered = getOrderedIntakeFields(template);
+  const position = new Map(ordered.map((field, index) => [field.id, index]));
+
+  for (const [index, field] of template.fields.entries()) {
+    const label = `Question ${index + 1}`;
+    const error = getIntakeFieldError(field);
+    if (error) {
+      return `${label}: ${error}`;
+    }
+
+    if (sections.length > 0 && !(field.sectionId && sectionIds.has(field.sectionId))) {
+      return `${label}: Choose a section for the question`;
+    }
+
+    if (field.showIf) {
+      const sourcePosition = position.get(field.showIf.fieldId);
+      if (sourcePosition === undefined || sourcePosition >= position.get(field.id)!) {
+        return `${label}: The condition must refer to an earlier question`;
+      }
+      const conditionError = getIntakeConditionError(
+        field.showIf,
+        fieldsById.get(field.showIf.fieldId)
+      );
+      if (conditionError) {
+        return `${label}: ${conditionError}`;
+      }
+    }
+  }
+
+  for (const [index, section] of sections.entries()) {
+    const label = `Section ${index + 1}`;
+    if (!section.title.trim()) {
+      return `${label}: Enter a title for the section`;
+    }
+    if (!template.fields.some((field) => field.sectionId === section.id)) {
+      return `${label}: Add at least one question to the section`;
+    }
+
+    if (section.showIf) {
+      const source = fieldsById.get(section.showIf.fieldId);
+      const sourceSection = sections.findIndex(({ id }) => id === source?.sectionId);
+      if (!source || sourceSection < 0 || sourceSection >= index) {
+        return `${label}: The condition must refer to a question in an earlier section`;
+      }
+      const conditionError = getIntakeConditionError(section.showIf, source);
+      if (conditionError) {
+        return `${label}: ${conditionError}`;
+      }
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,174 @@
+/**
+ * Built-in scored questionnaires
+ *
+ * Standard screening questionnaires practitioners can add to their intake
+ * forms as scored templates: the questions, answer options and points,
+ * and the severity bands of the total, as published for each instrument.
+ * Screening results support, and do not replace, clinical judgement.
+ */
+
+import type { IntakeFormField, IntakeFormScoring } from '@/types/firestore';
+
+/**
+ * A built-in questionnaire
+ */
+export interface IntakeQuestionnaire {
+  /**
+   * Stable ID, stored on templates added from the questionnaire
+   */
+  id: string;
+
+  /**
+   * Short name, e.g. "PHQ-9"
+   */
+  name: string;
+
+  title: string;
+  description: string;
+  fields: IntakeFormField[];
+  scoring: IntakeFormScoring;
+}
+
+/**
+ * Build a questionnaire's questions, all asked with the same options, and
+ * its scoring rules
+ */
+function scoredItems(
+  idPrefix: string,
+  labels: string[],
+  options: { label: string; points: number }[]
+): Pick<IntakeQuestionnaire, 'fields'> & { points: IntakeFormScoring['points'] } {
+  const fields = labels.map<IntakeFormField>((label, index) => ({
+    id: `${idPrefix}-${index + 1}`,
+    type: 'radio',
+    label,
+    required: true,
+    options: options.map((option) => option.label),
+  }));
+
+  return {
+    fields,
+    points: Object.fromEntries(
+      fields.map((field) => [field.id, options.map((option) => option.points)])
+    ),
+  };
+}
+
+const FREQUENCY_OPTIONS = [
+  { label: 'Not at all', points: 0 },
+  { label: 'Several days', points: 1 },
+  { label: 'More than half the days', points: 2 },
+  { label: 'Nearly every day', points: 3 },
+];
+
+const phq9 = scoredItems(
+  'phq9',
+  [
+    'Little interest or pleasure in doing things',
+    'Feeling down, depressed, or hopeless',
+    'Trouble falling or staying asleep, or sleeping too much',
+    'Feeling tired or having little energy',
+    'Poor appetite or overeating',
+    'Feeling bad about yourself, or that you are a failure or have let yourself or your family down',
+    'Trouble concentrating on things, such as reading the newspaper or watching television',
+    'Moving or speaking so slowly that other people could have noticed, or the opposite: being so fidgety or restless that you have been moving around a lot more than usual',
+    'Thoughts that you would be better off dead, or of hurting yourself in some way',
+  ],
+  FREQUENCY_OPTIONS
+);
+
+const gad7 = scoredItems(
+  'gad7',
+  [
+    'Feeling nervous, anxious, or on edge',
+    'Not being able to stop or control worrying',
+    'Worrying too much about different things',
+    'Trouble relaxing',
+    'Being so restless that it is hard to sit still',
+    'Becoming easily annoyed or irritable',
+    'Feeling afraid, as if something awful might happen',
+  ],
+  FREQUENCY_OPTIONS
+);
+
+const who5 = scoredItems(
+  'who5',
+  [
+    'I have felt cheerful and in good spirits',
+    'I have felt calm and relaxed',
+    'I have felt active and vigorous',
+    'I woke up feeling fresh and rested',
+    'My daily life has been filled with things that interest me',
+  ],
+  [
+    { label: 'All of the time', points: 5 },
+    { label: 'Most of the time', points: 4 },
+    { label: 'More than half of the time', points: 3 },
+    { label: 'Less than half of the time', points: 2 },
+    { label: 'Some of the time', points: 1 },
+    { label: 'At no time', points: 0 },
+  ]
+);
+
+/**
+ * Built-in questionnaires, in the order the library lists them
+ */
+export const INTAKE_QUESTIONNAIRES: IntakeQuestionnaire[] = [
+  {
+    id: 'phq-9',
+    name: 'PHQ-9',
+    title: 'Depression Screening (PHQ-9)',
+    description:
+      'Over the last 2 weeks, how often have you been bothered by any of the following problems?',
+    fields: phq9.fields,
+    scoring: {
+      points: phq9.points,
+      bands: [
+        { min: 0, max: 4, label: 'Minimal' },
+        { min: 5, max: 9, label: 'Mild' },
+        { min: 10, max: 14, label: 'Moderate' },
+        { min: 15, max: 19, label: 'Moderately severe' },
+        { min: 20, max: 27, label: 'Severe' },
+      ],
+    },
+  },
+  {
+    id: 'gad-7',
+    name: 'GAD-7',
+    title: 'Anxiety Screening (GAD-7)',
+    description:
+      'Over the last 2 weeks, how often have you been bothered by the following problems?',
+    fields: gad7.fields,
+    scoring: {
+      points: gad7.points,
+      bands: [
+        { min: 0, max: 4, label: 'Minimal' },
+        { min: 5, max: 9, label: 'Mild' },
+        { min: 10, max: 14, label: 'Moderate' },
+        { min: 15, max: 21, label: 'Severe' },
+      ],
+    },
+  },
+  {
+    id: 'who-5',
+    name: 'WHO-5',
+    title: 'Well-Being Index (WHO-5)',
+    description:
+      'Please indicate for each statement which is closest to how you have been feeling over the last 2 weeks. Higher scores mean better well-being.',
+    fields: who5.fields,
+    scoring: {
+      points: who5.points,
+      bands: [
+        { min: 0, max: 12, label: 'Low well-being' },
+        { min: 13, max: 25, label: 'Good well-being' },
+      ],
+    },
+  },
+];
+
+/**
+ * Built-in questionnaire by ID
+ */
+export function getIntakeQuestionnaire(id: string): IntakeQuestionnaire | undefined {
+  return INTAKE_QUESTIONNAIRES.find((questionnaire) => questionnaire.id === id);
+}
@@ -0,0 +1,246 @@
+/**
+ * Intake form response helpers
+ *
+ * Builds a zod schema from a form's fields so a client's answers are
+ * checked against each field's rules (required, options, length or value
+ * limits and pattern) before the form is submitted, and formats stored
+ * answers for display. Only the questions shown to the client, given their
+ * answers, are checked and stored; answers to hidden questions are dropped.
+ */
+
+import * as z from 'zod';
+import { getVisibleIntakeFields, type IntakeFormContent } from '@/lib/intake/conditions';
+import { DEFAULT_INTAKE_SCALE } from '@/lib/intake/formFields';
+import type { IntakeFormField, IntakeFormResponseValue } from '@/types/firestore';
+
+const REQUIRED_MESSAGE = 'This question is required';
+
+/**
+ * Treat an empty input as no answer
+ */
+const emptyToUndefined = (value: unknown) =>
+  (typeof value === 'string' && value.trim() === '') ||
+  (typeof value === 'number' && Number.isNaN(value))
+    ? undefined
+    : value;
+
+/**
+ * Schema for a text or textarea answer
+ */
+function textSchema(field: IntakeFormField): z.ZodTypeAny {
+  const { min, max, pattern } = field.validation ?? {};
+  let schema = z.string().trim();
+
+  if (min != null) {
+    schema = schema.min(min, `Enter at least ${min} characters`);
+  }
+  if (max != null) {
+    schema = schema.max(max, `Enter at most ${max} characters`);
+  }
+  if (pattern) {
+    schema = schema.regex(new RegExp(pattern), 'Enter an answer in the expected format');
+  }
+
+  return schema;
+}
+
+/**
+ * Schema for a number answer
+ */
+function numberSchema(field: IntakeFormField): z.ZodTypeAny {
+  const { min, max } = field.validation ?? {};
+  let schema = z.number({ required_error: REQUIRED_MESSAGE, invalid_type_error: 'Enter a number' });
+
+  if (min != null) {
+    schema = schema.min(min, `Enter a number no less than ${min}`);
+  }
+  if (max != null) {
+    schema = schema.max(max, `Enter a number no more than ${max}`);
+  }
+
+  return schema;
+}
+
+/**
+ * Schema for a scale answer: a whole number on the field's scale
+ */
+function scaleSchema(field: IntakeFormField): z.ZodTypeAny {
+  const { min, max } = { ...DEFAULT_INTAKE_SCALE, ...field.validation };
+
+  return z
+    .number({ required_error: REQUIRED_MESSAGE, invalid_type_error: 'Choose a point on the scale' })
+    .int('Choose a point on the scale')
+    .min(min, 'Choose a point on the scale')
+    .max(max, 'Choose a point on the scale');
+}
+
+/**
+ * Schema for a field's answer, before its required rule is applied
+ */
+function answerSchema(field: IntakeFormField): z.ZodTypeAny {
+  const options = field.options ?? [];
+  const isOption = (value: string) => options.includes(value);
+
+  switch (field.type) {
+    case 'number':
+      return numberSchema(field);
+    case 'scale':
+      return scaleSchema(field);
+    case 'email':
+      return z.string().trim().email('Enter a valid email address');
+    case 'phone':
+      return z
+        .string()
+        .trim()
+        .regex(/^\+?[\d\s().-]{7,20}$/, 'Enter a valid phone number');
+    case 'file':
+      return z
+        .string()
+        .trim()
+        .url('Enter a link to the file')
+        .refine((url) => /^https?:\/\//i.test(url), 'Enter a link to the file');
+    case 'signature':
+      return z.string().trim().min(2, 'Type your full name to sign');
+    case 'date':
+      return z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Enter a valid date');
+    case 'select':
+    case 'radio':
+      return z.string().refine(isOption, 'Choose one of the options');
+    case 'checkbox':
+      return options.length > 0
+        ? z.array(z.string().refine(isOption, 'Choose from the options'))
+        : z.boolean();
+    default:
+      return textSchema(field);
+  }
+}
+
+/**
+ * Schema for a field's answer
+ *
+ * Optional questions may be left empty (an unticked single checkbox
+ * answers "no"); required ones must be answered, a required single
+ * checkbox must be ticked and a required checkbox list needs at least one
+ * option ticked.
+ */
+export function buildIntakeFieldSchema(field: IntakeFormField): z.ZodTypeAny {
+  const schema = answerSchema(field);
+
+  if (field.type === 'checkbox') {
+    if (!field.required) {
+      return schema.optional();
+    }
+
+    return field.options?.length
+      ? (schema as z.ZodArray<z.ZodTypeAny>).min(1, 'Tick at least one option')
+      : schema.refine((ticked) => ticked === true, 'This box must be ticked');
+  }
+
+  if (!field.required) {
+    return z.preprocess(emptyToUndefined, schema.optional());
+  }
+
+  // Blank answers are missing, not too short
+  const answered =
+    field.type === 'number' || field.type === 'scale'
+      ? schema
+      : z.string({ required_error: REQUIRED_MESSAGE }).pipe(schema);
+  return z.preprocess(emptyToUndefined, answered);
+}
+
+/**
+ * Schema for all answers to a form, keyed by field ID
+ */
+export function buildIntakeResponseSchema(fields: IntakeFormField[]) {
+  return z.object(
+    Object.fromEntries(fields.map((field) => [field.id, buildIntakeFieldSchema(field)]))
+  );
+}
+
+/**
+ * Check a client's answers to the questions they are shown
+ *
+ * @returns The first problem with each answer, keyed by field ID
+ */
+export function getIntakeResponseErrors(
+  form: IntakeFormContent,
+  values: Record<string, unknown>
+): Record<string, string> {
+  const fields = getVisibleIntakeFields(form, values);
+  const result = buildIntakeResponseSchema(fields).safeParse(values);
+  const errors: Record<string, string> = {};
+
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      const fieldId = String(issue.path[0]);
+      errors[fieldId] ??= issue.message;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Answers to store for a submitted form: trimmed, with unanswered and
+ * hidden questions left out
+ *
+ * @throws Error if any answer is invalid
+ */
+export function toIntakeResponses(
+  form: IntakeFormContent,
+  values: Record<string, unknown>
+): Record<string, IntakeFormResponseValue> {
+  const fields = getVisibleIntakeFields(form, values);
+  const result = buildIntakeResponseSchema(fields).safeParse(values);
+  if (!result.success) {
+    throw new Error(result.error.issues[0]?.message ?? 'Some answers are invalid');
+  }
+
+  return Object.fromEntries(
+    Object.entries(result.data as Record<string, IntakeFormResponseValue | undefined>).filter(
+      (entry): entry is [string, IntakeFormResponseValue] =>
+        entry[1] !== undefined && !(Array.isArray(entry[1]) && entry[1].length === 0)
+    )
+  );
+}
+
+/**
+ * Answer as text, e.g. "Yes" for a ticked box, "Email, Phone" for ticked
+ * options or "7 of 10" on a scale
+ */
+export function formatIntakeResponse(
+  field: IntakeFormField,
+  value: IntakeFormResponseValue | undefined
+): string {
+  if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) {
+    return field.type === 'checkbox' && !field.options?.length ? 'No' : 'Not answered';
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 'Yes' : 'No';
+  }
+
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+
+  if (field.type === 'scale') {
+    return `${value} of ${field.validation?.max ?? DEFAULT_INTAKE_SCALE.max}`;
+  }
+
+  if (field.type === 'signature') {
+    return `Signed by ${value}`;
+  }
+
+  if (field.type === 'date' && typeof value === 'string') {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1, day)).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      timeZone: 'UTC',
+    });
+  }
+
+  return String(value);
+}
@@ -0,0 +1,178 @@
+/**
+ * Questionnaire scoring
+ *
+ * Scores submitted questionnaires: each scored question is a choice
+ * question whose options are worth points, the points of the chosen
+ * options are summed, and the total is placed in a severity band. Also
+ * checks scoring rules against a questionnaire's questions before it is
+ * saved, and groups a client's scores by questionnaire to follow them over
+ * time.
+ */
+
+import type {
+  IntakeFormDocument,
+  IntakeFormField,
+  IntakeFormResponseValue,
+  IntakeFormScore,
+  IntakeFormScoring,
+  IntakeSeverityBand,
+} from '@/types/firestore';
+
+/**
+ * A client's scores on one questionnaire over time
+ */
+export interface IntakeScoreTrend {
+  /**
+   * Built-in questionnaire ID, or the template ID of a custom one
+   */
+  key: string;
+
+  /**
+   * Title of the most recent submission
+   */
+  title: string;
+
+  /**
+   * Highest possible total and severity bands of the most recent submission
+   */
+  max: number;
+  bands: IntakeSeverityBand[];
+
+  /**
+   * Scores, oldest first
+   */
+  scores: { formId: string; date: Date; total: number; severity: string | null }[];
+}
+
+/**
+ * Highest total a questionnaire allows
+ */
+export function getMaxIntakeScore(scoring: IntakeFormScoring): number {
+  return Object.values(scoring.points).reduce(
+    (total, points) => total + (points.length > 0 ? Math.max(...points) : 0),
+    0
+  );
+}
+
+/**
+ * Label of the severity band a total falls in, or null if it falls in none
+ */
+export function getIntakeSeverity(scoring: IntakeFormScoring, total: number): string | null {
+  return scoring.bands.find((band) => total >= band.min && total <= band.max)?.label ?? null;
+}
+
+/**
+ * Score a questionnaire's answers. Unanswered questions score nothing.
+ */
+export function scoreIntakeResponses(
+  scoring: IntakeFormScoring,
+  fields: IntakeFormField[],
+  responses: Record<string, IntakeFormResponseValue>
+): IntakeFormScore {
+  let total = 0;
+
+  for (const [fieldId, points] of Object.entries(scoring.points)) {
+    const options = fields.find((field) => field.id === fieldId)?.options ?? [];
+    const index = options.indexOf(String(responses[fieldId]));
+    if (index >= 0) {
+      total += points[index] ?? 0;
+    }
+  }
+
+  return {
+    total,
+    max: getMaxIntakeScore(scoring),
+    severity: getIntakeSeverity(scoring, total),
+  };
+}
+
+/**
+ * Check scoring rules against a questionnaire's questions: each scored
+ * question must be a required single-choice question with points for
+ * every option, and the severity bands must cover every possible total
+ * once, in order
+ *
+ * @returns Description of the problem, or null if the rules are valid
+ */
+export function getIntakeScoringError(
+  scoring: IntakeFormScoring,
+  fields: IntakeFormField[]
+): string | null {
+  const scored = Object.entries(scoring.points);
+  if (scored.length === 0) {
+    return 'Score at least one question';
+  }
+
+  for (const [fieldId, points] of scored) {
+    const field = fields.find((candidate) => candidate.id === fieldId);
+    if (!field || (field.type !== 'radio' && field.type !== 'select')) {
+      return 'Only multiple choice and dropdown questions can be scored';
+    }
+    if (!field.required || field.showIf) {
+      return `"${field.label}" must be asked of every client to be scored`;
+    }
+    if (points.length !== (field.options ?? []).length) {
+      return `Give points for each option of "${field.label}"`;
+    }
+    if (points.some((point) => !Number.isInteger(point) || point < 0)) {
+      return 'Points must be whole numbers of 0 or more';
+    }
+  }
+
+  const max = getMaxIntakeScore(scoring);
+  let next = 0;
+  for (const band of scoring.bands) {
+    if (!band.label.trim()) {
+      return 'Name each severity band';
+    }
+    if (band.min !== next || band.max < band.min) {
+      return 'Severity bands must follow on from each other, starting at 0';
+    }
+    next = band.max + 1;
+  }
+  if (next !== max + 1) {
+    return `Severity bands must cover every score up to ${max}`;
+  }
+
+  return null;
+}
+
+/**
+ * Group submitted questionnaires by questionnaire, most recently submitted
+ * first, each with its scores in date order. Scores are worked out again from
+ * the answers rather than taken from the stored score, which the client
+ * writes. Forms without scoring or a submission date are left out.
+ */
+export function getIntakeScoreTrends(forms: IntakeFormDocument[]): IntakeScoreTrend[] {
+  const trends = new Map<string, IntakeScoreTrend>();
+
+  const dated = forms
+    .flatMap((form) =>
+      form.scoring && form.submittedAt
+        ? [
+            {
+              form,
+              score: scoreIntakeResponses(form.scoring, form.fields, form.responses ?? {}),
+              date: form.submittedAt.toDate(),
+            },
+          ]
+        : []
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  for (const { form, score, date } of dated) {
+    const key = form.questionnaireId ?? form.templateId ?? form.id;
+    const trend = trends.get(key) ?? { key, title: '', max: 0, bands: [], scores: [] };
+
+    trend.title = form.title;
+    trend.max = score.max;
+    trend.bands = form.scoring?.bands ?? [];
+    trend.scores.push({ formId: form.id, date, total: score.total, severity: score.severity });
+    trends.set(key, trend);
+  }
+
+  return [...trends.values()].sort(
+    (a, b) =>
+      b.scores[b.scores.length - 1].date.getTime() - a.scores[a.scores.length - 1].date.getTime()
+  );
+}
@@ -0,0 +1,89 @@
+/**
+ * Tests for the invoice HTML and PDF renderers
+ */
+
+import type { Timestamp } from 'firebase/firestore';
+import { renderInvoiceHtml } from '../invoiceHtml';
+import { renderInvoicePdf } from '../invoicePdf';
+import type { InvoiceDocument } from '@/types/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const invoice = (overrides: Partial<InvoiceDocument> = {}) =>
+  ({
+    id: 'appt-1',
+    number: 'INV-000042',
+    sequence: 42,
+    appointmentId: 'appt-1',
+    practitionerId: 'prac-1',
+    clientId: 'client-1',
+    practitioner: { name: 'Jo Practitioner', email: 'jo@example.com', address: null, taxId: null },
+    client: { name: 'Sam Client', email: 'sam@example.com' },
+    service: 'Reiki',
+    duration: 60,
+    sessionDate: timestamp(new Date('2026-03-02T10:00:00Z')),
+    currency: 'EUR',
+    subtotal: 10000,
+    taxLabel: 'VAT',
+    taxRatePercent: 20,
+    tax: 2000,
+    total: 12000,
+    issuedAt: timestamp(new Date('2026-03-03T09:00:00Z')),
+    ...overrides,
+  }) as InvoiceDocument;
+
+const latin1 = (bytes: Uint8Array) => Buffer.from(bytes).toString('latin1');
+
+describe('renderInvoiceHtml', () => {
+  it('should print the number, parties and tax line', () => {
+    const html = renderInvoiceHtml(invoice());
+
+    expect(html).toContain('<title>Invoice INV-000042</title>');
+    expect(html).toContain('Jo Practitioner');
+    expect(html).toContain('Sam Client');
+    expect(html).toContain('VAT (20%)');
+  });
+
+  it('should escape names entered by users', () => {
+    const html = renderInvoiceHtml(
+      invoice({ client: { name: '<script>alert("x")</script>', email: null } })
+    );
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;');
+  });
+});
+
+describe('renderInvoicePdf', () => {
+  it('should write a well-formed PDF', () => {
+    const pdf = latin1(renderInvoicePdf(invoice()));
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.endsWith('%%EOF\n')).toBe(true);
+    expect(pdf).toContain('(INV-000042) Tj');
+
+    // Each cross-reference entry points at its object
+    const xrefStart = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(xrefStart, xrefStart + 4)).toBe('xref');
+    const offsets = [...pdf.slice(xrefStart).matchAll(/(\d{10}) 00000 n/g)].map(([, offset]) =>
+      Number(offset)
+    );
+    expect(offsets).toHaveLength(6);
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset, offset + 8)).toBe(`${index + 1} 0 obj\n`);
+    });
+
+    // The declared stream length matches the content
+    const [, length, stream] = pdf.match(/\/Length (\d+) >>\nstream\n([\s\S]*)\nendstream/)!;
+    expect(stream).toHaveLength(Number(length));
+  });
+
+  it('should encode text for the standard fonts', () => {
+    const pdf = latin1(
+      renderInvoicePdf(invoice({ client: { name: 'Zoë (Café) \\ Łukasz €', email: null } }))
+    );
+
+    expect(pdf).toContain('(Zo\xeb \\(Caf\xe9\\) \\\\ ?ukasz \x80) Tj');
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Tests for invoices
+ */
+
+import type { Timestamp } from 'firebase/firestore';
+import {
+  buildInvoice,
+  calculateInvoiceTotals,
+  formatInvoiceNumber,
+  getBillingDetails,
+  getInvoiceContent,
+} from '../invoices';
+import type { AppointmentDocument, InvoiceDocument, PractitionerDocument } from '@/types/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const appointment = {
+  id: 'appt-1',
+  clientId: 'client-1',
+  practitionerId: 'prac-1',
+  startTime: timestamp(new Date('2026-03-02T10:00:00Z')),
+  endTime: timestamp(new Date('2026-03-02T10:50:00Z')),
+  sessionType: { id: 'reiki', name: 'Reiki', duration: 50, format: 'in-person' },
+  quotedPrice: 12000,
+  currency: 'EUR',
+} as AppointmentDocument;
+
+const practitioner = {
+  email: 'jo@example.com',
+  displayName: 'Jo Practitioner',
+  pricing: { initialConsultation: 12000, followUpSession: 9000, currency: 'USD' },
+} as PractitionerDocument;
+
+describe('getBillingDetails', () => {
+  it('should default to no tax', () => {
+    expect(getBillingDetails({})).toEqual({
+      businessName: null,
+      address: null,
+      taxId: null,
+      licenseNumber: null,
+      npi: null,
+      taxLabel: 'Tax',
+      taxRatePercent: 0,
+    });
+  });
+
+  it('should treat blank fields as unset', () => {
+    expect(
+      getBillingDetails({ billing: { businessName: '  ', taxLabel: '', taxRatePercent: 20 } })
+    ).toMatchObject({ businessName: null, taxLabel: 'Tax', taxRatePercent: 20 });
+  });
+});
+
+describe('formatInvoiceNumber', () => {
+  it('should pad the sequence number', () => {
+    expect(formatInvoiceNumber(42)).toBe('INV-000042');
+    expect(formatInvoiceNumber(1234567)).toBe('INV-1234567');
+  });
+});
+
+describe('calculateInvoiceTotals', () => {
+  it('should take the tax out of the amount paid', () => {
+    expect(calculateInvoiceTotals(12000, 20)).toEqual({ subtotal: 10000, tax: 2000, total: 12000 });
+    expect(calculateInvoiceTotals(9999, 7.5)).toEqual({ subtotal: 9301, tax: 698, total: 9999 });
+  });
+
+  it('should charge no tax at a zero rate', () => {
+    expect(calculateInvoiceTotals(12000, 0)).toEqual({ subtotal: 12000, tax: 0, total: 12000 });
+  });
+});
+
+describe('buildInvoice', () => {
+  it('should copy the session, parties and amounts', () => {
+    const invoice = buildInvoice(
+      appointment,
+      {
+        ...practitioner,
+        billing: { businessName: 'Calm Studio', address: '1 High St', taxRatePercent: 20 },
+      },
+      { displayName: 'Sam Client', email: 'sam@example.com' }
+    );
+
+    expect(invoice).toEqual({
+      appointmentId: 'appt-1',
+      practitionerId: 'prac-1',
+      clientId: 'client-1',
+      practitioner: {
+        name: 'Calm Studio',
+        email: 'jo@example.com',
+        address: '1 High St',
+        taxId: null,
+      },
+      client: { name: 'Sam Client', email: 'sam@example.com' },
+      service: 'Reiki',
+      duration: 50,
+      sessionDate: appointment.startTime,
+      currency: 'EUR',
+      subtotal: 10000,
+      taxLabel: 'Tax',
+      taxRatePercent: 20,
+      tax: 2000,
+      total: 12000,
+    });
+  });
+
+  it('should fall back to the practitioner currency and profile names', () => {
+    const invoice = buildInvoice({ ...appointment, currency: null }, practitioner, null);
+
+    expect(invoice.currency).toBe('USD');
+    expect(invoice.practitioner.name).toBe('Jo Practitioner');
+    expect(invoice.client).toEqual({ name: 'Client', email: null });
+  });
+
+  it('should refuse appointments without a price', () => {
+    expect(() => buildInvoice({ ...appointment, quotedPrice: null }, practitioner, null)).toThrow(
+      'no price'
+    );
+  });
+});
+
+describe('getInvoiceContent', () => {
+  it('should list the address lines and tax ID under the practitioner', () => {
+    const invoice = {
+      ...buildInvoice(
+        appointment,
+        { ...practitioner, billing: { address: '1 High St\n\nLondon ', taxId: 'GB123' } },
+        { displayName: 'Sam Client', email: 'sam@example.com' }
+      ),
+      id: 'appt-1',
+      number: 'INV-000001',
+      sequence: 1,
+      issuedAt: timestamp(new Date('2026-03-03T09:00:00Z')),
+    } as InvoiceDocument;
+
+    const content = getInvoiceContent(invoice);
+
+    expect(content.from).toEqual([
+      'Jo Practitioner',
+      '1 High St',
+      'London',
+      'jo@example.com',
+      'Tax ID: GB123',
+    ]);
+    expect(content.billTo).toEqual(['Sam Client', 'sam@example.com']);
+    expect(content.item.description).toBe('Reiki (50 min)');
+    expect(content.summary.map(({ label }) => label)).toEqual([
+      'Subtotal',
+      'Tax (0%)',
+      'Total paid',
+    ]);
+  });
+});
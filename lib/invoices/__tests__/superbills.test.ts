@@ -0,0 +1,287 @@
+/**
+ * Tests for superbills
+ */
+
+import type { Timestamp } from 'firebase/firestore';
+import {
+  buildSuperbill,
+  getSuperbillAppointments,
+  getSuperbillFileName,
+  isValidDiagnosisCode,
+  isValidProcedureCode,
+  parseBillingCodes,
+} from '../superbills';
+import { renderSuperbillPdf } from '../superbillPdf';
+import type { AppointmentDocument, PractitionerDocument } from '@/types/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+// Instants, dated in the practitioner's time zone (New York) whatever zone
+// the tests run in
+const appointment = (
+  id: string,
+  start: Date,
+  overrides: Partial<AppointmentDocument> = {}
+) =>
+  ({
+    id,
+    clientId: 'client-1',
+    practitionerId: 'prac-1',
+    startTime: timestamp(start),
+    endTime: timestamp(new Date(start.getTime() + 53 * 60000)),
+    status: 'completed',
+    sessionType: { id: 'therapy', name: 'Psychotherapy', duration: 53, format: 'online' },
+    quotedPrice: 15000,
+    currency: 'USD',
+    paymentStatus: 'paid',
+    ...overrides,
+  }) as AppointmentDocument;
+
+const practitioner = {
+  email: 'jo@example.com',
+  displayName: 'Jo Practitioner',
+  pricing: { initialConsultation: 15000, followUpSession: 15000, currency: 'USD' },
+  sessionDuration: 53,
+  sessionTypes: [
+    {
+      id: 'therapy',
+      name: 'Psychotherapy',
+      duration: 53,
+      price: 15000,
+      format: 'online',
+      newClientsOnly: false,
+      procedureCode: '90837',
+      diagnosisCodes: ['F41.1', 'F32.0'],
+    },
+    {
+      id: 'intake',
+      name: 'Intake',
+      duration: 60,
+      price: 18000,
+      format: 'online',
+      newClientsOnly: false,
+      procedureCode: '90791',
+      diagnosisCodes: ['F41.1'],
+    },
+  ],
+  billing: { licenseNumber: 'LPC 12345', npi: '1234567893', taxId: '12-3456789' },
+  availabilityRules: { timezone: 'America/New_York' },
+} as PractitionerDocument;
+
+const client = { name: 'Sam Client', dateOfBirth: '04/05/1990', address: null };
+
+describe('parseBillingCodes', () => {
+  it('should split, upper-case and deduplicate codes', () => {
+    expect(parseBillingCodes(' f41.1, F32.0;f41.1  Z63.0 ')).toEqual(['F41.1', 'F32.0', 'Z63.0']);
+    expect(parseBillingCodes('  ')).toEqual([]);
+  });
+});
+
+describe('code validation', () => {
+  it('should accept CPT and ICD-10 codes', () => {
+    expect(isValidProcedureCode('90837')).toBe(true);
+    expect(isValidProcedureCode('0001F')).toBe(true);
+    expect(isValidProcedureCode('9083')).toBe(false);
+    expect(isValidDiagnosisCode('F41.1')).toBe(true);
+    expect(isValidDiagnosisCode('F32.A')).toBe(true);
+    expect(isValidDiagnosisCode('F411')).toBe(true);
+    expect(isValidDiagnosisCode('41.1')).toBe(false);
+  });
+});
+
+describe('getSuperbillAppointments', () => {
+  it('should keep completed appointments within the whole days of the range', () => {
+    const appointments = [
+      appointment('late', new Date('2026-04-01T03:00:00Z')), // 11pm on March 31 (EDT)
+      appointment('early', new Date('2026-03-01T05:30:00Z')), // 12:30am on March 1 (EST)
+      appointment('before', new Date('2026-03-01T04:30:00Z')), // 11:30pm on February 28
+      appointment('cancelled', new Date('2026-03-10T14:00:00Z'), { status: 'cancelled' }),
+      appointment('no-show', new Date('2026-03-11T14:00:00Z'), { status: 'no-show' }),
+      appointment('after', new Date('2026-04-01T13:00:00Z')),
+    ];
+
+    const included = getSuperbillAppointments(
+      appointments,
+      '2026-03-01',
+      '2026-03-31',
+      'America/New_York'
+    );
+
+    expect(included.map(({ id }) => id)).toEqual(['early', 'late']);
+  });
+});
+
+describe('buildSuperbill', () => {
+  const range = { from: '2026-01-01', to: '2026-03-31' };
+
+  it('should list each session with its codes, fee and payment', () => {
+    const superbill = buildSuperbill({
+      practitioner,
+      client,
+      appointments: [
+        appointment('appt-2', new Date('2026-02-09T15:00:00Z'), { paymentStatus: 'pending' }),
+        appointment('appt-1', new Date('2026-02-02T15:00:00Z'), {
+          sessionType: { id: 'intake', name: 'Intake', duration: 60, format: 'online' },
+          quotedPrice: 18000,
+        }),
+      ],
+      ...range,
+    });
+
+    expect(superbill.lines).toEqual([
+      expect.objectContaining({
+        appointmentId: 'appt-1',
+        service: 'Intake',
+        procedureCode: '90791',
+        diagnosisCodes: ['F41.1'],
+        fee: 18000,
+        paid: 18000,
+      }),
+      expect.objectContaining({
+        appointmentId: 'appt-2',
+        duration: 53,
+        procedureCode: '90837',
+        fee: 15000,
+        paid: 0,
+      }),
+    ]);
+    expect(superbill.diagnosisCodes).toEqual(['F41.1', 'F32.0']);
+    expect(superbill).toMatchObject({ currency: 'USD', totalFees: 33000, totalPaid: 18000 });
+    expect(superbill.provider).toMatchObject({
+      name: 'Jo Practitioner',
+      licenseNumber: 'LPC 12345',
+      npi: '1234567893',
+      taxId: '12-3456789',
+    });
+  });
+
+  it('should cover the whole days of the range in the practitioner\'s time zone', () => {
+    const superbill = buildSuperbill({
+      practitioner,
+      client,
+      appointments: [appointment('appt-1', new Date('2026-02-02T15:00:00Z'))],
+      ...range,
+    });
+
+    expect(superbill).toMatchObject({
+      from: new Date('2026-01-01T05:00:00Z'),
+      to: new Date('2026-04-01T03:59:59.999Z'),
+      timeZone: 'America/New_York',
+    });
+  });
+
+  it('should leave codes blank for session types without them', () => {
+    const superbill = buildSuperbill({
+      practitioner: { ...practitioner, sessionTypes: [] },
+      client,
+      appointments: [
+        appointment('appt-1', new Date('2026-02-02T15:00:00Z'), {
+          sessionType: { id: 'default', name: 'Session', duration: 53, format: 'online' },
+        }),
+      ],
+      ...range,
+    });
+
+    expect(superbill.lines[0]).toMatchObject({ procedureCode: null, diagnosisCodes: [] });
+  });
+
+  it('should refuse ranges without completed sessions', () => {
+    expect(() =>
+      buildSuperbill({
+        practitioner,
+        client,
+        appointments: [appointment('appt-1', new Date('2025-12-30T15:00:00Z'))],
+        ...range,
+      })
+    ).toThrow('No completed sessions in this date range');
+  });
+
+  it('should refuse reversed ranges', () => {
+    expect(() =>
+      buildSuperbill({ practitioner, client, appointments: [], from: range.to, to: range.from })
+    ).toThrow('The start date must be on or before the end date');
+  });
+
+  it('should refuse sessions charged in different currencies', () => {
+    expect(() =>
+      buildSuperbill({
+        practitioner,
+        client,
+        appointments: [
+          appointment('appt-1', new Date('2026-02-02T15:00:00Z')),
+          appointment('appt-2', new Date('2026-02-09T15:00:00Z'), { currency: 'EUR' }),
+        ],
+        ...range,
+      })
+    ).toThrow('different currencies');
+  });
+});
+
+describe('getSuperbillFileName', () => {
+  it('should name the file after the client and range', () => {
+    expect(
+      getSuperbillFileName({
+        client: { ...client, name: 'Zoë O’Brien' },
+        from: new Date('2026-01-01T05:00:00Z'),
+        to: new Date('2026-04-01T03:59:59.999Z'),
+        timeZone: 'America/New_York',
+      })
+    ).toBe('superbill-zoe-o-brien-2026-01-01-2026-03-31.pdf');
+  });
+});
+
+describe('renderSuperbillPdf', () => {
+  const latin1 = (bytes: Uint8Array) => Buffer.from(bytes).toString('latin1');
+
+  it('should continue long statements on further pages', () => {
+    const appointments = Array.from({ length: 60 }, (_, index) =>
+      appointment(`appt-${index}`, new Date(Date.UTC(2026, 0, 1 + index, 15)))
+    );
+    const superbill = buildSuperbill({
+      practitioner,
+      client,
+      appointments,
+      from: '2026-01-01',
+      to: '2026-03-31',
+    });
+
+    const pdf = latin1(renderSuperbillPdf(superbill, new Date('2026-04-01T15:00:00Z')));
+    const pageCount = Number(pdf.match(/\/Count (\d+)/)![1]);
+
+    expect(pageCount).toBeGreaterThan(1);
+    expect(pdf.match(/\/Type \/Page /g)).toHaveLength(pageCount);
+    expect(pdf.match(/\(ICD-10\) Tj/g)).toHaveLength(pageCount); // Header row on every page
+    expect(pdf).toContain('(NPI: 1234567893) Tj');
+    expect(pdf).toContain('(Statement date 04/01/2026) Tj');
+
+    // Each cross-reference entry points at its object
+    const xrefStart = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    const offsets = [...pdf.slice(xrefStart).matchAll(/(\d{10}) 00000 n/g)].map(([, offset]) =>
+      Number(offset)
+    );
+    expect(offsets).toHaveLength(4 + pageCount * 2);
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset, offset + `${index + 1} 0 obj\n`.length)).toBe(
+        `${index + 1} 0 obj\n`
+      );
+    });
+  });
+
+  it('should date sessions in the practitioner\'s time zone', () => {
+    const superbill = buildSuperbill({
+      practitioner,
+      client,
+      // 10pm on January 31 in New York, February 1 in UTC
+      appointments: [appointment('appt-1', new Date('2026-02-01T03:00:00Z'))],
+      from: '2026-01-01',
+      to: '2026-01-31',
+    });
+
+    const pdf = latin1(renderSuperbillPdf(superbill, new Date('2026-02-01T03:00:00Z')));
+
+    expect(pdf).toContain('(Services from 01/01/2026 to 01/31/2026) Tj');
+    expect(pdf).toContain('(01/31/2026) Tj');
+    expect(pdf).toContain('(Statement date 01/31/2026) Tj');
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Printable invoice HTML
+ *
+ * Renders an invoice as a standalone HTML page with its own styles, to be
+ * opened in a new window and printed (or saved as PDF by the browser).
+ * Every value is escaped, since names and addresses are entered by users.
+ */
+
+import { getInvoiceContent } from './invoices';
+import type { InvoiceDocument } from '@/types/firestore';
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const lines = (values: string[]) => values.map(escapeHtml).join('<br>');
+
+const styles = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #111; margin: 48px; }
+  header { display: flex; justify-content: space-between; align-items: flex-start; }
+  h1 { font-size: 28px; margin: 0 0 8px; }
+  .muted { color: #555; }
+  .parties { display: flex; gap: 64px; margin: 40px 0; }
+  h2 { font-size: 12px; text-transform: uppercase; letter-spacing: 0.05em; color: #555; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { text-align: left; padding: 8px 0; border-bottom: 1px solid #ddd; }
+  .amount { text-align: right; }
+  .summary { width: 50%; margin: 16px 0 0 auto; }
+  .summary td { border-bottom: none; padding: 4px 0; }
+  .summary tr:last-child td { font-weight: bold; border-top: 1px solid #111; }
+  @media print { body { margin: 0; } }
+`;
+
+/**
+ * Render an invoice as a complete HTML document
+ */
+export function renderInvoiceHtml(invoice: InvoiceDocument): string {
+  const content = getInvoiceContent(invoice);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Invoice ${escapeHtml(content.number)}</title>
+<style>${styles}</style>
+</head>
+<body>
+<header>
+  <div>
+    <h1>Invoice</h1>
+    <div class="muted">${escapeHtml(content.number)}</div>
+  </div>
+  <div class="muted">Issued ${escapeHtml(content.issuedOn)}</div>
+</header>
+<section class="parties">
+  <div><h2>From</h2>${lines(content.from)}</div>
+  <div><h2>Bill to</h2>${lines(content.billTo)}</div>
+</section>
+<table>
+  <thead><tr><th>Service</th><th>Date</th><th class="amount">Amount</th></tr></thead>
+  <tbody>
+    <tr>
+      <td>${escapeHtml(content.item.description)}</td>
+      <td>${escapeHtml(content.item.date)}</td>
+      <td class="amount">${escapeHtml(content.item.amount)}</td>
+    </tr>
+  </tbody>
+</table>
+<table class="summary">
+  ${content.summary
+    .map(
+      ({ label, amount }) =>
+        `<tr><td>${escapeHtml(label)}</td><td class="amount">${escapeHtml(amount)}</td></tr>`
+    )
+    .join('\n  ')}
+</table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,56 @@
+/**
+ * Invoice PDF
+ *
+ * Renders an invoice as a one-page PDF with PdfDocument. The layout follows
+ * renderInvoiceHtml.
+ */
+
+import { getInvoiceContent } from './invoices';
+import { MARGIN, PAGE_HEIGHT, PdfDocument, RIGHT_EDGE } from './pdfDocument';
+import type { InvoiceDocument } from '@/types/firestore';
+
+const SECOND_COLUMN = 320;
+
+/**
+ * Render an invoice as a PDF file
+ */
+export function renderInvoicePdf(invoice: InvoiceDocument): Uint8Array {
+  const content = getInvoiceContent(invoice);
+  const pdf = new PdfDocument();
+
+  let y = PAGE_HEIGHT - 80;
+  pdf.text('Invoice', MARGIN, y, { size: 24, bold: true });
+  pdf.text(`Issued ${content.issuedOn}`, RIGHT_EDGE, y, { align: 'right' });
+  pdf.text(content.number, MARGIN, y - 22);
+
+  y -= 70;
+  pdf.text('FROM', MARGIN, y, { size: 9, bold: true });
+  pdf.text('BILL TO', SECOND_COLUMN, y, { size: 9, bold: true });
+  content.from.forEach((line, index) => pdf.text(line, MARGIN, y - 18 - index * 15));
+  content.billTo.forEach((line, index) => pdf.text(line, SECOND_COLUMN, y - 18 - index * 15));
+
+  y -= 18 + Math.max(content.from.length, content.billTo.length) * 15 + 30;
+  pdf.text('Service', MARGIN, y, { bold: true });
+  pdf.text('Date', SECOND_COLUMN, y, { bold: true });
+  pdf.text('Amount', RIGHT_EDGE, y, { bold: true, align: 'right' });
+  pdf.rule(y - 8);
+
+  y -= 26;
+  pdf.text(content.item.description, MARGIN, y);
+  pdf.text(content.item.date, SECOND_COLUMN, y);
+  pdf.text(content.item.amount, RIGHT_EDGE, y, { align: 'right' });
+  pdf.rule(y - 8);
+
+  y -= 30;
+  content.summary.forEach(({ label, amount }, index) => {
+    const last = index === content.summary.length - 1;
+    if (last) {
+      pdf.rule(y + 14, SECOND_COLUMN, RIGHT_EDGE, 0);
+    }
+    pdf.text(label, SECOND_COLUMN, y, { bold: last });
+    pdf.text(amount, RIGHT_EDGE, y, { bold: last, align: 'right' });
+    y -= 20;
+  });
+
+  return pdf.toBytes();
+}
@@ -0,0 +1,191 @@
+/**
+ * Invoices
+ *
+ * Builds the invoice for a paid appointment from the appointment, the
+ * practitioner's billing details and the client's profile. Session prices
+ * include tax, so the amount paid is the invoice total and the tax line is
+ * worked out back from it at the practitioner's rate. Numbering is done by
+ * InvoiceRepository.issueInvoice, which draws the next sequence number.
+ */
+
+import { formatPrice } from '@/lib/utils';
+import type {
+  AppointmentDocument,
+  BillingDetails,
+  InvoiceDocument,
+  IssueInvoiceInput,
+  PractitionerDocument,
+  UserDocument,
+} from '@/types/firestore';
+
+/**
+ * A practitioner's billing details with defaults filled in
+ */
+export interface ResolvedBillingDetails {
+  businessName: string | null;
+  address: string | null;
+  taxId: string | null;
+  licenseNumber: string | null;
+  npi: string | null;
+  taxLabel: string;
+  taxRatePercent: number;
+}
+
+/**
+ * Billing details applied where a practitioner has not set their own: no
+ * address or identifiers, and no tax
+ */
+export const DEFAULT_BILLING_DETAILS: ResolvedBillingDetails = {
+  businessName: null,
+  address: null,
+  taxId: null,
+  licenseNumber: null,
+  npi: null,
+  taxLabel: 'Tax',
+  taxRatePercent: 0,
+};
+
+/**
+ * Prefix of invoice numbers
+ */
+export const INVOICE_NUMBER_PREFIX = 'INV-';
+
+/**
+ * Amounts of an invoice, in cents
+ */
+export interface InvoiceTotals {
+  subtotal: number;
+  tax: number;
+  total: number;
+}
+
+/**
+ * A practitioner's billing details, with defaults for missing fields
+ */
+export function getBillingDetails(
+  practitioner: Pick<PractitionerDocument, 'billing'>
+): ResolvedBillingDetails {
+  const billing = practitioner.billing ?? {};
+  return {
+    businessName: billing.businessName?.trim() || null,
+    address: billing.address?.trim() || null,
+    taxId: billing.taxId?.trim() || null,
+    licenseNumber: billing.licenseNumber?.trim() || null,
+    npi: billing.npi?.trim() || null,
+    taxLabel: billing.taxLabel?.trim() || DEFAULT_BILLING_DETAILS.taxLabel,
+    taxRatePercent: billing.taxRatePercent ?? DEFAULT_BILLING_DETAILS.taxRatePercent,
+  };
+}
+
+/**
+ * Invoice number shown for a sequence number (e.g., 42 → "INV-000042")
+ */
+export function formatInvoiceNumber(sequence: number): string {
+  return `${INVOICE_NUMBER_PREFIX}${String(sequence).padStart(6, '0')}`;
+}
+
+/**
+ * Split an amount that includes tax into its subtotal and tax, rounding the
+ * tax to the nearest cent
+ */
+export function calculateInvoiceTotals(total: number, taxRatePercent: number): InvoiceTotals {
+  const tax =
+    taxRatePercent > 0 ? Math.round((total * taxRatePercent) / (100 + taxRatePercent)) : 0;
+  return { subtotal: total - tax, tax, total };
+}
+
+/**
+ * Details of the invoice for a paid appointment
+ *
+ * @throws Error if the appointment has no price to invoice
+ */
+export function buildInvoice(
+  appointment: AppointmentDocument,
+  practitioner: PractitionerDocument,
+  client: Pick<UserDocument, 'displayName' | 'email'> | null
+): IssueInvoiceInput {
+  if (!appointment.quotedPrice) {
+    throw new Error(`Appointment ${appointment.id} has no price to invoice`);
+  }
+
+  const billing = getBillingDetails(practitioner);
+  const totals = calculateInvoiceTotals(appointment.quotedPrice, billing.taxRatePercent);
+
+  return {
+    appointmentId: appointment.id,
+    practitionerId: appointment.practitionerId,
+    clientId: appointment.clientId,
+    practitioner: {
+      name: billing.businessName ?? practitioner.displayName,
+      email: practitioner.email,
+      address: billing.address,
+      taxId: billing.taxId,
+    },
+    client: {
+      name: client?.displayName || client?.email || 'Client',
+      email: client?.email ?? null,
+    },
+    service: appointment.sessionType?.name ?? 'Session',
+    duration: Math.round(
+      (appointment.endTime.toMillis() - appointment.startTime.toMillis()) / 60000
+    ),
+    sessionDate: appointment.startTime,
+    currency: appointment.currency ?? practitioner.pricing.currency,
+    ...totals,
+    taxLabel: billing.taxLabel,
+    taxRatePercent: billing.taxRatePercent,
+  };
+}
+
+/**
+ * Text of an invoice, laid out the same way by the HTML and PDF renderers
+ */
+export interface InvoiceContent {
+  number: string;
+  issuedOn: string;
+  from: string[]; // Practitioner, one line each
+  billTo: string[]; // Client, one line each
+  item: { description: string; date: string; amount: string };
+  summary: Array<{ label: string; amount: string }>;
+}
+
+const dateFormat: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'long', day: 'numeric' };
+
+/**
+ * Lay out the text of an invoice
+ */
+export function getInvoiceContent(invoice: InvoiceDocument): InvoiceContent {
+  const { practitioner, client } = invoice;
+
+  return {
+    number: invoice.number,
+    issuedOn: invoice.issuedAt.toDate().toLocaleDateString(undefined, dateFormat),
+    from: [
+      practitioner.name,
+      ...(practitioner.address?.split('\n').map((line) => line.trim()).filter(Boolean) ?? []),
+      ...(practitioner.email ? [practitioner.email] : []),
+      ...(practitioner.taxId ? [`${invoice.taxLabel} ID: ${practitioner.taxId}`] : []),
+    ],
+    billTo: [client.name, ...(client.email && client.email !== client.name ? [client.email] : [])],
+    item: {
+      description: `${invoice.service} (${invoice.duration} min)`,
+      date: invoice.sessionDate.toDate().toLocaleDateString(undefined, dateFormat),
+      amount: formatPrice(invoice.total, invoice.currency),
+    },
+    summary: [
+      { label: 'Subtotal', amount: formatPrice(invoice.subtotal, invoice.currency) },
+      {
+        label: `${invoice.taxLabel} (${invoice.taxRatePercent}%)`,
+        amount: formatPrice(invoice.tax, invoice.currency),
+      },
+      { label: 'Total paid', amount: formatPrice(invoice.total, invoice.currency) },
+    ],
+  };
+}
+
+/**
+ * File name an invoice is downloaded as (e.g., "INV-000042.pdf")
+ */
+export function getInvoiceFileName(invoice: Pick<InvoiceDocument, 'number'>): string {
+  return `${invoice.number}.pdf`;
+}
@@ -0,0 +1,208 @@
+/**
+ * PDF document writer
+ *
+ * Just enough of PDF to lay out billing documents without a PDF library:
+ * text and horizontal rules on US Letter pages. Text is drawn with the
+ * standard Helvetica fonts, which every PDF reader has, so nothing is
+ * embedded. It is written in WinAnsiEncoding: characters it cannot show
+ * (outside Western European scripts) are printed as "?". Used by the
+ * invoice and superbill renderers.
+ */
+
+export const PAGE_WIDTH = 612; // US Letter, in points
+export const PAGE_HEIGHT = 792;
+export const MARGIN = 56;
+export const RIGHT_EDGE = PAGE_WIDTH - MARGIN;
+
+/**
+ * Characters outside Latin-1 that WinAnsiEncoding places at 0x80-0x9F
+ */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  'ƒ': 0x83,
+  '„': 0x84,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+};
+
+/**
+ * Helvetica widths (per 1000 points of font size) of characters narrower
+ * or wider than a digit, for aligning and fitting text
+ */
+const CHAR_WIDTHS: Record<string, number> = {
+  ' ': 278,
+  '.': 278,
+  ',': 278,
+  ':': 278,
+  '/': 278,
+  '(': 333,
+  ')': 333,
+  '-': 333,
+  '%': 889,
+  '…': 1000,
+  i: 222,
+  l: 222,
+  j: 222,
+  f: 278,
+  t: 278,
+  r: 333,
+  m: 833,
+  w: 722,
+  M: 833,
+  W: 944,
+};
+const DEFAULT_WIDTH = 556;
+
+/**
+ * How to draw a line of text
+ */
+export interface PdfTextOptions {
+  size?: number; // Points, default 11
+  bold?: boolean;
+  align?: 'left' | 'right'; // Whether x is the left or right end of the text
+  maxWidth?: number; // Shorten longer text with an ellipsis
+}
+
+/**
+ * Encode text as a PDF string literal in WinAnsiEncoding
+ */
+function toPdfString(value: string): string {
+  let encoded = '';
+  for (const char of value) {
+    const code = char.charCodeAt(0);
+    let byte: number;
+    if (char === '\u202f' || char === '\u2009') {
+      byte = 0x20; // Thin spaces some locales put in amounts
+    } else if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) {
+      byte = code;
+    } else {
+      byte = WIN_ANSI_EXTRAS[char] ?? 0x3f; // '?'
+    }
+
+    const encodedChar = String.fromCharCode(byte);
+    encoded += '()\\'.includes(encodedChar) ? `\\${encodedChar}` : encodedChar;
+  }
+  return `(${encoded})`;
+}
+
+/**
+ * Approximate width of text in Helvetica, in points
+ */
+export function textWidth(value: string, size: number): number {
+  let width = 0;
+  for (const char of value) {
+    width += CHAR_WIDTHS[char] ?? DEFAULT_WIDTH;
+  }
+  return (width * size) / 1000;
+}
+
+/**
+ * Shorten text to fit a width, ending it with an ellipsis
+ */
+function fitText(value: string, maxWidth: number, size: number): string {
+  if (textWidth(value, size) <= maxWidth) {
+    return value;
+  }
+
+  let fitted = value;
+  while (fitted.length > 0 && textWidth(`${fitted}…`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+}
+
+/**
+ * A PDF being laid out, one page after another
+ */
+export class PdfDocument {
+  private readonly pages: string[][] = [[]];
+
+  private get operations(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  /**
+   * Number of pages so far
+   */
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /**
+   * Draw a line of text with its baseline at y (points from the bottom)
+   */
+  text(value: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 11;
+    const fitted = options.maxWidth ? fitText(value, options.maxWidth, size) : value;
+    const left = options.align === 'right' ? x - textWidth(fitted, size) : x;
+    this.operations.push(
+      `BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${y} Td ` +
+        `${toPdfString(fitted)} Tj ET`
+    );
+  }
+
+  /**
+   * Draw a horizontal rule (gray from 0, black, to 1, white)
+   */
+  rule(y: number, from = MARGIN, to = RIGHT_EDGE, gray = 0.8): void {
+    this.operations.push(`${gray} G ${from} ${y} m ${to} ${y} l S`);
+  }
+
+  /**
+   * Start a new page; drawing continues on it
+   */
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  /**
+   * Write the file, working out the byte offsets of its objects for the
+   * cross-reference table
+   */
+  toBytes(): Uint8Array {
+    // Catalog, page tree and fonts, then each page and its content stream
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] ` +
+        `/Count ${this.pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ];
+    this.pages.forEach((operations, index) => {
+      const stream = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+        `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+      );
+    });
+
+    // The second line marks the file as binary for transfer tools
+    let pdf = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(pdf.length);
+      pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    for (const offset of offsets) {
+      pdf += `${String(offset).padStart(10, '0')} 00000 n \n`;
+    }
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\n`;
+    pdf += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+    // Every character is a single byte at this point
+    return Uint8Array.from(pdf, (char) => char.charCodeAt(0));
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Superbill PDF
+ *
+ * Renders a superbill with PdfDocument: provider and client details, the
+ * diagnosis codes, a table of sessions that continues over as many pages as
+ * it needs (repeating its header row), totals and a signature line. Dates
+ * are written MM/DD/YYYY, as US insurers' claim forms expect, in the
+ * practitioner's time zone.
+ */
+
+import { MARGIN, PAGE_HEIGHT, PdfDocument, RIGHT_EDGE, textWidth } from './pdfDocument';
+import type { Superbill } from './superbills';
+import { formatInTimeZone } from '@/lib/scheduling/timezone';
+import { formatPrice } from '@/lib/utils';
+
+const SECOND_COLUMN = 320;
+const TOP = PAGE_HEIGHT - 80;
+const BOTTOM = MARGIN + 30; // Lowest row, above the page number
+const ROW_HEIGHT = 18;
+
+// Table columns: left edges, or right edges for amounts
+const SERVICE_COLUMN = 130;
+const CODE_COLUMN = 300;
+const DIAGNOSIS_COLUMN = 350;
+const FEE_COLUMN = 486;
+
+
+/**
+ * Split a list into lines of text no wider than maxWidth
+ */
+function wrapList(items: string[], maxWidth: number, size: number): string[] {
+  const lines: string[] = [];
+  for (const item of items) {
+    const last = lines[lines.length - 1];
+    if (last !== undefined && textWidth(`${last}, ${item}`, size) <= maxWidth) {
+      lines[lines.length - 1] = `${last}, ${item}`;
+    } else {
+      lines.push(item);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Render a superbill as a PDF file
+ *
+ * @param preparedOn - Date printed as the statement date
+ */
+export function renderSuperbillPdf(superbill: Superbill, preparedOn = new Date()): Uint8Array {
+  const { provider, client, currency } = superbill;
+  const pdf = new PdfDocument();
+  const price = (amount: number) => formatPrice(amount, currency);
+  const formatDate = (date: Date) =>
+    formatInTimeZone(
+      date,
+      superbill.timeZone,
+      { year: 'numeric', month: '2-digit', day: '2-digit' },
+      'en-US'
+    );
+
+  const pageNumber = () =>
+    pdf.text(`Page ${pdf.pageCount}`, RIGHT_EDGE, MARGIN, { size: 9, align: 'right' });
+  const newPage = () => {
+    pdf.addPage();
+    pageNumber();
+    return TOP;
+  };
+  const tableHeader = (y: number) => {
+    pdf.text('Date', MARGIN, y, { size: 10, bold: true });
+    pdf.text('Service', SERVICE_COLUMN, y, { size: 10, bold: true });
+    pdf.text('CPT', CODE_COLUMN, y, { size: 10, bold: true });
+    pdf.text('ICD-10', DIAGNOSIS_COLUMN, y, { size: 10, bold: true });
+    pdf.text('Fee', FEE_COLUMN, y, { size: 10, bold: true, align: 'right' });
+    pdf.text('Paid', RIGHT_EDGE, y, { size: 10, bold: true, align: 'right' });
+    pdf.rule(y - 8);
+    return y - 24;
+  };
+
+  pageNumber();
+  let y = TOP;
+  pdf.text('Superbill', MARGIN, y, { size: 24, bold: true });
+  pdf.text(`Statement date ${formatDate(preparedOn)}`, RIGHT_EDGE, y, { align: 'right' });
+  pdf.text(
+    `Services from ${formatDate(superbill.from)} to ${formatDate(superbill.to)}`,
+    MARGIN,
+    y - 22
+  );
+
+  const providerLines = [
+    provider.name,
+    ...(provider.businessName && provider.businessName !== provider.name
+      ? [provider.businessName]
+      : []),
+    ...(provider.address?.split('\n').map((line) => line.trim()).filter(Boolean) ?? []),
+    provider.email,
+    ...(provider.licenseNumber ? [`License: ${provider.licenseNumber}`] : []),
+    ...(provider.npi ? [`NPI: ${provider.npi}`] : []),
+    ...(provider.taxId ? [`Tax ID: ${provider.taxId}`] : []),
+  ];
+  const clientLines = [
+    client.name,
+    ...(client.dateOfBirth ? [`Date of birth: ${client.dateOfBirth}`] : []),
+    ...(client.address?.split('\n').map((line) => line.trim()).filter(Boolean) ?? []),
+  ];
+
+  y -= 70;
+  pdf.text('PROVIDER', MARGIN, y, { size: 9, bold: true });
+  pdf.text('CLIENT', SECOND_COLUMN, y, { size: 9, bold: true });
+  const partyWidth = SECOND_COLUMN - MARGIN - 16;
+  providerLines.forEach((line, index) =>
+    pdf.text(line, MARGIN, y - 18 - index * 15, { maxWidth: partyWidth })
+  );
+  clientLines.forEach((line, index) =>
+    pdf.text(line, SECOND_COLUMN, y - 18 - index * 15, { maxWidth: RIGHT_EDGE - SECOND_COLUMN })
+  );
+  y -= 18 + Math.max(providerLines.length, clientLines.length) * 15 + 20;
+
+  pdf.text('DIAGNOSIS CODES (ICD-10)', MARGIN, y, { size: 9, bold: true });
+  const diagnosisLines =
+    superbill.diagnosisCodes.length > 0
+      ? wrapList(superbill.diagnosisCodes, RIGHT_EDGE - MARGIN, 11)
+      : ['None recorded'];
+  diagnosisLines.forEach((line, index) => pdf.text(line, MARGIN, y - 18 - index * 15));
+  y -= 18 + diagnosisLines.length * 15 + 24;
+
+  y = tableHeader(y);
+  for (const line of superbill.lines) {
+    if (y < BOTTOM) {
+      y = tableHeader(newPage());
+    }
+    pdf.text(formatDate(line.date), MARGIN, y, { size: 10 });
+    pdf.text(`${line.service} (${line.duration} min)`, SERVICE_COLUMN, y, {
+      size: 10,
+      maxWidth: CODE_COLUMN - SERVICE_COLUMN - 8,
+    });
+    pdf.text(line.procedureCode ?? '-', CODE_COLUMN, y, { size: 10 });
+    pdf.text(line.diagnosisCodes.join(', ') || '-', DIAGNOSIS_COLUMN, y, {
+      size: 10,
+      maxWidth: FEE_COLUMN - DIAGNOSIS_COLUMN - 60,
+    });
+    pdf.text(price(line.fee), FEE_COLUMN, y, { size: 10, align: 'right' });
+    pdf.text(price(line.paid), RIGHT_EDGE, y, { size: 10, align: 'right' });
+    y -= ROW_HEIGHT;
+  }
+  pdf.rule(y + ROW_HEIGHT - 8);
+
+  // Totals and signature stay together
+  if (y - 130 < BOTTOM) {
+    y = newPage();
+  }
+  y -= 12;
+  const totals = [
+    { label: 'Total charges', amount: price(superbill.totalFees) },
+    { label: 'Total paid', amount: price(superbill.totalPaid) },
+    { label: 'Balance due', amount: price(superbill.totalFees - superbill.totalPaid) },
+  ];
+  totals.forEach(({ label, amount }, index) => {
+    const last = index === totals.length - 1;
+    if (last) {
+      pdf.rule(y + 14, SECOND_COLUMN, RIGHT_EDGE, 0);
+    }
+    pdf.text(label, SECOND_COLUMN, y, { bold: last });
+    pdf.text(amount, RIGHT_EDGE, y, { bold: last, align: 'right' });
+    y -= 20;
+  });
+
+  y -= 40;
+  pdf.rule(y, MARGIN, 280, 0);
+  pdf.rule(y, SECOND_COLUMN, RIGHT_EDGE, 0);
+  pdf.text('Provider signature', MARGIN, y - 14, { size: 9 });
+  pdf.text('Date', SECOND_COLUMN, y - 14, { size: 9 });
+
+  return pdf.toBytes();
+}
@@ -0,0 +1,246 @@
+/**
+ * Superbills
+ *
+ * A superbill is the itemised statement a client sends their insurer to be
+ * reimbursed for out-of-network sessions. It lists the client's completed
+ * sessions over a date range with the procedure (CPT) and diagnosis
+ * (ICD-10) codes of each session's type, next to the provider's license
+ * number, NPI and tax ID. Fees are the prices quoted at booking; only
+ * sessions whose payment went through count as paid. Days are those of the
+ * practitioner's time zone, wherever the superbill is prepared.
+ */
+
+import { getBillingDetails } from './invoices';
+import {
+  addCalendarDays,
+  compareCalendarDates,
+  formatCalendarDate,
+  getZonedCalendarDate,
+  parseCalendarDate,
+  zonedTimeToUtc,
+  type CalendarDate,
+} from '@/lib/scheduling/timezone';
+import { getSessionTypes } from '@/lib/scheduling/sessionTypes';
+import type { AppointmentDocument, PractitionerDocument } from '@/types/firestore';
+
+/**
+ * Client details printed on a superbill, entered by the practitioner
+ */
+export interface SuperbillClient {
+  name: string;
+  dateOfBirth: string | null;
+  address: string | null;
+}
+
+/**
+ * Provider details printed on a superbill
+ */
+export interface SuperbillProvider {
+  name: string;
+  businessName: string | null;
+  email: string;
+  address: string | null;
+  licenseNumber: string | null;
+  npi: string | null;
+  taxId: string | null;
+}
+
+/**
+ * One session on a superbill
+ */
+export interface SuperbillLine {
+  appointmentId: string;
+  date: Date;
+  service: string;
+  duration: number; // Minutes
+  procedureCode: string | null;
+  diagnosisCodes: string[];
+  fee: number; // Cents
+  paid: number; // Cents
+}
+
+/**
+ * A superbill for a client's sessions over a date range
+ */
+export interface Superbill {
+  provider: SuperbillProvider;
+  client: SuperbillClient;
+  from: Date; // Start of the first day
+  to: Date; // End of the last day
+  timeZone: string; // The practitioner's, which the days and dates are in
+  currency: string;
+  lines: SuperbillLine[]; // Oldest first
+  diagnosisCodes: string[]; // Every diagnosis code on the lines, in first-seen order
+  totalFees: number;
+  totalPaid: number;
+}
+
+/**
+ * What a superbill is built from
+ */
+export interface BuildSuperbillInput {
+  practitioner: PractitionerDocument;
+  client: SuperbillClient;
+  appointments: AppointmentDocument[]; // The client's appointments with the practitioner
+  from: string; // First day included ("yyyy-MM-dd")
+  to: string; // Last day included ("yyyy-MM-dd")
+}
+
+const PROCEDURE_CODE_PATTERN = /^\d{4}[0-9A-Z]$/;
+const DIAGNOSIS_CODE_PATTERN = /^[A-Z]\d[0-9A-Z](\.?[0-9A-Z]{1,4})?$/; // Dot optional, as on claims
+
+/**
+ * Whether a code looks like a CPT or HCPCS code (e.g., "90837")
+ */
+export function isValidProcedureCode(code: string): boolean {
+  return PROCEDURE_CODE_PATTERN.test(code);
+}
+
+/**
+ * Whether a code looks like an ICD-10 code (e.g., "F41.1")
+ */
+export function isValidDiagnosisCode(code: string): boolean {
+  return DIAGNOSIS_CODE_PATTERN.test(code);
+}
+
+/**
+ * Split codes typed as a list (e.g., "f41.1, F32.0") into upper-case codes,
+ * without repeats
+ */
+export function parseBillingCodes(value: string): string[] {
+  const codes = value
+    .split(/[\s,;]+/)
+    .map((code) => code.trim().toUpperCase())
+    .filter(Boolean);
+  return [...new Set(codes)];
+}
+
+/**
+ * Time zone a practitioner's superbills are dated in
+ */
+export function getSuperbillTimeZone(practitioner: PractitionerDocument): string {
+  return practitioner.availabilityRules?.timezone ?? 'UTC';
+}
+
+/**
+ * Start of a calendar day in the time zone
+ */
+const startOfZonedDay = (date: CalendarDate, timeZone: string) =>
+  zonedTimeToUtc({ ...date, hour: 0, minute: 0 }, timeZone);
+
+/**
+ * Completed appointments that started within a date range, oldest first
+ *
+ * @param from - First day included ("yyyy-MM-dd" in the time zone)
+ * @param to - Last day included ("yyyy-MM-dd" in the time zone)
+ */
+export function getSuperbillAppointments(
+  appointments: AppointmentDocument[],
+  from: string,
+  to: string,
+  timeZone: string
+): AppointmentDocument[] {
+  const start = startOfZonedDay(parseCalendarDate(from), timeZone).getTime();
+  const end = startOfZonedDay(addCalendarDays(parseCalendarDate(to), 1), timeZone).getTime();
+
+  return appointments
+    .filter((appointment) => {
+      const startTime = appointment.startTime.toMillis();
+      return appointment.status === 'completed' && startTime >= start && startTime < end;
+    })
+    .sort((a, b) => a.startTime.toMillis() - b.startTime.toMillis());
+}
+
+/**
+ * Build the superbill for a client's completed sessions within a date range
+ *
+ * @throws Error if the range is reversed, has no completed sessions, or has
+ *   sessions charged in different currencies
+ */
+export function buildSuperbill({
+  practitioner,
+  client,
+  appointments,
+  from,
+  to,
+}: BuildSuperbillInput): Superbill {
+  const firstDay = parseCalendarDate(from);
+  const lastDay = parseCalendarDate(to);
+  if (compareCalendarDates(firstDay, lastDay) > 0) {
+    throw new Error('The start date must be on or before the end date');
+  }
+
+  const timeZone = getSuperbillTimeZone(practitioner);
+  const included = getSuperbillAppointments(appointments, from, to, timeZone);
+  if (included.length === 0) {
+    throw new Error('No completed sessions in this date range');
+  }
+
+  const currencies = new Set(
+    included.map((appointment) => appointment.currency ?? practitioner.pricing.currency)
+  );
+  if (currencies.size > 1) {
+    throw new Error('Sessions in this date range were charged in different currencies');
+  }
+
+  const sessionTypes = new Map(getSessionTypes(practitioner).map((type) => [type.id, type]));
+  const lines = included.map((appointment): SuperbillLine => {
+    const sessionType = appointment.sessionType
+      ? sessionTypes.get(appointment.sessionType.id)
+      : undefined;
+    const fee = appointment.quotedPrice ?? 0;
+
+    return {
+      appointmentId: appointment.id,
+      date: appointment.startTime.toDate(),
+      service: appointment.sessionType?.name ?? 'Session',
+      duration: Math.round(
+        (appointment.endTime.toMillis() - appointment.startTime.toMillis()) / 60000
+      ),
+      procedureCode: sessionType?.procedureCode || null,
+      diagnosisCodes: sessionType?.diagnosisCodes ?? [],
+      fee,
+      paid: appointment.paymentStatus === 'paid' ? fee : 0,
+    };
+  });
+
+  const billing = getBillingDetails(practitioner);
+  return {
+    provider: {
+      name: practitioner.displayName,
+      businessName: billing.businessName,
+      email: practitioner.email,
+      address: billing.address,
+      licenseNumber: billing.licenseNumber,
+      npi: billing.npi,
+      taxId: billing.taxId,
+    },
+    client,
+    from: startOfZonedDay(firstDay, timeZone),
+    to: new Date(startOfZonedDay(addCalendarDays(lastDay, 1), timeZone).getTime() - 1),
+    timeZone,
+    currency: [...currencies][0],
+    lines,
+    diagnosisCodes: [...new Set(lines.flatMap((line) => line.diagnosisCodes))],
+    totalFees: lines.reduce((sum, line) => sum + line.fee, 0),
+    totalPaid: lines.reduce((sum, line) => sum + line.paid, 0),
+  };
+}
+
+/**
+ * File name a superbill is downloaded as (e.g.,
+ * "superbill-sam-client-2026-01-01-2026-03-31.pdf")
+ */
+export function getSuperbillFileName(
+  superbill: Pick<Superbill, 'client' | 'from' | 'to' | 'timeZone'>
+): string {
+  const name = superbill.client.name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Accents left over from decomposing
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  const day = (date: Date) => formatCalendarDate(getZonedCalendarDate(date, superbill.timeZone));
+  const range = `${day(superbill.from)}-${day(superbill.to)}`;
+  return `superbill-${name ? `${name}-` : ''}${range}.pdf`;
+}
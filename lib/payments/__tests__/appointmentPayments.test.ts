@@ -0,0 +1,159 @@
+/**
+ * Tests for appointment payment rules
+ */
+
+import type { Timestamp } from 'firebase/firestore';
+import {
+  canChangePaymentStatus,
+  getAppointmentPaymentAction,
+  isPaidAppointment,
+} from '../appointmentPayments';
+import type { AppointmentDocument } from '@/types/firestore';
+
+const appointment = (overrides: Partial<AppointmentDocument> = {}) =>
+  ({
+    status: 'pending',
+    quotedPrice: 12000,
+    currency: 'USD',
+    quoteVerified: true,
+    paymentStatus: null,
+    paymentIntentId: null,
+    waitlistOffer: null,
+    ...overrides,
+  }) as AppointmentDocument;
+
+describe('canChangePaymentStatus', () => {
+  it('should allow pending, then paid, then refunded', () => {
+    expect(canChangePaymentStatus(null, 'pending')).toBe(true);
+    expect(canChangePaymentStatus('pending', 'paid')).toBe(true);
+    expect(canChangePaymentStatus('paid', 'refunded')).toBe(true);
+  });
+
+  it('should reject skipped and backward changes', () => {
+    expect(canChangePaymentStatus(undefined, 'paid')).toBe(false);
+    expect(canChangePaymentStatus('pending', 'refunded')).toBe(false);
+    expect(canChangePaymentStatus('paid', 'cancelled')).toBe(false);
+    expect(canChangePaymentStatus('refunded', 'paid')).toBe(false);
+  });
+});
+
+describe('isPaidAppointment', () => {
+  it('should need a price and a currency', () => {
+    expect(isPaidAppointment(appointment())).toBe(true);
+    expect(isPaidAppointment(appointment({ quotedPrice: 0 }))).toBe(false);
+    expect(isPaidAppointment(appointment({ currency: null }))).toBe(false);
+  });
+});
+
+describe('getAppointmentPaymentAction', () => {
+  it('should price a new booking before starting its payment', () => {
+    expect(getAppointmentPaymentAction(appointment({ quoteVerified: null }))).toBe('quote');
+    expect(
+      getAppointmentPaymentAction(appointment({ quoteVerified: null, quotedPrice: null }))
+    ).toBe('quote');
+    expect(
+      getAppointmentPaymentAction(appointment({ quoteVerified: null, status: 'cancelled' }))
+    ).toBeNull();
+  });
+
+  it('should start the payment of a paid booking', () => {
+    expect(getAppointmentPaymentAction(appointment())).toBe('create');
+    expect(getAppointmentPaymentAction(appointment({ status: 'confirmed' }))).toBe('create');
+  });
+
+  it('should not start payments for free or ended appointments', () => {
+    expect(getAppointmentPaymentAction(appointment({ quotedPrice: null }))).toBeNull();
+    expect(getAppointmentPaymentAction(appointment({ status: 'cancelled' }))).toBeNull();
+  });
+
+  it('should wait for the client to accept a waitlist offer', () => {
+    const offer = {
+      entryId: 'entry-1',
+      expiresAt: {} as Timestamp,
+      acceptedAt: null,
+      passedEntryIds: [],
+    };
+
+    expect(getAppointmentPaymentAction(appointment({ waitlistOffer: offer }))).toBeNull();
+    expect(
+      getAppointmentPaymentAction(
+        appointment({ waitlistOffer: { ...offer, acceptedAt: {} as Timestamp } })
+      )
+    ).toBe('create');
+  });
+
+  it('should capture once the session is confirmed', () => {
+    const started = { paymentStatus: 'pending' as const, paymentIntentId: 'pi_1' };
+
+    expect(getAppointmentPaymentAction(appointment(started))).toBeNull();
+    expect(getAppointmentPaymentAction(appointment({ ...started, status: 'confirmed' }))).toBe(
+      'capture'
+    );
+    expect(getAppointmentPaymentAction(appointment({ ...started, status: 'no-show' }))).toBe(
+      'capture'
+    );
+  });
+
+  it('should release the payment of a request that was cancelled', () => {
+    expect(
+      getAppointmentPaymentAction(
+        appointment({ status: 'cancelled', paymentStatus: 'pending', paymentIntentId: 'pi_1' })
+      )
+    ).toBe('cancel');
+  });
+
+  it('should invoice a captured payment', () => {
+    const captured = { paymentStatus: 'paid' as const, paymentIntentId: 'pi_1' };
+
+    expect(getAppointmentPaymentAction(appointment({ ...captured, status: 'completed' }))).toBe(
+      'invoice'
+    );
+    // Before refunding it
+    expect(getAppointmentPaymentAction(appointment({ ...captured, status: 'cancelled' }))).toBe(
+      'invoice'
+    );
+    expect(
+      getAppointmentPaymentAction(
+        appointment({ ...captured, status: 'completed', invoiceId: 'appt-1' })
+      )
+    ).toBeNull();
+  });
+
+  it('should refund a cancelled session that was paid for', () => {
+    const paid = { paymentStatus: 'paid' as const, paymentIntentId: 'pi_1', invoiceId: 'appt-1' };
+
+    expect(getAppointmentPaymentAction(appointment({ ...paid, status: 'cancelled' }))).toBe(
+      'refund'
+    );
+    // Marked refunded by the webhook before the refund was recorded
+    expect(
+      getAppointmentPaymentAction(
+        appointment({ ...paid, status: 'cancelled', paymentStatus: 'refunded' })
+      )
+    ).toBe('refund');
+    expect(getAppointmentPaymentAction(appointment({ ...paid, status: 'completed' }))).toBeNull();
+  });
+
+  it('should leave settled payments alone', () => {
+    const refund = {
+      amount: 12000,
+      reason: 'practitioner-cancelled' as const,
+      refundId: 're_1',
+      refundedAt: {} as Timestamp,
+    };
+
+    for (const paymentStatus of ['paid', 'refunded', 'cancelled'] as const) {
+      expect(
+        getAppointmentPaymentAction(
+          appointment({
+            status: 'cancelled',
+            paymentStatus,
+            paymentIntentId: 'pi_1',
+            invoiceId: 'appt-1',
+            refund,
+          })
+        )
+      ).toBeNull();
+    }
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Tests for payment webhook events
+ */
+
+import { reconcilePaymentEvent } from '../paymentEvents';
+import { canReachPaymentStatus } from '../appointmentPayments';
+
+describe('canReachPaymentStatus', () => {
+  it('should follow the transitions through intermediate statuses', () => {
+    expect(canReachPaymentStatus('pending', 'refunded')).toBe(true);
+    expect(canReachPaymentStatus(null, 'paid')).toBe(true);
+    expect(canReachPaymentStatus('cancelled', 'paid')).toBe(false);
+    expect(canReachPaymentStatus('refunded', 'paid')).toBe(false);
+  });
+});
+
+describe('reconcilePaymentEvent', () => {
+  it('should move the payment on to the status the event proves', () => {
+    expect(reconcilePaymentEvent('pending', 'payment.captured')).toEqual({
+      outcome: 'applied',
+      paymentStatus: 'paid',
+    });
+    expect(reconcilePaymentEvent('pending', 'payment.cancelled')).toEqual({
+      outcome: 'applied',
+      paymentStatus: 'cancelled',
+    });
+  });
+
+  it('should apply a refund that arrives before its capture', () => {
+    expect(reconcilePaymentEvent('pending', 'payment.refunded')).toEqual({
+      outcome: 'applied',
+      paymentStatus: 'refunded',
+    });
+    expect(reconcilePaymentEvent('refunded', 'payment.captured')).toEqual({
+      outcome: 'stale',
+      paymentStatus: 'refunded',
+    });
+  });
+
+  it('should ignore events that change nothing', () => {
+    expect(reconcilePaymentEvent('paid', 'payment.captured').outcome).toBe('ignored');
+    expect(reconcilePaymentEvent('pending', 'payment.authorized').outcome).toBe('ignored');
+    expect(reconcilePaymentEvent('pending', 'payment.failed').outcome).toBe('ignored');
+    expect(reconcilePaymentEvent('pending', 'other').outcome).toBe('ignored');
+  });
+
+  it('should treat events contradicting a settled payment as stale', () => {
+    expect(reconcilePaymentEvent('cancelled', 'payment.captured').outcome).toBe('stale');
+    expect(reconcilePaymentEvent('paid', 'payment.cancelled').outcome).toBe('stale');
+  });
+});
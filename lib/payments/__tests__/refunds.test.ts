@@ -0,0 +1,105 @@
+/**
+ * Tests for cancellation refunds
+ */
+
+import type { Timestamp } from 'firebase/firestore';
+import { describeRefundStatus, getCancellationRefund, getRefundReason } from '../refunds';
+import type { AppointmentDocument } from '@/types/firestore';
+
+const cancelled = (overrides: Partial<AppointmentDocument> = {}) =>
+  ({
+    status: 'cancelled',
+    cancelledBy: 'client',
+    lateCancellation: false,
+    feeOwed: 0,
+    quotedPrice: 12000,
+    currency: 'USD',
+    paymentStatus: 'paid',
+    refund: null,
+    ...overrides,
+  }) as AppointmentDocument;
+
+describe('getRefundReason', () => {
+  it('should follow who cancelled and whether it was late', () => {
+    expect(getRefundReason({ cancelledBy: 'practitioner', lateCancellation: false })).toBe(
+      'practitioner-cancelled'
+    );
+    expect(getRefundReason({ cancelledBy: 'system', lateCancellation: false })).toBe(
+      'system-cancelled'
+    );
+    expect(getRefundReason({ cancelledBy: 'client', lateCancellation: false })).toBe(
+      'cancelled-in-time'
+    );
+    expect(getRefundReason({ cancelledBy: 'client', lateCancellation: true })).toBe(
+      'late-cancellation'
+    );
+  });
+});
+
+describe('getCancellationRefund', () => {
+  it('should refund in full unless the client cancelled late', () => {
+    expect(getCancellationRefund(cancelled())).toEqual({
+      amount: 12000,
+      reason: 'cancelled-in-time',
+    });
+    expect(getCancellationRefund(cancelled({ cancelledBy: 'practitioner', feeOwed: 3000 }))).toEqual(
+      { amount: 12000, reason: 'practitioner-cancelled' }
+    );
+  });
+
+  it('should keep the late cancellation fee', () => {
+    expect(
+      getCancellationRefund(cancelled({ lateCancellation: true, feeOwed: 3000 }))
+    ).toEqual({ amount: 9000, reason: 'late-cancellation' });
+    expect(
+      getCancellationRefund(cancelled({ lateCancellation: true, feeOwed: 15000 }))?.amount
+    ).toBe(0);
+  });
+
+  it('should only refund cancelled sessions that were paid for', () => {
+    expect(getCancellationRefund(cancelled({ status: 'completed' }))).toBeNull();
+    expect(getCancellationRefund(cancelled({ paymentStatus: 'pending' }))).toBeNull();
+    expect(getCancellationRefund(cancelled({ paymentStatus: null }))).toBeNull();
+  });
+});
+
+describe('describeRefundStatus', () => {
+  const refund = (amount: number, reason: 'cancelled-in-time' | 'late-cancellation') => ({
+    amount,
+    reason,
+    refundId: amount > 0 ? 're_1' : null,
+    refundedAt: {} as Timestamp,
+  });
+
+  it('should describe refunds being processed and made', () => {
+    expect(describeRefundStatus(cancelled())).toBe('Refund of $120.00 processing');
+    expect(
+      describeRefundStatus(
+        cancelled({ paymentStatus: 'refunded', refund: refund(12000, 'cancelled-in-time') })
+      )
+    ).toBe('Refunded $120.00 in full');
+    expect(
+      describeRefundStatus(
+        cancelled({
+          lateCancellation: true,
+          feeOwed: 3000,
+          paymentStatus: 'refunded',
+          refund: refund(9000, 'late-cancellation'),
+        })
+      )
+    ).toBe('Refunded $90.00 (less the late cancellation fee)');
+  });
+
+  it('should explain when the fee keeps the whole payment', () => {
+    expect(
+      describeRefundStatus(
+        cancelled({ lateCancellation: true, feeOwed: 12000, refund: refund(0, 'late-cancellation') })
+      )
+    ).toBe('No refund: the late cancellation fee covers the session price');
+  });
+
+  it('should say nothing when no refund applies', () => {
+    expect(describeRefundStatus(cancelled({ paymentStatus: null }))).toBeNull();
+    expect(describeRefundStatus(cancelled({ status: 'completed' }))).toBeNull();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Appointment payments
+ *
+ * Which payment status changes are allowed, and what an appointment's
+ * status asks of its payment: a new booking is first priced from the
+ * practitioner's rates (the price the client booked with is not trusted),
+ * a paid session then authorizes that price, the practitioner confirming
+ * it captures the payment once authorized (for now only the mock gateway
+ * authorizes payments; see services/payments/paymentGateway.ts), a request
+ * that ends without being confirmed releases the authorization, a captured
+ * payment gets an invoice, and cancelling a session that was paid for
+ * refunds it (see refunds.ts).
+ * services/payments/appointmentPayments.ts carries the actions out and
+ * firestore.rules mirrors the transitions, so keep them in sync.
+ */
+
+import type { AppointmentDocument, PaymentStatus } from '@/types/firestore';
+
+/**
+ * Allowed payment status changes, by current status ('none' before a
+ * payment is started). Anything not listed is rejected.
+ */
+export const PAYMENT_STATUS_TRANSITIONS: Readonly<
+  Record<PaymentStatus | 'none', readonly PaymentStatus[]>
+> = {
+  none: ['pending'],
+  pending: ['paid', 'cancelled'],
+  paid: ['refunded'],
+  refunded: [],
+  cancelled: [],
+};
+
+/**
+ * Whether an appointment's payment can move from one status to another
+ */
+export function canChangePaymentStatus(
+  from: PaymentStatus | null | undefined,
+  to: PaymentStatus
+): boolean {
+  return PAYMENT_STATUS_TRANSITIONS[from ?? 'none'].includes(to);
+}
+
+/**
+ * Whether an appointment's payment can get from one status to another in
+ * one or more allowed changes (e.g. 'pending' to 'refunded' through 'paid')
+ */
+export function canReachPaymentStatus(
+  from: PaymentStatus | null | undefined,
+  to: PaymentStatus
+): boolean {
+  return PAYMENT_STATUS_TRANSITIONS[from ?? 'none'].some(
+    (next) => next === to || canReachPaymentStatus(next, to)
+  );
+}
+
+/**
+ * What the payment of an appointment needs next:
+ * - 'quote': price a new booking from the practitioner's rates and the
+ *   client's history (see getBookedSessionQuote)
+ * - 'create': authorize the quoted price of a new booking
+ * - 'capture': take the authorized payment of a confirmed session
+ * - 'cancel': release the authorization of a request that was cancelled,
+ *   declined or expired before it was confirmed
+ * - 'invoice': issue the invoice for a captured payment
+ * - 'refund': refund a cancelled session's captured payment under its
+ *   cancellation terms
+ */
+export type AppointmentPaymentAction =
+  | 'quote'
+  | 'create'
+  | 'capture'
+  | 'cancel'
+  | 'invoice'
+  | 'refund';
+
+/**
+ * Appointment fields that decide what its payment needs
+ */
+type PayableAppointment = Pick<
+  AppointmentDocument,
+  | 'status'
+  | 'quotedPrice'
+  | 'currency'
+  | 'quoteVerified'
+  | 'paymentStatus'
+  | 'paymentIntentId'
+  | 'waitlistOffer'
+  | 'refund'
+  | 'invoiceId'
+>;
+
+/**
+ * Whether booking the appointment costs anything
+ */
+export function isPaidAppointment(appointment: PayableAppointment): boolean {
+  return (appointment.quotedPrice ?? 0) > 0 && !!appointment.currency;
+}
+
+/**
+ * The next payment action an appointment needs, or null if its payment is
+ * up to date
+ */
+export function getAppointmentPaymentAction(
+  appointment: PayableAppointment
+): AppointmentPaymentAction | null {
+  if (!appointment.paymentStatus) {
+    if (appointment.status !== 'pending' && appointment.status !== 'confirmed') {
+      return null;
+    }
+    if (!appointment.quoteVerified) {
+      return 'quote';
+    }
+    // Waitlist offers are only paid for once the client accepts them
+    const offered = !!appointment.waitlistOffer && !appointment.waitlistOffer.acceptedAt;
+    return isPaidAppointment(appointment) && !offered ? 'create' : null;
+  }
+
+  if (!appointment.paymentIntentId) {
+    return null;
+  }
+
+  // A refund may already be marked by the provider's webhook before it is
+  // recorded on the appointment
+  if (appointment.paymentStatus === 'paid' || appointment.paymentStatus === 'refunded') {
+    if (!appointment.invoiceId) {
+      return 'invoice';
+    }
+    return appointment.status === 'cancelled' && !appointment.refund ? 'refund' : null;
+  }
+
+  if (appointment.paymentStatus !== 'pending') {
+    return null;
+  }
+
+  switch (appointment.status) {
+    case 'confirmed':
+    case 'completed':
+    case 'no-show':
+      return 'capture';
+    case 'cancelled':
+      return 'cancel';
+    default:
+      return null;
+  }
+}
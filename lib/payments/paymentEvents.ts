@@ -0,0 +1,52 @@
+/**
+ * Payment webhook events
+ *
+ * What a payment event from the gateway means for the appointment it pays
+ * for. Events can arrive late, more than once and out of order, so each
+ * one names the payment status it proves (a refund proves the payment was
+ * captured and then refunded) and is only applied if that status is still
+ * ahead of the appointment's. A capture arriving after the refund is
+ * stale; a refund arriving before the capture moves the payment straight
+ * to 'refunded'.
+ */
+
+import { canReachPaymentStatus } from './appointmentPayments';
+import type { PaymentEventOutcome, PaymentEventType, PaymentStatus } from '@/types/firestore';
+
+/**
+ * Payment status each event proves. Authorizations and failures leave the
+ * payment 'pending' (a failed payment can still be retried by the client).
+ */
+export const PAYMENT_EVENT_STATUSES: Readonly<Partial<Record<PaymentEventType, PaymentStatus>>> =
+  {
+    'payment.captured': 'paid',
+    'payment.cancelled': 'cancelled',
+    'payment.refunded': 'refunded',
+  };
+
+/**
+ * What applying an event to a payment does
+ */
+export interface PaymentEventReconciliation {
+  outcome: Exclude<PaymentEventOutcome, 'unmatched'>;
+  paymentStatus: PaymentStatus | null; // Payment status after the event
+}
+
+/**
+ * Work out what an event does to a payment in the given status
+ */
+export function reconcilePaymentEvent(
+  current: PaymentStatus | null | undefined,
+  type: PaymentEventType
+): PaymentEventReconciliation {
+  const target = PAYMENT_EVENT_STATUSES[type];
+  const paymentStatus = current ?? null;
+
+  if (!target || target === paymentStatus) {
+    return { outcome: 'ignored', paymentStatus };
+  }
+  if (!canReachPaymentStatus(paymentStatus, target)) {
+    return { outcome: 'stale', paymentStatus };
+  }
+  return { outcome: 'applied', paymentStatus: target };
+}
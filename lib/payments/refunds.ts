@@ -0,0 +1,93 @@
+/**
+ * Cancellation refunds
+ *
+ * How much of a cancelled appointment's captured payment goes back to the
+ * client. The cancellation terms were worked out under the policy agreed
+ * when booking at the moment of cancelling (see getCancellationTerms), so
+ * the refund follows from them: the whole payment when the practitioner or
+ * the system cancelled or the client cancelled in time, and the payment
+ * less the late cancellation fee when the client cancelled late.
+ */
+
+import { formatPrice } from '@/lib/utils';
+import type { AppointmentDocument, RefundReason } from '@/types/firestore';
+
+/**
+ * Appointment fields that decide its refund
+ */
+type RefundableAppointment = Pick<
+  AppointmentDocument,
+  'status' | 'cancelledBy' | 'lateCancellation' | 'feeOwed' | 'quotedPrice' | 'paymentStatus'
+>;
+
+/**
+ * Refund a cancellation entitles the client to
+ */
+export interface CancellationRefund {
+  amount: number; // Amount in cents
+  reason: RefundReason;
+}
+
+/**
+ * Why a cancelled appointment is refunded
+ */
+export function getRefundReason(
+  appointment: Pick<AppointmentDocument, 'cancelledBy' | 'lateCancellation'>
+): RefundReason {
+  switch (appointment.cancelledBy) {
+    case 'practitioner':
+      return 'practitioner-cancelled';
+    case 'system':
+      return 'system-cancelled';
+    default:
+      return appointment.lateCancellation ? 'late-cancellation' : 'cancelled-in-time';
+  }
+}
+
+/**
+ * Refund owed for a cancelled appointment whose payment was captured, or
+ * null if it is not cancelled or nothing was captured
+ */
+export function getCancellationRefund(
+  appointment: RefundableAppointment
+): CancellationRefund | null {
+  if (
+    appointment.status !== 'cancelled' ||
+    (appointment.paymentStatus !== 'paid' && appointment.paymentStatus !== 'refunded')
+  ) {
+    return null;
+  }
+
+  const reason = getRefundReason(appointment);
+  const paid = appointment.quotedPrice ?? 0;
+  const fee = reason === 'late-cancellation' ? (appointment.feeOwed ?? 0) : 0;
+
+  return { amount: Math.max(0, paid - fee), reason };
+}
+
+/**
+ * Plain-language refund status of an appointment for the client, or null
+ * if no refund applies
+ */
+export function describeRefundStatus(
+  appointment: RefundableAppointment & Pick<AppointmentDocument, 'refund' | 'currency'>
+): string | null {
+  const owed = getCancellationRefund(appointment);
+  if (!owed || !appointment.currency) {
+    return null;
+  }
+
+  const refund = appointment.refund;
+  const amount = refund?.amount ?? owed.amount;
+  if (amount === 0) {
+    return 'No refund: the late cancellation fee covers the session price';
+  }
+  if (!refund) {
+    return `Refund of ${formatPrice(amount, appointment.currency)} processing`;
+  }
+
+  const refunded = `Refunded ${formatPrice(amount, appointment.currency)}`;
+  return refund.reason === 'late-cancellation'
+    ? `${refunded} (less the late cancellation fee)`
+    : `${refunded} in full`;
+}
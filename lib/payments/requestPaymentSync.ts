@@ -0,0 +1,49 @@
+/**
+ * Ask the server to sync appointment payments
+ *
+ * Called from the booking and status hooks after an appointment changes,
+ * so its payment follows (see app/api/payments/sync/route.ts). Failures are
+ * logged, not thrown: the appointment change itself has already been made.
+ * The lifecycle job syncs the payments of sessions it completes or expires
+ * and retries refunds of cancelled sessions (listRefundsDue); other missed
+ * syncs wait for the appointment's next change.
+ */
+
+import { auth } from '@/lib/firebase/client';
+
+/**
+ * Sync the payments of the given appointments, as the signed-in user
+ *
+ * @returns Whether the server synced them all
+ */
+export async function requestPaymentSync(appointmentIds: string[]): Promise<boolean> {
+  if (appointmentIds.length === 0) {
+    return true;
+  }
+
+  try {
+    const idToken = await auth.currentUser?.getIdToken();
+    if (!idToken) {
+      console.error('Error syncing appointment payments: not signed in');
+      return false;
+    }
+
+    const response = await fetch('/api/payments/sync', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${idToken}`,
+      },
+      body: JSON.stringify({ appointmentIds }),
+    });
+    const result = await response.json().catch(() => null);
+    if (!response.ok || result?.failed?.length) {
+      console.error('Error syncing appointment payments:', result?.error ?? result?.failed);
+      return false;
+    }
+    return true;
+  } catch (err) {
+    console.error('Error syncing appointment payments:', err);
+    return false;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Tests for appointment lifecycle rules
+ */
+
+import {
+  DEFAULT_REQUEST_EXPIRY_HOURS,
+  getRequestExpiresAt,
+  getRequestExpiryHours,
+  isRequestExpired,
+  isSessionEnded,
+} from '../appointmentLifecycle';
+import type { AppointmentStatus } from '@/types/firestore';
+import type { Timestamp } from 'firebase/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const utc = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(Date.UTC(year, month - 1, day, hour, minute));
+
+const appointment = (status: AppointmentStatus, createdAt: Date, start: Date) => ({
+  status,
+  createdAt: timestamp(createdAt),
+  startTime: timestamp(start),
+  endTime: timestamp(new Date(start.getTime() + 60 * 60 * 1000)),
+});
+
+describe('appointment lifecycle', () => {
+  describe('getRequestExpiryHours', () => {
+    it('should fall back to the default window', () => {
+      expect(getRequestExpiryHours({ requestExpiryHours: 12 })).toBe(12);
+      expect(getRequestExpiryHours({})).toBe(DEFAULT_REQUEST_EXPIRY_HOURS);
+      expect(getRequestExpiryHours(null)).toBe(DEFAULT_REQUEST_EXPIRY_HOURS);
+    });
+  });
+
+  describe('getRequestExpiresAt', () => {
+    it('should expire requests after the window', () => {
+      const request = appointment('pending', utc(2025, 1, 1, 9), utc(2025, 1, 10, 9));
+      expect(getRequestExpiresAt(request, 24)).toEqual(utc(2025, 1, 2, 9));
+    });
+
+    it('should expire requests at their start time when that comes first', () => {
+      const request = appointment('pending', utc(2025, 1, 1, 9), utc(2025, 1, 1, 15));
+      expect(getRequestExpiresAt(request, 24)).toEqual(utc(2025, 1, 1, 15));
+    });
+
+    it('should hold waitlist offers until they expire, then treat them as requests once accepted', () => {
+      const offer = {
+        ...appointment('pending', utc(2025, 1, 1, 9), utc(2025, 1, 10, 9)),
+        waitlistOffer: {
+          entryId: 'entry-1',
+          expiresAt: timestamp(utc(2025, 1, 1, 21)),
+          acceptedAt: null,
+          passedEntryIds: [],
+        },
+      };
+      expect(getRequestExpiresAt(offer, 24)).toEqual(utc(2025, 1, 1, 21));
+
+      const accepted = {
+        ...offer,
+        waitlistOffer: { ...offer.waitlistOffer, acceptedAt: timestamp(utc(2025, 1, 1, 18)) },
+      };
+      expect(getRequestExpiresAt(accepted, 24)).toEqual(utc(2025, 1, 2, 18));
+    });
+  });
+
+  describe('isRequestExpired', () => {
+    const request = appointment('pending', utc(2025, 1, 1, 9), utc(2025, 1, 10, 9));
+
+    it('should only expire pending requests past their expiry', () => {
+      expect(isRequestExpired(request, 24, utc(2025, 1, 2, 8))).toBe(false);
+      expect(isRequestExpired(request, 24, utc(2025, 1, 2, 9))).toBe(true);
+      expect(
+        isRequestExpired({ ...request, status: 'confirmed' }, 24, utc(2025, 1, 2, 9))
+      ).toBe(false);
+    });
+  });
+
+  describe('isSessionEnded', () => {
+    const session = appointment('confirmed', utc(2025, 1, 1, 9), utc(2025, 1, 6, 14));
+
+    it('should only report confirmed appointments that have ended', () => {
+      expect(isSessionEnded(session, utc(2025, 1, 6, 14, 30))).toBe(false);
+      expect(isSessionEnded(session, utc(2025, 1, 6, 15))).toBe(true);
+      expect(isSessionEnded({ ...session, status: 'no-show' }, utc(2025, 1, 6, 16))).toBe(false);
+    });
+  });
+});
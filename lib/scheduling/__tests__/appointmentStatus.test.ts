@@ -0,0 +1,109 @@
+/**
+ * Tests for the appointment status state machine
+ */
+
+import { getAvailableStatusTransitions, getStatusTransitionError } from '../appointmentStatus';
+import type { AppointmentStatus } from '@/types/firestore';
+import type { Timestamp } from 'firebase/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const utc = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(Date.UTC(year, month - 1, day, hour, minute));
+
+const start = utc(2025, 1, 6, 14);
+const end = utc(2025, 1, 6, 15);
+const before = utc(2025, 1, 6, 12);
+const during = utc(2025, 1, 6, 14, 30);
+const after = utc(2025, 1, 6, 15);
+
+const appointment = (status: AppointmentStatus) => ({
+  status,
+  startTime: timestamp(start),
+  endTime: timestamp(end),
+});
+
+describe('appointment status state machine', () => {
+  describe('getStatusTransitionError', () => {
+    it('should let practitioners confirm requests before the start', () => {
+      expect(getStatusTransitionError(appointment('pending'), 'confirmed', 'practitioner', before)).toBeNull();
+      expect(getStatusTransitionError(appointment('pending'), 'confirmed', 'practitioner', after)).toBe(
+        'This appointment has already started'
+      );
+      expect(getStatusTransitionError(appointment('pending'), 'confirmed', 'client', before)).toBe(
+        'Only the practitioner can change a pending appointment to confirmed'
+      );
+    });
+
+    it('should not let practitioners confirm waitlist offers the client has not accepted', () => {
+      const offer = (acceptedAt: Timestamp | null) => ({
+        ...appointment('pending'),
+        waitlistOffer: { entryId: 'entry-1', expiresAt: timestamp(start), acceptedAt, passedEntryIds: [] },
+      });
+
+      expect(getStatusTransitionError(offer(null), 'confirmed', 'practitioner', before)).toBe(
+        'This time is being offered to a waitlisted client and can be confirmed once they accept it'
+      );
+      expect(getStatusTransitionError(offer(timestamp(before)), 'confirmed', 'practitioner', before)).toBeNull();
+    });
+
+    it('should only allow cancelling confirmed appointments before the start', () => {
+      expect(getStatusTransitionError(appointment('confirmed'), 'cancelled', 'client', before)).toBeNull();
+      expect(getStatusTransitionError(appointment('confirmed'), 'cancelled', 'client', after)).toBe(
+        'This appointment has already started'
+      );
+      expect(getStatusTransitionError(appointment('pending'), 'cancelled', 'practitioner', after)).toBeNull();
+    });
+
+    it('should only record outcomes after the start', () => {
+      expect(getStatusTransitionError(appointment('confirmed'), 'no-show', 'practitioner', before)).toBe(
+        'This appointment has not started yet'
+      );
+      expect(getStatusTransitionError(appointment('confirmed'), 'no-show', 'practitioner', after)).toBeNull();
+      expect(getStatusTransitionError(appointment('confirmed'), 'completed', 'client', after)).toBe(
+        'Only the practitioner can change a confirmed appointment to completed'
+      );
+    });
+
+    it('should let the system complete ended sessions and expire requests', () => {
+      expect(getStatusTransitionError(appointment('confirmed'), 'completed', 'system', during)).toBe(
+        'This appointment has not ended yet'
+      );
+      expect(getStatusTransitionError(appointment('confirmed'), 'completed', 'system', after)).toBeNull();
+      expect(getStatusTransitionError(appointment('pending'), 'cancelled', 'system', before)).toBeNull();
+      expect(getStatusTransitionError(appointment('confirmed'), 'no-show', 'system', after)).toBe(
+        'Only the practitioner can change a confirmed appointment to no-show'
+      );
+    });
+
+    it('should reject transitions that are not in the table', () => {
+      expect(getStatusTransitionError(appointment('cancelled'), 'confirmed', 'practitioner', before)).toBe(
+        'A cancelled appointment cannot be changed to confirmed'
+      );
+      expect(getStatusTransitionError(appointment('pending'), 'completed', 'practitioner', after)).toBe(
+        'A pending appointment cannot be changed to completed'
+      );
+      expect(getStatusTransitionError(appointment('completed'), 'completed', 'practitioner', after)).toBe(
+        'This appointment is already completed'
+      );
+    });
+  });
+
+  describe('getAvailableStatusTransitions', () => {
+    it('should list what each party can do now', () => {
+      expect(getAvailableStatusTransitions(appointment('pending'), 'practitioner', before)).toEqual([
+        'confirmed',
+        'cancelled',
+      ]);
+      expect(getAvailableStatusTransitions(appointment('confirmed'), 'practitioner', after)).toEqual([
+        'completed',
+        'no-show',
+      ]);
+      expect(getAvailableStatusTransitions(appointment('confirmed'), 'client', after)).toEqual([]);
+      expect(getAvailableStatusTransitions(appointment('confirmed'), 'system', after)).toEqual([
+        'completed',
+      ]);
+    });
+  });
+});
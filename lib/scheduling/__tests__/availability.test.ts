@@ -0,0 +1,481 @@
+/**
+ * Tests for the availability engine
+ */
+
+import {
+  getAvailableSlots,
+  getOverrideErrors,
+  getWorkingHoursErrors,
+  groupSlotsByDay,
+  isSlotAvailable,
+  parseTimeOfDay,
+  type AvailabilityPractitioner,
+  type BookedInterval,
+} from '../availability';
+import type { Timestamp } from 'firebase/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const utc = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(Date.UTC(year, month - 1, day, hour, minute));
+
+const hours = (...intervals: [string, string][]) => ({
+  enabled: true,
+  intervals: intervals.map(([start, end]) => ({ start, end })),
+});
+
+const weekday = hours(['09:00', '12:00']);
+const closed = { enabled: false, intervals: [{ start: '09:00', end: '17:00' }] };
+
+const createPractitioner = (
+  rules: Partial<AvailabilityPractitioner['availabilityRules']> = {},
+  sessionDuration = 60
+): AvailabilityPractitioner => ({
+  sessionDuration,
+  availabilityRules: {
+    timezone: 'America/New_York',
+    workingHours: {
+      monday: weekday,
+      tuesday: weekday,
+      wednesday: weekday,
+      thursday: weekday,
+      friday: weekday,
+      saturday: closed,
+      sunday: closed,
+    },
+    ...rules,
+  },
+});
+
+// Monday 6 January 2025, 08:00 in New York (UTC-5)
+const now = utc(2025, 1, 6, 13);
+const monday = utc(2025, 1, 6, 17);
+
+describe('parseTimeOfDay', () => {
+  it('should convert HH:mm to minutes after midnight', () => {
+    expect(parseTimeOfDay('00:00')).toBe(0);
+    expect(parseTimeOfDay('09:30')).toBe(570);
+    expect(parseTimeOfDay('24:00')).toBe(1440);
+  });
+
+  it('should reject malformed values', () => {
+    expect(() => parseTimeOfDay('9am')).toThrow('Invalid time of day: 9am');
+    expect(() => parseTimeOfDay('25:00')).toThrow();
+    expect(() => parseTimeOfDay('10:75')).toThrow();
+  });
+});
+
+describe('getAvailableSlots', () => {
+  it('should generate slots from working hours in the practitioner time zone', () => {
+    const slots = getAvailableSlots(createPractitioner(), [], {
+      rangeStart: monday,
+      rangeEnd: monday,
+      now,
+    });
+
+    expect(slots.map((slot) => slot.start)).toEqual([
+      utc(2025, 1, 6, 14),
+      utc(2025, 1, 6, 15),
+      utc(2025, 1, 6, 16),
+    ]);
+    expect(slots[0].end).toEqual(utc(2025, 1, 6, 15));
+  });
+
+  it('should honor a custom slot interval without running past closing time', () => {
+    const slots = getAvailableSlots(createPractitioner({}, 50), [], {
+      rangeStart: monday,
+      rangeEnd: monday,
+      now,
+      slotInterval: 30,
+    });
+
+    expect(slots.map((slot) => slot.start.toISOString().slice(11, 16))).toEqual([
+      '14:00',
+      '14:30',
+      '15:00',
+      '15:30',
+      '16:00',
+    ]);
+  });
+
+  it('should snap slot starts and intervals to the slot grid', () => {
+    const practitioner = createPractitioner(
+      { workingHours: { monday: hours(['09:10', '12:00']) } },
+      45
+    );
+
+    const slots = getAvailableSlots(practitioner, [], {
+      rangeStart: monday,
+      rangeEnd: monday,
+      now,
+    });
+
+    expect(slots.map((slot) => slot.start)).toEqual([
+      utc(2025, 1, 6, 14, 30),
+      utc(2025, 1, 6, 15, 30),
+    ]);
+    expect(slots[0].end).toEqual(utc(2025, 1, 6, 15, 15));
+  });
+
+  it('should generate slots from every interval of a split shift', () => {
+    const practitioner = createPractitioner({
+      workingHours: { monday: hours(['13:00', '15:00'], ['09:00', '11:00']) },
+    });
+
+    const slots = getAvailableSlots(practitioner, [], {
+      rangeStart: monday,
+      rangeEnd: monday,
+      now,
+    });
+
+    expect(slots.map((slot) => slot.start)).toEqual([
+      utc(2025, 1, 6, 14),
+      utc(2025, 1, 6, 15),
+      utc(2025, 1, 6, 18),
+      utc(2025, 1, 6, 19),
+    ]);
+  });
+
+  it('should not start a session in one interval and finish it in the next', () => {
+    const practitioner = createPractitioner(
+      { workingHours: { monday: hours(['09:00', '10:30'], ['11:00', '12:00']) } },
+      60
+    );
+
+    const slots = getAvailableSlots(practitioner, [], {
+      rangeStart: monday,
+      rangeEnd: monday,
+      now,
+      slotInterval: 30,
+    });
+
+    expect(slots.map((slot) => slot.start)).toEqual([
+      utc(2025, 1, 6, 14),
+      utc(2025, 1, 6, 14, 30),
+      utc(2025, 1, 6, 16),
+    ]);
+  });
+
+  it('should treat back-to-back intervals as continuous time', () => {
+    const practitioner = createPractitioner(
+      { workingHours: { monday: hours(['09:00', '10:30'], ['10:30', '11:30']) } },
+      90
+    );
+
+    const slots = getAvailableSlots(practitioner, [], {
+      rangeStart: monday,
+      rangeEnd: monday,
+      now,
+    });
+
+    expect(slots.map((slot) => slot.start)).toEqual([utc(2025, 1, 6, 14)]);
+  });
+
+  it('should apply dated overrides ahead of the weekly template', () => {
+    const practitioner = createPractitioner({
+      overrides: [
+        // Thursday: evening hours instead of the usual morning
+        { date: '2025-01-09', intervals: [{ start: '13:00', end: '15:00' }] },
+        // Friday: off
+        { date: '2025-01-10', intervals: [] },
+        // Saturday: normally closed
+        { date: '2025-01-11', intervals: [{ start: '10:00', end: '11:00' }] },
+      ],
+    });
+
+    const slots = getAvailableSlots(practitioner, [], {
+      rangeStart: utc(2025, 1, 9, 17),
+      rangeEnd: utc(2025, 1, 11, 17),
+      now,
+    });
+
+    expect(slots.map((slot) => slot.start)).toEqual([
+      utc(2025, 1, 9, 18),
+      utc(2025, 1, 9, 19),
+      utc(2025, 1, 11, 15),
+    ]);
+  });
+
+  it('should skip disabled days', () => {
+    const slots = getAvailableSlots(createPractitioner(), [], {
+      rangeStart: utc(2025, 1, 11, 17),
+      rangeEnd: utc(2025, 1, 12, 17),
+      now,
+    });
+
+    expect(slots).toHaveLength(0);
+  });
+
+  it('should skip blocked dates in the practitioner time zone', () => {
+    const practitioner = createPractitioner({
+      // Midnight on Tuesday in New York is still Tuesday 05:00 UTC
+      blockedDates: [timestamp(utc(2025, 1, 7, 5))],
+    });
+
+    const slots = getAvailableSlots(practitioner, [], {
+      rangeStart: monday,
+      rangeEnd: utc(2025, 1, 8, 17),
+      now,
+    });
+    const days = [...groupSlotsByDay(slots, 'America/New_York').keys()];
+
+    expect(days).toEqual(['2025-01-06', '2025-01-08']);
+  });
+
+  it('should skip slots that overlap time-off periods', () => {
+    const practitioner = createPractitioner({
+      timeOff: [
+        {
+          id: 'dentist',
+          start: timestamp(utc(2025, 1, 6, 15)),
+          end: timestamp(utc(2025, 1, 6, 16)),
+          allDay: false,
+        },
+        {
+          id: 'vacation',
+          start: timestamp(utc(2025, 1, 7, 5)),
+          end: timestamp(utc(2025, 1, 9, 5)),
+          allDay: true,
+        },
+      ],
+    });
+
+    const slots = getAvailableSlots(practitioner, [], {
+      rangeStart: monday,
+      rangeEnd: utc(2025, 1, 9, 17),
+      now,
+    });
+    const byDay = groupSlotsByDay(slots, 'America/New_York');
+
+    expect(byDay.get('2025-01-06')?.map((slot) => slot.start)).toEqual([
+      utc(2025, 1, 6, 14),
+      utc(2025, 1, 6, 16),
+    ]);
+    expect([...byDay.keys()]).toEqual(['2025-01-06', '2025-01-09']);
+  });
+
+  it('should enforce minimum booking notice', () => {
+    const slots = getAvailableSlots(createPractitioner({ minBookingNotice: 2 }), [], {
+      rangeStart: monday,
+      rangeEnd: monday,
+      now,
+    });
+
+    expect(slots.map((slot) => slot.start)).toEqual([utc(2025, 1, 6, 15), utc(2025, 1, 6, 16)]);
+  });
+
+  it('should enforce maximum booking advance in whole practitioner days', () => {
+    const slots = getAvailableSlots(createPractitioner({ maxBookingAdvance: 1 }), [], {
+      rangeStart: monday,
+      rangeEnd: utc(2025, 1, 10, 17),
+      now,
+    });
+    const days = [...groupSlotsByDay(slots, 'America/New_York').keys()];
+
+    expect(days).toEqual(['2025-01-06', '2025-01-07']);
+    expect(slots[slots.length - 1].start).toEqual(utc(2025, 1, 7, 16));
+  });
+
+  it('should remove slots that overlap existing appointments', () => {
+    const appointments: BookedInterval[] = [
+      {
+        startTime: timestamp(utc(2025, 1, 6, 14, 30)),
+        endTime: timestamp(utc(2025, 1, 6, 15, 30)),
+        status: 'confirmed',
+      },
+    ];
+
+    const slots = getAvailableSlots(createPractitioner(), appointments, {
+      rangeStart: monday,
+      rangeEnd: monday,
+      now,
+    });
+
+    expect(slots.map((slot) => slot.start)).toEqual([utc(2025, 1, 6, 16)]);
+  });
+
+  it('should ignore cancelled appointments', () => {
+    const appointments: BookedInterval[] = [
+      {
+        startTime: timestamp(utc(2025, 1, 6, 14)),
+        endTime: timestamp(utc(2025, 1, 6, 15)),
+        status: 'cancelled',
+      },
+    ];
+
+    const slots = getAvailableSlots(createPractitioner(), appointments, {
+      rangeStart: monday,
+      rangeEnd: monday,
+      now,
+    });
+
+    expect(slots).toHaveLength(3);
+  });
+
+  it('should allow back-to-back appointments', () => {
+    const appointments: BookedInterval[] = [
+      {
+        startTime: timestamp(utc(2025, 1, 6, 15)),
+        endTime: timestamp(utc(2025, 1, 6, 16)),
+        status: 'pending',
+      },
+    ];
+
+    const slots = getAvailableSlots(createPractitioner(), appointments, {
+      rangeStart: monday,
+      rangeEnd: monday,
+      now,
+    });
+
+    expect(slots.map((slot) => slot.start)).toEqual([utc(2025, 1, 6, 14), utc(2025, 1, 6, 16)]);
+  });
+
+  it('should keep the same wall-clock hours on both sides of a DST change', () => {
+    // Friday 7 March 2025 is EST (UTC-5); Monday 10 March is EDT (UTC-4)
+    const slots = getAvailableSlots(createPractitioner(), [], {
+      rangeStart: utc(2025, 3, 7, 17),
+      rangeEnd: utc(2025, 3, 10, 17),
+      now: utc(2025, 3, 7, 12),
+    });
+    const byDay = groupSlotsByDay(slots, 'America/New_York');
+
+    expect(byDay.get('2025-03-07')?.[0].start).toEqual(utc(2025, 3, 7, 14));
+    expect(byDay.get('2025-03-10')?.[0].start).toEqual(utc(2025, 3, 10, 13));
+  });
+
+  it('should skip wall-clock times that do not exist when clocks spring forward', () => {
+    const practitioner = createPractitioner(
+      { workingHours: { sunday: hours(['01:00', '04:00']) } },
+      30
+    );
+
+    const slots = getAvailableSlots(practitioner, [], {
+      rangeStart: utc(2025, 3, 9, 12),
+      rangeEnd: utc(2025, 3, 9, 12),
+      now: utc(2025, 3, 1),
+    });
+
+    // 02:00 and 02:30 are skipped; 03:00 EDT is 07:00 UTC
+    expect(slots.map((slot) => slot.start)).toEqual([
+      utc(2025, 3, 9, 6),
+      utc(2025, 3, 9, 6, 30),
+      utc(2025, 3, 9, 7),
+      utc(2025, 3, 9, 7, 30),
+    ]);
+  });
+
+  it('should use elapsed time for slot length when clocks fall back', () => {
+    const practitioner = createPractitioner(
+      { workingHours: { sunday: hours(['00:30', '02:30']) } },
+      60
+    );
+
+    const slots = getAvailableSlots(practitioner, [], {
+      rangeStart: utc(2025, 11, 2, 12),
+      rangeEnd: utc(2025, 11, 2, 12),
+      now: utc(2025, 10, 25),
+    });
+
+    // 00:30 EDT and 01:30 EDT (the first, earlier 01:30)
+    expect(slots.map((slot) => slot.start)).toEqual([utc(2025, 11, 2, 4, 30), utc(2025, 11, 2, 5, 30)]);
+    expect(slots[1].end).toEqual(utc(2025, 11, 2, 6, 30));
+  });
+
+  it('should group slots by the viewer time zone', () => {
+    const slots = getAvailableSlots(createPractitioner(), [], {
+      rangeStart: monday,
+      rangeEnd: monday,
+      now,
+    });
+
+    // 10:00 and 11:00 in New York are already Tuesday in Tokyo
+    const byDay = groupSlotsByDay(slots, 'Asia/Tokyo');
+    expect([...byDay.keys()]).toEqual(['2025-01-06', '2025-01-07']);
+    expect(byDay.get('2025-01-07')).toHaveLength(2);
+  });
+});
+
+describe('isSlotAvailable', () => {
+  const slot = (startHour: number, startMinute: number, minutes: number) => {
+    const start = utc(2025, 1, 6, startHour, startMinute);
+    return { start, end: new Date(start.getTime() + minutes * 60_000) };
+  };
+
+  it('should accept any grid-aligned time inside working hours', () => {
+    const practitioner = createPractitioner();
+
+    expect(isSlotAvailable(practitioner, [], slot(14, 30, 60), now)).toBe(true);
+    expect(isSlotAvailable(practitioner, [], slot(15, 30, 90), now)).toBe(true);
+  });
+
+  it('should reject times outside working hours or off the grid', () => {
+    const practitioner = createPractitioner();
+
+    expect(isSlotAvailable(practitioner, [], slot(16, 30, 60), now)).toBe(false);
+    expect(isSlotAvailable(practitioner, [], slot(14, 15, 60), now)).toBe(false);
+    expect(isSlotAvailable(practitioner, [], slot(14, 0, 0), now)).toBe(false);
+  });
+
+  it('should reject times that overlap an appointment or break the notice rule', () => {
+    const booked: BookedInterval = {
+      startTime: timestamp(utc(2025, 1, 6, 15)),
+      endTime: timestamp(utc(2025, 1, 6, 16)),
+      status: 'confirmed',
+    };
+
+    expect(isSlotAvailable(createPractitioner(), [booked], slot(14, 30, 60), now)).toBe(false);
+    expect(
+      isSlotAvailable(createPractitioner({ minBookingNotice: 2 }), [], slot(14, 30, 60), now)
+    ).toBe(false);
+  });
+});
+
+describe('getWorkingHoursErrors', () => {
+  it('should flag enabled days whose start is not before the end', () => {
+    expect(
+      getWorkingHoursErrors({
+        monday: hours(['09:00', '17:00']),
+        tuesday: hours(['17:00', '09:00']),
+        wednesday: hours(['12:00', '12:00']),
+        thursday: hours(['9', '17:00']),
+        friday: { enabled: false, intervals: [{ start: '17:00', end: '09:00' }] },
+      })
+    ).toEqual({
+      tuesday: 'Start time must be before end time',
+      wednesday: 'Start time must be before end time',
+      thursday: 'Enter times as HH:mm',
+    });
+  });
+
+  it('should flag overlapping intervals and enabled days without intervals', () => {
+    expect(
+      getWorkingHoursErrors({
+        monday: hours(['09:00', '12:00'], ['13:00', '17:00']),
+        tuesday: hours(['13:00', '17:00'], ['09:00', '13:30']),
+        wednesday: hours(),
+      })
+    ).toEqual({
+      tuesday: 'Working hours must not overlap',
+      wednesday: 'Add working hours or mark the day unavailable',
+    });
+  });
+});
+
+describe('getOverrideErrors', () => {
+  it('should flag invalid dates, duplicates and bad intervals by index', () => {
+    expect(
+      getOverrideErrors([
+        { date: '2025-01-09', intervals: [{ start: '13:00', end: '20:00' }] },
+        { date: '2025-02-30', intervals: [] },
+        { date: '2025-01-09', intervals: [] },
+        { date: '2025-01-10', intervals: [{ start: '20:00', end: '13:00' }] },
+        { date: '2025-01-11', intervals: [] },
+      ])
+    ).toEqual({
+      1: 'Choose a valid date',
+      2: 'This date already has an override',
+      3: 'Start time must be before end time',
+    });
+  });
+});
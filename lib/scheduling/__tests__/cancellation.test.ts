@@ -0,0 +1,103 @@
+/**
+ * Tests for the cancellation policy
+ */
+
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  describeCancellationPolicy,
+  getCancellationPolicy,
+  getCancellationTerms,
+  getNoShowFee,
+} from '../cancellation';
+import type { Timestamp } from 'firebase/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const utc = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(Date.UTC(year, month - 1, day, hour, minute));
+
+const now = utc(2025, 1, 6, 12);
+const policy = { freeCancellationHours: 48, lateCancellationFeePercent: 50, noShowFeePercent: 100 };
+
+const appointment = (start: Date, status: 'pending' | 'confirmed' = 'confirmed') => ({
+  status,
+  startTime: timestamp(start),
+  quotedPrice: 12345,
+});
+
+describe('cancellation policy', () => {
+  describe('getCancellationPolicy', () => {
+    it('should fall back to a free policy', () => {
+      expect(getCancellationPolicy({})).toEqual(DEFAULT_CANCELLATION_POLICY);
+      expect(getCancellationPolicy({ cancellationPolicy: null })).toEqual(
+        DEFAULT_CANCELLATION_POLICY
+      );
+      expect(getCancellationPolicy({ cancellationPolicy: policy })).toEqual(policy);
+    });
+  });
+
+  describe('getCancellationTerms', () => {
+    it('should be free outside the cutoff window', () => {
+      expect(getCancellationTerms(appointment(utc(2025, 1, 8, 12)), 'client', policy, now)).toEqual({
+        lateCancellation: false,
+        fee: 0,
+      });
+    });
+
+    it('should charge the late fee inside the cutoff window, rounded down', () => {
+      expect(getCancellationTerms(appointment(utc(2025, 1, 8, 11)), 'client', policy, now)).toEqual({
+        lateCancellation: true,
+        fee: 6172,
+      });
+    });
+
+    it('should not charge for unconfirmed requests or practitioner cancellations', () => {
+      const soon = utc(2025, 1, 6, 15);
+
+      expect(getCancellationTerms(appointment(soon, 'pending'), 'client', policy, now)).toEqual({
+        lateCancellation: false,
+        fee: 0,
+      });
+      expect(getCancellationTerms(appointment(soon), 'practitioner', policy, now)).toEqual({
+        lateCancellation: false,
+        fee: 0,
+      });
+    });
+
+    it('should flag late cancellations without a fee when none is configured', () => {
+      const terms = getCancellationTerms(
+        appointment(utc(2025, 1, 6, 15)),
+        'client',
+        DEFAULT_CANCELLATION_POLICY,
+        now
+      );
+
+      expect(terms).toEqual({ lateCancellation: true, fee: 0 });
+    });
+  });
+
+  describe('getNoShowFee', () => {
+    it('should charge the no-show percentage of the quoted price', () => {
+      expect(getNoShowFee({ quotedPrice: 12345 }, policy)).toBe(12345);
+      expect(getNoShowFee({ quotedPrice: null }, policy)).toBe(0);
+    });
+  });
+
+  describe('describeCancellationPolicy', () => {
+    it('should describe fees as amounts when the price is known', () => {
+      expect(describeCancellationPolicy(policy, 10000, 'USD')).toEqual([
+        'Free cancellation up to 48 hours before the session.',
+        'Later cancellations are charged $50.00 (50% of the session price).',
+        'Missed sessions are charged $100.00 (100% of the session price).',
+      ]);
+    });
+
+    it('should describe a policy without fees', () => {
+      expect(describeCancellationPolicy(DEFAULT_CANCELLATION_POLICY)).toEqual([
+        'Free cancellation up to 24 hours before the session.',
+        'Later cancellations are not charged.',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Tests for booking price resolution
+ */
+
+import type { Timestamp } from 'firebase/firestore';
+import {
+  getBookedSessionQuote,
+  getSessionQuote,
+  isReturningClient,
+  wasReturningClientWhenBooked,
+} from '../pricing';
+import type { AppointmentStatus } from '@/types/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const practitioner = {
+  pricing: { initialConsultation: 12000, followUpSession: 9000, currency: 'GBP' },
+  sessionDuration: 50,
+};
+
+const booking = { id: 'appt-1', createdAt: timestamp(new Date('2026-03-10T09:00:00Z')) };
+
+const pastAppointment = (id: string, startTime: string, status: AppointmentStatus) => ({
+  id,
+  status,
+  startTime: timestamp(new Date(startTime)),
+});
+
+describe('booking price resolution', () => {
+  describe('isReturningClient', () => {
+    it('should only count completed appointments', () => {
+      expect(isReturningClient([])).toBe(false);
+      expect(
+        isReturningClient([{ status: 'pending' }, { status: 'confirmed' }, { status: 'cancelled' }])
+      ).toBe(false);
+      expect(isReturningClient([{ status: 'cancelled' }, { status: 'completed' }])).toBe(true);
+    });
+  });
+
+  describe('getSessionQuote', () => {
+    const sessionType = { price: 12000, followUpPrice: 9000 };
+
+    it('should charge new clients the initial rate', () => {
+      expect(getSessionQuote(practitioner, sessionType, false)).toEqual({
+        price: 12000,
+        currency: 'GBP',
+        tier: 'initial',
+      });
+    });
+
+    it('should charge returning clients the follow-up rate', () => {
+      expect(getSessionQuote(practitioner, sessionType, true)).toEqual({
+        price: 9000,
+        currency: 'GBP',
+        tier: 'follow-up',
+      });
+    });
+
+    it('should fall back to the regular price when there is no follow-up price', () => {
+      expect(getSessionQuote(practitioner, { price: 15000, followUpPrice: null }, true)).toEqual({
+        price: 15000,
+        currency: 'GBP',
+        tier: 'follow-up',
+      });
+    });
+  });
+
+  describe('wasReturningClientWhenBooked', () => {
+    it('should only count sessions completed before the booking was made', () => {
+      expect(
+        wasReturningClientWhenBooked(booking, [
+          pastAppointment('appt-1', '2026-03-01T10:00:00Z', 'completed'),
+          pastAppointment('appt-2', '2026-03-12T10:00:00Z', 'completed'),
+        ])
+      ).toBe(false);
+      expect(
+        wasReturningClientWhenBooked(booking, [
+          pastAppointment('appt-3', '2026-03-02T10:00:00Z', 'completed'),
+        ])
+      ).toBe(true);
+    });
+  });
+
+  describe('getBookedSessionQuote', () => {
+    const history = [pastAppointment('appt-0', '2026-03-02T10:00:00Z', 'completed')];
+
+    it('should price the booked session type from the practitioner\'s rates', () => {
+      const withTypes = {
+        ...practitioner,
+        sessionTypes: [
+          {
+            id: 'couples',
+            name: 'Couples',
+            duration: 80,
+            price: 20000,
+            followUpPrice: 16000,
+            format: 'online' as const,
+            newClientsOnly: false,
+          },
+        ],
+      };
+      const appointment = {
+        ...booking,
+        sessionType: { id: 'couples', name: 'Couples', duration: 80, format: 'online' as const },
+      };
+
+      expect(getBookedSessionQuote(withTypes, appointment, [])).toEqual({
+        price: 20000,
+        currency: 'GBP',
+        tier: 'initial',
+      });
+      expect(getBookedSessionQuote(withTypes, appointment, history)).toEqual({
+        price: 16000,
+        currency: 'GBP',
+        tier: 'follow-up',
+      });
+    });
+
+    it('should price bookings without a session type at the standard rates', () => {
+      expect(getBookedSessionQuote(practitioner, booking, history)).toEqual({
+        price: 9000,
+        currency: 'GBP',
+        tier: 'follow-up',
+      });
+    });
+
+    it('should refuse session types the practitioner does not offer', () => {
+      const appointment = {
+        ...booking,
+        sessionType: { id: 'gone', name: 'Gone', duration: 50, format: 'online' as const },
+      };
+
+      expect(() => getBookedSessionQuote(practitioner, appointment, [])).toThrow(
+        'Session type not offered: gone'
+      );
+    });
+  });
+});
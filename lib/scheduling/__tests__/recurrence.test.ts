@@ -0,0 +1,162 @@
+/**
+ * Tests for recurring appointment series
+ */
+
+import {
+  MAX_SERIES_OCCURRENCES,
+  describeRecurrence,
+  getRecurrenceRuleError,
+  getSeriesOccurrences,
+  getSeriesScopeAppointments,
+  shiftSeriesOccurrence,
+} from '../recurrence';
+import type { AppointmentDocument, AppointmentStatus } from '@/types/firestore';
+import type { Timestamp } from 'firebase/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const utc = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(Date.UTC(year, month - 1, day, hour, minute));
+
+const hour = 3600000;
+const slot = (start: Date, minutes = 60) => ({
+  start,
+  end: new Date(start.getTime() + minutes * 60000),
+});
+const starts = (slots: { start: Date }[]) => slots.map((occurrence) => occurrence.start);
+
+describe('recurring series', () => {
+  describe('getRecurrenceRuleError', () => {
+    const first = utc(2025, 1, 6, 14);
+
+    it('should require an end and a sensible number of sessions', () => {
+      expect(getRecurrenceRuleError({ frequency: 'weekly' }, first)).toBe(
+        'Choose how many sessions to book or when the series ends'
+      );
+      expect(getRecurrenceRuleError({ frequency: 'weekly', count: 1 }, first)).toBe(
+        'A series needs at least 2 sessions'
+      );
+      expect(
+        getRecurrenceRuleError({ frequency: 'weekly', count: MAX_SERIES_OCCURRENCES + 1 }, first)
+      ).toBe(`A series can have at most ${MAX_SERIES_OCCURRENCES} sessions`);
+      expect(getRecurrenceRuleError({ frequency: 'weekly', count: 6 }, first)).toBeNull();
+    });
+
+    it('should require the until date to be after the first session', () => {
+      expect(
+        getRecurrenceRuleError({ frequency: 'monthly', until: timestamp(utc(2025, 1, 6)) }, first)
+      ).toBe('The series must end after the first session');
+      expect(
+        getRecurrenceRuleError({ frequency: 'monthly', until: timestamp(utc(2025, 6, 1)) }, first)
+      ).toBeNull();
+    });
+  });
+
+  describe('getSeriesOccurrences', () => {
+    it('should keep the wall-clock time across daylight-saving changes', () => {
+      // Monday 10:00 in New York, the week before clocks spring forward
+      const occurrences = getSeriesOccurrences(
+        slot(utc(2025, 3, 3, 15)),
+        { frequency: 'weekly', count: 3 },
+        'America/New_York'
+      );
+
+      expect(starts(occurrences)).toEqual([
+        utc(2025, 3, 3, 15),
+        utc(2025, 3, 10, 14),
+        utc(2025, 3, 17, 14),
+      ]);
+      expect(occurrences[1].end.getTime() - occurrences[1].start.getTime()).toBe(hour);
+    });
+
+    it('should fall on the last day of shorter months', () => {
+      const occurrences = getSeriesOccurrences(
+        slot(utc(2025, 1, 31, 15)),
+        { frequency: 'monthly', count: 3 },
+        'America/New_York'
+      );
+
+      expect(starts(occurrences)).toEqual([
+        utc(2025, 1, 31, 15),
+        utc(2025, 2, 28, 15),
+        utc(2025, 3, 31, 14),
+      ]);
+    });
+
+    it('should stop at the until date and never exceed the maximum', () => {
+      const untilOccurrences = getSeriesOccurrences(
+        slot(utc(2025, 1, 6, 14)),
+        { frequency: 'biweekly', until: timestamp(utc(2025, 2, 3, 14)) },
+        'UTC'
+      );
+      expect(starts(untilOccurrences)).toEqual([
+        utc(2025, 1, 6, 14),
+        utc(2025, 1, 20, 14),
+        utc(2025, 2, 3, 14),
+      ]);
+
+      const openEnded = getSeriesOccurrences(
+        slot(utc(2025, 1, 6, 14)),
+        { frequency: 'weekly', until: timestamp(utc(2030, 1, 1)) },
+        'UTC'
+      );
+      expect(openEnded).toHaveLength(MAX_SERIES_OCCURRENCES);
+    });
+  });
+
+  describe('shiftSeriesOccurrence', () => {
+    it('should move occurrences by the same days to the new time and length', () => {
+      // Monday 10:00 moves to Wednesday 14:00 for 90 minutes
+      const shifted = shiftSeriesOccurrence(
+        slot(utc(2025, 1, 13, 15)),
+        slot(utc(2025, 1, 6, 15)),
+        slot(utc(2025, 1, 8, 19), 90),
+        'America/New_York'
+      );
+
+      expect(shifted).toEqual(slot(utc(2025, 1, 15, 19), 90));
+    });
+  });
+
+  describe('getSeriesScopeAppointments', () => {
+    const now = utc(2025, 1, 10);
+    const appointment = (id: string, start: Date, status: AppointmentStatus = 'confirmed') =>
+      ({
+        id,
+        seriesId: 'series-1',
+        status,
+        startTime: timestamp(start),
+      }) as AppointmentDocument;
+    const series = [
+      appointment('past', utc(2025, 1, 6, 14)),
+      appointment('second', utc(2025, 1, 13, 14)),
+      appointment('cancelled', utc(2025, 1, 20, 14), 'cancelled'),
+      appointment('fourth', utc(2025, 1, 27, 14)),
+      appointment('fifth', utc(2025, 2, 3, 14), 'pending'),
+    ];
+    const ids = (appointments: AppointmentDocument[]) => appointments.map(({ id }) => id);
+
+    it('should pick the upcoming active appointments in scope', () => {
+      expect(ids(getSeriesScopeAppointments(series, series[3], 'this', now))).toEqual(['fourth']);
+      expect(ids(getSeriesScopeAppointments(series, series[3], 'following', now))).toEqual([
+        'fourth',
+        'fifth',
+      ]);
+      expect(ids(getSeriesScopeAppointments(series, series[3], 'all', now))).toEqual([
+        'second',
+        'fourth',
+        'fifth',
+      ]);
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('should summarise the pattern', () => {
+      expect(describeRecurrence({ frequency: 'weekly', count: 6 }, 'UTC')).toBe('Weekly, 6 sessions');
+      expect(
+        describeRecurrence({ frequency: 'biweekly', until: timestamp(utc(2025, 3, 3, 12)) }, 'UTC')
+      ).toBe('Every 2 weeks until Mar 3, 2025');
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Tests for the reschedule policy
+ */
+
+import {
+  DEFAULT_RESCHEDULE_POLICY,
+  getReschedulePolicy,
+  getRescheduleError,
+  requiresRescheduleApproval,
+} from '../reschedule';
+import type { Timestamp } from 'firebase/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const utc = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(Date.UTC(year, month - 1, day, hour, minute));
+
+const now = utc(2025, 1, 6, 12);
+const policy = { requireApproval: true, minNoticeHours: 48 };
+
+describe('reschedule policy', () => {
+  describe('getReschedulePolicy', () => {
+    it('should fill in defaults for practitioners without a policy', () => {
+      expect(getReschedulePolicy({})).toEqual(DEFAULT_RESCHEDULE_POLICY);
+      expect(getReschedulePolicy({ reschedulePolicy: policy })).toEqual(policy);
+    });
+  });
+
+  describe('getRescheduleError', () => {
+    const appointment = (start: Date, status: 'pending' | 'confirmed' | 'cancelled' = 'confirmed') => ({
+      status,
+      startTime: timestamp(start),
+    });
+
+    it('should only allow upcoming appointments to be moved', () => {
+      expect(
+        getRescheduleError(appointment(utc(2025, 1, 20), 'cancelled'), 'practitioner', policy, now)
+      ).toBe('Only upcoming appointments can be rescheduled');
+      expect(getRescheduleError(appointment(utc(2025, 1, 6, 11)), 'practitioner', policy, now)).toBe(
+        'This appointment has already started'
+      );
+    });
+
+    it('should hold clients to the notice period', () => {
+      const soon = appointment(utc(2025, 1, 7, 12), 'pending');
+
+      expect(getRescheduleError(soon, 'client', policy, now)).toBe(
+        'Appointments cannot be rescheduled less than 48 hours before they start'
+      );
+      expect(getRescheduleError(appointment(utc(2025, 1, 8, 12)), 'client', policy, now)).toBeNull();
+    });
+
+    it('should let practitioners move appointments at short notice', () => {
+      expect(getRescheduleError(appointment(utc(2025, 1, 6, 13)), 'practitioner', policy, now)).toBeNull();
+    });
+  });
+
+  describe('requiresRescheduleApproval', () => {
+    it('should only require approval for client requests when configured', () => {
+      expect(requiresRescheduleApproval('client', policy)).toBe(true);
+      expect(requiresRescheduleApproval('practitioner', policy)).toBe(false);
+      expect(requiresRescheduleApproval('client', DEFAULT_RESCHEDULE_POLICY)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for session type helpers
+ */
+
+import type { Timestamp } from 'firebase/firestore';
+import {
+  DEFAULT_SESSION_TYPE_ID,
+  getBookableSessionTypes,
+  getBookedSessionTypeError,
+  getSessionTypes,
+  toBookedSessionType,
+  wasNewClientWhenBooked,
+  type SessionTypePractitioner,
+} from '../sessionTypes';
+import type { AppointmentStatus, SessionType } from '@/types/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const pricing = { initialConsultation: 12000, followUpSession: 9000, currency: 'USD' };
+
+const intro: SessionType = {
+  id: 'intro',
+  name: 'Intro Call',
+  description: 'A short first conversation',
+  duration: 30,
+  price: 0,
+  format: 'online',
+  newClientsOnly: true,
+};
+
+const reiki: SessionType = {
+  id: 'reiki',
+  name: 'Reiki',
+  duration: 90,
+  price: 15000,
+  format: 'in-person',
+  newClientsOnly: false,
+};
+
+const createPractitioner = (sessionTypes?: SessionType[]): SessionTypePractitioner => ({
+  pricing,
+  sessionDuration: 50,
+  sessionTypes,
+});
+
+describe('session type helpers', () => {
+  describe('getSessionTypes', () => {
+    it('should return the practitioner session types', () => {
+      expect(getSessionTypes(createPractitioner([intro, reiki]))).toEqual([intro, reiki]);
+    });
+
+    it('should derive a default type from pricing when none are defined', () => {
+      for (const sessionTypes of [undefined, []]) {
+        expect(getSessionTypes(createPractitioner(sessionTypes))).toEqual([
+          {
+            id: DEFAULT_SESSION_TYPE_ID,
+            name: 'Session',
+            description: null,
+            duration: 50,
+            price: 12000,
+            followUpPrice: 9000,
+            format: 'online',
+            newClientsOnly: false,
+          },
+        ]);
+      }
+    });
+  });
+
+  describe('getBookableSessionTypes', () => {
+    it('should only offer new-client types to new clients', () => {
+      const practitioner = createPractitioner([intro, reiki]);
+
+      expect(getBookableSessionTypes(practitioner, true)).toEqual([intro, reiki]);
+      expect(getBookableSessionTypes(practitioner, false)).toEqual([reiki]);
+    });
+  });
+
+  describe('wasNewClientWhenBooked', () => {
+    const booking = {
+      id: 'appt-1',
+      createdAt: timestamp(new Date('2026-03-10T09:00:00Z')),
+      seriesId: 'appt-1',
+    };
+    const other = (id: string, createdAt: string, status: AppointmentStatus, seriesId = id) => ({
+      id,
+      status,
+      createdAt: timestamp(new Date(createdAt)),
+      seriesId,
+    });
+
+    it('should ignore cancelled, later and same-series appointments', () => {
+      expect(
+        wasNewClientWhenBooked(booking, [
+          other('appt-1', '2026-03-10T09:00:00Z', 'pending'),
+          other('appt-2', '2026-03-10T09:00:00Z', 'pending', 'appt-1'),
+          other('appt-3', '2026-03-01T09:00:00Z', 'cancelled'),
+          other('appt-4', '2026-03-11T09:00:00Z', 'confirmed'),
+        ])
+      ).toBe(true);
+    });
+
+    it('should count appointments booked before', () => {
+      expect(
+        wasNewClientWhenBooked(booking, [other('appt-0', '2026-03-01T09:00:00Z', 'confirmed')])
+      ).toBe(false);
+    });
+  });
+
+  describe('getBookedSessionTypeError', () => {
+    const booking = (sessionType: SessionType) => ({
+      id: 'appt-1',
+      createdAt: timestamp(new Date('2026-03-10T09:00:00Z')),
+      seriesId: null,
+      sessionType: toBookedSessionType(sessionType),
+    });
+    const earlier = {
+      id: 'appt-0',
+      status: 'completed' as const,
+      createdAt: timestamp(new Date('2026-02-01T09:00:00Z')),
+      seriesId: null,
+    };
+
+    it('should accept offered types the client could book', () => {
+      const practitioner = createPractitioner([intro, reiki]);
+
+      expect(getBookedSessionTypeError(practitioner, booking(intro), [])).toBeNull();
+      expect(getBookedSessionTypeError(practitioner, booking(reiki), [earlier])).toBeNull();
+    });
+
+    it('should refuse new-client types for returning clients', () => {
+      expect(
+        getBookedSessionTypeError(createPractitioner([intro, reiki]), booking(intro), [earlier])
+      ).toBe('Intro Call is only offered to new clients');
+    });
+
+    it('should refuse types the practitioner does not offer', () => {
+      expect(getBookedSessionTypeError(createPractitioner([reiki]), booking(intro), [])).toBe(
+        'Session type not offered: intro'
+      );
+    });
+  });
+
+  describe('toBookedSessionType', () => {
+    it('should keep only the fields stored on the appointment', () => {
+      expect(toBookedSessionType(reiki)).toEqual({
+        id: 'reiki',
+        name: 'Reiki',
+        duration: 90,
+        format: 'in-person',
+      });
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for slot lock helpers
+ */
+
+import { getSlotLockBlocks, getSlotLockId, isOnSlotGrid } from '../slotLocks';
+
+const utc = (hour: number, minute = 0) => new Date(Date.UTC(2025, 0, 6, hour, minute));
+
+describe('slot lock helpers', () => {
+  it('should detect instants on the slot grid', () => {
+    expect(isOnSlotGrid(utc(14, 30))).toBe(true);
+    expect(isOnSlotGrid(utc(14, 15))).toBe(false);
+  });
+
+  it('should cover an appointment with consecutive blocks', () => {
+    const blocks = getSlotLockBlocks(utc(14), utc(15));
+
+    expect(blocks).toEqual([
+      { start: utc(14), end: utc(14, 30), index: 0 },
+      { start: utc(14, 30), end: utc(15), index: 1 },
+    ]);
+  });
+
+  it('should round a partial final block up', () => {
+    const blocks = getSlotLockBlocks(utc(14), utc(14, 50));
+
+    expect(blocks).toHaveLength(2);
+    expect(blocks[1].end).toEqual(utc(15));
+  });
+
+  it('should reject appointments that do not start on the grid', () => {
+    expect(() => getSlotLockBlocks(utc(14, 10), utc(15))).toThrow(
+      'Appointments must start on a 30-minute boundary'
+    );
+  });
+
+  it('should reject empty or inverted intervals', () => {
+    expect(() => getSlotLockBlocks(utc(14), utc(14))).toThrow(
+      'Appointment end time must be after its start time'
+    );
+  });
+
+  it('should build deterministic lock IDs', () => {
+    expect(getSlotLockId('practitioner', 'prac-1', utc(14))).toBe(
+      `practitioner_prac-1_${utc(14).getTime()}`
+    );
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Tests for time-off helpers
+ */
+
+import { getBlockedCalendarDate, getBlockedDateInstant, getTimeOffRange } from '../timeOff';
+
+const utc = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(Date.UTC(year, month - 1, day, hour, minute));
+
+describe('time-off helpers', () => {
+  describe('getTimeOffRange', () => {
+    it('should cover whole practitioner-local days for all-day time off', () => {
+      const range = getTimeOffRange(
+        { from: new Date(2025, 6, 14), to: new Date(2025, 6, 18), allDay: true },
+        'Europe/London'
+      );
+
+      expect(range).toEqual({ start: utc(2025, 7, 13, 23), end: utc(2025, 7, 18, 23) });
+    });
+
+    it('should use the given times for partial-day blocks', () => {
+      const range = getTimeOffRange(
+        { from: new Date(2025, 0, 6), allDay: false, startTime: '12:00', endTime: '14:30' },
+        'America/New_York'
+      );
+
+      expect(range).toEqual({ start: utc(2025, 1, 6, 17), end: utc(2025, 1, 6, 19, 30) });
+    });
+
+    it('should reject ranges that end before they start', () => {
+      expect(() =>
+        getTimeOffRange(
+          { from: new Date(2025, 0, 6), allDay: false, startTime: '14:00', endTime: '13:00' },
+          'America/New_York'
+        )
+      ).toThrow('Time off must end after it starts');
+    });
+
+    it('should require times for partial-day blocks', () => {
+      expect(() =>
+        getTimeOffRange({ from: new Date(2025, 0, 6), allDay: false }, 'America/New_York')
+      ).toThrow('Start and end times are required for partial-day time off');
+    });
+  });
+
+  describe('blocked dates', () => {
+    it('should round-trip a calendar date through the stored instant', () => {
+      const day = { year: 2025, month: 3, day: 9 };
+      const instant = getBlockedDateInstant(day, 'Pacific/Auckland');
+
+      expect(getBlockedCalendarDate(instant, 'Pacific/Auckland')).toEqual(day);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Tests for time zone helpers
+ */
+
+import {
+  addCalendarDays,
+  getTimeZoneOffset,
+  getZonedParts,
+  isExistingWallTime,
+  isValidTimeZone,
+  parseCalendarDate,
+  formatCalendarDate,
+  zonedTimeToUtc,
+} from '../timezone';
+
+const utc = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(Date.UTC(year, month - 1, day, hour, minute));
+
+describe('timezone helpers', () => {
+  describe('getTimeZoneOffset', () => {
+    it('should return standard and daylight offsets', () => {
+      expect(getTimeZoneOffset(utc(2025, 1, 15), 'America/New_York')).toBe(-300);
+      expect(getTimeZoneOffset(utc(2025, 7, 15), 'America/New_York')).toBe(-240);
+      expect(getTimeZoneOffset(utc(2025, 7, 15), 'Europe/London')).toBe(60);
+      expect(getTimeZoneOffset(utc(2025, 7, 15), 'Asia/Kolkata')).toBe(330);
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('should convert wall-clock time to UTC', () => {
+      expect(
+        zonedTimeToUtc({ year: 2025, month: 1, day: 6, hour: 9, minute: 0 }, 'America/New_York')
+      ).toEqual(utc(2025, 1, 6, 14));
+      expect(
+        zonedTimeToUtc({ year: 2025, month: 1, day: 6, hour: 9, minute: 0 }, 'Asia/Kolkata')
+      ).toEqual(utc(2025, 1, 6, 3, 30));
+    });
+
+    it('should handle southern hemisphere daylight saving', () => {
+      // Sydney is UTC+11 in January and UTC+10 in July
+      expect(
+        zonedTimeToUtc({ year: 2025, month: 1, day: 6, hour: 9, minute: 0 }, 'Australia/Sydney')
+      ).toEqual(utc(2025, 1, 5, 22));
+      expect(
+        zonedTimeToUtc({ year: 2025, month: 7, day: 7, hour: 9, minute: 0 }, 'Australia/Sydney')
+      ).toEqual(utc(2025, 7, 6, 23));
+    });
+
+    it('should shift times in a spring-forward gap forward', () => {
+      const gap = { year: 2025, month: 3, day: 9, hour: 2, minute: 30 };
+
+      expect(isExistingWallTime(gap, 'America/New_York')).toBe(false);
+      expect(zonedTimeToUtc(gap, 'America/New_York')).toEqual(utc(2025, 3, 9, 7, 30));
+      expect(getZonedParts(utc(2025, 3, 9, 7, 30), 'America/New_York').hour).toBe(3);
+    });
+
+    it('should resolve ambiguous fall-back times to the earlier instant', () => {
+      const ambiguous = { year: 2025, month: 11, day: 2, hour: 1, minute: 30 };
+
+      expect(isExistingWallTime(ambiguous, 'America/New_York')).toBe(true);
+      expect(zonedTimeToUtc(ambiguous, 'America/New_York')).toEqual(utc(2025, 11, 2, 5, 30));
+      expect(
+        zonedTimeToUtc({ year: 2025, month: 10, day: 26, hour: 2, minute: 30 }, 'Europe/Berlin')
+      ).toEqual(utc(2025, 10, 26, 0, 30));
+    });
+  });
+
+  describe('calendar dates', () => {
+    it('should add days across month and year boundaries', () => {
+      expect(addCalendarDays({ year: 2024, month: 12, day: 31 }, 1)).toEqual({
+        year: 2025,
+        month: 1,
+        day: 1,
+      });
+      expect(addCalendarDays({ year: 2024, month: 3, day: 1 }, -1)).toEqual({
+        year: 2024,
+        month: 2,
+        day: 29,
+      });
+    });
+
+    it('should round-trip date keys', () => {
+      expect(formatCalendarDate(parseCalendarDate('2025-03-09'))).toBe('2025-03-09');
+      expect(() => parseCalendarDate('9 March')).toThrow('Invalid calendar date: 9 March');
+    });
+  });
+
+  it('should validate IANA time zone names', () => {
+    expect(isValidTimeZone('America/New_York')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
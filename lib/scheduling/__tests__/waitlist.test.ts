@@ -0,0 +1,143 @@
+/**
+ * Tests for waitlist matching
+ */
+
+import {
+  DEFAULT_WAITLIST_HOLD_HOURS,
+  describeWaitlistWindows,
+  findWaitlistMatches,
+  getWaitlistHoldHours,
+  getWaitlistOfferExpiresAt,
+  getWaitlistWindowsError,
+  isInWaitlistWindows,
+} from '../waitlist';
+import type { WaitlistEntryDocument, WaitlistWindow } from '@/types/firestore';
+import type { Timestamp } from 'firebase/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const utc = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  new Date(Date.UTC(year, month - 1, day, hour, minute));
+
+const slot = (start: Date, minutes = 60) => ({
+  start,
+  end: new Date(start.getTime() + minutes * 60000),
+});
+
+// Monday mornings in New York
+const mondayMornings: WaitlistWindow[] = [{ day: 'monday', start: '09:00', end: '12:00' }];
+
+const entry = (
+  id: string,
+  joined: Date,
+  extra: Partial<WaitlistEntryDocument> = {}
+): WaitlistEntryDocument =>
+  ({
+    id,
+    practitionerId: 'prac-1',
+    clientId: `client-${id}`,
+    windows: mondayMornings,
+    sessionType: { id: 'standard', name: 'Standard', duration: 60, format: 'online' },
+    status: 'waiting',
+    createdAt: timestamp(joined),
+    ...extra,
+  }) as WaitlistEntryDocument;
+
+describe('waitlist', () => {
+  describe('hold', () => {
+    it('should fall back to the default hold and end it at the slot start', () => {
+      expect(getWaitlistHoldHours({ waitlistHoldHours: 2 })).toBe(2);
+      expect(getWaitlistHoldHours(null)).toBe(DEFAULT_WAITLIST_HOLD_HOURS);
+
+      const now = utc(2025, 1, 6, 8);
+      expect(getWaitlistOfferExpiresAt(utc(2025, 1, 8, 14), 12, now)).toEqual(utc(2025, 1, 6, 20));
+      expect(getWaitlistOfferExpiresAt(utc(2025, 1, 6, 14), 12, now)).toEqual(utc(2025, 1, 6, 14));
+    });
+  });
+
+  describe('getWaitlistWindowsError', () => {
+    it('should require at least one well-formed window', () => {
+      expect(getWaitlistWindowsError([])).toBe('Choose at least one day');
+      expect(getWaitlistWindowsError([{ day: 'monday', start: '12:00', end: '09:00' }])).toBe(
+        'Start time must be before end time'
+      );
+      expect(getWaitlistWindowsError(mondayMornings)).toBeNull();
+    });
+  });
+
+  describe('describeWaitlistWindows', () => {
+    it('should group days with the same times, starting the week on Monday', () => {
+      expect(
+        describeWaitlistWindows([
+          { day: 'sunday', start: '09:00', end: '12:00' },
+          { day: 'friday', start: '14:00', end: '17:00' },
+          { day: 'monday', start: '09:00', end: '12:00' },
+        ])
+      ).toBe('Mon, Sun 09:00–12:00; Fri 14:00–17:00');
+    });
+  });
+
+  describe('isInWaitlistWindows', () => {
+    it("should compare on the practitioner's wall clock", () => {
+      const fits = (start: Date) =>
+        isInWaitlistWindows(mondayMornings, slot(start), 'America/New_York');
+
+      // Monday 10:00 and 11:30, and Tuesday 10:00 in New York
+      expect(fits(utc(2025, 1, 6, 15))).toBe(true);
+      expect(fits(utc(2025, 1, 6, 16, 30))).toBe(false);
+      expect(fits(utc(2025, 1, 7, 15))).toBe(false);
+    });
+  });
+
+  describe('findWaitlistMatches', () => {
+    const freed = slot(utc(2025, 1, 6, 15), 60);
+
+    it('should offer to matching entries in the order they joined', () => {
+      const entries = [
+        entry('late', utc(2025, 1, 3)),
+        entry('early', utc(2025, 1, 1)),
+        entry('tuesdays', utc(2025, 1, 1), {
+          windows: [{ day: 'tuesday', start: '09:00', end: '17:00' }],
+        }),
+        entry('long', utc(2025, 1, 1), {
+          sessionType: { id: 'long', name: 'Long', duration: 90, format: 'online' },
+        }),
+        entry('offered', utc(2025, 1, 1), { status: 'offered' }),
+      ];
+
+      const matches = findWaitlistMatches(entries, freed, 'America/New_York');
+
+      expect(matches.map(({ entry: match }) => match.id)).toEqual(['early', 'late']);
+      expect(matches[0].slot).toEqual(freed);
+    });
+
+    it('should skip entries already offered the slot and excluded clients', () => {
+      const entries = [
+        entry('first', utc(2025, 1, 1)),
+        entry('second', utc(2025, 1, 2)),
+        entry('third', utc(2025, 1, 3)),
+      ];
+
+      const matches = findWaitlistMatches(
+        entries,
+        freed,
+        'America/New_York',
+        ['first'],
+        ['client-second']
+      );
+
+      expect(matches.map(({ entry: match }) => match.id)).toEqual(['third']);
+    });
+
+    it('should offer shorter sessions from the start of the freed time', () => {
+      const short = entry('short', utc(2025, 1, 1), {
+        sessionType: { id: 'short', name: 'Short', duration: 30, format: 'online' },
+      });
+
+      expect(findWaitlistMatches([short], freed, 'America/New_York')[0].slot).toEqual(
+        slot(utc(2025, 1, 6, 15), 30)
+      );
+    });
+  });
+});
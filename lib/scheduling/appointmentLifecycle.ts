@@ -0,0 +1,74 @@
+/**
+ * Appointment lifecycle
+ *
+ * Decides which appointments the scheduled lifecycle job moves on: confirmed
+ * sessions that have ended are completed, and booking requests the
+ * practitioner has not answered in time expire, as do waitlist offers the
+ * client has not accepted in time.
+ */
+
+import { addHours, isBefore, min } from 'date-fns';
+import type { AppointmentDocument, PractitionerDocument } from '@/types/firestore';
+
+/**
+ * How long requests wait for an answer when the practitioner has not set
+ * requestExpiryHours
+ */
+export const DEFAULT_REQUEST_EXPIRY_HOURS = 48;
+
+/**
+ * Hours after booking that a practitioner's unanswered requests expire
+ */
+export function getRequestExpiryHours(
+  practitioner: Pick<PractitionerDocument, 'requestExpiryHours'> | null | undefined
+): number {
+  return practitioner?.requestExpiryHours ?? DEFAULT_REQUEST_EXPIRY_HOURS;
+}
+
+/**
+ * When a pending request expires: expiryHours after it was booked, or at its
+ * start time if that comes first, since it can no longer be confirmed then.
+ * A waitlist offer expires at its own expiresAt until the client accepts it,
+ * and is then a request made when it was accepted.
+ *
+ * @param appointment - Pending appointment
+ * @param expiryHours - Practitioner's expiry window (see getRequestExpiryHours)
+ */
+export function getRequestExpiresAt(
+  appointment: Pick<AppointmentDocument, 'createdAt' | 'startTime' | 'waitlistOffer'>,
+  expiryHours: number
+): Date {
+  const offer = appointment.waitlistOffer;
+  if (offer && offer.acceptedAt == null) {
+    return min([offer.expiresAt.toDate(), appointment.startTime.toDate()]);
+  }
+
+  return min([
+    addHours((offer?.acceptedAt ?? appointment.createdAt).toDate(), expiryHours),
+    appointment.startTime.toDate(),
+  ]);
+}
+
+/**
+ * Whether a pending request has gone unanswered for too long
+ */
+export function isRequestExpired(
+  appointment: Pick<AppointmentDocument, 'status' | 'createdAt' | 'startTime' | 'waitlistOffer'>,
+  expiryHours: number,
+  now: Date = new Date()
+): boolean {
+  return (
+    appointment.status === 'pending' &&
+    !isBefore(now, getRequestExpiresAt(appointment, expiryHours))
+  );
+}
+
+/**
+ * Whether a confirmed appointment has ended without a recorded outcome
+ */
+export function isSessionEnded(
+  appointment: Pick<AppointmentDocument, 'status' | 'endTime'>,
+  now: Date = new Date()
+): boolean {
+  return appointment.status === 'confirmed' && !isBefore(now, appointment.endTime.toDate());
+}
@@ -0,0 +1,133 @@
+/**
+ * Appointment status state machine
+ *
+ * The single table of which status changes are allowed, who may make them
+ * and when, relative to the appointment's start or end time.
+ * AppointmentRepository enforces it and firestore.rules mirrors it, so keep
+ * the three in sync.
+ */
+
+import { isBefore } from 'date-fns';
+import { isOpenWaitlistOffer } from './waitlist';
+import type { AppointmentActor, AppointmentDocument, AppointmentStatus } from '@/types/firestore';
+
+/**
+ * When, relative to the appointment's times, a transition is allowed
+ */
+export type TransitionTiming = 'any' | 'before-start' | 'after-start' | 'after-end';
+
+/**
+ * An allowed status change
+ */
+export interface StatusTransition {
+  from: AppointmentStatus;
+  to: AppointmentStatus;
+
+  /**
+   * Who may make the change
+   */
+  actors: AppointmentActor[];
+
+  /**
+   * When the change may be made
+   */
+  timing: TransitionTiming;
+}
+
+/**
+ * All allowed status changes. Anything not listed is rejected. A status pair
+ * may be listed more than once with different actors and timing.
+ */
+export const STATUS_TRANSITIONS: readonly StatusTransition[] = [
+  // Requests are accepted or declined by the practitioner, or withdrawn by the client
+  { from: 'pending', to: 'confirmed', actors: ['practitioner'], timing: 'before-start' },
+  { from: 'pending', to: 'cancelled', actors: ['client', 'practitioner'], timing: 'any' },
+  // Requests left unanswered expire
+  { from: 'pending', to: 'cancelled', actors: ['system'], timing: 'any' },
+  { from: 'confirmed', to: 'cancelled', actors: ['client', 'practitioner'], timing: 'before-start' },
+  // Outcomes are recorded once the session has started
+  { from: 'confirmed', to: 'completed', actors: ['practitioner'], timing: 'after-start' },
+  { from: 'confirmed', to: 'no-show', actors: ['practitioner'], timing: 'after-start' },
+  // Sessions nobody recorded an outcome for are completed once they end
+  { from: 'confirmed', to: 'completed', actors: ['system'], timing: 'after-end' },
+  // Corrections to a recorded outcome
+  { from: 'completed', to: 'no-show', actors: ['practitioner'], timing: 'after-start' },
+  { from: 'no-show', to: 'completed', actors: ['practitioner'], timing: 'after-start' },
+];
+
+/**
+ * Appointment fields that decide whether a status change is allowed
+ */
+type TransitionableAppointment = Pick<
+  AppointmentDocument,
+  'status' | 'startTime' | 'endTime' | 'waitlistOffer'
+>;
+
+/**
+ * Why a status change is not allowed
+ *
+ * @param appointment - Appointment whose status would change
+ * @param to - New status
+ * @param actor - Who is making the change
+ * @param now - Current time
+ * @returns Error message, or null if the change is allowed
+ */
+export function getStatusTransitionError(
+  appointment: TransitionableAppointment,
+  to: AppointmentStatus,
+  actor: AppointmentActor,
+  now: Date = new Date()
+): string | null {
+  const from = appointment.status;
+  if (from === to) {
+    return `This appointment is already ${to}`;
+  }
+
+  const candidates = STATUS_TRANSITIONS.filter(
+    (candidate) => candidate.from === from && candidate.to === to
+  );
+  if (candidates.length === 0) {
+    return `A ${from} appointment cannot be changed to ${to}`;
+  }
+
+  const transition = candidates.find((candidate) => candidate.actors.includes(actor));
+  if (!transition) {
+    const people = candidates
+      .flatMap((candidate) => candidate.actors)
+      .filter((candidate) => candidate !== 'system');
+    return `Only the ${people.join(' or ')} can change a ${from} appointment to ${to}`;
+  }
+
+  const started = !isBefore(now, appointment.startTime.toDate());
+  if (transition.timing === 'before-start' && started) {
+    return 'This appointment has already started';
+  }
+  if (transition.timing === 'after-start' && !started) {
+    return 'This appointment has not started yet';
+  }
+  if (transition.timing === 'after-end' && isBefore(now, appointment.endTime.toDate())) {
+    return 'This appointment has not ended yet';
+  }
+  // The client has to take a waitlist offer before it becomes a request
+  if (to === 'confirmed' && isOpenWaitlistOffer(appointment)) {
+    return 'This time is being offered to a waitlisted client and can be confirmed once they accept it';
+  }
+
+  return null;
+}
+
+/**
+ * Statuses an actor may move an appointment to right now
+ */
+export function getAvailableStatusTransitions(
+  appointment: TransitionableAppointment,
+  actor: AppointmentActor,
+  now: Date = new Date()
+): AppointmentStatus[] {
+  const targets = STATUS_TRANSITIONS.filter((transition) => transition.from === appointment.status)
+    .map((transition) => transition.to);
+
+  return [...new Set(targets)].filter(
+    (to) => getStatusTransitionError(appointment, to, actor, now) === null
+  );
+}
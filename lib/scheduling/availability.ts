@@ -0,0 +1,461 @@
+/**
+ * Availability engine
+ *
+ * Pure functions that turn a practitioner's availabilityRules and their
+ * existing appointments into the list of slots a client can actually book.
+ * Working hours (dated overrides first, then the weekly template), blocked
+ * dates and booking windows are evaluated in the practitioner's time zone;
+ * slots are returned as UTC instants.
+ * Has no Firestore or React dependencies so it can be unit tested directly.
+ */
+
+import {
+  addHours,
+  addMinutes,
+  areIntervalsOverlapping,
+  differenceInMinutes,
+  isBefore,
+} from 'date-fns';
+import type {
+  AppointmentDocument,
+  AvailabilityOverride,
+  AvailabilityRules,
+  PractitionerDocument,
+  TimeInterval,
+  WorkingHours,
+} from '@/types/firestore';
+import {
+  addCalendarDays,
+  compareCalendarDates,
+  formatCalendarDate,
+  getCalendarDayOfWeek,
+  getZonedCalendarDate,
+  isExistingWallTime,
+  parseCalendarDate,
+  zonedTimeToUtc,
+  type CalendarDate,
+} from './timezone';
+
+/**
+ * Day-of-week keys used in availabilityRules.workingHours,
+ * indexed the same way as Date.getDay()
+ */
+export const DAYS_OF_WEEK = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+] as const;
+
+export type DayOfWeek = (typeof DAYS_OF_WEEK)[number];
+
+/**
+ * Default booking window in days when maxBookingAdvance is not set
+ */
+export const DEFAULT_MAX_BOOKING_ADVANCE_DAYS = 90;
+
+/**
+ * Grid, in minutes, that slot start times snap to. Slot locks are taken per
+ * block of this size, so every appointment must start on the grid.
+ */
+export const SLOT_GRANULARITY_MINUTES = 30;
+
+/**
+ * A bookable time slot
+ */
+export interface TimeSlot {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * A working interval in minutes after midnight, end exclusive
+ */
+export interface MinuteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Minimal appointment shape needed to block out time
+ */
+export type BookedInterval = Pick<AppointmentDocument, 'startTime' | 'endTime'> & {
+  status?: AppointmentDocument['status'];
+};
+
+/**
+ * Practitioner fields the engine reads
+ */
+export type AvailabilityPractitioner = Pick<
+  PractitionerDocument,
+  'availabilityRules' | 'sessionDuration'
+>;
+
+/**
+ * Options for slot generation
+ */
+export interface AvailabilityOptions {
+  /**
+   * First day to generate slots for: the practitioner-local day containing this instant
+   */
+  rangeStart: Date;
+
+  /**
+   * Last day to generate slots for (inclusive): the practitioner-local day containing this instant
+   */
+  rangeEnd: Date;
+
+  /**
+   * Current time, used for minBookingNotice and maxBookingAdvance (default: new Date())
+   */
+  now?: Date;
+
+  /**
+   * Session length in minutes (default: practitioner.sessionDuration)
+   */
+  duration?: number;
+
+  /**
+   * Minutes between consecutive slot start times (default: the session duration).
+   * Rounded up to a multiple of SLOT_GRANULARITY_MINUTES.
+   */
+  slotInterval?: number;
+}
+
+/**
+ * Parse a "HH:mm" 24-hour string into minutes after midnight
+ *
+ * @throws Error if the value is not a valid time of day
+ */
+export function parseTimeOfDay(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value);
+  if (!match) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    throw new Error(`Invalid time of day: ${value}`);
+  }
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Validate a day's list of working intervals
+ *
+ * @returns Error message, or null if every interval is well formed, in order
+ * and does not overlap another
+ */
+export function getIntervalListError(intervals: TimeInterval[]): string | null {
+  let ranges: MinuteRange[];
+  try {
+    ranges = intervals.map((interval) => ({
+      start: parseTimeOfDay(interval.start),
+      end: parseTimeOfDay(interval.end),
+    }));
+  } catch {
+    return 'Enter times as HH:mm';
+  }
+
+  if (ranges.some((range) => range.start >= range.end)) {
+    return 'Start time must be before end time';
+  }
+
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].start < sorted[i - 1].end) {
+      return 'Working hours must not overlap';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate weekly working hours
+ *
+ * @returns Error message per enabled day whose intervals are missing, invalid
+ * or overlapping
+ */
+export function getWorkingHoursErrors(
+  workingHours: WorkingHours
+): Partial<Record<DayOfWeek, string>> {
+  const errors: Partial<Record<DayOfWeek, string>> = {};
+
+  for (const day of DAYS_OF_WEEK) {
+    const hours = workingHours[day];
+    if (!hours?.enabled) {
+      continue;
+    }
+
+    const error =
+      hours.intervals.length === 0
+        ? 'Add working hours or mark the day unavailable'
+        : getIntervalListError(hours.intervals);
+    if (error) {
+      errors[day] = error;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Validate dated overrides
+ *
+ * @returns Error message keyed by override index
+ */
+export function getOverrideErrors(overrides: AvailabilityOverride[]): Record<number, string> {
+  const errors: Record<number, string> = {};
+  const seen = new Set<string>();
+
+  overrides.forEach((override, index) => {
+    try {
+      parseCalendarDate(override.date);
+    } catch {
+      errors[index] = 'Choose a valid date';
+      return;
+    }
+
+    if (seen.has(override.date)) {
+      errors[index] = 'This date already has an override';
+      return;
+    }
+    seen.add(override.date);
+
+    const error = getIntervalListError(override.intervals);
+    if (error) {
+      errors[index] = error;
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Working intervals for a practitioner-local day, in minutes after midnight
+ *
+ * A dated override replaces the weekly template for its date (an override
+ * with no intervals means the day is off). Intervals are sorted, and
+ * overlapping or back-to-back intervals are merged so a session can run
+ * across them.
+ */
+export function getWorkingIntervalsForDay(
+  rules: Pick<AvailabilityRules, 'workingHours' | 'overrides'>,
+  day: CalendarDate
+): MinuteRange[] {
+  const dateKey = formatCalendarDate(day);
+  const override = rules.overrides?.find((candidate) => candidate.date === dateKey);
+
+  let intervals: TimeInterval[];
+  if (override) {
+    intervals = override.intervals;
+  } else {
+    const hours = rules.workingHours[DAYS_OF_WEEK[getCalendarDayOfWeek(day)]];
+    intervals = hours?.enabled ? hours.intervals : [];
+  }
+
+  const ranges = intervals
+    .map((interval) => ({
+      start: parseTimeOfDay(interval.start),
+      end: parseTimeOfDay(interval.end),
+    }))
+    .filter((range) => range.start < range.end)
+    .sort((a, b) => a.start - b.start);
+
+  const merged: MinuteRange[] = [];
+  for (const range of ranges) {
+    const previous = merged[merged.length - 1];
+    if (previous && range.start <= previous.end) {
+      previous.end = Math.max(previous.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Round a number of minutes up to the slot grid
+ */
+export function alignToSlotGrid(minutes: number): number {
+  return Math.ceil(minutes / SLOT_GRANULARITY_MINUTES) * SLOT_GRANULARITY_MINUTES;
+}
+
+/**
+ * Format an instant as a "yyyy-MM-dd" key for the day it falls on in a time zone
+ */
+export function toDateKey(date: Date, timeZone: string): string {
+  return formatCalendarDate(getZonedCalendarDate(date, timeZone));
+}
+
+/**
+ * Whether an appointment still occupies its time (everything except cancelled)
+ */
+export function isBlockingAppointment(appointment: BookedInterval): boolean {
+  return appointment.status !== 'cancelled';
+}
+
+/**
+ * Generate candidate slots for a single practitioner-local day from its
+ * working intervals, without applying notice, blocked dates or existing
+ * appointments. Start times snap to the slot grid within each interval, and
+ * wall-clock times skipped by a daylight-saving transition are left out.
+ */
+export function getWorkingSlotsForDay(
+  practitioner: AvailabilityPractitioner,
+  day: CalendarDate,
+  duration: number,
+  slotInterval: number
+): TimeSlot[] {
+  const { timezone } = practitioner.availabilityRules;
+  const slots: TimeSlot[] = [];
+
+  for (const range of getWorkingIntervalsForDay(practitioner.availabilityRules, day)) {
+    for (
+      let minutes = alignToSlotGrid(range.start);
+      minutes + duration <= range.end;
+      minutes += slotInterval
+    ) {
+      const wallTime = { ...day, hour: Math.floor(minutes / 60), minute: minutes % 60 };
+      if (!isExistingWallTime(wallTime, timezone)) {
+        continue;
+      }
+
+      const start = zonedTimeToUtc(wallTime, timezone);
+      slots.push({ start, end: addMinutes(start, duration) });
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Compute the open, bookable slots for a practitioner within a date range
+ *
+ * Applies, in order: working hours (dated overrides ahead of the weekly
+ * template), blocked dates, minimum booking notice, maximum booking advance
+ * (counted in whole days), and overlaps with time-off periods and
+ * non-cancelled appointments. Days are practitioner-local days.
+ *
+ * @param practitioner - Practitioner document (availabilityRules and sessionDuration)
+ * @param appointments - Existing appointments for the practitioner
+ * @param options - Date range and generation options
+ * @returns Open slots sorted by start time
+ */
+export function getAvailableSlots(
+  practitioner: AvailabilityPractitioner,
+  appointments: BookedInterval[],
+  options: AvailabilityOptions
+): TimeSlot[] {
+  const now = options.now ?? new Date();
+  const duration = options.duration ?? practitioner.sessionDuration;
+  const slotInterval = alignToSlotGrid(options.slotInterval ?? duration);
+  const rules = practitioner.availabilityRules;
+  const timeZone = rules.timezone;
+
+  if (duration <= 0 || slotInterval <= 0) {
+    throw new Error('Session duration and slot interval must be positive');
+  }
+
+  const earliestStart = addHours(now, rules.minBookingNotice ?? 0);
+  const lastBookableDay = addCalendarDays(
+    getZonedCalendarDate(now, timeZone),
+    rules.maxBookingAdvance ?? DEFAULT_MAX_BOOKING_ADVANCE_DAYS
+  );
+  const blockedDays = new Set(
+    (rules.blockedDates ?? []).map((blocked) => toDateKey(blocked.toDate(), timeZone))
+  );
+  const busy = [
+    ...appointments.filter(isBlockingAppointment).map((appointment) => ({
+      start: appointment.startTime.toDate(),
+      end: appointment.endTime.toDate(),
+    })),
+    ...(rules.timeOff ?? []).map((period) => ({
+      start: period.start.toDate(),
+      end: period.end.toDate(),
+    })),
+  ];
+
+  const slots: TimeSlot[] = [];
+  const firstDay = getZonedCalendarDate(options.rangeStart, timeZone);
+  const lastDay = getZonedCalendarDate(options.rangeEnd, timeZone);
+
+  for (
+    let day = firstDay;
+    compareCalendarDates(day, lastDay) <= 0 && compareCalendarDates(day, lastBookableDay) <= 0;
+    day = addCalendarDays(day, 1)
+  ) {
+    if (blockedDays.has(formatCalendarDate(day))) {
+      continue;
+    }
+
+    for (const slot of getWorkingSlotsForDay(practitioner, day, duration, slotInterval)) {
+      if (isBefore(slot.start, earliestStart)) {
+        continue;
+      }
+
+      const overlaps = busy.some((interval) => areIntervalsOverlapping(slot, interval));
+      if (!overlaps) {
+        slots.push(slot);
+      }
+    }
+  }
+
+  return slots;
+}
+
+/**
+ * Whether a specific time can be booked with the practitioner
+ *
+ * Applies the same rules as getAvailableSlots to a time that was not
+ * necessarily picked from its output (e.g. a proposed reschedule). The start
+ * must be on the slot grid.
+ *
+ * @param practitioner - Practitioner document (availabilityRules and sessionDuration)
+ * @param appointments - Existing appointments for the practitioner
+ * @param slot - Proposed start and end
+ * @param now - Current time, for booking notice and advance
+ */
+export function isSlotAvailable(
+  practitioner: AvailabilityPractitioner,
+  appointments: BookedInterval[],
+  slot: TimeSlot,
+  now: Date = new Date()
+): boolean {
+  const duration = differenceInMinutes(slot.end, slot.start);
+  if (duration <= 0) {
+    return false;
+  }
+
+  return getAvailableSlots(practitioner, appointments, {
+    rangeStart: slot.start,
+    rangeEnd: slot.start,
+    now,
+    duration,
+    slotInterval: SLOT_GRANULARITY_MINUTES,
+  }).some((candidate) => candidate.start.getTime() === slot.start.getTime());
+}
+
+/**
+ * Group slots by the "yyyy-MM-dd" day they start on in the given time zone
+ */
+export function groupSlotsByDay(slots: TimeSlot[], timeZone: string): Map<string, TimeSlot[]> {
+  const grouped = new Map<string, TimeSlot[]>();
+  for (const slot of slots) {
+    const key = toDateKey(slot.start, timeZone);
+    const daySlots = grouped.get(key);
+    if (daySlots) {
+      daySlots.push(slot);
+    } else {
+      grouped.set(key, [slot]);
+    }
+  }
+  return grouped;
+}
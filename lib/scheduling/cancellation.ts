@@ -0,0 +1,133 @@
+/**
+ * Cancellation policy
+ *
+ * Works out whether a cancellation is late and what the client owes for it
+ * (or for a missed session) under a practitioner's cancellationPolicy. Fees
+ * are a percentage of the price quoted when the appointment was booked.
+ */
+
+import { addHours, isBefore } from 'date-fns';
+import { formatPrice } from '@/lib/utils';
+import type { AppointmentActor, AppointmentDocument, CancellationPolicy } from '@/types/firestore';
+
+/**
+ * Policy applied to practitioners who have not configured one: no fees
+ * (kept in sync with firestore.rules)
+ */
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  freeCancellationHours: 24,
+  lateCancellationFeePercent: 0,
+  noShowFeePercent: 0,
+};
+
+/**
+ * Outcome of cancelling an appointment
+ */
+export interface CancellationTerms {
+  /**
+   * Whether the cancellation falls inside the free-cancellation window
+   */
+  lateCancellation: boolean;
+
+  /**
+   * Fee owed by the client in cents (0 when free)
+   */
+  fee: number;
+}
+
+/**
+ * Appointment fields that decide cancellation terms
+ */
+type CancellableAppointment = Pick<AppointmentDocument, 'status' | 'startTime' | 'quotedPrice'>;
+
+/**
+ * A practitioner's cancellation policy, or the one stored on an appointment
+ * when it was booked, with defaults for missing fields
+ */
+export function getCancellationPolicy(source: {
+  cancellationPolicy?: CancellationPolicy | null;
+}): CancellationPolicy {
+  return { ...DEFAULT_CANCELLATION_POLICY, ...source.cancellationPolicy };
+}
+
+/**
+ * Fee for a percentage of the quoted price, rounded down to whole cents
+ */
+function getFee(quotedPrice: number | null | undefined, percent: number): number {
+  return quotedPrice ? Math.floor((quotedPrice * percent) / 100) : 0;
+}
+
+/**
+ * Terms for cancelling an appointment now
+ *
+ * Only clients cancelling a confirmed appointment inside the
+ * free-cancellation window are charged; requests the practitioner has not
+ * confirmed yet and cancellations by the practitioner or the system are
+ * always free.
+ *
+ * @param appointment - Appointment being cancelled
+ * @param cancelledBy - Who is cancelling
+ * @param policy - Policy agreed when booking (see getCancellationPolicy)
+ * @param now - Current time
+ */
+export function getCancellationTerms(
+  appointment: CancellableAppointment,
+  cancelledBy: AppointmentActor,
+  policy: CancellationPolicy,
+  now: Date = new Date()
+): CancellationTerms {
+  const cutoff = addHours(now, policy.freeCancellationHours);
+  const lateCancellation =
+    cancelledBy === 'client' &&
+    appointment.status === 'confirmed' &&
+    isBefore(appointment.startTime.toDate(), cutoff);
+
+  return {
+    lateCancellation,
+    fee: lateCancellation ? getFee(appointment.quotedPrice, policy.lateCancellationFeePercent) : 0,
+  };
+}
+
+/**
+ * Fee owed when the client misses an appointment, in cents
+ */
+export function getNoShowFee(
+  appointment: Pick<AppointmentDocument, 'quotedPrice'>,
+  policy: CancellationPolicy
+): number {
+  return getFee(appointment.quotedPrice, policy.noShowFeePercent);
+}
+
+/**
+ * Plain-language summary of a cancellation policy for clients
+ *
+ * @param policy - Cancellation policy
+ * @param price - Session price in cents, to show fees as amounts
+ * @param currency - Currency of price
+ */
+export function describeCancellationPolicy(
+  policy: CancellationPolicy,
+  price?: number | null,
+  currency?: string | null
+): string[] {
+  const describeFee = (percent: number) =>
+    price && currency
+      ? `${formatPrice(getFee(price, percent), currency)} (${percent}% of the session price)`
+      : `${percent}% of the session price`;
+
+  const lines = [
+    `Free cancellation up to ${policy.freeCancellationHours} hours before the session.`,
+  ];
+
+  lines.push(
+    policy.lateCancellationFeePercent > 0
+      ? `Later cancellations are charged ${describeFee(policy.lateCancellationFeePercent)}.`
+      : 'Later cancellations are not charged.'
+  );
+
+  if (policy.noShowFeePercent > 0) {
+    lines.push(`Missed sessions are charged ${describeFee(policy.noShowFeePercent)}.`);
+  }
+
+  return lines;
+}
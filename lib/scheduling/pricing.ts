@@ -0,0 +1,114 @@
+/**
+ * Booking price resolution
+ *
+ * Decides whether a booking is charged at the initial-consultation or the
+ * follow-up rate, based on the client's completed sessions with the
+ * practitioner, and produces the quote stored on the appointment. The
+ * booking page quotes from the history it loads; the payment sync works
+ * the quote out again from Firestore (getBookedSessionQuote) and that is
+ * the price and tier recorded and charged.
+ */
+
+import { DEFAULT_SESSION_TYPE_ID, getSessionTypes } from './sessionTypes';
+import type {
+  AppointmentDocument,
+  PractitionerDocument,
+  PricingTier,
+  SessionType,
+} from '@/types/firestore';
+
+/**
+ * Price a client is quoted for a session
+ */
+export interface SessionQuote {
+  /**
+   * Price in cents
+   */
+  price: number;
+
+  /**
+   * Currency code (e.g., "USD")
+   */
+  currency: string;
+
+  /**
+   * Rate the price was taken from
+   */
+  tier: PricingTier;
+}
+
+/**
+ * Whether a client has completed at least one session with the practitioner
+ *
+ * @param history - The client's appointments with the practitioner
+ */
+export function isReturningClient(history: Pick<AppointmentDocument, 'status'>[]): boolean {
+  return history.some((appointment) => appointment.status === 'completed');
+}
+
+/**
+ * Whether a client had completed a session with the practitioner when an
+ * appointment was booked: sessions that started after the booking was made
+ * (including the rest of a series booked with it) do not count
+ *
+ * @param history - The client's appointments with the practitioner
+ */
+export function wasReturningClientWhenBooked(
+  appointment: Pick<AppointmentDocument, 'id' | 'createdAt'>,
+  history: Pick<AppointmentDocument, 'id' | 'status' | 'startTime'>[]
+): boolean {
+  const bookedAt = appointment.createdAt.toMillis();
+  return isReturningClient(
+    history.filter((other) => other.id !== appointment.id && other.startTime.toMillis() < bookedAt)
+  );
+}
+
+/**
+ * Quote a session type for a client
+ *
+ * Returning clients pay the session type's follow-up price when it has one,
+ * otherwise its regular price; new clients always pay the regular price.
+ */
+export function getSessionQuote(
+  practitioner: Pick<PractitionerDocument, 'pricing'>,
+  sessionType: Pick<SessionType, 'price' | 'followUpPrice'>,
+  returningClient: boolean
+): SessionQuote {
+  const currency = practitioner.pricing.currency;
+
+  if (!returningClient) {
+    return { price: sessionType.price, currency, tier: 'initial' };
+  }
+
+  return {
+    price: sessionType.followUpPrice ?? sessionType.price,
+    currency,
+    tier: 'follow-up',
+  };
+}
+
+/**
+ * The quote of a booked appointment, worked out from the practitioner's
+ * current session types and the client's history rather than the price the
+ * booking carries
+ *
+ * @param history - The client's appointments with the practitioner
+ * @throws Error if the practitioner does not offer the booked session type
+ */
+export function getBookedSessionQuote(
+  practitioner: Pick<PractitionerDocument, 'pricing' | 'sessionTypes' | 'sessionDuration'>,
+  appointment: Pick<AppointmentDocument, 'id' | 'createdAt' | 'sessionType'>,
+  history: Pick<AppointmentDocument, 'id' | 'status' | 'startTime'>[]
+): SessionQuote {
+  const sessionTypeId = appointment.sessionType?.id ?? DEFAULT_SESSION_TYPE_ID;
+  const sessionType = getSessionTypes(practitioner).find((type) => type.id === sessionTypeId);
+  if (!sessionType) {
+    throw new Error(`Session type not offered: ${sessionTypeId}`);
+  }
+
+  return getSessionQuote(
+    practitioner,
+    sessionType,
+    wasReturningClientWhenBooked(appointment, history)
+  );
+}
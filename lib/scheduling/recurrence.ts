@@ -0,0 +1,213 @@
+/**
+ * Recurring appointment series
+ *
+ * Expands a RecurrenceRule into occurrence times, shifts a series when one
+ * of its appointments moves, and picks the appointments a "this one",
+ * "this and following" or "whole series" change applies to. Times are
+ * computed on the practitioner's wall clock, so a weekly 10:00 session stays
+ * at 10:00 across daylight-saving changes.
+ */
+
+import { isBefore } from 'date-fns';
+import type { TimeSlot } from './availability';
+import {
+  addCalendarDays,
+  compareCalendarDates,
+  formatInTimeZone,
+  getZonedCalendarDate,
+  getZonedParts,
+  zonedTimeToUtc,
+  type CalendarDate,
+} from './timezone';
+import type {
+  AppointmentDocument,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  SeriesScope,
+} from '@/types/firestore';
+
+/**
+ * Most occurrences a series can have
+ */
+export const MAX_SERIES_OCCURRENCES = 26;
+
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * Labels for each frequency, for pickers and summaries
+ */
+export const RECURRENCE_FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+};
+
+/**
+ * Why a recurrence rule cannot be booked
+ *
+ * @param rule - Repeat pattern
+ * @param firstStart - Start of the first occurrence
+ * @returns Error message, or null if the rule is valid
+ */
+export function getRecurrenceRuleError(rule: RecurrenceRule, firstStart: Date): string | null {
+  if (rule.count == null && rule.until == null) {
+    return 'Choose how many sessions to book or when the series ends';
+  }
+
+  if (rule.count != null) {
+    if (!Number.isInteger(rule.count) || rule.count < 2) {
+      return 'A series needs at least 2 sessions';
+    }
+    if (rule.count > MAX_SERIES_OCCURRENCES) {
+      return `A series can have at most ${MAX_SERIES_OCCURRENCES} sessions`;
+    }
+  }
+
+  if (rule.until != null && !isBefore(firstStart, rule.until.toDate())) {
+    return 'The series must end after the first session';
+  }
+
+  return null;
+}
+
+/**
+ * Calendar date of the occurrence at an index
+ */
+function getOccurrenceDate(
+  first: CalendarDate,
+  frequency: RecurrenceFrequency,
+  index: number
+): CalendarDate {
+  if (frequency === 'monthly') {
+    const monthIndex = first.month - 1 + index;
+    const year = first.year + Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+    return { year, month, day: Math.min(first.day, daysInMonth) };
+  }
+
+  return addCalendarDays(first, index * (frequency === 'weekly' ? 7 : 14));
+}
+
+/**
+ * The same wall-clock time on another date, keeping the slot's length
+ */
+function atDate(slot: TimeSlot, date: CalendarDate, timeZone: string): TimeSlot {
+  const { hour, minute } = getZonedParts(slot.start, timeZone);
+  const start = zonedTimeToUtc({ ...date, hour, minute }, timeZone);
+  return { start, end: new Date(start.getTime() + slot.end.getTime() - slot.start.getTime()) };
+}
+
+/**
+ * Times of every occurrence of a series, the first one included
+ *
+ * Stops at the rule's count or until date, and never returns more than
+ * MAX_SERIES_OCCURRENCES.
+ *
+ * @param first - First occurrence
+ * @param rule - Repeat pattern (see getRecurrenceRuleError)
+ * @param timeZone - Practitioner's IANA time zone
+ */
+export function getSeriesOccurrences(
+  first: TimeSlot,
+  rule: RecurrenceRule,
+  timeZone: string
+): TimeSlot[] {
+  const firstDate = getZonedCalendarDate(first.start, timeZone);
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const until = rule.until?.toDate() ?? null;
+  const occurrences: TimeSlot[] = [];
+
+  for (let index = 0; index < limit; index++) {
+    const occurrence = atDate(first, getOccurrenceDate(firstDate, rule.frequency, index), timeZone);
+    if (until && isBefore(until, occurrence.start)) {
+      break;
+    }
+    occurrences.push(occurrence);
+  }
+
+  return occurrences;
+}
+
+/**
+ * New times for an occurrence when a series is moved
+ *
+ * Applies the move of one appointment (from → to) to another occurrence:
+ * the same number of calendar days, the new wall-clock time and the new
+ * length.
+ *
+ * @param occurrence - Current times of the occurrence to move
+ * @param from - Current times of the appointment being moved
+ * @param to - New times of the appointment being moved
+ * @param timeZone - Practitioner's IANA time zone
+ */
+export function shiftSeriesOccurrence(
+  occurrence: TimeSlot,
+  from: TimeSlot,
+  to: TimeSlot,
+  timeZone: string
+): TimeSlot {
+  const dayShift = Math.round(
+    compareCalendarDates(
+      getZonedCalendarDate(to.start, timeZone),
+      getZonedCalendarDate(from.start, timeZone)
+    ) / MS_PER_DAY
+  );
+  const date = addCalendarDays(getZonedCalendarDate(occurrence.start, timeZone), dayShift);
+  return atDate(to, date, timeZone);
+}
+
+/**
+ * Appointments of a series that a change to one of them applies to
+ *
+ * Only upcoming pending or confirmed appointments can change, so past and
+ * cancelled occurrences are never included.
+ *
+ * @param series - All appointments sharing the seriesId
+ * @param appointment - Appointment the change was made from
+ * @param scope - This one, this and following, or the whole series
+ * @param now - Current time
+ * @returns Matching appointments in start order
+ */
+export function getSeriesScopeAppointments(
+  series: AppointmentDocument[],
+  appointment: AppointmentDocument,
+  scope: SeriesScope,
+  now: Date = new Date()
+): AppointmentDocument[] {
+  if (scope === 'this' || !appointment.seriesId) {
+    return [appointment];
+  }
+
+  return series
+    .filter(
+      (candidate) =>
+        candidate.seriesId === appointment.seriesId &&
+        (candidate.status === 'pending' || candidate.status === 'confirmed') &&
+        isBefore(now, candidate.startTime.toDate()) &&
+        (scope === 'all' || candidate.startTime.toMillis() >= appointment.startTime.toMillis())
+    )
+    .sort((a, b) => a.startTime.toMillis() - b.startTime.toMillis());
+}
+
+/**
+ * Plain-language summary of a recurrence rule (e.g. "Weekly, 6 sessions")
+ *
+ * @param rule - Repeat pattern
+ * @param timeZone - Time zone to show the until date in
+ */
+export function describeRecurrence(rule: RecurrenceRule, timeZone: string): string {
+  const frequency = RECURRENCE_FREQUENCY_LABELS[rule.frequency];
+  if (rule.count != null) {
+    return `${frequency}, ${rule.count} sessions`;
+  }
+  if (rule.until != null) {
+    const until = formatInTimeZone(rule.until.toDate(), timeZone, {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+    return `${frequency} until ${until}`;
+  }
+  return frequency;
+}
@@ -0,0 +1,76 @@
+/**
+ * Reschedule policy
+ *
+ * Decides whether an appointment may be moved to another time, and whether a
+ * client's move has to wait for the practitioner to accept it. Practitioners
+ * can always move their upcoming appointments; clients are held to the
+ * practitioner's reschedulePolicy.
+ */
+
+import { addHours, isBefore } from 'date-fns';
+import type {
+  AppointmentDocument,
+  PractitionerDocument,
+  ReschedulePolicy,
+  RescheduledBy,
+} from '@/types/firestore';
+
+/**
+ * Policy applied to practitioners who have not configured one
+ * (kept in sync with firestore.rules)
+ */
+export const DEFAULT_RESCHEDULE_POLICY: ReschedulePolicy = {
+  requireApproval: false,
+  minNoticeHours: 24,
+};
+
+/**
+ * A practitioner's reschedule policy, with defaults for missing fields
+ */
+export function getReschedulePolicy(
+  practitioner: Pick<PractitionerDocument, 'reschedulePolicy'>
+): ReschedulePolicy {
+  return { ...DEFAULT_RESCHEDULE_POLICY, ...practitioner.reschedulePolicy };
+}
+
+/**
+ * Why an appointment cannot be rescheduled right now
+ *
+ * @param appointment - Appointment to move (its current times)
+ * @param requestedBy - Who is moving it
+ * @param policy - The practitioner's reschedule policy
+ * @param now - Current time
+ * @returns Error message, or null if the appointment may be moved
+ */
+export function getRescheduleError(
+  appointment: Pick<AppointmentDocument, 'status' | 'startTime'>,
+  requestedBy: RescheduledBy,
+  policy: ReschedulePolicy,
+  now: Date = new Date()
+): string | null {
+  if (appointment.status !== 'pending' && appointment.status !== 'confirmed') {
+    return 'Only upcoming appointments can be rescheduled';
+  }
+
+  const start = appointment.startTime.toDate();
+  if (!isBefore(now, start)) {
+    return 'This appointment has already started';
+  }
+
+  if (requestedBy === 'client' && isBefore(start, addHours(now, policy.minNoticeHours))) {
+    return `Appointments cannot be rescheduled less than ${policy.minNoticeHours} hours before they start`;
+  }
+
+  return null;
+}
+
+/**
+ * Whether a reschedule has to be accepted by the practitioner before it
+ * takes effect
+ */
+export function requiresRescheduleApproval(
+  requestedBy: RescheduledBy,
+  policy: ReschedulePolicy
+): boolean {
+  return requestedBy === 'client' && policy.requireApproval;
+}
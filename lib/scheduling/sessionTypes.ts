@@ -0,0 +1,128 @@
+/**
+ * Session type helpers
+ *
+ * Resolves which session types a practitioner offers and which of them a
+ * given client may book. Practitioners who have not defined any session
+ * types get a single default type built from their pricing (initial and
+ * follow-up rates) and sessionDuration, so older profiles keep working.
+ * firestore.rules only accepts bookings of a listed type at its duration;
+ * the new-client restriction needs the client's history, so the payment
+ * sync checks it (getBookedSessionTypeError).
+ */
+
+import type {
+  AppointmentDocument,
+  BookedSessionType,
+  PractitionerDocument,
+  SessionType,
+} from '@/types/firestore';
+
+/**
+ * ID of the session type derived for practitioners without session types
+ */
+export const DEFAULT_SESSION_TYPE_ID = 'default';
+
+/**
+ * Most session types a practitioner can offer (firestore.rules checks
+ * bookings against this many)
+ */
+export const MAX_SESSION_TYPES = 10;
+
+/**
+ * Practitioner fields needed to resolve session types
+ */
+export type SessionTypePractitioner = Pick<
+  PractitionerDocument,
+  'sessionTypes' | 'pricing' | 'sessionDuration'
+>;
+
+/**
+ * Session types a practitioner offers
+ */
+export function getSessionTypes(practitioner: SessionTypePractitioner): SessionType[] {
+  if (practitioner.sessionTypes && practitioner.sessionTypes.length > 0) {
+    return practitioner.sessionTypes;
+  }
+
+  return [
+    {
+      id: DEFAULT_SESSION_TYPE_ID,
+      name: 'Session',
+      description: null,
+      duration: practitioner.sessionDuration,
+      price: practitioner.pricing.initialConsultation,
+      followUpPrice: practitioner.pricing.followUpSession,
+      format: 'online',
+      newClientsOnly: false,
+    },
+  ];
+}
+
+/**
+ * Session types a client may book
+ *
+ * @param isNewClient - Whether the client has no prior (non-cancelled)
+ *   appointments with the practitioner
+ */
+export function getBookableSessionTypes(
+  practitioner: SessionTypePractitioner,
+  isNewClient: boolean
+): SessionType[] {
+  return getSessionTypes(practitioner).filter((type) => isNewClient || !type.newClientsOnly);
+}
+
+/**
+ * Details of a session type to store on an appointment
+ */
+export function toBookedSessionType(type: SessionType): BookedSessionType {
+  return {
+    id: type.id,
+    name: type.name,
+    duration: type.duration,
+    format: type.format,
+  };
+}
+
+/**
+ * Whether a client had no other (non-cancelled) appointments with the
+ * practitioner when an appointment was booked. The rest of a series booked
+ * with it does not count.
+ *
+ * @param history - The client's appointments with the practitioner
+ */
+export function wasNewClientWhenBooked(
+  appointment: Pick<AppointmentDocument, 'id' | 'createdAt' | 'seriesId'>,
+  history: Pick<AppointmentDocument, 'id' | 'status' | 'createdAt' | 'seriesId'>[]
+): boolean {
+  const bookedAt = appointment.createdAt.toMillis();
+  return history.every(
+    (other) =>
+      other.id === appointment.id ||
+      other.status === 'cancelled' ||
+      other.createdAt.toMillis() >= bookedAt ||
+      (!!appointment.seriesId && other.seriesId === appointment.seriesId)
+  );
+}
+
+/**
+ * Why a client could not have booked an appointment's session type, or null
+ * if they could
+ *
+ * @param history - The client's appointments with the practitioner
+ */
+export function getBookedSessionTypeError(
+  practitioner: SessionTypePractitioner,
+  appointment: Pick<AppointmentDocument, 'id' | 'createdAt' | 'seriesId' | 'sessionType'>,
+  history: Pick<AppointmentDocument, 'id' | 'status' | 'createdAt' | 'seriesId'>[]
+): string | null {
+  const sessionTypeId = appointment.sessionType?.id ?? DEFAULT_SESSION_TYPE_ID;
+  const sessionType = getSessionTypes(practitioner).find((type) => type.id === sessionTypeId);
+
+  if (!sessionType) {
+    return `Session type not offered: ${sessionTypeId}`;
+  }
+  if (sessionType.newClientsOnly && !wasNewClientWhenBooked(appointment, history)) {
+    return `${sessionType.name} is only offered to new clients`;
+  }
+  return null;
+}
@@ -0,0 +1,62 @@
+/**
+ * Slot lock helpers
+ *
+ * Pure helpers for the slotLocks collection: which grid blocks an
+ * appointment occupies and the deterministic document ID of each lock.
+ * The same ID scheme is mirrored in firestore.rules.
+ */
+
+import { SLOT_GRANULARITY_MINUTES } from './availability';
+import type { SlotLockOwnerType } from '@/types/firestore';
+
+const BLOCK_MS = SLOT_GRANULARITY_MINUTES * 60_000;
+
+/**
+ * A grid block occupied by an appointment
+ */
+export interface SlotLockBlock {
+  start: Date;
+  end: Date;
+  index: number;
+}
+
+/**
+ * Whether an instant lies exactly on the slot grid
+ */
+export function isOnSlotGrid(date: Date): boolean {
+  return date.getTime() % BLOCK_MS === 0;
+}
+
+/**
+ * Grid blocks covering [start, end). The last block may extend past end
+ * when the session length is not a multiple of the grid.
+ *
+ * @throws Error if start is not on the grid or end is not after start
+ */
+export function getSlotLockBlocks(start: Date, end: Date): SlotLockBlock[] {
+  if (!isOnSlotGrid(start)) {
+    throw new Error(
+      `Appointments must start on a ${SLOT_GRANULARITY_MINUTES}-minute boundary`
+    );
+  }
+  if (end.getTime() <= start.getTime()) {
+    throw new Error('Appointment end time must be after its start time');
+  }
+
+  const blocks: SlotLockBlock[] = [];
+  for (let time = start.getTime(), index = 0; time < end.getTime(); time += BLOCK_MS, index++) {
+    blocks.push({ start: new Date(time), end: new Date(time + BLOCK_MS), index });
+  }
+  return blocks;
+}
+
+/**
+ * Document ID of the lock for one owner and block
+ */
+export function getSlotLockId(
+  ownerType: SlotLockOwnerType,
+  ownerId: string,
+  blockStart: Date
+): string {
+  return `${ownerType}_${ownerId}_${blockStart.getTime()}`;
+}
@@ -0,0 +1,115 @@
+/**
+ * Time-off helpers
+ *
+ * Converts dates picked in the settings calendar (browser-local dates) into
+ * instants in the practitioner's time zone, and back again for display.
+ */
+
+import {
+  addCalendarDays,
+  getZonedCalendarDate,
+  zonedTimeToUtc,
+  type CalendarDate,
+} from './timezone';
+import { parseTimeOfDay } from './availability';
+
+/**
+ * Time-off as entered in the settings form
+ */
+export interface TimeOffInput {
+  /**
+   * First day (a browser-local date from the calendar picker)
+   */
+  from: Date;
+
+  /**
+   * Last day, inclusive (defaults to from)
+   */
+  to?: Date;
+
+  /**
+   * Block whole days instead of using startTime/endTime
+   */
+  allDay: boolean;
+
+  /**
+   * "HH:mm" on the first day (partial-day blocks only)
+   */
+  startTime?: string;
+
+  /**
+   * "HH:mm" on the last day (partial-day blocks only)
+   */
+  endTime?: string;
+}
+
+/**
+ * Calendar date shown by a browser-local Date from the date picker
+ */
+export function localDateToCalendarDate(date: Date): CalendarDate {
+  return { year: date.getFullYear(), month: date.getMonth() + 1, day: date.getDate() };
+}
+
+/**
+ * Browser-local midnight Date for a calendar date, for the date picker
+ */
+export function calendarDateToLocalDate(date: CalendarDate): Date {
+  return new Date(date.year, date.month - 1, date.day);
+}
+
+/**
+ * Instant stored in blockedDates for a calendar date. Noon is used so the
+ * day is unambiguous in the practitioner's zone even across DST changes.
+ */
+export function getBlockedDateInstant(date: CalendarDate, timeZone: string): Date {
+  return zonedTimeToUtc({ ...date, hour: 12, minute: 0 }, timeZone);
+}
+
+/**
+ * Calendar date a stored blockedDates entry refers to
+ */
+export function getBlockedCalendarDate(instant: Date, timeZone: string): CalendarDate {
+  return getZonedCalendarDate(instant, timeZone);
+}
+
+/**
+ * Resolve time-off input into a UTC range in the practitioner's time zone
+ *
+ * @throws Error if times are missing or malformed, or the range is empty
+ */
+export function getTimeOffRange(
+  input: TimeOffInput,
+  timeZone: string
+): { start: Date; end: Date } {
+  const firstDay = localDateToCalendarDate(input.from);
+  const lastDay = localDateToCalendarDate(input.to ?? input.from);
+
+  let start: Date;
+  let end: Date;
+
+  if (input.allDay) {
+    start = zonedTimeToUtc({ ...firstDay, hour: 0, minute: 0 }, timeZone);
+    end = zonedTimeToUtc({ ...addCalendarDays(lastDay, 1), hour: 0, minute: 0 }, timeZone);
+  } else {
+    if (!input.startTime || !input.endTime) {
+      throw new Error('Start and end times are required for partial-day time off');
+    }
+
+    const startMinutes = parseTimeOfDay(input.startTime);
+    const endMinutes = parseTimeOfDay(input.endTime);
+    start = zonedTimeToUtc(
+      { ...firstDay, hour: Math.floor(startMinutes / 60), minute: startMinutes % 60 },
+      timeZone
+    );
+    end = zonedTimeToUtc(
+      { ...lastDay, hour: Math.floor(endMinutes / 60), minute: endMinutes % 60 },
+      timeZone
+    );
+  }
+
+  if (start.getTime() >= end.getTime()) {
+    throw new Error('Time off must end after it starts');
+  }
+
+  return { start, end };
+}
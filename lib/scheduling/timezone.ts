@@ -0,0 +1,233 @@
+/**
+ * Time zone helpers
+ *
+ * Converts between UTC instants and wall-clock times in IANA time zones
+ * using the built-in Intl API, so scheduling can be computed in the
+ * practitioner's zone regardless of where the code runs.
+ */
+
+/**
+ * A wall-clock date and time in some time zone (month is 1-12)
+ */
+export interface ZonedDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second?: number;
+}
+
+/**
+ * A calendar date without a time (month is 1-12)
+ */
+export type CalendarDate = Pick<ZonedDateTime, 'year' | 'month' | 'day'>;
+
+const MS_PER_MINUTE = 60_000;
+const MS_PER_DAY = 86_400_000;
+
+const partsFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = partsFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    partsFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * The time zone of the current runtime (the client's browser zone)
+ */
+export function getBrowserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Whether a string is an IANA time zone the runtime understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getPartsFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Wall-clock parts of an instant in the given time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): Required<ZonedDateTime> {
+  const values: Record<string, number> = {};
+  for (const part of getPartsFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      values[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+  };
+}
+
+/**
+ * Offset of the time zone from UTC at the given instant, in minutes
+ * (e.g. -300 for America/New_York in winter)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((asUtc - instant) / MS_PER_MINUTE);
+}
+
+function matchesWallTime(date: Date, local: ZonedDateTime, timeZone: string): boolean {
+  const parts = getZonedParts(date, timeZone);
+  return (
+    parts.year === local.year &&
+    parts.month === local.month &&
+    parts.day === local.day &&
+    parts.hour === local.hour &&
+    parts.minute === local.minute
+  );
+}
+
+/**
+ * Convert a wall-clock time in a time zone to the UTC instant it denotes
+ *
+ * Ambiguous times (when clocks fall back) resolve to the earlier instant.
+ * Times skipped when clocks spring forward are shifted forward by the gap,
+ * so 02:30 on a 02:00→03:00 transition day becomes 03:30.
+ */
+export function zonedTimeToUtc(local: ZonedDateTime, timeZone: string): Date {
+  const asUtc = Date.UTC(
+    local.year,
+    local.month - 1,
+    local.day,
+    local.hour,
+    local.minute,
+    local.second ?? 0
+  );
+
+  // Offsets a day either side bracket any transition near this wall time
+  const offsetBefore = getTimeZoneOffset(new Date(asUtc - MS_PER_DAY), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(asUtc + MS_PER_DAY), timeZone);
+
+  const candidates = [offsetBefore, offsetAfter]
+    .map((offset) => new Date(asUtc - offset * MS_PER_MINUTE))
+    .filter((candidate) => matchesWallTime(candidate, local, timeZone))
+    .sort((a, b) => a.getTime() - b.getTime());
+
+  if (candidates.length > 0) {
+    return candidates[0];
+  }
+
+  return new Date(asUtc - offsetBefore * MS_PER_MINUTE);
+}
+
+/**
+ * Whether a wall-clock time actually occurs in the time zone
+ * (false for times skipped by a daylight-saving transition)
+ */
+export function isExistingWallTime(local: ZonedDateTime, timeZone: string): boolean {
+  return matchesWallTime(zonedTimeToUtc(local, timeZone), local, timeZone);
+}
+
+/**
+ * Calendar date of an instant in the given time zone
+ */
+export function getZonedCalendarDate(date: Date, timeZone: string): CalendarDate {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return { year, month, day };
+}
+
+/**
+ * Add whole days to a calendar date
+ */
+export function addCalendarDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return {
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+/**
+ * Day of week of a calendar date, indexed like Date.getDay() (0 = Sunday)
+ */
+export function getCalendarDayOfWeek(date: CalendarDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+/**
+ * Compare two calendar dates (negative if a is earlier)
+ */
+export function compareCalendarDates(a: CalendarDate, b: CalendarDate): number {
+  return Date.UTC(a.year, a.month - 1, a.day) - Date.UTC(b.year, b.month - 1, b.day);
+}
+
+/**
+ * Format a calendar date as a "yyyy-MM-dd" key
+ */
+export function formatCalendarDate(date: CalendarDate): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.year}-${pad(date.month)}-${pad(date.day)}`;
+}
+
+/**
+ * Parse a "yyyy-MM-dd" key into a calendar date
+ *
+ * @throws Error if the key is malformed or not a real date
+ */
+export function parseCalendarDate(key: string): CalendarDate {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(key);
+  if (!match) {
+    throw new Error(`Invalid calendar date: ${key}`);
+  }
+
+  const date = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+  const daysInMonth = new Date(Date.UTC(date.year, date.month, 0)).getUTCDate();
+  if (date.month < 1 || date.month > 12 || date.day < 1 || date.day > daysInMonth) {
+    throw new Error(`Invalid calendar date: ${key}`);
+  }
+  return date;
+}
+
+/**
+ * Format an instant for display in the given time zone
+ */
+export function formatInTimeZone(
+  date: Date,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions,
+  locale?: string
+): string {
+  return new Intl.DateTimeFormat(locale, { ...options, timeZone }).format(date);
+}
+
+/**
+ * Short name of the time zone at the given instant (e.g. "EST", "GMT+1")
+ */
+export function getTimeZoneAbbreviation(date: Date, timeZone: string, locale?: string): string {
+  const part = new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find((candidate) => candidate.type === 'timeZoneName');
+  return part?.value ?? timeZone;
+}
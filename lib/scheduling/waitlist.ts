@@ -0,0 +1,173 @@
+/**
+ * Waitlist
+ *
+ * Decides which waitlisted client a freed slot is offered to and how long
+ * the offer holds it. Entries are offered in the order they joined; an
+ * entry matches when its session fits in the freed time and starts inside
+ * one of its windows (on the practitioner's wall clock).
+ */
+
+import { addHours, addMinutes, isBefore, min } from 'date-fns';
+import { DAYS_OF_WEEK, parseTimeOfDay, type TimeSlot } from './availability';
+import { getCalendarDayOfWeek, getZonedCalendarDate, getZonedParts } from './timezone';
+import type {
+  AppointmentDocument,
+  PractitionerDocument,
+  WaitlistEntryDocument,
+  WaitlistWindow,
+} from '@/types/firestore';
+
+/**
+ * How long offers are held when the practitioner has not set
+ * waitlistHoldHours
+ */
+export const DEFAULT_WAITLIST_HOLD_HOURS = 12;
+
+/**
+ * Hours a practitioner's waitlist offers are held for
+ */
+export function getWaitlistHoldHours(
+  practitioner: Pick<PractitionerDocument, 'waitlistHoldHours'> | null | undefined
+): number {
+  return practitioner?.waitlistHoldHours ?? DEFAULT_WAITLIST_HOLD_HOURS;
+}
+
+/**
+ * When an offer made now stops holding its slot: holdHours from now, or at
+ * the slot's start if that comes first
+ */
+export function getWaitlistOfferExpiresAt(slotStart: Date, holdHours: number, now: Date): Date {
+  return min([addHours(now, holdHours), slotStart]);
+}
+
+/**
+ * Whether an appointment is a waitlist offer the client has not accepted yet
+ */
+export function isOpenWaitlistOffer(
+  appointment: Pick<AppointmentDocument, 'status' | 'waitlistOffer'>
+): boolean {
+  return (
+    appointment.status === 'pending' &&
+    !!appointment.waitlistOffer &&
+    appointment.waitlistOffer.acceptedAt == null
+  );
+}
+
+/**
+ * Validate the windows a client joins the waitlist with
+ *
+ * @returns Error message, or null if there is at least one well-formed window
+ */
+export function getWaitlistWindowsError(windows: WaitlistWindow[]): string | null {
+  if (windows.length === 0) {
+    return 'Choose at least one day';
+  }
+
+  for (const window of windows) {
+    if (!(DAYS_OF_WEEK as readonly string[]).includes(window.day)) {
+      return `Unknown day: ${window.day}`;
+    }
+    try {
+      if (parseTimeOfDay(window.start) >= parseTimeOfDay(window.end)) {
+        return 'Start time must be before end time';
+      }
+    } catch {
+      return 'Enter times as HH:mm';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether a slot falls entirely inside one of the windows
+ *
+ * @param windows - Client's windows
+ * @param slot - Slot to check
+ * @param timeZone - Practitioner's IANA time zone
+ */
+export function isInWaitlistWindows(
+  windows: WaitlistWindow[],
+  slot: TimeSlot,
+  timeZone: string
+): boolean {
+  const day = DAYS_OF_WEEK[getCalendarDayOfWeek(getZonedCalendarDate(slot.start, timeZone))];
+  const { hour, minute } = getZonedParts(slot.start, timeZone);
+  const start = hour * 60 + minute;
+  const end = start + Math.round((slot.end.getTime() - slot.start.getTime()) / 60000);
+
+  return windows.some(
+    (window) =>
+      window.day === day &&
+      parseTimeOfDay(window.start) <= start &&
+      end <= parseTimeOfDay(window.end)
+  );
+}
+
+/**
+ * Plain-language summary of an entry's windows, days with the same times
+ * grouped together (e.g. "Mon, Wed 09:00–12:00; Fri 14:00–17:00")
+ */
+export function describeWaitlistWindows(windows: WaitlistWindow[]): string {
+  const daysByTime = new Map<string, string[]>();
+  const weekOrder = (day: string) =>
+    ((DAYS_OF_WEEK as readonly string[]).indexOf(day) + 6) % 7;
+
+  [...windows]
+    .sort((a, b) => weekOrder(a.day) - weekOrder(b.day))
+    .forEach((window) => {
+      const time = `${window.start}–${window.end}`;
+      const day = window.day.charAt(0).toUpperCase() + window.day.slice(1, 3);
+      daysByTime.set(time, [...(daysByTime.get(time) ?? []), day]);
+    });
+
+  return [...daysByTime]
+    .map(([time, days]) => `${days.join(', ')} ${time}`)
+    .join('; ');
+}
+
+/**
+ * A waitlist entry a freed slot can be offered to, with the time it would
+ * be offered
+ */
+export interface WaitlistMatch {
+  entry: WaitlistEntryDocument;
+  slot: TimeSlot;
+}
+
+/**
+ * Waiting entries a freed slot can be offered to, in the order to offer it
+ *
+ * The offer starts when the freed slot starts and lasts the entry's session
+ * length, which must fit in the freed slot.
+ *
+ * @param entries - The practitioner's waitlist
+ * @param freed - Time of the cancelled appointment
+ * @param timeZone - Practitioner's IANA time zone
+ * @param excludedEntryIds - Entries already offered this slot
+ * @param excludedClientIds - Clients not to offer it to (e.g. who cancelled it)
+ */
+export function findWaitlistMatches(
+  entries: WaitlistEntryDocument[],
+  freed: TimeSlot,
+  timeZone: string,
+  excludedEntryIds: string[] = [],
+  excludedClientIds: string[] = []
+): WaitlistMatch[] {
+  return entries
+    .filter(
+      (entry) =>
+        entry.status === 'waiting' &&
+        !excludedEntryIds.includes(entry.id) &&
+        !excludedClientIds.includes(entry.clientId)
+    )
+    .sort((a, b) => a.createdAt.toMillis() - b.createdAt.toMillis())
+    .map((entry) => ({
+      entry,
+      slot: { start: freed.start, end: addMinutes(freed.start, entry.sessionType.duration) },
+    }))
+    .filter(
+      ({ entry, slot }) =>
+        !isBefore(freed.end, slot.end) && isInWaitlistWindows(entry.windows, slot, timeZone)
+    );
+}
@@ -0,0 +1,59 @@
+/**
+ * Working hours migration
+ *
+ * Practitioner documents written before split shifts were supported store
+ * one `{ start, end, enabled }` block per weekday. These helpers upgrade that
+ * shape to `{ enabled, intervals }` so the rest of the app only sees the
+ * current model. Documents are rewritten in the new shape on their next save.
+ */
+
+import type {
+  AvailabilityRules,
+  DayWorkingHours,
+  LegacyDayWorkingHours,
+  WorkingHours,
+} from '@/types/firestore';
+
+/**
+ * Availability rules as they may be stored in Firestore
+ */
+export type StoredAvailabilityRules = Omit<AvailabilityRules, 'workingHours'> & {
+  workingHours?: Record<string, DayWorkingHours | LegacyDayWorkingHours>;
+};
+
+/**
+ * Whether a day's working hours use the single-block shape
+ */
+export function isLegacyDayWorkingHours(
+  hours: DayWorkingHours | LegacyDayWorkingHours
+): hours is LegacyDayWorkingHours {
+  return !Array.isArray((hours as DayWorkingHours).intervals);
+}
+
+/**
+ * Upgrade one day's working hours to the interval shape
+ */
+export function migrateDayWorkingHours(
+  hours: DayWorkingHours | LegacyDayWorkingHours
+): DayWorkingHours {
+  if (!isLegacyDayWorkingHours(hours)) {
+    return hours;
+  }
+
+  return {
+    enabled: hours.enabled,
+    intervals: hours.start && hours.end ? [{ start: hours.start, end: hours.end }] : [],
+  };
+}
+
+/**
+ * Upgrade stored availability rules to the current shape
+ */
+export function migrateAvailabilityRules(rules: StoredAvailabilityRules): AvailabilityRules {
+  const workingHours: WorkingHours = {};
+  for (const [day, hours] of Object.entries(rules.workingHours ?? {})) {
+    workingHours[day] = migrateDayWorkingHours(hours);
+  }
+
+  return { ...rules, workingHours };
+}
@@ -0,0 +1,159 @@
+/**
+ * Tests for session note templates
+ */
+
+import type { Timestamp } from 'firebase/firestore';
+import {
+  BUILT_IN_NOTE_TEMPLATES,
+  carryForwardPlan,
+  createNoteSections,
+  getNoteTemplateError,
+  getNoteTemplates,
+  getPreviousPlan,
+  renderSessionNotes,
+} from '../noteTemplates';
+import type { SessionNoteSection, SessionNoteTemplate } from '@/types/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const template = (id: string) =>
+  BUILT_IN_NOTE_TEMPLATES.find((candidate) => candidate.id === id) as SessionNoteTemplate;
+
+const dapSections: SessionNoteSection[] = [
+  { id: 'data', title: 'Data', content: 'Slept badly', isPlan: false },
+  { id: 'assessment', title: 'Assessment', content: 'Anxious about work', isPlan: false },
+  { id: 'plan', title: 'Plan', content: 'Try a wind-down routine', isPlan: true },
+];
+
+describe('BUILT_IN_NOTE_TEMPLATES', () => {
+  it('should give every built-in template one plan section', () => {
+    for (const builtIn of BUILT_IN_NOTE_TEMPLATES) {
+      expect(getNoteTemplateError(builtIn)).toBeNull();
+      expect(builtIn.sections.filter((section) => section.isPlan)).toHaveLength(1);
+    }
+  });
+});
+
+describe('getNoteTemplates', () => {
+  it("should list the built-in templates before the practitioner's own", () => {
+    const own = { id: 'own', name: 'Couples', sections: [{ id: 'a', title: 'Themes' }] };
+
+    const templates = getNoteTemplates({ noteTemplates: [own] });
+
+    expect(templates.map((candidate) => candidate.id)).toEqual(['soap', 'dap', 'birp', 'own']);
+    expect(getNoteTemplates(null)).toEqual(BUILT_IN_NOTE_TEMPLATES);
+  });
+});
+
+describe('getNoteTemplateError', () => {
+  const sections = [
+    { id: 'a', title: 'Themes' },
+    { id: 'b', title: 'Next steps', isPlan: true },
+  ];
+
+  it('should accept a named template with titled sections', () => {
+    expect(getNoteTemplateError({ name: 'Couples', sections })).toBeNull();
+  });
+
+  it('should require a name and sections', () => {
+    expect(getNoteTemplateError({ name: ' ', sections })).toBe('Give the template a name');
+    expect(getNoteTemplateError({ name: 'Couples', sections: [] })).toBe(
+      'Add at least one section'
+    );
+  });
+
+  it('should require distinct section titles', () => {
+    expect(
+      getNoteTemplateError({ name: 'Couples', sections: [...sections, { id: 'c', title: '' }] })
+    ).toBe('Every section needs a title');
+    expect(
+      getNoteTemplateError({
+        name: 'Couples',
+        sections: [...sections, { id: 'c', title: 'themes ' }],
+      })
+    ).toBe('Section titles must be different');
+  });
+
+  it('should allow only one plan section', () => {
+    expect(
+      getNoteTemplateError({
+        name: 'Couples',
+        sections: sections.map((section) => ({ ...section, isPlan: true })),
+      })
+    ).toBe('Only one section can be the plan');
+  });
+});
+
+describe('renderSessionNotes', () => {
+  it('should render written sections under their titles', () => {
+    expect(
+      renderSessionNotes([...dapSections.slice(0, 2), { ...dapSections[2], content: ' ' }])
+    ).toBe('Data\nSlept badly\n\nAssessment\nAnxious about work');
+  });
+});
+
+describe('createNoteSections', () => {
+  it('should create empty sections for a new draft', () => {
+    const sections = createNoteSections(template('soap'), { notes: '', sections: null });
+
+    expect(sections.map((section) => section.title)).toEqual([
+      'Subjective',
+      'Objective',
+      'Assessment',
+      'Plan',
+    ]);
+    expect(sections.every((section) => section.content === '')).toBe(true);
+    expect(sections[3].isPlan).toBe(true);
+  });
+
+  it('should put free-text notes into the first section', () => {
+    const sections = createNoteSections(template('dap'), {
+      notes: 'Discussed sleep',
+      sections: null,
+    });
+
+    expect(sections[0].content).toBe('Discussed sleep');
+  });
+
+  it('should keep matching sections when switching templates', () => {
+    const sections = createNoteSections(template('soap'), { notes: '', sections: dapSections });
+
+    expect(sections[0].content).toBe('Data\nSlept badly');
+    expect(sections[2].content).toBe('Anxious about work');
+    expect(sections[3].content).toBe('Try a wind-down routine');
+  });
+});
+
+describe('getPreviousPlan', () => {
+  const earlier = {
+    sessionDate: timestamp(new Date('2026-03-02T10:00:00Z')),
+    sections: dapSections,
+  };
+  const current = timestamp(new Date('2026-03-09T10:00:00Z'));
+
+  it("should return the previous session's plan", () => {
+    expect(getPreviousPlan([earlier], current)).toBe('Try a wind-down routine');
+  });
+
+  it('should only look at the session right before', () => {
+    const freeText = { sessionDate: timestamp(new Date('2026-03-05T10:00:00Z')), sections: null };
+
+    expect(getPreviousPlan([earlier, freeText], current)).toBeNull();
+  });
+
+  it('should ignore later sessions', () => {
+    expect(getPreviousPlan([earlier], timestamp(new Date('2026-03-01T10:00:00Z')))).toBeNull();
+  });
+});
+
+describe('carryForwardPlan', () => {
+  it('should add the plan below what is already in the plan section', () => {
+    const sections = createNoteSections(template('dap'), { notes: '', sections: null });
+
+    expect(carryForwardPlan(sections, 'Keep a diary')[2].content).toBe('Keep a diary');
+    expect(
+      carryForwardPlan(dapSections, 'Keep a diary').map((section) => section.content)
+    ).toEqual(['Slept badly', 'Anxious about work', 'Try a wind-down routine\n\nKeep a diary']);
+  });
+});
@@ -0,0 +1,128 @@
+/**
+ * Tests for session notes
+ */
+
+import type { Timestamp } from 'firebase/firestore';
+import {
+  getHomeworkProgress,
+  getSessionFinalizeError,
+  getSessionNotesDraft,
+  hasSessionNotesChanges,
+  normalizeSessionList,
+  toSharedSession,
+} from '../notes';
+import type { SessionDocument } from '@/types/firestore';
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const session = {
+  id: 'appointment-1',
+  appointmentId: 'appointment-1',
+  clientId: 'client-1',
+  practitionerId: 'practitioner-1',
+  sessionDate: timestamp(new Date('2026-03-02T10:00:00Z')),
+  notes: 'Discussed sleep',
+  goals: ['Sleep by 11pm'],
+  homework: ['Keep a sleep diary'],
+  nextSessionDate: null,
+  isDraft: true,
+} as unknown as SessionDocument;
+
+describe('normalizeSessionList', () => {
+  it('should trim items and drop empty ones', () => {
+    expect(normalizeSessionList(['  Walk daily ', '', '   ', 'Journal'])).toEqual([
+      'Walk daily',
+      'Journal',
+    ]);
+  });
+});
+
+describe('hasSessionNotesChanges', () => {
+  it('should not count the saved notes as changed', () => {
+    expect(hasSessionNotesChanges(session, getSessionNotesDraft(session))).toBe(false);
+  });
+
+  it('should ignore blank items still being typed', () => {
+    const draft = getSessionNotesDraft(session);
+    expect(hasSessionNotesChanges(session, { ...draft, goals: ['Sleep by 11pm', ''] })).toBe(
+      false
+    );
+  });
+
+  it('should notice changed notes, lists and next session date', () => {
+    const draft = getSessionNotesDraft(session);
+    expect(hasSessionNotesChanges(session, { ...draft, notes: 'Discussed sleep and work' })).toBe(
+      true
+    );
+    expect(hasSessionNotesChanges(session, { ...draft, homework: [] })).toBe(true);
+    expect(
+      hasSessionNotesChanges(session, {
+        ...draft,
+        nextSessionDate: timestamp(new Date('2026-03-09T10:00:00Z')),
+      })
+    ).toBe(true);
+  });
+
+  it('should notice a changed section', () => {
+    const structured = {
+      ...session,
+      templateId: 'dap',
+      sections: [{ id: 'data', title: 'Data', content: 'Slept badly' }],
+    };
+    const draft = getSessionNotesDraft(structured);
+    expect(
+      hasSessionNotesChanges(structured, {
+        ...draft,
+        sections: [{ id: 'data', title: 'Data', content: 'Slept badly all week' }],
+      })
+    ).toBe(true);
+  });
+});
+
+describe('getSessionFinalizeError', () => {
+  it('should allow finalizing a draft with notes', () => {
+    expect(getSessionFinalizeError(session)).toBeNull();
+  });
+
+  it('should require notes', () => {
+    expect(getSessionFinalizeError({ notes: '  ', isDraft: true })).toBe(
+      'Write the session notes before finalizing them'
+    );
+  });
+
+  it('should not finalize notes twice', () => {
+    expect(getSessionFinalizeError({ notes: 'Done', isDraft: false })).toBe(
+      'These session notes are already finalized'
+    );
+  });
+});
+
+describe('toSharedSession', () => {
+  it('should share the goals and homework without the notes', () => {
+    const shared = toSharedSession(session);
+
+    expect(shared).toEqual({
+      appointmentId: 'appointment-1',
+      clientId: 'client-1',
+      practitionerId: 'practitioner-1',
+      sessionDate: session.sessionDate,
+      goals: ['Sleep by 11pm'],
+      homework: ['Keep a sleep diary'],
+      completedHomework: [],
+      clientNotes: null,
+    });
+    expect(shared).not.toHaveProperty('notes');
+  });
+});
+
+describe('getHomeworkProgress', () => {
+  it('should count the homework marked done', () => {
+    expect(
+      getHomeworkProgress({
+        homework: ['Keep a sleep diary', 'Walk daily', 'Journal'],
+        completedHomework: ['Walk daily'],
+      })
+    ).toEqual({ done: 1, total: 3 });
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Session note templates
+ *
+ * The built-in structured note formats (SOAP, DAP and BIRP), checks on
+ * practitioners' own templates, and the helpers that turn a template into
+ * sectioned notes: switching a draft between templates without losing
+ * what was written, rendering the sections as plain text, and carrying the
+ * previous session's plan forward.
+ */
+
+import type { Timestamp } from 'firebase/firestore';
+import type {
+  PractitionerDocument,
+  SessionDocument,
+  SessionNoteSection,
+  SessionNoteTemplate,
+} from '@/types/firestore';
+import type { SessionNotesDraft } from './notes';
+
+/**
+ * Structured note formats every practitioner can use
+ */
+export const BUILT_IN_NOTE_TEMPLATES: SessionNoteTemplate[] = [
+  {
+    id: 'soap',
+    name: 'SOAP',
+    description: 'Subjective, Objective, Assessment, Plan',
+    sections: [
+      {
+        id: 'subjective',
+        title: 'Subjective',
+        prompt: "The client's account: concerns, symptoms and progress in their own words",
+      },
+      {
+        id: 'objective',
+        title: 'Objective',
+        prompt: 'What you observed: presentation, affect, behaviour, measures',
+      },
+      {
+        id: 'assessment',
+        title: 'Assessment',
+        prompt: 'Your clinical impression and progress towards goals',
+      },
+      {
+        id: 'plan',
+        title: 'Plan',
+        prompt: 'Next steps, interventions and focus for the next session',
+        isPlan: true,
+      },
+    ],
+  },
+  {
+    id: 'dap',
+    name: 'DAP',
+    description: 'Data, Assessment, Plan',
+    sections: [
+      {
+        id: 'data',
+        title: 'Data',
+        prompt: 'What the client said and what you observed',
+      },
+      {
+        id: 'assessment',
+        title: 'Assessment',
+        prompt: 'Your interpretation of the data and progress towards goals',
+      },
+      {
+        id: 'plan',
+        title: 'Plan',
+        prompt: 'Next steps, interventions and focus for the next session',
+        isPlan: true,
+      },
+    ],
+  },
+  {
+    id: 'birp',
+    name: 'BIRP',
+    description: 'Behavior, Intervention, Response, Plan',
+    sections: [
+      {
+        id: 'behavior',
+        title: 'Behavior',
+        prompt: "The client's presentation and what they reported",
+      },
+      {
+        id: 'intervention',
+        title: 'Intervention',
+        prompt: 'The techniques and interventions you used',
+      },
+      {
+        id: 'response',
+        title: 'Response',
+        prompt: 'How the client responded to the interventions',
+      },
+      {
+        id: 'plan',
+        title: 'Plan',
+        prompt: 'Next steps, interventions and focus for the next session',
+        isPlan: true,
+      },
+    ],
+  },
+];
+
+/**
+ * The built-in templates followed by the practitioner's own
+ */
+export function getNoteTemplates(
+  practitioner: Pick<PractitionerDocument, 'noteTemplates'> | null
+): SessionNoteTemplate[] {
+  return [...BUILT_IN_NOTE_TEMPLATES, ...(practitioner?.noteTemplates ?? [])];
+}
+
+/**
+ * Check a practitioner's note template
+ *
+ * @returns Description of the problem, or null if the template is valid
+ */
+export function getNoteTemplateError(
+  template: Pick<SessionNoteTemplate, 'name' | 'sections'>
+): string | null {
+  if (!template.name.trim()) {
+    return 'Give the template a name';
+  }
+  if (template.sections.length === 0) {
+    return 'Add at least one section';
+  }
+  if (template.sections.some((section) => !section.title.trim())) {
+    return 'Every section needs a title';
+  }
+
+  const titles = template.sections.map((section) => section.title.trim().toLowerCase());
+  if (new Set(titles).size !== titles.length) {
+    return 'Section titles must be different';
+  }
+  if (template.sections.filter((section) => section.isPlan).length > 1) {
+    return 'Only one section can be the plan';
+  }
+  return null;
+}
+
+/**
+ * Render sectioned notes as plain text: each written section under its
+ * title, separated by blank lines
+ */
+export function renderSessionNotes(sections: SessionNoteSection[]): string {
+  return sections
+    .filter((section) => section.content.trim())
+    .map((section) => `${section.title}\n${section.content.trim()}`)
+    .join('\n\n');
+}
+
+/**
+ * Create the sections of a template for a draft. Sections of the current
+ * draft with the same ID keep their content; anything else already written
+ * (free-text notes, or sections the template does not have) goes into the
+ * first section so nothing is lost.
+ */
+export function createNoteSections(
+  template: SessionNoteTemplate,
+  current: Pick<SessionNotesDraft, 'notes' | 'sections'>
+): SessionNoteSection[] {
+  const currentSections = current.sections ?? [];
+  const sections = template.sections.map<SessionNoteSection>((section) => ({
+    id: section.id,
+    title: section.title,
+    content: currentSections.find((existing) => existing.id === section.id)?.content ?? '',
+    isPlan: section.isPlan ?? false,
+  }));
+
+  const leftover = current.sections
+    ? renderSessionNotes(
+        currentSections.filter(
+          (existing) => !template.sections.some((section) => section.id === existing.id)
+        )
+      )
+    : current.notes.trim();
+
+  if (leftover && sections.length > 0) {
+    const first = sections[0];
+    sections[0] = {
+      ...first,
+      content: first.content.trim() ? `${leftover}\n\n${first.content}` : leftover,
+    };
+  }
+
+  return sections;
+}
+
+/**
+ * The plan written in the client's previous session, if it was written in
+ * a template with a plan section
+ *
+ * @param sessions - The practitioner's sessions with the client
+ * @param sessionDate - Date of the session being written
+ */
+export function getPreviousPlan(
+  sessions: Pick<SessionDocument, 'sessionDate' | 'sections'>[],
+  sessionDate: Timestamp
+): string | null {
+  const previous = sessions
+    .filter((session) => session.sessionDate.toMillis() < sessionDate.toMillis())
+    .reduce<Pick<SessionDocument, 'sessionDate' | 'sections'> | null>(
+      (latest, session) =>
+        !latest || session.sessionDate.toMillis() > latest.sessionDate.toMillis()
+          ? session
+          : latest,
+      null
+    );
+
+  return previous?.sections?.find((section) => section.isPlan)?.content.trim() || null;
+}
+
+/**
+ * Copy the previous session's plan into the plan section, below anything
+ * already written there
+ */
+export function carryForwardPlan(
+  sections: SessionNoteSection[],
+  plan: string
+): SessionNoteSection[] {
+  return sections.map((section) =>
+    section.isPlan
+      ? {
+          ...section,
+          content: section.content.trim() ? `${section.content.trim()}\n\n${plan}` : plan,
+        }
+      : section
+  );
+}
@@ -0,0 +1,112 @@
+/**
+ * Session notes
+ *
+ * Tidies the goals and homework lists of session notes before they are
+ * saved, tells whether a draft has unsaved changes, checks that notes can
+ * be finalized, and builds the part of finalized notes shared with the
+ * client.
+ */
+
+import type {
+  SessionDocument,
+  SharedSessionDocument,
+  UpdateSessionInput,
+} from '@/types/firestore';
+
+/**
+ * Session notes as edited by the practitioner
+ */
+export type SessionNotesDraft = Required<UpdateSessionInput>;
+
+/**
+ * Trim the items of a goals or homework list and drop empty ones
+ */
+export function normalizeSessionList(items: string[]): string[] {
+  return items.map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+/**
+ * The editable parts of a session's notes
+ */
+export function getSessionNotesDraft(session: SessionDocument): SessionNotesDraft {
+  return {
+    notes: session.notes,
+    templateId: session.templateId ?? null,
+    sections: session.sections ?? null,
+    goals: session.goals ?? [],
+    homework: session.homework ?? [],
+    nextSessionDate: session.nextSessionDate ?? null,
+  };
+}
+
+/**
+ * Whether a draft differs from the saved notes, ignoring blank list items
+ * and surrounding whitespace in list items. Sectioned notes are compared
+ * section by section.
+ */
+export function hasSessionNotesChanges(
+  session: SessionDocument,
+  draft: SessionNotesDraft
+): boolean {
+  const saved = getSessionNotesDraft(session);
+  const sameList = (a: string[], b: string[]) =>
+    JSON.stringify(normalizeSessionList(a)) === JSON.stringify(normalizeSessionList(b));
+
+  return (
+    saved.notes !== draft.notes ||
+    saved.templateId !== draft.templateId ||
+    JSON.stringify(saved.sections) !== JSON.stringify(draft.sections) ||
+    !sameList(saved.goals, draft.goals) ||
+    !sameList(saved.homework, draft.homework) ||
+    (saved.nextSessionDate?.toMillis() ?? null) !== (draft.nextSessionDate?.toMillis() ?? null)
+  );
+}
+
+/**
+ * Check that a session's notes can be finalized
+ *
+ * @returns Description of the problem, or null if the notes can be finalized
+ */
+export function getSessionFinalizeError(
+  session: Pick<SessionDocument, 'notes' | 'isDraft'>
+): string | null {
+  if (!session.isDraft) {
+    return 'These session notes are already finalized';
+  }
+  if (!session.notes.trim()) {
+    return 'Write the session notes before finalizing them';
+  }
+  return null;
+}
+
+/**
+ * The part of a session's notes shared with the client when they are
+ * finalized: the goals and homework, with no homework done yet and no
+ * reflections. The practitioner's notes are left out.
+ */
+export function toSharedSession(
+  session: SessionDocument
+): Omit<SharedSessionDocument, 'id' | 'createdAt' | 'updatedAt'> {
+  return {
+    appointmentId: session.appointmentId,
+    clientId: session.clientId,
+    practitionerId: session.practitionerId,
+    sessionDate: session.sessionDate,
+    goals: session.goals ?? [],
+    homework: session.homework ?? [],
+    completedHomework: [],
+    clientNotes: null,
+  };
+}
+
+/**
+ * How many of a session's homework items the client has done
+ */
+export function getHomeworkProgress(
+  shared: Pick<SharedSessionDocument, 'homework' | 'completedHomework'>
+): { done: number; total: number } {
+  return {
+    done: shared.homework.filter((item) => shared.completedHomework.includes(item)).length,
+    total: shared.homework.length,
+  };
+}
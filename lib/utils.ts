@@ -4,3 +4,16 @@ import { twMerge } from 'tailwind-merge'
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Format an amount in cents for display (e.g., 12000 USD → "$120.00")
+ */
+export function formatPrice(amountInCents: number, currency: string) {
+  const amount = amountInCents / 100
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount)
+  } catch {
+    // Unknown currency codes (free-text in settings) fall back to a plain amount
+    return `${currency} ${amount.toFixed(2)}`
+  }
+}
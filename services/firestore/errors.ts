@@ -0,0 +1,86 @@
+/**
+ * Firestore service errors
+ *
+ * Typed errors thrown by repositories so hooks and pages can react to
+ * specific failures instead of matching on error messages.
+ */
+
+import type { AppointmentStatus } from '@/types/firestore';
+import type { SeriesOccurrence } from './interfaces/IAppointmentRepository';
+
+/**
+ * Thrown when an appointment cannot be booked because its time overlaps
+ * another non-cancelled appointment of the practitioner or the client
+ */
+export class SlotUnavailableError extends Error {
+  /**
+   * Whose schedule the requested time conflicts with
+   */
+  readonly conflictWith: 'practitioner' | 'client';
+
+  constructor(conflictWith: 'practitioner' | 'client') {
+    super(
+      conflictWith === 'practitioner'
+        ? 'This time slot is no longer available. Please choose another time.'
+        : 'You already have an appointment at this time.'
+    );
+    this.name = 'SlotUnavailableError';
+    this.conflictWith = conflictWith;
+  }
+}
+
+/**
+ * Thrown when an appointment cannot be moved to the requested time: it is no
+ * longer upcoming, the client's reschedule policy does not allow it, or the
+ * time is outside the practitioner's availability
+ */
+export class RescheduleNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RescheduleNotAllowedError';
+  }
+}
+
+/**
+ * Thrown when an appointment status change is not in STATUS_TRANSITIONS, is
+ * made by the wrong party, or is made at the wrong time
+ */
+export class InvalidStatusTransitionError extends Error {
+  /**
+   * Current status
+   */
+  readonly from: AppointmentStatus;
+
+  /**
+   * Requested status
+   */
+  readonly to: AppointmentStatus;
+
+  constructor(from: AppointmentStatus, to: AppointmentStatus, message: string) {
+    super(message);
+    this.name = 'InvalidStatusTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * Thrown when occurrences of a recurring series cannot be booked or moved
+ * because their times are not free
+ */
+export class SeriesConflictError extends Error {
+  /**
+   * Occurrences that are not free, with the reason
+   */
+  readonly conflicts: SeriesOccurrence[];
+
+  constructor(conflicts: SeriesOccurrence[]) {
+    super(
+      conflicts.length === 1
+        ? 'One session in this series is not available at that time.'
+        : `${conflicts.length} sessions in this series are not available at those times.`
+    );
+    this.name = 'SeriesConflictError';
+    this.conflicts = conflicts;
+  }
+}
@@ -6,10 +6,17 @@
  */
 
 import type {
+  AppointmentActor,
   AppointmentDocument,
   CreateAppointmentInput,
+  CreateAppointmentSeriesInput,
+  CreateWaitlistOfferInput,
+  RescheduleAppointmentInput,
+  SeriesScope,
   UpdateAppointmentInput,
   AppointmentStatus,
+  PaymentStatus,
+  WaitlistReleaseStatus,
 } from '@/types/firestore';
 import type { Timestamp } from 'firebase/firestore';
 
@@ -31,6 +38,16 @@ export interface ListAppointmentsOptions {
    * Filter by status
    */
   status?: AppointmentStatus;
+
+  /**
+   * Filter by payment status
+   */
+  paymentStatus?: PaymentStatus;
+
+  /**
+   * Filter by whether the time was offered to the waitlist after cancelling
+   */
+  waitlistRelease?: WaitlistReleaseStatus;
   
   /**
    * Filter by start time (appointments after this time)
@@ -53,6 +70,47 @@ export interface ListAppointmentsOptions {
   startAfterDocId?: string;
 }
 
+/**
+ * A period during which a practitioner is booked
+ */
+export interface BusyInterval {
+  startTime: Timestamp;
+  endTime: Timestamp;
+}
+
+/**
+ * One occurrence of a recurring series, with why it cannot be booked or
+ * moved there
+ */
+export interface SeriesOccurrence {
+  /**
+   * Position in the series pattern (0 for the first occurrence)
+   */
+  index: number;
+  startTime: Timestamp;
+  endTime: Timestamp;
+
+  /**
+   * Why the time is not free, or null if it is
+   */
+  conflict: string | null;
+}
+
+/**
+ * Outcome of booking a recurring series
+ */
+export interface AppointmentSeriesResult {
+  /**
+   * Booked appointments, in start order
+   */
+  appointments: AppointmentDocument[];
+
+  /**
+   * Occurrences left out because their time was not free
+   */
+  skipped: SeriesOccurrence[];
+}
+
 /**
  * Interface for appointment repository operations
  */
@@ -62,10 +120,57 @@ export interface IAppointmentRepository {
    * 
    * @param input - Appointment data to create
    * @returns Promise resolving to the created appointment document
+   * @throws SlotUnavailableError if the time overlaps another appointment of the
+   *   practitioner or the client
    * @throws Error if creation fails
    */
   createAppointment(input: CreateAppointmentInput): Promise<AppointmentDocument>;
 
+  /**
+   * Check every occurrence of a recurring series against the practitioner's
+   * availability and existing bookings, without booking anything
+   *
+   * @param input - First occurrence and repeat pattern
+   * @returns Promise resolving to the occurrences, each with its conflict
+   * @throws Error if the recurrence rule is invalid or the practitioner is
+   *   not found
+   */
+  previewAppointmentSeries(input: CreateAppointmentSeriesInput): Promise<SeriesOccurrence[]>;
+
+  /**
+   * Book a recurring series. Every free occurrence is booked as its own
+   * pending appointment sharing a seriesId; occurrences that conflict are
+   * skipped and returned.
+   *
+   * @param input - First occurrence and repeat pattern
+   * @returns Promise resolving to the booked and skipped occurrences
+   * @throws SeriesConflictError if no occurrence is free
+   * @throws Error if the recurrence rule is invalid or the practitioner is
+   *   not found
+   */
+  createAppointmentSeries(input: CreateAppointmentSeriesInput): Promise<AppointmentSeriesResult>;
+
+  /**
+   * Book a freed slot for a waitlisted client. The appointment is pending
+   * and holds the slot like any booking; the client accepts it through
+   * IWaitlistRepository.acceptOffer before it goes to the practitioner.
+   * Only the system account may book offers.
+   *
+   * @param input - Appointment data and offer terms
+   * @returns Promise resolving to the created appointment document
+   * @throws SlotUnavailableError if the time has been booked again
+   */
+  createWaitlistOffer(input: CreateWaitlistOfferInput): Promise<AppointmentDocument>;
+
+  /**
+   * Record whether a cancelled appointment's time was offered to the
+   * waitlist, so the waitlist job does not look at it again
+   *
+   * @param appointmentId - Appointment document ID
+   * @param release - Outcome of offering the time
+   */
+  setWaitlistRelease(appointmentId: string, release: WaitlistReleaseStatus): Promise<void>;
+
   /**
    * Get appointment by ID
    * 
@@ -75,7 +180,7 @@ export interface IAppointmentRepository {
   getAppointment(appointmentId: string): Promise<AppointmentDocument | null>;
 
   /**
-   * Update appointment
+   * Update appointment fields other than its status and times
    * 
    * @param appointmentId - Appointment document ID
    * @param input - Partial appointment data to update
@@ -87,6 +192,61 @@ export interface IAppointmentRepository {
     input: UpdateAppointmentInput
   ): Promise<AppointmentDocument>;
 
+  /**
+   * Move an appointment to a new time
+   *
+   * Clients are held to the practitioner's reschedule policy and working
+   * hours; when the policy requires approval, the new time is stored as
+   * pendingReschedule instead and only takes effect once accepted.
+   * Previous times are kept in rescheduleHistory.
+   *
+   * @param appointmentId - Appointment document ID
+   * @param input - Proposed times and who is asking
+   * @returns Promise resolving to the updated appointment document
+   * @throws RescheduleNotAllowedError if the appointment cannot be moved or
+   *   the time is outside the practitioner's availability
+   * @throws SlotUnavailableError if the time overlaps another appointment of
+   *   the practitioner or the client
+   */
+  rescheduleAppointment(
+    appointmentId: string,
+    input: RescheduleAppointmentInput
+  ): Promise<AppointmentDocument>;
+
+  /**
+   * Accept or decline a pending reschedule request. Declining (or a client
+   * withdrawing their request) keeps the current time.
+   *
+   * @param appointmentId - Appointment document ID
+   * @param accept - Whether to move the appointment to the requested time
+   * @returns Promise resolving to the updated appointment document
+   * @throws SlotUnavailableError if the requested time has since been taken
+   * @throws Error if there is no pending request
+   */
+  respondToRescheduleRequest(
+    appointmentId: string,
+    accept: boolean
+  ): Promise<AppointmentDocument>;
+
+  /**
+   * Move an appointment and, depending on the scope, the following or all
+   * upcoming appointments of its series by the same number of days to the
+   * same new time. Each appointment is moved as by rescheduleAppointment.
+   * Nothing is moved unless every appointment in scope can be.
+   *
+   * @param appointmentId - Appointment the change is made from
+   * @param scope - This one, this and following, or the whole series
+   * @param input - New times for this appointment and who is asking
+   * @returns Promise resolving to the updated appointment documents
+   * @throws SeriesConflictError if any appointment in scope cannot move
+   * @throws RescheduleNotAllowedError if the appointment cannot be moved
+   */
+  rescheduleAppointmentSeries(
+    appointmentId: string,
+    scope: SeriesScope,
+    input: RescheduleAppointmentInput
+  ): Promise<AppointmentDocument[]>;
+
   /**
    * List appointments with optional filters
    * 
@@ -95,6 +255,21 @@ export interface IAppointmentRepository {
    */
   listAppointments(options?: ListAppointmentsOptions): Promise<AppointmentDocument[]>;
 
+  /**
+   * List the times a practitioner is booked, without appointment details.
+   * Readable by any signed-in user, unlike the appointments themselves.
+   *
+   * @param practitionerId - Practitioner's Firebase Auth UID
+   * @param from - Include appointments starting at or after this time
+   * @param to - Include appointments starting at or before this time
+   * @returns Promise resolving to busy intervals
+   */
+  listPractitionerBusyTimes(
+    practitionerId: string,
+    from: Timestamp,
+    to: Timestamp
+  ): Promise<BusyInterval[]>;
+
   /**
    * Subscribe to appointments with realtime updates
    * 
@@ -108,15 +283,61 @@ export interface IAppointmentRepository {
   ): () => void;
 
   /**
-   * Cancel an appointment
+   * Change an appointment's status, following the transition table in
+   * lib/scheduling/appointmentStatus.ts, and append it to statusHistory.
+   * Cancelling releases the slot and records the cancellation terms (and,
+   * before the start, marks the time for the waitlist); a no-show records
+   * the no-show fee.
+   * 
+   * @param appointmentId - Appointment document ID
+   * @param status - New status
+   * @param changedBy - Who is making the change
+   * @returns Promise resolving to the updated appointment document
+   * @throws InvalidStatusTransitionError if the change is not allowed for
+   *   this party at this time
+   * @throws Error if appointment not found
+   */
+  updateAppointmentStatus(
+    appointmentId: string,
+    status: AppointmentStatus,
+    changedBy: AppointmentActor
+  ): Promise<AppointmentDocument>;
+
+  /**
+   * Change the status of an appointment and, depending on the scope, of the
+   * following or all upcoming appointments of its series, as by
+   * updateAppointmentStatus. Appointments in scope that cannot make the
+   * change (e.g. ones already confirmed) are left as they are.
+   *
+   * @param appointmentId - Appointment the change is made from
+   * @param scope - This one, this and following, or the whole series
+   * @param status - New status
+   * @param changedBy - Who is making the change
+   * @returns Promise resolving to the updated appointment documents
+   * @throws InvalidStatusTransitionError if no appointment in scope can make
+   *   the change
+   */
+  updateAppointmentSeriesStatus(
+    appointmentId: string,
+    scope: SeriesScope,
+    status: AppointmentStatus,
+    changedBy: AppointmentActor
+  ): Promise<AppointmentDocument[]>;
+
+  /**
+   * Cancel an appointment, releasing its slot. Client cancellations of
+   * confirmed appointments inside the free-cancellation window are recorded
+   * as late, with the fee owed under the appointment's cancellation policy.
    * 
    * @param appointmentId - Appointment document ID
    * @param cancelledBy - Who is cancelling ('client' or 'practitioner')
    * @returns Promise resolving to the updated appointment document
+   * @throws InvalidStatusTransitionError if the appointment can no longer be cancelled
+   * @throws Error if appointment not found
    */
   cancelAppointment(
     appointmentId: string,
-    cancelledBy: 'client' | 'practitioner'
+    cancelledBy: AppointmentActor
   ): Promise<AppointmentDocument>;
 }
 
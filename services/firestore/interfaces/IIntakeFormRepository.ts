@@ -0,0 +1,126 @@
+/**
+ * Intake Form Repository Interface
+ *
+ * Defines the contract for intake form operations in Firestore.
+ * Follows SOLID principles: Interface Segregation and Dependency Inversion.
+ */
+
+import type {
+  CreateIntakeFormTemplateInput,
+  IntakeFormDocument,
+  SubmitIntakeFormInput,
+  UpdateIntakeFormTemplateInput,
+} from '@/types/firestore';
+
+/**
+ * Options for listing intake form templates
+ */
+export interface ListIntakeTemplatesOptions {
+  /**
+   * Only return templates clients can currently fill in
+   */
+  activeOnly?: boolean;
+}
+
+/**
+ * Interface for intake form repository operations
+ */
+export interface IIntakeFormRepository {
+  /**
+   * Create an intake form template
+   *
+   * @param input - Template data to create
+   * @returns Promise resolving to the created template
+   * @throws Error if the template is invalid or creation fails
+   */
+  createTemplate(input: CreateIntakeFormTemplateInput): Promise<IntakeFormDocument>;
+
+  /**
+   * Get intake form (template or submitted form) by ID
+   *
+   * @param formId - Intake form document ID
+   * @returns Promise resolving to the form or null if not found
+   */
+  getForm(formId: string): Promise<IntakeFormDocument | null>;
+
+  /**
+   * List a practitioner's templates, newest first
+   *
+   * @param practitionerId - Practitioner's Firebase Auth UID
+   * @param options - Optional filters
+   * @returns Promise resolving to array of templates
+   */
+  listTemplates(
+    practitionerId: string,
+    options?: ListIntakeTemplatesOptions
+  ): Promise<IntakeFormDocument[]>;
+
+  /**
+   * Subscribe to realtime updates of a practitioner's templates, newest first
+   *
+   * @param practitionerId - Practitioner's Firebase Auth UID
+   * @param callback - Function called when the templates change
+   * @returns Unsubscribe function
+   */
+  subscribeToTemplates(
+    practitionerId: string,
+    callback: (templates: IntakeFormDocument[]) => void
+  ): () => void;
+
+  /**
+   * Update a template's title, description, fields or active status
+   *
+   * @param formId - Intake form document ID
+   * @param input - Fields to update
+   * @returns Promise resolving to the updated template
+   * @throws Error if the form doesn't exist, is a submitted form, the
+   *   result is invalid, or it changes the questions of a scored
+   *   questionnaire
+   */
+  updateTemplate(formId: string, input: UpdateIntakeFormTemplateInput): Promise<IntakeFormDocument>;
+
+  /**
+   * Make a template available to clients, or withdraw it
+   *
+   * @param formId - Intake form document ID
+   * @param isActive - Whether clients can fill in the template
+   * @returns Promise resolving when the template is updated
+   * @throws Error if the form doesn't exist or is a submitted form
+   */
+  setTemplateActive(formId: string, isActive: boolean): Promise<void>;
+
+  /**
+   * Submit a client's answers to a template for one of their appointments.
+   * For an intake form, mark the appointment's intake form as completed;
+   * for a scored questionnaire, store the score.
+   *
+   * @param input - Template, appointment and answers
+   * @returns Promise resolving to the submitted form
+   * @throws Error if the template is not active, the appointment is not the
+   *   client's with the template's practitioner, the form was already
+   *   submitted for the appointment, or an answer is invalid
+   */
+  submitForm(input: SubmitIntakeFormInput): Promise<IntakeFormDocument>;
+
+  /**
+   * List the scored questionnaires a client submitted for an appointment
+   *
+   * @param appointmentId - Appointment document ID
+   * @param clientId - Client's Firebase Auth UID
+   * @returns Promise resolving to array of submitted questionnaires
+   */
+  listAppointmentQuestionnaires(
+    appointmentId: string,
+    clientId: string
+  ): Promise<IntakeFormDocument[]>;
+
+  /**
+   * List a client's scored questionnaires for a practitioner, oldest first,
+   * to follow their scores over time
+   *
+   * @param practitionerId - Practitioner's Firebase Auth UID
+   * @param clientId - Client's Firebase Auth UID
+   * @returns Promise resolving to array of submitted questionnaires
+   */
+  listClientScores(practitionerId: string, clientId: string): Promise<IntakeFormDocument[]>;
+}
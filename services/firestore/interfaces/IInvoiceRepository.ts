@@ -0,0 +1,34 @@
+/**
+ * Invoice Repository Interface
+ *
+ * Defines the contract for issuing and reading appointment invoices in
+ * Firestore.
+ * Follows SOLID principles: Interface Segregation and Dependency Inversion.
+ */
+
+import type { InvoiceDocument, IssueInvoiceInput } from '@/types/firestore';
+
+/**
+ * Interface for invoice repository operations
+ */
+export interface IInvoiceRepository {
+  /**
+   * Issue the invoice for a paid appointment with the practitioner's next
+   * invoice number, and link it from the appointment, in one transaction.
+   * An appointment that already has an invoice keeps it, so issuing twice
+   * is harmless and never uses up a number.
+   *
+   * @param input - Invoice details (see buildInvoice)
+   * @returns Promise resolving to the appointment's invoice
+   * @throws Error if the appointment is not found or the transaction fails
+   */
+  issueInvoice(input: IssueInvoiceInput): Promise<InvoiceDocument>;
+
+  /**
+   * Get invoice by ID
+   *
+   * @param invoiceId - Invoice document ID (the appointment's ID)
+   * @returns Promise resolving to the invoice or null if not issued
+   */
+  getInvoice(invoiceId: string): Promise<InvoiceDocument | null>;
+}
@@ -0,0 +1,69 @@
+/**
+ * Notification Repository Interface
+ *
+ * Defines the contract for in-app notification operations in Firestore.
+ * Follows SOLID principles: Interface Segregation and Dependency Inversion.
+ */
+
+import type { CreateNotificationInput, NotificationDocument } from '@/types/firestore';
+
+/**
+ * Options for listing notifications
+ */
+export interface ListNotificationsOptions {
+  /**
+   * Only return notifications that have not been read
+   */
+  unreadOnly?: boolean;
+
+  /**
+   * Limit number of results
+   */
+  limit?: number;
+}
+
+/**
+ * Interface for notification repository operations
+ */
+export interface INotificationRepository {
+  /**
+   * Create a notification for a user
+   *
+   * @param input - Notification data to create
+   * @returns Promise resolving to the created notification document
+   * @throws Error if creation fails
+   */
+  createNotification(input: CreateNotificationInput): Promise<NotificationDocument>;
+
+  /**
+   * List a user's notifications, newest first
+   *
+   * @param userId - Recipient's Firebase Auth UID
+   * @param options - Optional filters
+   * @returns Promise resolving to array of notification documents
+   */
+  listNotifications(userId: string, options?: ListNotificationsOptions): Promise<NotificationDocument[]>;
+
+  /**
+   * Mark a notification as read
+   *
+   * @param notificationId - Notification document ID
+   * @returns Promise resolving when the notification is updated
+   * @throws Error if notification doesn't exist
+   */
+  markNotificationRead(notificationId: string): Promise<void>;
+
+  /**
+   * Subscribe to realtime updates of a user's notifications, newest first
+   *
+   * @param userId - Recipient's Firebase Auth UID
+   * @param callback - Function called when notifications change
+   * @param options - Optional filters
+   * @returns Unsubscribe function
+   */
+  subscribeToNotifications(
+    userId: string,
+    callback: (notifications: NotificationDocument[]) => void,
+    options?: ListNotificationsOptions
+  ): () => void;
+}
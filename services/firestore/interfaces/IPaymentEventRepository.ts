@@ -0,0 +1,49 @@
+/**
+ * Payment Event Repository Interface
+ *
+ * Defines the contract for recording payment webhook events in Firestore
+ * and applying them to the appointments they pay for.
+ * Follows SOLID principles: Interface Segregation and Dependency Inversion.
+ */
+
+import type { ApplyPaymentEventInput, PaymentEventDocument } from '@/types/firestore';
+
+/**
+ * Result of applying a payment event
+ */
+export interface ApplyPaymentEventResult {
+  /**
+   * The recorded event (the earlier record for a duplicate)
+   */
+  event: PaymentEventDocument;
+
+  /**
+   * Whether the event had already been received, and so was not applied again
+   */
+  duplicate: boolean;
+}
+
+/**
+ * Interface for payment event repository operations
+ */
+export interface IPaymentEventRepository {
+  /**
+   * Record a payment event and apply it to the appointment with its payment
+   * intent, in one transaction. An event already recorded is returned as a
+   * duplicate without being applied again.
+   *
+   * @param input - Verified webhook event
+   * @returns Promise resolving to the recorded event and whether it was a
+   *   duplicate
+   * @throws Error if the transaction fails
+   */
+  applyEvent(input: ApplyPaymentEventInput): Promise<ApplyPaymentEventResult>;
+
+  /**
+   * Get payment event by ID
+   *
+   * @param eventId - Provider's event ID
+   * @returns Promise resolving to the event or null if not received
+   */
+  getEvent(eventId: string): Promise<PaymentEventDocument | null>;
+}
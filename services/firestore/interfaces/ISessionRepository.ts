@@ -0,0 +1,112 @@
+/**
+ * Session Repository Interface
+ *
+ * Defines the contract for session notes operations in Firestore.
+ * Follows SOLID principles: Interface Segregation and Dependency Inversion.
+ */
+
+import type {
+  SessionDocument,
+  SharedSessionDocument,
+  UpdateSessionInput,
+} from '@/types/firestore';
+
+/**
+ * Interface for session repository operations
+ */
+export interface ISessionRepository {
+  /**
+   * Start the notes of a completed appointment and link them to it. Returns
+   * the existing session if notes were already started.
+   *
+   * @param appointmentId - Appointment document ID
+   * @param practitionerId - Practitioner's Firebase Auth UID
+   * @returns Promise resolving to the session
+   * @throws Error if the appointment is not the practitioner's or is not
+   *   completed
+   */
+  startSession(appointmentId: string, practitionerId: string): Promise<SessionDocument>;
+
+  /**
+   * Get session by ID
+   *
+   * @param sessionId - Session document ID
+   * @returns Promise resolving to the session or null if not found
+   */
+  getSession(sessionId: string): Promise<SessionDocument | null>;
+
+  /**
+   * List a practitioner's sessions with a client, oldest first
+   *
+   * @param practitionerId - Practitioner's Firebase Auth UID
+   * @param clientId - Client's Firebase Auth UID
+   * @returns Promise resolving to array of sessions
+   */
+  listClientSessions(practitionerId: string, clientId: string): Promise<SessionDocument[]>;
+
+  /**
+   * Save changes to draft session notes. Blank goals and homework are
+   * dropped. When sections are given, the plain-text notes are rendered
+   * from them.
+   *
+   * @param sessionId - Session document ID
+   * @param input - Fields to update
+   * @returns Promise resolving to the updated session
+   * @throws Error if the session doesn't exist or is finalized
+   */
+  updateDraft(sessionId: string, input: UpdateSessionInput): Promise<SessionDocument>;
+
+  /**
+   * Finalize session notes, after which they cannot be changed, and share
+   * their goals and homework with the client
+   *
+   * @param sessionId - Session document ID
+   * @returns Promise resolving to the finalized session
+   * @throws Error if the session doesn't exist, is already finalized or
+   *   has no notes
+   */
+  finalizeSession(sessionId: string): Promise<SessionDocument>;
+
+  /**
+   * Get the shared part of a session by ID
+   *
+   * @param sessionId - Session document ID
+   * @returns Promise resolving to the shared session or null if the notes
+   *   are not finalized
+   */
+  getSharedSession(sessionId: string): Promise<SharedSessionDocument | null>;
+
+  /**
+   * List the sessions shared with a client, newest first
+   *
+   * @param clientId - Client's Firebase Auth UID
+   * @param practitionerId - Only list sessions with this practitioner
+   * @returns Promise resolving to array of shared sessions
+   */
+  listSharedSessions(clientId: string, practitionerId?: string): Promise<SharedSessionDocument[]>;
+
+  /**
+   * Mark a homework item of a shared session done, or not done
+   *
+   * @param sessionId - Session document ID
+   * @param item - Homework item, as shared
+   * @param completed - Whether the client has done it
+   * @returns Promise resolving to the updated shared session
+   * @throws Error if the session isn't shared or the item isn't its homework
+   */
+  setHomeworkCompleted(
+    sessionId: string,
+    item: string,
+    completed: boolean
+  ): Promise<SharedSessionDocument>;
+
+  /**
+   * Save the client's reflections on a shared session
+   *
+   * @param sessionId - Session document ID
+   * @param clientNotes - Reflections (empty or null to clear them)
+   * @returns Promise resolving to the updated shared session
+   * @throws Error if the session isn't shared
+   */
+  updateClientNotes(sessionId: string, clientNotes: string | null): Promise<SharedSessionDocument>;
+}
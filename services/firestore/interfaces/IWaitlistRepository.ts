@@ -0,0 +1,111 @@
+/**
+ * Waitlist Repository Interface
+ *
+ * Defines the contract for waitlist operations in Firestore.
+ * Follows SOLID principles: Interface Segregation and Dependency Inversion.
+ */
+
+import type {
+  AppointmentDocument,
+  CreateWaitlistEntryInput,
+  WaitlistEntryDocument,
+  WaitlistEntryStatus,
+  WaitlistOffer,
+} from '@/types/firestore';
+
+/**
+ * Options for listing waitlist entries. The security rules only allow
+ * clients to list their own entries and practitioners their own waitlist.
+ */
+export interface ListWaitlistOptions {
+  /**
+   * Filter by practitioner ID
+   */
+  practitionerId?: string;
+
+  /**
+   * Filter by client ID
+   */
+  clientId?: string;
+
+  /**
+   * Filter by status
+   */
+  status?: WaitlistEntryStatus;
+}
+
+/**
+ * Interface for waitlist repository operations
+ */
+export interface IWaitlistRepository {
+  /**
+   * Add a client to a practitioner's waitlist
+   *
+   * @param input - Entry data to create
+   * @returns Promise resolving to the created waitlist entry
+   * @throws Error if the windows are invalid or creation fails
+   */
+  joinWaitlist(input: CreateWaitlistEntryInput): Promise<WaitlistEntryDocument>;
+
+  /**
+   * Get waitlist entry by ID
+   *
+   * @param entryId - Waitlist entry document ID
+   * @returns Promise resolving to the entry or null if not found
+   */
+  getEntry(entryId: string): Promise<WaitlistEntryDocument | null>;
+
+  /**
+   * List waitlist entries, oldest first (the order offers are made in)
+   *
+   * @param options - Filters
+   * @returns Promise resolving to array of waitlist entries
+   */
+  listWaitlist(options: ListWaitlistOptions): Promise<WaitlistEntryDocument[]>;
+
+  /**
+   * Subscribe to waitlist entries with realtime updates, oldest first
+   *
+   * @param options - Filters
+   * @param callback - Callback function called when entries change
+   * @returns Unsubscribe function
+   */
+  subscribeToWaitlist(
+    options: ListWaitlistOptions,
+    callback: (entries: WaitlistEntryDocument[]) => void
+  ): () => void;
+
+  /**
+   * Record that a slot is being offered to an entry
+   *
+   * @param entryId - Waitlist entry document ID
+   * @param offer - Appointment holding the slot and when the offer expires
+   */
+  markOffered(entryId: string, offer: WaitlistOffer): Promise<void>;
+
+  /**
+   * Put an entry back in the queue after its offer was declined or expired
+   *
+   * @param entryId - Waitlist entry document ID
+   */
+  returnToWaiting(entryId: string): Promise<void>;
+
+  /**
+   * Accept the slot offered to an entry. The entry is marked booked and the
+   * offer appointment becomes a booking request for the practitioner.
+   *
+   * @param entryId - Waitlist entry document ID
+   * @returns Promise resolving to the offer appointment
+   * @throws Error if the entry has no open offer or it has expired
+   */
+  acceptOffer(entryId: string): Promise<AppointmentDocument>;
+
+  /**
+   * Take an entry off the waitlist (by the client leaving or the
+   * practitioner removing them). Any open offer should be cancelled first.
+   *
+   * @param entryId - Waitlist entry document ID
+   * @throws Error if the entry doesn't exist
+   */
+  removeEntry(entryId: string): Promise<void>;
+}
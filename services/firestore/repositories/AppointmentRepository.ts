@@ -4,6 +4,15 @@
  * Concrete implementation of IAppointmentRepository using Firestore.
  * Handles all appointment operations in the appointments collection.
  * Supports realtime subscriptions for live updates.
+ *
+ * Bookings are created in a transaction together with slotLocks documents
+ * for every grid block the appointment occupies, for both the practitioner
+ * and the client, so overlapping bookings are rejected atomically.
+ * Rescheduling moves those locks in the same way.
+ *
+ * Recurring series are booked, moved and cancelled one appointment at a
+ * time (a single transaction over a whole series would exceed the security
+ * rules' document access limits), after checking every occurrence first.
  */
 
 import {
@@ -11,7 +20,6 @@ import {
   doc,
   getDoc,
   getDocs,
-  addDoc,
   updateDoc,
   query,
   where,
@@ -20,38 +28,197 @@ import {
   startAfter,
   serverTimestamp,
   onSnapshot,
+  runTransaction,
+  Timestamp,
+  type DocumentReference,
   type Firestore,
   type QueryDocumentSnapshot,
-  type Timestamp,
+  type Transaction,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase/client';
+import { getStatusTransitionError } from '@/lib/scheduling/appointmentStatus';
+import {
+  DEFAULT_MAX_BOOKING_ADVANCE_DAYS,
+  isSlotAvailable,
+  type TimeSlot,
+} from '@/lib/scheduling/availability';
+import {
+  getCancellationPolicy,
+  getCancellationTerms,
+  getNoShowFee,
+} from '@/lib/scheduling/cancellation';
+import {
+  DEFAULT_RESCHEDULE_POLICY,
+  getRescheduleError,
+  getReschedulePolicy,
+  requiresRescheduleApproval,
+} from '@/lib/scheduling/reschedule';
+import {
+  getRecurrenceRuleError,
+  getSeriesOccurrences,
+  getSeriesScopeAppointments,
+  shiftSeriesOccurrence,
+} from '@/lib/scheduling/recurrence';
+import {
+  getSlotLockBlocks,
+  getSlotLockId,
+  isOnSlotGrid,
+  type SlotLockBlock,
+} from '@/lib/scheduling/slotLocks';
+import {
+  migrateAvailabilityRules,
+  type StoredAvailabilityRules,
+} from '@/lib/scheduling/workingHoursMigration';
+import {
+  InvalidStatusTransitionError,
+  RescheduleNotAllowedError,
+  SeriesConflictError,
+  SlotUnavailableError,
+} from '../errors';
 import type {
+  AppointmentSeriesResult,
+  BusyInterval,
   IAppointmentRepository,
   ListAppointmentsOptions,
+  SeriesOccurrence,
 } from '../interfaces/IAppointmentRepository';
 import type {
+  AppointmentActor,
   AppointmentDocument,
+  AppointmentStatus,
   CreateAppointmentInput,
+  CreateAppointmentSeriesInput,
+  CreateWaitlistOfferInput,
+  PractitionerDocument,
+  RescheduleAppointmentInput,
+  RescheduledBy,
+  RescheduleRecord,
+  RescheduleRequest,
+  SeriesScope,
+  SlotLockDocument,
+  SlotLockOwnerType,
+  StatusChange,
   UpdateAppointmentInput,
+  WaitlistReleaseStatus,
 } from '@/types/firestore';
 
+/**
+ * Fields that decide which slot locks an appointment holds
+ */
+type LockedAppointment = Pick<
+  AppointmentDocument,
+  'clientId' | 'practitionerId' | 'startTime' | 'endTime'
+>;
+
+/**
+ * Fields written on appointments booked as part of a recurring series or
+ * as a waitlist offer
+ */
+type BookingFields = Pick<
+  AppointmentDocument,
+  'seriesId' | 'seriesIndex' | 'recurrence' | 'waitlistOffer'
+>;
+
+const MS_PER_DAY = 86_400_000;
+
+/**
+ * An appointment's times as a slot
+ */
+function toTimeSlot(appointment: Pick<AppointmentDocument, 'startTime' | 'endTime'>): TimeSlot {
+  return { start: appointment.startTime.toDate(), end: appointment.endTime.toDate() };
+}
+
 /**
  * Appointment Repository implementation
  */
 export class AppointmentRepository implements IAppointmentRepository {
   private readonly firestore: Firestore;
   private readonly collectionName = 'appointments';
+  private readonly slotLocksCollectionName = 'slotLocks';
+  private readonly practitionersCollectionName = 'practitioners';
 
   constructor(firestore: Firestore = db) {
     this.firestore = firestore;
   }
 
+  /**
+   * Lock document reference for one owner and grid block
+   */
+  private getSlotLockRef(
+    ownerType: SlotLockOwnerType,
+    ownerId: string,
+    blockStart: Date
+  ): DocumentReference {
+    return doc(
+      this.firestore,
+      this.slotLocksCollectionName,
+      getSlotLockId(ownerType, ownerId, blockStart)
+    );
+  }
+
+  /**
+   * All lock references held by an appointment (empty for legacy
+   * appointments that do not start on the slot grid)
+   */
+  private getAppointmentSlotLockRefs(appointment: LockedAppointment): DocumentReference[] {
+    const start = appointment.startTime.toDate();
+    if (!isOnSlotGrid(start)) {
+      return [];
+    }
+
+    return getSlotLockBlocks(start, appointment.endTime.toDate()).flatMap((block) => [
+      this.getSlotLockRef('practitioner', appointment.practitionerId, block.start),
+      this.getSlotLockRef('client', appointment.clientId, block.start),
+    ]);
+  }
+
+  /**
+   * Lock document for one owner and grid block of an appointment
+   */
+  private createSlotLock(
+    ownerType: SlotLockOwnerType,
+    block: SlotLockBlock,
+    appointmentId: string,
+    appointment: LockedAppointment
+  ): SlotLockDocument {
+    return {
+      ownerType,
+      ownerId: ownerType === 'practitioner' ? appointment.practitionerId : appointment.clientId,
+      appointmentId,
+      practitionerId: appointment.practitionerId,
+      clientId: appointment.clientId,
+      startTime: Timestamp.fromDate(block.start),
+      endTime: Timestamp.fromDate(block.end),
+      blockIndex: block.index,
+      appointmentStartTime: appointment.startTime,
+      appointmentEndTime: appointment.endTime,
+      createdAt: serverTimestamp() as any,
+    };
+  }
+
   /**
    * Create a new appointment in Firestore
+   *
+   * Runs as a transaction that reads every slot lock the appointment needs
+   * and fails with SlotUnavailableError if any is already held.
    */
   async createAppointment(input: CreateAppointmentInput): Promise<AppointmentDocument> {
-    const appointmentsRef = collection(this.firestore, this.collectionName);
+    return this.bookAppointment(input, doc(collection(this.firestore, this.collectionName)));
+  }
+
+  /**
+   * Create an appointment and its slot locks in one transaction (see
+   * createAppointment), optionally as part of a recurring series or as a
+   * waitlist offer
+   */
+  private async bookAppointment(
+    input: CreateAppointmentInput,
+    appointmentRef: DocumentReference,
+    fields?: BookingFields,
+    bookedBy: AppointmentActor = 'client'
+  ): Promise<AppointmentDocument> {
     const now = serverTimestamp();
+    const blocks = getSlotLockBlocks(input.startTime.toDate(), input.endTime.toDate());
 
     // Generate Jitsi Meet link for the appointment
     // Jitsi allows random room names and works immediately without API setup
@@ -75,18 +242,61 @@ export class AppointmentRepository implements IAppointmentRepository {
       startTime: input.startTime,
       endTime: input.endTime,
       status: 'pending',
+      statusHistory: [
+        { from: null, to: 'pending', changedAt: Timestamp.now(), changedBy: bookedBy },
+      ],
       createdAt: now as any,
       updatedAt: now as any,
       notes: input.notes ?? null,
       reminderSent: false,
       intakeFormCompleted: false,
       meetingLink,
+      sessionType: input.sessionType ?? null,
+      quotedPrice: input.quotedPrice ?? null,
+      currency: input.currency ?? null,
+      pricingTier: input.pricingTier ?? null,
+      cancellationPolicy: input.cancellationPolicy ?? null,
+      ...fields,
     };
 
-    const docRef = await addDoc(appointmentsRef, appointmentData);
+    await runTransaction(this.firestore, async (transaction) => {
+      const practitionerLocks = blocks.map((block) =>
+        this.getSlotLockRef('practitioner', input.practitionerId, block.start)
+      );
+      const clientLocks = blocks.map((block) =>
+        this.getSlotLockRef('client', input.clientId, block.start)
+      );
+
+      // All reads must happen before any writes in a transaction
+      const practitionerSnapshots = await Promise.all(
+        practitionerLocks.map((lockRef) => transaction.get(lockRef))
+      );
+      const clientSnapshots = await Promise.all(
+        clientLocks.map((lockRef) => transaction.get(lockRef))
+      );
+
+      if (practitionerSnapshots.some((snapshot) => snapshot.exists())) {
+        throw new SlotUnavailableError('practitioner');
+      }
+      if (clientSnapshots.some((snapshot) => snapshot.exists())) {
+        throw new SlotUnavailableError('client');
+      }
+
+      transaction.set(appointmentRef, appointmentData);
+      blocks.forEach((block, index) => {
+        transaction.set(
+          practitionerLocks[index],
+          this.createSlotLock('practitioner', block, appointmentRef.id, input)
+        );
+        transaction.set(
+          clientLocks[index],
+          this.createSlotLock('client', block, appointmentRef.id, input)
+        );
+      });
+    });
 
     // Fetch the created document to return with actual timestamps and ID
-    const createdDoc = await getDoc(docRef);
+    const createdDoc = await getDoc(appointmentRef);
     if (!createdDoc.exists()) {
       throw new Error('Failed to create appointment');
     }
@@ -97,6 +307,261 @@ export class AppointmentRepository implements IAppointmentRepository {
     } as AppointmentDocument;
   }
 
+  /**
+   * Book a freed slot for a waitlisted client as a pending appointment that
+   * holds the slot until the offer is accepted or expires
+   */
+  async createWaitlistOffer(input: CreateWaitlistOfferInput): Promise<AppointmentDocument> {
+    const { waitlistOffer, ...appointment } = input;
+    return this.bookAppointment(
+      appointment,
+      doc(collection(this.firestore, this.collectionName)),
+      { waitlistOffer },
+      'system'
+    );
+  }
+
+  /**
+   * Record whether a cancelled appointment's time was offered to the waitlist
+   */
+  async setWaitlistRelease(
+    appointmentId: string,
+    release: WaitlistReleaseStatus
+  ): Promise<void> {
+    const appointmentRef = doc(this.firestore, this.collectionName, appointmentId);
+    await updateDoc(appointmentRef, {
+      waitlistRelease: release,
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Whether a client may book a time under the practitioner's availability.
+   * Appointments of a recurring series may fall beyond the booking window,
+   * which only limits how far ahead a series can start.
+   */
+  private isAvailableToClient(
+    practitioner: PractitionerDocument,
+    slot: TimeSlot,
+    inSeries: boolean,
+    now: Date = new Date()
+  ): boolean {
+    const rules = migrateAvailabilityRules(
+      practitioner.availabilityRules as StoredAvailabilityRules
+    );
+    const availabilityRules = inSeries
+      ? {
+          ...rules,
+          maxBookingAdvance: Math.max(
+            rules.maxBookingAdvance ?? DEFAULT_MAX_BOOKING_ADVANCE_DAYS,
+            Math.ceil((slot.end.getTime() - now.getTime()) / MS_PER_DAY)
+          ),
+        }
+      : rules;
+
+    return isSlotAvailable({ ...practitioner, availabilityRules }, [], slot, now);
+  }
+
+  /**
+   * Read a practitioner document
+   */
+  private async getPractitionerDocument(practitionerId: string): Promise<PractitionerDocument> {
+    const practitionerDoc = await getDoc(
+      doc(this.firestore, this.practitionersCollectionName, practitionerId)
+    );
+
+    if (!practitionerDoc.exists()) {
+      throw new Error(`Practitioner not found: ${practitionerId}`);
+    }
+
+    return practitionerDoc.data() as PractitionerDocument;
+  }
+
+  /**
+   * Whose booking holds any slot lock an appointment would need at new
+   * times, or null if all are free. Locks held by the given appointments are
+   * not conflicts. A lock the caller may not read belongs to another
+   * appointment of the other participant, so it counts as held.
+   */
+  private async getHeldSlotLockOwner(
+    moved: LockedAppointment,
+    ownAppointmentIds: Set<string>
+  ): Promise<SlotLockOwnerType | null> {
+    const blocks = getSlotLockBlocks(moved.startTime.toDate(), moved.endTime.toDate());
+    const owners: SlotLockOwnerType[] = ['practitioner', 'client'];
+
+    for (const ownerType of owners) {
+      const ownerId = ownerType === 'practitioner' ? moved.practitionerId : moved.clientId;
+      const held = await Promise.all(
+        blocks.map(async (block) => {
+          try {
+            const snapshot = await getDoc(this.getSlotLockRef(ownerType, ownerId, block.start));
+            return (
+              snapshot.exists() &&
+              !ownAppointmentIds.has((snapshot.data() as SlotLockDocument).appointmentId)
+            );
+          } catch (err) {
+            if ((err as { code?: string }).code === 'permission-denied') {
+              return true;
+            }
+            throw err;
+          }
+        })
+      );
+      if (held.some(Boolean)) {
+        return ownerType;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Why an appointment of a series cannot take a time, or null if it can
+   */
+  private async getOccurrenceConflict(
+    moved: LockedAppointment,
+    practitioner: PractitionerDocument,
+    requestedBy: RescheduledBy,
+    ownAppointmentIds: Set<string>,
+    now: Date
+  ): Promise<string | null> {
+    const slot = toTimeSlot(moved);
+    if (!isOnSlotGrid(slot.start)) {
+      return 'This time is not available for booking';
+    }
+
+    // Practitioners may move sessions outside their published hours
+    if (requestedBy === 'client' && !this.isAvailableToClient(practitioner, slot, true, now)) {
+      return 'The practitioner is not available at this time';
+    }
+
+    const heldBy = await this.getHeldSlotLockOwner(moved, ownAppointmentIds);
+    if (heldBy === 'practitioner') {
+      return 'The practitioner is already booked at this time';
+    }
+    if (heldBy === 'client') {
+      return requestedBy === 'client'
+        ? 'You already have an appointment at this time'
+        : 'The client already has an appointment at this time';
+    }
+    return null;
+  }
+
+  /**
+   * Occurrences of a series to be booked, each with its conflict
+   */
+  private async getSeriesOccurrenceConflicts(
+    input: CreateAppointmentSeriesInput,
+    practitioner: PractitionerDocument
+  ): Promise<SeriesOccurrence[]> {
+    const first = toTimeSlot(input);
+    const ruleError = getRecurrenceRuleError(input.recurrence, first.start);
+    if (ruleError) {
+      throw new Error(ruleError);
+    }
+
+    const now = new Date();
+    const occurrences = getSeriesOccurrences(
+      first,
+      input.recurrence,
+      practitioner.availabilityRules.timezone
+    );
+
+    return Promise.all(
+      occurrences.map(async (occurrence, index) => {
+        const times = {
+          startTime: Timestamp.fromDate(occurrence.start),
+          endTime: Timestamp.fromDate(occurrence.end),
+        };
+        const conflict = await this.getOccurrenceConflict(
+          { ...input, ...times },
+          practitioner,
+          'client',
+          new Set(),
+          now
+        );
+        return { index, ...times, conflict };
+      })
+    );
+  }
+
+  /**
+   * Check every occurrence of a recurring series without booking it
+   */
+  async previewAppointmentSeries(input: CreateAppointmentSeriesInput): Promise<SeriesOccurrence[]> {
+    const practitioner = await this.getPractitionerDocument(input.practitionerId);
+    return this.getSeriesOccurrenceConflicts(input, practitioner);
+  }
+
+  /**
+   * Book every free occurrence of a recurring series
+   *
+   * Each occurrence is booked in its own transaction as by createAppointment.
+   * The series ID is the ID of the first booked appointment.
+   */
+  async createAppointmentSeries(
+    input: CreateAppointmentSeriesInput
+  ): Promise<AppointmentSeriesResult> {
+    const practitioner = await this.getPractitionerDocument(input.practitionerId);
+    const occurrences = await this.getSeriesOccurrenceConflicts(input, practitioner);
+    if (occurrences.every((occurrence) => occurrence.conflict)) {
+      throw new SeriesConflictError(occurrences);
+    }
+
+    const appointmentsRef = collection(this.firestore, this.collectionName);
+    const seriesRef = doc(appointmentsRef);
+    const appointments: AppointmentDocument[] = [];
+    const skipped = occurrences.filter((occurrence) => occurrence.conflict);
+
+    for (const occurrence of occurrences.filter((candidate) => !candidate.conflict)) {
+      try {
+        const appointment = await this.bookAppointment(
+          { ...input, startTime: occurrence.startTime, endTime: occurrence.endTime },
+          appointments.length === 0 ? seriesRef : doc(appointmentsRef),
+          { seriesId: seriesRef.id, seriesIndex: occurrence.index, recurrence: input.recurrence }
+        );
+        appointments.push(appointment);
+      } catch (err) {
+        // Taken since the check: skip it like any other conflict
+        if (!(err instanceof SlotUnavailableError)) {
+          throw err;
+        }
+        skipped.push({ ...occurrence, conflict: err.message });
+      }
+    }
+
+    skipped.sort((a, b) => a.index - b.index);
+    if (appointments.length === 0) {
+      throw new SeriesConflictError(skipped);
+    }
+
+    return { appointments, skipped };
+  }
+
+  /**
+   * All appointments of an appointment's series that the actor can read
+   */
+  private async getSeriesAppointments(
+    appointment: AppointmentDocument,
+    actor: AppointmentActor
+  ): Promise<AppointmentDocument[]> {
+    // The security rules only allow queries filtered on the reader's own ID
+    const participantField = actor === 'client' ? 'clientId' : 'practitionerId';
+    const q = query(
+      collection(this.firestore, this.collectionName),
+      where('seriesId', '==', appointment.seriesId),
+      where(participantField, '==', appointment[participantField]),
+      orderBy('startTime', 'asc')
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as AppointmentDocument[];
+  }
+
   /**
    * Get appointment by ID
    */
@@ -147,6 +612,400 @@ export class AppointmentRepository implements IAppointmentRepository {
     } as AppointmentDocument;
   }
 
+  /**
+   * Change an appointment's status
+   *
+   * Runs as a transaction that checks the change against STATUS_TRANSITIONS,
+   * appends it to statusHistory and applies its side effects: cancelling
+   * releases the slot locks and records the cancellation terms, and a
+   * no-show records the no-show fee (cleared again if corrected to
+   * completed).
+   */
+  async updateAppointmentStatus(
+    appointmentId: string,
+    status: AppointmentStatus,
+    changedBy: AppointmentActor
+  ): Promise<AppointmentDocument> {
+    await runTransaction(this.firestore, async (transaction) => {
+      const current = await this.getAppointmentInTransaction(transaction, appointmentId);
+      const transitionError = getStatusTransitionError(current, status, changedBy);
+      if (transitionError) {
+        throw new InvalidStatusTransitionError(current.status, status, transitionError);
+      }
+
+      // serverTimestamp() cannot be used inside arrays
+      const change: StatusChange = {
+        from: current.status,
+        to: status,
+        changedAt: Timestamp.now(),
+        changedBy,
+      };
+      const updateData: Partial<AppointmentDocument> = {
+        status,
+        statusHistory: [...(current.statusHistory ?? []), change],
+        updatedAt: serverTimestamp() as any,
+      };
+      const policy = getCancellationPolicy(current);
+
+      if (status === 'cancelled') {
+        const terms = getCancellationTerms(current, changedBy, policy);
+        updateData.cancelledAt = serverTimestamp() as any;
+        updateData.cancelledBy = changedBy;
+        updateData.lateCancellation = terms.lateCancellation;
+        updateData.feeOwed = terms.fee;
+        updateData.pendingReschedule = null;
+        if (current.startTime.toMillis() > Date.now()) {
+          // Picked up by the waitlist job, which offers the time to the waitlist
+          updateData.waitlistRelease = 'pending';
+        }
+
+        // Free the slot in the same write so it can be booked again
+        this.getAppointmentSlotLockRefs(current).forEach((lockRef) => transaction.delete(lockRef));
+      } else if (status === 'no-show') {
+        updateData.feeOwed = getNoShowFee(current, policy);
+      } else if (current.status === 'no-show') {
+        updateData.feeOwed = null;
+      }
+
+      transaction.update(doc(this.firestore, this.collectionName, appointmentId), updateData);
+    });
+
+    const updated = await this.getAppointment(appointmentId);
+    if (!updated) {
+      throw new Error('Failed to update appointment');
+    }
+    return updated;
+  }
+
+  /**
+   * Change the status of an appointment and the following or all upcoming
+   * appointments of its series, one appointment at a time
+   */
+  async updateAppointmentSeriesStatus(
+    appointmentId: string,
+    scope: SeriesScope,
+    status: AppointmentStatus,
+    changedBy: AppointmentActor
+  ): Promise<AppointmentDocument[]> {
+    const appointment = scope === 'this' ? null : await this.getAppointment(appointmentId);
+    if (!appointment?.seriesId) {
+      return [await this.updateAppointmentStatus(appointmentId, status, changedBy)];
+    }
+
+    const series = await this.getSeriesAppointments(appointment, changedBy);
+    const targets = getSeriesScopeAppointments(series, appointment, scope).filter(
+      (target) => getStatusTransitionError(target, status, changedBy) === null
+    );
+    if (targets.length === 0) {
+      throw new InvalidStatusTransitionError(
+        appointment.status,
+        status,
+        getStatusTransitionError(appointment, status, changedBy) ??
+          `No appointments in this series can be changed to ${status}`
+      );
+    }
+
+    const updated: AppointmentDocument[] = [];
+    for (const target of targets) {
+      updated.push(await this.updateAppointmentStatus(target.id, status, changedBy));
+    }
+    return updated;
+  }
+
+  /**
+   * Read, inside a transaction, the locks an appointment would need at new
+   * times and fail if another appointment holds any of them. Locks the
+   * appointment already holds at its current times are not conflicts.
+   */
+  private async assertSlotFreeForAppointment(
+    transaction: Transaction,
+    appointmentId: string,
+    moved: LockedAppointment
+  ): Promise<void> {
+    const blocks = getSlotLockBlocks(moved.startTime.toDate(), moved.endTime.toDate());
+    const owners: SlotLockOwnerType[] = ['practitioner', 'client'];
+
+    for (const ownerType of owners) {
+      const ownerId = ownerType === 'practitioner' ? moved.practitionerId : moved.clientId;
+      const snapshots = await Promise.all(
+        blocks.map((block) => transaction.get(this.getSlotLockRef(ownerType, ownerId, block.start)))
+      );
+      const held = snapshots.some(
+        (snapshot) =>
+          snapshot.exists() && (snapshot.data() as SlotLockDocument).appointmentId !== appointmentId
+      );
+      if (held) {
+        throw new SlotUnavailableError(ownerType);
+      }
+    }
+  }
+
+  /**
+   * Move an appointment to new times inside a transaction: releases the
+   * locks it no longer needs, takes the new ones, appends the previous times
+   * to rescheduleHistory and clears any pending request.
+   * Must be called after all of the transaction's reads.
+   */
+  private moveAppointment(
+    transaction: Transaction,
+    appointment: AppointmentDocument,
+    moved: LockedAppointment,
+    rescheduledBy: RescheduledBy
+  ): void {
+    const blocks = getSlotLockBlocks(moved.startTime.toDate(), moved.endTime.toDate());
+    const newLockIds = new Set(
+      this.getAppointmentSlotLockRefs(moved).map((lockRef) => lockRef.id)
+    );
+
+    this.getAppointmentSlotLockRefs(appointment)
+      .filter((lockRef) => !newLockIds.has(lockRef.id))
+      .forEach((lockRef) => transaction.delete(lockRef));
+
+    blocks.forEach((block) => {
+      transaction.set(
+        this.getSlotLockRef('practitioner', moved.practitionerId, block.start),
+        this.createSlotLock('practitioner', block, appointment.id, moved)
+      );
+      transaction.set(
+        this.getSlotLockRef('client', moved.clientId, block.start),
+        this.createSlotLock('client', block, appointment.id, moved)
+      );
+    });
+
+    // serverTimestamp() cannot be used inside arrays
+    const record: RescheduleRecord = {
+      startTime: appointment.startTime,
+      endTime: appointment.endTime,
+      rescheduledAt: Timestamp.now(),
+      rescheduledBy,
+    };
+
+    transaction.update(doc(this.firestore, this.collectionName, appointment.id), {
+      startTime: moved.startTime,
+      endTime: moved.endTime,
+      rescheduleHistory: [...(appointment.rescheduleHistory ?? []), record],
+      pendingReschedule: null,
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Read an appointment inside a transaction
+   */
+  private async getAppointmentInTransaction(
+    transaction: Transaction,
+    appointmentId: string
+  ): Promise<AppointmentDocument> {
+    const appointmentDoc = await transaction.get(
+      doc(this.firestore, this.collectionName, appointmentId)
+    );
+
+    if (!appointmentDoc.exists()) {
+      throw new Error(`Appointment not found: ${appointmentId}`);
+    }
+
+    return {
+      id: appointmentDoc.id,
+      ...appointmentDoc.data(),
+    } as AppointmentDocument;
+  }
+
+  /**
+   * Move an appointment to a new time, or ask the practitioner to
+   *
+   * Runs as a transaction that checks the reschedule policy, the
+   * practitioner's availability (for client requests) and the slot locks at
+   * the new time.
+   */
+  async rescheduleAppointment(
+    appointmentId: string,
+    input: RescheduleAppointmentInput
+  ): Promise<AppointmentDocument> {
+    const start = input.startTime.toDate();
+    const end = input.endTime.toDate();
+
+    if (!isOnSlotGrid(start) || end.getTime() <= start.getTime()) {
+      throw new RescheduleNotAllowedError('Choose a valid time for the appointment');
+    }
+
+    await runTransaction(this.firestore, async (transaction) => {
+      const appointment = await this.getAppointmentInTransaction(transaction, appointmentId);
+      const practitionerDoc = await transaction.get(
+        doc(this.firestore, this.practitionersCollectionName, appointment.practitionerId)
+      );
+
+      if (!practitionerDoc.exists()) {
+        throw new Error(`Practitioner not found: ${appointment.practitionerId}`);
+      }
+
+      const practitioner = practitionerDoc.data() as PractitionerDocument;
+      const policy = getReschedulePolicy(practitioner);
+      const policyError = getRescheduleError(appointment, input.requestedBy, policy);
+      if (policyError) {
+        throw new RescheduleNotAllowedError(policyError);
+      }
+
+      // Practitioners may move sessions outside their published hours
+      if (
+        input.requestedBy === 'client' &&
+        !this.isAvailableToClient(practitioner, { start, end }, !!appointment.seriesId)
+      ) {
+        throw new RescheduleNotAllowedError(
+          'The practitioner is not available at this time. Please choose another time.'
+        );
+      }
+
+      const moved = { ...appointment, startTime: input.startTime, endTime: input.endTime };
+      await this.assertSlotFreeForAppointment(transaction, appointmentId, moved);
+
+      if (requiresRescheduleApproval(input.requestedBy, policy)) {
+        // The new time is only held once the practitioner accepts
+        const request: RescheduleRequest = {
+          startTime: input.startTime,
+          endTime: input.endTime,
+          requestedAt: Timestamp.now(),
+          requestedBy: input.requestedBy,
+        };
+        transaction.update(doc(this.firestore, this.collectionName, appointmentId), {
+          pendingReschedule: request,
+          updatedAt: serverTimestamp(),
+        });
+        return;
+      }
+
+      this.moveAppointment(transaction, appointment, moved, input.requestedBy);
+    });
+
+    const updated = await this.getAppointment(appointmentId);
+    if (!updated) {
+      throw new Error('Failed to reschedule appointment');
+    }
+    return updated;
+  }
+
+  /**
+   * Accept or decline a pending reschedule request
+   */
+  async respondToRescheduleRequest(
+    appointmentId: string,
+    accept: boolean
+  ): Promise<AppointmentDocument> {
+    await runTransaction(this.firestore, async (transaction) => {
+      const appointment = await this.getAppointmentInTransaction(transaction, appointmentId);
+      const request = appointment.pendingReschedule;
+
+      if (!request) {
+        throw new Error('This appointment has no pending reschedule request');
+      }
+
+      if (!accept) {
+        transaction.update(doc(this.firestore, this.collectionName, appointmentId), {
+          pendingReschedule: null,
+          updatedAt: serverTimestamp(),
+        });
+        return;
+      }
+
+      // The notice period was checked when the client asked
+      const policyError = getRescheduleError(
+        appointment,
+        'practitioner',
+        DEFAULT_RESCHEDULE_POLICY
+      );
+      if (policyError) {
+        throw new RescheduleNotAllowedError(policyError);
+      }
+
+      const moved = { ...appointment, startTime: request.startTime, endTime: request.endTime };
+      await this.assertSlotFreeForAppointment(transaction, appointmentId, moved);
+      this.moveAppointment(transaction, appointment, moved, request.requestedBy);
+    });
+
+    const updated = await this.getAppointment(appointmentId);
+    if (!updated) {
+      throw new Error('Failed to update appointment');
+    }
+    return updated;
+  }
+
+  /**
+   * Move an appointment and the following or all upcoming appointments of
+   * its series by the same number of days to the same new time
+   *
+   * Every move is checked first and nothing moves if any conflicts. Then
+   * each appointment is moved as by rescheduleAppointment; when shifting
+   * later, the last one moves first so each moves into time already freed.
+   */
+  async rescheduleAppointmentSeries(
+    appointmentId: string,
+    scope: SeriesScope,
+    input: RescheduleAppointmentInput
+  ): Promise<AppointmentDocument[]> {
+    const appointment = scope === 'this' ? null : await this.getAppointment(appointmentId);
+    if (!appointment?.seriesId) {
+      return [await this.rescheduleAppointment(appointmentId, input)];
+    }
+
+    const practitioner = await this.getPractitionerDocument(appointment.practitionerId);
+    const series = await this.getSeriesAppointments(appointment, input.requestedBy);
+    const targets = getSeriesScopeAppointments(series, appointment, scope);
+    const from = toTimeSlot(appointment);
+    const to = toTimeSlot(input);
+    const policy = getReschedulePolicy(practitioner);
+    const movingIds = new Set(targets.map((target) => target.id));
+    const now = new Date();
+
+    const moves = targets.map((target) => {
+      const slot = shiftSeriesOccurrence(
+        toTimeSlot(target),
+        from,
+        to,
+        practitioner.availabilityRules.timezone
+      );
+      return {
+        target,
+        startTime: Timestamp.fromDate(slot.start),
+        endTime: Timestamp.fromDate(slot.end),
+      };
+    });
+
+    const checked: SeriesOccurrence[] = await Promise.all(
+      moves.map(async ({ target, startTime, endTime }) => ({
+        index: target.seriesIndex ?? 0,
+        startTime,
+        endTime,
+        conflict:
+          getRescheduleError(target, input.requestedBy, policy, now) ??
+          (await this.getOccurrenceConflict(
+            { ...target, startTime, endTime },
+            practitioner,
+            input.requestedBy,
+            movingIds,
+            now
+          )),
+      }))
+    );
+    const conflicts = checked.filter((occurrence) => occurrence.conflict);
+    if (conflicts.length > 0) {
+      throw new SeriesConflictError(conflicts);
+    }
+
+    const movingLater = to.start.getTime() > from.start.getTime();
+    const ordered = movingLater ? [...moves].reverse() : moves;
+    const updated: AppointmentDocument[] = [];
+    for (const { target, startTime, endTime } of ordered) {
+      updated.push(
+        await this.rescheduleAppointment(target.id, {
+          startTime,
+          endTime,
+          requestedBy: input.requestedBy,
+        })
+      );
+    }
+
+    return movingLater ? updated.reverse() : updated;
+  }
+
   /**
    * List appointments with optional filters
    */
@@ -167,6 +1026,14 @@ export class AppointmentRepository implements IAppointmentRepository {
       q = query(q, where('status', '==', options.status));
     }
 
+    if (options?.paymentStatus) {
+      q = query(q, where('paymentStatus', '==', options.paymentStatus));
+    }
+
+    if (options?.waitlistRelease) {
+      q = query(q, where('waitlistRelease', '==', options.waitlistRelease));
+    }
+
     if (options?.startAfter) {
       q = query(q, where('startTime', '>=', options.startAfter));
     }
@@ -203,6 +1070,32 @@ export class AppointmentRepository implements IAppointmentRepository {
     })) as AppointmentDocument[];
   }
 
+  /**
+   * List the times a practitioner is booked
+   */
+  async listPractitionerBusyTimes(
+    practitionerId: string,
+    from: Timestamp,
+    to: Timestamp
+  ): Promise<BusyInterval[]> {
+    // The first lock of each appointment carries the appointment's times,
+    // so one document per booking is read without exposing appointment details
+    const q = query(
+      collection(this.firestore, this.slotLocksCollectionName),
+      where('ownerType', '==', 'practitioner'),
+      where('ownerId', '==', practitionerId),
+      where('blockIndex', '==', 0),
+      where('appointmentStartTime', '>=', from),
+      where('appointmentStartTime', '<=', to)
+    );
+
+    const querySnapshot = await getDocs(q);
+    return querySnapshot.docs.map((lockDoc) => {
+      const lock = lockDoc.data() as SlotLockDocument;
+      return { startTime: lock.appointmentStartTime, endTime: lock.appointmentEndTime };
+    });
+  }
+
   /**
    * Subscribe to appointments with realtime updates
    */
@@ -268,14 +1161,9 @@ export class AppointmentRepository implements IAppointmentRepository {
    */
   async cancelAppointment(
     appointmentId: string,
-    cancelledBy: 'client' | 'practitioner'
+    cancelledBy: AppointmentActor
   ): Promise<AppointmentDocument> {
-    const now = serverTimestamp();
-    return this.updateAppointment(appointmentId, {
-      status: 'cancelled',
-      cancelledAt: now as any,
-      cancelledBy,
-    });
+    return this.updateAppointmentStatus(appointmentId, 'cancelled', cancelledBy);
   }
 }
 
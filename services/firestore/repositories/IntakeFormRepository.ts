@@ -0,0 +1,418 @@
+/**
+ * Intake Form Repository Implementation
+ *
+ * Concrete implementation of IIntakeFormRepository using Firestore.
+ * Handles intake form templates and submitted forms in the intakeForms collection.
+ * Supports realtime subscriptions for live updates.
+ *
+ * Forms are never deleted (the security rules keep them for the audit
+ * trail); a template is withdrawn from clients by deactivating it.
+ * Submitting a form creates a 'submitted' copy of the template with the
+ * client's answers and links it to the appointment in the same batch.
+ * Templates carry a version that goes up whenever their sections or fields
+ * change; the copy records the version it was filled in against.
+ *
+ * Scored questionnaires are templates with scoring rules. Clients fill in
+ * each active questionnaire once per appointment, alongside the intake
+ * form; the submitted copy stores its score and does not change the
+ * appointment. A questionnaire's questions cannot be edited, so scores
+ * stay comparable over time.
+ */
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  serverTimestamp,
+  onSnapshot,
+  writeBatch,
+  type Firestore,
+  type Query,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase/client';
+import {
+  getIntakeTemplateError,
+  normalizeIntakeField,
+  normalizeIntakeSection,
+} from '@/lib/intake/formFields';
+import { toIntakeResponses } from '@/lib/intake/responses';
+import { getIntakeScoringError, scoreIntakeResponses } from '@/lib/intake/scoring';
+import type {
+  IIntakeFormRepository,
+  ListIntakeTemplatesOptions,
+} from '../interfaces/IIntakeFormRepository';
+import type {
+  AppointmentDocument,
+  CreateIntakeFormTemplateInput,
+  IntakeFormDocument,
+  SubmitIntakeFormInput,
+  UpdateIntakeFormTemplateInput,
+} from '@/types/firestore';
+
+/**
+ * Intake Form Repository implementation
+ */
+export class IntakeFormRepository implements IIntakeFormRepository {
+  private readonly firestore: Firestore;
+  private readonly collectionName = 'intakeForms';
+  private readonly appointmentsCollectionName = 'appointments';
+
+  constructor(firestore: Firestore = db) {
+    this.firestore = firestore;
+  }
+
+  /**
+   * Query for a practitioner's templates, newest first
+   */
+  private buildTemplatesQuery(practitionerId: string, options?: ListIntakeTemplatesOptions): Query {
+    let q = query(
+      collection(this.firestore, this.collectionName),
+      where('practitionerId', '==', practitionerId),
+      where('type', '==', 'template')
+    );
+
+    if (options?.activeOnly) {
+      q = query(q, where('isActive', '==', true));
+    }
+
+    return query(q, orderBy('createdAt', 'desc'));
+  }
+
+  /**
+   * Get a template, throwing if it is missing or a submitted form
+   */
+  private async getTemplate(formId: string): Promise<IntakeFormDocument> {
+    const form = await this.getForm(formId);
+
+    if (!form) {
+      throw new Error(`Intake form not found: ${formId}`);
+    }
+
+    if (form.type !== 'template') {
+      throw new Error('Submitted intake forms cannot be changed');
+    }
+
+    return form;
+  }
+
+  /**
+   * Create an intake form template
+   */
+  async createTemplate(input: CreateIntakeFormTemplateInput): Promise<IntakeFormDocument> {
+    const sections = (input.sections ?? []).map(normalizeIntakeSection);
+    const fields = input.fields.map(normalizeIntakeField);
+    const templateError =
+      getIntakeTemplateError({ title: input.title, sections, fields }) ??
+      (input.scoring ? getIntakeScoringError(input.scoring, fields) : null);
+    if (templateError) {
+      throw new Error(templateError);
+    }
+
+    const now = serverTimestamp();
+    const formData: Omit<IntakeFormDocument, 'id'> = {
+      practitionerId: input.practitionerId,
+      type: 'template',
+      title: input.title.trim(),
+      description: input.description?.trim() || null,
+      sections,
+      fields,
+      version: 1,
+      questionnaireId: input.questionnaireId ?? null,
+      scoring: input.scoring ?? null,
+      isActive: input.isActive ?? true,
+      createdAt: now as any,
+      updatedAt: now as any,
+    };
+
+    const formRef = await addDoc(collection(this.firestore, this.collectionName), formData);
+
+    // Fetch the created document to return with actual timestamps
+    const createdDoc = await getDoc(formRef);
+    if (!createdDoc.exists()) {
+      throw new Error('Failed to create intake form');
+    }
+
+    return {
+      id: createdDoc.id,
+      ...createdDoc.data(),
+    } as IntakeFormDocument;
+  }
+
+  /**
+   * Get intake form by ID
+   */
+  async getForm(formId: string): Promise<IntakeFormDocument | null> {
+    const formDoc = await getDoc(doc(this.firestore, this.collectionName, formId));
+
+    if (!formDoc.exists()) {
+      return null;
+    }
+
+    return {
+      id: formDoc.id,
+      ...formDoc.data(),
+    } as IntakeFormDocument;
+  }
+
+  /**
+   * List a practitioner's templates, newest first
+   */
+  async listTemplates(
+    practitionerId: string,
+    options?: ListIntakeTemplatesOptions
+  ): Promise<IntakeFormDocument[]> {
+    const querySnapshot = await getDocs(this.buildTemplatesQuery(practitionerId, options));
+    return querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as IntakeFormDocument[];
+  }
+
+  /**
+   * Subscribe to a practitioner's templates with realtime updates
+   */
+  subscribeToTemplates(
+    practitionerId: string,
+    callback: (templates: IntakeFormDocument[]) => void
+  ): () => void {
+    return onSnapshot(
+      this.buildTemplatesQuery(practitionerId),
+      (querySnapshot) => {
+        const templates = querySnapshot.docs.map((doc) => ({
+          id: doc.id,
+          ...doc.data(),
+        })) as IntakeFormDocument[];
+        callback(templates);
+      },
+      (error) => {
+        console.error('Error in intake form subscription:', error);
+        callback([]);
+      }
+    );
+  }
+
+  /**
+   * Update a template
+   */
+  async updateTemplate(
+    formId: string,
+    input: UpdateIntakeFormTemplateInput
+  ): Promise<IntakeFormDocument> {
+    const current = await this.getTemplate(formId);
+
+    const updateData: Partial<IntakeFormDocument> = {
+      updatedAt: serverTimestamp() as any,
+    };
+    if (input.title !== undefined) {
+      updateData.title = input.title.trim();
+    }
+    if (input.description !== undefined) {
+      updateData.description = input.description?.trim() || null;
+    }
+    if (input.sections !== undefined) {
+      updateData.sections = input.sections.map(normalizeIntakeSection);
+    }
+    if (input.fields !== undefined) {
+      updateData.fields = input.fields.map(normalizeIntakeField);
+    }
+    if (input.isActive !== undefined) {
+      updateData.isActive = input.isActive;
+    }
+
+    const sections = updateData.sections ?? current.sections ?? [];
+    const fields = updateData.fields ?? current.fields;
+    const templateError = getIntakeTemplateError({
+      title: updateData.title ?? current.title,
+      sections,
+      fields,
+    });
+    if (templateError) {
+      throw new Error(templateError);
+    }
+
+    const contentChanged =
+      JSON.stringify({ sections, fields }) !==
+      JSON.stringify({ sections: current.sections ?? [], fields: current.fields });
+    if (contentChanged && current.scoring) {
+      throw new Error('The questions of a scored questionnaire cannot be changed');
+    }
+    if (contentChanged) {
+      updateData.version = (current.version ?? 1) + 1;
+    }
+
+    const formRef = doc(this.firestore, this.collectionName, formId);
+    await updateDoc(formRef, updateData);
+
+    // Fetch the updated document
+    const updatedDoc = await getDoc(formRef);
+    if (!updatedDoc.exists()) {
+      throw new Error('Failed to update intake form');
+    }
+
+    return {
+      id: updatedDoc.id,
+      ...updatedDoc.data(),
+    } as IntakeFormDocument;
+  }
+
+  /**
+   * Make a template available to clients, or withdraw it
+   */
+  async setTemplateActive(formId: string, isActive: boolean): Promise<void> {
+    await this.getTemplate(formId);
+
+    await updateDoc(doc(this.firestore, this.collectionName, formId), {
+      isActive,
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Submit a client's answers for an appointment
+   */
+  async submitForm(input: SubmitIntakeFormInput): Promise<IntakeFormDocument> {
+    const template = await this.getForm(input.templateId);
+    if (!template || template.type !== 'template' || !template.isActive) {
+      throw new Error('This intake form is no longer available');
+    }
+
+    const appointmentRef = doc(
+      this.firestore,
+      this.appointmentsCollectionName,
+      input.appointmentId
+    );
+    const appointmentDoc = await getDoc(appointmentRef);
+    const appointment = appointmentDoc.data() as Omit<AppointmentDocument, 'id'> | undefined;
+    if (
+      !appointment ||
+      appointment.clientId !== input.clientId ||
+      appointment.practitionerId !== template.practitionerId
+    ) {
+      throw new Error(`Appointment not found: ${input.appointmentId}`);
+    }
+    if (template.scoring) {
+      const previous = await getDocs(
+        query(
+          collection(this.firestore, this.collectionName),
+          where('appointmentId', '==', input.appointmentId),
+          where('submittedBy', '==', input.clientId),
+          where('templateId', '==', template.id)
+        )
+      );
+      if (!previous.empty) {
+        throw new Error('This questionnaire has already been submitted for this appointment');
+      }
+    } else if (appointment.intakeFormCompleted) {
+      throw new Error('The intake form for this appointment has already been submitted');
+    }
+
+    const responses = toIntakeResponses(template, input.responses);
+
+    const now = serverTimestamp();
+    const formRef = doc(collection(this.firestore, this.collectionName));
+    const formData: Omit<IntakeFormDocument, 'id'> = {
+      practitionerId: template.practitionerId,
+      appointmentId: input.appointmentId,
+      templateId: template.id,
+      type: 'submitted',
+      title: template.title,
+      description: template.description ?? null,
+      sections: template.sections ?? [],
+      fields: template.fields,
+      version: template.version ?? 1,
+      questionnaireId: template.questionnaireId ?? null,
+      scoring: template.scoring ?? null,
+      responses,
+      score: template.scoring
+        ? scoreIntakeResponses(template.scoring, template.fields, responses)
+        : null,
+      submittedBy: input.clientId,
+      submittedAt: now as any,
+      isActive: false,
+      createdAt: now as any,
+      updatedAt: now as any,
+    };
+
+    const batch = writeBatch(this.firestore);
+    batch.set(formRef, formData);
+    // Only the intake form is linked to the appointment
+    if (!template.scoring) {
+      batch.update(appointmentRef, {
+        intakeFormCompleted: true,
+        intakeFormId: formRef.id,
+        updatedAt: now,
+      });
+    }
+    await batch.commit();
+
+    // Fetch the created document to return with actual timestamps
+    const createdDoc = await getDoc(formRef);
+    if (!createdDoc.exists()) {
+      throw new Error('Failed to submit intake form');
+    }
+
+    return {
+      id: createdDoc.id,
+      ...createdDoc.data(),
+    } as IntakeFormDocument;
+  }
+
+  /**
+   * List the questionnaires a client submitted for an appointment
+   */
+  async listAppointmentQuestionnaires(
+    appointmentId: string,
+    clientId: string
+  ): Promise<IntakeFormDocument[]> {
+    const querySnapshot = await getDocs(
+      query(
+        collection(this.firestore, this.collectionName),
+        where('appointmentId', '==', appointmentId),
+        where('submittedBy', '==', clientId)
+      )
+    );
+
+    return (
+      querySnapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+      })) as IntakeFormDocument[]
+    ).filter((form) => form.scoring);
+  }
+
+  /**
+   * List a client's scored questionnaires for a practitioner, oldest first
+   */
+  async listClientScores(
+    practitionerId: string,
+    clientId: string
+  ): Promise<IntakeFormDocument[]> {
+    const querySnapshot = await getDocs(
+      query(
+        collection(this.firestore, this.collectionName),
+        where('practitionerId', '==', practitionerId),
+        where('submittedBy', '==', clientId),
+        where('type', '==', 'submitted'),
+        orderBy('submittedAt', 'asc')
+      )
+    );
+
+    return (
+      querySnapshot.docs.map((doc) => ({
+        id: doc.id,
+        ...doc.data(),
+      })) as IntakeFormDocument[]
+    ).filter((form) => form.scoring);
+  }
+}
+
+/**
+ * Default instance of IntakeFormRepository
+ */
+export const intakeFormRepository = new IntakeFormRepository();
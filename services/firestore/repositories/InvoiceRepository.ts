@@ -0,0 +1,115 @@
+/**
+ * Invoice Repository Implementation
+ *
+ * Concrete implementation of IInvoiceRepository using Firestore.
+ * Handles invoices in the invoices collection, keyed by appointment ID, and
+ * the per-practitioner counters in invoiceCounters they are numbered from.
+ * The counter is read and advanced in the transaction that writes the
+ * invoice, so invoices issued at the same time retry rather than share a
+ * number, and a failed issue leaves no gap.
+ *
+ * Written by the payment sync, signed in as the system account; clients
+ * and practitioners read their own invoices.
+ */
+
+import {
+  doc,
+  getDoc,
+  runTransaction,
+  serverTimestamp,
+  type Firestore,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase/client';
+import { formatInvoiceNumber } from '@/lib/invoices/invoices';
+import type { IInvoiceRepository } from '../interfaces/IInvoiceRepository';
+import type {
+  InvoiceCounterDocument,
+  InvoiceDocument,
+  IssueInvoiceInput,
+} from '@/types/firestore';
+
+/**
+ * Invoice Repository implementation
+ */
+export class InvoiceRepository implements IInvoiceRepository {
+  private readonly firestore: Firestore;
+  private readonly collectionName = 'invoices';
+  private readonly countersCollectionName = 'invoiceCounters';
+  private readonly appointmentsCollectionName = 'appointments';
+
+  constructor(firestore: Firestore = db) {
+    this.firestore = firestore;
+  }
+
+  /**
+   * Issue the invoice for a paid appointment
+   */
+  async issueInvoice(input: IssueInvoiceInput): Promise<InvoiceDocument> {
+    const invoiceId = input.appointmentId;
+    const invoiceRef = doc(this.firestore, this.collectionName, invoiceId);
+    const counterRef = doc(this.firestore, this.countersCollectionName, input.practitionerId);
+    const appointmentRef = doc(this.firestore, this.appointmentsCollectionName, invoiceId);
+
+    await runTransaction(this.firestore, async (transaction) => {
+      const invoiceDoc = await transaction.get(invoiceRef);
+      if (invoiceDoc.exists()) {
+        return;
+      }
+
+      const appointmentDoc = await transaction.get(appointmentRef);
+      if (!appointmentDoc.exists()) {
+        throw new Error(`Appointment not found: ${invoiceId}`);
+      }
+
+      const counterDoc = await transaction.get(counterRef);
+      const counter = counterDoc.data() as InvoiceCounterDocument | undefined;
+      const sequence = (counter?.lastSequence ?? 0) + 1;
+      const now = serverTimestamp();
+
+      const counterData: InvoiceCounterDocument = {
+        lastSequence: sequence,
+        lastInvoiceId: invoiceId,
+        updatedAt: now as any,
+      };
+      const invoiceData: Omit<InvoiceDocument, 'id'> = {
+        ...input,
+        number: formatInvoiceNumber(sequence),
+        sequence,
+        issuedAt: now as any,
+      };
+
+      transaction.set(counterRef, counterData);
+      transaction.set(invoiceRef, invoiceData);
+      transaction.update(appointmentRef, { invoiceId, updatedAt: now });
+    });
+
+    // Fetch the issued document
+    const invoice = await this.getInvoice(invoiceId);
+    if (!invoice) {
+      throw new Error('Failed to issue invoice');
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Get invoice by ID
+   */
+  async getInvoice(invoiceId: string): Promise<InvoiceDocument | null> {
+    const invoiceDoc = await getDoc(doc(this.firestore, this.collectionName, invoiceId));
+
+    if (!invoiceDoc.exists()) {
+      return null;
+    }
+
+    return {
+      id: invoiceDoc.id,
+      ...invoiceDoc.data(),
+    } as InvoiceDocument;
+  }
+}
+
+/**
+ * Default instance of InvoiceRepository
+ */
+export const invoiceRepository = new InvoiceRepository();
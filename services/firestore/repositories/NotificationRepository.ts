@@ -0,0 +1,142 @@
+/**
+ * Notification Repository Implementation
+ *
+ * Concrete implementation of INotificationRepository using Firestore.
+ * Handles in-app notifications in the notifications collection.
+ * Supports realtime subscriptions for live updates.
+ */
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  limit,
+  serverTimestamp,
+  onSnapshot,
+  type Firestore,
+  type Query,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase/client';
+import type {
+  INotificationRepository,
+  ListNotificationsOptions,
+} from '../interfaces/INotificationRepository';
+import type { CreateNotificationInput, NotificationDocument } from '@/types/firestore';
+
+/**
+ * Notification Repository implementation
+ */
+export class NotificationRepository implements INotificationRepository {
+  private readonly firestore: Firestore;
+  private readonly collectionName = 'notifications';
+
+  constructor(firestore: Firestore = db) {
+    this.firestore = firestore;
+  }
+
+  /**
+   * Query for a user's notifications, newest first
+   */
+  private buildQuery(userId: string, options?: ListNotificationsOptions): Query {
+    const notificationsRef = collection(this.firestore, this.collectionName);
+    let q = query(notificationsRef, where('userId', '==', userId));
+
+    if (options?.unreadOnly) {
+      q = query(q, where('read', '==', false));
+    }
+
+    return query(q, orderBy('createdAt', 'desc'), limit(options?.limit ?? 50));
+  }
+
+  /**
+   * Create a notification for a user
+   */
+  async createNotification(input: CreateNotificationInput): Promise<NotificationDocument> {
+    const notificationData: Omit<NotificationDocument, 'id'> = {
+      userId: input.userId,
+      type: input.type,
+      title: input.title,
+      message: input.message,
+      appointmentId: input.appointmentId ?? null,
+      read: false,
+      createdAt: serverTimestamp() as any,
+      readAt: null,
+    };
+
+    const notificationRef = await addDoc(
+      collection(this.firestore, this.collectionName),
+      notificationData
+    );
+
+    return {
+      id: notificationRef.id,
+      ...notificationData,
+    };
+  }
+
+  /**
+   * List a user's notifications, newest first
+   */
+  async listNotifications(
+    userId: string,
+    options?: ListNotificationsOptions
+  ): Promise<NotificationDocument[]> {
+    const querySnapshot = await getDocs(this.buildQuery(userId, options));
+    return querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as NotificationDocument[];
+  }
+
+  /**
+   * Mark a notification as read
+   */
+  async markNotificationRead(notificationId: string): Promise<void> {
+    const notificationRef = doc(this.firestore, this.collectionName, notificationId);
+    const notificationDoc = await getDoc(notificationRef);
+
+    if (!notificationDoc.exists()) {
+      throw new Error(`Notification not found: ${notificationId}`);
+    }
+
+    await updateDoc(notificationRef, {
+      read: true,
+      readAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Subscribe to realtime updates of a user's notifications
+   */
+  subscribeToNotifications(
+    userId: string,
+    callback: (notifications: NotificationDocument[]) => void,
+    options?: ListNotificationsOptions
+  ): () => void {
+    return onSnapshot(
+      this.buildQuery(userId, options),
+      (querySnapshot) => {
+        const notifications = querySnapshot.docs.map((doc) => ({
+          id: doc.id,
+          ...doc.data(),
+        })) as NotificationDocument[];
+        callback(notifications);
+      },
+      (error) => {
+        console.error('Error in notifications subscription:', error);
+        callback([]);
+      }
+    );
+  }
+}
+
+/**
+ * Default instance of NotificationRepository
+ */
+export const notificationRepository = new NotificationRepository();
@@ -0,0 +1,152 @@
+/**
+ * Payment Event Repository Implementation
+ *
+ * Concrete implementation of IPaymentEventRepository using Firestore.
+ * Handles webhook events in the paymentEvents collection, keyed by the
+ * provider's event ID. Each event is recorded in the same transaction that
+ * applies it to its appointment's paymentStatus (see
+ * reconcilePaymentEvent), so a redelivered event is seen as a duplicate
+ * and never applied twice, even when deliveries overlap.
+ *
+ * Written by app/api/payments/webhook/route.ts, signed in as the system
+ * account.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  limit,
+  query,
+  runTransaction,
+  serverTimestamp,
+  Timestamp,
+  where,
+  type Firestore,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase/client';
+import { reconcilePaymentEvent } from '@/lib/payments/paymentEvents';
+import type {
+  ApplyPaymentEventResult,
+  IPaymentEventRepository,
+} from '../interfaces/IPaymentEventRepository';
+import type {
+  AppointmentDocument,
+  ApplyPaymentEventInput,
+  PaymentEventDocument,
+  PaymentEventOutcome,
+  PaymentStatus,
+} from '@/types/firestore';
+
+/**
+ * Payment Event Repository implementation
+ */
+export class PaymentEventRepository implements IPaymentEventRepository {
+  private readonly firestore: Firestore;
+  private readonly collectionName = 'paymentEvents';
+  private readonly appointmentsCollectionName = 'appointments';
+
+  constructor(firestore: Firestore = db) {
+    this.firestore = firestore;
+  }
+
+  /**
+   * ID of the appointment paid for by a payment intent, if any
+   */
+  private async findAppointmentId(paymentIntentId: string): Promise<string | null> {
+    const snapshot = await getDocs(
+      query(
+        collection(this.firestore, this.appointmentsCollectionName),
+        where('paymentIntentId', '==', paymentIntentId),
+        limit(1)
+      )
+    );
+    return snapshot.docs[0]?.id ?? null;
+  }
+
+  /**
+   * Record a payment event and apply it to its appointment
+   */
+  async applyEvent(input: ApplyPaymentEventInput): Promise<ApplyPaymentEventResult> {
+    const eventRef = doc(this.firestore, this.collectionName, input.id);
+    // Queries cannot run inside a transaction; the appointment's intent is
+    // checked again once it is read in the transaction
+    const appointmentId = input.paymentIntentId
+      ? await this.findAppointmentId(input.paymentIntentId)
+      : null;
+
+    const duplicate = await runTransaction(this.firestore, async (transaction) => {
+      const existingDoc = await transaction.get(eventRef);
+      if (existingDoc.exists()) {
+        return true;
+      }
+
+      let outcome: PaymentEventOutcome = 'unmatched';
+      let paymentStatus: PaymentStatus | null = null;
+      if (appointmentId) {
+        const appointmentRef = doc(
+          this.firestore,
+          this.appointmentsCollectionName,
+          appointmentId
+        );
+        const appointmentDoc = await transaction.get(appointmentRef);
+        const appointment = appointmentDoc.data() as Omit<AppointmentDocument, 'id'> | undefined;
+
+        if (appointment && appointment.paymentIntentId === input.paymentIntentId) {
+          ({ outcome, paymentStatus } = reconcilePaymentEvent(
+            appointment.paymentStatus,
+            input.type
+          ));
+          if (outcome === 'applied') {
+            transaction.update(appointmentRef, {
+              paymentStatus,
+              updatedAt: serverTimestamp(),
+            });
+          }
+        }
+      }
+
+      const eventData: Omit<PaymentEventDocument, 'id'> = {
+        type: input.type,
+        paymentIntentId: input.paymentIntentId,
+        appointmentId: outcome === 'unmatched' ? null : appointmentId,
+        outcome,
+        paymentStatus,
+        occurredAt: Timestamp.fromDate(input.occurredAt),
+        receivedAt: serverTimestamp() as any,
+      };
+      transaction.set(eventRef, eventData);
+      return false;
+    });
+
+    // Fetch the recorded document
+    const event = await this.getEvent(input.id);
+    if (!event) {
+      throw new Error('Failed to record payment event');
+    }
+
+    return { event, duplicate };
+  }
+
+  /**
+   * Get payment event by ID
+   */
+  async getEvent(eventId: string): Promise<PaymentEventDocument | null> {
+    const eventDoc = await getDoc(doc(this.firestore, this.collectionName, eventId));
+
+    if (!eventDoc.exists()) {
+      return null;
+    }
+
+    return {
+      id: eventDoc.id,
+      ...eventDoc.data(),
+    } as PaymentEventDocument;
+  }
+}
+
+/**
+ * Default instance of PaymentEventRepository
+ */
+export const paymentEventRepository = new PaymentEventRepository();
@@ -18,10 +18,15 @@ import {
   limit,
   startAfter,
   serverTimestamp,
+  type DocumentData,
   type Firestore,
   type QueryDocumentSnapshot,
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase/client';
+import {
+  migrateAvailabilityRules,
+  type StoredAvailabilityRules,
+} from '@/lib/scheduling/workingHoursMigration';
 import type { IPractitionerRepository, ListPractitionersOptions } from '../interfaces/IPractitionerRepository';
 import type {
   PractitionerDocument,
@@ -40,6 +45,24 @@ export class PractitionerRepository implements IPractitionerRepository {
     this.firestore = firestore;
   }
 
+  /**
+   * Convert stored data to a PractitionerDocument, upgrading working hours
+   * saved in the single-block-per-day shape to intervals
+   */
+  private toPractitionerDocument(data: DocumentData): PractitionerDocument {
+    const practitioner = data as PractitionerDocument;
+    if (!practitioner.availabilityRules) {
+      return practitioner;
+    }
+
+    return {
+      ...practitioner,
+      availabilityRules: migrateAvailabilityRules(
+        practitioner.availabilityRules as StoredAvailabilityRules
+      ),
+    };
+  }
+
   /**
    * Create a new practitioner profile in Firestore
    */
@@ -65,13 +88,13 @@ export class PractitionerRepository implements IPractitionerRepository {
     const defaultAvailabilityRules = {
       timezone: 'America/New_York',
       workingHours: {
-        monday: { start: '09:00', end: '17:00', enabled: true },
-        tuesday: { start: '09:00', end: '17:00', enabled: true },
-        wednesday: { start: '09:00', end: '17:00', enabled: true },
-        thursday: { start: '09:00', end: '17:00', enabled: true },
-        friday: { start: '09:00', end: '17:00', enabled: true },
-        saturday: { start: '09:00', end: '17:00', enabled: false },
-        sunday: { start: '09:00', end: '17:00', enabled: false },
+        monday: { enabled: true, intervals: [{ start: '09:00', end: '17:00' }] },
+        tuesday: { enabled: true, intervals: [{ start: '09:00', end: '17:00' }] },
+        wednesday: { enabled: true, intervals: [{ start: '09:00', end: '17:00' }] },
+        thursday: { enabled: true, intervals: [{ start: '09:00', end: '17:00' }] },
+        friday: { enabled: true, intervals: [{ start: '09:00', end: '17:00' }] },
+        saturday: { enabled: false, intervals: [{ start: '09:00', end: '17:00' }] },
+        sunday: { enabled: false, intervals: [{ start: '09:00', end: '17:00' }] },
       },
     };
 
@@ -98,7 +121,7 @@ export class PractitionerRepository implements IPractitionerRepository {
       throw new Error('Failed to create practitioner profile');
     }
 
-    return createdDoc.data() as PractitionerDocument;
+    return this.toPractitionerDocument(createdDoc.data());
   }
 
   /**
@@ -112,7 +135,7 @@ export class PractitionerRepository implements IPractitionerRepository {
       return null;
     }
 
-    return practitionerDoc.data() as PractitionerDocument;
+    return this.toPractitionerDocument(practitionerDoc.data());
   }
 
   /**
@@ -142,7 +165,7 @@ export class PractitionerRepository implements IPractitionerRepository {
       throw new Error('Failed to update practitioner profile');
     }
 
-    return updatedDoc.data() as PractitionerDocument;
+    return this.toPractitionerDocument(updatedDoc.data());
   }
 
   /**
@@ -181,7 +204,7 @@ export class PractitionerRepository implements IPractitionerRepository {
     }
 
     const querySnapshot = await getDocs(q);
-    return querySnapshot.docs.map((doc) => doc.data() as PractitionerDocument);
+    return querySnapshot.docs.map((doc) => this.toPractitionerDocument(doc.data()));
   }
 
   /**
@@ -0,0 +1,357 @@
+/**
+ * Session Repository Implementation
+ *
+ * Concrete implementation of ISessionRepository using Firestore.
+ * Handles practitioners' session notes in the sessions collection.
+ *
+ * A session is started from a completed appointment and takes the
+ * appointment's ID as its own, so an appointment has at most one; the
+ * appointment's sessionId is set in the same batch. Notes are saved as a
+ * draft until finalized, after which the security rules keep them
+ * unchanged. Notes written in a template are stored section by section,
+ * with the plain-text notes rendered from the sections. Sessions are never
+ * deleted.
+ *
+ * Clients cannot read sessions, which hold the practitioner's private
+ * notes. Finalizing shares the goals and homework with the client in a
+ * sharedSessions document with the same ID, written in the same batch;
+ * there the client marks homework done and adds their reflections.
+ */
+
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  arrayRemove,
+  arrayUnion,
+  query,
+  where,
+  orderBy,
+  serverTimestamp,
+  writeBatch,
+  type Firestore,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase/client';
+import {
+  getSessionFinalizeError,
+  normalizeSessionList,
+  toSharedSession,
+} from '@/lib/sessions/notes';
+import { renderSessionNotes } from '@/lib/sessions/noteTemplates';
+import type { ISessionRepository } from '../interfaces/ISessionRepository';
+import type {
+  AppointmentDocument,
+  SessionDocument,
+  SharedSessionDocument,
+  UpdateSessionInput,
+} from '@/types/firestore';
+
+/**
+ * Session Repository implementation
+ */
+export class SessionRepository implements ISessionRepository {
+  private readonly firestore: Firestore;
+  private readonly collectionName = 'sessions';
+  private readonly sharedCollectionName = 'sharedSessions';
+  private readonly appointmentsCollectionName = 'appointments';
+
+  constructor(firestore: Firestore = db) {
+    this.firestore = firestore;
+  }
+
+  /**
+   * Get a session whose notes can still be changed
+   */
+  private async getDraft(sessionId: string): Promise<SessionDocument> {
+    const session = await this.getSession(sessionId);
+
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    if (!session.isDraft) {
+      throw new Error('Finalized session notes cannot be changed');
+    }
+
+    return session;
+  }
+
+  /**
+   * Start the notes of a completed appointment
+   */
+  async startSession(appointmentId: string, practitionerId: string): Promise<SessionDocument> {
+    const appointmentRef = doc(this.firestore, this.appointmentsCollectionName, appointmentId);
+    const appointmentDoc = await getDoc(appointmentRef);
+    const appointment = appointmentDoc.data() as Omit<AppointmentDocument, 'id'> | undefined;
+    if (!appointment || appointment.practitionerId !== practitionerId) {
+      throw new Error(`Appointment not found: ${appointmentId}`);
+    }
+
+    if (appointment.sessionId) {
+      const existing = await this.getSession(appointment.sessionId);
+      if (existing) {
+        return existing;
+      }
+    }
+
+    if (appointment.status !== 'completed') {
+      throw new Error('Session notes can only be written for completed appointments');
+    }
+
+    const now = serverTimestamp();
+    const sessionData: Omit<SessionDocument, 'id'> = {
+      appointmentId,
+      clientId: appointment.clientId,
+      practitionerId,
+      sessionDate: appointment.startTime,
+      notes: '',
+      templateId: null,
+      sections: null,
+      goals: [],
+      homework: [],
+      nextSessionDate: null,
+      isDraft: true,
+      finalizedAt: null,
+      createdAt: now as any,
+      updatedAt: now as any,
+    };
+
+    const batch = writeBatch(this.firestore);
+    batch.set(doc(this.firestore, this.collectionName, appointmentId), sessionData);
+    batch.update(appointmentRef, {
+      sessionId: appointmentId,
+      updatedAt: now,
+    });
+    await batch.commit();
+
+    // Fetch the created document to return with actual timestamps
+    const created = await this.getSession(appointmentId);
+    if (!created) {
+      throw new Error('Failed to start session notes');
+    }
+
+    return created;
+  }
+
+  /**
+   * Get session by ID
+   */
+  async getSession(sessionId: string): Promise<SessionDocument | null> {
+    const sessionDoc = await getDoc(doc(this.firestore, this.collectionName, sessionId));
+
+    if (!sessionDoc.exists()) {
+      return null;
+    }
+
+    return {
+      id: sessionDoc.id,
+      ...sessionDoc.data(),
+    } as SessionDocument;
+  }
+
+  /**
+   * List a practitioner's sessions with a client, oldest first
+   */
+  async listClientSessions(practitionerId: string, clientId: string): Promise<SessionDocument[]> {
+    const querySnapshot = await getDocs(
+      query(
+        collection(this.firestore, this.collectionName),
+        where('practitionerId', '==', practitionerId),
+        where('clientId', '==', clientId),
+        orderBy('sessionDate', 'asc')
+      )
+    );
+
+    return querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as SessionDocument[];
+  }
+
+  /**
+   * Save changes to draft session notes
+   */
+  async updateDraft(sessionId: string, input: UpdateSessionInput): Promise<SessionDocument> {
+    await this.getDraft(sessionId);
+
+    const updateData: Partial<SessionDocument> = {
+      updatedAt: serverTimestamp() as any,
+    };
+    if (input.notes !== undefined) {
+      updateData.notes = input.notes;
+    }
+    if (input.templateId !== undefined) {
+      updateData.templateId = input.templateId;
+    }
+    if (input.sections !== undefined) {
+      updateData.sections = input.sections;
+      if (input.sections) {
+        updateData.notes = renderSessionNotes(input.sections);
+      }
+    }
+    if (input.goals !== undefined) {
+      updateData.goals = normalizeSessionList(input.goals);
+    }
+    if (input.homework !== undefined) {
+      updateData.homework = normalizeSessionList(input.homework);
+    }
+    if (input.nextSessionDate !== undefined) {
+      updateData.nextSessionDate = input.nextSessionDate;
+    }
+
+    await updateDoc(doc(this.firestore, this.collectionName, sessionId), updateData);
+
+    // Fetch the updated document
+    const updated = await this.getSession(sessionId);
+    if (!updated) {
+      throw new Error('Failed to save session notes');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Finalize session notes
+   */
+  async finalizeSession(sessionId: string): Promise<SessionDocument> {
+    const session = await this.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    const finalizeError = getSessionFinalizeError(session);
+    if (finalizeError) {
+      throw new Error(finalizeError);
+    }
+
+    const now = serverTimestamp();
+    const sharedData: Omit<SharedSessionDocument, 'id'> = {
+      ...toSharedSession(session),
+      createdAt: now as any,
+      updatedAt: now as any,
+    };
+
+    const batch = writeBatch(this.firestore);
+    batch.update(doc(this.firestore, this.collectionName, sessionId), {
+      isDraft: false,
+      finalizedAt: now,
+      updatedAt: now,
+    });
+    batch.set(doc(this.firestore, this.sharedCollectionName, sessionId), sharedData);
+    await batch.commit();
+
+    // Fetch the updated document
+    const finalized = await this.getSession(sessionId);
+    if (!finalized) {
+      throw new Error('Failed to finalize session notes');
+    }
+
+    return finalized;
+  }
+
+  /**
+   * Get the shared part of a session by ID
+   */
+  async getSharedSession(sessionId: string): Promise<SharedSessionDocument | null> {
+    const sharedDoc = await getDoc(doc(this.firestore, this.sharedCollectionName, sessionId));
+
+    if (!sharedDoc.exists()) {
+      return null;
+    }
+
+    return {
+      id: sharedDoc.id,
+      ...sharedDoc.data(),
+    } as SharedSessionDocument;
+  }
+
+  /**
+   * List the sessions shared with a client, newest first
+   */
+  async listSharedSessions(
+    clientId: string,
+    practitionerId?: string
+  ): Promise<SharedSessionDocument[]> {
+    let q = query(
+      collection(this.firestore, this.sharedCollectionName),
+      where('clientId', '==', clientId)
+    );
+
+    if (practitionerId) {
+      q = query(q, where('practitionerId', '==', practitionerId));
+    }
+
+    const querySnapshot = await getDocs(query(q, orderBy('sessionDate', 'desc')));
+
+    return querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as SharedSessionDocument[];
+  }
+
+  /**
+   * Mark a homework item of a shared session done, or not done
+   */
+  async setHomeworkCompleted(
+    sessionId: string,
+    item: string,
+    completed: boolean
+  ): Promise<SharedSessionDocument> {
+    const shared = await this.getSharedSession(sessionId);
+    if (!shared) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    if (!shared.homework.includes(item)) {
+      throw new Error('This homework is not part of the session');
+    }
+
+    const sharedRef = doc(this.firestore, this.sharedCollectionName, sessionId);
+    await updateDoc(sharedRef, {
+      completedHomework: completed ? arrayUnion(item) : arrayRemove(item),
+      updatedAt: serverTimestamp(),
+    });
+
+    // Fetch the updated document
+    const updated = await this.getSharedSession(sessionId);
+    if (!updated) {
+      throw new Error('Failed to update homework');
+    }
+
+    return updated;
+  }
+
+  /**
+   * Save the client's reflections on a shared session
+   */
+  async updateClientNotes(
+    sessionId: string,
+    clientNotes: string | null
+  ): Promise<SharedSessionDocument> {
+    const sharedRef = doc(this.firestore, this.sharedCollectionName, sessionId);
+    const sharedDoc = await getDoc(sharedRef);
+    if (!sharedDoc.exists()) {
+      throw new Error(`Session not found: ${sessionId}`);
+    }
+
+    await updateDoc(sharedRef, {
+      clientNotes: clientNotes?.trim() || null,
+      updatedAt: serverTimestamp(),
+    });
+
+    // Fetch the updated document
+    const updated = await this.getSharedSession(sessionId);
+    if (!updated) {
+      throw new Error('Failed to save reflections');
+    }
+
+    return updated;
+  }
+}
+
+/**
+ * Default instance of SessionRepository
+ */
+export const sessionRepository = new SessionRepository();
@@ -0,0 +1,264 @@
+/**
+ * Waitlist Repository Implementation
+ *
+ * Concrete implementation of IWaitlistRepository using Firestore.
+ * Handles entries in the waitlist collection.
+ * Supports realtime subscriptions for live updates.
+ *
+ * Offers are made by the waitlist job (services/jobs/waitlist.ts), which
+ * books the freed slot as a pending appointment and records it on the
+ * entry. Accepting updates the entry and the appointment together.
+ */
+
+import {
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  updateDoc,
+  query,
+  where,
+  orderBy,
+  serverTimestamp,
+  onSnapshot,
+  runTransaction,
+  type Firestore,
+  type Query,
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase/client';
+import { getWaitlistWindowsError, isOpenWaitlistOffer } from '@/lib/scheduling/waitlist';
+import type { IWaitlistRepository, ListWaitlistOptions } from '../interfaces/IWaitlistRepository';
+import type {
+  AppointmentDocument,
+  CreateWaitlistEntryInput,
+  WaitlistEntryDocument,
+  WaitlistOffer,
+} from '@/types/firestore';
+
+/**
+ * Waitlist Repository implementation
+ */
+export class WaitlistRepository implements IWaitlistRepository {
+  private readonly firestore: Firestore;
+  private readonly collectionName = 'waitlist';
+  private readonly appointmentsCollectionName = 'appointments';
+
+  constructor(firestore: Firestore = db) {
+    this.firestore = firestore;
+  }
+
+  /**
+   * Query for waitlist entries, oldest first
+   */
+  private buildQuery(options: ListWaitlistOptions): Query {
+    let q = query(collection(this.firestore, this.collectionName));
+
+    if (options.practitionerId) {
+      q = query(q, where('practitionerId', '==', options.practitionerId));
+    }
+
+    if (options.clientId) {
+      q = query(q, where('clientId', '==', options.clientId));
+    }
+
+    if (options.status) {
+      q = query(q, where('status', '==', options.status));
+    }
+
+    return query(q, orderBy('createdAt', 'asc'));
+  }
+
+  /**
+   * Add a client to a practitioner's waitlist
+   */
+  async joinWaitlist(input: CreateWaitlistEntryInput): Promise<WaitlistEntryDocument> {
+    const windowsError = getWaitlistWindowsError(input.windows);
+    if (windowsError) {
+      throw new Error(windowsError);
+    }
+
+    const now = serverTimestamp();
+    const entryData: Omit<WaitlistEntryDocument, 'id'> = {
+      practitionerId: input.practitionerId,
+      clientId: input.clientId,
+      clientName: input.clientName ?? null,
+      windows: input.windows,
+      sessionType: input.sessionType,
+      quotedPrice: input.quotedPrice ?? null,
+      currency: input.currency ?? null,
+      pricingTier: input.pricingTier ?? null,
+      notes: input.notes ?? null,
+      status: 'waiting',
+      offer: null,
+      createdAt: now as any,
+      updatedAt: now as any,
+    };
+
+    const entryRef = await addDoc(collection(this.firestore, this.collectionName), entryData);
+
+    // Fetch the created document to return with actual timestamps
+    const createdDoc = await getDoc(entryRef);
+    if (!createdDoc.exists()) {
+      throw new Error('Failed to join waitlist');
+    }
+
+    return {
+      id: createdDoc.id,
+      ...createdDoc.data(),
+    } as WaitlistEntryDocument;
+  }
+
+  /**
+   * Get waitlist entry by ID
+   */
+  async getEntry(entryId: string): Promise<WaitlistEntryDocument | null> {
+    const entryDoc = await getDoc(doc(this.firestore, this.collectionName, entryId));
+
+    if (!entryDoc.exists()) {
+      return null;
+    }
+
+    return {
+      id: entryDoc.id,
+      ...entryDoc.data(),
+    } as WaitlistEntryDocument;
+  }
+
+  /**
+   * List waitlist entries, oldest first
+   */
+  async listWaitlist(options: ListWaitlistOptions): Promise<WaitlistEntryDocument[]> {
+    const querySnapshot = await getDocs(this.buildQuery(options));
+    return querySnapshot.docs.map((doc) => ({
+      id: doc.id,
+      ...doc.data(),
+    })) as WaitlistEntryDocument[];
+  }
+
+  /**
+   * Subscribe to waitlist entries with realtime updates
+   */
+  subscribeToWaitlist(
+    options: ListWaitlistOptions,
+    callback: (entries: WaitlistEntryDocument[]) => void
+  ): () => void {
+    return onSnapshot(
+      this.buildQuery(options),
+      (querySnapshot) => {
+        const entries = querySnapshot.docs.map((doc) => ({
+          id: doc.id,
+          ...doc.data(),
+        })) as WaitlistEntryDocument[];
+        callback(entries);
+      },
+      (error) => {
+        console.error('Error in waitlist subscription:', error);
+        callback([]);
+      }
+    );
+  }
+
+  /**
+   * Record that a slot is being offered to an entry
+   */
+  async markOffered(entryId: string, offer: WaitlistOffer): Promise<void> {
+    await updateDoc(doc(this.firestore, this.collectionName, entryId), {
+      status: 'offered',
+      offer,
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Put an entry back in the queue after its offer was declined or expired
+   */
+  async returnToWaiting(entryId: string): Promise<void> {
+    await updateDoc(doc(this.firestore, this.collectionName, entryId), {
+      status: 'waiting',
+      offer: null,
+      updatedAt: serverTimestamp(),
+    });
+  }
+
+  /**
+   * Accept the slot offered to an entry
+   *
+   * Runs as a transaction so the entry is only marked booked if the offer
+   * appointment is still open when it is accepted.
+   */
+  async acceptOffer(entryId: string): Promise<AppointmentDocument> {
+    const entryRef = doc(this.firestore, this.collectionName, entryId);
+
+    const appointmentRef = await runTransaction(this.firestore, async (transaction) => {
+      const entryDoc = await transaction.get(entryRef);
+      if (!entryDoc.exists()) {
+        throw new Error(`Waitlist entry not found: ${entryId}`);
+      }
+
+      const entry = entryDoc.data() as Omit<WaitlistEntryDocument, 'id'>;
+      if (entry.status !== 'offered' || !entry.offer) {
+        throw new Error('There is no open offer for this waitlist entry');
+      }
+
+      const offerRef = doc(
+        this.firestore,
+        this.appointmentsCollectionName,
+        entry.offer.appointmentId
+      );
+      const offerDoc = await transaction.get(offerRef);
+      const appointment = offerDoc.data() as Omit<AppointmentDocument, 'id'> | undefined;
+      if (
+        !appointment ||
+        !isOpenWaitlistOffer(appointment) ||
+        appointment.waitlistOffer!.expiresAt.toMillis() <= Date.now()
+      ) {
+        throw new Error('This offer has expired');
+      }
+
+      transaction.update(offerRef, {
+        'waitlistOffer.acceptedAt': serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      transaction.update(entryRef, {
+        status: 'booked',
+        updatedAt: serverTimestamp(),
+      });
+      return offerRef;
+    });
+
+    // Fetch the updated appointment
+    const updatedDoc = await getDoc(appointmentRef);
+    if (!updatedDoc.exists()) {
+      throw new Error('Failed to accept offer');
+    }
+
+    return {
+      id: updatedDoc.id,
+      ...updatedDoc.data(),
+    } as AppointmentDocument;
+  }
+
+  /**
+   * Take an entry off the waitlist
+   */
+  async removeEntry(entryId: string): Promise<void> {
+    const entryRef = doc(this.firestore, this.collectionName, entryId);
+    const entryDoc = await getDoc(entryRef);
+
+    if (!entryDoc.exists()) {
+      throw new Error(`Waitlist entry not found: ${entryId}`);
+    }
+
+    await updateDoc(entryRef, {
+      status: 'removed',
+      offer: null,
+      updatedAt: serverTimestamp(),
+    });
+  }
+}
+
+/**
+ * Default instance of WaitlistRepository
+ */
+export const waitlistRepository = new WaitlistRepository();
@@ -0,0 +1,738 @@
+/**
+ * Tests for AppointmentRepository
+ */
+
+import { AppointmentRepository } from '../AppointmentRepository';
+import {
+  InvalidStatusTransitionError,
+  RescheduleNotAllowedError,
+  SeriesConflictError,
+  SlotUnavailableError,
+} from '../../errors';
+import {
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  runTransaction,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import type { Timestamp } from 'firebase/firestore';
+
+jest.mock('firebase/firestore', () => ({
+  collection: jest.fn(),
+  doc: jest.fn(),
+  getDoc: jest.fn(),
+  getDocs: jest.fn(),
+  updateDoc: jest.fn(),
+  query: jest.fn(),
+  where: jest.fn(),
+  orderBy: jest.fn(),
+  limit: jest.fn(),
+  startAfter: jest.fn(),
+  onSnapshot: jest.fn(),
+  runTransaction: jest.fn(),
+  writeBatch: jest.fn(),
+  serverTimestamp: jest.fn(() => ({ seconds: 1234567890, nanoseconds: 0 })),
+  Timestamp: {
+    fromDate: jest.fn((date: Date) => ({ toDate: () => date })),
+    now: jest.fn(() => ({ seconds: 1234567890, nanoseconds: 0 })),
+  },
+}));
+jest.mock('@/lib/firebase/client', () => ({
+  db: {},
+}));
+
+const mockCollection = collection as jest.MockedFunction<typeof collection>;
+const mockDoc = doc as jest.MockedFunction<typeof doc>;
+const mockGetDoc = getDoc as jest.MockedFunction<typeof getDoc>;
+const mockGetDocs = getDocs as jest.MockedFunction<typeof getDocs>;
+const mockRunTransaction = runTransaction as jest.MockedFunction<typeof runTransaction>;
+const mockUpdateDoc = updateDoc as jest.MockedFunction<typeof updateDoc>;
+const mockWriteBatch = writeBatch as jest.MockedFunction<typeof writeBatch>;
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const start = new Date(Date.UTC(2025, 0, 6, 14, 0));
+const end = new Date(Date.UTC(2025, 0, 6, 15, 0));
+
+describe('AppointmentRepository', () => {
+  let repository: AppointmentRepository;
+  const mockFirestore = {} as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository = new AppointmentRepository(mockFirestore);
+    mockCollection.mockReturnValue({ path: 'appointments' } as any);
+    // doc(collectionRef) creates a new appointment ref; doc(db, name, id) a lock or appointment ref
+    mockDoc.mockImplementation(((...args: unknown[]) =>
+      args.length === 1 ? { id: 'new-appointment' } : { id: args[2], path: `${args[1]}/${args[2]}` }
+    ) as any);
+  });
+
+  describe('createAppointment', () => {
+    const input = {
+      clientId: 'client-1',
+      practitionerId: 'prac-1',
+      startTime: timestamp(start),
+      endTime: timestamp(end),
+      notes: 'First session',
+      sessionType: { id: 'intro', name: 'Intro Call', duration: 60, format: 'online' as const },
+      quotedPrice: 5000,
+      currency: 'USD',
+    };
+
+    const runWithLocks = (heldLockIds: string[]) => {
+      const transaction = {
+        get: jest.fn(async (ref: { id: string }) => ({
+          exists: () => heldLockIds.includes(ref.id),
+        })),
+        set: jest.fn(),
+      };
+      mockRunTransaction.mockImplementationOnce(async (_db, updateFunction) =>
+        updateFunction(transaction as any)
+      );
+      return transaction;
+    };
+
+    it('should create the appointment and lock every block for both parties', async () => {
+      const transaction = runWithLocks([]);
+      mockGetDoc.mockResolvedValueOnce({
+        exists: () => true,
+        id: 'new-appointment',
+        data: () => ({ clientId: 'client-1', practitionerId: 'prac-1', status: 'pending' }),
+      } as any);
+
+      const result = await repository.createAppointment(input);
+
+      expect(result.id).toBe('new-appointment');
+      expect(transaction.get).toHaveBeenCalledTimes(4);
+
+      const writtenIds = transaction.set.mock.calls.map(([ref]) => ref.id);
+      expect(writtenIds).toEqual([
+        'new-appointment',
+        `practitioner_prac-1_${start.getTime()}`,
+        `client_client-1_${start.getTime()}`,
+        `practitioner_prac-1_${start.getTime() + 1800000}`,
+        `client_client-1_${start.getTime() + 1800000}`,
+      ]);
+      expect(transaction.set.mock.calls[0][1]).toMatchObject({
+        status: 'pending',
+        notes: 'First session',
+        sessionType: { id: 'intro', name: 'Intro Call' },
+        quotedPrice: 5000,
+        currency: 'USD',
+      });
+      expect(transaction.set.mock.calls[1][1]).toMatchObject({
+        ownerType: 'practitioner',
+        appointmentId: 'new-appointment',
+        blockIndex: 0,
+      });
+    });
+
+    it('should book waitlist offers as the system with the offer terms', async () => {
+      const transaction = runWithLocks([]);
+      mockGetDoc.mockResolvedValueOnce({
+        exists: () => true,
+        id: 'new-appointment',
+        data: () => ({ clientId: 'client-1', practitionerId: 'prac-1', status: 'pending' }),
+      } as any);
+      const waitlistOffer = {
+        entryId: 'entry-1',
+        expiresAt: timestamp(start),
+        acceptedAt: null,
+        passedEntryIds: [],
+      };
+
+      await repository.createWaitlistOffer({ ...input, waitlistOffer });
+
+      expect(transaction.set.mock.calls[0][1]).toMatchObject({
+        status: 'pending',
+        statusHistory: [{ from: null, to: 'pending', changedBy: 'system' }],
+        waitlistOffer,
+      });
+    });
+
+    it('should throw SlotUnavailableError when the practitioner is booked', async () => {
+      const transaction = runWithLocks([`practitioner_prac-1_${start.getTime() + 1800000}`]);
+
+      const promise = repository.createAppointment(input);
+
+      await expect(promise).rejects.toBeInstanceOf(SlotUnavailableError);
+      await expect(promise).rejects.toMatchObject({ conflictWith: 'practitioner' });
+      expect(transaction.set).not.toHaveBeenCalled();
+    });
+
+    it('should throw SlotUnavailableError when the client has an overlapping appointment', async () => {
+      const transaction = runWithLocks([`client_client-1_${start.getTime()}`]);
+
+      await expect(repository.createAppointment(input)).rejects.toMatchObject({
+        name: 'SlotUnavailableError',
+        conflictWith: 'client',
+      });
+      expect(transaction.set).not.toHaveBeenCalled();
+    });
+
+    it('should reject start times that are off the slot grid', async () => {
+      await expect(
+        repository.createAppointment({
+          ...input,
+          startTime: timestamp(new Date(Date.UTC(2025, 0, 6, 14, 10))),
+        })
+      ).rejects.toThrow('Appointments must start on a 30-minute boundary');
+      expect(mockRunTransaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateAppointment', () => {
+    it('should update other fields without touching locks', async () => {
+      const existing = { exists: () => true, id: 'apt-1', data: () => ({ status: 'confirmed' }) };
+      mockGetDoc.mockResolvedValueOnce(existing as any).mockResolvedValueOnce(existing as any);
+
+      await repository.updateAppointment('apt-1', { practitionerNotes: 'Bring water' });
+
+      expect(mockUpdateDoc.mock.calls[0][1]).toMatchObject({ practitionerNotes: 'Bring water' });
+      expect(mockWriteBatch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateAppointmentStatus', () => {
+    const hour = 3600000;
+    const policy = { freeCancellationHours: 24, lateCancellationFeePercent: 50, noShowFeePercent: 75 };
+    const earlier = {
+      from: null,
+      to: 'pending',
+      changedAt: timestamp(new Date(0)),
+      changedBy: 'client',
+    };
+    const stored = (extra: object = {}) => ({
+      exists: () => true,
+      id: 'apt-1',
+      data: () => ({
+        clientId: 'client-1',
+        practitionerId: 'prac-1',
+        startTime: timestamp(start),
+        endTime: timestamp(end),
+        status: 'confirmed',
+        statusHistory: [earlier],
+        quotedPrice: 10000,
+        cancellationPolicy: policy,
+        ...extra,
+      }),
+    });
+    let transaction: { get: jest.Mock; update: jest.Mock; delete: jest.Mock };
+
+    // Reads and writes the appointment in a transaction, then re-reads it
+    const withStored = (extra: object = {}, after: object = {}) => {
+      transaction = {
+        get: jest.fn(async () => stored(extra)),
+        update: jest.fn(),
+        delete: jest.fn(),
+      };
+      mockRunTransaction.mockImplementationOnce(async (_db, updateFunction) =>
+        updateFunction(transaction as any)
+      );
+      mockGetDoc.mockResolvedValueOnce(stored(after) as any);
+    };
+
+    const change = async (
+      status: Parameters<AppointmentRepository['updateAppointmentStatus']>[1],
+      changedBy: 'client' | 'practitioner' | 'system',
+      extra: object = {}
+    ) => {
+      withStored(extra, { status });
+      await repository.updateAppointmentStatus('apt-1', status, changedBy);
+      return transaction.update.mock.calls[0][1];
+    };
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date(start.getTime() - hour) });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should release slot locks and record a late fee when the client cancels', async () => {
+      withStored({}, { status: 'cancelled' });
+
+      await repository.cancelAppointment('apt-1', 'client');
+      const updateData = transaction.update.mock.calls[0][1];
+
+      expect(updateData).toMatchObject({
+        status: 'cancelled',
+        cancelledBy: 'client',
+        lateCancellation: true,
+        feeOwed: 5000,
+        pendingReschedule: null,
+        waitlistRelease: 'pending',
+      });
+      expect(transaction.delete.mock.calls.map(([ref]) => ref.id)).toEqual([
+        `practitioner_prac-1_${start.getTime()}`,
+        `client_client-1_${start.getTime()}`,
+        `practitioner_prac-1_${start.getTime() + 1800000}`,
+        `client_client-1_${start.getTime() + 1800000}`,
+      ]);
+      expect(mockUpdateDoc).not.toHaveBeenCalled();
+    });
+
+    it('should cancel free of charge outside the window or without a stored policy', async () => {
+      jest.setSystemTime(new Date(start.getTime() - 48 * hour));
+      expect(await change('cancelled', 'client')).toMatchObject({ lateCancellation: false, feeOwed: 0 });
+
+      jest.clearAllMocks();
+      jest.setSystemTime(new Date(start.getTime() - hour));
+      expect(await change('cancelled', 'client', { cancellationPolicy: null })).toMatchObject({
+        lateCancellation: true,
+        feeOwed: 0,
+      });
+    });
+
+    it('should append each change to the status history', async () => {
+      const updateData = await change('confirmed', 'practitioner', { status: 'pending' });
+
+      expect(updateData.statusHistory).toEqual([
+        earlier,
+        expect.objectContaining({ from: 'pending', to: 'confirmed', changedBy: 'practitioner' }),
+      ]);
+      expect(transaction.delete).not.toHaveBeenCalled();
+    });
+
+    it('should record the no-show fee and clear it when corrected', async () => {
+      jest.setSystemTime(new Date(end.getTime()));
+      expect(await change('no-show', 'practitioner')).toMatchObject({
+        status: 'no-show',
+        feeOwed: 7500,
+      });
+
+      jest.clearAllMocks();
+      expect(await change('completed', 'practitioner', { status: 'no-show' })).toMatchObject({
+        status: 'completed',
+        feeOwed: null,
+      });
+    });
+
+    it('should let the system complete ended sessions and expire requests free of charge', async () => {
+      jest.setSystemTime(new Date(end.getTime()));
+      expect(await change('completed', 'system')).toEqual({
+        status: 'completed',
+        statusHistory: [earlier, expect.objectContaining({ from: 'confirmed', changedBy: 'system' })],
+        updatedAt: expect.anything(),
+      });
+
+      jest.clearAllMocks();
+      jest.setSystemTime(new Date(start.getTime() - hour));
+      expect(await change('cancelled', 'system', { status: 'pending' })).toMatchObject({
+        status: 'cancelled',
+        cancelledBy: 'system',
+        lateCancellation: false,
+        feeOwed: 0,
+      });
+      expect(transaction.delete).toHaveBeenCalledTimes(4);
+    });
+
+    it('should reject changes the transition table does not allow', async () => {
+      withStored();
+
+      const promise = repository.updateAppointmentStatus('apt-1', 'no-show', 'practitioner');
+
+      await expect(promise).rejects.toBeInstanceOf(InvalidStatusTransitionError);
+      await expect(promise).rejects.toMatchObject({
+        from: 'confirmed',
+        to: 'no-show',
+        message: 'This appointment has not started yet',
+      });
+      expect(transaction.update).not.toHaveBeenCalled();
+      expect(transaction.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('rescheduling', () => {
+    const hour = 3600000;
+    const weekday = { enabled: true, intervals: [{ start: '09:00', end: '17:00' }] };
+    const practitioner = (reschedulePolicy?: object) => ({
+      sessionDuration: 60,
+      reschedulePolicy,
+      availabilityRules: {
+        timezone: 'America/New_York',
+        workingHours: { monday: weekday, tuesday: weekday },
+      },
+    });
+    const appointment = (extra: object = {}) => ({
+      clientId: 'client-1',
+      practitionerId: 'prac-1',
+      startTime: timestamp(start),
+      endTime: timestamp(end),
+      status: 'confirmed',
+      ...extra,
+    });
+    const lock = (appointmentId: string) => ({ appointmentId });
+    const current = appointment();
+
+    // Documents keyed by path, read through a fake transaction
+    const runWithDocuments = (documents: Record<string, object>) => {
+      const transaction = {
+        get: jest.fn(async (ref: { id: string; path: string }) => ({
+          id: ref.id,
+          exists: () => ref.path in documents,
+          data: () => documents[ref.path],
+        })),
+        set: jest.fn(),
+        update: jest.fn(),
+        delete: jest.fn(),
+      };
+      mockRunTransaction.mockImplementationOnce(async (_db, updateFunction) =>
+        updateFunction(transaction as any)
+      );
+      mockGetDoc.mockResolvedValue({ exists: () => true, id: 'apt-1', data: () => ({}) } as any);
+      return transaction;
+    };
+
+    const at = (millis: number) => ({
+      startTime: timestamp(new Date(millis)),
+      endTime: timestamp(new Date(millis + hour)),
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date(Date.UTC(2025, 0, 1)) });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should move the appointment, its locks and record the previous times', async () => {
+      const transaction = runWithDocuments({
+        'appointments/apt-1': current,
+        'practitioners/prac-1': practitioner(),
+        [`slotLocks/practitioner_prac-1_${start.getTime() + 1800000}`]: lock('apt-1'),
+        [`slotLocks/client_client-1_${start.getTime() + 1800000}`]: lock('apt-1'),
+      });
+      const moved = at(start.getTime() + 1800000);
+
+      await repository.rescheduleAppointment('apt-1', { ...moved, requestedBy: 'client' });
+
+      // The block shared by the old and new times is kept and rewritten
+      expect(transaction.delete.mock.calls.map(([ref]) => ref.id)).toEqual([
+        `practitioner_prac-1_${start.getTime()}`,
+        `client_client-1_${start.getTime()}`,
+      ]);
+      expect(transaction.set.mock.calls.map(([ref, data]) => [ref.id, data.blockIndex])).toEqual([
+        [`practitioner_prac-1_${start.getTime() + 1800000}`, 0],
+        [`client_client-1_${start.getTime() + 1800000}`, 0],
+        [`practitioner_prac-1_${start.getTime() + hour}`, 1],
+        [`client_client-1_${start.getTime() + hour}`, 1],
+      ]);
+      expect(transaction.update.mock.calls[0][1]).toMatchObject({
+        startTime: moved.startTime,
+        endTime: moved.endTime,
+        pendingReschedule: null,
+        rescheduleHistory: [
+          { startTime: current.startTime, endTime: current.endTime, rescheduledBy: 'client' },
+        ],
+      });
+    });
+
+    it('should only record a request when the practitioner requires approval', async () => {
+      const transaction = runWithDocuments({
+        'appointments/apt-1': appointment(),
+        'practitioners/prac-1': practitioner({ requireApproval: true, minNoticeHours: 24 }),
+      });
+      const moved = at(start.getTime() + 24 * hour);
+
+      await repository.rescheduleAppointment('apt-1', { ...moved, requestedBy: 'client' });
+
+      expect(transaction.set).not.toHaveBeenCalled();
+      expect(transaction.delete).not.toHaveBeenCalled();
+      expect(transaction.update.mock.calls[0][1]).toMatchObject({
+        pendingReschedule: { ...moved, requestedBy: 'client' },
+      });
+      expect(transaction.update.mock.calls[0][1]).not.toHaveProperty('startTime');
+    });
+
+    it('should hold clients to the notice period and working hours', async () => {
+      jest.setSystemTime(new Date(start.getTime() - 12 * hour));
+      runWithDocuments({
+        'appointments/apt-1': appointment(),
+        'practitioners/prac-1': practitioner(),
+      });
+
+      await expect(
+        repository.rescheduleAppointment('apt-1', {
+          ...at(start.getTime() + 24 * hour),
+          requestedBy: 'client',
+        })
+      ).rejects.toThrow('less than 24 hours before they start');
+
+      jest.setSystemTime(new Date(Date.UTC(2025, 0, 1)));
+      const transaction = runWithDocuments({
+        'appointments/apt-1': appointment(),
+        'practitioners/prac-1': practitioner(),
+      });
+
+      // 06:00 in New York
+      await expect(
+        repository.rescheduleAppointment('apt-1', {
+          ...at(Date.UTC(2025, 0, 7, 11)),
+          requestedBy: 'client',
+        })
+      ).rejects.toBeInstanceOf(RescheduleNotAllowedError);
+      expect(transaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should let practitioners move appointments outside working hours', async () => {
+      const transaction = runWithDocuments({
+        'appointments/apt-1': appointment(),
+        'practitioners/prac-1': practitioner(),
+      });
+
+      await repository.rescheduleAppointment('apt-1', {
+        ...at(Date.UTC(2025, 0, 7, 11)),
+        requestedBy: 'practitioner',
+      });
+
+      expect(transaction.update.mock.calls[0][1]).toMatchObject({
+        rescheduleHistory: [expect.objectContaining({ rescheduledBy: 'practitioner' })],
+      });
+    });
+
+    it('should throw SlotUnavailableError when another appointment holds the new time', async () => {
+      const moved = at(start.getTime() + 24 * hour);
+      const transaction = runWithDocuments({
+        'appointments/apt-1': appointment(),
+        'practitioners/prac-1': practitioner(),
+        [`slotLocks/client_client-1_${moved.startTime.toMillis()}`]: lock('apt-2'),
+      });
+
+      await expect(
+        repository.rescheduleAppointment('apt-1', { ...moved, requestedBy: 'client' })
+      ).rejects.toMatchObject({ name: 'SlotUnavailableError', conflictWith: 'client' });
+      expect(transaction.update).not.toHaveBeenCalled();
+    });
+
+    it('should apply an accepted request and clear a declined one', async () => {
+      const moved = at(start.getTime() + 24 * hour);
+      const pendingReschedule = { ...moved, requestedBy: 'client' };
+
+      let transaction = runWithDocuments({
+        'appointments/apt-1': appointment({ pendingReschedule }),
+      });
+      await repository.respondToRescheduleRequest('apt-1', true);
+
+      expect(transaction.set).toHaveBeenCalledTimes(4);
+      expect(transaction.update.mock.calls[0][1]).toMatchObject({
+        startTime: moved.startTime,
+        pendingReschedule: null,
+        rescheduleHistory: [expect.objectContaining({ rescheduledBy: 'client' })],
+      });
+
+      transaction = runWithDocuments({
+        'appointments/apt-1': appointment({ pendingReschedule }),
+      });
+      await repository.respondToRescheduleRequest('apt-1', false);
+
+      expect(transaction.set).not.toHaveBeenCalled();
+      expect(transaction.update.mock.calls[0][1]).toEqual({
+        pendingReschedule: null,
+        updatedAt: expect.anything(),
+      });
+    });
+  });
+
+  describe('recurring series', () => {
+    const hour = 3600000;
+    const week = 7 * 24 * hour;
+    const weekday = { enabled: true, intervals: [{ start: '09:00', end: '17:00' }] };
+    const practitioner = {
+      sessionDuration: 60,
+      availabilityRules: {
+        timezone: 'America/New_York',
+        workingHours: { monday: weekday, tuesday: weekday },
+        maxBookingAdvance: 14,
+      },
+    };
+    const input = {
+      clientId: 'client-1',
+      practitionerId: 'prac-1',
+      startTime: timestamp(start),
+      endTime: timestamp(end),
+      recurrence: { frequency: 'weekly' as const, count: 4 },
+    };
+    const at = (millis: number) => ({
+      startTime: timestamp(new Date(millis)),
+      endTime: timestamp(new Date(millis + hour)),
+    });
+
+    // Documents keyed by path, shared by direct reads and transactions
+    let documents: Record<string, object>;
+    const snapshot = (ref: { id: string; path: string }) => ({
+      id: ref.id,
+      exists: () => ref.path in documents,
+      data: () => documents[ref.path],
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date(Date.UTC(2025, 0, 1)) });
+      documents = { 'practitioners/prac-1': practitioner };
+      let created = 0;
+      mockDoc.mockImplementation(((...args: unknown[]) => {
+        const id = args.length === 1 ? `apt-${++created}` : (args[2] as string);
+        return { id, path: args.length === 1 ? `appointments/${id}` : `${args[1]}/${id}` };
+      }) as any);
+      mockGetDoc.mockImplementation((async (ref: { id: string; path: string }) =>
+        snapshot(ref)) as any);
+      mockRunTransaction.mockImplementation(async (_db, updateFunction) =>
+        updateFunction({
+          get: jest.fn(async (ref: { id: string; path: string }) => snapshot(ref)),
+          set: jest.fn((ref: { path: string }, data: object) => {
+            documents[ref.path] = data;
+          }),
+        } as any)
+      );
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should book every free occurrence with a shared series ID and report the rest', async () => {
+      // The third Monday is taken, and the fourth falls beyond the booking window
+      documents[`slotLocks/practitioner_prac-1_${start.getTime() + 2 * week}`] = {
+        appointmentId: 'other',
+      };
+
+      const result = await repository.createAppointmentSeries(input);
+
+      expect(result.appointments.map(({ id }) => id)).toEqual(['apt-1', 'apt-2', 'apt-3']);
+      expect(result.appointments.map(({ seriesId, seriesIndex }) => [seriesId, seriesIndex])).toEqual([
+        ['apt-1', 0],
+        ['apt-1', 1],
+        ['apt-1', 3],
+      ]);
+      expect(result.appointments[2]).toMatchObject({ recurrence: input.recurrence });
+      expect(result.skipped).toEqual([
+        expect.objectContaining({
+          index: 2,
+          conflict: 'The practitioner is already booked at this time',
+        }),
+      ]);
+    });
+
+    it('should throw SeriesConflictError when no occurrence is free', async () => {
+      for (let index = 0; index < 4; index++) {
+        documents[`slotLocks/client_client-1_${start.getTime() + index * week}`] = {
+          appointmentId: 'other',
+        };
+      }
+
+      const promise = repository.createAppointmentSeries(input);
+
+      await expect(promise).rejects.toBeInstanceOf(SeriesConflictError);
+      await expect(promise).rejects.toMatchObject({
+        conflicts: [
+          expect.objectContaining({ conflict: 'You already have an appointment at this time' }),
+          expect.anything(),
+          expect.anything(),
+          expect.anything(),
+        ],
+      });
+      expect(mockRunTransaction).not.toHaveBeenCalled();
+    });
+
+    describe('scoped changes', () => {
+      const member = (id: string, index: number, status = 'confirmed') => ({
+        id,
+        clientId: 'client-1',
+        practitionerId: 'prac-1',
+        seriesId: 'apt-1',
+        seriesIndex: index,
+        status,
+        ...at(start.getTime() + index * week),
+      });
+      const series = [
+        member('apt-1', 0),
+        member('apt-2', 1),
+        member('apt-3', 2, 'cancelled'),
+        member('apt-4', 3),
+      ];
+
+      beforeEach(() => {
+        series.forEach(({ id, ...data }) => {
+          documents[`appointments/${id}`] = data;
+        });
+        mockGetDocs.mockResolvedValue({
+          docs: series.map(({ id, ...data }) => ({ id, data: () => data })),
+        } as any);
+      });
+
+      it('should move this and the following appointments, latest first', async () => {
+        const reschedule = jest
+          .spyOn(repository, 'rescheduleAppointment')
+          .mockImplementation(async (id, moved) => ({ id, ...moved }) as any);
+
+        // Monday 09:00 to Tuesday 10:00 in New York
+        const moved = at(start.getTime() + week + 25 * hour);
+        const result = await repository.rescheduleAppointmentSeries('apt-2', 'following', {
+          ...moved,
+          requestedBy: 'practitioner',
+        });
+
+        expect(reschedule.mock.calls.map(([id, { startTime }]) => [id, startTime.toDate()])).toEqual([
+          ['apt-4', new Date(start.getTime() + 3 * week + 25 * hour)],
+          ['apt-2', new Date(start.getTime() + week + 25 * hour)],
+        ]);
+        expect(result.map(({ id }) => id)).toEqual(['apt-2', 'apt-4']);
+      });
+
+      it('should move nothing when any appointment in scope conflicts', async () => {
+        const reschedule = jest.spyOn(repository, 'rescheduleAppointment');
+        documents[`slotLocks/client_client-1_${start.getTime() + 3 * week + 25 * hour}`] = {
+          appointmentId: 'other',
+        };
+
+        const promise = repository.rescheduleAppointmentSeries('apt-1', 'all', {
+          ...at(start.getTime() + 25 * hour),
+          requestedBy: 'client',
+        });
+
+        await expect(promise).rejects.toMatchObject({
+          name: 'SeriesConflictError',
+          conflicts: [
+            expect.objectContaining({
+              index: 3,
+              conflict: 'You already have an appointment at this time',
+            }),
+          ],
+        });
+        expect(reschedule).not.toHaveBeenCalled();
+      });
+
+      it('should cancel the upcoming active appointments of the whole series', async () => {
+        const updateStatus = jest
+          .spyOn(repository, 'updateAppointmentStatus')
+          .mockImplementation(async (id, status) => ({ id, status }) as any);
+
+        const result = await repository.updateAppointmentSeriesStatus(
+          'apt-4',
+          'all',
+          'cancelled',
+          'client'
+        );
+
+        expect(updateStatus.mock.calls.map(([id]) => id)).toEqual(['apt-1', 'apt-2', 'apt-4']);
+        expect(result).toHaveLength(3);
+      });
+
+      it('should reject a change no appointment in scope allows', async () => {
+        jest.spyOn(repository, 'updateAppointmentStatus');
+
+        await expect(
+          repository.updateAppointmentSeriesStatus('apt-2', 'following', 'confirmed', 'client')
+        ).rejects.toBeInstanceOf(InvalidStatusTransitionError);
+        expect(repository.updateAppointmentStatus).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
@@ -0,0 +1,345 @@
+/**
+ * Tests for IntakeFormRepository
+ */
+
+import { IntakeFormRepository } from '../IntakeFormRepository';
+import { addDoc, doc, getDoc, getDocs, updateDoc, writeBatch } from 'firebase/firestore';
+import type { IntakeFormField, IntakeFormScoring } from '@/types/firestore';
+
+jest.mock('firebase/firestore', () => ({
+  addDoc: jest.fn(),
+  collection: jest.fn(),
+  doc: jest.fn(),
+  getDoc: jest.fn(),
+  getDocs: jest.fn(),
+  updateDoc: jest.fn(),
+  query: jest.fn(),
+  where: jest.fn(),
+  orderBy: jest.fn(),
+  onSnapshot: jest.fn(),
+  writeBatch: jest.fn(),
+  serverTimestamp: jest.fn(() => ({ seconds: 1234567890, nanoseconds: 0 })),
+}));
+jest.mock('@/lib/firebase/client', () => ({
+  db: {},
+}));
+
+const mockAddDoc = addDoc as jest.MockedFunction<typeof addDoc>;
+const mockDoc = doc as jest.MockedFunction<typeof doc>;
+const mockGetDoc = getDoc as jest.MockedFunction<typeof getDoc>;
+const mockGetDocs = getDocs as jest.MockedFunction<typeof getDocs>;
+const mockUpdateDoc = updateDoc as jest.MockedFunction<typeof updateDoc>;
+const mockWriteBatch = writeBatch as jest.MockedFunction<typeof writeBatch>;
+
+const goals: IntakeFormField = {
+  id: 'goals',
+  type: 'textarea',
+  label: 'What brings you here?',
+  required: true,
+};
+
+const template = {
+  practitionerId: 'practitioner-1',
+  type: 'template',
+  title: 'New client intake',
+  description: null,
+  fields: [goals],
+  isActive: true,
+};
+
+const mood: IntakeFormField = {
+  id: 'mood',
+  type: 'radio',
+  label: 'Feeling down',
+  required: true,
+  options: ['Never', 'Sometimes', 'Often'],
+};
+
+const scoring: IntakeFormScoring = {
+  points: { mood: [0, 1, 2] },
+  bands: [
+    { min: 0, max: 0, label: 'None' },
+    { min: 1, max: 2, label: 'Some' },
+  ],
+};
+
+const questionnaire = {
+  ...template,
+  title: 'Mood check',
+  fields: [mood],
+  questionnaireId: 'mood-check',
+  scoring,
+};
+
+describe('IntakeFormRepository', () => {
+  let repository: IntakeFormRepository;
+  const mockFirestore = {} as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository = new IntakeFormRepository(mockFirestore);
+    mockDoc.mockReturnValue({ id: 'form-1' } as any);
+  });
+
+  describe('createTemplate', () => {
+    it('should save a normalized, active template', async () => {
+      mockAddDoc.mockResolvedValueOnce({ id: 'form-1' } as any);
+      mockGetDoc.mockResolvedValueOnce({
+        exists: () => true,
+        id: 'form-1',
+        data: () => template,
+      } as any);
+
+      const result = await repository.createTemplate({
+        practitionerId: 'practitioner-1',
+        title: ' New client intake ',
+        description: '  ',
+        fields: [{ ...goals, options: ['Unused'], validation: { max: 2000 } }],
+      });
+
+      expect(mockAddDoc).toHaveBeenCalledWith(undefined, {
+        ...template,
+        sections: [],
+        fields: [{ ...goals, validation: { max: 2000 } }],
+        version: 1,
+        questionnaireId: null,
+        scoring: null,
+        createdAt: expect.anything(),
+        updatedAt: expect.anything(),
+      });
+      expect(result.id).toBe('form-1');
+    });
+
+    it('should reject an invalid template', async () => {
+      await expect(
+        repository.createTemplate({
+          practitionerId: 'practitioner-1',
+          title: 'New client intake',
+          fields: [],
+        })
+      ).rejects.toThrow('Add at least one question');
+      expect(mockAddDoc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateTemplate', () => {
+    it('should validate the updated fields against the stored title', async () => {
+      mockGetDoc.mockResolvedValueOnce({
+        exists: () => true,
+        id: 'form-1',
+        data: () => template,
+      } as any);
+
+      await expect(
+        repository.updateTemplate('form-1', {
+          fields: [{ ...goals, type: 'radio', options: ['Only one'] }],
+        })
+      ).rejects.toThrow('Question 1: Add at least two options');
+      expect(mockUpdateDoc).not.toHaveBeenCalled();
+    });
+
+    it('should raise the version when the questions change', async () => {
+      mockGetDoc
+        .mockResolvedValueOnce({ exists: () => true, id: 'form-1', data: () => template } as any)
+        .mockResolvedValueOnce({ exists: () => true, id: 'form-1', data: () => template } as any);
+
+      await repository.updateTemplate('form-1', {
+        fields: [goals, { id: 'email', type: 'email', label: 'Email', required: true }],
+      });
+
+      expect(mockUpdateDoc).toHaveBeenCalledWith(
+        { id: 'form-1' },
+        expect.objectContaining({ version: 2 })
+      );
+    });
+
+    it('should keep the version when only the title changes', async () => {
+      mockGetDoc
+        .mockResolvedValueOnce({
+          exists: () => true,
+          id: 'form-1',
+          data: () => ({ ...template, version: 3 }),
+        } as any)
+        .mockResolvedValueOnce({ exists: () => true, id: 'form-1', data: () => template } as any);
+
+      await repository.updateTemplate('form-1', { title: 'Welcome form', fields: [goals] });
+
+      expect(mockUpdateDoc).toHaveBeenCalledWith(
+        { id: 'form-1' },
+        expect.not.objectContaining({ version: expect.anything() })
+      );
+    });
+
+    it('should not change the questions of a scored questionnaire', async () => {
+      mockGetDoc.mockResolvedValueOnce({
+        exists: () => true,
+        id: 'form-1',
+        data: () => questionnaire,
+      } as any);
+
+      await expect(
+        repository.updateTemplate('form-1', { fields: [{ ...mood, label: 'Feeling low' }] })
+      ).rejects.toThrow('The questions of a scored questionnaire cannot be changed');
+      expect(mockUpdateDoc).not.toHaveBeenCalled();
+    });
+
+    it('should not change submitted forms', async () => {
+      mockGetDoc.mockResolvedValueOnce({
+        exists: () => true,
+        id: 'form-1',
+        data: () => ({ ...template, type: 'submitted' }),
+      } as any);
+
+      await expect(repository.setTemplateActive('form-1', false)).rejects.toThrow(
+        'Submitted intake forms cannot be changed'
+      );
+      expect(mockUpdateDoc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('submitForm', () => {
+    const appointment = {
+      clientId: 'client-1',
+      practitionerId: 'practitioner-1',
+      status: 'pending',
+      intakeFormCompleted: false,
+    };
+    const batch = { set: jest.fn(), update: jest.fn(), commit: jest.fn() };
+
+    beforeEach(() => {
+      mockWriteBatch.mockReturnValue(batch as any);
+      mockDoc
+        .mockReturnValueOnce({ id: 'template-1' } as any)
+        .mockReturnValueOnce({ id: 'apt-1' } as any)
+        .mockReturnValueOnce({ id: 'submitted-1' } as any);
+      mockGetDoc
+        .mockResolvedValueOnce({ exists: () => true, id: 'template-1', data: () => template } as any)
+        .mockResolvedValueOnce({ exists: () => true, id: 'apt-1', data: () => appointment } as any);
+    });
+
+    it('should save the answers with a copy of the template and link the appointment', async () => {
+      mockGetDoc.mockResolvedValueOnce({
+        exists: () => true,
+        id: 'submitted-1',
+        data: () => ({ ...template, type: 'submitted' }),
+      } as any);
+
+      await repository.submitForm({
+        templateId: 'template-1',
+        appointmentId: 'apt-1',
+        clientId: 'client-1',
+        responses: { goals: '  Sleeping better  ' },
+      });
+
+      expect(batch.set).toHaveBeenCalledWith(
+        { id: 'submitted-1' },
+        expect.objectContaining({
+          type: 'submitted',
+          templateId: 'template-1',
+          appointmentId: 'apt-1',
+          practitionerId: 'practitioner-1',
+          sections: [],
+          fields: [goals],
+          version: 1,
+          responses: { goals: 'Sleeping better' },
+          submittedBy: 'client-1',
+        })
+      );
+      expect(batch.update).toHaveBeenCalledWith(
+        { id: 'apt-1' },
+        expect.objectContaining({ intakeFormCompleted: true, intakeFormId: 'submitted-1' })
+      );
+      expect(batch.commit).toHaveBeenCalled();
+    });
+
+    it('should reject invalid answers', async () => {
+      await expect(
+        repository.submitForm({
+          templateId: 'template-1',
+          appointmentId: 'apt-1',
+          clientId: 'client-1',
+          responses: { goals: '' },
+        })
+      ).rejects.toThrow('This question is required');
+      expect(batch.commit).not.toHaveBeenCalled();
+    });
+
+    it("should not submit for another client's appointment", async () => {
+      await expect(
+        repository.submitForm({
+          templateId: 'template-1',
+          appointmentId: 'apt-1',
+          clientId: 'client-2',
+          responses: { goals: 'Sleeping better' },
+        })
+      ).rejects.toThrow('Appointment not found: apt-1');
+      expect(batch.commit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('submitForm for a scored questionnaire', () => {
+    const appointment = {
+      clientId: 'client-1',
+      practitionerId: 'practitioner-1',
+      status: 'confirmed',
+      intakeFormCompleted: true,
+    };
+    const batch = { set: jest.fn(), update: jest.fn(), commit: jest.fn() };
+    const input = {
+      templateId: 'template-2',
+      appointmentId: 'apt-1',
+      clientId: 'client-1',
+      responses: { mood: 'Often' },
+    };
+
+    beforeEach(() => {
+      // Drop values queued for calls earlier tests never reached
+      mockDoc.mockReset();
+      mockGetDoc.mockReset();
+      mockWriteBatch.mockReturnValue(batch as any);
+      mockDoc
+        .mockReturnValueOnce({ id: 'template-2' } as any)
+        .mockReturnValueOnce({ id: 'apt-1' } as any)
+        .mockReturnValueOnce({ id: 'submitted-2' } as any);
+      mockGetDoc
+        .mockResolvedValueOnce({
+          exists: () => true,
+          id: 'template-2',
+          data: () => questionnaire,
+        } as any)
+        .mockResolvedValueOnce({ exists: () => true, id: 'apt-1', data: () => appointment } as any);
+    });
+
+    it('should store the score without changing the appointment', async () => {
+      mockGetDocs.mockResolvedValueOnce({ empty: true, docs: [] } as any);
+      mockGetDoc.mockResolvedValueOnce({
+        exists: () => true,
+        id: 'submitted-2',
+        data: () => ({ ...questionnaire, type: 'submitted' }),
+      } as any);
+
+      await repository.submitForm(input);
+
+      expect(batch.set).toHaveBeenCalledWith(
+        { id: 'submitted-2' },
+        expect.objectContaining({
+          questionnaireId: 'mood-check',
+          scoring,
+          responses: { mood: 'Often' },
+          score: { total: 2, max: 2, severity: 'Some' },
+        })
+      );
+      expect(batch.update).not.toHaveBeenCalled();
+      expect(batch.commit).toHaveBeenCalled();
+    });
+
+    it('should only accept one submission per appointment', async () => {
+      mockGetDocs.mockResolvedValueOnce({ empty: false, docs: [{ id: 'submitted-1' }] } as any);
+
+      await expect(repository.submitForm(input)).rejects.toThrow(
+        'This questionnaire has already been submitted for this appointment'
+      );
+      expect(batch.commit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests for InvoiceRepository, against an in-memory Firestore whose
+ * transactions retry when a document they read changed before they commit,
+ * as Firestore's do
+ */
+
+import { InvoiceRepository } from '../InvoiceRepository';
+import type { IssueInvoiceInput } from '@/types/firestore';
+
+// Documents by path with a version bumped on every write, e.g. "invoices/appt-1"
+const mockStore = new Map<string, { data: Record<string, unknown>; version: number }>();
+
+jest.mock('firebase/firestore', () => {
+  type Ref = { path: string };
+  const snapshot = (path: string) => ({
+    id: path.split('/')[1],
+    exists: () => mockStore.has(path),
+    data: () => mockStore.get(path)?.data,
+  });
+  const version = (path: string) => mockStore.get(path)?.version ?? 0;
+  const write = (path: string, data: Record<string, unknown>) =>
+    mockStore.set(path, { data, version: version(path) + 1 });
+
+  return {
+    doc: (_db: unknown, name: string, id: string) => ({ id, path: `${name}/${id}` }),
+    getDoc: async (ref: Ref) => snapshot(ref.path),
+    runTransaction: async (
+      _db: unknown,
+      updateFunction: (transaction: unknown) => Promise<unknown>
+    ) => {
+      for (let attempt = 0; attempt < 10; attempt++) {
+        const reads = new Map<string, number>();
+        const writes: Array<() => void> = [];
+        const result = await updateFunction({
+          get: async (ref: Ref) => {
+            await Promise.resolve(); // Let concurrent transactions interleave
+            reads.set(ref.path, version(ref.path));
+            return snapshot(ref.path);
+          },
+          set: (ref: Ref, data: Record<string, unknown>) =>
+            writes.push(() => write(ref.path, { ...data })),
+          update: (ref: Ref, data: Record<string, unknown>) =>
+            writes.push(() => write(ref.path, { ...mockStore.get(ref.path)?.data, ...data })),
+        });
+
+        if ([...reads].every(([path, read]) => version(path) === read)) {
+          writes.forEach((apply) => apply());
+          return result;
+        }
+      }
+      throw new Error('Transaction failed after too many retries');
+    },
+    serverTimestamp: () => 'server-time',
+  };
+});
+jest.mock('@/lib/firebase/client', () => ({
+  db: {},
+}));
+
+const input = (appointmentId: string, practitionerId = 'prac-1') =>
+  ({
+    appointmentId,
+    practitionerId,
+    clientId: 'client-1',
+    total: 12000,
+  }) as IssueInvoiceInput;
+
+const book = (...appointmentIds: string[]) => {
+  for (const id of appointmentIds) {
+    mockStore.set(`appointments/${id}`, { data: { paymentStatus: 'paid' }, version: 1 });
+  }
+};
+
+describe('InvoiceRepository', () => {
+  let repository: InvoiceRepository;
+
+  beforeEach(() => {
+    mockStore.clear();
+    repository = new InvoiceRepository({} as any);
+  });
+
+  describe('issueInvoice', () => {
+    it('should number the first invoice and link it from the appointment', async () => {
+      book('appt-1');
+
+      const invoice = await repository.issueInvoice(input('appt-1'));
+
+      expect(invoice).toMatchObject({ id: 'appt-1', number: 'INV-000001', sequence: 1 });
+      expect(mockStore.get('appointments/appt-1')?.data.invoiceId).toBe('appt-1');
+      expect(mockStore.get('invoiceCounters/prac-1')?.data).toMatchObject({
+        lastSequence: 1,
+        lastInvoiceId: 'appt-1',
+      });
+    });
+
+    it('should return the existing invoice without using up a number', async () => {
+      book('appt-1', 'appt-2');
+      await repository.issueInvoice(input('appt-1'));
+
+      expect((await repository.issueInvoice(input('appt-1'))).sequence).toBe(1);
+      expect((await repository.issueInvoice(input('appt-2'))).sequence).toBe(2);
+    });
+
+    it('should number each practitioner separately', async () => {
+      book('appt-1', 'appt-2');
+      await repository.issueInvoice(input('appt-1'));
+
+      expect((await repository.issueInvoice(input('appt-2', 'prac-2'))).number).toBe(
+        'INV-000001'
+      );
+    });
+
+    it('should give invoices issued at the same time consecutive numbers', async () => {
+      const ids = ['appt-1', 'appt-2', 'appt-3', 'appt-4', 'appt-5'];
+      book(...ids);
+
+      const invoices = await Promise.all(ids.map((id) => repository.issueInvoice(input(id))));
+
+      expect(invoices.map(({ sequence }) => sequence).sort()).toEqual([1, 2, 3, 4, 5]);
+      expect(mockStore.get('invoiceCounters/prac-1')?.data.lastSequence).toBe(5);
+    });
+
+    it('should not issue invoices for missing appointments', async () => {
+      await expect(repository.issueInvoice(input('appt-missing'))).rejects.toThrow(
+        'Appointment not found: appt-missing'
+      );
+      expect(mockStore.has('invoiceCounters/prac-1')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Tests for PractitionerRepository
+ */
+
+import { PractitionerRepository } from '../PractitionerRepository';
+import { doc, getDoc, getDocs } from 'firebase/firestore';
+
+jest.mock('firebase/firestore', () => ({
+  collection: jest.fn(),
+  doc: jest.fn(),
+  getDoc: jest.fn(),
+  getDocs: jest.fn(),
+  setDoc: jest.fn(),
+  updateDoc: jest.fn(),
+  query: jest.fn(),
+  where: jest.fn(),
+  orderBy: jest.fn(),
+  limit: jest.fn(),
+  startAfter: jest.fn(),
+  serverTimestamp: jest.fn(() => ({ seconds: 1234567890, nanoseconds: 0 })),
+}));
+jest.mock('@/lib/firebase/client', () => ({
+  db: {},
+}));
+
+const mockDoc = doc as jest.MockedFunction<typeof doc>;
+const mockGetDoc = getDoc as jest.MockedFunction<typeof getDoc>;
+const mockGetDocs = getDocs as jest.MockedFunction<typeof getDocs>;
+
+const legacyPractitioner = {
+  uid: 'practitioner-1',
+  displayName: 'Dr. Smith',
+  availabilityRules: {
+    timezone: 'America/New_York',
+    workingHours: {
+      monday: { start: '09:00', end: '17:00', enabled: true },
+      saturday: { start: '10:00', end: '14:00', enabled: false },
+    },
+    minBookingNotice: 24,
+  },
+};
+
+const migratedWorkingHours = {
+  monday: { enabled: true, intervals: [{ start: '09:00', end: '17:00' }] },
+  saturday: { enabled: false, intervals: [{ start: '10:00', end: '14:00' }] },
+};
+
+describe('PractitionerRepository', () => {
+  let repository: PractitionerRepository;
+  const mockFirestore = {} as any;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    repository = new PractitionerRepository(mockFirestore);
+    mockDoc.mockReturnValue({ id: 'practitioner-1' } as any);
+  });
+
+  describe('getPractitioner', () => {
+    it('should upgrade single-block working hours to intervals', async () => {
+      mockGetDoc.mockResolvedValueOnce({
+        exists: () => true,
+        data: () => legacyPractitioner,
+      } as any);
+
+      const result = await repository.getPractitioner('practitioner-1');
+
+      expect(result?.availabilityRules).toEqual({
+        timezone: 'America/New_York',
+        workingHours: migratedWorkingHours,
+        minBookingNotice: 24,
+      });
+    });
+
+    it('should leave working hours that already use intervals unchanged', async () => {
+      const workingHours = {
+        monday: {
+          enabled: true,
+          intervals: [
+            { start: '09:00', end: '12:00' },
+            { start: '13:00', end: '17:00' },
+          ],
+        },
+      };
+      mockGetDoc.mockResolvedValueOnce({
+        exists: () => true,
+        data: () => ({
+          uid: 'practitioner-1',
+          availabilityRules: { timezone: 'Europe/London', workingHours },
+        }),
+      } as any);
+
+      const result = await repository.getPractitioner('practitioner-1');
+
+      expect(result?.availabilityRules.workingHours).toEqual(workingHours);
+    });
+
+    it('should return null when the practitioner does not exist', async () => {
+      mockGetDoc.mockResolvedValueOnce({ exists: () => false } as any);
+
+      expect(await repository.getPractitioner('missing')).toBeNull();
+    });
+  });
+
+  describe('listPractitioners', () => {
+    it('should upgrade working hours for every listed practitioner', async () => {
+      mockGetDocs.mockResolvedValueOnce({
+        docs: [{ data: () => legacyPractitioner }],
+      } as any);
+
+      const result = await repository.listPractitioners();
+
+      expect(result[0].availabilityRules.workingHours).toEqual(migratedWorkingHours);
+    });
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Tests for SessionRepository
+ */
+
+import { SessionRepository } from '../SessionRepository';
+import { doc, getDoc, updateDoc, writeBatch } from 'firebase/firestore';
+
+jest.mock('firebase/firestore', () => ({
+  arrayRemove: jest.fn((item) => ({ remove: item })),
+  arrayUnion: jest.fn((item) => ({ union: item })),
+  collection: jest.fn(),
+  doc: jest.fn(),
+  getDoc: jest.fn(),
+  getDocs: jest.fn(),
+  updateDoc: jest.fn(),
+  query: jest.fn(),
+  where: jest.fn(),
+  orderBy: jest.fn(),
+  writeBatch: jest.fn(),
+  serverTimestamp: jest.fn(() => ({ seconds: 1234567890, nanoseconds: 0 })),
+}));
+jest.mock('@/lib/firebase/client', () => ({
+  db: {},
+}));
+
+const mockDoc = doc as jest.MockedFunction<typeof doc>;
+const mockGetDoc = getDoc as jest.MockedFunction<typeof getDoc>;
+const mockUpdateDoc = updateDoc as jest.MockedFunction<typeof updateDoc>;
+const mockWriteBatch = writeBatch as jest.MockedFunction<typeof writeBatch>;
+
+const startTime = { seconds: 1772445600, nanoseconds: 0 };
+
+const appointment = {
+  clientId: 'client-1',
+  practitionerId: 'practitioner-1',
+  startTime,
+  status: 'completed',
+};
+
+const session = {
+  appointmentId: 'apt-1',
+  clientId: 'client-1',
+  practitionerId: 'practitioner-1',
+  sessionDate: startTime,
+  notes: 'Discussed sleep',
+  goals: [],
+  homework: [],
+  isDraft: true,
+};
+
+const snapshot = (id: string, data: object | undefined) =>
+  ({ exists: () => data !== undefined, id, data: () => data }) as any;
+
+describe('SessionRepository', () => {
+  let repository: SessionRepository;
+  const mockFirestore = {} as any;
+  const batch = { set: jest.fn(), update: jest.fn(), commit: jest.fn() };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGetDoc.mockReset();
+    repository = new SessionRepository(mockFirestore);
+    mockDoc.mockImplementation(((_: unknown, collection: string, id: string) => ({
+      path: `${collection}/${id}`,
+    })) as any);
+    mockWriteBatch.mockReturnValue(batch as any);
+  });
+
+  describe('startSession', () => {
+    it('should create draft notes for the appointment and link them to it', async () => {
+      mockGetDoc
+        .mockResolvedValueOnce(snapshot('apt-1', appointment))
+        .mockResolvedValueOnce(snapshot('apt-1', { ...session, notes: '' }));
+
+      const result = await repository.startSession('apt-1', 'practitioner-1');
+
+      expect(batch.set).toHaveBeenCalledWith(
+        { path: 'sessions/apt-1' },
+        expect.objectContaining({
+          appointmentId: 'apt-1',
+          clientId: 'client-1',
+          practitionerId: 'practitioner-1',
+          sessionDate: startTime,
+          notes: '',
+          goals: [],
+          homework: [],
+          isDraft: true,
+        })
+      );
+      expect(batch.update).toHaveBeenCalledWith(
+        { path: 'appointments/apt-1' },
+        expect.objectContaining({ sessionId: 'apt-1' })
+      );
+      expect(batch.commit).toHaveBeenCalled();
+      expect(result.id).toBe('apt-1');
+    });
+
+    it('should return notes that were already started', async () => {
+      mockGetDoc
+        .mockResolvedValueOnce(snapshot('apt-1', { ...appointment, sessionId: 'apt-1' }))
+        .mockResolvedValueOnce(snapshot('apt-1', session));
+
+      const result = await repository.startSession('apt-1', 'practitioner-1');
+
+      expect(result.notes).toBe('Discussed sleep');
+      expect(batch.commit).not.toHaveBeenCalled();
+    });
+
+    it('should only start notes for completed appointments', async () => {
+      mockGetDoc.mockResolvedValueOnce(snapshot('apt-1', { ...appointment, status: 'confirmed' }));
+
+      await expect(repository.startSession('apt-1', 'practitioner-1')).rejects.toThrow(
+        'Session notes can only be written for completed appointments'
+      );
+      expect(batch.commit).not.toHaveBeenCalled();
+    });
+
+    it("should not start notes for another practitioner's appointment", async () => {
+      mockGetDoc.mockResolvedValueOnce(snapshot('apt-1', appointment));
+
+      await expect(repository.startSession('apt-1', 'practitioner-2')).rejects.toThrow(
+        'Appointment not found: apt-1'
+      );
+      expect(batch.commit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateDraft', () => {
+    it('should save the notes with blank list items dropped', async () => {
+      mockGetDoc
+        .mockResolvedValueOnce(snapshot('apt-1', session))
+        .mockResolvedValueOnce(snapshot('apt-1', session));
+
+      await repository.updateDraft('apt-1', {
+        notes: 'Discussed sleep and work',
+        goals: [' Sleep by 11pm ', ''],
+        homework: ['Keep a sleep diary'],
+      });
+
+      expect(mockUpdateDoc).toHaveBeenCalledWith(
+        { path: 'sessions/apt-1' },
+        expect.objectContaining({
+          notes: 'Discussed sleep and work',
+          goals: ['Sleep by 11pm'],
+          homework: ['Keep a sleep diary'],
+        })
+      );
+    });
+
+    it('should render the notes from their sections', async () => {
+      mockGetDoc
+        .mockResolvedValueOnce(snapshot('apt-1', session))
+        .mockResolvedValueOnce(snapshot('apt-1', session));
+      const sections = [
+        { id: 'data', title: 'Data', content: 'Slept badly' },
+        { id: 'plan', title: 'Plan', content: 'Wind-down routine', isPlan: true },
+      ];
+
+      await repository.updateDraft('apt-1', { notes: 'Ignored', templateId: 'dap', sections });
+
+      expect(mockUpdateDoc).toHaveBeenCalledWith(
+        { path: 'sessions/apt-1' },
+        expect.objectContaining({
+          templateId: 'dap',
+          sections,
+          notes: 'Data\nSlept badly\n\nPlan\nWind-down routine',
+        })
+      );
+    });
+
+    it('should not change finalized notes', async () => {
+      mockGetDoc.mockResolvedValueOnce(snapshot('apt-1', { ...session, isDraft: false }));
+
+      await expect(repository.updateDraft('apt-1', { notes: 'Changed' })).rejects.toThrow(
+        'Finalized session notes cannot be changed'
+      );
+      expect(mockUpdateDoc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('finalizeSession', () => {
+    it('should lock the notes and share the goals and homework with the client', async () => {
+      mockGetDoc
+        .mockResolvedValueOnce(snapshot('apt-1', { ...session, homework: ['Walk daily'] }))
+        .mockResolvedValueOnce(snapshot('apt-1', { ...session, isDraft: false }));
+
+      const result = await repository.finalizeSession('apt-1');
+
+      expect(batch.update).toHaveBeenCalledWith(
+        { path: 'sessions/apt-1' },
+        expect.objectContaining({ isDraft: false })
+      );
+      expect(batch.set).toHaveBeenCalledWith(
+        { path: 'sharedSessions/apt-1' },
+        expect.objectContaining({
+          clientId: 'client-1',
+          goals: [],
+          homework: ['Walk daily'],
+          completedHomework: [],
+          clientNotes: null,
+        })
+      );
+      expect(batch.set.mock.calls[0][1]).not.toHaveProperty('notes');
+      expect(batch.commit).toHaveBeenCalled();
+      expect(result.isDraft).toBe(false);
+    });
+
+    it('should not finalize empty notes', async () => {
+      mockGetDoc.mockResolvedValueOnce(snapshot('apt-1', { ...session, notes: ' ' }));
+
+      await expect(repository.finalizeSession('apt-1')).rejects.toThrow(
+        'Write the session notes before finalizing them'
+      );
+      expect(batch.commit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('shared sessions', () => {
+    const shared = {
+      appointmentId: 'apt-1',
+      clientId: 'client-1',
+      practitionerId: 'practitioner-1',
+      sessionDate: startTime,
+      goals: [],
+      homework: ['Walk daily', 'Journal'],
+      completedHomework: [],
+      clientNotes: null,
+    };
+
+    it('should mark homework done', async () => {
+      mockGetDoc
+        .mockResolvedValueOnce(snapshot('apt-1', shared))
+        .mockResolvedValueOnce(snapshot('apt-1', { ...shared, completedHomework: ['Journal'] }));
+
+      const result = await repository.setHomeworkCompleted('apt-1', 'Journal', true);
+
+      expect(mockUpdateDoc).toHaveBeenCalledWith(
+        { path: 'sharedSessions/apt-1' },
+        expect.objectContaining({ completedHomework: { union: 'Journal' } })
+      );
+      expect(result.completedHomework).toEqual(['Journal']);
+    });
+
+    it('should only mark the session homework', async () => {
+      mockGetDoc.mockResolvedValueOnce(snapshot('apt-1', shared));
+
+      await expect(repository.setHomeworkCompleted('apt-1', 'Run', true)).rejects.toThrow(
+        'This homework is not part of the session'
+      );
+      expect(mockUpdateDoc).not.toHaveBeenCalled();
+    });
+
+    it("should save the client's reflections", async () => {
+      mockGetDoc
+        .mockResolvedValueOnce(snapshot('apt-1', shared))
+        .mockResolvedValueOnce(snapshot('apt-1', { ...shared, clientNotes: 'Felt better' }));
+
+      await repository.updateClientNotes('apt-1', '  Felt better ');
+
+      expect(mockUpdateDoc).toHaveBeenCalledWith(
+        { path: 'sharedSessions/apt-1' },
+        expect.objectContaining({ clientNotes: 'Felt better' })
+      );
+    });
+  });
+});
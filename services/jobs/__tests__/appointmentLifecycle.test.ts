@@ -0,0 +1,211 @@
+/**
+ * Tests for the appointment lifecycle job
+ */
+
+import {
+  listRefundsDue,
+  runAppointmentLifecycleJob,
+  type AppointmentLifecycleJobDependencies,
+} from '../appointmentLifecycle';
+import type { ListAppointmentsOptions } from '@/services/firestore/interfaces/IAppointmentRepository';
+import type { AppointmentDocument } from '@/types/firestore';
+import type { Timestamp } from 'firebase/firestore';
+
+jest.mock('firebase/firestore', () => ({
+  Timestamp: {
+    fromDate: jest.fn((date: Date) => ({ toDate: () => date })),
+  },
+}));
+jest.mock('@/lib/firebase/client', () => ({
+  db: {},
+}));
+jest.mock('@/services/firestore/repositories/AppointmentRepository', () => ({}));
+jest.mock('@/services/firestore/repositories/NotificationRepository', () => ({}));
+jest.mock('@/services/firestore/repositories/PractitionerRepository', () => ({}));
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const hour = 3600000;
+const now = new Date(Date.UTC(2025, 0, 6, 15, 0));
+
+const appointment = (
+  id: string,
+  status: AppointmentDocument['status'],
+  start: Date,
+  createdAt: Date = new Date(start.getTime() - 72 * hour)
+) =>
+  ({
+    id,
+    clientId: `client-${id}`,
+    practitionerId: 'prac-1',
+    status,
+    startTime: timestamp(start),
+    endTime: timestamp(new Date(start.getTime() + hour)),
+    createdAt: timestamp(createdAt),
+  }) as AppointmentDocument;
+
+describe('runAppointmentLifecycleJob', () => {
+  let dependencies: {
+    appointments: { listAppointments: jest.Mock; updateAppointmentStatus: jest.Mock };
+    practitioners: { getPractitioner: jest.Mock };
+    notifications: { createNotification: jest.Mock };
+  };
+
+  // Serve appointments from an in-memory list filtered by status
+  const withAppointments = (stored: AppointmentDocument[]) => {
+    dependencies.appointments.listAppointments.mockImplementation(
+      async (options: ListAppointmentsOptions) =>
+        stored.filter((candidate) => candidate.status === options.status)
+    );
+  };
+
+  const run = () =>
+    runAppointmentLifecycleJob(dependencies as unknown as AppointmentLifecycleJobDependencies, now);
+
+  beforeEach(() => {
+    dependencies = {
+      appointments: { listAppointments: jest.fn(), updateAppointmentStatus: jest.fn() },
+      practitioners: {
+        getPractitioner: jest.fn(async () => ({
+          displayName: 'Dr. Smith',
+          requestExpiryHours: 24,
+          availabilityRules: { timezone: 'America/New_York' },
+        })),
+      },
+      notifications: { createNotification: jest.fn() },
+    };
+  });
+
+  it('should complete confirmed sessions that have ended and notify the client', async () => {
+    withAppointments([
+      appointment('ended', 'confirmed', new Date(now.getTime() - 2 * hour)),
+      appointment('in-progress', 'confirmed', new Date(now.getTime() - hour / 2)),
+    ]);
+
+    const result = await run();
+
+    expect(result).toEqual({ completed: ['ended'], expired: [], failed: [] });
+    expect(dependencies.appointments.updateAppointmentStatus).toHaveBeenCalledWith(
+      'ended',
+      'completed',
+      'system'
+    );
+    expect(dependencies.notifications.createNotification).toHaveBeenCalledWith({
+      userId: 'client-ended',
+      type: 'appointment-completed',
+      title: 'Session completed',
+      message:
+        'Your session with Dr. Smith on Monday, January 6 at 8:00 AM EST has been marked as completed.',
+      appointmentId: 'ended',
+    });
+  });
+
+  it("should expire requests after the practitioner's window", async () => {
+    withAppointments([
+      appointment('stale', 'pending', new Date(now.getTime() + 72 * hour), new Date(now.getTime() - 25 * hour)),
+      appointment('fresh', 'pending', new Date(now.getTime() + 72 * hour), new Date(now.getTime() - 2 * hour)),
+    ]);
+
+    const result = await run();
+
+    expect(result).toEqual({ completed: [], expired: ['stale'], failed: [] });
+    expect(dependencies.appointments.updateAppointmentStatus).toHaveBeenCalledWith(
+      'stale',
+      'cancelled',
+      'system'
+    );
+    expect(dependencies.notifications.createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'client-stale', type: 'appointment-expired' })
+    );
+    expect(dependencies.practitioners.getPractitioner).toHaveBeenCalledTimes(1);
+  });
+
+  it('should tell clients when a waitlist offer they did not accept expires', async () => {
+    withAppointments([
+      {
+        ...appointment('offer', 'pending', new Date(now.getTime() + 4 * hour), new Date(now.getTime() - 3 * hour)),
+        waitlistOffer: {
+          entryId: 'entry-1',
+          expiresAt: timestamp(new Date(now.getTime() - hour)),
+          acceptedAt: null,
+          passedEntryIds: [],
+        },
+      },
+    ]);
+
+    const result = await run();
+
+    expect(result).toEqual({ completed: [], expired: ['offer'], failed: [] });
+    expect(dependencies.notifications.createNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'client-offer', type: 'waitlist-offer-expired' })
+    );
+  });
+
+  it('should report failures and carry on with the other appointments', async () => {
+    withAppointments([
+      appointment('taken', 'confirmed', new Date(now.getTime() - 3 * hour)),
+      appointment('ended', 'confirmed', new Date(now.getTime() - 2 * hour)),
+    ]);
+    dependencies.appointments.updateAppointmentStatus.mockRejectedValueOnce(
+      new Error('This appointment is already completed')
+    );
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await run();
+
+    expect(result).toEqual({
+      completed: ['ended'],
+      expired: [],
+      failed: [{ appointmentId: 'taken', error: 'This appointment is already completed' }],
+    });
+    expect(dependencies.notifications.createNotification).toHaveBeenCalledTimes(1);
+    consoleError.mockRestore();
+  });
+
+  it('should read every page of appointments', async () => {
+    const page = Array.from({ length: 100 }, (_, index) =>
+      appointment(`apt-${index}`, 'confirmed', new Date(now.getTime() + hour))
+    );
+    dependencies.appointments.listAppointments
+      .mockResolvedValueOnce(page)
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([]);
+
+    await run();
+
+    expect(dependencies.appointments.listAppointments).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ status: 'confirmed', startAfterDocId: 'apt-99' })
+    );
+  });
+});
+
+describe('listRefundsDue', () => {
+  it('should list cancelled sessions that were paid for but not refunded', async () => {
+    const start = new Date(now.getTime() + 24 * hour);
+    const listAppointments = jest.fn(async (options: ListAppointmentsOptions) =>
+      [
+        { ...appointment('unrefunded', 'cancelled', start), paymentStatus: 'paid' as const },
+        {
+          ...appointment('fee-kept', 'cancelled', start),
+          paymentStatus: 'paid' as const,
+          refund: { amount: 0, reason: 'late-cancellation' as const, refundId: null },
+        },
+        { ...appointment('confirmed', 'confirmed', start), paymentStatus: 'paid' as const },
+      ].filter(
+        (candidate) =>
+          candidate.status === options.status && candidate.paymentStatus === options.paymentStatus
+      )
+    );
+
+    const appointments = {
+      listAppointments,
+    } as unknown as AppointmentLifecycleJobDependencies['appointments'];
+
+    expect(await listRefundsDue(appointments)).toEqual(['unrefunded']);
+    expect(listAppointments).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'cancelled', paymentStatus: 'paid' })
+    );
+  });
+});
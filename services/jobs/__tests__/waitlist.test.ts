@@ -0,0 +1,225 @@
+/**
+ * Tests for the waitlist job
+ */
+
+import { runWaitlistJob, type WaitlistJobDependencies } from '../waitlist';
+import { SlotUnavailableError } from '@/services/firestore/errors';
+import type {
+  AppointmentDocument,
+  CreateWaitlistOfferInput,
+  WaitlistEntryDocument,
+} from '@/types/firestore';
+import type { Timestamp } from 'firebase/firestore';
+
+jest.mock('firebase/firestore', () => ({
+  Timestamp: {
+    fromDate: jest.fn((date: Date) => ({ toDate: () => date, toMillis: () => date.getTime() })),
+  },
+}));
+jest.mock('@/lib/firebase/client', () => ({
+  db: {},
+}));
+jest.mock('@/services/firestore/repositories/AppointmentRepository', () => ({}));
+jest.mock('@/services/firestore/repositories/NotificationRepository', () => ({}));
+jest.mock('@/services/firestore/repositories/PractitionerRepository', () => ({}));
+jest.mock('@/services/firestore/repositories/WaitlistRepository', () => ({}));
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const hour = 3600000;
+const now = new Date(Date.UTC(2025, 0, 6, 15, 0));
+// Wednesday, January 8, 10:00 in New York
+const freedStart = new Date(Date.UTC(2025, 0, 8, 15, 0));
+
+const cancelled = (id: string, overrides: Partial<AppointmentDocument> = {}) =>
+  ({
+    id,
+    clientId: 'client-cancelled',
+    practitionerId: 'prac-1',
+    status: 'cancelled',
+    startTime: timestamp(freedStart),
+    endTime: timestamp(new Date(freedStart.getTime() + hour)),
+    waitlistRelease: 'pending',
+    ...overrides,
+  }) as AppointmentDocument;
+
+const entry = (id: string, joined: Date, overrides: Partial<WaitlistEntryDocument> = {}) =>
+  ({
+    id,
+    practitionerId: 'prac-1',
+    clientId: `client-${id}`,
+    windows: [{ day: 'wednesday', start: '09:00', end: '12:00' }],
+    sessionType: { id: 'standard', name: 'Standard', duration: 50 },
+    status: 'waiting',
+    createdAt: timestamp(joined),
+    ...overrides,
+  }) as WaitlistEntryDocument;
+
+describe('runWaitlistJob', () => {
+  let dependencies: {
+    appointments: {
+      listAppointments: jest.Mock;
+      createWaitlistOffer: jest.Mock;
+      setWaitlistRelease: jest.Mock;
+    };
+    waitlist: {
+      getEntry: jest.Mock;
+      listWaitlist: jest.Mock;
+      markOffered: jest.Mock;
+      returnToWaiting: jest.Mock;
+    };
+    practitioners: { getPractitioner: jest.Mock };
+    notifications: { createNotification: jest.Mock };
+  };
+
+  const run = () => runWaitlistJob(dependencies as unknown as WaitlistJobDependencies, now);
+
+  beforeEach(() => {
+    dependencies = {
+      appointments: {
+        listAppointments: jest.fn(async () => []),
+        createWaitlistOffer: jest.fn(async (input: CreateWaitlistOfferInput) => ({
+          ...input,
+          id: `offer-${input.clientId}`,
+          status: 'pending',
+        })),
+        setWaitlistRelease: jest.fn(),
+      },
+      waitlist: {
+        getEntry: jest.fn(async () => null),
+        listWaitlist: jest.fn(async () => []),
+        markOffered: jest.fn(),
+        returnToWaiting: jest.fn(),
+      },
+      practitioners: {
+        getPractitioner: jest.fn(async () => ({
+          displayName: 'Dr. Smith',
+          waitlistHoldHours: 6,
+          availabilityRules: { timezone: 'America/New_York' },
+        })),
+      },
+      notifications: { createNotification: jest.fn() },
+    };
+  });
+
+  it('should offer a cancelled time to the oldest matching entry and notify them', async () => {
+    dependencies.appointments.listAppointments.mockResolvedValueOnce([cancelled('apt-1')]);
+    dependencies.waitlist.listWaitlist.mockResolvedValue([
+      entry('late', new Date(now.getTime() - hour)),
+      entry('early', new Date(now.getTime() - 48 * hour)),
+      entry('evenings', new Date(now.getTime() - 72 * hour), {
+        windows: [{ day: 'wednesday', start: '17:00', end: '20:00' }],
+      }),
+    ]);
+
+    const result = await run();
+
+    expect(result).toEqual({
+      offered: [{ releasedAppointmentId: 'apt-1', offerAppointmentId: 'offer-client-early', entryId: 'early' }],
+      unmatched: [],
+      failed: [],
+    });
+    expect(dependencies.appointments.listAppointments).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'cancelled', waitlistRelease: 'pending' })
+    );
+
+    const offer = dependencies.appointments.createWaitlistOffer.mock.calls[0][0];
+    expect(offer.clientId).toBe('client-early');
+    expect(offer.endTime.toDate()).toEqual(new Date(freedStart.getTime() + 50 * 60000));
+    expect(offer.waitlistOffer.expiresAt.toDate()).toEqual(new Date(now.getTime() + 6 * hour));
+    expect(dependencies.waitlist.markOffered).toHaveBeenCalledWith(
+      'early',
+      expect.objectContaining({ appointmentId: 'offer-client-early' })
+    );
+    expect(dependencies.appointments.setWaitlistRelease).toHaveBeenCalledWith('apt-1', 'offered');
+    expect(dependencies.notifications.createNotification).toHaveBeenCalledWith({
+      userId: 'client-early',
+      type: 'waitlist-offer',
+      title: 'A time has opened up',
+      message:
+        'A session with Dr. Smith on Wednesday, January 8 at 10:00 AM EST has opened up and is held for you until January 6 at 4:00 PM EST. Accept it from your dashboard to request the booking.',
+      appointmentId: 'offer-client-early',
+    });
+  });
+
+  it('should return a lapsed offer to the queue and offer the time to the next entry', async () => {
+    dependencies.appointments.listAppointments.mockResolvedValueOnce([
+      cancelled('offer-1', {
+        clientId: 'client-first',
+        waitlistOffer: {
+          entryId: 'first',
+          expiresAt: timestamp(now),
+          acceptedAt: null,
+          passedEntryIds: ['declined'],
+        },
+      }),
+    ]);
+    dependencies.waitlist.getEntry.mockResolvedValue(
+      entry('first', new Date(now.getTime() - 96 * hour), {
+        status: 'offered',
+        offer: { appointmentId: 'offer-1' } as WaitlistEntryDocument['offer'],
+      })
+    );
+    dependencies.waitlist.listWaitlist.mockResolvedValue([
+      entry('declined', new Date(now.getTime() - 72 * hour)),
+      entry('second', new Date(now.getTime() - 48 * hour)),
+    ]);
+
+    const result = await run();
+
+    expect(dependencies.waitlist.returnToWaiting).toHaveBeenCalledWith('first');
+    expect(result.offered).toEqual([
+      expect.objectContaining({ releasedAppointmentId: 'offer-1', entryId: 'second' }),
+    ]);
+    expect(
+      dependencies.appointments.createWaitlistOffer.mock.calls[0][0].waitlistOffer.passedEntryIds
+    ).toEqual(['first', 'declined']);
+  });
+
+  it('should skip clients who are busy and give up once the time is booked again', async () => {
+    dependencies.appointments.listAppointments.mockResolvedValueOnce([cancelled('apt-1')]);
+    dependencies.waitlist.listWaitlist.mockResolvedValue([
+      entry('busy', new Date(now.getTime() - 72 * hour)),
+      entry('next', new Date(now.getTime() - 48 * hour)),
+      entry('last', new Date(now.getTime() - 24 * hour)),
+    ]);
+    dependencies.appointments.createWaitlistOffer
+      .mockRejectedValueOnce(new SlotUnavailableError('client'))
+      .mockRejectedValueOnce(new SlotUnavailableError('practitioner'));
+
+    const result = await run();
+
+    expect(result).toEqual({ offered: [], unmatched: ['apt-1'], failed: [] });
+    expect(dependencies.appointments.createWaitlistOffer).toHaveBeenCalledTimes(2);
+    expect(dependencies.appointments.setWaitlistRelease).toHaveBeenCalledWith('apt-1', 'unmatched');
+    expect(dependencies.waitlist.markOffered).not.toHaveBeenCalled();
+  });
+
+  it('should not offer times that have already started', async () => {
+    dependencies.appointments.listAppointments.mockResolvedValueOnce([
+      cancelled('apt-1', { startTime: timestamp(new Date(now.getTime() - hour)) }),
+    ]);
+
+    const result = await run();
+
+    expect(result).toEqual({ offered: [], unmatched: ['apt-1'], failed: [] });
+    expect(dependencies.waitlist.listWaitlist).not.toHaveBeenCalled();
+  });
+
+  it('should report failures and leave the release pending', async () => {
+    dependencies.appointments.listAppointments.mockResolvedValueOnce([cancelled('apt-1')]);
+    dependencies.waitlist.listWaitlist.mockRejectedValue(new Error('Missing or insufficient permissions.'));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await run();
+
+    expect(result).toEqual({
+      offered: [],
+      unmatched: [],
+      failed: [{ appointmentId: 'apt-1', error: 'Missing or insufficient permissions.' }],
+    });
+    expect(dependencies.appointments.setWaitlistRelease).not.toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
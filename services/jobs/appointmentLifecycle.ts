@@ -0,0 +1,254 @@
+/**
+ * Appointment lifecycle job
+ *
+ * Scheduled job that moves appointments on when nobody else does: confirmed
+ * sessions that have ended are marked completed, and booking requests the
+ * practitioner has not answered within their requestExpiryHours are
+ * cancelled by 'system' (shown to users as expired), as are waitlist offers
+ * the client has not accepted in time. The client is sent a notification
+ * for each change. listRefundsDue finds cancelled sessions whose payment
+ * still needs refunding, for the route to sync along with the changes.
+ *
+ * Run through app/api/jobs/appointment-lifecycle/route.ts, signed in as the
+ * system account that firestore.rules lets make these changes.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import {
+  getRequestExpiryHours,
+  isRequestExpired,
+  isSessionEnded,
+} from '@/lib/scheduling/appointmentLifecycle';
+import { formatInTimeZone, getTimeZoneAbbreviation } from '@/lib/scheduling/timezone';
+import { isOpenWaitlistOffer } from '@/lib/scheduling/waitlist';
+import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import { notificationRepository } from '@/services/firestore/repositories/NotificationRepository';
+import { practitionerRepository } from '@/services/firestore/repositories/PractitionerRepository';
+import type {
+  IAppointmentRepository,
+  ListAppointmentsOptions,
+} from '@/services/firestore/interfaces/IAppointmentRepository';
+import type { INotificationRepository } from '@/services/firestore/interfaces/INotificationRepository';
+import type { IPractitionerRepository } from '@/services/firestore/interfaces/IPractitionerRepository';
+import type { AppointmentDocument, PractitionerDocument } from '@/types/firestore';
+
+/**
+ * Appointments read per query page
+ */
+const PAGE_SIZE = 100;
+
+const dateTimeFormat: Intl.DateTimeFormatOptions = {
+  weekday: 'long',
+  month: 'long',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+};
+
+/**
+ * Repositories the job works with
+ */
+export interface AppointmentLifecycleJobDependencies {
+  appointments: Pick<IAppointmentRepository, 'listAppointments' | 'updateAppointmentStatus'>;
+  practitioners: Pick<IPractitionerRepository, 'getPractitioner'>;
+  notifications: Pick<INotificationRepository, 'createNotification'>;
+}
+
+/**
+ * An appointment the job could not process
+ */
+export interface AppointmentLifecycleJobFailure {
+  appointmentId: string;
+  error: string;
+}
+
+/**
+ * What a run of the job changed
+ */
+export interface AppointmentLifecycleJobResult {
+  /**
+   * IDs of appointments marked completed
+   */
+  completed: string[];
+
+  /**
+   * IDs of pending requests that expired
+   */
+  expired: string[];
+
+  /**
+   * Appointments that failed to update or whose client was not notified
+   */
+  failed: AppointmentLifecycleJobFailure[];
+}
+
+const defaultDependencies: AppointmentLifecycleJobDependencies = {
+  appointments: appointmentRepository,
+  practitioners: practitionerRepository,
+  notifications: notificationRepository,
+};
+
+/**
+ * List every appointment matching the options, one page at a time
+ */
+export async function listAllAppointments(
+  appointments: Pick<IAppointmentRepository, 'listAppointments'>,
+  options: ListAppointmentsOptions
+): Promise<AppointmentDocument[]> {
+  const all: AppointmentDocument[] = [];
+  let startAfterDocId: string | undefined;
+
+  for (;;) {
+    const page = await appointments.listAppointments({ ...options, limit: PAGE_SIZE, startAfterDocId });
+    all.push(...page);
+    if (page.length < PAGE_SIZE) {
+      return all;
+    }
+    startAfterDocId = page[page.length - 1].id;
+  }
+}
+
+/**
+ * Start time of an appointment as shown in notifications, in the
+ * practitioner's time zone
+ */
+export function describeStartTime(
+  appointment: AppointmentDocument,
+  practitioner: PractitionerDocument | null
+): string {
+  const start = appointment.startTime.toDate();
+  const timeZone = practitioner?.availabilityRules?.timezone ?? 'UTC';
+  return `${formatInTimeZone(start, timeZone, dateTimeFormat, 'en-US')} ${getTimeZoneAbbreviation(start, timeZone, 'en-US')}`;
+}
+
+/**
+ * Complete ended sessions and expire stale requests
+ *
+ * Each appointment is processed on its own, so one failure (for example a
+ * practitioner recording an outcome at the same moment) does not stop the
+ * rest; failures are reported in the result and retried on the next run.
+ *
+ * @param dependencies - Repositories to use (defaults to the Firestore ones)
+ * @param now - Current time
+ * @returns What was changed
+ */
+export async function runAppointmentLifecycleJob(
+  dependencies: AppointmentLifecycleJobDependencies = defaultDependencies,
+  now: Date = new Date()
+): Promise<AppointmentLifecycleJobResult> {
+  const { appointments, practitioners, notifications } = dependencies;
+  const result: AppointmentLifecycleJobResult = { completed: [], expired: [], failed: [] };
+
+  const practitionerCache = new Map<string, Promise<PractitionerDocument | null>>();
+  const getPractitioner = (practitionerId: string) => {
+    if (!practitionerCache.has(practitionerId)) {
+      practitionerCache.set(practitionerId, practitioners.getPractitioner(practitionerId));
+    }
+    return practitionerCache.get(practitionerId)!;
+  };
+
+  const process = async (
+    appointment: AppointmentDocument,
+    change: 'completed' | 'expired'
+  ): Promise<void> => {
+    try {
+      await appointments.updateAppointmentStatus(
+        appointment.id,
+        change === 'completed' ? 'completed' : 'cancelled',
+        'system'
+      );
+      result[change].push(appointment.id);
+    } catch (err) {
+      console.error(`Error updating appointment ${appointment.id}:`, err);
+      result.failed.push({
+        appointmentId: appointment.id,
+        error: err instanceof Error ? err.message : 'Failed to update appointment',
+      });
+      return;
+    }
+
+    try {
+      const practitioner = await getPractitioner(appointment.practitionerId);
+      const when = describeStartTime(appointment, practitioner);
+      const withWhom = practitioner ? ` with ${practitioner.displayName}` : '';
+
+      await notifications.createNotification(
+        change === 'completed'
+          ? {
+              userId: appointment.clientId,
+              type: 'appointment-completed',
+              title: 'Session completed',
+              message: `Your session${withWhom} on ${when} has been marked as completed.`,
+              appointmentId: appointment.id,
+            }
+          : isOpenWaitlistOffer(appointment)
+          ? {
+              userId: appointment.clientId,
+              type: 'waitlist-offer-expired',
+              title: 'Waitlist offer expired',
+              message: `The time offered to you for ${when}${withWhom} was not accepted in time and has been released. You are still on the waitlist.`,
+              appointmentId: appointment.id,
+            }
+          : {
+              userId: appointment.clientId,
+              type: 'appointment-expired',
+              title: 'Booking request expired',
+              message: `Your request for ${when}${withWhom} was not confirmed in time and has expired. You can book another time.`,
+              appointmentId: appointment.id,
+            }
+      );
+    } catch (err) {
+      console.error(`Error notifying client of appointment ${appointment.id}:`, err);
+      result.failed.push({
+        appointmentId: appointment.id,
+        error: err instanceof Error ? err.message : 'Failed to notify client',
+      });
+    }
+  };
+
+  const confirmed = await listAllAppointments(appointments, {
+    status: 'confirmed',
+    startBefore: Timestamp.fromDate(now),
+  });
+  for (const appointment of confirmed.filter((candidate) => isSessionEnded(candidate, now))) {
+    await process(appointment, 'completed');
+  }
+
+  const pending = await listAllAppointments(appointments, { status: 'pending' });
+  for (const appointment of pending) {
+    let practitioner: PractitionerDocument | null;
+    try {
+      practitioner = await getPractitioner(appointment.practitionerId);
+    } catch (err) {
+      console.error(`Error loading practitioner for appointment ${appointment.id}:`, err);
+      result.failed.push({
+        appointmentId: appointment.id,
+        error: err instanceof Error ? err.message : 'Failed to load practitioner',
+      });
+      continue;
+    }
+
+    if (isRequestExpired(appointment, getRequestExpiryHours(practitioner), now)) {
+      await process(appointment, 'expired');
+    }
+  }
+
+  return result;
+}
+
+/**
+ * IDs of cancelled appointments whose captured payment has no refund
+ * recorded. Cancelling asks the server for the refund from the browser,
+ * which can fail or never be sent; syncing these retries it.
+ *
+ * @param appointments - Repository to use (defaults to the Firestore one)
+ */
+export async function listRefundsDue(
+  appointments: Pick<IAppointmentRepository, 'listAppointments'> = appointmentRepository
+): Promise<string[]> {
+  const cancelled = await listAllAppointments(appointments, {
+    status: 'cancelled',
+    paymentStatus: 'paid',
+  });
+  return cancelled.filter((appointment) => !appointment.refund).map(({ id }) => id);
+}
@@ -0,0 +1,266 @@
+/**
+ * Waitlist job
+ *
+ * Scheduled job that offers cancelled times to the practitioner's waitlist.
+ * Cancelling an upcoming appointment marks it with waitlistRelease
+ * 'pending'; for each such appointment the job books the time for the
+ * oldest matching waiting entry as a waitlist offer, held for the
+ * practitioner's waitlistHoldHours, and notifies the client. If an offer is
+ * declined or expires, its appointment is cancelled in turn and the time is
+ * offered to the next entry.
+ *
+ * Run through app/api/jobs/appointment-lifecycle/route.ts after the
+ * appointment lifecycle job, signed in as the system account (only it can
+ * read every waitlist and book for other clients).
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import {
+  findWaitlistMatches,
+  getWaitlistHoldHours,
+  getWaitlistOfferExpiresAt,
+} from '@/lib/scheduling/waitlist';
+import { formatInTimeZone, getTimeZoneAbbreviation } from '@/lib/scheduling/timezone';
+import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import { notificationRepository } from '@/services/firestore/repositories/NotificationRepository';
+import { practitionerRepository } from '@/services/firestore/repositories/PractitionerRepository';
+import { waitlistRepository } from '@/services/firestore/repositories/WaitlistRepository';
+import { SlotUnavailableError } from '@/services/firestore/errors';
+import { describeStartTime, listAllAppointments } from './appointmentLifecycle';
+import type { IAppointmentRepository } from '@/services/firestore/interfaces/IAppointmentRepository';
+import type { INotificationRepository } from '@/services/firestore/interfaces/INotificationRepository';
+import type { IPractitionerRepository } from '@/services/firestore/interfaces/IPractitionerRepository';
+import type { IWaitlistRepository } from '@/services/firestore/interfaces/IWaitlistRepository';
+import type {
+  AppointmentDocument,
+  PractitionerDocument,
+  WaitlistEntryDocument,
+} from '@/types/firestore';
+
+const expiryFormat: Intl.DateTimeFormatOptions = {
+  month: 'long',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: '2-digit',
+};
+
+/**
+ * Repositories the job works with
+ */
+export interface WaitlistJobDependencies {
+  appointments: Pick<
+    IAppointmentRepository,
+    'listAppointments' | 'createWaitlistOffer' | 'setWaitlistRelease'
+  >;
+  waitlist: Pick<
+    IWaitlistRepository,
+    'getEntry' | 'listWaitlist' | 'markOffered' | 'returnToWaiting'
+  >;
+  practitioners: Pick<IPractitionerRepository, 'getPractitioner'>;
+  notifications: Pick<INotificationRepository, 'createNotification'>;
+}
+
+/**
+ * A cancelled time offered to a waitlist entry
+ */
+export interface WaitlistJobOffer {
+  /**
+   * Cancelled appointment whose time was offered
+   */
+  releasedAppointmentId: string;
+
+  /**
+   * Appointment holding the time for the entry's client
+   */
+  offerAppointmentId: string;
+
+  entryId: string;
+}
+
+/**
+ * A cancelled appointment the job could not process
+ */
+export interface WaitlistJobFailure {
+  appointmentId: string;
+  error: string;
+}
+
+/**
+ * What a run of the job changed
+ */
+export interface WaitlistJobResult {
+  /**
+   * Times offered to a waitlisted client
+   */
+  offered: WaitlistJobOffer[];
+
+  /**
+   * IDs of cancelled appointments whose time nobody on the waitlist could take
+   */
+  unmatched: string[];
+
+  /**
+   * Appointments that failed to process or whose client was not notified
+   */
+  failed: WaitlistJobFailure[];
+}
+
+const defaultDependencies: WaitlistJobDependencies = {
+  appointments: appointmentRepository,
+  waitlist: waitlistRepository,
+  practitioners: practitionerRepository,
+  notifications: notificationRepository,
+};
+
+/**
+ * Offer released times to the waitlist
+ *
+ * Each released appointment is processed on its own; failures are reported
+ * in the result and retried on the next run, as the appointment's release
+ * stays 'pending'.
+ *
+ * @param dependencies - Repositories to use (defaults to the Firestore ones)
+ * @param now - Current time
+ * @returns What was offered
+ */
+export async function runWaitlistJob(
+  dependencies: WaitlistJobDependencies = defaultDependencies,
+  now: Date = new Date()
+): Promise<WaitlistJobResult> {
+  const { appointments, waitlist, practitioners, notifications } = dependencies;
+  const result: WaitlistJobResult = { offered: [], unmatched: [], failed: [] };
+
+  const released = await listAllAppointments(appointments, {
+    status: 'cancelled',
+    waitlistRelease: 'pending',
+  });
+
+  for (const appointment of released) {
+    let practitioner: PractitionerDocument | null = null;
+    let offer: { appointment: AppointmentDocument; entry: WaitlistEntryDocument } | null = null;
+
+    try {
+      // An offer that was declined or expired: its client keeps their place
+      // and the time goes to the next entry
+      const lapsedOffer =
+        appointment.waitlistOffer?.acceptedAt == null ? appointment.waitlistOffer : null;
+      const passedEntryIds = lapsedOffer
+        ? [lapsedOffer.entryId, ...lapsedOffer.passedEntryIds]
+        : [];
+
+      if (lapsedOffer) {
+        const entry = await waitlist.getEntry(lapsedOffer.entryId);
+        if (entry?.status === 'offered' && entry.offer?.appointmentId === appointment.id) {
+          await waitlist.returnToWaiting(entry.id);
+        }
+      }
+
+      if (appointment.startTime.toDate() > now) {
+        practitioner = await practitioners.getPractitioner(appointment.practitionerId);
+      }
+
+      if (practitioner) {
+        const entries = await waitlist.listWaitlist({
+          practitionerId: appointment.practitionerId,
+          status: 'waiting',
+        });
+        const matches = findWaitlistMatches(
+          entries,
+          { start: appointment.startTime.toDate(), end: appointment.endTime.toDate() },
+          practitioner.availabilityRules?.timezone ?? 'UTC',
+          passedEntryIds,
+          [appointment.clientId]
+        );
+        const expiresAt = Timestamp.fromDate(
+          getWaitlistOfferExpiresAt(
+            appointment.startTime.toDate(),
+            getWaitlistHoldHours(practitioner),
+            now
+          )
+        );
+
+        for (const { entry, slot } of matches) {
+          try {
+            const booked = await appointments.createWaitlistOffer({
+              clientId: entry.clientId,
+              practitionerId: appointment.practitionerId,
+              startTime: Timestamp.fromDate(slot.start),
+              endTime: Timestamp.fromDate(slot.end),
+              notes: entry.notes ?? null,
+              sessionType: entry.sessionType,
+              quotedPrice: entry.quotedPrice ?? null,
+              currency: entry.currency ?? null,
+              pricingTier: entry.pricingTier ?? null,
+              cancellationPolicy: practitioner.cancellationPolicy ?? null,
+              waitlistOffer: { entryId: entry.id, expiresAt, acceptedAt: null, passedEntryIds },
+            });
+            offer = { appointment: booked, entry };
+            break;
+          } catch (err) {
+            if (!(err instanceof SlotUnavailableError)) {
+              throw err;
+            }
+            // Booked again before the waitlist got to it
+            if (err.conflictWith === 'practitioner') {
+              break;
+            }
+            // Otherwise the client is busy then: try the next entry
+          }
+        }
+
+        if (offer) {
+          await waitlist.markOffered(offer.entry.id, {
+            appointmentId: offer.appointment.id,
+            startTime: offer.appointment.startTime,
+            endTime: offer.appointment.endTime,
+            expiresAt,
+          });
+        }
+      }
+
+      await appointments.setWaitlistRelease(appointment.id, offer ? 'offered' : 'unmatched');
+    } catch (err) {
+      console.error(`Error offering appointment ${appointment.id} to the waitlist:`, err);
+      result.failed.push({
+        appointmentId: appointment.id,
+        error: err instanceof Error ? err.message : 'Failed to offer to the waitlist',
+      });
+      continue;
+    }
+
+    if (!offer) {
+      result.unmatched.push(appointment.id);
+      continue;
+    }
+
+    result.offered.push({
+      releasedAppointmentId: appointment.id,
+      offerAppointmentId: offer.appointment.id,
+      entryId: offer.entry.id,
+    });
+
+    try {
+      const when = describeStartTime(offer.appointment, practitioner);
+      const timeZone = practitioner?.availabilityRules?.timezone ?? 'UTC';
+      const expires = offer.appointment.waitlistOffer!.expiresAt.toDate();
+      const until = `${formatInTimeZone(expires, timeZone, expiryFormat, 'en-US')} ${getTimeZoneAbbreviation(expires, timeZone, 'en-US')}`;
+
+      await notifications.createNotification({
+        userId: offer.entry.clientId,
+        type: 'waitlist-offer',
+        title: 'A time has opened up',
+        message: `A session with ${practitioner!.displayName} on ${when} has opened up and is held for you until ${until}. Accept it from your dashboard to request the booking.`,
+        appointmentId: offer.appointment.id,
+      });
+    } catch (err) {
+      console.error(`Error notifying client of waitlist offer ${offer.appointment.id}:`, err);
+      result.failed.push({
+        appointmentId: offer.appointment.id,
+        error: err instanceof Error ? err.message : 'Failed to notify client',
+      });
+    }
+  }
+
+  return result;
+}
+
@@ -0,0 +1,99 @@
+/**
+ * Tests for the mock payment gateway
+ *
+ * @jest-environment node
+ */
+
+import { MockPaymentGateway } from '../gateways/MockPaymentGateway';
+
+const input = {
+  amount: 12000,
+  currency: 'USD',
+  metadata: { appointmentId: 'appt-1' },
+  idempotencyKey: 'appointment-appt-1',
+};
+
+describe('MockPaymentGateway', () => {
+  let gateway: MockPaymentGateway;
+
+  beforeEach(() => {
+    gateway = new MockPaymentGateway();
+  });
+
+  it('should authorize new intents and return the same intent for retries', async () => {
+    const intent = await gateway.createIntent(input);
+
+    expect(intent).toMatchObject({ amount: 12000, currency: 'usd', status: 'requires_capture' });
+    expect((await gateway.createIntent(input)).id).toBe(intent.id);
+    expect((await gateway.createIntent({ ...input, idempotencyKey: 'other' })).id).not.toBe(
+      intent.id
+    );
+  });
+
+  it('should only capture authorized intents', async () => {
+    const manual = new MockPaymentGateway({ autoAuthorize: false });
+    const intent = await manual.createIntent(input);
+
+    await expect(manual.captureIntent(intent.id)).rejects.toThrow(
+      'Payment cannot be captured (requires_payment_method)'
+    );
+    await manual.authorizeIntent(intent.id);
+    expect((await manual.captureIntent(intent.id)).status).toBe('succeeded');
+    await expect(manual.cancelIntent(intent.id)).rejects.toThrow(
+      'Payment cannot be cancelled (succeeded)'
+    );
+  });
+
+  it('should refund up to the captured amount', async () => {
+    const intent = await gateway.createIntent(input);
+    await expect(gateway.refund(intent.id)).rejects.toThrow(
+      'Payment cannot be refunded (requires_capture)'
+    );
+    await gateway.captureIntent(intent.id);
+
+    expect(await gateway.refund(intent.id, { amount: 2000 })).toMatchObject({
+      amount: 2000,
+      status: 'succeeded',
+    });
+    await expect(gateway.refund(intent.id, { amount: 20000 })).rejects.toThrow(
+      'Refund amount is more than what is left to refund'
+    );
+    expect((await gateway.refund(intent.id)).amount).toBe(10000);
+    expect((await gateway.getIntent(intent.id))?.amountRefunded).toBe(12000);
+  });
+
+  it('should return the same refund for retries', async () => {
+    const intent = await gateway.createIntent(input);
+    await gateway.captureIntent(intent.id);
+
+    const refund = await gateway.refund(intent.id, { amount: 3000, idempotencyKey: 'refund-1' });
+
+    expect(await gateway.refund(intent.id, { amount: 3000, idempotencyKey: 'refund-1' })).toEqual(
+      refund
+    );
+    expect((await gateway.getIntent(intent.id))?.amountRefunded).toBe(3000);
+  });
+
+  it('should send signed webhook events it can verify', async () => {
+    const intent = await gateway.createIntent(input);
+    const { payload, signature } = gateway.createWebhookEvent(
+      'payment_intent.succeeded',
+      intent.id
+    );
+
+    expect(await gateway.verifyWebhook(payload, signature)).toMatchObject({
+      type: 'payment.captured',
+      paymentIntentId: intent.id,
+    });
+    await expect(gateway.verifyWebhook(payload, null)).rejects.toThrow(
+      'Missing webhook signature'
+    );
+  });
+
+  it('should report unknown intents', async () => {
+    expect(await gateway.getIntent('pi_missing')).toBeNull();
+    await expect(gateway.captureIntent('pi_missing')).rejects.toThrow(
+      'Payment not found: pi_missing'
+    );
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for the Stripe payment gateway
+ *
+ * @jest-environment node
+ */
+
+import { StripePaymentGateway } from '../gateways/StripePaymentGateway';
+import { signStripePayload } from '../gateways/stripeWebhooks';
+
+const stripeIntent = (status: string) => ({
+  id: 'pi_1',
+  amount: 12000,
+  currency: 'usd',
+  status,
+  client_secret: 'pi_1_secret',
+  metadata: { appointmentId: 'appt-1' },
+  latest_charge: { amount_refunded: 0 },
+});
+
+// Answer every request with the given status and body
+const respond = (status: number, body: unknown) =>
+  jest.fn(async () => ({ ok: status < 400, status, json: async () => body }));
+
+const gatewayWith = (fetch: jest.Mock) =>
+  new StripePaymentGateway({
+    secretKey: 'sk_test_1',
+    webhookSecret: 'whsec_test',
+    apiBase: 'https://stripe.test',
+    fetch: fetch as unknown as typeof globalThis.fetch,
+  });
+
+describe('StripePaymentGateway', () => {
+  it('should create manually captured intents with an idempotency key', async () => {
+    const fetch = respond(200, stripeIntent('requires_payment_method'));
+
+    const intent = await gatewayWith(fetch).createIntent({
+      amount: 12000,
+      currency: 'USD',
+      metadata: { appointmentId: 'appt-1' },
+      idempotencyKey: 'appointment-appt-1',
+    });
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    const body = new URLSearchParams(init.body as string);
+    expect(url).toBe('https://stripe.test/v1/payment_intents');
+    expect(init.headers).toMatchObject({
+      Authorization: 'Bearer sk_test_1',
+      'Idempotency-Key': 'appointment-appt-1',
+    });
+    expect(body.get('capture_method')).toBe('manual');
+    expect(body.get('currency')).toBe('usd');
+    expect(body.get('metadata[appointmentId]')).toBe('appt-1');
+    expect(intent).toMatchObject({ id: 'pi_1', status: 'requires_payment_method' });
+  });
+
+  it('should report intents still with the client as requiring a payment method', async () => {
+    const intent = await gatewayWith(respond(200, stripeIntent('requires_action'))).getIntent(
+      'pi_1'
+    );
+
+    expect(intent?.status).toBe('requires_payment_method');
+  });
+
+  it('should return null for unknown intents and throw Stripe errors', async () => {
+    expect(
+      await gatewayWith(respond(404, { error: { message: 'No such payment_intent' } })).getIntent(
+        'pi_missing'
+      )
+    ).toBeNull();
+    await expect(
+      gatewayWith(
+        respond(400, { error: { message: 'This PaymentIntent could not be captured' } })
+      ).captureIntent('pi_1')
+    ).rejects.toThrow('This PaymentIntent could not be captured');
+  });
+
+  it('should refund through the refunds endpoint', async () => {
+    const fetch = respond(200, {
+      id: 're_1',
+      payment_intent: 'pi_1',
+      amount: 6000,
+      status: 'pending',
+    });
+
+    const refund = await gatewayWith(fetch).refund('pi_1', {
+      amount: 6000,
+      idempotencyKey: 'appointment-appt-1-refund',
+    });
+
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://stripe.test/v1/refunds');
+    expect(init.headers).toMatchObject({ 'Idempotency-Key': 'appointment-appt-1-refund' });
+    expect(new URLSearchParams(init.body as string).get('amount')).toBe('6000');
+    expect(refund).toEqual({
+      id: 're_1',
+      paymentIntentId: 'pi_1',
+      amount: 6000,
+      status: 'pending',
+    });
+  });
+
+  it('should verify webhooks with the endpoint secret', async () => {
+    const payload = JSON.stringify({
+      id: 'evt_1',
+      type: 'payment_intent.canceled',
+      created: Math.floor(Date.now() / 1000),
+      data: { object: { id: 'pi_1', object: 'payment_intent' } },
+    });
+    const gateway = gatewayWith(respond(200, {}));
+
+    expect(
+      await gateway.verifyWebhook(payload, signStripePayload(payload, 'whsec_test'))
+    ).toMatchObject({ type: 'payment.cancelled', paymentIntentId: 'pi_1' });
+    await expect(
+      gateway.verifyWebhook(payload, signStripePayload(payload, 'whsec_other'))
+    ).rejects.toThrow('Invalid webhook signature');
+  });
+});
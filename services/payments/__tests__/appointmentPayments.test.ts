@@ -0,0 +1,385 @@
+/**
+ * Tests for the appointment payment service
+ *
+ * @jest-environment node
+ */
+
+import {
+  syncAppointmentPayment,
+  syncAppointmentPayments,
+  syncUserAppointmentPayments,
+  type AppointmentPaymentDependencies,
+} from '../appointmentPayments';
+import { MockPaymentGateway } from '../gateways/MockPaymentGateway';
+import type { Timestamp } from 'firebase/firestore';
+import type { ListAppointmentsOptions } from '@/services/firestore/interfaces/IAppointmentRepository';
+import type {
+  AppointmentDocument,
+  AppointmentStatus,
+  InvoiceDocument,
+  IssueInvoiceInput,
+  PractitionerDocument,
+  UpdateAppointmentInput,
+  UserDocument,
+} from '@/types/firestore';
+
+jest.mock('@/lib/firebase/client', () => ({
+  db: {},
+}));
+jest.mock('@/services/firestore/repositories/AppointmentRepository', () => ({}));
+jest.mock('@/services/firestore/repositories/InvoiceRepository', () => ({}));
+jest.mock('@/services/firestore/repositories/PractitionerRepository', () => ({}));
+jest.mock('@/services/firestore/repositories/UserRepository', () => ({}));
+
+const timestamp = (date: Date) =>
+  ({ toDate: () => date, toMillis: () => date.getTime() }) as unknown as Timestamp;
+
+const booking = (overrides: Partial<AppointmentDocument> = {}) =>
+  ({
+    id: 'appt-1',
+    clientId: 'client-1',
+    practitionerId: 'prac-1',
+    status: 'pending',
+    startTime: timestamp(new Date('2026-03-02T10:00:00Z')),
+    endTime: timestamp(new Date('2026-03-02T11:00:00Z')),
+    createdAt: timestamp(new Date('2026-02-20T09:00:00Z')),
+    quotedPrice: 12000,
+    currency: 'USD',
+    paymentStatus: null,
+    paymentIntentId: null,
+    ...overrides,
+  }) as AppointmentDocument;
+
+const practitioner = {
+  uid: 'prac-1',
+  email: 'jo@example.com',
+  displayName: 'Jo Practitioner',
+  pricing: { initialConsultation: 12000, followUpSession: 9000, currency: 'USD' },
+  billing: { taxLabel: 'VAT', taxRatePercent: 20 },
+} as PractitionerDocument;
+
+describe('appointment payments', () => {
+  let stored: Map<string, AppointmentDocument>;
+  let invoices: Map<string, InvoiceDocument>;
+  let gateway: MockPaymentGateway;
+  let deps: AppointmentPaymentDependencies;
+
+  // Keep appointments in memory, applying updates like the repository does
+  const withAppointments = (...appointments: AppointmentDocument[]) => {
+    stored = new Map(appointments.map((appointment) => [appointment.id, appointment]));
+  };
+
+  beforeEach(() => {
+    withAppointments(booking());
+    invoices = new Map();
+    gateway = new MockPaymentGateway();
+    deps = {
+      gateway,
+      practitioners: {
+        getPractitioner: jest.fn(async (id: string) => (id === 'prac-1' ? practitioner : null)),
+      },
+      users: {
+        getUser: jest.fn(
+          async () => ({ displayName: 'Sam Client', email: 'sam@example.com' }) as UserDocument
+        ),
+      },
+      // Issue invoices like the repository does: once per appointment, in sequence
+      invoices: {
+        issueInvoice: jest.fn(async (input: IssueInvoiceInput) => {
+          const existing = invoices.get(input.appointmentId);
+          if (existing) {
+            return existing;
+          }
+          const sequence = invoices.size + 1;
+          const invoice = {
+            ...input,
+            id: input.appointmentId,
+            number: `INV-${sequence}`,
+            sequence,
+          } as InvoiceDocument;
+          invoices.set(invoice.id, invoice);
+          stored.set(invoice.id, { ...stored.get(invoice.id)!, invoiceId: invoice.id });
+          return invoice;
+        }),
+      },
+      appointments: {
+        getAppointment: jest.fn(async (id: string) => stored.get(id) ?? null),
+        listAppointments: jest.fn(async (options?: ListAppointmentsOptions) =>
+          [...stored.values()].filter(
+            (appointment) =>
+              appointment.clientId === options?.clientId &&
+              appointment.practitionerId === options?.practitionerId
+          )
+        ),
+        updateAppointmentStatus: jest.fn(async (id: string, status: AppointmentStatus) => {
+          const updated = { ...stored.get(id)!, status } as AppointmentDocument;
+          stored.set(id, updated);
+          return updated;
+        }),
+        updateAppointment: jest.fn(async (id: string, input: UpdateAppointmentInput) => {
+          const updated = { ...stored.get(id)!, ...input } as AppointmentDocument;
+          stored.set(id, updated);
+          return updated;
+        }),
+      },
+    };
+  });
+
+  it('should start a pending payment when a paid session is booked', async () => {
+    const appointment = await syncAppointmentPayment('appt-1', deps);
+
+    expect(appointment.paymentStatus).toBe('pending');
+    const intent = await gateway.getIntent(appointment.paymentIntentId!);
+    expect(intent).toMatchObject({
+      amount: 12000,
+      status: 'requires_capture',
+      metadata: { appointmentId: 'appt-1', practitionerId: 'prac-1', clientId: 'client-1' },
+    });
+  });
+
+  it('should price the booking from the practitioner\'s rates', async () => {
+    const appointment = await syncAppointmentPayment('appt-1', deps);
+
+    expect(appointment).toMatchObject({
+      quotedPrice: 12000,
+      currency: 'USD',
+      pricingTier: 'initial',
+      quoteVerified: true,
+    });
+  });
+
+  it('should charge returning clients the follow-up rate', async () => {
+    withAppointments(
+      booking({ pricingTier: 'initial' }),
+      booking({
+        id: 'appt-0',
+        status: 'completed',
+        startTime: timestamp(new Date('2026-02-02T10:00:00Z')),
+        endTime: timestamp(new Date('2026-02-02T11:00:00Z')),
+      })
+    );
+
+    const appointment = await syncAppointmentPayment('appt-1', deps);
+
+    expect(appointment).toMatchObject({ quotedPrice: 9000, pricingTier: 'follow-up' });
+    expect((await gateway.getIntent(appointment.paymentIntentId!))?.amount).toBe(9000);
+  });
+
+  it('should charge the practitioner\'s rate whatever price was booked', async () => {
+    withAppointments(
+      booking({ quotedPrice: 1, pricingTier: 'follow-up' }),
+      booking({ id: 'appt-2', quotedPrice: null, currency: null })
+    );
+
+    for (const id of ['appt-1', 'appt-2']) {
+      const appointment = await syncAppointmentPayment(id, deps);
+
+      expect(appointment).toMatchObject({ quotedPrice: 12000, pricingTier: 'initial' });
+      expect((await gateway.getIntent(appointment.paymentIntentId!))?.amount).toBe(12000);
+    }
+  });
+
+  it('should only sync the appointments the user takes part in', async () => {
+    withAppointments(booking(), booking({ id: 'appt-2', clientId: 'client-2' }));
+
+    const result = await syncUserAppointmentPayments(
+      'client-1',
+      ['appt-1', 'appt-2', 'appt-3'],
+      deps
+    );
+
+    expect(result).toEqual({ synced: [{ id: 'appt-1', paymentStatus: 'pending' }], failed: [] });
+    expect(stored.get('appt-2')?.paymentStatus).toBeNull();
+  });
+
+  describe('session types for new clients only', () => {
+    const intake = { id: 'intake', name: 'Intake', duration: 60, format: 'online' as const };
+
+    beforeEach(() => {
+      deps.practitioners.getPractitioner = jest.fn(async () => ({
+        ...practitioner,
+        sessionTypes: [{ ...intake, price: 5000, newClientsOnly: true }],
+      }));
+    });
+
+    it('should cancel a returning client\'s request', async () => {
+      withAppointments(
+        booking({ sessionType: intake }),
+        booking({
+          id: 'appt-0',
+          status: 'confirmed',
+          createdAt: timestamp(new Date('2026-02-01T09:00:00Z')),
+        })
+      );
+
+      const appointment = await syncAppointmentPayment('appt-1', deps);
+
+      expect(appointment).toMatchObject({ status: 'cancelled', paymentStatus: null });
+      expect(deps.appointments.updateAppointmentStatus).toHaveBeenCalledWith(
+        'appt-1',
+        'cancelled',
+        'system'
+      );
+    });
+
+    it('should charge new clients', async () => {
+      withAppointments(booking({ sessionType: intake }));
+
+      const appointment = await syncAppointmentPayment('appt-1', deps);
+
+      expect(appointment).toMatchObject({ quotedPrice: 5000, paymentStatus: 'pending' });
+    });
+  });
+
+  it('should capture the payment once the session is confirmed', async () => {
+    await syncAppointmentPayment('appt-1', deps);
+    stored.set('appt-1', { ...stored.get('appt-1')!, status: 'confirmed' });
+
+    const appointment = await syncAppointmentPayment('appt-1', deps);
+
+    expect(appointment.paymentStatus).toBe('paid');
+    expect((await gateway.getIntent(appointment.paymentIntentId!))?.status).toBe('succeeded');
+  });
+
+  it('should invoice the captured payment once', async () => {
+    withAppointments(booking({ status: 'confirmed', sessionType: null }));
+
+    const appointment = await syncAppointmentPayment('appt-1', deps);
+    await syncAppointmentPayment('appt-1', deps);
+
+    expect(appointment.invoiceId).toBe('appt-1');
+    expect(deps.invoices.issueInvoice).toHaveBeenCalledTimes(1);
+    expect(invoices.get('appt-1')).toMatchObject({
+      practitioner: { name: 'Jo Practitioner', email: 'jo@example.com' },
+      client: { name: 'Sam Client', email: 'sam@example.com' },
+      service: 'Session',
+      duration: 60,
+      currency: 'USD',
+      subtotal: 10000,
+      taxLabel: 'VAT',
+      tax: 2000,
+      total: 12000,
+    });
+  });
+
+  it('should not invoice payments that were never captured', async () => {
+    await syncAppointmentPayment('appt-1', deps);
+    stored.set('appt-1', { ...stored.get('appt-1')!, status: 'cancelled' });
+    await syncAppointmentPayment('appt-1', deps);
+
+    expect(deps.invoices.issueInvoice).not.toHaveBeenCalled();
+  });
+
+  it('should create and capture in one sync for sessions booked as confirmed', async () => {
+    withAppointments(booking({ status: 'confirmed' }));
+
+    expect((await syncAppointmentPayment('appt-1', deps)).paymentStatus).toBe('paid');
+  });
+
+  it('should wait for the client to authorize before capturing', async () => {
+    gateway = new MockPaymentGateway({ autoAuthorize: false });
+    deps.gateway = gateway;
+    withAppointments(booking({ status: 'confirmed' }));
+
+    const appointment = await syncAppointmentPayment('appt-1', deps);
+    expect(appointment.paymentStatus).toBe('pending');
+
+    await gateway.authorizeIntent(appointment.paymentIntentId!);
+    expect((await syncAppointmentPayment('appt-1', deps)).paymentStatus).toBe('paid');
+  });
+
+  it('should release the payment of a cancelled request', async () => {
+    await syncAppointmentPayment('appt-1', deps);
+    stored.set('appt-1', { ...stored.get('appt-1')!, status: 'cancelled' });
+
+    const appointment = await syncAppointmentPayment('appt-1', deps);
+
+    expect(appointment.paymentStatus).toBe('cancelled');
+    expect((await gateway.getIntent(appointment.paymentIntentId!))?.status).toBe('canceled');
+  });
+
+  it('should not start payments for free sessions', async () => {
+    deps.practitioners.getPractitioner = jest.fn(async () => ({
+      ...practitioner,
+      pricing: { initialConsultation: 0, followUpSession: 0, currency: 'USD' },
+    }));
+
+    const appointment = await syncAppointmentPayment('appt-1', deps);
+
+    expect(appointment).toMatchObject({ quotedPrice: 0, paymentStatus: null });
+    expect(await syncAppointmentPayment('appt-1', deps)).toBe(appointment);
+  });
+
+  it('should record each appointment and carry on past failures', async () => {
+    withAppointments(booking(), booking({ id: 'appt-2', status: 'cancelled' }));
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await syncAppointmentPayments(['appt-1', 'appt-missing', 'appt-2'], deps);
+
+    expect(result.synced).toEqual([
+      { id: 'appt-1', paymentStatus: 'pending' },
+      { id: 'appt-2', paymentStatus: null },
+    ]);
+    expect(result.failed).toEqual([
+      { appointmentId: 'appt-missing', error: 'Appointment not found: appt-missing' },
+    ]);
+    consoleError.mockRestore();
+  });
+
+  describe('cancelling a paid session', () => {
+    // Book, confirm and capture, then cancel with the given terms
+    const cancelPaid = async (terms: Partial<AppointmentDocument>) => {
+      withAppointments(booking({ status: 'confirmed' }));
+      await syncAppointmentPayment('appt-1', deps);
+      stored.set('appt-1', { ...stored.get('appt-1')!, status: 'cancelled', ...terms });
+      return syncAppointmentPayment('appt-1', deps);
+    };
+
+    it('should refund in full when the practitioner cancels', async () => {
+      const appointment = await cancelPaid({ cancelledBy: 'practitioner' });
+
+      expect(appointment.paymentStatus).toBe('refunded');
+      expect(appointment.invoiceId).toBe('appt-1');
+      expect(appointment.refund).toMatchObject({
+        amount: 12000,
+        reason: 'practitioner-cancelled',
+      });
+      expect(appointment.refund?.refundId).toMatch(/^re_mock_/);
+      expect((await gateway.getIntent(appointment.paymentIntentId!))?.amountRefunded).toBe(12000);
+    });
+
+    it('should keep the late cancellation fee', async () => {
+      const appointment = await cancelPaid({
+        cancelledBy: 'client',
+        lateCancellation: true,
+        feeOwed: 3000,
+      });
+
+      expect(appointment.refund).toMatchObject({ amount: 9000, reason: 'late-cancellation' });
+      expect((await gateway.getIntent(appointment.paymentIntentId!))?.amountRefunded).toBe(9000);
+    });
+
+    it('should record when the fee keeps the whole payment', async () => {
+      const appointment = await cancelPaid({
+        cancelledBy: 'client',
+        lateCancellation: true,
+        feeOwed: 12000,
+      });
+
+      expect(appointment.paymentStatus).toBe('paid');
+      expect(appointment.refund).toMatchObject({ amount: 0, refundId: null });
+      expect((await syncAppointmentPayment('appt-1', deps)).refund?.amount).toBe(0);
+    });
+
+    it('should not refund twice when the refund is retried', async () => {
+      await cancelPaid({ cancelledBy: 'client', lateCancellation: false });
+      // The refund went through but recording it failed
+      stored.set('appt-1', { ...stored.get('appt-1')!, paymentStatus: 'refunded', refund: null });
+
+      const appointment = await syncAppointmentPayment('appt-1', deps);
+
+      expect(appointment.refund).toMatchObject({ amount: 12000, reason: 'cancelled-in-time' });
+      expect((await gateway.getIntent(appointment.paymentIntentId!))?.amountRefunded).toBe(12000);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Tests for payment gateway selection
+ *
+ * @jest-environment node
+ */
+
+import { createPaymentGateway } from '../paymentGateway';
+import { MockPaymentGateway } from '../gateways/MockPaymentGateway';
+
+const env = (values: Record<string, string>) => values as unknown as NodeJS.ProcessEnv;
+
+describe('createPaymentGateway', () => {
+  it('should refuse Stripe until clients can enter their card', () => {
+    expect(() =>
+      createPaymentGateway(
+        env({
+          PAYMENT_GATEWAY: 'stripe',
+          STRIPE_SECRET_KEY: 'sk_test_123',
+          STRIPE_WEBHOOK_SECRET: 'whsec_123',
+          NODE_ENV: 'production',
+        })
+      )
+    ).toThrow('The Stripe payment gateway is not supported yet');
+  });
+
+  it('should use the mock gateway in development and tests', () => {
+    for (const NODE_ENV of ['development', 'test']) {
+      expect(createPaymentGateway(env({ PAYMENT_GATEWAY: 'mock', NODE_ENV }))).toBeInstanceOf(
+        MockPaymentGateway
+      );
+    }
+  });
+
+  it('should refuse the mock gateway anywhere else', () => {
+    expect(() =>
+      createPaymentGateway(env({ PAYMENT_GATEWAY: 'mock', NODE_ENV: 'production' }))
+    ).toThrow('The mock payment gateway cannot run with NODE_ENV=production');
+  });
+
+  it('should refuse unset and unknown gateways', () => {
+    expect(() => createPaymentGateway(env({ NODE_ENV: 'development' }))).toThrow(
+      "PAYMENT_GATEWAY must be 'mock'"
+    );
+    expect(() =>
+      createPaymentGateway(env({ PAYMENT_GATEWAY: 'strpe', NODE_ENV: 'development' }))
+    ).toThrow("(got 'strpe')");
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Tests for payment webhook handling, replaying recorded Stripe events
+ * through the Stripe gateway and the payment event repository against an
+ * in-memory Firestore
+ *
+ * @jest-environment node
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { handlePaymentWebhook } from '../paymentWebhooks';
+import { StripePaymentGateway } from '../gateways/StripePaymentGateway';
+import { signStripePayload } from '../gateways/stripeWebhooks';
+import { WebhookVerificationError } from '../errors';
+import { PaymentEventRepository } from '@/services/firestore/repositories/PaymentEventRepository';
+
+// Documents by path, e.g. "appointments/appt-1"
+const mockStore = new Map<string, Record<string, unknown>>();
+
+jest.mock('firebase/firestore', () => {
+  type Constraint = { field: string; value: unknown };
+  const snapshot = (path: string) => ({
+    id: path.split('/')[1],
+    exists: () => mockStore.has(path),
+    data: () => mockStore.get(path),
+  });
+  const get = async (ref: { path: string }) => snapshot(ref.path);
+  const set = (ref: { path: string }, data: Record<string, unknown>) =>
+    mockStore.set(ref.path, { ...data });
+  const update = (ref: { path: string }, data: Record<string, unknown>) =>
+    mockStore.set(ref.path, { ...mockStore.get(ref.path), ...data });
+
+  return {
+    collection: (_db: unknown, name: string) => ({ name }),
+    doc: (_db: unknown, name: string, id: string) => ({ id, path: `${name}/${id}` }),
+    where: (field: string, _op: string, value: unknown) => ({ field, value }),
+    limit: () => null,
+    query: (ref: { name: string }, ...constraints: Constraint[]) => ({
+      name: ref.name,
+      constraints: constraints.filter(Boolean),
+    }),
+    getDoc: get,
+    getDocs: async (q: { name: string; constraints: Constraint[] }) => ({
+      docs: [...mockStore.keys()]
+        .filter((path) => path.startsWith(`${q.name}/`))
+        .filter((path) =>
+          q.constraints.every(({ field, value }) => mockStore.get(path)?.[field] === value)
+        )
+        .map(snapshot),
+    }),
+    runTransaction: async (_db: unknown, updateFunction: (transaction: unknown) => unknown) =>
+      updateFunction({ get, set, update }),
+    serverTimestamp: () => 'server-time',
+    Timestamp: { fromDate: (date: Date) => ({ toDate: () => date }) },
+  };
+});
+jest.mock('@/lib/firebase/client', () => ({
+  db: {},
+}));
+
+const secret = 'whsec_test';
+const intentId = 'pi_3Q8mXtLkdIwHu7ix0ZqK4Rdc';
+
+// Recorded events, as their raw request bodies
+const fixture = (name: string) =>
+  readFileSync(join(__dirname, 'fixtures', `${name}.json`), 'utf8');
+
+const authorized = fixture('payment_intent.amount_capturable_updated');
+const captured = fixture('payment_intent.succeeded');
+const refunded = fixture('charge.refunded');
+const cancelled = fixture('payment_intent.canceled');
+const unrelated = fixture('customer.created');
+
+const deps = {
+  gateway: new StripePaymentGateway({ secretKey: 'sk_test_1', webhookSecret: secret }),
+  paymentEvents: new PaymentEventRepository({} as any),
+};
+
+// Deliver a recorded event, signed as Stripe signs it
+const deliver = (payload: string) =>
+  handlePaymentWebhook(payload, signStripePayload(payload, secret), deps);
+
+const paymentStatus = (appointmentId = 'appt-1') =>
+  mockStore.get(`appointments/${appointmentId}`)?.paymentStatus;
+
+describe('handlePaymentWebhook', () => {
+  beforeEach(() => {
+    mockStore.clear();
+    mockStore.set('appointments/appt-1', {
+      status: 'confirmed',
+      paymentStatus: 'pending',
+      paymentIntentId: intentId,
+    });
+    mockStore.set('appointments/appt-2', {
+      status: 'cancelled',
+      paymentStatus: 'pending',
+      paymentIntentId: 'pi_3Q9bR2LkdIwHu7ix1cV8nTzu',
+    });
+  });
+
+  it('should move the payment from pending to paid to refunded', async () => {
+    expect((await deliver(authorized)).event.outcome).toBe('ignored');
+    expect(paymentStatus()).toBe('pending');
+
+    expect((await deliver(captured)).event).toMatchObject({
+      id: 'evt_3Q8mXtLkdIwHu7ix0kC9f0Tb',
+      type: 'payment.captured',
+      appointmentId: 'appt-1',
+      outcome: 'applied',
+      paymentStatus: 'paid',
+    });
+    expect(paymentStatus()).toBe('paid');
+
+    await deliver(refunded);
+    expect(paymentStatus()).toBe('refunded');
+  });
+
+  it('should record released payments', async () => {
+    await deliver(cancelled);
+
+    expect(paymentStatus('appt-2')).toBe('cancelled');
+  });
+
+  it('should not apply a redelivered event twice', async () => {
+    await deliver(captured);
+    await deliver(refunded);
+    // Put the status back, so a refund applied again would show
+    mockStore.set('appointments/appt-1', {
+      ...mockStore.get('appointments/appt-1'),
+      paymentStatus: 'paid',
+    });
+
+    const retry = await deliver(refunded);
+
+    expect(retry.duplicate).toBe(true);
+    expect(paymentStatus()).toBe('paid');
+  });
+
+  it('should end up in the same state when events arrive out of order', async () => {
+    for (const payload of [refunded, authorized, captured]) {
+      await deliver(payload);
+    }
+
+    expect(paymentStatus()).toBe('refunded');
+    expect(mockStore.get('paymentEvents/evt_3Q8mXtLkdIwHu7ix0kC9f0Tb')?.outcome).toBe('stale');
+  });
+
+  it('should record events for unknown payments without changing appointments', async () => {
+    mockStore.delete('appointments/appt-2');
+
+    expect((await deliver(cancelled)).event).toMatchObject({
+      outcome: 'unmatched',
+      appointmentId: null,
+    });
+    expect((await deliver(unrelated)).event).toMatchObject({
+      type: 'other',
+      outcome: 'unmatched',
+      paymentIntentId: null,
+    });
+  });
+
+  it('should reject tampered and unsigned events', async () => {
+    const signature = signStripePayload(captured, secret);
+    const tampered = captured.replace('"amount": 12000', '"amount": 1');
+
+    await expect(handlePaymentWebhook(tampered, signature, deps)).rejects.toThrow(
+      WebhookVerificationError
+    );
+    await expect(handlePaymentWebhook(captured, null, deps)).rejects.toThrow(
+      'Missing webhook signature'
+    );
+    expect(paymentStatus()).toBe('pending');
+    expect([...mockStore.keys()].some((path) => path.startsWith('paymentEvents/'))).toBe(false);
+  });
+});
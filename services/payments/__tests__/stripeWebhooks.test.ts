@@ -0,0 +1,105 @@
+/**
+ * Tests for Stripe webhook signatures and events
+ *
+ * @jest-environment node
+ */
+
+import {
+  parseStripeEvent,
+  signStripePayload,
+  verifyStripeSignature,
+  WEBHOOK_TOLERANCE_SECONDS,
+} from '../gateways/stripeWebhooks';
+
+const secret = 'whsec_test';
+const now = new Date('2026-03-02T10:00:00Z');
+
+const payload = JSON.stringify({
+  id: 'evt_1',
+  type: 'payment_intent.succeeded',
+  created: Math.floor(now.getTime() / 1000),
+  data: { object: { id: 'pi_1', object: 'payment_intent' } },
+});
+
+describe('verifyStripeSignature', () => {
+  it('should accept a payload signed with the secret', () => {
+    const signature = signStripePayload(payload, secret, now);
+
+    expect(signature).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+    expect(() => verifyStripeSignature(payload, signature, secret, now)).not.toThrow();
+  });
+
+  it('should accept any matching signature when secrets are being rolled', () => {
+    const signature = signStripePayload(payload, secret, now);
+    const rolled = `${signature},v1=${'0'.repeat(64)}`;
+
+    expect(() => verifyStripeSignature(payload, rolled, secret, now)).not.toThrow();
+  });
+
+  it('should reject missing and malformed signatures', () => {
+    expect(() => verifyStripeSignature(payload, null, secret, now)).toThrow(
+      'Missing webhook signature'
+    );
+    expect(() => verifyStripeSignature(payload, 'v1=abc', secret, now)).toThrow(
+      'Malformed webhook signature'
+    );
+  });
+
+  it('should reject tampered payloads and other secrets', () => {
+    const signature = signStripePayload(payload, secret, now);
+
+    expect(() =>
+      verifyStripeSignature(payload.replace('pi_1', 'pi_2'), signature, secret, now)
+    ).toThrow('Invalid webhook signature');
+    expect(() => verifyStripeSignature(payload, signature, 'whsec_other', now)).toThrow(
+      'Invalid webhook signature'
+    );
+  });
+
+  it('should reject signatures older than the tolerance', () => {
+    const signature = signStripePayload(payload, secret, now);
+    const later = new Date(now.getTime() + (WEBHOOK_TOLERANCE_SECONDS + 1) * 1000);
+
+    expect(() => verifyStripeSignature(payload, signature, secret, later)).toThrow(
+      'Webhook signature has expired'
+    );
+  });
+});
+
+describe('parseStripeEvent', () => {
+  it('should map payment intent events', () => {
+    expect(parseStripeEvent(payload)).toEqual({
+      id: 'evt_1',
+      type: 'payment.captured',
+      paymentIntentId: 'pi_1',
+      createdAt: now,
+    });
+  });
+
+  it('should read the payment intent of charge events', () => {
+    const event = parseStripeEvent(
+      JSON.stringify({
+        id: 'evt_2',
+        type: 'charge.refunded',
+        created: 0,
+        data: { object: { id: 'ch_1', object: 'charge', payment_intent: 'pi_1' } },
+      })
+    );
+
+    expect(event.type).toBe('payment.refunded');
+    expect(event.paymentIntentId).toBe('pi_1');
+  });
+
+  it('should report unknown events as other and reject non-events', () => {
+    const unknown = JSON.stringify({
+      id: 'evt_3',
+      type: 'customer.created',
+      created: 0,
+      data: { object: { id: 'cus_1', object: 'customer' } },
+    });
+
+    expect(parseStripeEvent(unknown).type).toBe('other');
+    expect(() => parseStripeEvent('not json')).toThrow('Webhook payload is not valid JSON');
+    expect(() => parseStripeEvent('{}')).toThrow('Webhook payload is not a payment event');
+  });
+});
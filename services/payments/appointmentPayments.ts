@@ -0,0 +1,292 @@
+/**
+ * Appointment payment service
+ *
+ * Keeps an appointment's payment in step with its status through the
+ * payment gateway: a new booking is priced again from the practitioner's
+ * rates and the client's history, which sets its quotedPrice and
+ * pricingTier (quoteVerified); a pending booking of a session type the
+ * client could not book (e.g. one for new clients only) is cancelled
+ * instead. Then a paid session gets a payment intent
+ * for that price (paymentStatus 'pending'), confirming the session captures
+ * it once the client's card is authorized ('paid'), and a request that ends
+ * without being confirmed releases it ('cancelled'). Only the mock gateway
+ * authorizes intents by itself; clients have no step yet to authorize a real
+ * card, which is why paymentGateway.ts refuses Stripe. A captured payment
+ * gets a numbered invoice (see
+ * buildInvoice). Cancelling a session that was paid for refunds what its
+ * cancellation terms allow ('refunded', see getCancellationRefund) and
+ * records the refund on the appointment.
+ *
+ * What to do is always read from the appointment itself (see
+ * getAppointmentPaymentAction), so syncing an appointment more than once,
+ * or syncing one that needs nothing, is harmless. Run server-side through
+ * app/api/payments/sync/route.ts, signed in as the system account that
+ * firestore.rules lets change payment fields.
+ */
+
+import { Timestamp } from 'firebase/firestore';
+import { buildInvoice } from '@/lib/invoices/invoices';
+import { getAppointmentPaymentAction } from '@/lib/payments/appointmentPayments';
+import { getCancellationRefund } from '@/lib/payments/refunds';
+import { getBookedSessionQuote } from '@/lib/scheduling/pricing';
+import { getBookedSessionTypeError } from '@/lib/scheduling/sessionTypes';
+import { appointmentRepository } from '@/services/firestore/repositories/AppointmentRepository';
+import { invoiceRepository } from '@/services/firestore/repositories/InvoiceRepository';
+import { practitionerRepository } from '@/services/firestore/repositories/PractitionerRepository';
+import { userRepository } from '@/services/firestore/repositories/UserRepository';
+import type { IAppointmentRepository } from '@/services/firestore/interfaces/IAppointmentRepository';
+import type { IInvoiceRepository } from '@/services/firestore/interfaces/IInvoiceRepository';
+import type { IPractitionerRepository } from '@/services/firestore/interfaces/IPractitionerRepository';
+import type { IUserRepository } from '@/services/firestore/interfaces/IUserRepository';
+import type { IPaymentGateway } from './interfaces/IPaymentGateway';
+import { getPaymentGateway } from './paymentGateway';
+import type { AppointmentDocument } from '@/types/firestore';
+
+/**
+ * Most actions one sync carries out (quote, create, capture, invoice, then
+ * refund)
+ */
+const MAX_SYNC_STEPS = 5;
+
+/**
+ * Repositories and gateway the service works with
+ */
+export interface AppointmentPaymentDependencies {
+  appointments: Pick<
+    IAppointmentRepository,
+    'getAppointment' | 'listAppointments' | 'updateAppointment' | 'updateAppointmentStatus'
+  >;
+  practitioners: Pick<IPractitionerRepository, 'getPractitioner'>;
+  users: Pick<IUserRepository, 'getUser'>;
+  invoices: Pick<IInvoiceRepository, 'issueInvoice'>;
+  gateway: IPaymentGateway;
+}
+
+const defaultDependencies = (): AppointmentPaymentDependencies => ({
+  appointments: appointmentRepository,
+  practitioners: practitionerRepository,
+  users: userRepository,
+  invoices: invoiceRepository,
+  gateway: getPaymentGateway(),
+});
+
+/**
+ * An appointment whose payment could not be synced
+ */
+export interface AppointmentPaymentFailure {
+  appointmentId: string;
+  error: string;
+}
+
+/**
+ * Payment statuses after a sync
+ */
+export interface AppointmentPaymentSyncResult {
+  /**
+   * Payment status of each appointment that was synced
+   */
+  synced: Array<Pick<AppointmentDocument, 'id' | 'paymentStatus'>>;
+
+  /**
+   * Appointments that were not found or whose payment failed
+   */
+  failed: AppointmentPaymentFailure[];
+}
+
+/**
+ * Key that makes retried creates return the appointment's existing intent
+ */
+export const getPaymentIdempotencyKey = (appointmentId: string) => `appointment-${appointmentId}`;
+
+/**
+ * Key that makes retried refunds return the refund already made
+ */
+export const getRefundIdempotencyKey = (appointmentId: string) =>
+  `${getPaymentIdempotencyKey(appointmentId)}-refund`;
+
+/**
+ * Carry out the next payment action of an appointment
+ *
+ * @returns The updated appointment, or null if it needed nothing (or its
+ *   intent is not ready to capture yet)
+ */
+async function applyPaymentAction(
+  appointment: AppointmentDocument,
+  deps: AppointmentPaymentDependencies
+): Promise<AppointmentDocument | null> {
+  switch (getAppointmentPaymentAction(appointment)) {
+    case 'quote': {
+      const practitioner = await deps.practitioners.getPractitioner(appointment.practitionerId);
+      if (!practitioner) {
+        throw new Error(`Practitioner not found: ${appointment.practitionerId}`);
+      }
+      const history = await deps.appointments.listAppointments({
+        clientId: appointment.clientId,
+        practitionerId: appointment.practitionerId,
+      });
+      const sessionTypeError = getBookedSessionTypeError(practitioner, appointment, history);
+      if (sessionTypeError) {
+        // Requests can still be turned away; confirmed sessions need the practitioner
+        if (appointment.status !== 'pending') {
+          throw new Error(sessionTypeError);
+        }
+        return deps.appointments.updateAppointmentStatus(appointment.id, 'cancelled', 'system');
+      }
+      const quote = getBookedSessionQuote(practitioner, appointment, history);
+      return deps.appointments.updateAppointment(appointment.id, {
+        quotedPrice: quote.price,
+        currency: quote.currency,
+        pricingTier: quote.tier,
+        quoteVerified: true,
+      });
+    }
+
+    case 'create': {
+      const intent = await deps.gateway.createIntent({
+        amount: appointment.quotedPrice!,
+        currency: appointment.currency!,
+        metadata: {
+          appointmentId: appointment.id,
+          practitionerId: appointment.practitionerId,
+          clientId: appointment.clientId,
+        },
+        idempotencyKey: getPaymentIdempotencyKey(appointment.id),
+      });
+      return deps.appointments.updateAppointment(appointment.id, {
+        paymentStatus: 'pending',
+        paymentIntentId: intent.id,
+      });
+    }
+
+    case 'capture': {
+      const intent = await deps.gateway.getIntent(appointment.paymentIntentId!);
+      if (!intent) {
+        throw new Error(`Payment not found: ${appointment.paymentIntentId}`);
+      }
+      // An intent that already succeeded (e.g. on a retry after the update
+      // failed) only needs recording
+      if (intent.status === 'requires_capture') {
+        await deps.gateway.captureIntent(intent.id);
+      } else if (intent.status !== 'succeeded') {
+        return null; // The client has not authorized the payment yet
+      }
+      return deps.appointments.updateAppointment(appointment.id, { paymentStatus: 'paid' });
+    }
+
+    case 'cancel': {
+      const intent = await deps.gateway.getIntent(appointment.paymentIntentId!);
+      if (intent && intent.status !== 'canceled') {
+        await deps.gateway.cancelIntent(intent.id);
+      }
+      return deps.appointments.updateAppointment(appointment.id, { paymentStatus: 'cancelled' });
+    }
+
+    case 'invoice': {
+      const practitioner = await deps.practitioners.getPractitioner(appointment.practitionerId);
+      if (!practitioner) {
+        throw new Error(`Practitioner not found: ${appointment.practitionerId}`);
+      }
+      // Invoiced to "Client" if they have no profile to take a name from
+      const client = await deps.users.getUser(appointment.clientId);
+      await deps.invoices.issueInvoice(buildInvoice(appointment, practitioner, client));
+      return deps.appointments.getAppointment(appointment.id);
+    }
+
+    case 'refund': {
+      const { amount, reason } = getCancellationRefund(appointment)!;
+      let refundId: string | null = null;
+      // A late cancellation fee can keep the whole payment
+      if (amount > 0) {
+        const refund = await deps.gateway.refund(appointment.paymentIntentId!, {
+          amount,
+          idempotencyKey: getRefundIdempotencyKey(appointment.id),
+        });
+        if (refund.status === 'failed') {
+          throw new Error('The payment provider declined the refund');
+        }
+        refundId = refund.id;
+      }
+      return deps.appointments.updateAppointment(appointment.id, {
+        paymentStatus: amount > 0 ? 'refunded' : appointment.paymentStatus,
+        refund: { amount, reason, refundId, refundedAt: Timestamp.now() },
+      });
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Bring an appointment's payment in line with its status
+ *
+ * @param appointmentId - Appointment document ID
+ * @returns The appointment after its payment was synced
+ * @throws Error if the appointment is not found or the gateway fails
+ */
+export async function syncAppointmentPayment(
+  appointmentId: string,
+  deps: AppointmentPaymentDependencies = defaultDependencies()
+): Promise<AppointmentDocument> {
+  let appointment = await deps.appointments.getAppointment(appointmentId);
+  if (!appointment) {
+    throw new Error(`Appointment not found: ${appointmentId}`);
+  }
+
+  for (let step = 0; step < MAX_SYNC_STEPS; step++) {
+    const updated = await applyPaymentAction(appointment, deps);
+    if (!updated) {
+      break;
+    }
+    appointment = updated;
+  }
+
+  return appointment;
+}
+
+/**
+ * Sync the payments of several appointments, carrying on past failures
+ */
+export async function syncAppointmentPayments(
+  appointmentIds: string[],
+  deps: AppointmentPaymentDependencies = defaultDependencies()
+): Promise<AppointmentPaymentSyncResult> {
+  const result: AppointmentPaymentSyncResult = { synced: [], failed: [] };
+
+  for (const appointmentId of new Set(appointmentIds)) {
+    try {
+      const appointment = await syncAppointmentPayment(appointmentId, deps);
+      result.synced.push({ id: appointment.id, paymentStatus: appointment.paymentStatus ?? null });
+    } catch (err) {
+      console.error(`Error syncing payment of appointment ${appointmentId}:`, err);
+      result.failed.push({
+        appointmentId,
+        error: err instanceof Error ? err.message : 'Failed to sync payment',
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Sync the payments of those of the given appointments the user takes part
+ * in, as client or practitioner. Other appointments, and ones that do not
+ * exist, are left out of the sync and of its result.
+ */
+export async function syncUserAppointmentPayments(
+  userId: string,
+  appointmentIds: string[],
+  deps: AppointmentPaymentDependencies = defaultDependencies()
+): Promise<AppointmentPaymentSyncResult> {
+  const ownIds: string[] = [];
+
+  for (const appointmentId of new Set(appointmentIds)) {
+    const appointment = await deps.appointments.getAppointment(appointmentId);
+    if (appointment && (appointment.clientId === userId || appointment.practitionerId === userId)) {
+      ownIds.push(appointmentId);
+    }
+  }
+
+  return syncAppointmentPayments(ownIds, deps);
+}
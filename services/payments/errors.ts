@@ -0,0 +1,17 @@
+/**
+ * Payment service errors
+ *
+ * Typed errors thrown by the payment gateways so routes can tell a bad
+ * request from a failure on our side.
+ */
+
+/**
+ * Thrown when a webhook request is not a correctly signed, recent event
+ * from the payment provider
+ */
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Mock Payment Gateway Implementation
+ *
+ * Fully local implementation of IPaymentGateway for development and tests.
+ * Intents live in memory and follow the same rules as Stripe's: only
+ * authorized intents can be captured, captured intents cannot be
+ * cancelled, and refunds cannot exceed what was captured. New intents are
+ * authorized straight away unless autoAuthorize is off, so bookings work
+ * without entering card details. Webhook events are Stripe-shaped and
+ * signed the same way, so the webhook route can be exercised end to end.
+ */
+
+import type {
+  CreatePaymentIntentInput,
+  IPaymentGateway,
+  PaymentIntent,
+  PaymentRefund,
+  PaymentWebhookEvent,
+  RefundOptions,
+} from '../interfaces/IPaymentGateway';
+import {
+  parseStripeEvent,
+  signStripePayload,
+  verifyStripeSignature,
+  type StripeEvent,
+} from './stripeWebhooks';
+
+/**
+ * Signing secret the mock gateway uses unless given another
+ */
+export const MOCK_WEBHOOK_SECRET = 'whsec_mock';
+
+/**
+ * Stripe event types the mock gateway can send
+ */
+export type MockWebhookEventType =
+  | 'payment_intent.amount_capturable_updated'
+  | 'payment_intent.succeeded'
+  | 'payment_intent.canceled'
+  | 'payment_intent.payment_failed'
+  | 'charge.refunded';
+
+/**
+ * Mock gateway options
+ */
+export interface MockPaymentGatewayOptions {
+  /**
+   * Authorize new intents straight away (defaults to true)
+   */
+  autoAuthorize?: boolean;
+
+  /**
+   * Webhook signing secret (defaults to MOCK_WEBHOOK_SECRET)
+   */
+  webhookSecret?: string;
+
+  /**
+   * Clock used for webhook timestamps (defaults to the current time)
+   */
+  now?: () => Date;
+}
+
+/**
+ * Mock Payment Gateway implementation
+ */
+export class MockPaymentGateway implements IPaymentGateway {
+  private readonly intents = new Map<string, PaymentIntent>();
+  private readonly idempotencyKeys = new Map<string, string>();
+  private readonly refunds = new Map<string, PaymentRefund>();
+  private readonly autoAuthorize: boolean;
+  private readonly webhookSecret: string;
+  private readonly now: () => Date;
+  private nextId = 1;
+
+  constructor(options: MockPaymentGatewayOptions = {}) {
+    this.autoAuthorize = options.autoAuthorize ?? true;
+    this.webhookSecret = options.webhookSecret ?? MOCK_WEBHOOK_SECRET;
+    this.now = options.now ?? (() => new Date());
+  }
+
+  /**
+   * Get an intent to change, throwing if it does not exist
+   */
+  private findIntent(paymentIntentId: string): PaymentIntent {
+    const intent = this.intents.get(paymentIntentId);
+    if (!intent) {
+      throw new Error(`Payment not found: ${paymentIntentId}`);
+    }
+    return intent;
+  }
+
+  /**
+   * Change an intent, returning a copy so callers cannot modify the stored one
+   */
+  private updateIntent(intent: PaymentIntent, changes: Partial<PaymentIntent>): PaymentIntent {
+    const updated = { ...intent, ...changes };
+    this.intents.set(intent.id, updated);
+    return { ...updated };
+  }
+
+  /**
+   * Create a payment intent to be captured later
+   */
+  async createIntent(input: CreatePaymentIntentInput): Promise<PaymentIntent> {
+    if (!Number.isInteger(input.amount) || input.amount <= 0) {
+      throw new Error('Payment amount must be a positive number of cents');
+    }
+
+    const existingId = this.idempotencyKeys.get(input.idempotencyKey);
+    if (existingId) {
+      return { ...this.findIntent(existingId) };
+    }
+
+    const id = `pi_mock_${this.nextId++}`;
+    const intent: PaymentIntent = {
+      id,
+      amount: input.amount,
+      currency: input.currency.toLowerCase(),
+      status: this.autoAuthorize ? 'requires_capture' : 'requires_payment_method',
+      amountRefunded: 0,
+      clientSecret: `${id}_secret`,
+      metadata: { ...input.metadata },
+    };
+    this.intents.set(id, intent);
+    this.idempotencyKeys.set(input.idempotencyKey, id);
+
+    return { ...intent };
+  }
+
+  /**
+   * Get payment intent by ID
+   */
+  async getIntent(paymentIntentId: string): Promise<PaymentIntent | null> {
+    const intent = this.intents.get(paymentIntentId);
+    return intent ? { ...intent } : null;
+  }
+
+  /**
+   * Authorize an intent, as the client entering their card details would
+   */
+  async authorizeIntent(paymentIntentId: string): Promise<PaymentIntent> {
+    const intent = this.findIntent(paymentIntentId);
+    if (intent.status !== 'requires_payment_method') {
+      throw new Error(`Payment cannot be authorized (${intent.status})`);
+    }
+
+    return this.updateIntent(intent, { status: 'requires_capture' });
+  }
+
+  /**
+   * Capture an authorized payment intent
+   */
+  async captureIntent(paymentIntentId: string): Promise<PaymentIntent> {
+    const intent = this.findIntent(paymentIntentId);
+    if (intent.status !== 'requires_capture') {
+      throw new Error(`Payment cannot be captured (${intent.status})`);
+    }
+
+    return this.updateIntent(intent, { status: 'succeeded' });
+  }
+
+  /**
+   * Release a payment intent that has not been captured
+   */
+  async cancelIntent(paymentIntentId: string): Promise<PaymentIntent> {
+    const intent = this.findIntent(paymentIntentId);
+    if (intent.status === 'succeeded' || intent.status === 'canceled') {
+      throw new Error(`Payment cannot be cancelled (${intent.status})`);
+    }
+
+    return this.updateIntent(intent, { status: 'canceled' });
+  }
+
+  /**
+   * Refund all or part of a captured payment
+   */
+  async refund(paymentIntentId: string, options: RefundOptions = {}): Promise<PaymentRefund> {
+    const existing = options.idempotencyKey && this.refunds.get(options.idempotencyKey);
+    if (existing) {
+      return { ...existing };
+    }
+
+    const intent = this.findIntent(paymentIntentId);
+    if (intent.status !== 'succeeded') {
+      throw new Error(`Payment cannot be refunded (${intent.status})`);
+    }
+
+    const refundable = intent.amount - intent.amountRefunded;
+    const refundAmount = options.amount ?? refundable;
+    if (!Number.isInteger(refundAmount) || refundAmount <= 0 || refundAmount > refundable) {
+      throw new Error('Refund amount is more than what is left to refund');
+    }
+
+    this.updateIntent(intent, { amountRefunded: intent.amountRefunded + refundAmount });
+
+    const refund: PaymentRefund = {
+      id: `re_mock_${this.nextId++}`,
+      paymentIntentId,
+      amount: refundAmount,
+      status: 'succeeded',
+    };
+    if (options.idempotencyKey) {
+      this.refunds.set(options.idempotencyKey, refund);
+    }
+
+    return { ...refund };
+  }
+
+  /**
+   * Create a signed, Stripe-shaped webhook request about an intent
+   */
+  createWebhookEvent(
+    type: MockWebhookEventType,
+    paymentIntentId: string
+  ): { payload: string; signature: string } {
+    this.findIntent(paymentIntentId);
+
+    const now = this.now();
+    const event: StripeEvent = {
+      id: `evt_mock_${this.nextId++}`,
+      type,
+      created: Math.floor(now.getTime() / 1000),
+      data: {
+        object:
+          type === 'charge.refunded'
+            ? {
+                id: `ch_mock_${paymentIntentId}`,
+                object: 'charge',
+                payment_intent: paymentIntentId,
+              }
+            : { id: paymentIntentId, object: 'payment_intent' },
+      },
+    };
+    const payload = JSON.stringify(event);
+
+    return { payload, signature: signStripePayload(payload, this.webhookSecret, now) };
+  }
+
+  /**
+   * Verify that a webhook request was signed with the mock secret and read
+   * its event
+   */
+  async verifyWebhook(payload: string, signature: string | null): Promise<PaymentWebhookEvent> {
+    verifyStripeSignature(payload, signature, this.webhookSecret, this.now());
+    return parseStripeEvent(payload);
+  }
+}
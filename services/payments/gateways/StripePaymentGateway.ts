@@ -0,0 +1,266 @@
+/**
+ * Stripe Payment Gateway Implementation
+ *
+ * Concrete implementation of IPaymentGateway using Stripe's REST API.
+ * Payment intents are created with manual capture, so the client's card is
+ * authorized when they book and only charged when the practitioner
+ * confirms. The client is meant to enter their card details against the
+ * intent's client secret, but the app has no card entry step yet (no page
+ * passes the secret to the browser), so intents stay in
+ * requires_payment_method and are never captured: real payments are not
+ * wired up. Requests are form-encoded and authenticated with the
+ * secret key; creates and refunds send an Idempotency-Key so retries never
+ * create a second intent or refund.
+ *
+ * Server-only: the secret key must never reach the browser.
+ */
+
+import type {
+  CreatePaymentIntentInput,
+  IPaymentGateway,
+  PaymentIntent,
+  PaymentIntentStatus,
+  PaymentRefund,
+  PaymentWebhookEvent,
+  RefundOptions,
+} from '../interfaces/IPaymentGateway';
+import { parseStripeEvent, verifyStripeSignature } from './stripeWebhooks';
+
+/**
+ * Stripe payment intent, as returned by the API
+ */
+interface StripePaymentIntent {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  client_secret: string | null;
+  metadata: Record<string, string>;
+  latest_charge?: string | { amount_refunded: number } | null;
+}
+
+/**
+ * Stripe refund, as returned by the API
+ */
+interface StripeRefund {
+  id: string;
+  payment_intent: string;
+  amount: number;
+  status: string;
+}
+
+/**
+ * Stripe gateway options
+ */
+export interface StripePaymentGatewayOptions {
+  /**
+   * Secret API key (sk_live_... or sk_test_...)
+   */
+  secretKey: string;
+
+  /**
+   * Signing secret of the webhook endpoint (whsec_...)
+   */
+  webhookSecret: string;
+
+  /**
+   * API base URL (defaults to Stripe's)
+   */
+  apiBase?: string;
+
+  /**
+   * fetch implementation (defaults to the global one)
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * Stripe statuses of intents still waiting for the client
+ */
+const AWAITING_CLIENT = [
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+  'processing',
+];
+
+/**
+ * Stripe refund statuses and the gateway's
+ */
+const REFUND_STATUSES: Record<string, PaymentRefund['status']> = {
+  succeeded: 'succeeded',
+  pending: 'pending',
+  requires_action: 'pending',
+};
+
+/**
+ * Stripe Payment Gateway implementation
+ */
+export class StripePaymentGateway implements IPaymentGateway {
+  private readonly secretKey: string;
+  private readonly webhookSecret: string;
+  private readonly apiBase: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: StripePaymentGatewayOptions) {
+    this.secretKey = options.secretKey;
+    this.webhookSecret = options.webhookSecret;
+    this.apiBase = options.apiBase ?? 'https://api.stripe.com';
+    this.fetchImpl = options.fetch ?? fetch;
+  }
+
+  /**
+   * Make an API request, throwing Stripe's error message if it fails
+   */
+  private async request<T>(
+    method: 'GET' | 'POST',
+    path: string,
+    params: Record<string, string> = {},
+    idempotencyKey?: string
+  ): Promise<{ status: number; body: T }> {
+    const encoded = new URLSearchParams(params).toString();
+    const headers: Record<string, string> = { Authorization: `Bearer ${this.secretKey}` };
+    if (method === 'POST') {
+      headers['Content-Type'] = 'application/x-www-form-urlencoded';
+    }
+    if (idempotencyKey) {
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
+
+    const response = await this.fetchImpl(
+      `${this.apiBase}${path}${method === 'GET' && encoded ? `?${encoded}` : ''}`,
+      { method, headers, body: method === 'POST' ? encoded : undefined }
+    );
+    const body = await response.json();
+
+    if (!response.ok && response.status !== 404) {
+      throw new Error(body?.error?.message ?? `Stripe request failed (${response.status})`);
+    }
+
+    return { status: response.status, body: body as T };
+  }
+
+  /**
+   * Convert a Stripe payment intent to the gateway's shape
+   */
+  private toPaymentIntent(intent: StripePaymentIntent): PaymentIntent {
+    const status: PaymentIntentStatus = AWAITING_CLIENT.includes(intent.status)
+      ? 'requires_payment_method'
+      : (intent.status as PaymentIntentStatus);
+
+    return {
+      id: intent.id,
+      amount: intent.amount,
+      currency: intent.currency,
+      status,
+      amountRefunded:
+        typeof intent.latest_charge === 'object' && intent.latest_charge
+          ? intent.latest_charge.amount_refunded
+          : 0,
+      clientSecret: intent.client_secret,
+      metadata: intent.metadata ?? {},
+    };
+  }
+
+  /**
+   * Create a payment intent to be captured later
+   */
+  async createIntent(input: CreatePaymentIntentInput): Promise<PaymentIntent> {
+    const params: Record<string, string> = {
+      amount: String(input.amount),
+      currency: input.currency.toLowerCase(),
+      capture_method: 'manual',
+      'automatic_payment_methods[enabled]': 'true',
+    };
+    for (const [key, value] of Object.entries(input.metadata)) {
+      params[`metadata[${key}]`] = value;
+    }
+
+    const { body } = await this.request<StripePaymentIntent>(
+      'POST',
+      '/v1/payment_intents',
+      params,
+      input.idempotencyKey
+    );
+
+    return this.toPaymentIntent(body);
+  }
+
+  /**
+   * Get payment intent by ID
+   */
+  async getIntent(paymentIntentId: string): Promise<PaymentIntent | null> {
+    const { status, body } = await this.request<StripePaymentIntent>(
+      'GET',
+      `/v1/payment_intents/${encodeURIComponent(paymentIntentId)}`,
+      { 'expand[]': 'latest_charge' }
+    );
+
+    return status === 404 ? null : this.toPaymentIntent(body);
+  }
+
+  /**
+   * Capture an authorized payment intent
+   */
+  async captureIntent(paymentIntentId: string): Promise<PaymentIntent> {
+    const { status, body } = await this.request<StripePaymentIntent>(
+      'POST',
+      `/v1/payment_intents/${encodeURIComponent(paymentIntentId)}/capture`
+    );
+    if (status === 404) {
+      throw new Error(`Payment not found: ${paymentIntentId}`);
+    }
+
+    return this.toPaymentIntent(body);
+  }
+
+  /**
+   * Release a payment intent that has not been captured
+   */
+  async cancelIntent(paymentIntentId: string): Promise<PaymentIntent> {
+    const { status, body } = await this.request<StripePaymentIntent>(
+      'POST',
+      `/v1/payment_intents/${encodeURIComponent(paymentIntentId)}/cancel`
+    );
+    if (status === 404) {
+      throw new Error(`Payment not found: ${paymentIntentId}`);
+    }
+
+    return this.toPaymentIntent(body);
+  }
+
+  /**
+   * Refund all or part of a captured payment
+   */
+  async refund(paymentIntentId: string, options: RefundOptions = {}): Promise<PaymentRefund> {
+    const params: Record<string, string> = { payment_intent: paymentIntentId };
+    if (options.amount !== undefined) {
+      params.amount = String(options.amount);
+    }
+
+    const { status, body } = await this.request<StripeRefund>(
+      'POST',
+      '/v1/refunds',
+      params,
+      options.idempotencyKey
+    );
+    if (status === 404) {
+      throw new Error(`Payment not found: ${paymentIntentId}`);
+    }
+
+    return {
+      id: body.id,
+      paymentIntentId: body.payment_intent,
+      amount: body.amount,
+      status: REFUND_STATUSES[body.status] ?? 'failed',
+    };
+  }
+
+  /**
+   * Verify that a webhook request came from Stripe and read its event
+   */
+  async verifyWebhook(payload: string, signature: string | null): Promise<PaymentWebhookEvent> {
+    verifyStripeSignature(payload, signature, this.webhookSecret);
+    return parseStripeEvent(payload);
+  }
+}
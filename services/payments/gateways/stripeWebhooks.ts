@@ -0,0 +1,123 @@
+/**
+ * Stripe webhook signatures and events
+ *
+ * Signs and verifies webhook payloads the way Stripe does: the
+ * Stripe-Signature header carries a Unix timestamp and an HMAC-SHA256 of
+ * "timestamp.payload" keyed with the endpoint's signing secret
+ * (`t=1700000000,v1=5257a8...`). Old timestamps are rejected so captured
+ * requests cannot be replayed. Also maps Stripe event types to the
+ * payment events the app reacts to. Shared by the Stripe gateway and the
+ * mock gateway, which sends Stripe-shaped events.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { WebhookVerificationError } from '../errors';
+import type { PaymentWebhookEvent } from '../interfaces/IPaymentGateway';
+import type { PaymentEventType } from '@/types/firestore';
+
+/**
+ * How old a signed webhook may be, in seconds (Stripe's default tolerance)
+ */
+export const WEBHOOK_TOLERANCE_SECONDS = 300;
+
+/**
+ * Stripe event types and the payment events they are
+ */
+const EVENT_TYPES: Record<string, PaymentEventType> = {
+  'payment_intent.amount_capturable_updated': 'payment.authorized',
+  'payment_intent.succeeded': 'payment.captured',
+  'payment_intent.canceled': 'payment.cancelled',
+  'payment_intent.payment_failed': 'payment.failed',
+  'charge.refunded': 'payment.refunded',
+};
+
+/**
+ * The parts of a Stripe event the app reads
+ */
+export interface StripeEvent {
+  id: string;
+  type: string;
+  created: number; // Unix seconds
+  data: {
+    object: {
+      id: string;
+      object: string; // 'payment_intent' or 'charge'
+      payment_intent?: string | null; // On charges
+    };
+  };
+}
+
+const hmac = (secret: string, timestamp: number, payload: string) =>
+  createHmac('sha256', secret).update(`${timestamp}.${payload}`, 'utf8').digest('hex');
+
+/**
+ * Sign a webhook payload, returning the Stripe-Signature header value
+ */
+export function signStripePayload(payload: string, secret: string, now: Date = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000);
+  return `t=${timestamp},v1=${hmac(secret, timestamp, payload)}`;
+}
+
+/**
+ * Check a Stripe-Signature header against the payload
+ *
+ * @throws WebhookVerificationError if the header is missing or malformed,
+ *   no signature matches, or the timestamp is outside the tolerance
+ */
+export function verifyStripeSignature(
+  payload: string,
+  header: string | null,
+  secret: string,
+  now: Date = new Date()
+): void {
+  if (!header) {
+    throw new WebhookVerificationError('Missing webhook signature');
+  }
+
+  const parts = header.split(',').map((part) => part.trim().split('='));
+  const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value ?? '');
+  if (!Number.isInteger(timestamp) || signatures.length === 0) {
+    throw new WebhookVerificationError('Malformed webhook signature');
+  }
+
+  const expected = Buffer.from(hmac(secret, timestamp, payload), 'hex');
+  const matches = signatures.some((signature) => {
+    const candidate = Buffer.from(signature, 'hex');
+    return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+  });
+  if (!matches) {
+    throw new WebhookVerificationError('Invalid webhook signature');
+  }
+
+  if (Math.abs(now.getTime() / 1000 - timestamp) > WEBHOOK_TOLERANCE_SECONDS) {
+    throw new WebhookVerificationError('Webhook signature has expired');
+  }
+}
+
+/**
+ * Read a verified Stripe event payload
+ *
+ * @throws WebhookVerificationError if the payload is not a Stripe event
+ */
+export function parseStripeEvent(payload: string): PaymentWebhookEvent {
+  let event: StripeEvent;
+  try {
+    event = JSON.parse(payload) as StripeEvent;
+  } catch {
+    throw new WebhookVerificationError('Webhook payload is not valid JSON');
+  }
+
+  if (typeof event?.id !== 'string' || typeof event.type !== 'string' || !event.data?.object) {
+    throw new WebhookVerificationError('Webhook payload is not a payment event');
+  }
+
+  const object = event.data.object;
+  return {
+    id: event.id,
+    type: EVENT_TYPES[event.type] ?? 'other',
+    paymentIntentId:
+      object.object === 'payment_intent' ? object.id : (object.payment_intent ?? null),
+    createdAt: new Date(event.created * 1000),
+  };
+}
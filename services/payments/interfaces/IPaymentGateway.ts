@@ -0,0 +1,144 @@
+/**
+ * Payment Gateway Interface
+ *
+ * Defines the contract for taking payments through a payment provider.
+ * Payments are authorized first and captured later, so a booking request
+ * holds the client's funds until the practitioner confirms it.
+ * Follows SOLID principles: Interface Segregation and Dependency Inversion.
+ */
+
+import type { PaymentEventType } from '@/types/firestore';
+
+/**
+ * Where a payment intent is:
+ * - 'requires_payment_method': waiting for the client's payment details
+ * - 'requires_capture': authorized, waiting to be captured
+ * - 'succeeded': captured
+ * - 'canceled': released without charging
+ */
+export type PaymentIntentStatus =
+  | 'requires_payment_method'
+  | 'requires_capture'
+  | 'succeeded'
+  | 'canceled';
+
+/**
+ * A payment the provider is taking
+ */
+export interface PaymentIntent {
+  id: string;
+  amount: number; // Amount in cents (in currency)
+  currency: string; // Lowercase ISO currency code, e.g. "usd"
+  status: PaymentIntentStatus;
+  amountRefunded: number; // Amount in cents refunded so far
+  clientSecret: string | null; // For entering payment details in the browser; not used yet
+  metadata: Record<string, string>;
+}
+
+/**
+ * Create payment intent input
+ */
+export interface CreatePaymentIntentInput {
+  amount: number; // Amount in cents
+  currency: string; // ISO currency code, in either case
+  metadata: Record<string, string>;
+
+  /**
+   * Retrying a create with the same key returns the intent already created
+   */
+  idempotencyKey: string;
+}
+
+/**
+ * Refund options
+ */
+export interface RefundOptions {
+  amount?: number; // Amount in cents to refund (defaults to what is left)
+
+  /**
+   * Retrying a refund with the same key returns the refund already made
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * A refund of a captured payment
+ */
+export interface PaymentRefund {
+  id: string;
+  paymentIntentId: string;
+  amount: number; // Amount in cents
+  status: 'pending' | 'succeeded' | 'failed';
+}
+
+/**
+ * A verified webhook event from the payment provider
+ */
+export interface PaymentWebhookEvent {
+  id: string; // Provider's event ID; the same event may be delivered more than once
+  type: PaymentEventType;
+  paymentIntentId: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Interface for payment gateway operations
+ */
+export interface IPaymentGateway {
+  /**
+   * Create a payment intent to be captured later
+   *
+   * @param input - Amount, currency, metadata and idempotency key
+   * @returns Promise resolving to the intent
+   * @throws Error if the provider rejects the payment
+   */
+  createIntent(input: CreatePaymentIntentInput): Promise<PaymentIntent>;
+
+  /**
+   * Get payment intent by ID
+   *
+   * @param paymentIntentId - Provider's payment intent ID
+   * @returns Promise resolving to the intent or null if not found
+   */
+  getIntent(paymentIntentId: string): Promise<PaymentIntent | null>;
+
+  /**
+   * Capture an authorized payment intent
+   *
+   * @param paymentIntentId - Provider's payment intent ID
+   * @returns Promise resolving to the captured intent
+   * @throws Error if the intent is not authorized
+   */
+  captureIntent(paymentIntentId: string): Promise<PaymentIntent>;
+
+  /**
+   * Release a payment intent that has not been captured
+   *
+   * @param paymentIntentId - Provider's payment intent ID
+   * @returns Promise resolving to the cancelled intent
+   * @throws Error if the intent was already captured
+   */
+  cancelIntent(paymentIntentId: string): Promise<PaymentIntent>;
+
+  /**
+   * Refund all or part of a captured payment
+   *
+   * @param paymentIntentId - Provider's payment intent ID
+   * @param options - Amount to refund and idempotency key
+   * @returns Promise resolving to the refund
+   * @throws Error if the intent was not captured or the amount is more than
+   *   what is left to refund
+   */
+  refund(paymentIntentId: string, options?: RefundOptions): Promise<PaymentRefund>;
+
+  /**
+   * Verify that a webhook request came from the provider and read its event
+   *
+   * @param payload - Raw request body
+   * @param signature - Signature header sent with the request
+   * @returns Promise resolving to the event
+   * @throws WebhookVerificationError if the signature is missing, wrong or
+   *   too old, or the payload is not an event
+   */
+  verifyWebhook(payload: string, signature: string | null): Promise<PaymentWebhookEvent>;
+}
@@ -0,0 +1,64 @@
+/**
+ * Payment gateway selection
+ *
+ * Returns the gateway configured by PAYMENT_GATEWAY. Only 'mock', the local
+ * mock gateway, can run for now: 'stripe' is refused because the app has no
+ * step for clients to enter their card against a Stripe intent, so its
+ * payments would never be authorized or captured (see
+ * StripePaymentGateway). Once that step exists, 'stripe' will use
+ * STRIPE_SECRET_KEY and STRIPE_WEBHOOK_SECRET. The mock is only
+ * allowed when NODE_ENV is 'development' or 'test': its webhook secret
+ * defaults to a public value, so anywhere else forged webhooks could mark
+ * payments paid. There is no default; an unset or unknown value is an
+ * error rather than a silent fallback to the mock. The instance is kept on
+ * globalThis because the mock gateway holds its intents in memory, which
+ * must survive hot module reloading.
+ *
+ * Server-only: import it from API routes, never from components or hooks.
+ */
+
+import type { IPaymentGateway } from './interfaces/IPaymentGateway';
+import { MockPaymentGateway } from './gateways/MockPaymentGateway';
+
+declare global {
+  // Survives hot module reloading, so the mock gateway keeps its intents
+  var paymentGateway: IPaymentGateway | undefined;
+}
+
+/**
+ * Environments the mock gateway may run in
+ */
+const MOCK_ENVIRONMENTS = ['development', 'test'];
+
+/**
+ * Create the gateway configured by the environment
+ *
+ * @throws Error if PAYMENT_GATEWAY is unset or unknown, if it is 'stripe',
+ *   or if it is 'mock' outside development and tests
+ */
+export function createPaymentGateway(env: NodeJS.ProcessEnv = process.env): IPaymentGateway {
+  switch (env.PAYMENT_GATEWAY) {
+    case 'stripe':
+      throw new Error(
+        'The Stripe payment gateway is not supported yet: clients cannot enter their card, ' +
+          'so payments would never be captured'
+      );
+
+    case 'mock':
+      if (!MOCK_ENVIRONMENTS.includes(env.NODE_ENV ?? '')) {
+        throw new Error(`The mock payment gateway cannot run with NODE_ENV=${env.NODE_ENV}`);
+      }
+      return new MockPaymentGateway({ webhookSecret: env.MOCK_PAYMENT_WEBHOOK_SECRET });
+
+    default:
+      throw new Error(`PAYMENT_GATEWAY must be 'mock' (got '${env.PAYMENT_GATEWAY ?? ''}')`);
+  }
+}
+
+/**
+ * Get the configured gateway, creating it on first use
+ */
+export function getPaymentGateway(): IPaymentGateway {
+  globalThis.paymentGateway ??= createPaymentGateway();
+  return globalThis.paymentGateway;
+}
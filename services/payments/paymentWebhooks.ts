@@ -0,0 +1,52 @@
+/**
+ * Payment webhook handling
+ *
+ * Verifies a webhook request with the payment gateway and applies its
+ * event to the appointment it pays for through the payment event
+ * repository, which records every event so redeliveries are recognized.
+ * Kept apart from the route so recorded events can be replayed in tests.
+ */
+
+import { paymentEventRepository } from '@/services/firestore/repositories/PaymentEventRepository';
+import type {
+  ApplyPaymentEventResult,
+  IPaymentEventRepository,
+} from '@/services/firestore/interfaces/IPaymentEventRepository';
+import type { IPaymentGateway } from './interfaces/IPaymentGateway';
+import { getPaymentGateway } from './paymentGateway';
+
+/**
+ * Gateway and repository the handler works with
+ */
+export interface PaymentWebhookDependencies {
+  gateway: Pick<IPaymentGateway, 'verifyWebhook'>;
+  paymentEvents: Pick<IPaymentEventRepository, 'applyEvent'>;
+}
+
+const defaultDependencies = (): PaymentWebhookDependencies => ({
+  gateway: getPaymentGateway(),
+  paymentEvents: paymentEventRepository,
+});
+
+/**
+ * Verify a webhook request and apply its event
+ *
+ * @param payload - Raw request body
+ * @param signature - Signature header sent with the request
+ * @returns The recorded event and whether it had already been received
+ * @throws WebhookVerificationError if the request is not a signed event
+ */
+export async function handlePaymentWebhook(
+  payload: string,
+  signature: string | null,
+  deps: PaymentWebhookDependencies = defaultDependencies()
+): Promise<ApplyPaymentEventResult> {
+  const event = await deps.gateway.verifyWebhook(payload, signature);
+
+  return deps.paymentEvents.applyEvent({
+    id: event.id,
+    type: event.type,
+    paymentIntentId: event.paymentIntentId,
+    occurredAt: event.createdAt,
+  });
+}
@@ -25,6 +25,135 @@ export interface UserDocument {
   bio?: string | null;
 }
 
+/**
+ * A block of working time within a day
+ */
+export interface TimeInterval {
+  start: string; // "09:00" in 24-hour format
+  end: string; // "17:00" in 24-hour format
+}
+
+/**
+ * Working hours for one day of the week (e.g., a morning and an afternoon block)
+ */
+export interface DayWorkingHours {
+  enabled: boolean;
+  intervals: TimeInterval[];
+}
+
+/**
+ * Single-block working hours written before multiple intervals were supported.
+ * PractitionerRepository upgrades these to DayWorkingHours when reading.
+ */
+export interface LegacyDayWorkingHours {
+  start: string;
+  end: string;
+  enabled: boolean;
+}
+
+/**
+ * Weekly working hours keyed by day name ("monday", "tuesday", etc.)
+ */
+export interface WorkingHours {
+  [dayOfWeek: string]: DayWorkingHours;
+}
+
+/**
+ * Working hours for a specific date, replacing the weekly template that day
+ */
+export interface AvailabilityOverride {
+  date: string; // "yyyy-MM-dd" in the practitioner's timezone
+  intervals: TimeInterval[]; // Empty means unavailable all day
+}
+
+/**
+ * A period the practitioner is unavailable (vacation or partial-day block)
+ */
+export interface TimeOffPeriod {
+  id: string;
+  start: Timestamp;
+  end: Timestamp;
+  allDay: boolean;
+  reason?: string | null;
+}
+
+/**
+ * Practitioner availability rules
+ */
+export interface AvailabilityRules {
+  timezone: string; // IANA timezone (e.g., "America/New_York")
+  workingHours: WorkingHours;
+  overrides?: AvailabilityOverride[]; // Take precedence over workingHours on their date
+  blockedDates?: Timestamp[]; // Whole days off, evaluated in the practitioner's timezone
+  timeOff?: TimeOffPeriod[];
+  minBookingNotice?: number; // Minimum hours notice required
+  maxBookingAdvance?: number; // Maximum days in advance
+}
+
+/**
+ * How a session is delivered
+ */
+export type SessionFormat = 'online' | 'in-person';
+
+/**
+ * A kind of session a practitioner offers (e.g., "Initial Assessment", "Reiki 90")
+ */
+export interface SessionType {
+  id: string;
+  name: string;
+  description?: string | null;
+  duration: number; // Minutes
+  price: number; // Price in cents (initial rate for new clients)
+  followUpPrice?: number | null; // Price in cents for returning clients; defaults to price
+  format: SessionFormat;
+  newClientsOnly: boolean; // Only offered to clients who have not booked before
+  procedureCode?: string | null; // CPT code billed on superbills (e.g., "90837")
+  diagnosisCodes?: string[]; // ICD-10 codes printed on superbills (e.g., "F41.1")
+}
+
+/**
+ * Which rate an appointment was priced at: initial consultation for clients
+ * with no completed sessions with the practitioner, follow-up otherwise
+ */
+export type PricingTier = 'initial' | 'follow-up';
+
+/**
+ * Session type details copied onto an appointment when it is booked
+ */
+export type BookedSessionType = Pick<SessionType, 'id' | 'name' | 'duration' | 'format'>;
+
+/**
+ * What clients owe for cancelling late or missing a session. Fees are a
+ * percentage of the price quoted for the appointment.
+ */
+export interface CancellationPolicy {
+  freeCancellationHours: number; // Clients can cancel free of charge until this long before the start
+  lateCancellationFeePercent: number; // Charged for later cancellations (0-100)
+  noShowFeePercent: number; // Charged when the client misses the session (0-100)
+}
+
+/**
+ * How clients may move their appointments to another time
+ * (practitioners can always reschedule)
+ */
+export interface ReschedulePolicy {
+  requireApproval: boolean; // Client requests wait for the practitioner to accept them
+  minNoticeHours: number; // Clients cannot reschedule closer than this to the start time
+}
+
+/**
+ * Details a practitioner prints on invoices
+ */
+export interface BillingDetails {
+  businessName?: string | null; // Invoiced as; defaults to the display name
+  address?: string | null; // Postal address, one line per line
+  taxId?: string | null; // Tax registration number (e.g., VAT number or EIN)
+  licenseNumber?: string | null; // Professional license, printed on superbills
+  npi?: string | null; // National Provider Identifier, printed on superbills
+  taxLabel?: string | null; // Name of the tax (e.g., "VAT"); defaults to "Tax"
+  taxRatePercent?: number; // Tax included in session prices (0-100); defaults to 0
+}
+
 /**
  * Practitioner document structure
  * Collection: practitioners/{practitionerId}
@@ -41,20 +170,15 @@ export interface PractitionerDocument {
     followUpSession: number; // Price in cents
     currency: string; // Currency code (e.g., "USD", "GBP")
   };
-  availabilityRules: {
-    timezone: string; // IANA timezone (e.g., "America/New_York")
-    workingHours: {
-      [dayOfWeek: string]: { // "monday", "tuesday", etc.
-        start: string; // "09:00" in 24-hour format
-        end: string; // "17:00" in 24-hour format
-        enabled: boolean;
-      };
-    };
-    blockedDates?: Timestamp[];
-    minBookingNotice?: number; // Minimum hours notice required
-    maxBookingAdvance?: number; // Maximum days in advance
-  };
+  availabilityRules: AvailabilityRules;
   sessionDuration: number; // Default session duration in minutes
+  sessionTypes?: SessionType[]; // Offered session types; a default is derived from pricing when empty
+  noteTemplates?: SessionNoteTemplate[]; // Own note templates, offered alongside the built-in ones
+  reschedulePolicy?: ReschedulePolicy; // Defaults to DEFAULT_RESCHEDULE_POLICY when missing
+  cancellationPolicy?: CancellationPolicy; // Defaults to DEFAULT_CANCELLATION_POLICY when missing
+  requestExpiryHours?: number; // Unanswered requests expire this long after booking; defaults to DEFAULT_REQUEST_EXPIRY_HOURS
+  waitlistHoldHours?: number; // How long waitlist offers are held; defaults to DEFAULT_WAITLIST_HOLD_HOURS
+  billing?: BillingDetails; // Printed on invoices and superbills; see getBillingDetails
   createdAt: Timestamp;
   updatedAt: Timestamp;
   isActive: boolean;
@@ -68,9 +192,116 @@ export interface PractitionerDocument {
 export type AppointmentStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'no-show';
 
 /**
- * Payment status types (future feature)
+ * Party acting on an appointment. 'system' is the scheduled jobs (see
+ * services/jobs), which also book waitlist offers.
+ */
+export type AppointmentActor = 'client' | 'practitioner' | 'system';
+
+/**
+ * One entry of an appointment's status history
+ */
+export interface StatusChange {
+  from: AppointmentStatus | null; // null for the booking itself
+  to: AppointmentStatus;
+  changedAt: Timestamp;
+  changedBy: AppointmentActor;
+}
+
+/**
+ * Where an appointment's payment is: authorized when booked ('pending'),
+ * captured once the practitioner confirms ('paid'), and then possibly
+ * refunded. 'cancelled' means the authorization was released without
+ * charging, e.g. when a request was declined. Changes follow
+ * PAYMENT_STATUS_TRANSITIONS in lib/payments/appointmentPayments.ts.
+ */
+export type PaymentStatus = 'pending' | 'paid' | 'refunded' | 'cancelled';
+
+/**
+ * Why a cancelled appointment's payment was refunded: in full when the
+ * practitioner or the system cancelled or the client cancelled in time
+ * ('cancelled-in-time'), less the late cancellation fee otherwise
+ * ('late-cancellation')
+ */
+export type RefundReason =
+  | 'practitioner-cancelled'
+  | 'system-cancelled'
+  | 'cancelled-in-time'
+  | 'late-cancellation';
+
+/**
+ * Refund of a cancelled appointment's captured payment (see
+ * lib/payments/refunds.ts)
+ */
+export interface AppointmentRefund {
+  amount: number; // Amount in cents refunded; 0 when the fee kept the whole payment
+  reason: RefundReason;
+  refundId: string | null; // The payment gateway's refund ID; null when nothing was refunded
+  refundedAt: Timestamp;
+}
+
+/**
+ * Who moved or asked to move an appointment
  */
-export type PaymentStatus = 'pending' | 'paid' | 'refunded';
+export type RescheduledBy = 'client' | 'practitioner';
+
+/**
+ * Times an appointment had before it was rescheduled
+ */
+export interface RescheduleRecord {
+  startTime: Timestamp; // Previous start
+  endTime: Timestamp; // Previous end
+  rescheduledAt: Timestamp;
+  rescheduledBy: RescheduledBy;
+}
+
+/**
+ * A client's request to move an appointment, awaiting the practitioner
+ */
+export interface RescheduleRequest {
+  startTime: Timestamp; // Proposed start
+  endTime: Timestamp; // Proposed end
+  requestedAt: Timestamp;
+  requestedBy: RescheduledBy;
+}
+
+/**
+ * How often a recurring series repeats
+ */
+export type RecurrenceFrequency = 'weekly' | 'biweekly' | 'monthly';
+
+/**
+ * Repeat pattern of a recurring series. Occurrences keep the first one's
+ * wall-clock time in the practitioner's time zone; monthly series fall on
+ * the last day of shorter months.
+ */
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  count?: number | null; // Number of occurrences, including the first
+  until?: Timestamp | null; // No occurrence starts after this
+}
+
+/**
+ * Which appointments of a series a change applies to
+ */
+export type SeriesScope = 'this' | 'following' | 'all';
+
+/**
+ * Terms of a freed slot offered to a waitlisted client. The offer is a
+ * pending appointment that holds the slot until the client accepts it (it
+ * then awaits the practitioner like any request) or it expires.
+ */
+export interface WaitlistOfferTerms {
+  entryId: string; // Waitlist entry the offer was made to
+  expiresAt: Timestamp; // Released unless accepted by then
+  acceptedAt: Timestamp | null;
+  passedEntryIds: string[]; // Entries already offered this slot, not to be offered it again
+}
+
+/**
+ * Whether a cancelled appointment's time has been offered to the waitlist:
+ * 'pending' until the waitlist job has looked for a match
+ */
+export type WaitlistReleaseStatus = 'pending' | 'offered' | 'unmatched';
 
 /**
  * Appointment document structure
@@ -82,11 +313,14 @@ export interface AppointmentDocument {
   practitionerId: string;
   startTime: Timestamp;
   endTime: Timestamp;
-  status: AppointmentStatus;
+  status: AppointmentStatus; // Changes follow STATUS_TRANSITIONS in lib/scheduling/appointmentStatus.ts
+  statusHistory?: StatusChange[]; // Oldest first; missing on appointments booked before it was recorded
   createdAt: Timestamp;
   updatedAt: Timestamp;
   cancelledAt?: Timestamp | null;
-  cancelledBy?: 'client' | 'practitioner' | null;
+  cancelledBy?: AppointmentActor | null; // 'system' when a pending request expired unanswered
+  lateCancellation?: boolean | null; // Cancelled by the client inside the free-cancellation window
+  feeOwed?: number | null; // Late-cancellation or no-show fee in cents (in currency)
   notes?: string | null;
   practitionerNotes?: string | null;
   reminderSent?: boolean;
@@ -94,13 +328,262 @@ export interface AppointmentDocument {
   intakeFormCompleted?: boolean;
   intakeFormId?: string | null;
   sessionId?: string | null;
-  paymentStatus?: PaymentStatus | null;
-  paymentIntentId?: string | null;
+  paymentStatus?: PaymentStatus | null; // null while nothing is owed or no payment was started
+  paymentIntentId?: string | null; // The payment gateway's ID for the appointment's payment
+  refund?: AppointmentRefund | null; // Set once the payment of a cancelled appointment is refunded
+  invoiceId?: string | null; // Set once an invoice is issued for its payment
   meetingLink?: string | null;
+  sessionType?: BookedSessionType | null;
+  quotedPrice?: number | null; // Price in cents shown to the client when booking
+  currency?: string | null; // Currency of quotedPrice
+  pricingTier?: PricingTier | null; // Rate quotedPrice was taken from
+  quoteVerified?: boolean | null; // Set once the payment sync has priced it from the practitioner's rates
+  rescheduleHistory?: RescheduleRecord[]; // Previous times, oldest first
+  pendingReschedule?: RescheduleRequest | null;
+  cancellationPolicy?: CancellationPolicy | null; // Practitioner's policy when booked; null means the defaults
+  seriesId?: string | null; // Shared by the appointments of a recurring series (the first one's ID)
+  seriesIndex?: number | null; // Position in the series pattern, 0 for the first occurrence
+  recurrence?: RecurrenceRule | null; // Pattern the series was booked with
+  waitlistOffer?: WaitlistOfferTerms | null; // Set when booked for a waitlisted client
+  waitlistRelease?: WaitlistReleaseStatus | null; // Set when cancelled before it started
+}
+
+/**
+ * Payment events the app reacts to, as reported by the payment gateway's
+ * webhooks. Provider events that do not map to one of these are 'other'.
+ */
+export type PaymentEventType =
+  | 'payment.authorized'
+  | 'payment.captured'
+  | 'payment.cancelled'
+  | 'payment.refunded'
+  | 'payment.failed'
+  | 'other';
+
+/**
+ * What a webhook event did:
+ * - 'applied': moved the appointment's paymentStatus on
+ * - 'ignored': asked for no change, or for the status already recorded
+ * - 'stale': arrived after a later event had moved the payment past it
+ * - 'unmatched': no appointment has the event's payment intent
+ */
+export type PaymentEventOutcome = 'applied' | 'ignored' | 'stale' | 'unmatched';
+
+/**
+ * Payment event document structure
+ * Collection: paymentEvents/{eventId}
+ *
+ * One document per webhook event received, with the provider's event ID as
+ * its ID. Written in the same transaction as the appointment's payment
+ * status, so an event delivered again is recognized and not applied twice.
+ */
+export interface PaymentEventDocument {
+  id: string; // Provider's event ID
+  type: PaymentEventType;
+  paymentIntentId: string | null;
+  appointmentId: string | null;
+  outcome: PaymentEventOutcome;
+  paymentStatus: PaymentStatus | null; // Appointment's payment status after the event
+  occurredAt: Timestamp; // When the provider created the event
+  receivedAt: Timestamp;
+}
+
+/**
+ * Practitioner or client as printed on an invoice
+ */
+export interface InvoiceParty {
+  name: string;
+  email: string | null;
+  address?: string | null; // Practitioner only
+  taxId?: string | null; // Practitioner only
+}
+
+/**
+ * Invoice document structure
+ * Collection: invoices/{appointmentId}
+ *
+ * Receipt for a paid appointment, keyed by the appointment's ID so each
+ * appointment has at most one. Details are copied when it is issued, so
+ * later profile changes do not alter it. Numbers run in sequence per
+ * practitioner, drawn from invoiceCounters in the transaction that writes
+ * the invoice.
+ */
+export interface InvoiceDocument {
+  id: string; // The appointment's ID
+  number: string; // Shown to clients (e.g., "INV-000042"), see formatInvoiceNumber
+  sequence: number; // Position in the practitioner's invoices, from 1
+  appointmentId: string;
+  practitionerId: string;
+  clientId: string;
+  practitioner: InvoiceParty;
+  client: InvoiceParty;
+  service: string; // Session type name, or "Session" when none was booked
+  duration: number; // Minutes
+  sessionDate: Timestamp;
+  currency: string;
+  subtotal: number; // Cents before tax
+  taxLabel: string;
+  taxRatePercent: number;
+  tax: number; // Cents
+  total: number; // Cents paid, tax included
+  issuedAt: Timestamp;
+}
+
+/**
+ * Invoice counter document structure
+ * Collection: invoiceCounters/{practitionerId}
+ */
+export interface InvoiceCounterDocument {
+  lastSequence: number; // Sequence of the practitioner's latest invoice
+  lastInvoiceId: string;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Owner of a slot lock: the practitioner being booked or the booking client
+ */
+export type SlotLockOwnerType = 'practitioner' | 'client';
+
+/**
+ * Slot lock document structure
+ * Collection: slotLocks/{ownerType}_{ownerId}_{blockStartMillis}
+ *
+ * One document per fixed-size time block an appointment occupies, for both
+ * the practitioner and the client. Created in the same transaction as the
+ * appointment; because the ID is derived from the block, a second booking of
+ * an occupied block fails. Deleted when the appointment is cancelled, and
+ * moved with it when it is rescheduled.
+ */
+export interface SlotLockDocument {
+  ownerType: SlotLockOwnerType;
+  ownerId: string;
+  appointmentId: string;
+  practitionerId: string;
+  clientId: string;
+  startTime: Timestamp; // Block start
+  endTime: Timestamp; // Block end
+  blockIndex: number; // 0 for the first block of the appointment
+  appointmentStartTime: Timestamp;
+  appointmentEndTime: Timestamp;
+  createdAt: Timestamp;
+}
+
+/**
+ * Days and times a waitlisted client can attend, in the practitioner's
+ * time zone
+ */
+export interface WaitlistWindow extends TimeInterval {
+  day: string; // "monday", "tuesday", etc. (as in WorkingHours)
+}
+
+/**
+ * Waitlist entry status types
+ */
+export type WaitlistEntryStatus = 'waiting' | 'offered' | 'booked' | 'removed';
+
+/**
+ * Slot currently offered to a waitlist entry
+ */
+export interface WaitlistOffer {
+  appointmentId: string; // Pending appointment holding the slot
+  startTime: Timestamp;
+  endTime: Timestamp;
+  expiresAt: Timestamp;
+}
+
+/**
+ * Waitlist entry document structure
+ * Collection: waitlist/{entryId}
+ *
+ * A client waiting for a practitioner's time to free up. When an appointment
+ * is cancelled, the waitlist job offers its time to the oldest waiting entry
+ * whose windows it fits.
+ */
+export interface WaitlistEntryDocument {
+  id: string;
+  practitionerId: string;
+  clientId: string;
+  clientName?: string | null; // Shown to the practitioner
+  windows: WaitlistWindow[];
+  sessionType: BookedSessionType;
+  quotedPrice?: number | null; // Price in cents shown to the client when joining
+  currency?: string | null;
+  pricingTier?: PricingTier | null;
+  notes?: string | null;
+  status: WaitlistEntryStatus;
+  offer?: WaitlistOffer | null; // Set while status is 'offered', kept once 'booked'
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * What a notification is about
+ */
+export type NotificationType =
+  | 'appointment-completed'
+  | 'appointment-expired'
+  | 'waitlist-offer'
+  | 'waitlist-offer-expired';
+
+/**
+ * Notification document structure
+ * Collection: notifications/{notificationId}
+ *
+ * In-app message for a user, written by the scheduled jobs.
+ */
+export interface NotificationDocument {
+  id: string;
+  userId: string; // Recipient
+  type: NotificationType;
+  title: string;
+  message: string;
+  appointmentId?: string | null;
+  read: boolean;
+  createdAt: Timestamp;
+  readAt?: Timestamp | null;
+}
+
+/**
+ * A section of a structured session note template. The plan section can be
+ * carried forward into the client's next session note.
+ */
+export interface SessionNoteTemplateSection {
+  id: string;
+  title: string;
+  prompt?: string | null; // Guidance shown while the section is empty
+  isPlan?: boolean;
+}
+
+/**
+ * A structured session note template, such as SOAP, that splits the notes
+ * into sections. Built-in templates are defined in code; practitioners can
+ * add their own to their profile.
+ */
+export interface SessionNoteTemplate {
+  id: string;
+  name: string;
+  description?: string | null;
+  sections: SessionNoteTemplateSection[];
 }
 
 /**
- * Session document structure (future feature)
+ * A section of structured session notes, with the title and plan flag of
+ * the template section it was written in
+ */
+export interface SessionNoteSection {
+  id: string;
+  title: string;
+  content: string;
+  isPlan?: boolean;
+}
+
+/**
+ * Session document structure. Created by the practitioner once an
+ * appointment is completed, with the appointment's ID as its own; notes
+ * are saved as a draft until the practitioner finalizes them, after which
+ * they cannot be changed. Notes are free text or follow a note template,
+ * section by section. Private to the practitioner: finalizing shares
+ * the goals and homework with the client as a SharedSessionDocument.
  * Collection: sessions/{sessionId}
  */
 export interface SessionDocument {
@@ -108,23 +591,87 @@ export interface SessionDocument {
   appointmentId: string;
   clientId: string;
   practitionerId: string;
-  sessionDate: Timestamp;
-  notes: string;
-  clientNotes?: string | null;
+  sessionDate: Timestamp; // Appointment start time
+  notes: string; // Plain text; for structured notes, rendered from the sections
+  templateId?: string | null; // Note template the sections follow; null for free-text notes
+  sections?: SessionNoteSection[] | null;
   recordingUrl?: string | null;
   recordingTranscription?: string | null;
   goals?: string[];
-  homework?: string | null;
+  homework?: string[];
   nextSessionDate?: Timestamp | null;
   createdAt: Timestamp;
   updatedAt: Timestamp;
   isDraft: boolean;
+  finalizedAt?: Timestamp | null;
 }
 
 /**
- * Intake form field types
+ * The part of finalized session notes shared with the client: the goals
+ * and homework, which homework the client has done, and the client's own
+ * reflections. Has the same ID as the session.
+ * Collection: sharedSessions/{sessionId}
  */
-export type IntakeFormFieldType = 'text' | 'textarea' | 'select' | 'radio' | 'checkbox' | 'date' | 'number';
+export interface SharedSessionDocument {
+  id: string;
+  appointmentId: string;
+  clientId: string;
+  practitionerId: string;
+  sessionDate: Timestamp;
+  goals: string[];
+  homework: string[];
+  completedHomework: string[]; // Homework items the client has marked done
+  clientNotes: string | null;
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+/**
+ * Intake form field types. Scale answers are a whole number on the
+ * field's scale (1 to 10 unless its validation sets another range); a
+ * signature is the client's typed full name, agreeing to the field's
+ * description; a file answer is a link to a file the client shares.
+ */
+export type IntakeFormFieldType =
+  | 'text'
+  | 'textarea'
+  | 'select'
+  | 'radio'
+  | 'checkbox'
+  | 'date'
+  | 'number'
+  | 'scale'
+  | 'email'
+  | 'phone'
+  | 'signature'
+  | 'file';
+
+/**
+ * How a condition compares another field's answer: equals and notEquals
+ * compare it with the condition's value, includes checks a ticked option of
+ * a checkbox list, and answered checks that it was answered at all
+ */
+export type IntakeConditionOperator = 'equals' | 'notEquals' | 'includes' | 'answered';
+
+/**
+ * Condition on an earlier field's answer that shows a field or section.
+ * A hidden field counts as unanswered.
+ */
+export interface IntakeFieldCondition {
+  fieldId: string;
+  operator: IntakeConditionOperator;
+  value?: string | number | boolean | null;
+}
+
+/**
+ * Section of an intake form, shown to clients as a page of its own
+ */
+export interface IntakeFormSection {
+  id: string;
+  title: string;
+  description?: string | null;
+  showIf?: IntakeFieldCondition | null;
+}
 
 /**
  * Intake form field structure
@@ -133,31 +680,131 @@ export interface IntakeFormField {
   id: string;
   type: IntakeFormFieldType;
   label: string;
+  /**
+   * Help text shown with the question; for a signature, the statement the
+   * client agrees to
+   */
+  description?: string;
   placeholder?: string;
   required: boolean;
+  /**
+   * Choices for select and radio fields; a checkbox field with options lets
+   * the client tick several, one without is a single yes/no box
+   */
   options?: string[];
+  /**
+   * Length limits and pattern for text and textarea fields; value range for
+   * number and scale fields
+   */
   validation?: {
     min?: number;
     max?: number;
     pattern?: string;
   };
+  /**
+   * Section the field belongs to; required once the form has sections
+   */
+  sectionId?: string | null;
+  /**
+   * Only ask the question when this condition is met
+   */
+  showIf?: IntakeFieldCondition | null;
+}
+
+/**
+ * Answer to an intake form field: text for text, textarea, date (YYYY-MM-DD),
+ * select, radio, email, phone, signature and file fields, a number for
+ * number and scale fields, the ticked options of a checkbox field with
+ * options, or whether a single checkbox is ticked
+ */
+export type IntakeFormResponseValue = string | string[] | number | boolean;
+
+/**
+ * Range of questionnaire totals and what they indicate, e.g. 5 to 9 "Mild"
+ */
+export interface IntakeSeverityBand {
+  min: number;
+  max: number;
+  label: string;
+}
+
+/**
+ * How a scored questionnaire is scored: each scored question's chosen
+ * option is worth a number of points, the points are summed, and the total
+ * falls in one of the severity bands
+ */
+export interface IntakeFormScoring {
+  /**
+   * Points for each option of a scored question, in option order, keyed by
+   * field ID
+   */
+  points: Record<string, number[]>;
+  bands: IntakeSeverityBand[];
+}
+
+/**
+ * Score of a submitted questionnaire
+ */
+export interface IntakeFormScore {
+  total: number;
+  /**
+   * Highest total the questionnaire allows
+   */
+  max: number;
+  /**
+   * Label of the severity band the total falls in
+   */
+  severity: string | null;
 }
 
 /**
  * Intake form document structure
  * Collection: intakeForms/{formId}
+ *
+ * A submitted form keeps a copy of its template's title, description,
+ * sections, fields and version, so its answers still read correctly after
+ * the template changes.
  */
 export interface IntakeFormDocument {
   id: string;
   practitionerId: string;
   appointmentId?: string | null;
+  /**
+   * Template a submitted form answers
+   */
+  templateId?: string | null;
   type: 'template' | 'submitted';
   title: string;
   description?: string | null;
+  /**
+   * Pages of the form, in order; forms without sections are one page
+   */
+  sections?: IntakeFormSection[];
   fields: IntakeFormField[];
+  /**
+   * Template: revision of its sections and fields, starting at 1 and
+   * increased whenever they change. Submitted form: the revision it was
+   * filled in against.
+   */
+  version?: number;
+  /**
+   * Built-in questionnaire a scored template was added from (see
+   * lib/intake/questionnaires.ts)
+   */
+  questionnaireId?: string | null;
+  /**
+   * Scoring rules of a scored questionnaire; null for intake forms.
+   * Clients fill in active questionnaires for every appointment, alongside
+   * the intake form.
+   */
+  scoring?: IntakeFormScoring | null;
   responses?: {
-    [fieldId: string]: string | string[] | number | boolean;
+    [fieldId: string]: IntakeFormResponseValue;
   };
+  /**
+   * Score of a submitted questionnaire
+   */
+  score?: IntakeFormScore | null;
   submittedBy?: string | null;
   submittedAt?: Timestamp | null;
   createdAt: Timestamp;
@@ -203,20 +850,9 @@ export interface CreatePractitionerProfileInput {
     followUpSession: number;
     currency: string;
   };
-  availabilityRules?: {
-    timezone: string;
-    workingHours: {
-      [dayOfWeek: string]: {
-        start: string;
-        end: string;
-        enabled: boolean;
-      };
-    };
-    blockedDates?: Timestamp[];
-    minBookingNotice?: number;
-    maxBookingAdvance?: number;
-  };
+  availabilityRules?: AvailabilityRules;
   sessionDuration?: number;
+  sessionTypes?: SessionType[];
 }
 
 /**
@@ -232,20 +868,15 @@ export interface UpdatePractitionerProfileInput {
     followUpSession: number;
     currency: string;
   };
-  availabilityRules?: {
-    timezone: string;
-    workingHours: {
-      [dayOfWeek: string]: {
-        start: string;
-        end: string;
-        enabled: boolean;
-      };
-    };
-    blockedDates?: Timestamp[];
-    minBookingNotice?: number;
-    maxBookingAdvance?: number;
-  };
+  availabilityRules?: AvailabilityRules;
   sessionDuration?: number;
+  sessionTypes?: SessionType[];
+  noteTemplates?: SessionNoteTemplate[];
+  reschedulePolicy?: ReschedulePolicy;
+  cancellationPolicy?: CancellationPolicy;
+  requestExpiryHours?: number;
+  waitlistHoldHours?: number;
+  billing?: BillingDetails;
   isActive?: boolean;
 }
 
@@ -258,15 +889,50 @@ export interface CreateAppointmentInput {
   startTime: Timestamp;
   endTime: Timestamp;
   notes?: string | null;
+  sessionType?: BookedSessionType | null;
+  quotedPrice?: number | null;
+  currency?: string | null;
+  pricingTier?: PricingTier | null;
+  cancellationPolicy?: CancellationPolicy | null;
 }
 
 /**
- * Update appointment input (for repository methods)
+ * Create recurring appointment series input (for repository methods). The
+ * start and end times are those of the first occurrence.
+ */
+export interface CreateAppointmentSeriesInput extends CreateAppointmentInput {
+  recurrence: RecurrenceRule;
+}
+
+/**
+ * Create waitlist offer input (for repository methods): books the slot for
+ * the entry's client, held until expiresAt
+ */
+export interface CreateWaitlistOfferInput extends CreateAppointmentInput {
+  waitlistOffer: WaitlistOfferTerms;
+}
+
+/**
+ * Join waitlist input (for repository methods)
+ */
+export interface CreateWaitlistEntryInput {
+  practitionerId: string;
+  clientId: string;
+  clientName?: string | null;
+  windows: WaitlistWindow[];
+  sessionType: BookedSessionType;
+  quotedPrice?: number | null;
+  currency?: string | null;
+  pricingTier?: PricingTier | null;
+  notes?: string | null;
+}
+
+/**
+ * Update appointment input (for repository methods). Status changes go
+ * through updateAppointmentStatus and cancelAppointment instead.
  */
 export interface UpdateAppointmentInput {
-  status?: AppointmentStatus;
-  cancelledAt?: Timestamp | null;
-  cancelledBy?: 'client' | 'practitioner' | null;
+  feeOwed?: number | null;
   notes?: string | null;
   practitionerNotes?: string | null;
   reminderSent?: boolean;
@@ -276,6 +942,99 @@ export interface UpdateAppointmentInput {
   sessionId?: string | null;
   paymentStatus?: PaymentStatus | null;
   paymentIntentId?: string | null;
+  refund?: AppointmentRefund | null;
+  quotedPrice?: number | null;
+  currency?: string | null;
+  pricingTier?: PricingTier | null;
+  quoteVerified?: boolean | null;
   meetingLink?: string | null;
 }
 
+/**
+ * Apply payment event input (for repository methods): a verified webhook
+ * event from the payment gateway
+ */
+export interface ApplyPaymentEventInput {
+  id: string; // Provider's event ID
+  type: PaymentEventType;
+  paymentIntentId: string | null;
+  occurredAt: Date;
+}
+
+/**
+ * Issue invoice input (for repository methods): the invoice's details,
+ * numbered when it is issued
+ */
+export type IssueInvoiceInput = Omit<InvoiceDocument, 'id' | 'number' | 'sequence' | 'issuedAt'>;
+
+/**
+ * Create notification input (for repository methods)
+ */
+export interface CreateNotificationInput {
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  appointmentId?: string | null;
+}
+
+/**
+ * Create intake form template input (for repository methods)
+ */
+export interface CreateIntakeFormTemplateInput {
+  practitionerId: string;
+  title: string;
+  description?: string | null;
+  sections?: IntakeFormSection[];
+  fields: IntakeFormField[];
+  questionnaireId?: string | null;
+  scoring?: IntakeFormScoring | null;
+  isActive?: boolean;
+}
+
+/**
+ * Update intake form template input (for repository methods)
+ */
+export interface UpdateIntakeFormTemplateInput {
+  title?: string;
+  description?: string | null;
+  sections?: IntakeFormSection[];
+  fields?: IntakeFormField[];
+  isActive?: boolean;
+}
+
+/**
+ * Submit intake form input (for repository methods)
+ */
+export interface SubmitIntakeFormInput {
+  templateId: string;
+  appointmentId: string;
+  clientId: string;
+  /**
+   * Answers keyed by field ID, as entered; they are checked against the
+   * template's fields and unanswered questions are left out
+   */
+  responses: Record<string, unknown>;
+}
+
+/**
+ * Update session notes input (for repository methods). Only drafts can be
+ * updated.
+ */
+export interface UpdateSessionInput {
+  notes?: string; // Ignored when sections are given: the notes are rendered from them
+  templateId?: string | null;
+  sections?: SessionNoteSection[] | null;
+  goals?: string[];
+  homework?: string[];
+  nextSessionDate?: Timestamp | null;
+}
+
+/**
+ * Reschedule appointment input (for repository methods)
+ */
+export interface RescheduleAppointmentInput {
+  startTime: Timestamp;
+  endTime: Timestamp;
+  requestedBy: RescheduledBy;
+}